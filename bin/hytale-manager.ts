@@ -12,6 +12,14 @@ process.env.HYTALE_MANAGER_CWD ??= launchCwd;
 // bunx entrypoint: default to production-like runtime unless explicitly overridden.
 process.env.NODE_ENV ??= "production";
 
+// Offline install flags are handed to the server through the environment, like the listen flags.
+const INSTALL_ARCHIVE_FLAGS: Record<string, string> = {
+  "--install-archive": "HYTALE_INSTALL_ARCHIVE",
+  "--install-version": "HYTALE_INSTALL_ARCHIVE_VERSION",
+  "--install-sha256": "HYTALE_INSTALL_ARCHIVE_SHA256",
+  "--install-patchline": "HYTALE_INSTALL_ARCHIVE_PATCHLINE",
+};
+
 type ListenConfig = {
   host?: string;
   port?: string;
@@ -109,6 +117,9 @@ function parseListen(raw: string): ListenConfig {
 
 function printUsage(): void {
   console.log("Usage: hytale-manager [--listen <host:port|http(s)://host:port>] [--host <host>] [--port <port>]");
+  console.log(
+    "                      [--install-archive <server.zip> --install-version <label> [--install-sha256 <hex>] [--install-patchline <name>]]",
+  );
 }
 
 function applyListen(parsed: ListenConfig): void {
@@ -180,8 +191,28 @@ function applyCliArgs(argv: string[]): void {
       continue;
     }
 
+    const separator = arg.indexOf("=");
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const inlineValue = separator === -1 ? null : arg.slice(separator + 1);
+    const envName = INSTALL_ARCHIVE_FLAGS[flag];
+    if (envName) {
+      const value = inlineValue ?? argv[i + 1];
+      if (!value) {
+        throw new Error(`Missing value for ${flag}.`);
+      }
+      process.env[envName] = value;
+      if (inlineValue === null) {
+        i += 1;
+      }
+      continue;
+    }
+
     throw new Error(`Unknown argument: ${arg}`);
   }
+
+  if (process.env.HYTALE_INSTALL_ARCHIVE && !process.env.HYTALE_INSTALL_ARCHIVE_VERSION) {
+    throw new Error("--install-archive requires --install-version.");
+  }
 }
 
 try {
@@ -0,0 +1,168 @@
+import { AuditEvent, AuditEventFilter, AuditResult, PublicUser, recordAuditEvent } from "./db";
+import { AppError } from "./utils";
+
+// Successful polls, heartbeats and upload chunks would drown out real actions; failures are still recorded.
+const UNRECORDED_SUCCESS_ACTIONS = new Set(["ping", "server.status", "mod.upload.chunk"]);
+
+const REDACTED_KEY_PATTERN = /pass(word)?|token|secret|api_?key|authorization|cookie/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 4;
+
+export const AUDIT_PAGE_SIZE = 100;
+export const AUDIT_EXPORT_LIMIT = 10_000;
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  "id",
+  "occurredAt",
+  "userId",
+  "userEmail",
+  "action",
+  "result",
+  "status",
+  "error",
+  "ip",
+  "payload",
+];
+
+function sanitizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} chars)`
+      : value;
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return "[truncated]";
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => sanitizeValue(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`... (${value.length - MAX_ARRAY_ITEMS} more)`);
+    }
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = REDACTED_KEY_PATTERN.test(key) ? "[redacted]" : sanitizeValue(entry, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Serializes a command payload for the audit log with credentials redacted and large
+ * values (upload chunks, long lists) truncated.
+ */
+export function sanitizeAuditPayload(payload: unknown): string | null {
+  if (payload === undefined || payload === null) {
+    return null;
+  }
+
+  if (typeof payload === "object" && Object.keys(payload).length === 0) {
+    return null;
+  }
+
+  return JSON.stringify(sanitizeValue(payload, 0));
+}
+
+export function recordAudit(input: {
+  user: PublicUser | null;
+  email?: string | null;
+  action: string;
+  payload?: unknown;
+  status: number;
+  error?: string | null;
+  ip: string | null;
+}): void {
+  const result: AuditResult = input.status < 400 ? "success" : "failure";
+  if (result === "success" && UNRECORDED_SUCCESS_ACTIONS.has(input.action)) {
+    return;
+  }
+
+  try {
+    recordAuditEvent({
+      userId: input.user?.id ?? null,
+      userEmail: input.user?.email ?? input.email ?? null,
+      action: input.action,
+      payload: sanitizeAuditPayload(input.payload),
+      result,
+      status: input.status,
+      error: input.error ?? null,
+      ip: input.ip,
+    });
+  } catch (error) {
+    // A failing audit write must never turn a completed action into an error for the caller.
+    console.error("Failed to record audit event", error);
+  }
+}
+
+function optionalText(value: unknown): string | null {
+  const text = typeof value === "string" ? value.trim() : "";
+  return text || null;
+}
+
+function optionalTimestamp(value: unknown, name: string): string | null {
+  const text = optionalText(value);
+  if (!text) {
+    return null;
+  }
+
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new AppError(400, `${name} must be a valid date.`);
+  }
+  return parsed.toISOString();
+}
+
+/**
+ * Builds a query from loosely typed input (WebSocket payload or URL search params).
+ */
+export function parseAuditFilter(input: Record<string, unknown>, maxLimit = AUDIT_PAGE_SIZE): AuditEventFilter {
+  const result = optionalText(input.result);
+  if (result !== null && result !== "success" && result !== "failure") {
+    throw new AppError(400, 'result must be "success" or "failure".');
+  }
+
+  const beforeId = input.beforeId === undefined || input.beforeId === null || input.beforeId === "" ? null : Number(input.beforeId);
+  if (beforeId !== null && (!Number.isInteger(beforeId) || beforeId < 1)) {
+    throw new AppError(400, "beforeId must be a positive integer.");
+  }
+
+  const requestedLimit = Number(input.limit ?? maxLimit);
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, maxLimit) : maxLimit;
+
+  return {
+    userEmail: optionalText(input.user),
+    action: optionalText(input.action),
+    result,
+    from: optionalTimestamp(input.from, "from"),
+    to: optionalTimestamp(input.to, "to"),
+    beforeId,
+    limit,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  // Leading formula characters are neutralized so spreadsheets do not evaluate logged input.
+  const raw = String(value);
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAuditCsv(events: AuditEvent[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(event[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -111,6 +111,7 @@ export async function login(email: string, password: string): Promise<SessionEnv
     id: user.id,
     email: user.email,
     role: user.role,
+    roleId: user.role_id,
     createdAt: user.created_at,
   });
 }
@@ -143,7 +144,7 @@ export async function registerFromInvite(token: string, password: string): Promi
   }
 
   const passwordHash = await Bun.password.hash(password, "argon2id");
-  const user = createUser(normalizedEmail, passwordHash, invite.role as UserRole);
+  const user = createUser(normalizedEmail, passwordHash, invite.role as UserRole, invite.role_id);
   acceptInvite(invite.id);
   return await createSessionEnvelope(user);
 }
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { BackupRetentionPolicy, isRetentionPolicyEmpty, RetentionCandidate, selectBackupsToPrune } from "./backup-retention";
+
+const MB = 1024 * 1024;
+
+const emptyPolicy: BackupRetentionPolicy = {
+  keepLast: 0,
+  keepHourly: 0,
+  keepDaily: 0,
+  keepWeekly: 0,
+  keepMonthly: 0,
+  maxTotalBytes: 0,
+};
+
+function backup(id: string, createdAt: Date, options: { size?: number; pinned?: boolean } = {}): RetentionCandidate {
+  return { id, createdAt, size: options.size ?? MB, pinned: options.pinned ?? false };
+}
+
+function prunedIds(candidates: RetentionCandidate[], policy: Partial<BackupRetentionPolicy>): string[] {
+  return selectBackupsToPrune(candidates, { ...emptyPolicy, ...policy })
+    .prune.map((entry) => entry.id)
+    .sort();
+}
+
+describe("selectBackupsToPrune", () => {
+  test("keeps the newest keepLast backups", () => {
+    const candidates = [1, 2, 3, 4, 5].map((day) => backup(`d${day}`, new Date(2026, 0, day, 12)));
+    expect(prunedIds(candidates, { keepLast: 2 })).toEqual(["d1", "d2", "d3"]);
+  });
+
+  test("keeps the newest backup of each of the most recent daily buckets", () => {
+    const candidates = [
+      backup("jan1-morning", new Date(2026, 0, 1, 8)),
+      backup("jan1-evening", new Date(2026, 0, 1, 20)),
+      backup("jan2-morning", new Date(2026, 0, 2, 8)),
+      backup("jan2-evening", new Date(2026, 0, 2, 20)),
+      backup("jan3-morning", new Date(2026, 0, 3, 8)),
+    ];
+    expect(prunedIds(candidates, { keepDaily: 2 })).toEqual(["jan1-evening", "jan1-morning", "jan2-morning"]);
+  });
+
+  test("combines hourly, weekly and monthly tiers", () => {
+    const candidates = [
+      backup("mar10-10h", new Date(2026, 2, 10, 10, 30)),
+      backup("mar10-10h-early", new Date(2026, 2, 10, 10, 5)),
+      backup("mar10-09h", new Date(2026, 2, 10, 9, 30)),
+      backup("mar02", new Date(2026, 2, 2, 9)),
+      backup("feb20", new Date(2026, 1, 20, 9)),
+      backup("jan15", new Date(2026, 0, 15, 9)),
+    ];
+    const decision = selectBackupsToPrune(candidates, { ...emptyPolicy, keepHourly: 2, keepWeekly: 2, keepMonthly: 2 });
+    expect(decision.prune.map((entry) => entry.id).sort()).toEqual(["jan15", "mar10-10h-early"]);
+    const reasons = new Map(decision.keep.map((entry) => [entry.id, entry.reasons]));
+    expect(reasons.get("mar10-09h")).toEqual(["hourly 2026-03-10 09h"]);
+    expect(reasons.get("mar02")).toEqual(["weekly 2026-W10"]);
+    expect(reasons.get("feb20")).toEqual(["monthly 2026-02"]);
+  });
+
+  test("puts a week straddling New Year into one ISO week bucket", () => {
+    // 2025-12-29 (Monday) through 2026-01-04 (Sunday) is ISO week 2026-W01.
+    const candidates = [
+      backup("dec29", new Date(2025, 11, 29, 12)),
+      backup("jan2", new Date(2026, 0, 2, 12)),
+      backup("dec22", new Date(2025, 11, 22, 12)),
+    ];
+    const decision = selectBackupsToPrune(candidates, { ...emptyPolicy, keepWeekly: 2 });
+    expect(decision.prune.map((entry) => entry.id)).toEqual(["dec29"]);
+    expect(decision.keep.find((entry) => entry.id === "jan2")?.reasons).toContain("weekly 2026-W01");
+  });
+
+  test("never prunes pinned backups and does not let them use tier slots", () => {
+    const candidates = [
+      backup("newest", new Date(2026, 0, 5)),
+      backup("pinned", new Date(2026, 0, 4), { pinned: true }),
+      backup("second", new Date(2026, 0, 3)),
+      backup("oldest", new Date(2026, 0, 1)),
+    ];
+    expect(prunedIds(candidates, { keepLast: 2 })).toEqual(["oldest"]);
+  });
+
+  test("applies the size cap to the oldest survivors but keeps pinned and newest backups", () => {
+    const candidates = [
+      backup("newest", new Date(2026, 0, 5), { size: 40 * MB }),
+      backup("d4", new Date(2026, 0, 4), { size: 40 * MB }),
+      backup("pinned", new Date(2026, 0, 3), { size: 40 * MB, pinned: true }),
+      backup("d2", new Date(2026, 0, 2), { size: 40 * MB }),
+      backup("d1", new Date(2026, 0, 1), { size: 40 * MB }),
+    ];
+    const decision = selectBackupsToPrune(candidates, { ...emptyPolicy, keepLast: 10, maxTotalBytes: 100 * MB });
+    expect(decision.prune.map((entry) => entry.id)).toEqual(["d1", "d2", "d4"]);
+    expect(decision.prune[0]?.reason).toContain("exceeds limit 100.0 MB");
+    expect(decision.keep.map((entry) => entry.id)).toEqual(["newest", "pinned"]);
+  });
+
+  test("with only a size cap keeps everything that fits", () => {
+    const candidates = [1, 2, 3].map((day) => backup(`d${day}`, new Date(2026, 0, day), { size: 10 * MB }));
+    expect(prunedIds(candidates, { maxTotalBytes: 100 * MB })).toEqual([]);
+    expect(prunedIds(candidates, { maxTotalBytes: 25 * MB })).toEqual(["d1"]);
+  });
+
+  test("always keeps the newest backup", () => {
+    const candidates = [backup("only", new Date(2026, 0, 1), { size: 500 * MB })];
+    expect(prunedIds(candidates, { keepDaily: 1, maxTotalBytes: MB })).toEqual([]);
+  });
+});
+
+describe("isRetentionPolicyEmpty", () => {
+  test("ignores the size cap", () => {
+    expect(isRetentionPolicyEmpty({ ...emptyPolicy, maxTotalBytes: MB })).toBe(true);
+    expect(isRetentionPolicyEmpty({ ...emptyPolicy, keepMonthly: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+export type BackupRetentionPolicy = {
+  keepLast: number;
+  keepHourly: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+  maxTotalBytes: number;
+};
+
+export type RetentionCandidate = {
+  id: string;
+  createdAt: Date;
+  size: number;
+  pinned: boolean;
+};
+
+export type RetentionDecision = {
+  keep: Array<{ id: string; reasons: string[] }>;
+  prune: Array<{ id: string; reason: string }>;
+};
+
+type RetentionTier = {
+  label: string;
+  count: number;
+  bucket: (date: Date) => string;
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// ISO-8601 week numbering, so a week that straddles New Year lands in a single bucket.
+function isoWeekKey(date: Date): string {
+  const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+export function isRetentionPolicyEmpty(policy: BackupRetentionPolicy): boolean {
+  return (
+    policy.keepLast === 0 &&
+    policy.keepHourly === 0 &&
+    policy.keepDaily === 0 &&
+    policy.keepWeekly === 0 &&
+    policy.keepMonthly === 0
+  );
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Decides which backups a retention run deletes. A backup survives when it is among the newest
+ * `keepLast`, or is the newest backup of one of the most recent hourly/daily/weekly/monthly
+ * buckets (grandfather-father-son, server local time). The size cap then removes the oldest
+ * survivors. Pinned backups are never selected and do not use up tier slots, and the newest
+ * backup is always kept.
+ */
+export function selectBackupsToPrune(
+  candidates: RetentionCandidate[],
+  policy: BackupRetentionPolicy,
+): RetentionDecision {
+  const newestFirst = [...candidates].sort((left, right) => right.createdAt.getTime() - left.createdAt.getTime());
+  const reasons = new Map<string, string[]>();
+  const addReason = (id: string, reason: string) => {
+    const list = reasons.get(id) ?? [];
+    list.push(reason);
+    reasons.set(id, list);
+  };
+
+  const newest = newestFirst[0];
+  if (newest) {
+    addReason(newest.id, "newest backup");
+  }
+
+  const unpinned = newestFirst.filter((candidate) => !candidate.pinned);
+  for (const candidate of newestFirst) {
+    if (candidate.pinned) {
+      addReason(candidate.id, "pinned");
+    }
+  }
+
+  unpinned.slice(0, policy.keepLast).forEach((candidate, index) => {
+    addReason(candidate.id, `last ${index + 1}/${policy.keepLast}`);
+  });
+
+  const tiers: RetentionTier[] = [
+    {
+      label: "hourly",
+      count: policy.keepHourly,
+      bucket: (date) => `${dayKey(date)} ${pad(date.getHours())}h`,
+    },
+    { label: "daily", count: policy.keepDaily, bucket: dayKey },
+    { label: "weekly", count: policy.keepWeekly, bucket: isoWeekKey },
+    {
+      label: "monthly",
+      count: policy.keepMonthly,
+      bucket: (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`,
+    },
+  ];
+
+  for (const tier of tiers) {
+    const seen = new Set<string>();
+    for (const candidate of unpinned) {
+      if (seen.size >= tier.count) {
+        break;
+      }
+
+      const key = tier.bucket(candidate.createdAt);
+      if (!seen.has(key)) {
+        seen.add(key);
+        addReason(candidate.id, `${tier.label} ${key}`);
+      }
+    }
+  }
+
+  // A policy with only a size cap keeps everything that fits instead of pruning by count.
+  const prune: RetentionDecision["prune"] = [];
+  for (const candidate of isRetentionPolicyEmpty(policy) ? [] : unpinned) {
+    if (!reasons.has(candidate.id)) {
+      prune.push({ id: candidate.id, reason: "not covered by keep-last or hourly/daily/weekly/monthly tiers" });
+    }
+  }
+
+  if (policy.maxTotalBytes > 0) {
+    const pruned = new Set(prune.map((entry) => entry.id));
+    let total = newestFirst
+      .filter((candidate) => !pruned.has(candidate.id))
+      .reduce((sum, candidate) => sum + candidate.size, 0);
+
+    for (const candidate of [...unpinned].reverse()) {
+      if (total <= policy.maxTotalBytes) {
+        break;
+      }
+      if (pruned.has(candidate.id) || candidate.id === newest?.id) {
+        continue;
+      }
+
+      prune.push({
+        id: candidate.id,
+        reason: `total size ${formatMegabytes(total)} exceeds limit ${formatMegabytes(policy.maxTotalBytes)}`,
+      });
+      pruned.add(candidate.id);
+      reasons.delete(candidate.id);
+      total -= candidate.size;
+    }
+  }
+
+  const prunedIds = new Set(prune.map((entry) => entry.id));
+  return {
+    keep: newestFirst
+      .filter((candidate) => !prunedIds.has(candidate.id))
+      .map((candidate) => ({ id: candidate.id, reasons: reasons.get(candidate.id) ?? [] })),
+    prune,
+  };
+}
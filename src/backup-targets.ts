@@ -0,0 +1,258 @@
+import { S3Client } from "bun";
+import { randomUUID } from "node:crypto";
+import { copyFile, mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { config } from "./config";
+import { BackupTargetKind } from "./db";
+import { AppError, pathExists } from "./utils";
+
+export type S3TargetSettings = {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  prefix: string;
+};
+
+export type DirectoryTargetSettings = {
+  path: string;
+};
+
+export type S3Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+export type RemoteObject = {
+  key: string;
+  size: number;
+  modifiedAt: string;
+};
+
+/**
+ * Minimal object store used for offsite copies. Keys are relative, "/"-separated paths such as
+ * `manual/<id>/backup.zip`; each implementation maps them onto its own namespace.
+ */
+export interface BackupStorage {
+  readonly description: string;
+  put(localPath: string, key: string): Promise<void>;
+  get(key: string, localPath: string): Promise<void>;
+  list(prefix: string): Promise<RemoteObject[]>;
+  remove(key: string): Promise<void>;
+}
+
+const DEFAULT_S3_REGION = "us-east-1";
+const S3_UPLOAD_PART_SIZE = 16 * 1024 * 1024;
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizePrefix(value: unknown): string {
+  const prefix = text(value).replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+  if (prefix.split("/").some((segment) => segment === "." || segment === "..")) {
+    throw new AppError(400, "Prefix cannot contain '.' or '..' segments.");
+  }
+  return prefix ? `${prefix}/` : "";
+}
+
+function isInside(parent: string, candidate: string): boolean {
+  const relative = path.relative(parent, candidate);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+export function isBackupTargetKind(value: unknown): value is BackupTargetKind {
+  return value === "s3" || value === "directory";
+}
+
+export function normalizeS3Settings(input: Record<string, unknown>): S3TargetSettings {
+  const endpoint = text(input.endpoint).replace(/\/+$/, "");
+  let parsed: URL;
+  try {
+    parsed = new URL(endpoint);
+  } catch {
+    throw new AppError(400, "Endpoint must be a URL such as https://s3.example.com or http://127.0.0.1:9000.");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new AppError(400, "Endpoint must use http or https.");
+  }
+
+  const bucket = text(input.bucket);
+  if (!/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(bucket)) {
+    throw new AppError(400, "Bucket must be 3-63 lowercase letters, digits, '.' or '-'.");
+  }
+
+  const region = text(input.region) || DEFAULT_S3_REGION;
+  if (!/^[a-z0-9-]{1,40}$/.test(region)) {
+    throw new AppError(400, "Region must be lowercase letters, digits or '-'.");
+  }
+
+  return { endpoint, region, bucket, prefix: normalizePrefix(input.prefix) };
+}
+
+export function normalizeS3Credentials(input: Record<string, unknown>): S3Credentials | null {
+  const accessKeyId = text(input.accessKeyId);
+  const secretAccessKey = text(input.secretAccessKey);
+  if (!accessKeyId && !secretAccessKey) {
+    return null;
+  }
+  if (!accessKeyId || !secretAccessKey) {
+    throw new AppError(400, "Both the access key id and the secret access key are required.");
+  }
+  return { accessKeyId, secretAccessKey };
+}
+
+export function normalizeDirectorySettings(input: Record<string, unknown>): DirectoryTargetSettings {
+  const target = text(input.path);
+  if (!target || !path.isAbsolute(target)) {
+    throw new AppError(400, "Mirror directory must be an absolute path.");
+  }
+
+  const resolved = path.resolve(target);
+  // Mirroring into the data or server directory would put the copies back on the disk they protect against.
+  for (const guarded of [config.app.dataDir, config.hytale.serverDir, config.app.backupsDir, config.hytale.backupsDir]) {
+    if (isInside(guarded, resolved) || isInside(resolved, guarded)) {
+      throw new AppError(400, `Mirror directory cannot overlap ${guarded}.`);
+    }
+  }
+
+  return { path: resolved };
+}
+
+class S3Storage implements BackupStorage {
+  readonly description: string;
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly settings: S3TargetSettings,
+    credentials: S3Credentials,
+  ) {
+    this.description = `s3 ${settings.endpoint}/${settings.bucket}/${settings.prefix}`;
+    // Path-style requests (the Bun default) keep MinIO and other self-hosted endpoints working.
+    this.client = new S3Client({
+      endpoint: settings.endpoint,
+      region: settings.region,
+      bucket: settings.bucket,
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+    });
+  }
+
+  async put(localPath: string, key: string): Promise<void> {
+    await this.client.write(this.settings.prefix + key, Bun.file(localPath), {
+      partSize: S3_UPLOAD_PART_SIZE,
+      retry: 3,
+    });
+  }
+
+  async get(key: string, localPath: string): Promise<void> {
+    await Bun.write(localPath, this.client.file(this.settings.prefix + key));
+  }
+
+  async list(prefix: string): Promise<RemoteObject[]> {
+    const objects: RemoteObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({ prefix: this.settings.prefix + prefix, continuationToken });
+      for (const entry of page.contents ?? []) {
+        objects.push({
+          key: entry.key.slice(this.settings.prefix.length),
+          size: entry.size ?? 0,
+          modifiedAt: entry.lastModified ? new Date(entry.lastModified).toISOString() : new Date(0).toISOString(),
+        });
+      }
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.delete(this.settings.prefix + key);
+  }
+}
+
+class DirectoryStorage implements BackupStorage {
+  readonly description: string;
+
+  constructor(private readonly root: string) {
+    this.description = `directory ${root}`;
+  }
+
+  async put(localPath: string, key: string): Promise<void> {
+    const destination = this.resolveKey(key);
+    await mkdir(path.dirname(destination), { recursive: true });
+
+    // Copy next to the destination first so readers never see a partially written file.
+    const partial = `${destination}.partial-${randomUUID()}`;
+    try {
+      await copyFile(localPath, partial);
+      await rename(partial, destination);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string, localPath: string): Promise<void> {
+    await copyFile(this.resolveKey(key), localPath);
+  }
+
+  async list(prefix: string): Promise<RemoteObject[]> {
+    const objects: RemoteObject[] = [];
+    const start = this.resolveKey(prefix || ".");
+    if (!(await pathExists(start))) {
+      return objects;
+    }
+
+    const walk = async (directory: string) => {
+      for (const entry of await readdir(directory, { withFileTypes: true })) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile() && !entry.name.includes(".partial-")) {
+          const fileStats = await stat(fullPath);
+          objects.push({
+            key: path.relative(this.root, fullPath).split(path.sep).join("/"),
+            size: fileStats.size,
+            modifiedAt: fileStats.mtime.toISOString(),
+          });
+        }
+      }
+    };
+
+    await walk(start);
+    return objects;
+  }
+
+  async remove(key: string): Promise<void> {
+    const target = this.resolveKey(key);
+    await rm(target, { force: true });
+
+    // Drop directories left empty by the removal, stopping at the mirror root.
+    let directory = path.dirname(target);
+    while (directory !== this.root && isInside(this.root, directory)) {
+      if ((await readdir(directory)).length > 0) {
+        break;
+      }
+      await rm(directory, { recursive: true, force: true });
+      directory = path.dirname(directory);
+    }
+  }
+
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.root, ...key.split("/").filter(Boolean));
+    if (!isInside(this.root, resolved)) {
+      throw new AppError(400, `Invalid remote key: ${key}`);
+    }
+    return resolved;
+  }
+}
+
+export function createS3Storage(settings: S3TargetSettings, credentials: S3Credentials): BackupStorage {
+  return new S3Storage(settings, credentials);
+}
+
+export function createDirectoryStorage(settings: DirectoryTargetSettings): BackupStorage {
+  return new DirectoryStorage(settings.path);
+}
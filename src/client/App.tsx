@@ -26,13 +26,63 @@ import {
 } from "./components/ui/card";
 import { Input } from "./components/ui/input";
 import { Label } from "./components/ui/label";
+import {
+  NativeSelect,
+  NativeSelectOption,
+} from "./components/ui/native-select";
 import { Separator } from "./components/ui/separator";
 import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "./components/ui/tabs";
+import {
+  AuditEvent,
+  BackupContentEntry,
+  BackupContents,
   BackupEntry,
+  BackupImport,
+  InstallRepairResult,
+  DownloadCacheEntry,
+  DownloadCacheListing,
+  DownloadCachePruneResult,
+  InstallVerification,
+  OfflineInstallResult,
+  ServerArchiveUpload,
+  BackupRetentionRun,
+  BackupTargetEntry,
+  BackupTargetKind,
+  BackupTreeNode,
+  BackupVerification,
   BootstrapPayload,
+  CurseForgeInstalledMod,
+  CurseForgeSearchResult,
+  CurseForgeSearchSort,
+  CurseForgeStatus,
+  NexusInstalledMod,
+  NexusSearchResult,
+  NexusSearchSort,
+  NexusSsoSession,
+  NexusStatus,
+  OnlinePlayer,
+  PlayerSession,
+  RemoteBackupEntry,
+  ScheduledJobAction,
+  ScheduledJobEntry,
+  ScheduledJobRunStatus,
+  SchedulerState,
+  ServerCrash,
   InviteSummary,
   LogFileSummary,
   ModEntry,
+  ModerationState,
+  PermissionInfo,
+  Role,
+  SafetySnapshot,
+  ServerVersionEntry,
+  StagingState,
+  UpdateCheckResult,
   ServerMetricPoint,
   ServerState,
   User,
@@ -42,6 +92,31 @@ import { DashboardSocket } from "./ws";
 
 const TERMINAL_LIMIT = 4_000;
 const LONG_OPERATION_TIMEOUT_MS = 20 * 60 * 1000;
+const AUDIT_PAGE_SIZE = 100;
+const BACKUP_IMPORT_CHUNK_BYTES = 8 * 1024 * 1024;
+const BACKUP_IMPORT_STORAGE_PREFIX = "hytale-manager.backup-import:";
+const SERVER_ARCHIVE_STORAGE_PREFIX = "hytale-manager.server-archive:";
+
+const SCHEDULED_JOB_ACTION_LABELS: Record<ScheduledJobAction, string> = {
+  restart: "Restart server",
+  backup: "Manual backup",
+  "backup.testRestore": "Test-restore latest backup",
+  command: "Console command",
+  "mods.updateAll": "Update all mods",
+  "server.update": "Update server",
+};
+
+function scheduledRunBadgeVariant(
+  status: ScheduledJobRunStatus | null,
+): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "failed") {
+    return "destructive";
+  }
+  if (status === "success") {
+    return "secondary";
+  }
+  return "outline";
+}
 
 function formatDate(value: string | null): string {
   if (!value) {
@@ -50,6 +125,19 @@ function formatDate(value: string | null): string {
   return new Date(value).toLocaleString();
 }
 
+function formatDuration(totalSeconds: number | null): string {
+  if (totalSeconds === null) {
+    return "-";
+  }
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
 function formatBytes(size: number): string {
   const units = ["B", "KB", "MB", "GB"];
   let value = size;
@@ -63,6 +151,49 @@ function formatBytes(size: number): string {
   return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
 }
 
+function buildBackupTree(files: BackupContentEntry[]): BackupTreeNode[] {
+  const root: BackupTreeNode = { name: "", path: "", size: 0, children: [] };
+  const directories = new Map<string, BackupTreeNode>([["", root]]);
+
+  for (const file of files) {
+    const segments = file.path.split("/");
+    let parent = root;
+    parent.size += file.size;
+    for (let index = 0; index < segments.length; index += 1) {
+      const nodePath = segments.slice(0, index + 1).join("/");
+      if (index === segments.length - 1) {
+        parent.children?.push({
+          name: segments[index],
+          path: nodePath,
+          size: file.size,
+          children: null,
+        });
+        break;
+      }
+
+      let directory = directories.get(nodePath);
+      if (!directory) {
+        directory = { name: segments[index], path: nodePath, size: 0, children: [] };
+        directories.set(nodePath, directory);
+        parent.children?.push(directory);
+      }
+      directory.size += file.size;
+      parent = directory;
+    }
+  }
+
+  const sortNodes = (nodes: BackupTreeNode[]) => {
+    nodes.sort(
+      (left, right) =>
+        Number(right.children !== null) - Number(left.children !== null) ||
+        left.name.localeCompare(right.name),
+    );
+    nodes.forEach((node) => node.children && sortNodes(node.children));
+  };
+  sortNodes(root.children ?? []);
+  return root.children ?? [];
+}
+
 function formatRate(bytesPerSecond: number | null): string {
   if (bytesPerSecond === null || !Number.isFinite(bytesPerSecond)) {
     return "-";
@@ -70,6 +201,42 @@ function formatRate(bytesPerSecond: number | null): string {
   return `${formatBytes(Math.max(0, bytesPerSecond))}/s`;
 }
 
+const BAN_DURATION_OPTIONS: Array<{ value: string; label: string; minutes: number }> = [
+  { value: "permanent", label: "Permanent", minutes: 0 },
+  { value: "1h", label: "1 hour", minutes: 60 },
+  { value: "1d", label: "1 day", minutes: 24 * 60 },
+  { value: "7d", label: "7 days", minutes: 7 * 24 * 60 },
+  { value: "30d", label: "30 days", minutes: 30 * 24 * 60 },
+];
+
+function splitPermissionInput(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function formatUserRole(user: User, roles: Role[]): string {
+  if (user.role === "owner") {
+    return "owner";
+  }
+  return (
+    roles.find((role) => role.id === user.roleId)?.name ??
+    roles.find((role) => role.builtin && role.name === "Member")?.name ??
+    "member"
+  );
+}
+
+function roleSelectValue(user: User, roles: Role[]): string {
+  if (user.role === "owner") {
+    return "owner";
+  }
+  const roleId =
+    user.roleId ??
+    roles.find((role) => role.builtin && role.name === "Member")?.id;
+  return roleId === undefined ? "" : String(roleId);
+}
+
 function formatWhitelistSource(
   source: WhitelistState["entries"][number]["source"],
 ): string {
@@ -205,13 +372,101 @@ export function App() {
 
   const [mods, setMods] = useState<ModEntry[]>([]);
   const [backups, setBackups] = useState<BackupEntry[]>([]);
+  const [backupTargets, setBackupTargets] = useState<BackupTargetEntry[]>([]);
+  const [targetEditorId, setTargetEditorId] = useState<number | null>(null);
+  const [targetKindInput, setTargetKindInput] =
+    useState<BackupTargetKind>("s3");
+  const [targetNameInput, setTargetNameInput] = useState("");
+  const [targetEndpointInput, setTargetEndpointInput] = useState("");
+  const [targetRegionInput, setTargetRegionInput] = useState("us-east-1");
+  const [targetBucketInput, setTargetBucketInput] = useState("");
+  const [targetPrefixInput, setTargetPrefixInput] = useState("");
+  const [targetAccessKeyIdInput, setTargetAccessKeyIdInput] = useState("");
+  const [targetSecretInput, setTargetSecretInput] = useState("");
+  const [targetPathInput, setTargetPathInput] = useState("");
+  const [targetKeepLastInput, setTargetKeepLastInput] = useState("0");
+  const [targetEnabledInput, setTargetEnabledInput] = useState(true);
+  const [verifyingBackupId, setVerifyingBackupId] = useState<string | null>(
+    null,
+  );
+  const [backupBrowser, setBackupBrowser] = useState<BackupContents | null>(
+    null,
+  );
+  const [backupBrowserExpanded, setBackupBrowserExpanded] = useState<
+    string[]
+  >([]);
+  const [backupBrowserSelected, setBackupBrowserSelected] = useState<
+    string[]
+  >([]);
+  const [backupRestoreTarget, setBackupRestoreTarget] = useState<
+    "live" | "side"
+  >("live");
+  const [remoteBackups, setRemoteBackups] = useState<{
+    target: BackupTargetEntry;
+    entries: RemoteBackupEntry[];
+  } | null>(null);
   const [logs, setLogs] = useState<LogFileSummary[]>([]);
   const [whitelist, setWhitelist] = useState<WhitelistState | null>(null);
   const [selectedLog, setSelectedLog] = useState<string>("__terminal__");
   const [logContent, setLogContent] = useState("");
 
+  const [curseForgeStatus, setCurseForgeStatus] =
+    useState<CurseForgeStatus | null>(null);
+  const [curseForgeInstalled, setCurseForgeInstalled] = useState<
+    CurseForgeInstalledMod[]
+  >([]);
+  const [curseForgeResults, setCurseForgeResults] =
+    useState<CurseForgeSearchResult | null>(null);
+  const [curseForgeQuery, setCurseForgeQuery] = useState("");
+  const [curseForgeSort, setCurseForgeSort] =
+    useState<CurseForgeSearchSort>("popularity");
+  const [curseForgeApiKeyInput, setCurseForgeApiKeyInput] = useState("");
+  const [curseForgeGameIdInput, setCurseForgeGameIdInput] = useState("70216");
+  const [curseForgeClassIdInput, setCurseForgeClassIdInput] = useState("");
+
+  const [nexusStatus, setNexusStatus] = useState<NexusStatus | null>(null);
+  const [nexusInstalled, setNexusInstalled] = useState<NexusInstalledMod[]>(
+    [],
+  );
+  const [nexusResults, setNexusResults] = useState<NexusSearchResult | null>(
+    null,
+  );
+  const [nexusQuery, setNexusQuery] = useState("");
+  const [nexusSort, setNexusSort] = useState<NexusSearchSort>("popularity");
+  const [nexusApiKeyInput, setNexusApiKeyInput] = useState("");
+
+  const [scheduler, setScheduler] = useState<SchedulerState>({
+    jobs: [],
+    runs: [],
+  });
+  const [scheduleNameInput, setScheduleNameInput] = useState("");
+  const [scheduleCronInput, setScheduleCronInput] = useState("0 4 * * *");
+  const [scheduleActionInput, setScheduleActionInput] =
+    useState<ScheduledJobAction>("restart");
+  const [scheduleCommandInput, setScheduleCommandInput] = useState("");
+
   const [invites, setInvites] = useState<InviteSummary[]>([]);
+  const [inviteRoleInput, setInviteRoleInput] = useState("");
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [permissionCatalog, setPermissionCatalog] = useState<
+    PermissionInfo[]
+  >([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [roleEditorId, setRoleEditorId] = useState<number | null>(null);
+  const [roleNameInput, setRoleNameInput] = useState("");
+  const [roleDescriptionInput, setRoleDescriptionInput] = useState("");
+  const [rolePermissionsInput, setRolePermissionsInput] = useState<string[]>(
+    [],
+  );
   const [lastInviteUrl, setLastInviteUrl] = useState("");
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [auditHasMore, setAuditHasMore] = useState(false);
+  const [auditUserFilter, setAuditUserFilter] = useState("");
+  const [auditActionFilter, setAuditActionFilter] = useState("");
+  const [auditResultFilter, setAuditResultFilter] = useState("");
+  const [auditFromFilter, setAuditFromFilter] = useState("");
+  const [auditToFilter, setAuditToFilter] = useState("");
 
   const [connected, setConnected] = useState(false);
   const [busy, setBusy] = useState(false);
@@ -229,6 +484,18 @@ export function App() {
   const [inviteEmail, setInviteEmail] = useState("");
   const [whitelistInput, setWhitelistInput] = useState("");
   const [backupNote, setBackupNote] = useState("");
+  const [backupImportProgress, setBackupImportProgress] = useState<{
+    filename: string;
+    received: number;
+    size: number;
+  } | null>(null);
+  const [installVerification, setInstallVerification] =
+    useState<InstallVerification | null>(null);
+  const [serverArchiveProgress, setServerArchiveProgress] = useState<{
+    filename: string;
+    received: number;
+    size: number;
+  } | null>(null);
   const [bindPortInput, setBindPortInput] = useState("25565");
   const [autoBackupEnabledInput, setAutoBackupEnabledInput] = useState(true);
   const [backupFrequencyMinutesInput, setBackupFrequencyMinutesInput] =
@@ -237,33 +504,124 @@ export function App() {
   const [javaMinHeapInput, setJavaMinHeapInput] = useState("2048");
   const [javaMaxHeapInput, setJavaMaxHeapInput] = useState("4096");
   const [javaExtraArgsInput, setJavaExtraArgsInput] = useState("");
+  const [shutdownWarningEnabledInput, setShutdownWarningEnabledInput] =
+    useState(false);
+  const [shutdownWarningIntervalsInput, setShutdownWarningIntervalsInput] =
+    useState("5m,1m,30s,10s");
+  const [shutdownWarningCommandInput, setShutdownWarningCommandInput] =
+    useState("/say Server {action} in {time}.");
+  const [countdownClock, setCountdownClock] = useState(() => Date.now());
+  const [autoRestartEnabledInput, setAutoRestartEnabledInput] =
+    useState(false);
+  const [autoRestartMaxAttemptsInput, setAutoRestartMaxAttemptsInput] =
+    useState("5");
+  const [backupRetentionEnabledInput, setBackupRetentionEnabledInput] =
+    useState(false);
+  const [backupRetentionKeepLastInput, setBackupRetentionKeepLastInput] =
+    useState("10");
+  const [backupRetentionKeepHourlyInput, setBackupRetentionKeepHourlyInput] =
+    useState("0");
+  const [backupRetentionKeepDailyInput, setBackupRetentionKeepDailyInput] =
+    useState("7");
+  const [backupRetentionKeepWeeklyInput, setBackupRetentionKeepWeeklyInput] =
+    useState("4");
+  const [backupRetentionKeepMonthlyInput, setBackupRetentionKeepMonthlyInput] =
+    useState("6");
+  const [backupRetentionMaxTotalMbInput, setBackupRetentionMaxTotalMbInput] =
+    useState("0");
+  const [consistentBackupEnabledInput, setConsistentBackupEnabledInput] =
+    useState(false);
+  const [backupSaveOffCommandInput, setBackupSaveOffCommandInput] =
+    useState("");
+  const [backupFlushCommandInput, setBackupFlushCommandInput] =
+    useState("/save");
+  const [backupFlushConfirmPatternInput, setBackupFlushConfirmPatternInput] =
+    useState(String.raw`^(?:\[[^\]]*\]\s*)*(?:Saved all worlds|Save complete)\.?\s*$`);
+  const [backupSaveOnCommandInput, setBackupSaveOnCommandInput] = useState("");
+  const [backupFlushTimeoutInput, setBackupFlushTimeoutInput] = useState("60");
+  const [safetySnapshotsEnabledInput, setSafetySnapshotsEnabledInput] =
+    useState(true);
+  const [safetySnapshotKeepInput, setSafetySnapshotKeepInput] = useState("5");
+  const [safetySnapshotMaxAgeInput, setSafetySnapshotMaxAgeInput] =
+    useState("72");
+  const [safetySnapshots, setSafetySnapshots] = useState<SafetySnapshot[]>([]);
+  const [serverVersionsKeepInput, setServerVersionsKeepInput] = useState("5");
+  const [updateCheckEnabledInput, setUpdateCheckEnabledInput] = useState(true);
+  const [updateCheckIntervalInput, setUpdateCheckIntervalInput] =
+    useState("60");
+  const [autoUpdateEnabledInput, setAutoUpdateEnabledInput] = useState(false);
+  const [autoUpdateOnlyWhenEmptyInput, setAutoUpdateOnlyWhenEmptyInput] =
+    useState(true);
+  const [autoUpdateWindowInput, setAutoUpdateWindowInput] = useState("");
+  const [downloadCacheKeepVersionsInput, setDownloadCacheKeepVersionsInput] =
+    useState("3");
+  const [downloadCacheMaxSizeInput, setDownloadCacheMaxSizeInput] =
+    useState("0");
+  const [downloadCache, setDownloadCache] =
+    useState<DownloadCacheListing | null>(null);
+  const [patchlineInput, setPatchlineInput] = useState("");
+  const [customPatchlineInput, setCustomPatchlineInput] = useState("");
+  const [stagingPatchlineInput, setStagingPatchlineInput] =
+    useState("pre-release");
+  const [stagingPortInput, setStagingPortInput] = useState("");
+  const [serverVersions, setServerVersions] = useState<ServerVersionEntry[]>(
+    [],
+  );
+  const [crashes, setCrashes] = useState<ServerCrash[]>([]);
+  const [playerSessions, setPlayerSessions] = useState<PlayerSession[]>([]);
+  const [moderation, setModeration] = useState<ModerationState | null>(null);
+  const [banPlayerInput, setBanPlayerInput] = useState("");
+  const [banReasonInput, setBanReasonInput] = useState("");
+  const [banDurationInput, setBanDurationInput] = useState("permanent");
+  const [operatorInput, setOperatorInput] = useState("");
+  const [permissionPlayerInput, setPermissionPlayerInput] = useState("");
+  const [permissionPlayerGroupsInput, setPermissionPlayerGroupsInput] =
+    useState("");
+  const [permissionPlayerNodesInput, setPermissionPlayerNodesInput] =
+    useState("");
+  const [permissionGroupInput, setPermissionGroupInput] = useState("");
+  const [permissionGroupNodesInput, setPermissionGroupNodesInput] =
+    useState("");
 
   const inviteToken = useMemo(() => {
     const query = new URLSearchParams(location.search);
     return query.get("invite") ?? "";
   }, []);
 
+  const shutdownCountdown = serverState?.shutdownCountdown ?? null;
+  const shutdownCountdownRemainingSeconds = shutdownCountdown
+    ? Math.max(
+        0,
+        Math.ceil((Date.parse(shutdownCountdown.endsAt) - countdownClock) / 1000),
+      )
+    : 0;
   const isRunning = serverState?.status === "running";
+  const can = (permission: string) => permissions.includes(permission);
   const lifecycleReady = !!serverState?.lifecycleReady;
   const canStart =
     !!serverState &&
+    can("server.lifecycle") &&
     lifecycleReady &&
     !busy &&
     !isRunning &&
     serverState.status !== "starting";
   const canStop =
     !!serverState &&
+    can("server.lifecycle") &&
     !busy &&
     (isRunning || lifecycleReady) &&
     serverState.status !== "stopping";
   const canRestart =
     !!serverState &&
+    can("server.lifecycle") &&
     lifecycleReady &&
     !busy &&
     serverState.status !== "starting" &&
     serverState.status !== "stopping";
-  const downloadsLocked = busy || serverState?.status === "installing";
+  const downloadsLocked =
+    busy || serverState?.status === "installing" || !can("server.install");
   const metrics = serverState?.metrics ?? [];
+  const onlinePlayers = serverState?.players ?? [];
 
   const metricsChartData = useMemo(() => {
     return metrics.map((point) => ({
@@ -327,9 +685,26 @@ export function App() {
         setTerminalLines(data.serverState.terminal ?? []);
         setMods(data.mods);
         setBackups(data.backups);
+        setBackupTargets(data.backupTargets);
+        setSafetySnapshots(data.safetySnapshots);
+        setServerVersions(data.serverVersions);
         setLogs(data.logs);
         setWhitelist(data.whitelist);
+        setCurseForgeStatus(data.curseForge);
+        setCurseForgeInstalled(data.curseForgeInstalled);
+        setNexusStatus(data.nexus);
+        setNexusInstalled(data.nexusInstalled);
+        setScheduler(data.scheduler);
+        setCrashes(data.crashes);
+        setPlayerSessions(data.playerSessions);
+        setModeration(data.moderation);
+        setPermissions(data.permissions);
+        setPermissionCatalog(data.permissionCatalog);
+        setRoles(data.roles);
+        setUsers(data.users);
         setInvites(data.invites);
+        setAuditEvents(data.auditEvents);
+        setAuditHasMore(data.auditEvents.length >= AUDIT_PAGE_SIZE);
         setStatus("Realtime connected.");
         return;
       }
@@ -409,6 +784,150 @@ export function App() {
         return;
       }
 
+      if (event === "server.ready") {
+        const readyPayload = payload as { startupMs?: number };
+        setStatus(
+          `Server is ready${readyPayload.startupMs ? ` (startup took ${Math.round(readyPayload.startupMs / 1000)}s)` : ""}.`,
+        );
+        return;
+      }
+
+      if (event === "server.startup.failed") {
+        const failedPayload = payload as { message?: string };
+        setError(failedPayload.message ?? "Server failed to start.");
+        return;
+      }
+
+      if (event === "server.crash") {
+        const crashPayload = payload as { crash?: ServerCrash };
+        const crash = crashPayload.crash;
+        if (!crash) {
+          return;
+        }
+
+        setCrashes((prev) => [crash, ...prev].slice(0, 20));
+        setError(
+          crash.autoRestart === "scheduled"
+            ? `Server crashed (exit code ${crash.exitCode ?? "-"}). Restarting at ${formatDate(crash.restartAt)}.`
+            : crash.autoRestart === "gave_up"
+              ? `Server crashed ${crash.attempt} times in a row. Automatic restart stopped.`
+              : `Server crashed (exit code ${crash.exitCode ?? "-"}).`,
+        );
+        return;
+      }
+
+      if (event === "auth.permissions") {
+        setPermissions(
+          (payload as { permissions?: string[] }).permissions ?? [],
+        );
+        return;
+      }
+
+      if (event === "moderation.state") {
+        const nextModeration = (payload as { moderation?: ModerationState })
+          .moderation;
+        if (nextModeration) {
+          setModeration(nextModeration);
+        }
+        return;
+      }
+
+      if (event === "players.online") {
+        const players = (payload as { players?: OnlinePlayer[] }).players ?? [];
+        setServerState((prev) => (prev ? { ...prev, players } : prev));
+        void request<PlayerSession[]>("players.sessions", { limit: 50 })
+          .then((sessions) => setPlayerSessions(sessions))
+          .catch(() => undefined);
+        return;
+      }
+
+      if (event === "backups.state") {
+        const data = payload as {
+          backups: BackupEntry[];
+          targets: BackupTargetEntry[];
+        };
+        setBackups(data.backups);
+        setBackupTargets(data.targets);
+        return;
+      }
+
+      if (event === "backups.verificationFailed") {
+        const data = payload as { name: string; verification: BackupVerification };
+        setError(`Backup ${data.name} failed verification: ${data.verification.message}`);
+        return;
+      }
+
+      if (event === "update.available") {
+        const data = payload as UpdateCheckResult;
+        const parts = [
+          data.server ? `server ${data.server.latestVersion}` : null,
+          data.mods.length > 0 ? `${data.mods.length} mod update(s)` : null,
+        ].filter(Boolean);
+        setStatus(`Updates available: ${parts.join(", ")}.`);
+        return;
+      }
+
+      if (event === "update.state") {
+        const data = payload as Pick<
+          ServerState,
+          "lastUpdateCheck" | "lastAutoUpdate"
+        >;
+        setServerState((prev) => (prev ? { ...prev, ...data } : prev));
+        return;
+      }
+
+      if (event === "staging.state") {
+        const data = payload as { staging: StagingState };
+        setServerState((prev) =>
+          prev ? { ...prev, staging: data.staging } : prev,
+        );
+        return;
+      }
+
+      if (event === "server.versions") {
+        const data = payload as { versions: ServerVersionEntry[] };
+        setServerVersions(data.versions);
+        return;
+      }
+
+      if (event === "downloads.cache") {
+        setDownloadCache(payload as DownloadCacheListing);
+        return;
+      }
+
+      if (event === "safety.snapshots") {
+        const data = payload as { snapshots: SafetySnapshot[] };
+        setSafetySnapshots(data.snapshots);
+        return;
+      }
+
+      if (event === "scheduler.state") {
+        setScheduler(payload as SchedulerState);
+        return;
+      }
+
+      if (event === "nexus.sso") {
+        const ssoPayload = payload as {
+          status?: "connected" | "failed" | "cancelled";
+          message?: string;
+          nexus?: NexusStatus;
+        };
+        if (ssoPayload.nexus) {
+          setNexusStatus(ssoPayload.nexus);
+        } else {
+          setNexusStatus((prev) =>
+            prev ? { ...prev, ssoPending: false } : prev,
+          );
+        }
+
+        if (ssoPayload.status === "failed") {
+          setError(ssoPayload.message ?? "Nexus SSO failed.");
+        } else if (ssoPayload.message) {
+          setStatus(ssoPayload.message);
+        }
+        return;
+      }
+
       if (event === "server.state") {
         const partial = payload as Partial<ServerState>;
         setServerState((prev) => {
@@ -590,6 +1109,45 @@ export function App() {
     setJavaMinHeapInput(String(serverState.javaMinHeapMb));
     setJavaMaxHeapInput(String(serverState.javaMaxHeapMb));
     setJavaExtraArgsInput(serverState.javaExtraArgs ?? "");
+    setShutdownWarningEnabledInput(serverState.shutdownWarningEnabled);
+    setShutdownWarningIntervalsInput(serverState.shutdownWarningIntervals);
+    setShutdownWarningCommandInput(serverState.shutdownWarningCommand);
+    setAutoRestartEnabledInput(serverState.autoRestartEnabled);
+    setAutoRestartMaxAttemptsInput(String(serverState.autoRestartMaxAttempts));
+    setBackupRetentionEnabledInput(serverState.backupRetentionEnabled);
+    setBackupRetentionKeepLastInput(String(serverState.backupRetentionKeepLast));
+    setBackupRetentionKeepHourlyInput(
+      String(serverState.backupRetentionKeepHourly),
+    );
+    setBackupRetentionKeepDailyInput(String(serverState.backupRetentionKeepDaily));
+    setBackupRetentionKeepWeeklyInput(
+      String(serverState.backupRetentionKeepWeekly),
+    );
+    setBackupRetentionKeepMonthlyInput(
+      String(serverState.backupRetentionKeepMonthly),
+    );
+    setBackupRetentionMaxTotalMbInput(
+      String(serverState.backupRetentionMaxTotalMb),
+    );
+    setConsistentBackupEnabledInput(serverState.consistentBackupEnabled);
+    setBackupSaveOffCommandInput(serverState.backupSaveOffCommand);
+    setBackupFlushCommandInput(serverState.backupFlushCommand);
+    setBackupFlushConfirmPatternInput(serverState.backupFlushConfirmPattern);
+    setBackupSaveOnCommandInput(serverState.backupSaveOnCommand);
+    setBackupFlushTimeoutInput(String(serverState.backupFlushTimeoutSeconds));
+    setSafetySnapshotsEnabledInput(serverState.safetySnapshotsEnabled);
+    setSafetySnapshotKeepInput(String(serverState.safetySnapshotKeep));
+    setSafetySnapshotMaxAgeInput(String(serverState.safetySnapshotMaxAgeHours));
+    setServerVersionsKeepInput(String(serverState.serverVersionsKeep));
+    setUpdateCheckEnabledInput(serverState.updateCheckEnabled);
+    setUpdateCheckIntervalInput(String(serverState.updateCheckIntervalMinutes));
+    setAutoUpdateEnabledInput(serverState.autoUpdateEnabled);
+    setAutoUpdateOnlyWhenEmptyInput(serverState.autoUpdateOnlyWhenEmpty);
+    setAutoUpdateWindowInput(serverState.autoUpdateWindow);
+    setDownloadCacheKeepVersionsInput(
+      String(serverState.downloadCacheKeepVersions),
+    );
+    setDownloadCacheMaxSizeInput(String(serverState.downloadCacheMaxSizeMb));
   }, [
     serverState?.bindPort,
     serverState?.autoBackupEnabled,
@@ -598,8 +1156,66 @@ export function App() {
     serverState?.javaMinHeapMb,
     serverState?.javaMaxHeapMb,
     serverState?.javaExtraArgs,
+    serverState?.shutdownWarningEnabled,
+    serverState?.shutdownWarningIntervals,
+    serverState?.shutdownWarningCommand,
+    serverState?.autoRestartEnabled,
+    serverState?.autoRestartMaxAttempts,
+    serverState?.backupRetentionEnabled,
+    serverState?.backupRetentionKeepLast,
+    serverState?.backupRetentionKeepHourly,
+    serverState?.backupRetentionKeepDaily,
+    serverState?.backupRetentionKeepWeekly,
+    serverState?.backupRetentionKeepMonthly,
+    serverState?.backupRetentionMaxTotalMb,
+    serverState?.consistentBackupEnabled,
+    serverState?.backupSaveOffCommand,
+    serverState?.backupFlushCommand,
+    serverState?.backupFlushConfirmPattern,
+    serverState?.backupSaveOnCommand,
+    serverState?.backupFlushTimeoutSeconds,
+    serverState?.safetySnapshotsEnabled,
+    serverState?.safetySnapshotKeep,
+    serverState?.safetySnapshotMaxAgeHours,
+    serverState?.serverVersionsKeep,
+    serverState?.updateCheckEnabled,
+    serverState?.updateCheckIntervalMinutes,
+    serverState?.autoUpdateEnabled,
+    serverState?.autoUpdateOnlyWhenEmpty,
+    serverState?.autoUpdateWindow,
+    serverState?.downloadCacheKeepVersions,
+    serverState?.downloadCacheMaxSizeMb,
   ]);
 
+  useEffect(() => {
+    if (!user || !connected || !permissions.includes("server.install")) {
+      return;
+    }
+
+    void socket
+      .request<DownloadCacheListing>("downloads.cache.list")
+      .then(setDownloadCache)
+      .catch(() => {
+        // The cache list is informational; the section stays empty.
+      });
+  }, [socket, user, connected, permissions]);
+
+  useEffect(() => {
+    if (serverState?.patchline) {
+      setPatchlineInput(serverState.patchline);
+    }
+  }, [serverState?.patchline]);
+
+  useEffect(() => {
+    if (!shutdownCountdown) {
+      return;
+    }
+
+    setCountdownClock(Date.now());
+    const timer = window.setInterval(() => setCountdownClock(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [shutdownCountdown?.endsAt]);
+
   function handleTerminalScroll(event: UIEvent<HTMLPreElement>) {
     const element = event.currentTarget;
     if (terminalScrollLock) {
@@ -740,7 +1356,22 @@ export function App() {
       setBackups([]);
       setLogs([]);
       setWhitelist(null);
+      setCurseForgeStatus(null);
+      setCurseForgeInstalled([]);
+      setCurseForgeResults(null);
+      setNexusStatus(null);
+      setNexusInstalled([]);
+      setNexusResults(null);
+      setScheduler({ jobs: [], runs: [] });
+      setCrashes([]);
+      setPlayerSessions([]);
+      setModeration(null);
       setInvites([]);
+      setPermissions([]);
+      setRoles([]);
+      setUsers([]);
+      setAuditEvents([]);
+      setAuditHasMore(false);
       setStatus("Logged out.");
     } catch (logoutError) {
       setError((logoutError as Error).message);
@@ -779,408 +1410,387 @@ export function App() {
     }
   }
 
-  async function runServerAction(
-    action: "server.start" | "server.stop" | "server.restart",
-  ) {
-    if (!serverState) {
+  async function switchPatchline(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const patchline = (
+      patchlineInput === "__custom" ? customPatchlineInput : patchlineInput
+    ).trim();
+    if (!serverState || !patchline || patchline === serverState.patchline) {
       return;
     }
 
-    if (action === "server.stop") {
-      if (serverState.status !== "running" && !serverState.lifecycleReady) {
-        setError(
-          "Install latest server and Adoptium JDK 25 before using lifecycle actions.",
-        );
-        return;
-      }
-    } else if (!serverState.lifecycleReady) {
-      setError(
-        "Install latest server and Adoptium JDK 25 before starting or restarting.",
-      );
+    if (
+      !window.confirm(
+        `Switch from ${serverState.patchline} to ${patchline}? ${serverState.installed ? "A backup is taken first. " : ""}The next install or update will install the latest ${patchline} build.`,
+      )
+    ) {
       return;
     }
 
     setBusy(true);
     setError("");
-
     try {
-      const timeoutMs =
-        action === "server.stop" ? undefined : LONG_OPERATION_TIMEOUT_MS;
-      await request(action, undefined, timeoutMs);
-      const snapshot = await request<ServerState>("server.status");
-      setServerState(snapshot);
-      setStatus(`${action} completed.`);
-    } catch (actionError) {
-      setError((actionError as Error).message);
+      const data = await request<{
+        patchline: string;
+        backup: BackupEntry | null;
+        serverState: ServerState;
+      }>("server.patchline.set", { patchline, confirm: true }, LONG_OPERATION_TIMEOUT_MS);
+      setServerState(data.serverState);
+      setCustomPatchlineInput("");
+      setStatus(
+        `Patchline set to ${data.patchline}${data.backup ? ` (backup ${data.backup.name})` : ""}.`,
+      );
+    } catch (switchError) {
+      setError((switchError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function saveRuntimeSettings(event: FormEvent) {
-    event.preventDefault();
-    if (user?.role !== "owner") {
-      setError("Only the owner can update server runtime settings.");
-      return;
-    }
-
-    const bindPort = Number(bindPortInput.trim());
-    const backupFrequencyMinutes = Number(backupFrequencyMinutesInput.trim());
-    const backupMaxCount = Number(backupMaxCountInput.trim());
-    const javaMinHeapMb = Number(javaMinHeapInput.trim());
-    const javaMaxHeapMb = Number(javaMaxHeapInput.trim());
-    const javaExtraArgs = javaExtraArgsInput.trim();
-
-    if (!Number.isInteger(bindPort) || bindPort < 1 || bindPort > 65535) {
-      setError("Server bind port must be an integer between 1 and 65535.");
+  async function createStaging() {
+    const patchline = stagingPatchlineInput.trim();
+    if (!serverState || !patchline) {
       return;
     }
 
     if (
-      !Number.isInteger(backupFrequencyMinutes) ||
-      backupFrequencyMinutes < 1 ||
-      backupFrequencyMinutes > 1440
+      !window.confirm(
+        `Install the latest ${patchline} build as a staging server with a copy of the live world, mods and configs?${serverState.staging.install ? " The current staging server and its world are replaced." : ""}`,
+      )
     ) {
-      setError("Backup frequency must be an integer between 1 and 1440.");
-      return;
-    }
-
-    if (!Number.isInteger(backupMaxCount) || backupMaxCount < 1) {
-      setError("Backup max count must be a positive integer.");
-      return;
-    }
-
-    if (!Number.isInteger(javaMinHeapMb) || javaMinHeapMb < 256) {
-      setError("Java min heap must be an integer of at least 256 MB.");
-      return;
-    }
-
-    if (!Number.isInteger(javaMaxHeapMb) || javaMaxHeapMb < 256) {
-      setError("Java max heap must be an integer of at least 256 MB.");
-      return;
-    }
-
-    if (javaMinHeapMb > javaMaxHeapMb) {
-      setError("Java min heap cannot be greater than Java max heap.");
-      return;
-    }
-
-    if (javaExtraArgs.length > 2000) {
-      setError("Extra JVM args are too long (maximum 2000 characters).");
       return;
     }
 
     setBusy(true);
     setError("");
-
     try {
-      const snapshot = await request<ServerState>("server.runtime.update", {
-        bindPort,
-        autoBackupEnabled: autoBackupEnabledInput,
-        backupFrequencyMinutes,
-        backupMaxCount,
-        javaMinHeapMb,
-        javaMaxHeapMb,
-        javaExtraArgs,
-      });
-      setServerState(snapshot);
+      const staging = await request<StagingState>(
+        "staging.create",
+        { patchline, port: stagingPortInput.trim() || null },
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setServerState((prev) => (prev ? { ...prev, staging } : prev));
       setStatus(
-        serverState?.status === "running"
-          ? "Runtime settings saved. Restart server to apply fully."
-          : "Runtime settings saved.",
+        `Staging server ready: ${staging.install?.patchline} ${staging.install?.version} on port ${staging.install?.port}.`,
       );
-    } catch (settingsError) {
-      setError((settingsError as Error).message);
+    } catch (stagingError) {
+      setError((stagingError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function sendTerminalCommand(event: FormEvent) {
-    event.preventDefault();
-    const value = commandInput.trim();
-    if (!value) {
+  async function runStagingAction(
+    action: "staging.start" | "staging.stop" | "staging.delete",
+  ) {
+    if (
+      action === "staging.delete" &&
+      !window.confirm("Delete the staging server and its copy of the world?")
+    ) {
       return;
     }
 
-    setCommandInput("");
+    setBusy(true);
+    setError("");
     try {
-      await request("server.command", { value });
-    } catch (commandError) {
-      setError((commandError as Error).message);
+      const staging = await request<StagingState>(
+        action,
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setServerState((prev) => (prev ? { ...prev, staging } : prev));
+    } catch (stagingError) {
+      setError((stagingError as Error).message);
+    } finally {
+      setBusy(false);
     }
   }
 
-  async function handleLogSelection(name: string) {
-    setSelectedLog(name);
-    if (name === "__terminal__") {
-      setLogContent(terminalLines.join("\n"));
-      return;
+  async function verifyInstallation() {
+    setBusy(true);
+    setError("");
+    try {
+      const result = await request<InstallVerification>(
+        "server.verify",
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setInstallVerification(result);
+      if (result.ok) {
+        setStatus(`All ${result.checked} installed server files match.`);
+      }
+    } catch (verifyError) {
+      setError((verifyError as Error).message);
+    } finally {
+      setBusy(false);
     }
+  }
 
+  async function repairInstallation() {
+    setBusy(true);
+    setError("");
     try {
-      const response = await request<{ name: string; content: string }>(
-        "logs.read",
-        { name, tail: 700 },
+      const result = await request<InstallRepairResult>(
+        "server.repair",
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
       );
-      setLogContent(response.content);
-    } catch (logError) {
-      setError((logError as Error).message);
+      setInstallVerification(result.verification);
+      if (result.unrepaired.length > 0) {
+        setError(
+          `Repaired ${result.repaired.length} file(s); no intact copy found for ${result.unrepaired.join(", ")}.`,
+        );
+      } else {
+        setStatus(`Repaired ${result.repaired.length} file(s).`);
+      }
+    } catch (repairError) {
+      setError((repairError as Error).message);
+    } finally {
+      setBusy(false);
     }
   }
 
-  async function uploadModFile(file: File): Promise<ModEntry> {
-    const session = await request<{ uploadId: string }>("mod.upload.start", {
-      filename: file.name,
-      size: file.size,
-    });
-
-    const chunkSize = 128 * 1024;
-    for (let offset = 0; offset < file.size; offset += chunkSize) {
-      const chunk = file.slice(offset, offset + chunkSize);
-      const base64 = toBase64(await chunk.arrayBuffer());
-      await request("mod.upload.chunk", {
-        uploadId: session.uploadId,
-        chunk: base64,
-      });
-    }
-
-    const result = await request<{ mod: ModEntry; mods: ModEntry[] }>(
-      "mod.upload.finish",
-      {
-        uploadId: session.uploadId,
-      },
-    );
-
-    return result.mod;
-  }
-
-  async function handleModUpload(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    const input = event.currentTarget.elements.namedItem(
-      "mod-file",
-    ) as HTMLInputElement | null;
-    const files = input?.files;
-
-    if (!files || files.length === 0) {
-      return;
-    }
-
+  async function checkForUpdates() {
     setBusy(true);
     setError("");
-
     try {
-      for (const file of files) {
-        await uploadModFile(file);
-      }
-
-      await refreshMods();
-      setStatus("Mod upload complete.");
-      if (input) {
-        input.value = "";
+      const result = await request<UpdateCheckResult>(
+        "updates.check",
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setServerState((prev) =>
+        prev ? { ...prev, lastUpdateCheck: result } : prev,
+      );
+      if (!result.server && result.mods.length === 0) {
+        setStatus("No updates found.");
       }
-    } catch (uploadError) {
-      setError((uploadError as Error).message);
+    } catch (checkError) {
+      setError((checkError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function handleModFolderSync(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    const input = event.currentTarget.elements.namedItem(
-      "mod-sync-folder",
-    ) as HTMLInputElement | null;
-    const files = input?.files;
-    if (!files || files.length === 0) {
-      return;
-    }
-
-    const allFiles = Array.from(files);
-    const selected = allFiles
-      .filter((file) => isTopLevelFolderFile(file))
-      .filter((file) => isModArchiveFilename(file.name))
-      .sort((left, right) => left.name.localeCompare(right.name));
-
-    if (selected.length === 0) {
-      setError(
-        "Selected folder has no top-level .jar or .zip files. Subfolders are ignored.",
-      );
-      return;
-    }
-
-    const ignoredCount = allFiles.length - selected.length;
-
-    setBusy(true);
+  async function setServerVersionPin(version: string | null) {
     setError("");
-    setStatus(`Syncing folder (${selected.length} mods)...`);
-
     try {
-      const uploadedPluginKeys = new Set<string>();
-      for (const file of selected) {
-        const mod = await uploadModFile(file);
-        const pluginKey = pluginKeyFromModEntry(mod);
-        if (pluginKey) {
-          uploadedPluginKeys.add(pluginKey);
-        }
-      }
-
-      const currentMods = await request<ModEntry[]>("mods.list");
-      let removed = 0;
-
-      for (const mod of currentMods) {
-        const pluginKey = pluginKeyFromModEntry(mod);
-        if (!pluginKey || uploadedPluginKeys.has(pluginKey)) {
-          continue;
-        }
+      const next = await request<ServerVersionEntry[]>("server.version.pin", {
+        version,
+      });
+      setServerVersions(next);
+      setServerState(await request<ServerState>("server.status"));
+      setStatus(version ? `Pinned server to ${version}.` : "Server unpinned.");
+    } catch (pinError) {
+      setError((pinError as Error).message);
+    }
+  }
 
-        await request<ModEntry[]>("mod.delete", { filename: mod.filename });
-        removed += 1;
+  // Same resumable chunk protocol as backup imports; the install itself runs once the upload is complete.
+  async function installServerArchiveFile(
+    file: File,
+    input: { version: string; patchline: string; sha256: string },
+  ): Promise<OfflineInstallResult> {
+    const storageKey = `${SERVER_ARCHIVE_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+    let upload: ServerArchiveUpload | null = null;
+    const storedId = window.localStorage.getItem(storageKey);
+    if (storedId) {
+      try {
+        upload = (
+          await fetchJson<{ upload: ServerArchiveUpload }>(
+            `/api/server/archives/${encodeURIComponent(storedId)}`,
+          )
+        ).upload;
+      } catch {
+        window.localStorage.removeItem(storageKey);
       }
+    }
 
-      const finalMods = await request<ModEntry[]>("mods.list");
-      setMods(finalMods);
-      setStatus(
-        `Folder sync complete. Added/updated: ${selected.length}, removed: ${removed}, ignored: ${ignoredCount}.`,
-      );
-      if (input) {
-        input.value = "";
-      }
-    } catch (syncError) {
-      setError((syncError as Error).message);
-    } finally {
-      setBusy(false);
+    if (!upload) {
+      upload = (
+        await fetchJson<{ upload: ServerArchiveUpload }>("/api/server/archives", {
+          method: "POST",
+          body: JSON.stringify({
+            filename: file.name,
+            size: file.size,
+            version: input.version,
+            patchline: input.patchline || null,
+            sha256: input.sha256 || null,
+          }),
+        })
+      ).upload;
+      window.localStorage.setItem(storageKey, upload.id);
     }
-  }
 
-  async function setModState(filename: string, disabled: boolean) {
-    try {
-      const next = await request<ModEntry[]>(
-        disabled ? "mod.disable" : "mod.enable",
+    let received = upload.received;
+    setServerArchiveProgress({ filename: file.name, received, size: file.size });
+    while (received < file.size) {
+      const response = await fetch(
+        `/api/server/archives/${encodeURIComponent(upload.id)}?offset=${received}`,
         {
-          filename,
+          method: "PUT",
+          headers: { "content-type": "application/octet-stream" },
+          body: file.slice(received, received + BACKUP_IMPORT_CHUNK_BYTES),
         },
       );
-      setMods(next);
-    } catch (modError) {
-      setError((modError as Error).message);
+      const body = (await response.json()) as {
+        upload?: ServerArchiveUpload;
+        error?: string;
+      };
+      if (!response.ok || !body.upload) {
+        throw new Error(
+          `${body.error ?? `Upload failed (${response.status})`} Retry to resume.`,
+        );
+      }
+      received = body.upload.received;
+      setServerArchiveProgress({ filename: file.name, received, size: file.size });
     }
-  }
 
-  async function deleteMod(filename: string) {
-    try {
-      const next = await request<ModEntry[]>("mod.delete", { filename });
-      setMods(next);
-    } catch (modError) {
-      setError((modError as Error).message);
-    }
+    const result = await fetchJson<{ result: OfflineInstallResult }>(
+      `/api/server/archives/${encodeURIComponent(upload.id)}/install`,
+      { method: "POST" },
+    );
+    window.localStorage.removeItem(storageKey);
+    return result.result;
   }
 
-  async function updateWhitelistEnabled(enabled: boolean) {
-    if (user?.role !== "owner") {
-      setError("Only the owner can change whitelist settings.");
+  async function handleServerArchiveInstall(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const field = (name: string) =>
+      form.elements.namedItem(name) as HTMLInputElement | null;
+    const file = field("server-archive-file")?.files?.[0];
+    const version = field("server-archive-version")?.value.trim() ?? "";
+    if (!file) {
+      return;
+    }
+    if (!version) {
+      setError("Enter a version label for the archive.");
       return;
     }
 
     setBusy(true);
     setError("");
     try {
-      const next = await request<WhitelistState>("whitelist.setEnabled", {
-        enabled,
+      const result = await installServerArchiveFile(file, {
+        version,
+        patchline: field("server-archive-patchline")?.value.trim() ?? "",
+        sha256: field("server-archive-sha256")?.value.trim() ?? "",
       });
-      setWhitelist(next);
-      setStatus(`Whitelist ${next.enabled ? "enabled" : "disabled"}.`);
-    } catch (whitelistError) {
-      setError((whitelistError as Error).message);
+      setStatus(
+        `Installed ${result.patchline} ${result.version} from ${file.name}.`,
+      );
+      setServerState(await request<ServerState>("server.status"));
+      form.reset();
+    } catch (installError) {
+      setError((installError as Error).message);
     } finally {
+      setServerArchiveProgress(null);
       setBusy(false);
     }
   }
 
-  async function addWhitelistEntry(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    if (user?.role !== "owner") {
-      setError("Only the owner can add whitelist entries.");
-      return;
-    }
-
-    const value = whitelistInput.trim();
-    if (!value) {
+  async function rollbackServerVersion(version: ServerVersionEntry) {
+    if (
+      !window.confirm(
+        `Switch the server files to ${version.patchline} ${version.version}? The server will stay pinned to it until you unpin it.`,
+      )
+    ) {
       return;
     }
 
     setBusy(true);
     setError("");
     try {
-      const next = await request<WhitelistState>("whitelist.add", { value });
-      setWhitelist(next);
-      setWhitelistInput("");
-      setStatus("Whitelist entry added.");
-    } catch (whitelistError) {
-      setError((whitelistError as Error).message);
+      const next = await request<ServerVersionEntry[]>(
+        "server.version.rollback",
+        { id: version.id },
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setServerVersions(next);
+      setServerState(await request<ServerState>("server.status"));
+      setStatus(`Server switched to ${version.version}.`);
+    } catch (rollbackError) {
+      setError((rollbackError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function removeWhitelistEntry(uuid: string) {
-    if (user?.role !== "owner") {
-      setError("Only the owner can remove whitelist entries.");
+  async function deleteServerVersion(version: ServerVersionEntry) {
+    if (!window.confirm(`Delete the kept copy of ${version.version}?`)) {
       return;
     }
 
     try {
-      const next = await request<WhitelistState>("whitelist.remove", { uuid });
-      setWhitelist(next);
-      setStatus("Whitelist entry removed.");
-    } catch (whitelistError) {
-      setError((whitelistError as Error).message);
+      const next = await request<ServerVersionEntry[]>("server.version.delete", {
+        id: version.id,
+      });
+      setServerVersions(next);
+      setServerState(await request<ServerState>("server.status"));
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
     }
   }
 
-  async function createBackup() {
-    setBusy(true);
-    setError("");
-
-    try {
-      const data = await request<{ backups: BackupEntry[] }>("backup.create", {
-        note: backupNote,
-      });
-      setBackups(data.backups);
-      setBackupNote("");
-      setStatus("Backup created.");
-    } catch (backupError) {
-      setError((backupError as Error).message);
-    } finally {
-      setBusy(false);
+  async function deleteDownloadCacheEntry(entry: DownloadCacheEntry) {
+    const name = entry.label
+      ? `${entry.label.name} ${entry.label.version}`
+      : "this cached download";
+    if (!window.confirm(`Delete ${name} from the download cache?`)) {
+      return;
     }
-  }
 
-  async function deleteBackup(id: string) {
     try {
-      const next = await request<BackupEntry[]>("backup.delete", { id });
-      setBackups(next);
+      setDownloadCache(
+        await request<DownloadCacheListing>("downloads.cache.delete", {
+          id: entry.id,
+        }),
+      );
     } catch (deleteError) {
       setError((deleteError as Error).message);
     }
   }
 
-  async function restoreBackup(id: string) {
+  async function pruneDownloadCache() {
     setBusy(true);
     setError("");
-
     try {
-      await request("backup.restore", { id });
-      setStatus(`Backup ${id} restored.`);
-    } catch (restoreError) {
-      setError((restoreError as Error).message);
+      const { result, cache } = await request<{
+        result: DownloadCachePruneResult;
+        cache: DownloadCacheListing;
+      }>("downloads.cache.prune");
+      setDownloadCache(cache);
+      setStatus(
+        result.deleted.length === 0 && result.partialsRemoved === 0
+          ? "Download cache is within its limits."
+          : `Pruned ${result.deleted.length} cached download(s) and ${result.partialsRemoved} unfinished download(s), freeing ${formatBytes(result.freedBytes)}.`,
+      );
+    } catch (pruneError) {
+      setError((pruneError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function createInvite() {
-    if (!inviteEmail.trim()) {
+  async function runServerAction(
+    action: "server.start" | "server.stop" | "server.restart",
+  ) {
+    if (!serverState) {
+      return;
+    }
+
+    if (action === "server.stop") {
+      if (serverState.status !== "running" && !serverState.lifecycleReady) {
+        setError(
+          "Install latest server and Adoptium JDK 25 before using lifecycle actions.",
+        );
+        return;
+      }
+    } else if (!serverState.lifecycleReady) {
+      setError(
+        "Install latest server and Adoptium JDK 25 before starting or restarting.",
+      );
       return;
     }
 
@@ -1188,100 +1798,1812 @@ export function App() {
     setError("");
 
     try {
-      const data = await request<{
-        invite: { inviteUrl: string; emailDispatched: boolean };
-        invites: InviteSummary[];
-      }>("invite.create", { email: inviteEmail.trim(), role: "member" });
-
-      setInvites(data.invites);
-      setLastInviteUrl(data.invite.inviteUrl);
-      setInviteEmail("");
-      setStatus(
-        data.invite.emailDispatched
-          ? "Invite email sent."
-          : "Invite created (SMTP not configured). Copy the link.",
-      );
-    } catch (inviteError) {
-      setError((inviteError as Error).message);
+      const timeoutMs =
+        action === "server.stop" && !serverState.shutdownWarningEnabled
+          ? undefined
+          : LONG_OPERATION_TIMEOUT_MS;
+      await request(action, undefined, timeoutMs);
+      const snapshot = await request<ServerState>("server.status");
+      setServerState(snapshot);
+      setStatus(`${action} completed.`);
+    } catch (actionError) {
+      setError((actionError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function installJavaRuntime() {
-    setBusy(true);
+  async function cancelShutdownCountdown() {
     setError("");
-    setStatus("Installing Adoptium JDK 25...");
-
     try {
-      const result = await request<{
-        javaCommand: string;
-        releaseName: string;
-      }>("java.install", undefined, LONG_OPERATION_TIMEOUT_MS);
-      const snapshot = await request<ServerState>("server.status");
+      const data = await request<{ cancelled: boolean }>(
+        "server.shutdown.cancel",
+      );
+      setStatus(
+        data.cancelled
+          ? "Shutdown countdown cancelled."
+          : "No shutdown countdown is pending.",
+      );
+    } catch (cancelError) {
+      setError((cancelError as Error).message);
+    }
+  }
+
+  async function saveRuntimeSettings(event: FormEvent) {
+    event.preventDefault();
+    if (!can("server.settings")) {
+      setError("You do not have permission to update server runtime settings.");
+      return;
+    }
+
+    const bindPort = Number(bindPortInput.trim());
+    const backupFrequencyMinutes = Number(backupFrequencyMinutesInput.trim());
+    const backupMaxCount = Number(backupMaxCountInput.trim());
+    const javaMinHeapMb = Number(javaMinHeapInput.trim());
+    const javaMaxHeapMb = Number(javaMaxHeapInput.trim());
+    const javaExtraArgs = javaExtraArgsInput.trim();
+    const shutdownWarningIntervals = shutdownWarningIntervalsInput.trim();
+    const autoRestartMaxAttempts = Number(autoRestartMaxAttemptsInput.trim());
+    const shutdownWarningCommand = shutdownWarningCommandInput.trim();
+    const backupRetentionKeepLast = Number(backupRetentionKeepLastInput.trim());
+    const backupRetentionKeepHourly = Number(
+      backupRetentionKeepHourlyInput.trim(),
+    );
+    const backupRetentionKeepDaily = Number(backupRetentionKeepDailyInput.trim());
+    const backupRetentionKeepWeekly = Number(
+      backupRetentionKeepWeeklyInput.trim(),
+    );
+    const backupRetentionKeepMonthly = Number(
+      backupRetentionKeepMonthlyInput.trim(),
+    );
+    const backupRetentionMaxTotalMb = Number(
+      backupRetentionMaxTotalMbInput.trim(),
+    );
+    const backupSaveOffCommand = backupSaveOffCommandInput.trim();
+    const backupFlushCommand = backupFlushCommandInput.trim();
+    const backupFlushConfirmPattern = backupFlushConfirmPatternInput.trim();
+    const backupSaveOnCommand = backupSaveOnCommandInput.trim();
+    const backupFlushTimeoutSeconds = Number(backupFlushTimeoutInput.trim());
+    const safetySnapshotKeep = Number(safetySnapshotKeepInput.trim());
+    const safetySnapshotMaxAgeHours = Number(safetySnapshotMaxAgeInput.trim());
+    const serverVersionsKeep = Number(serverVersionsKeepInput.trim());
+    const updateCheckIntervalMinutes = Number(updateCheckIntervalInput.trim());
+    const autoUpdateWindow = autoUpdateWindowInput.trim();
+    const downloadCacheKeepVersions = Number(
+      downloadCacheKeepVersionsInput.trim(),
+    );
+    const downloadCacheMaxSizeMb = Number(downloadCacheMaxSizeInput.trim());
+
+    if (!Number.isInteger(bindPort) || bindPort < 1 || bindPort > 65535) {
+      setError("Server bind port must be an integer between 1 and 65535.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(backupFrequencyMinutes) ||
+      backupFrequencyMinutes < 1 ||
+      backupFrequencyMinutes > 1440
+    ) {
+      setError("Backup frequency must be an integer between 1 and 1440.");
+      return;
+    }
+
+    if (!Number.isInteger(backupMaxCount) || backupMaxCount < 1) {
+      setError("Backup max count must be a positive integer.");
+      return;
+    }
+
+    if (!Number.isInteger(javaMinHeapMb) || javaMinHeapMb < 256) {
+      setError("Java min heap must be an integer of at least 256 MB.");
+      return;
+    }
+
+    if (!Number.isInteger(javaMaxHeapMb) || javaMaxHeapMb < 256) {
+      setError("Java max heap must be an integer of at least 256 MB.");
+      return;
+    }
+
+    if (javaMinHeapMb > javaMaxHeapMb) {
+      setError("Java min heap cannot be greater than Java max heap.");
+      return;
+    }
+
+    if (javaExtraArgs.length > 2000) {
+      setError("Extra JVM args are too long (maximum 2000 characters).");
+      return;
+    }
+
+    if (shutdownWarningEnabledInput && !shutdownWarningIntervals) {
+      setError("Warning intervals are required when shutdown warnings are on.");
+      return;
+    }
+
+    if (!shutdownWarningCommand) {
+      setError("Warning command cannot be empty.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(autoRestartMaxAttempts) ||
+      autoRestartMaxAttempts < 1 ||
+      autoRestartMaxAttempts > 50
+    ) {
+      setError("Auto-restart attempts must be an integer between 1 and 50.");
+      return;
+    }
+
+    const retentionCounts = [
+      backupRetentionKeepLast,
+      backupRetentionKeepHourly,
+      backupRetentionKeepDaily,
+      backupRetentionKeepWeekly,
+      backupRetentionKeepMonthly,
+    ];
+    if (
+      retentionCounts.some(
+        (value) => !Number.isInteger(value) || value < 0 || value > 1000,
+      )
+    ) {
+      setError("Retention counts must be integers between 0 and 1000.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(backupRetentionMaxTotalMb) ||
+      backupRetentionMaxTotalMb < 0
+    ) {
+      setError("Retention size limit must be a non-negative integer (0 = no limit).");
+      return;
+    }
+
+    if (
+      backupRetentionEnabledInput &&
+      retentionCounts.every((value) => value === 0) &&
+      backupRetentionMaxTotalMb === 0
+    ) {
+      setError(
+        "Backup retention needs a keep-last count, at least one tier, or a size limit.",
+      );
+      return;
+    }
+
+    if (!backupFlushCommand || !backupFlushConfirmPattern) {
+      setError("The save flush command and its confirmation pattern are required.");
+      return;
+    }
+
+    if (Boolean(backupSaveOffCommand) !== Boolean(backupSaveOnCommand)) {
+      setError("Set both the save-off and save-on commands, or neither.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(backupFlushTimeoutSeconds) ||
+      backupFlushTimeoutSeconds < 5 ||
+      backupFlushTimeoutSeconds > 600
+    ) {
+      setError("Save flush timeout must be an integer between 5 and 600 seconds.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(safetySnapshotKeep) ||
+      safetySnapshotKeep < 1 ||
+      safetySnapshotKeep > 50
+    ) {
+      setError("Safety snapshots to keep must be an integer between 1 and 50.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(safetySnapshotMaxAgeHours) ||
+      safetySnapshotMaxAgeHours < 1 ||
+      safetySnapshotMaxAgeHours > 720
+    ) {
+      setError("Safety snapshot age must be an integer between 1 and 720 hours.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(serverVersionsKeep) ||
+      serverVersionsKeep < 0 ||
+      serverVersionsKeep > 100
+    ) {
+      setError("Server versions to keep must be an integer between 0 and 100.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(updateCheckIntervalMinutes) ||
+      updateCheckIntervalMinutes < 5 ||
+      updateCheckIntervalMinutes > 1440
+    ) {
+      setError("Update check interval must be an integer between 5 and 1440 minutes.");
+      return;
+    }
+
+    if (
+      autoUpdateWindow &&
+      !/^([01]?\d|2[0-3]):[0-5]\d\s*-\s*([01]?\d|2[0-3]):[0-5]\d$/.test(
+        autoUpdateWindow,
+      )
+    ) {
+      setError('Maintenance window must look like "03:00-05:00".');
+      return;
+    }
+
+    if (
+      !Number.isInteger(downloadCacheKeepVersions) ||
+      downloadCacheKeepVersions < 0 ||
+      downloadCacheKeepVersions > 100
+    ) {
+      setError("Cached versions to keep must be an integer between 0 and 100.");
+      return;
+    }
+
+    if (
+      !Number.isInteger(downloadCacheMaxSizeMb) ||
+      downloadCacheMaxSizeMb < 0 ||
+      downloadCacheMaxSizeMb > 10485760
+    ) {
+      setError(
+        "Download cache size limit must be an integer between 0 and 10485760 MB.",
+      );
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+
+    try {
+      const snapshot = await request<ServerState>("server.runtime.update", {
+        bindPort,
+        autoBackupEnabled: autoBackupEnabledInput,
+        backupFrequencyMinutes,
+        backupMaxCount,
+        javaMinHeapMb,
+        javaMaxHeapMb,
+        javaExtraArgs,
+        shutdownWarningEnabled: shutdownWarningEnabledInput,
+        shutdownWarningIntervals,
+        autoRestartEnabled: autoRestartEnabledInput,
+        autoRestartMaxAttempts,
+        backupRetentionEnabled: backupRetentionEnabledInput,
+        backupRetentionKeepLast,
+        backupRetentionKeepHourly,
+        backupRetentionKeepDaily,
+        backupRetentionKeepWeekly,
+        backupRetentionKeepMonthly,
+        backupRetentionMaxTotalMb,
+        consistentBackupEnabled: consistentBackupEnabledInput,
+        backupFlushConfirmPattern,
+        backupFlushTimeoutSeconds,
+        safetySnapshotsEnabled: safetySnapshotsEnabledInput,
+        safetySnapshotKeep,
+        safetySnapshotMaxAgeHours,
+        serverVersionsKeep,
+        updateCheckEnabled: updateCheckEnabledInput,
+        updateCheckIntervalMinutes,
+        autoUpdateEnabled: autoUpdateEnabledInput,
+        autoUpdateOnlyWhenEmpty: autoUpdateOnlyWhenEmptyInput,
+        autoUpdateWindow,
+        downloadCacheKeepVersions,
+        downloadCacheMaxSizeMb,
+        // Console command templates need server.console, so they are only sent by users who hold it.
+        ...(can("server.console")
+          ? {
+              shutdownWarningCommand,
+              backupSaveOffCommand,
+              backupFlushCommand,
+              backupSaveOnCommand,
+            }
+          : {}),
+      });
       setServerState(snapshot);
       setStatus(
-        `Java installed (${result.releaseName}) at ${result.javaCommand}`,
+        serverState?.status === "running"
+          ? "Runtime settings saved. Restart server to apply fully."
+          : "Runtime settings saved.",
       );
-    } catch (installError) {
-      setError((installError as Error).message);
+    } catch (settingsError) {
+      setError((settingsError as Error).message);
     } finally {
       setBusy(false);
     }
   }
 
-  async function revokeInvite(id: number) {
+  async function sendTerminalCommand(event: FormEvent) {
+    event.preventDefault();
+    const value = commandInput.trim();
+    if (!value) {
+      return;
+    }
+
+    setCommandInput("");
     try {
-      const next = await request<InviteSummary[]>("invite.revoke", { id });
-      setInvites(next);
-    } catch (revokeError) {
-      setError((revokeError as Error).message);
+      await request("server.command", { value });
+    } catch (commandError) {
+      setError((commandError as Error).message);
     }
   }
 
-  if (!initialized) {
-    return (
-      <main className="flex min-h-screen items-center justify-center p-6">
-        <Card className="w-full max-w-lg">
-          <CardHeader>
-            <CardTitle>Hytale Manager</CardTitle>
-            <CardDescription>Loading dashboard...</CardDescription>
-          </CardHeader>
-        </Card>
-      </main>
+  async function handleLogSelection(name: string) {
+    setSelectedLog(name);
+    if (name === "__terminal__") {
+      setLogContent(terminalLines.join("\n"));
+      return;
+    }
+
+    try {
+      const response = await request<{ name: string; content: string }>(
+        "logs.read",
+        { name, tail: 700 },
+      );
+      setLogContent(response.content);
+    } catch (logError) {
+      setError((logError as Error).message);
+    }
+  }
+
+  async function uploadModFile(file: File): Promise<ModEntry> {
+    const session = await request<{ uploadId: string }>("mod.upload.start", {
+      filename: file.name,
+      size: file.size,
+    });
+
+    const chunkSize = 128 * 1024;
+    for (let offset = 0; offset < file.size; offset += chunkSize) {
+      const chunk = file.slice(offset, offset + chunkSize);
+      const base64 = toBase64(await chunk.arrayBuffer());
+      await request("mod.upload.chunk", {
+        uploadId: session.uploadId,
+        chunk: base64,
+      });
+    }
+
+    const result = await request<{ mod: ModEntry; mods: ModEntry[] }>(
+      "mod.upload.finish",
+      {
+        uploadId: session.uploadId,
+      },
     );
+
+    return result.mod;
   }
 
-  if (!user) {
-    return (
-      <main className="min-h-screen bg-[radial-gradient(circle_at_top,var(--color-accent)_0%,transparent_55%)] p-4 sm:p-8">
-        <div className="mx-auto flex min-h-[80vh] w-full max-w-md items-center">
-          <Card className="w-full backdrop-blur-sm">
-            <CardHeader>
-              <CardTitle className="text-2xl">Hytale Manager</CardTitle>
-              <CardDescription>
-                Single server control dashboard with live WebSocket operations.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {inviteToken ? (
-                <form onSubmit={handleInviteRegistration} className="space-y-4">
-                  <div>
-                    <h2 className="text-lg font-semibold">Accept invite</h2>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="invite-password">Password</Label>
-                    <Input
-                      id="invite-password"
-                      type="password"
-                      value={invitePassword}
-                      onChange={(event) =>
-                        setInvitePassword(event.target.value)
-                      }
-                      placeholder="Minimum 8 characters"
-                    />
-                  </div>
-                  <Button type="submit" className="w-full" disabled={busy}>
+  async function handleModUpload(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const input = event.currentTarget.elements.namedItem(
+      "mod-file",
+    ) as HTMLInputElement | null;
+    const files = input?.files;
+
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+
+    try {
+      for (const file of files) {
+        await uploadModFile(file);
+      }
+
+      await refreshMods();
+      setStatus("Mod upload complete.");
+      if (input) {
+        input.value = "";
+      }
+    } catch (uploadError) {
+      setError((uploadError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleModFolderSync(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const input = event.currentTarget.elements.namedItem(
+      "mod-sync-folder",
+    ) as HTMLInputElement | null;
+    const files = input?.files;
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    const allFiles = Array.from(files);
+    const selected = allFiles
+      .filter((file) => isTopLevelFolderFile(file))
+      .filter((file) => isModArchiveFilename(file.name))
+      .sort((left, right) => left.name.localeCompare(right.name));
+
+    if (selected.length === 0) {
+      setError(
+        "Selected folder has no top-level .jar or .zip files. Subfolders are ignored.",
+      );
+      return;
+    }
+
+    const ignoredCount = allFiles.length - selected.length;
+
+    setBusy(true);
+    setError("");
+    setStatus(`Syncing folder (${selected.length} mods)...`);
+
+    try {
+      const uploadedPluginKeys = new Set<string>();
+      for (const file of selected) {
+        const mod = await uploadModFile(file);
+        const pluginKey = pluginKeyFromModEntry(mod);
+        if (pluginKey) {
+          uploadedPluginKeys.add(pluginKey);
+        }
+      }
+
+      const currentMods = await request<ModEntry[]>("mods.list");
+      let removed = 0;
+
+      for (const mod of currentMods) {
+        const pluginKey = pluginKeyFromModEntry(mod);
+        if (!pluginKey || uploadedPluginKeys.has(pluginKey)) {
+          continue;
+        }
+
+        await request<ModEntry[]>("mod.delete", { filename: mod.filename });
+        removed += 1;
+      }
+
+      const finalMods = await request<ModEntry[]>("mods.list");
+      setMods(finalMods);
+      setStatus(
+        `Folder sync complete. Added/updated: ${selected.length}, removed: ${removed}, ignored: ${ignoredCount}.`,
+      );
+      if (input) {
+        input.value = "";
+      }
+    } catch (syncError) {
+      setError((syncError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function setModState(filename: string, disabled: boolean) {
+    try {
+      const next = await request<ModEntry[]>(
+        disabled ? "mod.disable" : "mod.enable",
+        {
+          filename,
+        },
+      );
+      setMods(next);
+    } catch (modError) {
+      setError((modError as Error).message);
+    }
+  }
+
+  async function deleteMod(filename: string) {
+    try {
+      const next = await request<ModEntry[]>("mod.delete", { filename });
+      setMods(next);
+    } catch (modError) {
+      setError((modError as Error).message);
+    }
+  }
+
+  async function updateWhitelistEnabled(enabled: boolean) {
+    if (!can("whitelist.write")) {
+      setError("You do not have permission to change whitelist settings.");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<WhitelistState>("whitelist.setEnabled", {
+        enabled,
+      });
+      setWhitelist(next);
+      setStatus(`Whitelist ${next.enabled ? "enabled" : "disabled"}.`);
+    } catch (whitelistError) {
+      setError((whitelistError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addWhitelistEntry(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!can("whitelist.write")) {
+      setError("You do not have permission to add whitelist entries.");
+      return;
+    }
+
+    const value = whitelistInput.trim();
+    if (!value) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<WhitelistState>("whitelist.add", { value });
+      setWhitelist(next);
+      setWhitelistInput("");
+      setStatus("Whitelist entry added.");
+    } catch (whitelistError) {
+      setError((whitelistError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeWhitelistEntry(uuid: string) {
+    if (!can("whitelist.write")) {
+      setError("You do not have permission to remove whitelist entries.");
+      return;
+    }
+
+    try {
+      const next = await request<WhitelistState>("whitelist.remove", { uuid });
+      setWhitelist(next);
+      setStatus("Whitelist entry removed.");
+    } catch (whitelistError) {
+      setError((whitelistError as Error).message);
+    }
+  }
+
+  async function runModerationAction(
+    action: string,
+    payload: Record<string, unknown>,
+    successMessage: string,
+  ): Promise<boolean> {
+    const permission = action.startsWith("bans.")
+      ? "players.ban"
+      : "players.operators";
+    if (!can(permission)) {
+      setError(`The "${permission}" permission is required.`);
+      return false;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<ModerationState>(action, payload, 20_000);
+      setModeration(next);
+      setStatus(successMessage);
+      return true;
+    } catch (moderationError) {
+      setError((moderationError as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addBan(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const player = banPlayerInput.trim();
+    if (!player) {
+      return;
+    }
+
+    const duration = BAN_DURATION_OPTIONS.find(
+      (option) => option.value === banDurationInput,
+    );
+    const expiresAt =
+      duration && duration.minutes > 0
+        ? new Date(Date.now() + duration.minutes * 60_000).toISOString()
+        : null;
+    const ok = await runModerationAction(
+      "bans.add",
+      { player, reason: banReasonInput.trim(), expiresAt },
+      `Banned ${player}.`,
+    );
+    if (ok) {
+      setBanPlayerInput("");
+      setBanReasonInput("");
+    }
+  }
+
+  async function addOperator(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const player = operatorInput.trim();
+    if (!player) {
+      return;
+    }
+
+    if (
+      await runModerationAction("ops.add", { player }, `${player} is now an operator.`)
+    ) {
+      setOperatorInput("");
+    }
+  }
+
+  async function saveUserPermissions(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const player = permissionPlayerInput.trim();
+    if (!player) {
+      return;
+    }
+
+    const ok = await runModerationAction(
+      "permissions.user.set",
+      {
+        player,
+        groups: splitPermissionInput(permissionPlayerGroupsInput),
+        permissions: splitPermissionInput(permissionPlayerNodesInput),
+      },
+      `Permissions saved for ${player}.`,
+    );
+    if (ok) {
+      setPermissionPlayerInput("");
+      setPermissionPlayerGroupsInput("");
+      setPermissionPlayerNodesInput("");
+    }
+  }
+
+  async function savePermissionGroup(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const group = permissionGroupInput.trim();
+    if (!group) {
+      return;
+    }
+
+    const ok = await runModerationAction(
+      "permissions.group.set",
+      { group, permissions: splitPermissionInput(permissionGroupNodesInput) },
+      `Permission group ${group} saved.`,
+    );
+    if (ok) {
+      setPermissionGroupInput("");
+      setPermissionGroupNodesInput("");
+    }
+  }
+
+  async function kickPlayer(username: string) {
+    const reason = window.prompt(`Kick ${username}? Optional reason:`, "");
+    if (reason === null) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      await request("players.kick", { player: username, reason });
+      setStatus(`Kicked ${username}.`);
+    } catch (kickError) {
+      setError((kickError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function connectCurseForge(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!can("integrations.manage")) {
+      setError("You do not have permission to connect CurseForge.");
+      return;
+    }
+
+    const apiKey = curseForgeApiKeyInput.trim();
+    const gameId = Number(curseForgeGameIdInput.trim());
+    const classIdRaw = curseForgeClassIdInput.trim();
+    const classId = classIdRaw ? Number(classIdRaw) : 0;
+
+    if (!apiKey) {
+      setError("CurseForge API key is required.");
+      return;
+    }
+
+    if (!Number.isInteger(gameId) || gameId <= 0) {
+      setError("CurseForge game ID must be a positive integer.");
+      return;
+    }
+
+    if (!Number.isInteger(classId) || classId < 0) {
+      setError("CurseForge class ID must be a non-negative integer.");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{ status: CurseForgeStatus }>(
+        "curseforge.connect",
+        { apiKey, gameId, classId },
+      );
+      setCurseForgeStatus(data.status);
+      setCurseForgeApiKeyInput("");
+      setStatus(`CurseForge connected (game ${gameId}).`);
+    } catch (connectError) {
+      setError((connectError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function searchCurseForge(page = 1) {
+    setBusy(true);
+    setError("");
+    try {
+      const result = await request<CurseForgeSearchResult>(
+        "curseforge.search",
+        {
+          query: curseForgeQuery.trim(),
+          sort: curseForgeSort,
+          page,
+        },
+      );
+      setCurseForgeResults(result);
+    } catch (searchError) {
+      setError((searchError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function installCurseForgeMod(modId: number) {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{
+        installedMod: CurseForgeInstalledMod | null;
+        mods: ModEntry[];
+        installed: CurseForgeInstalledMod[];
+        alreadyInstalled: boolean;
+      }>("curseforge.install", { modId }, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setCurseForgeInstalled(data.installed);
+      setStatus(
+        data.alreadyInstalled
+          ? `${data.installedMod?.modName ?? `Mod ${modId}`} is already up to date.`
+          : `Installed ${data.installedMod?.modName ?? `mod ${modId}`} from CurseForge.`,
+      );
+    } catch (installError) {
+      setError((installError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function checkCurseForgeUpdates() {
+    setBusy(true);
+    setError("");
+    try {
+      const installed = await request<CurseForgeInstalledMod[]>(
+        "curseforge.checkUpdates",
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setCurseForgeInstalled(installed);
+      const pending = installed.filter((item) => item.updateAvailable).length;
+      setStatus(
+        pending > 0
+          ? `${pending} CurseForge update${pending === 1 ? "" : "s"} available.`
+          : "All CurseForge mods are up to date.",
+      );
+    } catch (checkError) {
+      setError((checkError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function updateCurseForgeMod(modId: number) {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{
+        updated: boolean;
+        installedMod: CurseForgeInstalledMod | null;
+        installed: CurseForgeInstalledMod[];
+        mods: ModEntry[];
+      }>("curseforge.update", { modId }, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setCurseForgeInstalled(data.installed);
+      setStatus(
+        data.updated
+          ? `Updated ${data.installedMod?.modName ?? `mod ${modId}`}.`
+          : `${data.installedMod?.modName ?? `Mod ${modId}`} is already up to date.`,
+      );
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function updateAllCurseForgeMods() {
+    setBusy(true);
+    setError("");
+    setStatus("Updating CurseForge mods...");
+    try {
+      const data = await request<{
+        updated: number;
+        skipped: number;
+        installed: CurseForgeInstalledMod[];
+        mods: ModEntry[];
+      }>("curseforge.updateAll", undefined, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setCurseForgeInstalled(data.installed);
+      setStatus(
+        `CurseForge update complete. Updated: ${data.updated}, skipped: ${data.skipped}.`,
+      );
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function startNexusSso() {
+    setBusy(true);
+    setError("");
+    try {
+      const session = await request<NexusSsoSession>("nexus.sso.start");
+      setNexusStatus((prev) => (prev ? { ...prev, ssoPending: true } : prev));
+      const opened = window.open(session.url, "_blank", "noopener,noreferrer");
+      setStatus(
+        opened
+          ? "Opened Nexus Mods in a new tab. Authorize the application to finish connecting."
+          : `Open ${session.url} to authorize the application.`,
+      );
+    } catch (ssoError) {
+      setError((ssoError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function cancelNexusSso() {
+    setBusy(true);
+    setError("");
+    try {
+      await request<{ cancelled: boolean }>("nexus.sso.cancel");
+      setNexusStatus((prev) => (prev ? { ...prev, ssoPending: false } : prev));
+    } catch (ssoError) {
+      setError((ssoError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function connectNexusWithApiKey(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const apiKey = nexusApiKeyInput.trim();
+    if (!apiKey) {
+      setError("Nexus API key is required.");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{ userName: string; status: NexusStatus }>(
+        "nexus.connect",
+        { apiKey },
+      );
+      setNexusStatus(data.status);
+      setNexusApiKeyInput("");
+      setStatus(`Nexus connected as ${data.userName}.`);
+    } catch (connectError) {
+      setError((connectError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function searchNexus(page = 1) {
+    setBusy(true);
+    setError("");
+    try {
+      const result = await request<NexusSearchResult>("nexus.search", {
+        query: nexusQuery.trim(),
+        sort: nexusSort,
+        page,
+      });
+      setNexusResults(result);
+    } catch (searchError) {
+      setError((searchError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function installNexusMod(modId: number) {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{
+        installedMod: NexusInstalledMod | null;
+        mods: ModEntry[];
+        installed: NexusInstalledMod[];
+        alreadyInstalled: boolean;
+      }>("nexus.install", { modId }, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setNexusInstalled(data.installed);
+      setStatus(
+        data.alreadyInstalled
+          ? `${data.installedMod?.modName ?? `Mod ${modId}`} is already up to date.`
+          : `Installed ${data.installedMod?.modName ?? `mod ${modId}`} from Nexus.`,
+      );
+    } catch (installError) {
+      setError((installError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function checkNexusUpdates() {
+    setBusy(true);
+    setError("");
+    try {
+      const installed = await request<NexusInstalledMod[]>(
+        "nexus.checkUpdates",
+        undefined,
+        LONG_OPERATION_TIMEOUT_MS,
+      );
+      setNexusInstalled(installed);
+      const pending = installed.filter((item) => item.updateAvailable).length;
+      setStatus(
+        pending > 0
+          ? `${pending} Nexus update${pending === 1 ? "" : "s"} available.`
+          : "All Nexus mods are up to date.",
+      );
+    } catch (checkError) {
+      setError((checkError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function updateNexusMod(modId: number) {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{
+        updated: boolean;
+        installedMod: NexusInstalledMod | null;
+        installed: NexusInstalledMod[];
+        mods: ModEntry[];
+      }>("nexus.update", { modId }, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setNexusInstalled(data.installed);
+      setStatus(
+        data.updated
+          ? `Updated ${data.installedMod?.modName ?? `mod ${modId}`}.`
+          : `${data.installedMod?.modName ?? `Mod ${modId}`} is already up to date.`,
+      );
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function updateAllNexusMods() {
+    setBusy(true);
+    setError("");
+    setStatus("Updating Nexus mods...");
+    try {
+      const data = await request<{
+        updated: number;
+        skipped: number;
+        installed: NexusInstalledMod[];
+        mods: ModEntry[];
+      }>("nexus.updateAll", undefined, LONG_OPERATION_TIMEOUT_MS);
+      setMods(data.mods);
+      setNexusInstalled(data.installed);
+      setStatus(
+        `Nexus update complete. Updated: ${data.updated}, skipped: ${data.skipped}.`,
+      );
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createSchedule(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const name = scheduleNameInput.trim();
+    const cron = scheduleCronInput.trim();
+    if (!name || !cron) {
+      setError("Schedule name and cron expression are required.");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const job = await request<ScheduledJobEntry>("schedule.create", {
+        name,
+        cron,
+        action: scheduleActionInput,
+        payload:
+          scheduleActionInput === "command"
+            ? { command: scheduleCommandInput.trim() }
+            : {},
+      });
+      setScheduleNameInput("");
+      setScheduleCommandInput("");
+      setStatus(
+        `Scheduled "${job.name}". Next run: ${formatDate(job.nextRunAt)}.`,
+      );
+    } catch (scheduleError) {
+      setError((scheduleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleSchedule(job: ScheduledJobEntry) {
+    setBusy(true);
+    setError("");
+    try {
+      await request<ScheduledJobEntry>("schedule.update", {
+        id: job.id,
+        enabled: !job.enabled,
+      });
+      setStatus(`${job.enabled ? "Disabled" : "Enabled"} "${job.name}".`);
+    } catch (scheduleError) {
+      setError((scheduleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runScheduleNow(job: ScheduledJobEntry) {
+    setBusy(true);
+    setError("");
+    try {
+      await request<ScheduledJobEntry>("schedule.run", { id: job.id });
+      setStatus(`Started "${job.name}".`);
+    } catch (scheduleError) {
+      setError((scheduleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteSchedule(job: ScheduledJobEntry) {
+    if (!window.confirm(`Delete scheduled task "${job.name}"?`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      await request<SchedulerState>("schedule.delete", { id: job.id });
+      setStatus(`Deleted "${job.name}".`);
+    } catch (scheduleError) {
+      setError((scheduleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createBackup() {
+    setBusy(true);
+    setError("");
+
+    try {
+      const data = await request<{ backups: BackupEntry[] }>("backup.create", {
+        note: backupNote,
+      });
+      setBackups(data.backups);
+      setBackupNote("");
+      setStatus("Backup created.");
+    } catch (backupError) {
+      setError((backupError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteBackup(id: string) {
+    try {
+      const next = await request<BackupEntry[]>("backup.delete", { id });
+      setBackups(next);
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    }
+  }
+
+  async function setBackupPinned(backup: BackupEntry, pinned: boolean) {
+    try {
+      const next = await request<BackupEntry[]>("backup.pin", {
+        id: backup.id,
+        pinned,
+      });
+      setBackups(next);
+    } catch (pinError) {
+      setError((pinError as Error).message);
+    }
+  }
+
+  async function verifyBackup(backup: BackupEntry, mode: "verify" | "test-restore") {
+    setVerifyingBackupId(backup.id);
+    setError("");
+
+    try {
+      const data = await request<{
+        verification: BackupVerification;
+        backups: BackupEntry[];
+      }>("backup.verify", { id: backup.id, mode });
+      setBackups(data.backups);
+      if (data.verification.status === "passed") {
+        setStatus(`Backup ${backup.name} passed: ${data.verification.message}`);
+      }
+    } catch (verifyError) {
+      setError((verifyError as Error).message);
+    } finally {
+      setVerifyingBackupId(null);
+    }
+  }
+
+  async function pruneBackups() {
+    setBusy(true);
+    setError("");
+
+    try {
+      const data = await request<{
+        run: BackupRetentionRun | null;
+        backups: BackupEntry[];
+      }>("backups.prune");
+      setBackups(data.backups);
+      setStatus(
+        data.run
+          ? `Retention deleted ${data.run.deleted.length} backup(s).`
+          : "A retention run is already in progress.",
+      );
+    } catch (pruneError) {
+      setError((pruneError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Uploads resume from the server-side offset, so a dropped connection or a reload continues where it left off.
+  async function importBackupFile(file: File, sha256: string): Promise<BackupEntry> {
+    const storageKey = `${BACKUP_IMPORT_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+    let upload: BackupImport | null = null;
+    const storedId = window.localStorage.getItem(storageKey);
+    if (storedId) {
+      try {
+        upload = (
+          await fetchJson<{ upload: BackupImport }>(
+            `/api/backups/imports/${encodeURIComponent(storedId)}`,
+          )
+        ).upload;
+      } catch {
+        window.localStorage.removeItem(storageKey);
+      }
+    }
+
+    if (!upload) {
+      upload = (
+        await fetchJson<{ upload: BackupImport }>("/api/backups/imports", {
+          method: "POST",
+          body: JSON.stringify({
+            filename: file.name,
+            size: file.size,
+            sha256: sha256 || null,
+            note: backupNote.trim(),
+          }),
+        })
+      ).upload;
+      window.localStorage.setItem(storageKey, upload.id);
+    }
+
+    let received = upload.received;
+    setBackupImportProgress({ filename: file.name, received, size: file.size });
+    while (received < file.size) {
+      const response = await fetch(
+        `/api/backups/imports/${encodeURIComponent(upload.id)}?offset=${received}`,
+        {
+          method: "PUT",
+          headers: { "content-type": "application/octet-stream" },
+          body: file.slice(received, received + BACKUP_IMPORT_CHUNK_BYTES),
+        },
+      );
+      const body = (await response.json()) as {
+        upload?: BackupImport;
+        error?: string;
+      };
+      if (!response.ok || !body.upload) {
+        throw new Error(
+          `${body.error ?? `Upload failed (${response.status})`} Retry to resume.`,
+        );
+      }
+      received = body.upload.received;
+      setBackupImportProgress({ filename: file.name, received, size: file.size });
+    }
+
+    const result = await fetchJson<{ backup: BackupEntry }>(
+      `/api/backups/imports/${encodeURIComponent(upload.id)}/complete`,
+      { method: "POST" },
+    );
+    window.localStorage.removeItem(storageKey);
+    return result.backup;
+  }
+
+  async function handleBackupImport(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const input = form.elements.namedItem(
+      "backup-import-file",
+    ) as HTMLInputElement | null;
+    const shaInput = form.elements.namedItem(
+      "backup-import-sha256",
+    ) as HTMLInputElement | null;
+    const file = input?.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const backup = await importBackupFile(file, shaInput?.value.trim() ?? "");
+      setStatus(`Imported ${file.name} as backup ${backup.name}.`);
+      await refreshBackups();
+      form.reset();
+    } catch (importError) {
+      setError((importError as Error).message);
+    } finally {
+      setBackupImportProgress(null);
+      setBusy(false);
+    }
+  }
+
+  async function undoLastOperation() {
+    const latest = safetySnapshots[0];
+    if (!latest) {
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Undo "${latest.summary}"${latest.actor ? ` by ${latest.actor}` : ""} from ${formatDate(latest.createdAt)}? ${latest.items.map((item) => item.label).join(", ")} will be put back as they were${latest.serverVersion ? ` and the server files will be copied back from the kept version ${latest.serverVersion.version}` : ""}.`,
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const undone = await request<SafetySnapshot>("safety.undo");
+      setStatus(`Undid "${undone.summary}".`);
+      await Promise.all([refreshBackups(), refreshMods()]);
+    } catch (undoError) {
+      setError((undoError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const backupTree = useMemo(
+    () => (backupBrowser ? buildBackupTree(backupBrowser.files) : []),
+    [backupBrowser],
+  );
+
+  async function browseBackup(backup: BackupEntry) {
+    setBusy(true);
+    setError("");
+    try {
+      const contents = await request<BackupContents>("backup.contents", {
+        id: backup.id,
+      });
+      setBackupBrowser(contents);
+      setBackupBrowserExpanded([]);
+      setBackupBrowserSelected([]);
+    } catch (browseError) {
+      setError((browseError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleBackupBrowserPath(
+    list: string[],
+    setList: (next: string[]) => void,
+    nodePath: string,
+  ) {
+    setList(
+      list.includes(nodePath)
+        ? list.filter((entry) => entry !== nodePath)
+        : [...list, nodePath],
+    );
+  }
+
+  async function restoreBackupSelection() {
+    if (!backupBrowser || backupBrowserSelected.length === 0) {
+      return;
+    }
+
+    if (
+      backupRestoreTarget === "live" &&
+      !window.confirm(
+        `Replace ${backupBrowserSelected.join(", ")} on the live server with the copy from ${backupBrowser.name}?`,
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const result = await request<{ destination: string; paths: string[] }>(
+        "backup.restore",
+        {
+          id: backupBrowser.id,
+          paths: backupBrowserSelected,
+          target: backupRestoreTarget,
+        },
+      );
+      setStatus(
+        backupRestoreTarget === "side"
+          ? `Extracted ${result.paths.join(", ")} to ${result.destination}.`
+          : `Restored ${result.paths.join(", ")} from ${backupBrowser.name}.`,
+      );
+    } catch (restoreError) {
+      setError((restoreError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function renderBackupTreeNodes(nodes: BackupTreeNode[], depth: number) {
+    return nodes.map((node) => {
+      const expanded = backupBrowserExpanded.includes(node.path);
+      return (
+        <li key={node.path}>
+          <div
+            className="flex items-center gap-2 text-sm"
+            style={{ paddingLeft: `${depth * 1}rem` }}
+          >
+            <input
+              type="checkbox"
+              checked={backupBrowserSelected.includes(node.path)}
+              onChange={() =>
+                toggleBackupBrowserPath(
+                  backupBrowserSelected,
+                  setBackupBrowserSelected,
+                  node.path,
+                )
+              }
+            />
+            {node.children ? (
+              <button
+                type="button"
+                className="font-medium hover:underline"
+                onClick={() =>
+                  toggleBackupBrowserPath(
+                    backupBrowserExpanded,
+                    setBackupBrowserExpanded,
+                    node.path,
+                  )
+                }
+              >
+                {expanded ? "▾" : "▸"} {node.name}/
+              </button>
+            ) : (
+              <span>{node.name}</span>
+            )}
+            <span className="ml-auto text-xs text-muted-foreground">
+              {formatBytes(node.size)}
+            </span>
+          </div>
+          {node.children && expanded && (
+            <ul>{renderBackupTreeNodes(node.children, depth + 1)}</ul>
+          )}
+        </li>
+      );
+    });
+  }
+
+  function editBackupTarget(target: BackupTargetEntry | null) {
+    setTargetEditorId(target?.id ?? null);
+    setTargetKindInput(target?.kind ?? "s3");
+    setTargetNameInput(target?.name ?? "");
+    setTargetEndpointInput(target?.endpoint ?? "");
+    setTargetRegionInput(target?.region ?? "us-east-1");
+    setTargetBucketInput(target?.bucket ?? "");
+    setTargetPrefixInput(target?.prefix ?? "");
+    setTargetAccessKeyIdInput("");
+    setTargetSecretInput("");
+    setTargetPathInput(target?.path ?? "");
+    setTargetKeepLastInput(String(target?.keepLast ?? 0));
+    setTargetEnabledInput(target?.enabled ?? true);
+  }
+
+  async function saveBackupTarget(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const keepLast = Number(targetKeepLastInput.trim());
+    if (!Number.isInteger(keepLast) || keepLast < 0) {
+      setError("Copies to keep must be a non-negative integer (0 = keep all).");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<BackupTargetEntry[]>("backup.target.save", {
+        id: targetEditorId,
+        name: targetNameInput.trim(),
+        kind: targetKindInput,
+        enabled: targetEnabledInput,
+        keepLast,
+        ...(targetKindInput === "s3"
+          ? {
+              endpoint: targetEndpointInput.trim(),
+              region: targetRegionInput.trim(),
+              bucket: targetBucketInput.trim(),
+              prefix: targetPrefixInput.trim(),
+              accessKeyId: targetAccessKeyIdInput.trim(),
+              secretAccessKey: targetSecretInput.trim(),
+            }
+          : { path: targetPathInput.trim() }),
+      });
+      setBackupTargets(next);
+      editBackupTarget(null);
+      setStatus(`Backup target ${targetNameInput.trim()} saved.`);
+    } catch (targetError) {
+      setError((targetError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteBackupTarget(target: BackupTargetEntry) {
+    if (
+      !window.confirm(
+        `Remove backup target "${target.name}"? Copies already uploaded are left in place.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const next = await request<BackupTargetEntry[]>("backup.target.delete", {
+        id: target.id,
+      });
+      setBackupTargets(next);
+      if (remoteBackups?.target.id === target.id) {
+        setRemoteBackups(null);
+      }
+    } catch (targetError) {
+      setError((targetError as Error).message);
+    }
+  }
+
+  async function testBackupTarget(target: BackupTargetEntry) {
+    setBusy(true);
+    setError("");
+    try {
+      await request("backup.target.test", { id: target.id });
+      setStatus(`Backup target ${target.name} is reachable and writable.`);
+    } catch (targetError) {
+      setError((targetError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function syncBackupTargets() {
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{
+        backups: BackupEntry[];
+        targets: BackupTargetEntry[];
+      }>("backup.targets.sync");
+      setBackups(data.backups);
+      setBackupTargets(data.targets);
+      setStatus("Offsite sync finished.");
+    } catch (syncError) {
+      setError((syncError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function browseRemoteBackups(target: BackupTargetEntry) {
+    setBusy(true);
+    setError("");
+    try {
+      const entries = await request<RemoteBackupEntry[]>("backup.remote.list", {
+        targetId: target.id,
+      });
+      setRemoteBackups({ target, entries });
+    } catch (remoteError) {
+      setError((remoteError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function restoreRemoteBackup(
+    target: BackupTargetEntry,
+    entry: RemoteBackupEntry,
+  ) {
+    if (
+      !window.confirm(
+        `Download ${entry.name} from "${target.name}" and restore it over the live server files?`,
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<BackupEntry[]>("backup.remote.restore", {
+        targetId: target.id,
+        id: entry.id,
+      });
+      setBackups(next);
+      setStatus(`Backup ${entry.name} restored from ${target.name}.`);
+    } catch (restoreError) {
+      setError((restoreError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function restoreBackup(id: string) {
+    setBusy(true);
+    setError("");
+
+    try {
+      await request("backup.restore", { id });
+      setStatus(`Backup ${id} restored.`);
+    } catch (restoreError) {
+      setError((restoreError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function editRole(role: Role | null) {
+    setRoleEditorId(role?.id ?? null);
+    setRoleNameInput(role?.name ?? "");
+    setRoleDescriptionInput(role?.description ?? "");
+    setRolePermissionsInput(role?.permissions ?? []);
+  }
+
+  async function saveRole(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!roleNameInput.trim()) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const payload = {
+        name: roleNameInput.trim(),
+        description: roleDescriptionInput.trim(),
+        permissions: rolePermissionsInput,
+      };
+      const data = await request<{ role: Role; roles: Role[] }>(
+        roleEditorId === null ? "role.create" : "role.update",
+        roleEditorId === null ? payload : { ...payload, id: roleEditorId },
+      );
+      setRoles(data.roles);
+      editRole(null);
+      setStatus(`Role ${data.role.name} saved.`);
+    } catch (roleError) {
+      setError((roleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteRole(role: Role) {
+    if (
+      !window.confirm(
+        `Delete role "${role.name}"? Users with this role fall back to Member.`,
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      const data = await request<{ roles: Role[]; users: User[] }>(
+        "role.delete",
+        { id: role.id },
+      );
+      setRoles(data.roles);
+      setUsers(data.users);
+      if (roleEditorId === role.id) {
+        editRole(null);
+      }
+      setStatus(`Role ${role.name} deleted.`);
+    } catch (roleError) {
+      setError((roleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function assignUserRole(target: User, value: string) {
+    setBusy(true);
+    setError("");
+    try {
+      const next = await request<User[]>("user.setRole", {
+        userId: target.id,
+        role: value === "owner" ? "owner" : "member",
+        roleId: value && value !== "owner" ? Number(value) : null,
+      });
+      setUsers(next);
+      setStatus(`Updated role for ${target.email}.`);
+    } catch (roleError) {
+      setError((roleError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function auditFilterParams(): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (auditUserFilter.trim()) {
+      params.user = auditUserFilter.trim();
+    }
+    if (auditActionFilter.trim()) {
+      params.action = auditActionFilter.trim();
+    }
+    if (auditResultFilter) {
+      params.result = auditResultFilter;
+    }
+    if (auditFromFilter) {
+      params.from = new Date(auditFromFilter).toISOString();
+    }
+    if (auditToFilter) {
+      params.to = new Date(auditToFilter).toISOString();
+    }
+    return params;
+  }
+
+  async function loadAuditEvents(append: boolean) {
+    setBusy(true);
+    setError("");
+    try {
+      const beforeId = append ? auditEvents.at(-1)?.id : undefined;
+      const next = await request<AuditEvent[]>("audit.list", {
+        ...auditFilterParams(),
+        ...(beforeId ? { beforeId } : {}),
+        limit: AUDIT_PAGE_SIZE,
+      });
+      setAuditEvents((prev) => (append ? [...prev, ...next] : next));
+      setAuditHasMore(next.length >= AUDIT_PAGE_SIZE);
+    } catch (auditError) {
+      setError((auditError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function auditExportUrl(format: "csv" | "json"): string {
+    return `/api/audit/export?${new URLSearchParams({ ...auditFilterParams(), format })}`;
+  }
+
+  async function createInvite() {
+    if (!inviteEmail.trim()) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+
+    try {
+      const data = await request<{
+        invite: { inviteUrl: string; emailDispatched: boolean };
+        invites: InviteSummary[];
+      }>("invite.create", {
+        email: inviteEmail.trim(),
+        role: inviteRoleInput === "owner" ? "owner" : "member",
+        roleId:
+          inviteRoleInput && inviteRoleInput !== "owner"
+            ? Number(inviteRoleInput)
+            : null,
+      });
+
+      setInvites(data.invites);
+      setLastInviteUrl(data.invite.inviteUrl);
+      setInviteEmail("");
+      setStatus(
+        data.invite.emailDispatched
+          ? "Invite email sent."
+          : "Invite created (SMTP not configured). Copy the link.",
+      );
+    } catch (inviteError) {
+      setError((inviteError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function installJavaRuntime() {
+    setBusy(true);
+    setError("");
+    setStatus("Installing Adoptium JDK 25...");
+
+    try {
+      const result = await request<{
+        javaCommand: string;
+        releaseName: string;
+      }>("java.install", undefined, LONG_OPERATION_TIMEOUT_MS);
+      const snapshot = await request<ServerState>("server.status");
+      setServerState(snapshot);
+      setStatus(
+        `Java installed (${result.releaseName}) at ${result.javaCommand}`,
+      );
+    } catch (installError) {
+      setError((installError as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revokeInvite(id: number) {
+    try {
+      const next = await request<InviteSummary[]>("invite.revoke", { id });
+      setInvites(next);
+    } catch (revokeError) {
+      setError((revokeError as Error).message);
+    }
+  }
+
+  if (!initialized) {
+    return (
+      <main className="flex min-h-screen items-center justify-center p-6">
+        <Card className="w-full max-w-lg">
+          <CardHeader>
+            <CardTitle>Hytale Manager</CardTitle>
+            <CardDescription>Loading dashboard...</CardDescription>
+          </CardHeader>
+        </Card>
+      </main>
+    );
+  }
+
+  if (!user) {
+    return (
+      <main className="min-h-screen bg-[radial-gradient(circle_at_top,var(--color-accent)_0%,transparent_55%)] p-4 sm:p-8">
+        <div className="mx-auto flex min-h-[80vh] w-full max-w-md items-center">
+          <Card className="w-full backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-2xl">Hytale Manager</CardTitle>
+              <CardDescription>
+                Single server control dashboard with live WebSocket operations.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {inviteToken ? (
+                <form onSubmit={handleInviteRegistration} className="space-y-4">
+                  <div>
+                    <h2 className="text-lg font-semibold">Accept invite</h2>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-password">Password</Label>
+                    <Input
+                      id="invite-password"
+                      type="password"
+                      value={invitePassword}
+                      onChange={(event) =>
+                        setInvitePassword(event.target.value)
+                      }
+                      placeholder="Minimum 8 characters"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={busy}>
                     {busy ? "Creating account..." : "Create account"}
                   </Button>
                 </form>
@@ -1292,660 +3614,2943 @@ export function App() {
                       Create owner account
                     </h2>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="setup-email">Email</Label>
-                    <Input
-                      id="setup-email"
-                      type="email"
-                      value={setupEmail}
-                      onChange={(event) => setSetupEmail(event.target.value)}
-                      placeholder="owner@example.com"
-                    />
+                  <div className="space-y-2">
+                    <Label htmlFor="setup-email">Email</Label>
+                    <Input
+                      id="setup-email"
+                      type="email"
+                      value={setupEmail}
+                      onChange={(event) => setSetupEmail(event.target.value)}
+                      placeholder="owner@example.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="setup-password">Password</Label>
+                    <Input
+                      id="setup-password"
+                      type="password"
+                      value={setupPassword}
+                      onChange={(event) => setSetupPassword(event.target.value)}
+                      placeholder="Minimum 8 characters"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={busy}>
+                    {busy ? "Creating..." : "Create owner"}
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div>
+                    <h2 className="text-lg font-semibold">Sign in</h2>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-email">Email</Label>
+                    <Input
+                      id="login-email"
+                      type="email"
+                      value={loginEmail}
+                      onChange={(event) => setLoginEmail(event.target.value)}
+                      placeholder="user@example.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      value={loginPassword}
+                      onChange={(event) => setLoginPassword(event.target.value)}
+                      placeholder="Password"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={busy}>
+                    {busy ? "Signing in..." : "Sign in"}
+                  </Button>
+                </form>
+              )}
+
+              {error && (
+                <p className="rounded-none border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-[radial-gradient(circle_at_top_left,var(--color-accent)_0%,transparent_42%),radial-gradient(circle_at_bottom_right,var(--color-secondary)_0%,transparent_48%)] p-3 sm:p-6">
+      <div className="mx-auto flex w-full max-w-375 flex-col gap-4">
+        <Card>
+          <CardContent className="flex flex-col gap-4 pt-6 xl:flex-row xl:items-center xl:justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">
+                Hytale Manager
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Logged in as <strong>{user.email}</strong> (
+                {formatUserRole(user, roles)})
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={connected ? "secondary" : "destructive"}>
+                {connected ? "Realtime connected" : "Realtime offline"}
+              </Badge>
+              <Badge variant="outline">
+                Status: {serverState?.status ?? "unknown"}
+              </Badge>
+              {shutdownCountdown && (
+                <>
+                  <Badge variant="destructive">
+                    {shutdownCountdown.reason === "restart"
+                      ? "Restarting"
+                      : shutdownCountdown.reason === "update"
+                        ? "Updating"
+                        : "Stopping"}{" "}
+                    in {Math.floor(shutdownCountdownRemainingSeconds / 60)}:
+                    {String(shutdownCountdownRemainingSeconds % 60).padStart(
+                      2,
+                      "0",
+                    )}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => void cancelShutdownCountdown()}
+                    disabled={!can("server.lifecycle")}
+                  >
+                    Cancel countdown
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                onClick={() => void runServerAction("server.start")}
+                disabled={!canStart}
+              >
+                Start
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => void runServerAction("server.stop")}
+                disabled={!canStop}
+              >
+                Stop
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => void runServerAction("server.restart")}
+                disabled={!canRestart}
+              >
+                Restart
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => void handleLogout()}
+                disabled={busy}
+              >
+                Logout
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <section className="grid gap-4 xl:grid-cols-12 @container">
+          <Card className="xl:col-span-3 block h-full">
+            <CardContent className="space-y-3 h-full flex flex-col gap-2">
+              {!serverState?.installed || serverState?.updateAvailable ? (
+                <Button
+                  onClick={() => void handleInstall()}
+                  disabled={downloadsLocked}
+                  className="w-full"
+                >
+                  {downloadsLocked
+                    ? "Working..."
+                    : serverState?.installed
+                      ? `Update server${serverState.latestVersion ? ` to ${serverState.latestVersion}` : ""}`
+                      : `Install latest${serverState?.latestVersion ? ` (${serverState.latestVersion})` : ""}`}
+                </Button>
+              ) : serverState?.pinnedVersion ? (
+                <p className="text-sm text-muted-foreground">
+                  Pinned to {serverState.pinnedVersion}; updates are skipped.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Server is up to date.
+                </p>
+              )}
+              {can("server.install") && serverState?.installed && (
+                <Button
+                  onClick={() => void checkForUpdates()}
+                  disabled={downloadsLocked}
+                  variant="outline"
+                  className="w-full"
+                >
+                  Check for updates
+                </Button>
+              )}
+              {can("server.install") && serverState?.installed && (
+                <Button
+                  onClick={() => void verifyInstallation()}
+                  disabled={downloadsLocked}
+                  variant="outline"
+                  className="w-full"
+                >
+                  Verify installation
+                </Button>
+              )}
+              {installVerification && (
+                <div className="space-y-1 rounded-none border p-2 text-xs">
+                  <p>
+                    {installVerification.version} checked{" "}
+                    {formatDate(installVerification.checkedAt)}:{" "}
+                    {installVerification.ok
+                      ? `all ${installVerification.checked} files match`
+                      : `${installVerification.modified.length} modified, ${installVerification.missing.length} missing`}
+                    {installVerification.extra.length > 0
+                      ? `, ${installVerification.extra.length} extra`
+                      : ""}
+                  </p>
+                  {[
+                    ...installVerification.modified.map((file) => `modified: ${file}`),
+                    ...installVerification.missing.map((file) => `missing: ${file}`),
+                    ...installVerification.extra.map((file) => `extra: ${file}`),
+                  ]
+                    .slice(0, 20)
+                    .map((line) => (
+                      <p key={line} className="truncate text-muted-foreground">
+                        {line}
+                      </p>
+                    ))}
+                  {!installVerification.ok && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => void repairInstallation()}
+                      disabled={
+                        downloadsLocked || serverState?.status !== "stopped"
+                      }
+                    >
+                      Repair
+                    </Button>
+                  )}
+                </div>
+              )}
+              {!serverState?.javaInstalled && (
+                <Button
+                  onClick={() => void installJavaRuntime()}
+                  disabled={downloadsLocked}
+                  variant="secondary"
+                  className="w-full"
+                >
+                  {downloadsLocked ? "Working..." : "Install Adoptium JDK 25"}
+                </Button>
+              )}
+              <Separator />
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>
+                  Patchline: {serverState?.patchline ?? "-"}
+                  {serverState?.installedPatchline &&
+                    serverState.installedPatchline !== serverState.patchline &&
+                    ` (installed: ${serverState.installedPatchline})`}
+                </p>
+                {(serverState?.patchlines ?? []).map((entry) => (
+                  <p key={entry.patchline}>
+                    Latest {entry.patchline}: {entry.latestVersion ?? "-"}
+                  </p>
+                ))}
+                {!serverState?.javaInstalled && (
+                  <p>Java runtime: Not installed</p>
+                )}
+                <p>
+                  Java heap: {serverState?.javaMinHeapMb ?? "-"} MB /{" "}
+                  {serverState?.javaMaxHeapMb ?? "-"} MB
+                </p>
+                <p>Installed version: {serverState?.installedVersion ?? "-"}</p>
+                <p>Latest version: {serverState?.latestVersion ?? "-"}</p>
+                <p>Pinned version: {serverState?.pinnedVersion ?? "-"}</p>
+                {serverState?.lastUpdateCheck && (
+                  <p>
+                    Last update check:{" "}
+                    {formatDate(serverState.lastUpdateCheck.checkedAt)} (
+                    {[
+                      serverState.lastUpdateCheck.server
+                        ? `server ${serverState.lastUpdateCheck.server.latestVersion}`
+                        : null,
+                      serverState.lastUpdateCheck.mods.length > 0
+                        ? `${serverState.lastUpdateCheck.mods.length} mod update(s)`
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(", ") || "nothing new"}
+                    )
+                  </p>
+                )}
+                {serverState?.lastUpdateCheck?.errors.map((message) => (
+                  <p key={message} className="text-xs">
+                    {message}
+                  </p>
+                ))}
+                {serverState?.lastAutoUpdate && (
+                  <p>
+                    Automatic update{" "}
+                    {formatDate(serverState.lastAutoUpdate.startedAt)}:{" "}
+                    {serverState.lastAutoUpdate.ok === null
+                      ? "running"
+                      : serverState.lastAutoUpdate.ok
+                        ? "done"
+                        : "failed"}{" "}
+                    - {serverState.lastAutoUpdate.message}
+                  </p>
+                )}
+                {!serverState?.lifecycleReady && (
+                  <p>
+                    Start/stop/restart require both server files and Adoptium
+                    JDK 25 installed.
+                  </p>
+                )}
+                <p className="truncate">
+                  Server directory: {serverState?.serverDir ?? "-"}
+                </p>
+                <p>Last start: {formatDate(serverState?.startedAt ?? null)}</p>
+                {serverState?.pendingAutoRestart && (
+                  <p>
+                    Automatic restart {serverState.pendingAutoRestart.attempt}/
+                    {serverState.autoRestartMaxAttempts} at{" "}
+                    {formatDate(serverState.pendingAutoRestart.restartAt)} (Stop
+                    cancels it)
+                  </p>
+                )}
+              </div>
+              {can("server.install") && serverState && (
+                <>
+                  <Separator />
+                  <form onSubmit={switchPatchline} className="space-y-2">
+                    <Label htmlFor="server-patchline">Patchline</Label>
+                    <div className="flex gap-2">
+                      <NativeSelect
+                        id="server-patchline"
+                        value={patchlineInput}
+                        onChange={(event) =>
+                          setPatchlineInput(event.target.value)
+                        }
+                        disabled={downloadsLocked}
+                      >
+                        {serverState.patchlines.map((entry) => (
+                          <NativeSelectOption
+                            key={entry.patchline}
+                            value={entry.patchline}
+                          >
+                            {entry.patchline}
+                            {entry.latestVersion
+                              ? ` (${entry.latestVersion})`
+                              : ""}
+                          </NativeSelectOption>
+                        ))}
+                        <NativeSelectOption value="__custom">
+                          Other...
+                        </NativeSelectOption>
+                      </NativeSelect>
+                      <Button
+                        type="submit"
+                        size="sm"
+                        variant="outline"
+                        disabled={
+                          downloadsLocked ||
+                          (patchlineInput === "__custom"
+                            ? !customPatchlineInput.trim()
+                            : patchlineInput === serverState.patchline)
+                        }
+                      >
+                        Switch
+                      </Button>
+                    </div>
+                    {patchlineInput === "__custom" && (
+                      <Input
+                        value={customPatchlineInput}
+                        onChange={(event) =>
+                          setCustomPatchlineInput(event.target.value)
+                        }
+                        placeholder="patchline name"
+                        disabled={downloadsLocked}
+                      />
+                    )}
+                  </form>
+                </>
+              )}
+              {serverState?.installed && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <Label htmlFor="staging-patchline">Staging server</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {serverState.staging.status === "creating"
+                        ? "Creating..."
+                        : serverState.staging.install
+                          ? `${serverState.staging.install.patchline} ${serverState.staging.install.version} on port ${serverState.staging.install.port}, ${serverState.staging.status}; world copied ${formatDate(serverState.staging.install.createdAt)}${serverState.staging.install.worldSource === "live" ? " from the running server without a save flush" : ""}.`
+                          : "Try another patchline on a copy of the world, on its own port, before switching the live server."}
+                    </p>
+                    {can("server.install") && (
+                      <div className="flex gap-2">
+                        <NativeSelect
+                          id="staging-patchline"
+                          value={stagingPatchlineInput}
+                          onChange={(event) =>
+                            setStagingPatchlineInput(event.target.value)
+                          }
+                          disabled={
+                            downloadsLocked ||
+                            serverState.staging.status !== "stopped"
+                          }
+                        >
+                          {serverState.patchlines.map((entry) => (
+                            <NativeSelectOption
+                              key={entry.patchline}
+                              value={entry.patchline}
+                            >
+                              {entry.patchline}
+                              {entry.latestVersion
+                                ? ` (${entry.latestVersion})`
+                                : ""}
+                            </NativeSelectOption>
+                          ))}
+                        </NativeSelect>
+                        <Input
+                          value={stagingPortInput}
+                          onChange={(event) =>
+                            setStagingPortInput(event.target.value)
+                          }
+                          placeholder={`port (${serverState.bindPort < 65535 ? serverState.bindPort + 1 : serverState.bindPort - 1})`}
+                          className="w-28"
+                          disabled={
+                            downloadsLocked ||
+                            serverState.staging.status !== "stopped"
+                          }
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void createStaging()}
+                          disabled={
+                            downloadsLocked ||
+                            serverState.staging.status !== "stopped"
+                          }
+                        >
+                          {serverState.staging.install ? "Recreate" : "Create"}
+                        </Button>
+                      </div>
+                    )}
+                    {serverState.staging.install && (
+                      <div className="flex flex-wrap gap-2">
+                        {can("server.lifecycle") &&
+                          (serverState.staging.status === "stopped" ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() =>
+                                void runStagingAction("staging.start")
+                              }
+                              disabled={busy || !serverState.javaInstalled}
+                            >
+                              Start staging
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() =>
+                                void runStagingAction("staging.stop")
+                              }
+                              disabled={
+                                busy || serverState.staging.status !== "running"
+                              }
+                            >
+                              Stop staging
+                            </Button>
+                          ))}
+                        {can("server.install") && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() =>
+                              void runStagingAction("staging.delete")
+                            }
+                            disabled={
+                              busy || serverState.staging.status !== "stopped"
+                            }
+                          >
+                            Delete staging
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+              {serverState?.installed && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="text-sm font-semibold">Versions</h3>
+                      {serverState.installedVersion && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            void setServerVersionPin(
+                              serverState.pinnedVersion
+                                ? null
+                                : serverState.installedVersion,
+                            )
+                          }
+                          disabled={busy || !can("server.install")}
+                        >
+                          {serverState.pinnedVersion ? "Unpin" : "Pin installed"}
+                        </Button>
+                      )}
+                    </div>
+                    {serverVersions.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Versions are kept here after the next install or
+                        update.
+                      </p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {serverVersions.map((version) => (
+                          <li
+                            key={version.id}
+                            className="flex items-center justify-between gap-2"
+                          >
+                            <span
+                              className="flex min-w-0 items-center gap-1"
+                              title={`${version.patchline}, installed ${formatDate(version.installedAt)}`}
+                            >
+                              <span className="truncate">{version.version}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {formatBytes(version.size)}
+                              </span>
+                              {version.active && (
+                                <Badge variant="secondary">Installed</Badge>
+                              )}
+                              {version.pinned && (
+                                <Badge variant="outline">Pinned</Badge>
+                              )}
+                            </span>
+                            {!version.active && (
+                              <span className="flex gap-1">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    void rollbackServerVersion(version)
+                                  }
+                                  disabled={
+                                    downloadsLocked ||
+                                    serverState.status !== "stopped"
+                                  }
+                                >
+                                  {version.installedAt <
+                                  (serverVersions.find((entry) => entry.active)
+                                    ?.installedAt ?? "")
+                                    ? "Roll back"
+                                    : "Switch"}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() =>
+                                    void deleteServerVersion(version)
+                                  }
+                                  disabled={busy || !can("server.install")}
+                                >
+                                  Delete
+                                </Button>
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </>
+              )}
+              {can("server.install") && (
+                <>
+                  <Separator />
+                  <form
+                    onSubmit={handleServerArchiveInstall}
+                    className="space-y-2"
+                  >
+                    <h3 className="text-sm font-semibold">
+                      Install from archive
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                      For hosts that cannot reach the Hytale download servers.
+                      The server must be stopped.
+                    </p>
+                    <Input
+                      name="server-archive-file"
+                      type="file"
+                      accept=".zip,application/zip"
+                      disabled={downloadsLocked}
+                    />
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      <Input
+                        name="server-archive-version"
+                        type="text"
+                        placeholder="Version label"
+                        disabled={downloadsLocked}
+                      />
+                      <Input
+                        name="server-archive-patchline"
+                        type="text"
+                        placeholder={`Patchline (${serverState?.patchline ?? "release"})`}
+                        disabled={downloadsLocked}
+                      />
+                    </div>
+                    <Input
+                      name="server-archive-sha256"
+                      type="text"
+                      placeholder="SHA-256 (optional)"
+                      disabled={downloadsLocked}
+                    />
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="submit"
+                        size="sm"
+                        variant="secondary"
+                        disabled={
+                          downloadsLocked || serverState?.status !== "stopped"
+                        }
+                      >
+                        Upload and install
+                      </Button>
+                      {serverArchiveProgress && (
+                        <span className="text-xs text-muted-foreground">
+                          {serverArchiveProgress.filename}:{" "}
+                          {formatBytes(serverArchiveProgress.received)} /{" "}
+                          {formatBytes(serverArchiveProgress.size)}
+                        </span>
+                      )}
+                    </div>
+                  </form>
+                </>
+              )}
+              {can("server.install") && downloadCache && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="text-sm font-semibold">
+                        Download cache
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          {formatBytes(downloadCache.totalBytes)}
+                        </span>
+                      </h3>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void pruneDownloadCache()}
+                        disabled={busy}
+                      >
+                        Prune now
+                      </Button>
+                    </div>
+                    {downloadCache.entries.length === 0 &&
+                    downloadCache.partials.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Server, Java and mod downloads are cached here.
+                      </p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {downloadCache.entries.map((entry) => (
+                          <li
+                            key={entry.id}
+                            className="flex items-center justify-between gap-2"
+                          >
+                            <span
+                              className="flex min-w-0 items-center gap-1"
+                              title={`Cached ${formatDate(entry.createdAt)}, last used ${formatDate(entry.lastUsedAt)}`}
+                            >
+                              <span className="truncate">
+                                {entry.label
+                                  ? `${entry.label.name} ${entry.label.version}`
+                                  : "Unlabelled download"}
+                              </span>
+                              <span className="text-xs text-muted-foreground">
+                                {formatBytes(entry.size)}, used{" "}
+                                {formatDate(entry.lastUsedAt)}
+                              </span>
+                              {entry.inUse && (
+                                <Badge variant="secondary">Installed</Badge>
+                              )}
+                            </span>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() =>
+                                void deleteDownloadCacheEntry(entry)
+                              }
+                              disabled={busy}
+                            >
+                              Delete
+                            </Button>
+                          </li>
+                        ))}
+                        {downloadCache.partials.map((partial) => (
+                          <li
+                            key={partial.id}
+                            className="flex items-center justify-between gap-2 text-muted-foreground"
+                            title={`Last written ${formatDate(partial.updatedAt)}`}
+                          >
+                            <span className="truncate">
+                              {partial.label
+                                ? `${partial.label.name} ${partial.label.version}`
+                                : "Unfinished download"}
+                            </span>
+                            <span className="text-xs">
+                              {formatBytes(partial.received)} /{" "}
+                              {formatBytes(partial.totalBytes)}, resumes on the
+                              next download
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </>
+              )}
+              {can("server.settings") && (
+                <>
+                  <Separator />
+                  <form
+                    onSubmit={saveRuntimeSettings}
+                    className="space-y-3 mt-auto"
+                  >
+                    <h3 className="text-sm font-semibold">Runtime settings</h3>
+                    <div className="space-y-2">
+                      <Label htmlFor="server-bind-port">Game port</Label>
+                      <Input
+                        id="server-bind-port"
+                        type="number"
+                        min={1}
+                        max={65535}
+                        step={1}
+                        value={bindPortInput}
+                        onChange={(event) =>
+                          setBindPortInput(event.target.value)
+                        }
+                        placeholder="25565"
+                        disabled={busy}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Enable automatic backups</span>
+                      <input
+                        type="checkbox"
+                        checked={autoBackupEnabledInput}
+                        onChange={(event) =>
+                          setAutoBackupEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="space-y-2">
+                      <Label htmlFor="backup-frequency-minutes">
+                        Backup frequency (minutes)
+                      </Label>
+                      <Input
+                        id="backup-frequency-minutes"
+                        type="number"
+                        min={1}
+                        max={1440}
+                        step={1}
+                        value={backupFrequencyMinutesInput}
+                        onChange={(event) =>
+                          setBackupFrequencyMinutesInput(event.target.value)
+                        }
+                        disabled={busy || !autoBackupEnabledInput}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="backup-max-count">
+                        Active backup ZIP files to keep
+                      </Label>
+                      <Input
+                        id="backup-max-count"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={backupMaxCountInput}
+                        onChange={(event) =>
+                          setBackupMaxCountInput(event.target.value)
+                        }
+                        disabled={busy || !autoBackupEnabledInput}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Prune manual backups by retention policy</span>
+                      <input
+                        type="checkbox"
+                        checked={backupRetentionEnabledInput}
+                        onChange={(event) =>
+                          setBackupRetentionEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                      {(
+                        [
+                          [
+                            "backup-retention-keep-last",
+                            "Keep last",
+                            backupRetentionKeepLastInput,
+                            setBackupRetentionKeepLastInput,
+                          ],
+                          [
+                            "backup-retention-keep-hourly",
+                            "Hourly",
+                            backupRetentionKeepHourlyInput,
+                            setBackupRetentionKeepHourlyInput,
+                          ],
+                          [
+                            "backup-retention-keep-daily",
+                            "Daily",
+                            backupRetentionKeepDailyInput,
+                            setBackupRetentionKeepDailyInput,
+                          ],
+                          [
+                            "backup-retention-keep-weekly",
+                            "Weekly",
+                            backupRetentionKeepWeeklyInput,
+                            setBackupRetentionKeepWeeklyInput,
+                          ],
+                          [
+                            "backup-retention-keep-monthly",
+                            "Monthly",
+                            backupRetentionKeepMonthlyInput,
+                            setBackupRetentionKeepMonthlyInput,
+                          ],
+                          [
+                            "backup-retention-max-total",
+                            "Max total (MB, 0 = off)",
+                            backupRetentionMaxTotalMbInput,
+                            setBackupRetentionMaxTotalMbInput,
+                          ],
+                        ] as const
+                      ).map(([id, label, value, setValue]) => (
+                        <div key={id} className="space-y-1">
+                          <Label htmlFor={id} className="text-xs">
+                            {label}
+                          </Label>
+                          <Input
+                            id={id}
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={value}
+                            onChange={(event) => setValue(event.target.value)}
+                            disabled={busy || !backupRetentionEnabledInput}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Flush saves before backing up a running server</span>
+                      <input
+                        type="checkbox"
+                        checked={consistentBackupEnabledInput}
+                        onChange={(event) =>
+                          setConsistentBackupEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-flush-command" className="text-xs">
+                          Flush command
+                        </Label>
+                        <Input
+                          id="backup-flush-command"
+                          type="text"
+                          value={backupFlushCommandInput}
+                          onChange={(event) =>
+                            setBackupFlushCommandInput(event.target.value)
+                          }
+                          disabled={
+                            busy ||
+                            !consistentBackupEnabledInput ||
+                            !can("server.console")
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor="backup-flush-confirm-pattern"
+                          className="text-xs"
+                        >
+                          Confirmation line (regex)
+                        </Label>
+                        <Input
+                          id="backup-flush-confirm-pattern"
+                          type="text"
+                          value={backupFlushConfirmPatternInput}
+                          onChange={(event) =>
+                            setBackupFlushConfirmPatternInput(event.target.value)
+                          }
+                          disabled={busy || !consistentBackupEnabledInput}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-save-off-command" className="text-xs">
+                          Save-off command (optional)
+                        </Label>
+                        <Input
+                          id="backup-save-off-command"
+                          type="text"
+                          value={backupSaveOffCommandInput}
+                          onChange={(event) =>
+                            setBackupSaveOffCommandInput(event.target.value)
+                          }
+                          disabled={
+                            busy ||
+                            !consistentBackupEnabledInput ||
+                            !can("server.console")
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-save-on-command" className="text-xs">
+                          Save-on command (optional)
+                        </Label>
+                        <Input
+                          id="backup-save-on-command"
+                          type="text"
+                          value={backupSaveOnCommandInput}
+                          onChange={(event) =>
+                            setBackupSaveOnCommandInput(event.target.value)
+                          }
+                          disabled={
+                            busy ||
+                            !consistentBackupEnabledInput ||
+                            !can("server.console")
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="backup-flush-timeout" className="text-xs">
+                          Confirmation timeout (seconds)
+                        </Label>
+                        <Input
+                          id="backup-flush-timeout"
+                          type="number"
+                          min={5}
+                          max={600}
+                          step={1}
+                          value={backupFlushTimeoutInput}
+                          onChange={(event) =>
+                            setBackupFlushTimeoutInput(event.target.value)
+                          }
+                          disabled={busy || !consistentBackupEnabledInput}
+                        />
+                      </div>
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>
+                        Snapshot affected files before restores, updates and
+                        mod replacements or deletes
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={safetySnapshotsEnabledInput}
+                        onChange={(event) =>
+                          setSafetySnapshotsEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="safety-snapshot-keep" className="text-xs">
+                          Snapshots to keep
+                        </Label>
+                        <Input
+                          id="safety-snapshot-keep"
+                          type="number"
+                          min={1}
+                          max={50}
+                          step={1}
+                          value={safetySnapshotKeepInput}
+                          onChange={(event) =>
+                            setSafetySnapshotKeepInput(event.target.value)
+                          }
+                          disabled={busy || !safetySnapshotsEnabledInput}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="safety-snapshot-max-age" className="text-xs">
+                          Keep for (hours)
+                        </Label>
+                        <Input
+                          id="safety-snapshot-max-age"
+                          type="number"
+                          min={1}
+                          max={720}
+                          step={1}
+                          value={safetySnapshotMaxAgeInput}
+                          onChange={(event) =>
+                            setSafetySnapshotMaxAgeInput(event.target.value)
+                          }
+                          disabled={busy || !safetySnapshotsEnabledInput}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="server-versions-keep" className="text-xs">
+                        Server versions to keep for rollback (0 = all; the installed and pinned
+                        versions are always kept)
+                      </Label>
+                      <Input
+                        id="server-versions-keep"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={serverVersionsKeepInput}
+                        onChange={(event) =>
+                          setServerVersionsKeepInput(event.target.value)
+                        }
+                        disabled={busy}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Check for server and mod updates in the background</span>
+                      <input
+                        type="checkbox"
+                        checked={updateCheckEnabledInput}
+                        onChange={(event) =>
+                          setUpdateCheckEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="space-y-1">
+                      <Label htmlFor="update-check-interval" className="text-xs">
+                        Check every (minutes)
+                      </Label>
+                      <Input
+                        id="update-check-interval"
+                        type="number"
+                        min={5}
+                        max={1440}
+                        step={1}
+                        value={updateCheckIntervalInput}
+                        onChange={(event) =>
+                          setUpdateCheckIntervalInput(event.target.value)
+                        }
+                        disabled={busy || !updateCheckEnabledInput}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>
+                        Apply updates automatically (backup, countdown, stop,
+                        update, start)
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={autoUpdateEnabledInput}
+                        onChange={(event) =>
+                          setAutoUpdateEnabledInput(event.target.checked)
+                        }
+                        disabled={busy || !updateCheckEnabledInput}
+                      />
+                    </label>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-xs">
+                        <span>Only when no players are online</span>
+                        <input
+                          type="checkbox"
+                          checked={autoUpdateOnlyWhenEmptyInput}
+                          onChange={(event) =>
+                            setAutoUpdateOnlyWhenEmptyInput(event.target.checked)
+                          }
+                          disabled={busy || !autoUpdateEnabledInput}
+                        />
+                      </label>
+                      <div className="space-y-1">
+                        <Label htmlFor="auto-update-window" className="text-xs">
+                          Maintenance window (optional)
+                        </Label>
+                        <Input
+                          id="auto-update-window"
+                          type="text"
+                          value={autoUpdateWindowInput}
+                          onChange={(event) =>
+                            setAutoUpdateWindowInput(event.target.value)
+                          }
+                          placeholder="03:00-05:00"
+                          disabled={busy || !autoUpdateEnabledInput}
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor="download-cache-keep-versions"
+                          className="text-xs"
+                        >
+                          Cached versions to keep (0 = all)
+                        </Label>
+                        <Input
+                          id="download-cache-keep-versions"
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={1}
+                          value={downloadCacheKeepVersionsInput}
+                          onChange={(event) =>
+                            setDownloadCacheKeepVersionsInput(event.target.value)
+                          }
+                          disabled={busy}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor="download-cache-max-size"
+                          className="text-xs"
+                        >
+                          Download cache limit (MB, 0 = unlimited)
+                        </Label>
+                        <Input
+                          id="download-cache-max-size"
+                          type="number"
+                          min={0}
+                          step={256}
+                          value={downloadCacheMaxSizeInput}
+                          onChange={(event) =>
+                            setDownloadCacheMaxSizeInput(event.target.value)
+                          }
+                          disabled={busy}
+                        />
+                      </div>
+                    </div>
+                    <Separator />
+                    <div className="space-y-2">
+                      <Label htmlFor="java-min-heap">Java min heap (MB)</Label>
+                      <Input
+                        id="java-min-heap"
+                        type="number"
+                        min={256}
+                        step={256}
+                        value={javaMinHeapInput}
+                        onChange={(event) =>
+                          setJavaMinHeapInput(event.target.value)
+                        }
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="java-max-heap">Java max heap (MB)</Label>
+                      <Input
+                        id="java-max-heap"
+                        type="number"
+                        min={256}
+                        step={256}
+                        value={javaMaxHeapInput}
+                        onChange={(event) =>
+                          setJavaMaxHeapInput(event.target.value)
+                        }
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="java-extra-args">
+                        Extra JVM args (optional)
+                      </Label>
+                      <Input
+                        id="java-extra-args"
+                        type="text"
+                        value={javaExtraArgsInput}
+                        onChange={(event) =>
+                          setJavaExtraArgsInput(event.target.value)
+                        }
+                        placeholder="-XX:+UseG1GC -XX:+HeapDumpOnOutOfMemoryError"
+                        disabled={busy}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Restart automatically after a crash</span>
+                      <input
+                        type="checkbox"
+                        checked={autoRestartEnabledInput}
+                        onChange={(event) =>
+                          setAutoRestartEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="space-y-2">
+                      <Label htmlFor="auto-restart-max-attempts">
+                        Crash-loop limit (consecutive restarts)
+                      </Label>
+                      <Input
+                        id="auto-restart-max-attempts"
+                        type="number"
+                        min={1}
+                        max={50}
+                        step={1}
+                        value={autoRestartMaxAttemptsInput}
+                        onChange={(event) =>
+                          setAutoRestartMaxAttemptsInput(event.target.value)
+                        }
+                        disabled={busy}
+                      />
+                    </div>
+                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                      <span>Warn players before stop/restart/update</span>
+                      <input
+                        type="checkbox"
+                        checked={shutdownWarningEnabledInput}
+                        onChange={(event) =>
+                          setShutdownWarningEnabledInput(event.target.checked)
+                        }
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="space-y-2">
+                      <Label htmlFor="shutdown-warning-intervals">
+                        Warning times
+                      </Label>
+                      <Input
+                        id="shutdown-warning-intervals"
+                        type="text"
+                        value={shutdownWarningIntervalsInput}
+                        onChange={(event) =>
+                          setShutdownWarningIntervalsInput(event.target.value)
+                        }
+                        placeholder="5m,1m,30s,10s"
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="shutdown-warning-command">
+                        Warning command
+                      </Label>
+                      <Input
+                        id="shutdown-warning-command"
+                        type="text"
+                        value={shutdownWarningCommandInput}
+                        onChange={(event) =>
+                          setShutdownWarningCommandInput(event.target.value)
+                        }
+                        placeholder="/say Server {action} in {time}."
+                        disabled={busy || !can("server.console")}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {"{action}"} becomes stopping/restarting/updating and{" "}
+                        {"{time}"} the remaining time. Force stop skips the
+                        countdown.
+                      </p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Default profile follows Hytale guidance for at least 4 GB
+                      server memory and JVM sizing best practices:
+                      <span className="block">
+                        Min heap 2048 MB, max heap 4096 MB.
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Native backups are stored in{" "}
+                      {serverState?.backupDir ?? "-"}
+                      {". "}Older backups are moved to the archive folder by
+                      Hytale when max count is reached.
+                    </p>
+                    <Button
+                      type="submit"
+                      size="sm"
+                      className="w-full"
+                      disabled={busy}
+                    >
+                      Save runtime settings
+                    </Button>
+                  </form>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-9">
+            <CardContent className="space-y-3">
+              <div className="group/terminal relative overflow-hidden">
+                <pre
+                  ref={terminalRef}
+                  onScroll={handleTerminalScroll}
+                  className="overflow-auto h-[calc(100vh-200px)] rounded-none border bg-zinc-950 p-3 pr-24 text-xs leading-relaxed text-zinc-100"
+                >
+                  {terminalLines.join("\n")}
+                </pre>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={terminalScrollLock ? "default" : "secondary"}
+                  className="pointer-events-none absolute right-2 bottom-2 opacity-0 transition-opacity group-hover/terminal:pointer-events-auto group-hover/terminal:opacity-100 group-focus-within/terminal:pointer-events-auto group-focus-within/terminal:opacity-100"
+                  onClick={() => setTerminalScrollLock((current) => !current)}
+                >
+                  {terminalScrollLock
+                    ? "Auto-scroll locked"
+                    : "Lock auto-scroll"}
+                </Button>
+              </div>
+              <form onSubmit={sendTerminalCommand} className="flex gap-2">
+                <Input
+                  type="text"
+                  value={commandInput}
+                  onChange={(event) => setCommandInput(event.target.value)}
+                  placeholder="Type Hytale command, e.g. /save"
+                  disabled={!can("server.console")}
+                />
+                <Button type="submit" disabled={busy || !can("server.console")}>
+                  Send
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-12">
+            <CardHeader>
+              <CardTitle>Runtime Metrics</CardTitle>
+              <CardDescription>
+                Live server metrics sampled every{" "}
+                {Math.max(
+                  1,
+                  Math.round(
+                    (serverState?.metricsSampleIntervalMs ?? 2000) / 1000,
+                  ),
+                )}
+                s while running.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {metricsSummary ? (
+                <div className="grid gap-3 md:grid-cols-5">
+                  <div className="rounded-none border p-3">
+                    <p className="text-xs text-muted-foreground">CPU now</p>
+                    <p className="text-lg font-semibold">
+                      {metricsSummary.latest.cpuPercent.toFixed(1)}%
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Peak {metricsSummary.cpuPeak.toFixed(1)}%
+                    </p>
+                  </div>
+                  <div className="rounded-none border p-3">
+                    <p className="text-xs text-muted-foreground">Memory RSS</p>
+                    <p className="text-lg font-semibold">
+                      {formatBytes(metricsSummary.latest.rssBytes)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Peak {formatBytes(metricsSummary.rssPeak)}
+                    </p>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="setup-password">Password</Label>
-                    <Input
-                      id="setup-password"
-                      type="password"
-                      value={setupPassword}
-                      onChange={(event) => setSetupPassword(event.target.value)}
-                      placeholder="Minimum 8 characters"
-                    />
+                  <div className="rounded-none border p-3">
+                    <p className="text-xs text-muted-foreground">
+                      Virtual memory
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {formatBytes(metricsSummary.latest.virtualMemoryBytes)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Java process space
+                    </p>
                   </div>
-                  <Button type="submit" className="w-full" disabled={busy}>
-                    {busy ? "Creating..." : "Create owner"}
-                  </Button>
-                </form>
-              ) : (
-                <form onSubmit={handleLogin} className="space-y-4">
-                  <div>
-                    <h2 className="text-lg font-semibold">Sign in</h2>
+                  <div className="rounded-none border p-3">
+                    <p className="text-xs text-muted-foreground">Network RX</p>
+                    <p className="text-lg font-semibold">
+                      {formatRate(metricsSummary.latest.networkRxBytesPerSec)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Peak {formatRate(metricsSummary.rxPeak)}
+                    </p>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="login-email">Email</Label>
-                    <Input
-                      id="login-email"
-                      type="email"
-                      value={loginEmail}
-                      onChange={(event) => setLoginEmail(event.target.value)}
-                      placeholder="user@example.com"
-                    />
+                  <div className="rounded-none border p-3">
+                    <p className="text-xs text-muted-foreground">Network TX</p>
+                    <p className="text-lg font-semibold">
+                      {formatRate(metricsSummary.latest.networkTxBytesPerSec)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Peak {formatRate(metricsSummary.txPeak)}
+                    </p>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="login-password">Password</Label>
-                    <Input
-                      id="login-password"
-                      type="password"
-                      value={loginPassword}
-                      onChange={(event) => setLoginPassword(event.target.value)}
-                      placeholder="Password"
-                    />
+                </div>
+              ) : (
+                <p className="rounded-none border p-3 text-sm text-muted-foreground">
+                  Start the server to collect runtime metrics.
+                </p>
+              )}
+
+              {metricsChartData.length > 0 && (
+                <div className="grid gap-4 xl:grid-cols-2">
+                  <div className="h-56 rounded-none border p-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={metricsChartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="time" minTickGap={28} />
+                        <YAxis
+                          yAxisId="cpu"
+                          width={45}
+                          tickFormatter={(value) =>
+                            `${Number(value).toFixed(0)}%`
+                          }
+                        />
+                        <YAxis
+                          yAxisId="mem"
+                          orientation="right"
+                          width={58}
+                          tickFormatter={(value) =>
+                            `${Number(value).toFixed(0)}M`
+                          }
+                        />
+                        <Tooltip
+                          formatter={(value: number, name: string) => {
+                            if (name === "cpuPercent") {
+                              return [`${Number(value).toFixed(1)}%`, "CPU"];
+                            }
+                            if (name === "rssMiB") {
+                              return [
+                                `${Number(value).toFixed(1)} MiB`,
+                                "RSS Memory",
+                              ];
+                            }
+                            return [value, name];
+                          }}
+                        />
+                        <Line
+                          yAxisId="cpu"
+                          type="monotone"
+                          dataKey="cpuPercent"
+                          stroke="#e11d48"
+                          strokeWidth={2}
+                          dot={false}
+                          name="cpuPercent"
+                        />
+                        <Line
+                          yAxisId="mem"
+                          type="monotone"
+                          dataKey="rssMiB"
+                          stroke="#0369a1"
+                          strokeWidth={2}
+                          dot={false}
+                          name="rssMiB"
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
                   </div>
-                  <Button type="submit" className="w-full" disabled={busy}>
-                    {busy ? "Signing in..." : "Sign in"}
-                  </Button>
-                </form>
-              )}
 
-              {error && (
-                <p className="rounded-none border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
-                  {error}
-                </p>
+                  <div className="h-56 rounded-none border p-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={metricsChartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="time" minTickGap={28} />
+                        <YAxis
+                          width={62}
+                          tickFormatter={(value) =>
+                            `${Number(value).toFixed(0)} KiB/s`
+                          }
+                        />
+                        <Tooltip
+                          formatter={(value: number, name: string) => {
+                            if (name === "rxKiBps") {
+                              return [
+                                `${Number(value).toFixed(1)} KiB/s`,
+                                "Network RX",
+                              ];
+                            }
+                            if (name === "txKiBps") {
+                              return [
+                                `${Number(value).toFixed(1)} KiB/s`,
+                                "Network TX",
+                              ];
+                            }
+                            return [value, name];
+                          }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="rxKiBps"
+                          stroke="#16a34a"
+                          strokeWidth={2}
+                          dot={false}
+                          name="rxKiBps"
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="txKiBps"
+                          stroke="#ca8a04"
+                          strokeWidth={2}
+                          dot={false}
+                          name="txKiBps"
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
               )}
             </CardContent>
           </Card>
-        </div>
-      </main>
-    );
-  }
-
-  return (
-    <main className="min-h-screen bg-[radial-gradient(circle_at_top_left,var(--color-accent)_0%,transparent_42%),radial-gradient(circle_at_bottom_right,var(--color-secondary)_0%,transparent_48%)] p-3 sm:p-6">
-      <div className="mx-auto flex w-full max-w-375 flex-col gap-4">
-        <Card>
-          <CardContent className="flex flex-col gap-4 pt-6 xl:flex-row xl:items-center xl:justify-between">
-            <div>
-              <h1 className="text-2xl font-semibold tracking-tight">
-                Hytale Manager
-              </h1>
-              <p className="text-sm text-muted-foreground">
-                Logged in as <strong>{user.email}</strong> ({user.role})
-              </p>
-            </div>
-            <div className="flex flex-wrap items-center gap-2">
-              <Badge variant={connected ? "secondary" : "destructive"}>
-                {connected ? "Realtime connected" : "Realtime offline"}
-              </Badge>
-              <Badge variant="outline">
-                Status: {serverState?.status ?? "unknown"}
-              </Badge>
-              <Button
-                size="sm"
-                onClick={() => void runServerAction("server.start")}
-                disabled={!canStart}
-              >
-                Start
-              </Button>
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={() => void runServerAction("server.stop")}
-                disabled={!canStop}
-              >
-                Stop
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => void runServerAction("server.restart")}
-                disabled={!canRestart}
-              >
-                Restart
-              </Button>
-              <Button
-                size="sm"
-                variant="destructive"
-                onClick={() => void handleLogout()}
-                disabled={busy}
-              >
-                Logout
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
 
-        <section className="grid gap-4 xl:grid-cols-12 @container">
-          <Card className="xl:col-span-3 block h-full">
-            <CardContent className="space-y-3 h-full flex flex-col gap-2">
-              {!serverState?.installed || serverState?.updateAvailable ? (
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>Logs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-2">
                 <Button
-                  onClick={() => void handleInstall()}
-                  disabled={downloadsLocked}
-                  className="w-full"
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => void refreshLogs()}
+                  disabled={busy}
                 >
-                  {downloadsLocked
-                    ? "Working..."
-                    : serverState?.installed
-                      ? `Update server${serverState.latestVersion ? ` to ${serverState.latestVersion}` : ""}`
-                      : `Install latest${serverState?.latestVersion ? ` (${serverState.latestVersion})` : ""}`}
+                  Refresh logs
                 </Button>
-              ) : (
-                <p className="text-sm text-muted-foreground">
-                  Server is up to date.
-                </p>
-              )}
-              {!serverState?.javaInstalled && (
                 <Button
-                  onClick={() => void installJavaRuntime()}
-                  disabled={downloadsLocked}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleLogSelection("__terminal__")}
+                >
+                  Live terminal
+                </Button>
+              </div>
+              <ul className="max-h-44 space-y-1 overflow-auto rounded-none border p-2">
+                {logs.map((log) => (
+                  <li key={log.name}>
+                    <Button
+                      size="sm"
+                      variant={selectedLog === log.name ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => void handleLogSelection(log.name)}
+                    >
+                      {log.name} ({formatBytes(log.size)})
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+              <pre className="overflow-auto h-[calc(100vh-170px)] rounded-none border bg-zinc-950 p-3 pr-24 text-xs leading-relaxed text-zinc-100">
+                {logContent}
+              </pre>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>Mods</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <form onSubmit={handleModUpload} className="flex flex-wrap gap-2">
+                <Input
+                  type="file"
+                  name="mod-file"
+                  multiple
+                  accept=".jar,.zip"
+                  className="flex-1"
+                />
+                <Button type="submit" disabled={busy}>
+                  Upload mods
+                </Button>
+              </form>
+              <form
+                onSubmit={handleModFolderSync}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <input
+                  type="file"
+                  name="mod-sync-folder"
+                  multiple
+                  {...({
+                    webkitdirectory: "",
+                    directory: "",
+                  } as Record<string, string>)}
+                  className="flex-1 border px-3 py-2 text-sm"
+                />
+                <Button
+                  type="submit"
                   variant="secondary"
-                  className="w-full"
+                  disabled={busy || !can("mods.write")}
                 >
-                  {downloadsLocked ? "Working..." : "Install Adoptium JDK 25"}
+                  Sync folder
                 </Button>
-              )}
-              <Separator />
-              <div className="space-y-1 text-sm text-muted-foreground">
-                <p>Patchline: {serverState?.patchline ?? "-"}</p>
-                {!serverState?.javaInstalled && (
-                  <p>Java runtime: Not installed</p>
-                )}
-                <p>
-                  Java heap: {serverState?.javaMinHeapMb ?? "-"} MB /{" "}
-                  {serverState?.javaMaxHeapMb ?? "-"} MB
-                </p>
-                <p>Installed version: {serverState?.installedVersion ?? "-"}</p>
-                <p>Latest version: {serverState?.latestVersion ?? "-"}</p>
-                {!serverState?.lifecycleReady && (
-                  <p>
-                    Start/stop/restart require both server files and Adoptium
-                    JDK 25 installed.
-                  </p>
-                )}
-                <p className="truncate">
-                  Server directory: {serverState?.serverDir ?? "-"}
-                </p>
-                <p>Last start: {formatDate(serverState?.startedAt ?? null)}</p>
-              </div>
-              {user.role === "owner" && (
-                <>
-                  <Separator />
-                  <form
-                    onSubmit={saveRuntimeSettings}
-                    className="space-y-3 mt-auto"
+              </form>
+              <p className="text-xs text-muted-foreground">
+                Folder sync uses only top-level <code>.jar</code>/
+                <code>.zip</code> files. Subfolders and other file types are
+                ignored.
+              </p>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => void refreshMods()}
+                disabled={busy}
+              >
+                Refresh mods
+              </Button>
+              <ul className="h-[calc(100vh-140px)] space-y-2 overflow-auto">
+                {mods.map((mod) => (
+                  <li
+                    key={mod.filename}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
                   >
-                    <h3 className="text-sm font-semibold">Runtime settings</h3>
-                    <div className="space-y-2">
-                      <Label htmlFor="server-bind-port">Game port</Label>
-                      <Input
-                        id="server-bind-port"
-                        type="number"
-                        min={1}
-                        max={65535}
-                        step={1}
-                        value={bindPortInput}
-                        onChange={(event) =>
-                          setBindPortInput(event.target.value)
-                        }
-                        placeholder="25565"
-                        disabled={busy}
-                      />
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {mod.pluginName}
+                        {mod.pluginVersion ? ` v${mod.pluginVersion}` : ""}
+                      </p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {mod.filename}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatBytes(mod.size)} |{" "}
+                        {mod.disabled ? "Disabled" : "Enabled"}
+                      </p>
                     </div>
-                    <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
-                      <span>Enable automatic backups</span>
-                      <input
-                        type="checkbox"
-                        checked={autoBackupEnabledInput}
-                        onChange={(event) =>
-                          setAutoBackupEnabledInput(event.target.checked)
-                        }
-                        disabled={busy}
-                      />
-                    </label>
-                    <div className="space-y-2">
-                      <Label htmlFor="backup-frequency-minutes">
-                        Backup frequency (minutes)
-                      </Label>
-                      <Input
-                        id="backup-frequency-minutes"
-                        type="number"
-                        min={1}
-                        max={1440}
-                        step={1}
-                        value={backupFrequencyMinutesInput}
-                        onChange={(event) =>
-                          setBackupFrequencyMinutesInput(event.target.value)
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          void setModState(mod.filename, !mod.disabled)
                         }
-                        disabled={busy || !autoBackupEnabledInput}
-                      />
+                        disabled={!can("mods.write")}
+                      >
+                        {mod.disabled ? "Enable" : "Disable"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => void deleteMod(mod.filename)}
+                        disabled={!can("mods.write")}
+                      >
+                        Delete
+                      </Button>
                     </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>CurseForge</CardTitle>
+              <CardDescription>
+                {curseForgeStatus?.configured
+                  ? `Connected to game ${curseForgeStatus.gameId}${curseForgeStatus.source === "env" ? " (environment)" : ""}.`
+                  : "Connect an API key to browse and install mods."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {can("integrations.manage") &&
+                curseForgeStatus?.source !== "env" && (
+                  <form onSubmit={connectCurseForge} className="space-y-2">
                     <div className="space-y-2">
-                      <Label htmlFor="backup-max-count">
-                        Active backup ZIP files to keep
-                      </Label>
+                      <Label htmlFor="curseforge-api-key">API key</Label>
                       <Input
-                        id="backup-max-count"
-                        type="number"
-                        min={1}
-                        step={1}
-                        value={backupMaxCountInput}
+                        id="curseforge-api-key"
+                        type="password"
+                        value={curseForgeApiKeyInput}
                         onChange={(event) =>
-                          setBackupMaxCountInput(event.target.value)
+                          setCurseForgeApiKeyInput(event.target.value)
                         }
-                        disabled={busy || !autoBackupEnabledInput}
-                      />
-                    </div>
-                    <Separator />
-                    <div className="space-y-2">
-                      <Label htmlFor="java-min-heap">Java min heap (MB)</Label>
-                      <Input
-                        id="java-min-heap"
-                        type="number"
-                        min={256}
-                        step={256}
-                        value={javaMinHeapInput}
-                        onChange={(event) =>
-                          setJavaMinHeapInput(event.target.value)
+                        placeholder={
+                          curseForgeStatus?.configured
+                            ? "Stored securely. Enter a new key to replace it."
+                            : "CurseForge API key"
                         }
                         disabled={busy}
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="java-max-heap">Java max heap (MB)</Label>
+                    <div className="flex flex-wrap gap-2">
                       <Input
-                        id="java-max-heap"
                         type="number"
-                        min={256}
-                        step={256}
-                        value={javaMaxHeapInput}
+                        min={1}
+                        step={1}
+                        value={curseForgeGameIdInput}
                         onChange={(event) =>
-                          setJavaMaxHeapInput(event.target.value)
+                          setCurseForgeGameIdInput(event.target.value)
                         }
+                        placeholder="Game ID"
+                        className="flex-1"
                         disabled={busy}
                       />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="java-extra-args">
-                        Extra JVM args (optional)
-                      </Label>
                       <Input
-                        id="java-extra-args"
-                        type="text"
-                        value={javaExtraArgsInput}
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={curseForgeClassIdInput}
                         onChange={(event) =>
-                          setJavaExtraArgsInput(event.target.value)
+                          setCurseForgeClassIdInput(event.target.value)
                         }
-                        placeholder="-XX:+UseG1GC -XX:+HeapDumpOnOutOfMemoryError"
+                        placeholder="Class ID (optional)"
+                        className="flex-1"
                         disabled={busy}
                       />
+                      <Button type="submit" size="sm" disabled={busy}>
+                        {curseForgeStatus?.configured ? "Reconnect" : "Connect"}
+                      </Button>
                     </div>
-                    <p className="text-xs text-muted-foreground">
-                      Default profile follows Hytale guidance for at least 4 GB
-                      server memory and JVM sizing best practices:
-                      <span className="block">
-                        Min heap 2048 MB, max heap 4096 MB.
-                      </span>
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Native backups are stored in{" "}
-                      {serverState?.backupDir ?? "-"}
-                      {". "}Older backups are moved to the archive folder by
-                      Hytale when max count is reached.
-                    </p>
-                    <Button
-                      type="submit"
-                      size="sm"
-                      className="w-full"
-                      disabled={busy}
+                  </form>
+                )}
+
+              {curseForgeStatus?.configured && (
+                <>
+                  <Separator />
+                  <form
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void searchCurseForge(1);
+                    }}
+                    className="flex flex-wrap items-center gap-2"
+                  >
+                    <Input
+                      type="text"
+                      value={curseForgeQuery}
+                      onChange={(event) =>
+                        setCurseForgeQuery(event.target.value)
+                      }
+                      placeholder="Search CurseForge mods"
+                      className="flex-1"
+                    />
+                    <NativeSelect
+                      value={curseForgeSort}
+                      onChange={(event) =>
+                        setCurseForgeSort(
+                          event.target.value as CurseForgeSearchSort,
+                        )
+                      }
                     >
-                      Save runtime settings
+                      <NativeSelectOption value="popularity">
+                        Popularity
+                      </NativeSelectOption>
+                      <NativeSelectOption value="lastUpdated">
+                        Last updated
+                      </NativeSelectOption>
+                      <NativeSelectOption value="totalDownloads">
+                        Downloads
+                      </NativeSelectOption>
+                      <NativeSelectOption value="name">Name</NativeSelectOption>
+                      <NativeSelectOption value="author">
+                        Author
+                      </NativeSelectOption>
+                    </NativeSelect>
+                    <Button type="submit" size="sm" disabled={busy}>
+                      Search
                     </Button>
                   </form>
+
+                  {curseForgeResults && (
+                    <>
+                      <ul className="max-h-80 space-y-2 overflow-auto">
+                        {curseForgeResults.mods.map((mod) => {
+                          const tracked = curseForgeInstalled.find(
+                            (item) => item.modId === mod.id,
+                          );
+                          return (
+                            <li
+                              key={mod.id}
+                              className="flex items-center justify-between gap-3 rounded-none border p-3"
+                            >
+                              <div className="flex min-w-0 items-center gap-3">
+                                {mod.logoUrl && (
+                                  <img
+                                    src={mod.logoUrl}
+                                    alt=""
+                                    className="size-10 shrink-0 object-cover"
+                                  />
+                                )}
+                                <div className="min-w-0">
+                                  <p className="truncate font-medium">
+                                    {mod.websiteUrl ? (
+                                      <a
+                                        href={mod.websiteUrl}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="hover:underline"
+                                      >
+                                        {mod.name}
+                                      </a>
+                                    ) : (
+                                      mod.name
+                                    )}
+                                  </p>
+                                  <p className="truncate text-xs text-muted-foreground">
+                                    {mod.summary}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {mod.authors.join(", ") || "Unknown"} |{" "}
+                                    {mod.downloadCount.toLocaleString()}{" "}
+                                    downloads | Updated{" "}
+                                    {formatDate(mod.dateModified)}
+                                  </p>
+                                </div>
+                              </div>
+                              {can("mods.write") && (
+                                <Button
+                                  size="sm"
+                                  variant={tracked ? "outline" : "default"}
+                                  onClick={() =>
+                                    void installCurseForgeMod(mod.id)
+                                  }
+                                  disabled={busy}
+                                >
+                                  {tracked ? "Reinstall" : "Install"}
+                                </Button>
+                              )}
+                            </li>
+                          );
+                        })}
+                        {curseForgeResults.mods.length === 0 && (
+                          <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                            No mods matched your search.
+                          </li>
+                        )}
+                      </ul>
+                      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                        <span>
+                          Page {curseForgeResults.page} of{" "}
+                          {Math.max(
+                            1,
+                            Math.ceil(
+                              curseForgeResults.totalCount /
+                                curseForgeResults.pageSize,
+                            ),
+                          )}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              void searchCurseForge(curseForgeResults.page - 1)
+                            }
+                            disabled={busy || curseForgeResults.page <= 1}
+                          >
+                            Previous
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              void searchCurseForge(curseForgeResults.page + 1)
+                            }
+                            disabled={
+                              busy ||
+                              curseForgeResults.page *
+                                curseForgeResults.pageSize >=
+                                curseForgeResults.totalCount
+                            }
+                          >
+                            Next
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  )}
                 </>
               )}
-            </CardContent>
-          </Card>
 
-          <Card className="xl:col-span-9">
-            <CardContent className="space-y-3">
-              <div className="group/terminal relative overflow-hidden">
-                <pre
-                  ref={terminalRef}
-                  onScroll={handleTerminalScroll}
-                  className="overflow-auto h-[calc(100vh-200px)] rounded-none border bg-zinc-950 p-3 pr-24 text-xs leading-relaxed text-zinc-100"
-                >
-                  {terminalLines.join("\n")}
-                </pre>
-                <Button
-                  type="button"
-                  size="sm"
-                  variant={terminalScrollLock ? "default" : "secondary"}
-                  className="pointer-events-none absolute right-2 bottom-2 opacity-0 transition-opacity group-hover/terminal:pointer-events-auto group-hover/terminal:opacity-100 group-focus-within/terminal:pointer-events-auto group-focus-within/terminal:opacity-100"
-                  onClick={() => setTerminalScrollLock((current) => !current)}
-                >
-                  {terminalScrollLock
-                    ? "Auto-scroll locked"
-                    : "Lock auto-scroll"}
-                </Button>
-              </div>
-              <form onSubmit={sendTerminalCommand} className="flex gap-2">
-                <Input
-                  type="text"
-                  value={commandInput}
-                  onChange={(event) => setCommandInput(event.target.value)}
-                  placeholder="Type Hytale command, e.g. /save"
-                />
-                <Button type="submit" disabled={busy}>
-                  Send
-                </Button>
-              </form>
+              <Separator />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold">
+                  Installed from CurseForge ({curseForgeInstalled.length})
+                </h3>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => void checkCurseForgeUpdates()}
+                    disabled={busy || !curseForgeStatus?.configured}
+                  >
+                    Check updates
+                  </Button>
+                  {can("mods.write") && (
+                    <Button
+                      size="sm"
+                      onClick={() => void updateAllCurseForgeMods()}
+                      disabled={
+                        busy ||
+                        !curseForgeStatus?.configured ||
+                        curseForgeInstalled.length === 0
+                      }
+                    >
+                      Update all
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <ul className="max-h-80 space-y-2 overflow-auto">
+                {curseForgeInstalled.map((item) => (
+                  <li
+                    key={item.modId}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{item.modName}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {item.localFilename}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Installed {formatDate(item.installedAt)}
+                        {item.localFileMissing ? " | File missing" : ""}
+                        {item.updateAvailable && item.latestFileName
+                          ? ` | Update: ${item.latestFileName}`
+                          : ""}
+                      </p>
+                    </div>
+                    {can("mods.write") &&
+                      (item.updateAvailable || item.localFileMissing) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void updateCurseForgeMod(item.modId)}
+                          disabled={busy || !curseForgeStatus?.configured}
+                        >
+                          Update
+                        </Button>
+                      )}
+                  </li>
+                ))}
+                {curseForgeInstalled.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No CurseForge mods installed yet.
+                  </li>
+                )}
+              </ul>
             </CardContent>
           </Card>
 
-          <Card className="xl:col-span-12">
+          <Card className="xl:col-span-6">
             <CardHeader>
-              <CardTitle>Runtime Metrics</CardTitle>
+              <CardTitle>Nexus Mods</CardTitle>
               <CardDescription>
-                Live server metrics sampled every{" "}
-                {Math.max(
-                  1,
-                  Math.round(
-                    (serverState?.metricsSampleIntervalMs ?? 2000) / 1000,
-                  ),
-                )}
-                s while running.
+                {nexusStatus?.configured
+                  ? `Connected to ${nexusStatus.gameDomain} as ${nexusStatus.userName ?? "unknown user"}${nexusStatus.premium ? " (premium)" : ""}${nexusStatus.source === "env" ? " via environment" : ""}.`
+                  : "Connect a Nexus Mods account to browse and install mods."}
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              {metricsSummary ? (
-                <div className="grid gap-3 md:grid-cols-5">
-                  <div className="rounded-none border p-3">
-                    <p className="text-xs text-muted-foreground">CPU now</p>
-                    <p className="text-lg font-semibold">
-                      {metricsSummary.latest.cpuPercent.toFixed(1)}%
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Peak {metricsSummary.cpuPeak.toFixed(1)}%
-                    </p>
-                  </div>
-                  <div className="rounded-none border p-3">
-                    <p className="text-xs text-muted-foreground">Memory RSS</p>
-                    <p className="text-lg font-semibold">
-                      {formatBytes(metricsSummary.latest.rssBytes)}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Peak {formatBytes(metricsSummary.rssPeak)}
-                    </p>
-                  </div>
-                  <div className="rounded-none border p-3">
-                    <p className="text-xs text-muted-foreground">
-                      Virtual memory
-                    </p>
-                    <p className="text-lg font-semibold">
-                      {formatBytes(metricsSummary.latest.virtualMemoryBytes)}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Java process space
-                    </p>
-                  </div>
-                  <div className="rounded-none border p-3">
-                    <p className="text-xs text-muted-foreground">Network RX</p>
-                    <p className="text-lg font-semibold">
-                      {formatRate(metricsSummary.latest.networkRxBytesPerSec)}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      Peak {formatRate(metricsSummary.rxPeak)}
-                    </p>
+            <CardContent className="space-y-3">
+              {can("integrations.manage") && nexusStatus?.source !== "env" && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    {nexusStatus?.ssoPending ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void cancelNexusSso()}
+                        disabled={busy}
+                      >
+                        Cancel Nexus sign-in
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => void startNexusSso()}
+                        disabled={busy || !nexusStatus?.ssoAvailable}
+                      >
+                        {nexusStatus?.configured
+                          ? "Reconnect Nexus account"
+                          : "Connect Nexus account"}
+                      </Button>
+                    )}
                   </div>
-                  <div className="rounded-none border p-3">
-                    <p className="text-xs text-muted-foreground">Network TX</p>
-                    <p className="text-lg font-semibold">
-                      {formatRate(metricsSummary.latest.networkTxBytesPerSec)}
-                    </p>
+                  {!nexusStatus?.ssoAvailable && (
                     <p className="text-xs text-muted-foreground">
-                      Peak {formatRate(metricsSummary.txPeak)}
+                      Set HYTALE_NEXUS_APP_ID to enable single sign-on, or paste
+                      a personal API key below.
                     </p>
-                  </div>
+                  )}
+                  <form
+                    onSubmit={connectNexusWithApiKey}
+                    className="flex flex-wrap gap-2"
+                  >
+                    <Input
+                      type="password"
+                      value={nexusApiKeyInput}
+                      onChange={(event) =>
+                        setNexusApiKeyInput(event.target.value)
+                      }
+                      placeholder="Nexus API key"
+                      className="flex-1"
+                      disabled={busy}
+                    />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                    >
+                      Use API key
+                    </Button>
+                  </form>
                 </div>
-              ) : (
-                <p className="rounded-none border p-3 text-sm text-muted-foreground">
-                  Start the server to collect runtime metrics.
-                </p>
               )}
 
-              {metricsChartData.length > 0 && (
-                <div className="grid gap-4 xl:grid-cols-2">
-                  <div className="h-56 rounded-none border p-2">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={metricsChartData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="time" minTickGap={28} />
-                        <YAxis
-                          yAxisId="cpu"
-                          width={45}
-                          tickFormatter={(value) =>
-                            `${Number(value).toFixed(0)}%`
-                          }
-                        />
-                        <YAxis
-                          yAxisId="mem"
-                          orientation="right"
-                          width={58}
-                          tickFormatter={(value) =>
-                            `${Number(value).toFixed(0)}M`
-                          }
-                        />
-                        <Tooltip
-                          formatter={(value: number, name: string) => {
-                            if (name === "cpuPercent") {
-                              return [`${Number(value).toFixed(1)}%`, "CPU"];
-                            }
-                            if (name === "rssMiB") {
-                              return [
-                                `${Number(value).toFixed(1)} MiB`,
-                                "RSS Memory",
-                              ];
-                            }
-                            return [value, name];
-                          }}
-                        />
-                        <Line
-                          yAxisId="cpu"
-                          type="monotone"
-                          dataKey="cpuPercent"
-                          stroke="#e11d48"
-                          strokeWidth={2}
-                          dot={false}
-                          name="cpuPercent"
-                        />
-                        <Line
-                          yAxisId="mem"
-                          type="monotone"
-                          dataKey="rssMiB"
-                          stroke="#0369a1"
-                          strokeWidth={2}
-                          dot={false}
-                          name="rssMiB"
-                        />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </div>
+              {nexusStatus?.configured && (
+                <>
+                  <Separator />
+                  <form
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void searchNexus(1);
+                    }}
+                    className="flex flex-wrap items-center gap-2"
+                  >
+                    <Input
+                      type="text"
+                      value={nexusQuery}
+                      onChange={(event) => setNexusQuery(event.target.value)}
+                      placeholder="Search Nexus mods"
+                      className="flex-1"
+                    />
+                    <NativeSelect
+                      value={nexusSort}
+                      onChange={(event) =>
+                        setNexusSort(event.target.value as NexusSearchSort)
+                      }
+                    >
+                      <NativeSelectOption value="popularity">
+                        Popularity
+                      </NativeSelectOption>
+                      <NativeSelectOption value="downloads">
+                        Downloads
+                      </NativeSelectOption>
+                      <NativeSelectOption value="lastUpdated">
+                        Last updated
+                      </NativeSelectOption>
+                      <NativeSelectOption value="name">Name</NativeSelectOption>
+                    </NativeSelect>
+                    <Button type="submit" size="sm" disabled={busy}>
+                      Search
+                    </Button>
+                  </form>
 
-                  <div className="h-56 rounded-none border p-2">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={metricsChartData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="time" minTickGap={28} />
-                        <YAxis
-                          width={62}
-                          tickFormatter={(value) =>
-                            `${Number(value).toFixed(0)} KiB/s`
-                          }
-                        />
-                        <Tooltip
-                          formatter={(value: number, name: string) => {
-                            if (name === "rxKiBps") {
-                              return [
-                                `${Number(value).toFixed(1)} KiB/s`,
-                                "Network RX",
-                              ];
-                            }
-                            if (name === "txKiBps") {
-                              return [
-                                `${Number(value).toFixed(1)} KiB/s`,
-                                "Network TX",
-                              ];
+                  {nexusResults && (
+                    <>
+                      <ul className="max-h-80 space-y-2 overflow-auto">
+                        {nexusResults.mods.map((mod) => {
+                          const tracked = nexusInstalled.find(
+                            (item) => item.modId === mod.modId,
+                          );
+                          return (
+                            <li
+                              key={mod.modId}
+                              className="flex items-center justify-between gap-3 rounded-none border p-3"
+                            >
+                              <div className="flex min-w-0 items-center gap-3">
+                                {mod.thumbnailUrl && (
+                                  <img
+                                    src={mod.thumbnailUrl}
+                                    alt=""
+                                    className="size-10 shrink-0 object-cover"
+                                  />
+                                )}
+                                <div className="min-w-0">
+                                  <p className="truncate font-medium">
+                                    {mod.name}
+                                    {mod.version ? ` ${mod.version}` : ""}
+                                  </p>
+                                  <p className="truncate text-xs text-muted-foreground">
+                                    {mod.summary}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {mod.author || "Unknown"} |{" "}
+                                    {mod.downloads.toLocaleString()} downloads |{" "}
+                                    {mod.endorsements.toLocaleString()}{" "}
+                                    endorsements
+                                  </p>
+                                </div>
+                              </div>
+                              {can("mods.write") && (
+                                <Button
+                                  size="sm"
+                                  variant={tracked ? "outline" : "default"}
+                                  onClick={() => void installNexusMod(mod.modId)}
+                                  disabled={busy}
+                                >
+                                  {tracked ? "Reinstall" : "Install"}
+                                </Button>
+                              )}
+                            </li>
+                          );
+                        })}
+                        {nexusResults.mods.length === 0 && (
+                          <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                            No mods matched your search.
+                          </li>
+                        )}
+                      </ul>
+                      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                        <span>
+                          Page {nexusResults.page} of{" "}
+                          {Math.max(
+                            1,
+                            Math.ceil(
+                              nexusResults.totalCount / nexusResults.pageSize,
+                            ),
+                          )}
+                        </span>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => void searchNexus(nexusResults.page - 1)}
+                            disabled={busy || nexusResults.page <= 1}
+                          >
+                            Previous
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => void searchNexus(nexusResults.page + 1)}
+                            disabled={
+                              busy ||
+                              nexusResults.page * nexusResults.pageSize >=
+                                nexusResults.totalCount
                             }
-                            return [value, name];
-                          }}
-                        />
-                        <Line
-                          type="monotone"
-                          dataKey="rxKiBps"
-                          stroke="#16a34a"
-                          strokeWidth={2}
-                          dot={false}
-                          name="rxKiBps"
-                        />
-                        <Line
-                          type="monotone"
-                          dataKey="txKiBps"
-                          stroke="#ca8a04"
-                          strokeWidth={2}
-                          dot={false}
-                          name="txKiBps"
-                        />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </div>
-                </div>
+                          >
+                            Next
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </>
               )}
+
+              <Separator />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold">
+                  Installed from Nexus ({nexusInstalled.length})
+                </h3>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => void checkNexusUpdates()}
+                    disabled={busy || !nexusStatus?.configured}
+                  >
+                    Check updates
+                  </Button>
+                  {can("mods.write") && (
+                    <Button
+                      size="sm"
+                      onClick={() => void updateAllNexusMods()}
+                      disabled={
+                        busy ||
+                        !nexusStatus?.configured ||
+                        nexusInstalled.length === 0
+                      }
+                    >
+                      Update all
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <ul className="max-h-80 space-y-2 overflow-auto">
+                {nexusInstalled.map((item) => (
+                  <li
+                    key={item.modId}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        <a
+                          href={item.pageUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline"
+                        >
+                          {item.modName}
+                        </a>
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {item.localFilename}
+                        {item.fileVersion ? ` (${item.fileVersion})` : ""}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Installed {formatDate(item.installedAt)}
+                        {item.localFileMissing ? " | File missing" : ""}
+                        {item.updateAvailable && item.latestFileName
+                          ? ` | Update: ${item.latestFileName}`
+                          : ""}
+                      </p>
+                    </div>
+                    {can("mods.write") &&
+                      (item.updateAvailable || item.localFileMissing) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void updateNexusMod(item.modId)}
+                          disabled={busy || !nexusStatus?.configured}
+                        >
+                          Update
+                        </Button>
+                      )}
+                  </li>
+                ))}
+                {nexusInstalled.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No Nexus mods installed yet.
+                  </li>
+                )}
+              </ul>
             </CardContent>
           </Card>
 
           <Card className="xl:col-span-6">
             <CardHeader>
-              <CardTitle>Logs</CardTitle>
+              <CardTitle>Whitelist</CardTitle>
+              <CardDescription>
+                Manage allowed players by UUID or username.
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="flex flex-wrap gap-2">
+              <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
+                <span>Whitelist enabled</span>
+                <input
+                  type="checkbox"
+                  checked={whitelist?.enabled ?? false}
+                  onChange={(event) =>
+                    void updateWhitelistEnabled(event.target.checked)
+                  }
+                  disabled={busy || !can("whitelist.write")}
+                />
+              </label>
+
+              <form
+                onSubmit={addWhitelistEntry}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <Input
+                  type="text"
+                  value={whitelistInput}
+                  onChange={(event) => setWhitelistInput(event.target.value)}
+                  placeholder="username or uuid"
+                  disabled={busy || !can("whitelist.write")}
+                />
                 <Button
+                  type="submit"
                   size="sm"
-                  variant="secondary"
-                  onClick={() => void refreshLogs()}
-                  disabled={busy}
+                  disabled={busy || !can("whitelist.write")}
                 >
-                  Refresh logs
+                  Add
                 </Button>
                 <Button
+                  type="button"
                   size="sm"
-                  variant="outline"
-                  onClick={() => void handleLogSelection("__terminal__")}
+                  variant="secondary"
+                  onClick={() => void refreshWhitelist()}
+                  disabled={busy}
                 >
-                  Live terminal
+                  Refresh
                 </Button>
-              </div>
-              <ul className="max-h-44 space-y-1 overflow-auto rounded-none border p-2">
-                {logs.map((log) => (
-                  <li key={log.name}>
+              </form>
+
+              <p className="text-xs text-muted-foreground">
+                UUIDs are stored in <code>whitelist.json</code>. Username
+                labels are resolved from local player data, cached lookups, or
+                remote lookup.
+              </p>
+
+              <ul className="max-h-80 space-y-2 overflow-auto">
+                {(whitelist?.entries ?? []).map((entry) => (
+                  <li
+                    key={entry.uuid}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {entry.username ?? "Unknown player"}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {entry.uuid}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatWhitelistSource(entry.source)}
+                        {entry.lastSeenAt
+                          ? ` | Updated ${formatDate(entry.lastSeenAt)}`
+                          : ""}
+                      </p>
+                    </div>
+                    {can("whitelist.write") && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => void removeWhitelistEntry(entry.uuid)}
+                        disabled={busy}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </li>
+                ))}
+                {(whitelist?.entries.length ?? 0) === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No players in whitelist.
+                  </li>
+                )}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>Moderation</CardTitle>
+              <CardDescription>
+                Bans, operators and permissions. Changes go through console
+                commands while the server runs and edit the JSON files
+                directly when it is stopped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {moderation?.error && (
+                <p className="rounded-none border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                  Could not read the moderation files: {moderation.error}
+                </p>
+              )}
+              <Tabs defaultValue="bans">
+                <TabsList>
+                  <TabsTrigger value="bans">
+                    Bans ({moderation?.bans.length ?? 0})
+                  </TabsTrigger>
+                  <TabsTrigger value="ops">
+                    Operators ({moderation?.ops.length ?? 0})
+                  </TabsTrigger>
+                  <TabsTrigger value="permissions">Permissions</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="bans" className="space-y-3">
+                  <form
+                    onSubmit={addBan}
+                    className="flex flex-wrap items-center gap-2"
+                  >
+                    <Input
+                      type="text"
+                      value={banPlayerInput}
+                      onChange={(event) => setBanPlayerInput(event.target.value)}
+                      placeholder="username or uuid"
+                      disabled={busy || !can("players.ban")}
+                    />
+                    <Input
+                      type="text"
+                      value={banReasonInput}
+                      onChange={(event) => setBanReasonInput(event.target.value)}
+                      placeholder="Reason (optional)"
+                      disabled={busy || !can("players.ban")}
+                    />
+                    <NativeSelect
+                      value={banDurationInput}
+                      onChange={(event) => setBanDurationInput(event.target.value)}
+                      disabled={busy || !can("players.ban")}
+                    >
+                      {BAN_DURATION_OPTIONS.map((option) => (
+                        <NativeSelectOption key={option.value} value={option.value}>
+                          {option.label}
+                        </NativeSelectOption>
+                      ))}
+                    </NativeSelect>
                     <Button
+                      type="submit"
                       size="sm"
-                      variant={selectedLog === log.name ? "secondary" : "ghost"}
-                      className="w-full justify-start"
-                      onClick={() => void handleLogSelection(log.name)}
+                      variant="destructive"
+                      disabled={busy || !can("players.ban")}
                     >
-                      {log.name} ({formatBytes(log.size)})
+                      Ban
                     </Button>
-                  </li>
-                ))}
-              </ul>
-              <pre className="overflow-auto h-[calc(100vh-170px)] rounded-none border bg-zinc-950 p-3 pr-24 text-xs leading-relaxed text-zinc-100">
-                {logContent}
-              </pre>
+                  </form>
+
+                  <ul className="max-h-80 space-y-2 overflow-auto">
+                    {(moderation?.bans ?? []).map((ban) => (
+                      <li
+                        key={ban.uuid}
+                        className="flex items-center justify-between gap-3 rounded-none border p-3"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">
+                            {ban.username ?? "Unknown player"}
+                          </p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {ban.uuid}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {ban.reason ?? "No reason given"}
+                            {ban.bannedAt
+                              ? ` | Banned ${formatDate(ban.bannedAt)}`
+                              : ""}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={ban.expiresAt ? "secondary" : "destructive"}>
+                            {ban.expiresAt
+                              ? `Until ${formatDate(ban.expiresAt)}`
+                              : "Permanent"}
+                          </Badge>
+                          {can("players.ban") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() =>
+                                void runModerationAction(
+                                  "bans.remove",
+                                  { uuid: ban.uuid },
+                                  `Unbanned ${ban.username ?? ban.uuid}.`,
+                                )
+                              }
+                              disabled={busy}
+                            >
+                              Unban
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                    {(moderation?.bans.length ?? 0) === 0 && (
+                      <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                        No banned players.
+                      </li>
+                    )}
+                  </ul>
+                </TabsContent>
+
+                <TabsContent value="ops" className="space-y-3">
+                  <form
+                    onSubmit={addOperator}
+                    className="flex flex-wrap items-center gap-2"
+                  >
+                    <Input
+                      type="text"
+                      value={operatorInput}
+                      onChange={(event) => setOperatorInput(event.target.value)}
+                      placeholder="username or uuid"
+                      disabled={busy || !can("players.operators")}
+                    />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      disabled={busy || !can("players.operators")}
+                    >
+                      Add operator
+                    </Button>
+                  </form>
+
+                  <ul className="max-h-80 space-y-2 overflow-auto">
+                    {(moderation?.ops ?? []).map((op) => (
+                      <li
+                        key={op.uuid}
+                        className="flex items-center justify-between gap-3 rounded-none border p-3"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">
+                            {op.username ?? "Unknown player"}
+                          </p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {op.uuid}
+                          </p>
+                        </div>
+                        {can("players.operators") && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() =>
+                              void runModerationAction(
+                                "ops.remove",
+                                { uuid: op.uuid },
+                                `Removed operator ${op.username ?? op.uuid}.`,
+                              )
+                            }
+                            disabled={busy}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                    {(moderation?.ops.length ?? 0) === 0 && (
+                      <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                        No operators.
+                      </li>
+                    )}
+                  </ul>
+                </TabsContent>
+
+                <TabsContent value="permissions" className="space-y-3">
+                  <form onSubmit={savePermissionGroup} className="space-y-2">
+                    <p className="text-sm font-medium">Groups</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        type="text"
+                        value={permissionGroupInput}
+                        onChange={(event) =>
+                          setPermissionGroupInput(event.target.value)
+                        }
+                        placeholder="Group name"
+                        disabled={busy || !can("players.operators")}
+                      />
+                      <Input
+                        type="text"
+                        value={permissionGroupNodesInput}
+                        onChange={(event) =>
+                          setPermissionGroupNodesInput(event.target.value)
+                        }
+                        placeholder="permission.node, other.node"
+                        disabled={busy || !can("players.operators")}
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        disabled={busy || !can("players.operators")}
+                      >
+                        Save group
+                      </Button>
+                    </div>
+                  </form>
+
+                  <ul className="max-h-60 space-y-2 overflow-auto">
+                    {Object.entries(moderation?.permissions.groups ?? {}).map(
+                      ([group, nodes]) => (
+                        <li
+                          key={group}
+                          className="flex items-center justify-between gap-3 rounded-none border p-3"
+                        >
+                          <div className="min-w-0">
+                            <p className="truncate font-medium">{group}</p>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {nodes.length > 0 ? nodes.join(", ") : "No permissions"}
+                            </p>
+                          </div>
+                          {can("players.operators") && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  setPermissionGroupInput(group);
+                                  setPermissionGroupNodesInput(nodes.join(", "));
+                                }}
+                                disabled={busy}
+                              >
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() =>
+                                  void runModerationAction(
+                                    "permissions.group.delete",
+                                    { group },
+                                    `Permission group ${group} deleted.`,
+                                  )
+                                }
+                                disabled={busy}
+                              >
+                                Delete
+                              </Button>
+                            </div>
+                          )}
+                        </li>
+                      ),
+                    )}
+                    {Object.keys(moderation?.permissions.groups ?? {}).length ===
+                      0 && (
+                      <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                        No permission groups.
+                      </li>
+                    )}
+                  </ul>
+
+                  <Separator />
+
+                  <form onSubmit={saveUserPermissions} className="space-y-2">
+                    <p className="text-sm font-medium">Players</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        type="text"
+                        value={permissionPlayerInput}
+                        onChange={(event) =>
+                          setPermissionPlayerInput(event.target.value)
+                        }
+                        placeholder="username or uuid"
+                        disabled={busy || !can("players.operators")}
+                      />
+                      <Input
+                        type="text"
+                        value={permissionPlayerGroupsInput}
+                        onChange={(event) =>
+                          setPermissionPlayerGroupsInput(event.target.value)
+                        }
+                        placeholder="Groups"
+                        disabled={busy || !can("players.operators")}
+                      />
+                      <Input
+                        type="text"
+                        value={permissionPlayerNodesInput}
+                        onChange={(event) =>
+                          setPermissionPlayerNodesInput(event.target.value)
+                        }
+                        placeholder="Extra permissions"
+                        disabled={busy || !can("players.operators")}
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        disabled={busy || !can("players.operators")}
+                      >
+                        Save player
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Saving replaces the player's groups and permissions.
+                      Leave both empty to remove the player entry.
+                    </p>
+                  </form>
+
+                  <ul className="max-h-60 space-y-2 overflow-auto">
+                    {(moderation?.permissions.users ?? []).map((entry) => (
+                      <li
+                        key={entry.uuid}
+                        className="flex items-center justify-between gap-3 rounded-none border p-3"
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">
+                            {entry.username ?? entry.uuid}
+                          </p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            Groups: {entry.groups.join(", ") || "-"} |
+                            Permissions: {entry.permissions.join(", ") || "-"}
+                          </p>
+                        </div>
+                        {can("players.operators") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setPermissionPlayerInput(entry.uuid);
+                              setPermissionPlayerGroupsInput(
+                                entry.groups.join(", "),
+                              );
+                              setPermissionPlayerNodesInput(
+                                entry.permissions.join(", "),
+                              );
+                            }}
+                            disabled={busy}
+                          >
+                            Edit
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                    {(moderation?.permissions.users.length ?? 0) === 0 && (
+                      <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                        No player-specific permissions.
+                      </li>
+                    )}
+                  </ul>
+                </TabsContent>
+              </Tabs>
             </CardContent>
           </Card>
 
           <Card className="xl:col-span-6">
             <CardHeader>
-              <CardTitle>Mods</CardTitle>
+              <CardTitle>Backups</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <form onSubmit={handleModUpload} className="flex flex-wrap gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="backup-note">Note</Label>
                 <Input
-                  type="file"
-                  name="mod-file"
-                  multiple
-                  accept=".jar,.zip"
-                  className="flex-1"
+                  id="backup-note"
+                  type="text"
+                  value={backupNote}
+                  onChange={(event) => setBackupNote(event.target.value)}
+                  placeholder="Manual snapshot note (optional)"
                 />
-                <Button type="submit" disabled={busy}>
-                  Upload mods
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => void createBackup()}
+                  disabled={busy || !can("backups.create")}
+                >
+                  Create manual backup
                 </Button>
-              </form>
-              <form
-                onSubmit={handleModFolderSync}
-                className="flex flex-wrap items-center gap-2"
-              >
-                <input
-                  type="file"
-                  name="mod-sync-folder"
-                  multiple
-                  {...({
-                    webkitdirectory: "",
-                    directory: "",
-                  } as Record<string, string>)}
-                  className="flex-1 border px-3 py-2 text-sm"
-                />
-                <Button type="submit" variant="secondary" disabled={busy}>
-                  Sync folder
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => void refreshBackups()}
+                  disabled={busy}
+                >
+                  Refresh backups
                 </Button>
-              </form>
-              <p className="text-xs text-muted-foreground">
-                Folder sync uses only top-level <code>.jar</code>/
-                <code>.zip</code> files. Subfolders and other file types are
-                ignored.
-              </p>
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={() => void refreshMods()}
-                disabled={busy}
-              >
-                Refresh mods
-              </Button>
-              <ul className="h-[calc(100vh-140px)] space-y-2 overflow-auto">
-                {mods.map((mod) => (
+                {serverState?.backupRetentionEnabled && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => void pruneBackups()}
+                    disabled={busy || !can("backups.delete")}
+                  >
+                    Run retention now
+                  </Button>
+                )}
+              </div>
+
+              {can("backups.transfer") && (
+                <form
+                  onSubmit={handleBackupImport}
+                  className="flex flex-wrap items-center gap-2"
+                >
+                  <Input
+                    name="backup-import-file"
+                    type="file"
+                    accept=".zip,application/zip"
+                    className="max-w-xs"
+                    disabled={busy}
+                  />
+                  <Input
+                    name="backup-import-sha256"
+                    type="text"
+                    placeholder="SHA-256 (optional)"
+                    className="max-w-xs"
+                    disabled={busy}
+                  />
+                  <Button type="submit" size="sm" variant="secondary" disabled={busy}>
+                    Import backup
+                  </Button>
+                  {backupImportProgress && (
+                    <span className="text-xs text-muted-foreground">
+                      {backupImportProgress.filename}:{" "}
+                      {formatBytes(backupImportProgress.received)} /{" "}
+                      {formatBytes(backupImportProgress.size)}
+                    </span>
+                  )}
+                </form>
+              )}
+
+              {safetySnapshots.length > 0 && (
+                <div className="space-y-2 rounded-none border p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <p>
+                      Last operation:{" "}
+                      <span className="font-medium">
+                        {safetySnapshots[0].summary}
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        {safetySnapshots[0].actor
+                          ? `by ${safetySnapshots[0].actor}, `
+                          : ""}
+                        {formatDate(safetySnapshots[0].createdAt)}
+                      </span>
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => void undoLastOperation()}
+                      disabled={busy || !can("backups.restore")}
+                    >
+                      Undo last operation
+                    </Button>
+                  </div>
+                  {safetySnapshots.slice(1).map((snapshot) => (
+                    <p key={snapshot.id} className="text-xs text-muted-foreground">
+                      {formatDate(snapshot.createdAt)}: {snapshot.summary}
+                      {snapshot.actor ? ` (${snapshot.actor})` : ""},{" "}
+                      {formatBytes(snapshot.size)}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {serverState?.lastBackupRetentionRun && (
+                <div className="rounded-none border p-2 text-sm text-muted-foreground">
+                  <p>
+                    Last retention run{" "}
+                    {formatDate(serverState.lastBackupRetentionRun.ranAt)} (
+                    {serverState.lastBackupRetentionRun.trigger}): deleted{" "}
+                    {serverState.lastBackupRetentionRun.deleted.length}, kept{" "}
+                    {serverState.lastBackupRetentionRun.kept} (
+                    {formatBytes(serverState.lastBackupRetentionRun.totalBytes)})
+                  </p>
+                  {serverState.lastBackupRetentionRun.deleted.map((entry) => (
+                    <p key={entry.name} className="text-xs">
+                      {entry.name}: {entry.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <ul className="max-h-80 space-y-2 overflow-auto">
+                {backups.map((backup) => (
                   <li
-                    key={mod.filename}
+                    key={backup.id}
                     className="flex items-center justify-between gap-3 rounded-none border p-3"
                   >
-                    <div className="min-w-0">
-                      <p className="truncate font-medium">
-                        {mod.pluginName}
-                        {mod.pluginVersion ? ` v${mod.pluginVersion}` : ""}
-                      </p>
-                      <p className="truncate text-sm text-muted-foreground">
-                        {mod.filename}
+                    <div>
+                      <p className="flex items-center gap-2 font-medium">
+                        {backup.name}
+                        {backup.pinned && <Badge variant="secondary">Pinned</Badge>}
+                        {backup.consistency === "live" && (
+                          <Badge
+                            variant="outline"
+                            title="Copied from a running server without a save flush"
+                          >
+                            Live copy
+                          </Badge>
+                        )}
+                        {backup.consistency === "flushed" && (
+                          <Badge
+                            variant="outline"
+                            title="Saves were flushed and paused while copying"
+                          >
+                            Consistent
+                          </Badge>
+                        )}
+                        {backup.consistency === "imported" && (
+                          <Badge
+                            variant="outline"
+                            title="Uploaded through the dashboard from another host"
+                          >
+                            Imported
+                          </Badge>
+                        )}
+                        {backup.verification && (
+                          <Badge
+                            variant={
+                              backup.verification.status === "failed"
+                                ? "destructive"
+                                : "secondary"
+                            }
+                            title={`${backup.verification.message} (${formatDate(backup.verification.checkedAt)})`}
+                          >
+                            {backup.verification.mode === "test-restore"
+                              ? "Test restore"
+                              : "Verify"}{" "}
+                            {backup.verification.status}
+                          </Badge>
+                        )}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {formatBytes(mod.size)} |{" "}
-                        {mod.disabled ? "Disabled" : "Enabled"}
+                        {formatDate(backup.createdAt)} |{" "}
+                        {backup.source === "native"
+                          ? backup.archived
+                            ? "Archive"
+                            : "Active"
+                          : backup.format === "zip"
+                            ? "Manual (ZIP)"
+                            : "Manual (folder)"}{" "}
+                        | {formatBytes(backup.size)}
                       </p>
+                      {backup.sha256 && (
+                        <p
+                          className="truncate font-mono text-xs text-muted-foreground"
+                          title={backup.sha256}
+                        >
+                          SHA-256 {backup.sha256.slice(0, 16)}…
+                        </p>
+                      )}
+                      {backup.note && (
+                        <p className="text-sm text-muted-foreground">
+                          {backup.note}
+                        </p>
+                      )}
+                      {backup.replicas.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {backup.replicas.map((replica) => (
+                            <Badge
+                              key={replica.targetId}
+                              variant={
+                                replica.status === "failed"
+                                  ? "destructive"
+                                  : replica.status === "uploaded"
+                                    ? "secondary"
+                                    : "outline"
+                              }
+                              title={replica.error ?? formatDate(replica.updatedAt)}
+                            >
+                              {replica.targetName}: {replica.status}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2">
+                      {backup.source === "manual" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            void setBackupPinned(backup, !backup.pinned)
+                          }
+                          disabled={!can("backups.delete")}
+                        >
+                          {backup.pinned ? "Unpin" : "Pin"}
+                        </Button>
+                      )}
+                      {can("backups.transfer") && (
+                        <Button asChild size="sm" variant="outline">
+                          <a
+                            href={`/api/backups/download?${new URLSearchParams({ id: backup.id })}`}
+                            download
+                          >
+                            Download
+                          </a>
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() =>
-                          void setModState(mod.filename, !mod.disabled)
+                        onClick={() => void verifyBackup(backup, "verify")}
+                        disabled={
+                          verifyingBackupId !== null || !can("backups.create")
                         }
                       >
-                        {mod.disabled ? "Enable" : "Disable"}
+                        {verifyingBackupId === backup.id ? "Verifying..." : "Verify"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void verifyBackup(backup, "test-restore")}
+                        disabled={
+                          verifyingBackupId !== null || !can("backups.create")
+                        }
+                      >
+                        Test restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void browseBackup(backup)}
+                        disabled={busy || !can("backups.restore")}
+                      >
+                        Browse
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void restoreBackup(backup.id)}
+                        disabled={busy || !can("backups.restore")}
+                      >
+                        Restore
                       </Button>
                       <Button
                         size="sm"
                         variant="destructive"
-                        onClick={() => void deleteMod(mod.filename)}
+                        onClick={() => void deleteBackup(backup.id)}
+                        disabled={!can("backups.delete")}
                       >
                         Delete
                       </Button>
@@ -1953,99 +6558,526 @@ export function App() {
                   </li>
                 ))}
               </ul>
+
+              {backupBrowser && (
+                <div className="space-y-2 rounded-none border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium">
+                      Contents of {backupBrowser.name} (
+                      {formatBytes(backupBrowser.totalBytes)})
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setBackupBrowser(null)}
+                    >
+                      Close
+                    </Button>
+                  </div>
+                  {backupBrowser.truncated && (
+                    <p className="text-xs text-muted-foreground">
+                      Showing the first {backupBrowser.files.length} files.
+                    </p>
+                  )}
+                  <ul className="max-h-80 overflow-auto">
+                    {renderBackupTreeNodes(backupTree, 0)}
+                  </ul>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <NativeSelect
+                      value={backupRestoreTarget}
+                      onChange={(event) =>
+                        setBackupRestoreTarget(
+                          event.target.value as "live" | "side",
+                        )
+                      }
+                    >
+                      <NativeSelectOption value="live">
+                        Live server (server must be stopped)
+                      </NativeSelectOption>
+                      <NativeSelectOption value="side">
+                        Side directory for inspection
+                      </NativeSelectOption>
+                    </NativeSelect>
+                    <Button
+                      size="sm"
+                      onClick={() => void restoreBackupSelection()}
+                      disabled={
+                        busy ||
+                        backupBrowserSelected.length === 0 ||
+                        !can("backups.restore")
+                      }
+                    >
+                      Restore selected ({backupBrowserSelected.length})
+                    </Button>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
           <Card className="xl:col-span-6">
             <CardHeader>
-              <CardTitle>Whitelist</CardTitle>
+              <CardTitle>Offsite backup targets</CardTitle>
               <CardDescription>
-                Manage allowed players by UUID or username.
+                Manual (ZIP) and native backups are copied to every enabled
+                target after they are created.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
-              <label className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm">
-                <span>Whitelist enabled</span>
-                <input
-                  type="checkbox"
-                  checked={whitelist?.enabled ?? false}
-                  onChange={(event) =>
-                    void updateWhitelistEnabled(event.target.checked)
-                  }
-                  disabled={busy || user.role !== "owner"}
-                />
-              </label>
-
-              <form
-                onSubmit={addWhitelistEntry}
-                className="flex flex-wrap items-center gap-2"
-              >
-                <Input
-                  type="text"
-                  value={whitelistInput}
-                  onChange={(event) => setWhitelistInput(event.target.value)}
-                  placeholder="username or uuid"
-                  disabled={busy || user.role !== "owner"}
-                />
-                <Button
-                  type="submit"
-                  size="sm"
-                  disabled={busy || user.role !== "owner"}
-                >
-                  Add
-                </Button>
+              <div className="flex flex-wrap gap-2">
                 <Button
-                  type="button"
                   size="sm"
                   variant="secondary"
-                  onClick={() => void refreshWhitelist()}
-                  disabled={busy}
+                  onClick={() => void syncBackupTargets()}
+                  disabled={
+                    busy || backupTargets.length === 0 || !can("backups.create")
+                  }
                 >
-                  Refresh
+                  Sync now
                 </Button>
-              </form>
+              </div>
 
-              <p className="text-xs text-muted-foreground">
-                UUIDs are stored in <code>whitelist.json</code>. Username
-                labels are resolved from local player data, cached lookups, or
-                remote lookup.
-              </p>
+              <ul className="max-h-80 space-y-2 overflow-auto">
+                {backupTargets.map((target) => (
+                  <li key={target.id} className="space-y-2 rounded-none border p-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="flex items-center gap-2 font-medium">
+                          {target.name}
+                          <Badge variant="outline">
+                            {target.kind === "s3" ? "S3" : "Directory"}
+                          </Badge>
+                          {!target.enabled && (
+                            <Badge variant="secondary">Disabled</Badge>
+                          )}
+                        </p>
+                        <p className="truncate text-sm text-muted-foreground">
+                          {target.kind === "s3"
+                            ? `${target.endpoint}/${target.bucket}/${target.prefix ?? ""}`
+                            : target.path}{" "}
+                          | keep{" "}
+                          {target.keepLast > 0 ? `last ${target.keepLast}` : "all"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {target.lastSyncAt
+                            ? `Last sync ${formatDate(target.lastSyncAt)}`
+                            : "Not synced yet"}
+                        </p>
+                        {target.lastError && (
+                          <p className="text-xs text-destructive">
+                            {target.lastError}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void browseRemoteBackups(target)}
+                          disabled={busy || !can("backups.restore")}
+                        >
+                          Browse
+                        </Button>
+                        {can("backups.offsite") && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => void testBackupTarget(target)}
+                              disabled={busy}
+                            >
+                              Test
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => editBackupTarget(target)}
+                              disabled={busy}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => void deleteBackupTarget(target)}
+                              disabled={busy}
+                            >
+                              Remove
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+                {backupTargets.length === 0 && (
+                  <li className="text-sm text-muted-foreground">
+                    No offsite targets configured.
+                  </li>
+                )}
+              </ul>
+
+              {remoteBackups && (
+                <div className="space-y-2 rounded-none border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium">
+                      Backups on {remoteBackups.target.name}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRemoteBackups(null)}
+                    >
+                      Close
+                    </Button>
+                  </div>
+                  <ul className="max-h-60 space-y-1 overflow-auto">
+                    {remoteBackups.entries.map((entry) => (
+                      <li
+                        key={entry.id}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <span>
+                          {entry.name} | {entry.source} |{" "}
+                          {formatBytes(entry.size)} | {formatDate(entry.createdAt)}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            void restoreRemoteBackup(remoteBackups.target, entry)
+                          }
+                          disabled={busy || !can("backups.restore")}
+                        >
+                          Restore
+                        </Button>
+                      </li>
+                    ))}
+                    {remoteBackups.entries.length === 0 && (
+                      <li className="text-sm text-muted-foreground">
+                        No backups on this target yet.
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {can("backups.offsite") && (
+                <form onSubmit={saveBackupTarget} className="space-y-2">
+                  <Separator />
+                  <p className="text-sm font-medium">
+                    {targetEditorId === null ? "Add target" : "Edit target"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      type="text"
+                      value={targetNameInput}
+                      onChange={(event) => setTargetNameInput(event.target.value)}
+                      placeholder="Name"
+                      className="flex-1"
+                    />
+                    <NativeSelect
+                      value={targetKindInput}
+                      onChange={(event) =>
+                        setTargetKindInput(event.target.value as BackupTargetKind)
+                      }
+                      disabled={targetEditorId !== null}
+                    >
+                      <NativeSelectOption value="s3">
+                        S3-compatible
+                      </NativeSelectOption>
+                      <NativeSelectOption value="directory">
+                        Mirror directory
+                      </NativeSelectOption>
+                    </NativeSelect>
+                  </div>
+                  {targetKindInput === "s3" ? (
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      <Input
+                        type="url"
+                        value={targetEndpointInput}
+                        onChange={(event) =>
+                          setTargetEndpointInput(event.target.value)
+                        }
+                        placeholder="Endpoint (http://127.0.0.1:9000)"
+                      />
+                      <Input
+                        type="text"
+                        value={targetRegionInput}
+                        onChange={(event) =>
+                          setTargetRegionInput(event.target.value)
+                        }
+                        placeholder="Region"
+                      />
+                      <Input
+                        type="text"
+                        value={targetBucketInput}
+                        onChange={(event) =>
+                          setTargetBucketInput(event.target.value)
+                        }
+                        placeholder="Bucket"
+                      />
+                      <Input
+                        type="text"
+                        value={targetPrefixInput}
+                        onChange={(event) =>
+                          setTargetPrefixInput(event.target.value)
+                        }
+                        placeholder="Prefix (optional)"
+                      />
+                      <Input
+                        type="text"
+                        value={targetAccessKeyIdInput}
+                        onChange={(event) =>
+                          setTargetAccessKeyIdInput(event.target.value)
+                        }
+                        placeholder={
+                          targetEditorId === null
+                            ? "Access key id"
+                            : "Access key id (unchanged)"
+                        }
+                        autoComplete="off"
+                      />
+                      <Input
+                        type="password"
+                        value={targetSecretInput}
+                        onChange={(event) =>
+                          setTargetSecretInput(event.target.value)
+                        }
+                        placeholder={
+                          targetEditorId === null
+                            ? "Secret access key"
+                            : "Secret access key (unchanged)"
+                        }
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  ) : (
+                    <Input
+                      type="text"
+                      value={targetPathInput}
+                      onChange={(event) => setTargetPathInput(event.target.value)}
+                      placeholder="Absolute path on another disk or mount"
+                    />
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="backup-target-keep-last" className="text-sm">
+                      Copies to keep per type (0 = all)
+                    </Label>
+                    <Input
+                      id="backup-target-keep-last"
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={targetKeepLastInput}
+                      onChange={(event) =>
+                        setTargetKeepLastInput(event.target.value)
+                      }
+                      className="w-24"
+                    />
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={targetEnabledInput}
+                        onChange={(event) =>
+                          setTargetEnabledInput(event.target.checked)
+                        }
+                      />
+                      Enabled
+                    </label>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="submit"
+                      size="sm"
+                      disabled={busy || !targetNameInput.trim()}
+                    >
+                      {targetEditorId === null ? "Add target" : "Save target"}
+                    </Button>
+                    {targetEditorId !== null && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => editBackupTarget(null)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>Scheduled tasks</CardTitle>
+              <CardDescription>
+                Cron expressions use server local time (minute hour
+                day-of-month month day-of-week, or @daily / @hourly).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {can("schedules.manage") && (
+                <form onSubmit={createSchedule} className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      type="text"
+                      value={scheduleNameInput}
+                      onChange={(event) =>
+                        setScheduleNameInput(event.target.value)
+                      }
+                      placeholder="Name (e.g. Nightly restart)"
+                      className="flex-1"
+                      disabled={busy}
+                    />
+                    <Input
+                      type="text"
+                      value={scheduleCronInput}
+                      onChange={(event) =>
+                        setScheduleCronInput(event.target.value)
+                      }
+                      placeholder="0 4 * * *"
+                      className="w-40 font-mono"
+                      disabled={busy}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <NativeSelect
+                      value={scheduleActionInput}
+                      onChange={(event) =>
+                        setScheduleActionInput(
+                          event.target.value as ScheduledJobAction,
+                        )
+                      }
+                      disabled={busy}
+                    >
+                      {(
+                        Object.keys(
+                          SCHEDULED_JOB_ACTION_LABELS,
+                        ) as ScheduledJobAction[]
+                      ).map((action) => (
+                        <NativeSelectOption key={action} value={action}>
+                          {SCHEDULED_JOB_ACTION_LABELS[action]}
+                        </NativeSelectOption>
+                      ))}
+                    </NativeSelect>
+                    {scheduleActionInput === "command" && (
+                      <Input
+                        type="text"
+                        value={scheduleCommandInput}
+                        onChange={(event) =>
+                          setScheduleCommandInput(event.target.value)
+                        }
+                        placeholder="/say Hello"
+                        className="flex-1"
+                        disabled={busy}
+                      />
+                    )}
+                    <Button type="submit" size="sm" disabled={busy}>
+                      Add task
+                    </Button>
+                  </div>
+                </form>
+              )}
 
               <ul className="max-h-80 space-y-2 overflow-auto">
-                {(whitelist?.entries ?? []).map((entry) => (
+                {scheduler.jobs.map((job) => (
                   <li
-                    key={entry.uuid}
+                    key={job.id}
                     className="flex items-center justify-between gap-3 rounded-none border p-3"
                   >
                     <div className="min-w-0">
-                      <p className="truncate font-medium">
-                        {entry.username ?? "Unknown player"}
+                      <p className="flex flex-wrap items-center gap-2 font-medium">
+                        {job.name}
+                        {!job.enabled && (
+                          <Badge variant="outline">Disabled</Badge>
+                        )}
+                        {job.running && <Badge>Running</Badge>}
                       </p>
-                      <p className="truncate text-xs text-muted-foreground">
-                        {entry.uuid}
+                      <p className="text-sm text-muted-foreground">
+                        <span className="font-mono">{job.cron}</span> |{" "}
+                        {SCHEDULED_JOB_ACTION_LABELS[job.action]}
+                        {job.payload.command ? `: ${job.payload.command}` : ""}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {formatWhitelistSource(entry.source)}
-                        {entry.lastSeenAt
-                          ? ` | Updated ${formatDate(entry.lastSeenAt)}`
-                          : ""}
+                        Next: {job.enabled ? formatDate(job.nextRunAt) : "-"} |
+                        Last: {formatDate(job.lastRunAt)}
+                        {job.lastStatus ? ` (${job.lastStatus})` : ""}
                       </p>
+                      {job.lastMessage && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          {job.lastMessage}
+                        </p>
+                      )}
                     </div>
-                    {user.role === "owner" && (
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => void removeWhitelistEntry(entry.uuid)}
-                        disabled={busy}
-                      >
-                        Remove
-                      </Button>
+                    {can("schedules.manage") && (
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void runScheduleNow(job)}
+                          disabled={busy || job.running}
+                        >
+                          Run now
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void toggleSchedule(job)}
+                          disabled={busy}
+                        >
+                          {job.enabled ? "Disable" : "Enable"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => void deleteSchedule(job)}
+                          disabled={busy}
+                        >
+                          Delete
+                        </Button>
+                      </div>
                     )}
                   </li>
                 ))}
-                {(whitelist?.entries.length ?? 0) === 0 && (
+                {scheduler.jobs.length === 0 && (
                   <li className="rounded-none border p-3 text-sm text-muted-foreground">
-                    No players in whitelist.
+                    No scheduled tasks yet.
+                  </li>
+                )}
+              </ul>
+
+              <Separator />
+              <h3 className="text-sm font-semibold">Run history</h3>
+              <ul className="max-h-64 space-y-2 overflow-auto">
+                {scheduler.runs.map((run) => (
+                  <li
+                    key={run.id}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {run.jobName}
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          ({run.trigger})
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(run.startedAt)}
+                        {run.message ? ` | ${run.message}` : ""}
+                      </p>
+                    </div>
+                    <Badge variant={scheduledRunBadgeVariant(run.status)}>
+                      {run.status}
+                    </Badge>
+                  </li>
+                ))}
+                {scheduler.runs.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No runs recorded yet.
                   </li>
                 )}
               </ul>
@@ -2054,85 +7086,296 @@ export function App() {
 
           <Card className="xl:col-span-6">
             <CardHeader>
-              <CardTitle>Backups</CardTitle>
+              <CardTitle>Players</CardTitle>
+              <CardDescription>
+                Online roster and session history, tracked from join and leave
+                lines in the server console.
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div className="space-y-2">
-                <Label htmlFor="backup-note">Note</Label>
-                <Input
-                  id="backup-note"
-                  type="text"
-                  value={backupNote}
-                  onChange={(event) => setBackupNote(event.target.value)}
-                  placeholder="Manual snapshot note (optional)"
-                />
-              </div>
-
-              <div className="flex flex-wrap gap-2">
-                <Button
-                  size="sm"
-                  onClick={() => void createBackup()}
-                  disabled={busy}
-                >
-                  Create manual backup
-                </Button>
-                <Button
-                  size="sm"
-                  variant="secondary"
-                  onClick={() => void refreshBackups()}
-                  disabled={busy}
-                >
-                  Refresh backups
-                </Button>
-              </div>
-
-              <ul className="max-h-80 space-y-2 overflow-auto">
-                {backups.map((backup) => (
+              <p className="text-sm font-medium">
+                Online now ({onlinePlayers.length})
+              </p>
+              <ul className="space-y-2">
+                {onlinePlayers.map((player) => (
                   <li
-                    key={backup.id}
+                    key={player.uuid ?? player.username}
                     className="flex items-center justify-between gap-3 rounded-none border p-3"
                   >
                     <div>
-                      <p className="font-medium">{backup.name}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {formatDate(backup.createdAt)} |{" "}
-                        {backup.source === "native"
-                          ? backup.archived
-                            ? "Archive"
-                            : "Active"
-                          : "Manual"}{" "}
-                        | {formatBytes(backup.size)}
+                      <p className="font-medium">{player.username}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {player.uuid ?? "UUID unknown"}
                       </p>
-                      {backup.note && (
-                        <p className="text-sm text-muted-foreground">
-                          {backup.note}
-                        </p>
-                      )}
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm text-muted-foreground">
+                        Joined {formatDate(player.joinedAt)}
+                      </p>
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => void restoreBackup(backup.id)}
+                        onClick={() => void kickPlayer(player.username)}
                         disabled={busy}
                       >
-                        Restore
+                        Kick
                       </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={() => void deleteBackup(backup.id)}
+                    </div>
+                  </li>
+                ))}
+                {onlinePlayers.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No players online.
+                  </li>
+                )}
+              </ul>
+              <p className="text-sm font-medium">Recent sessions</p>
+              <ul className="max-h-72 space-y-2 overflow-auto">
+                {playerSessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="flex items-center justify-between gap-3 rounded-none border p-3"
+                  >
+                    <div>
+                      <p className="font-medium">{session.username}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(session.joinedAt)} -{" "}
+                        {session.leftAt ? formatDate(session.leftAt) : "now"}
+                      </p>
+                    </div>
+                    <Badge variant={session.leftAt ? "outline" : "secondary"}>
+                      {session.leftAt
+                        ? formatDuration(session.durationSeconds)
+                        : "Online"}
+                    </Badge>
+                  </li>
+                ))}
+                {playerSessions.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No sessions recorded yet.
+                  </li>
+                )}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-6">
+            <CardHeader>
+              <CardTitle>Crash history</CardTitle>
+              <CardDescription>
+                Unexpected server exits with the last terminal output before
+                each crash.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <ul className="max-h-96 space-y-2 overflow-auto">
+                {crashes.map((crash) => (
+                  <li key={crash.id} className="rounded-none border p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <p className="font-medium">
+                          {formatDate(crash.occurredAt)}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Exit code {crash.exitCode ?? "-"} | Uptime{" "}
+                          {Math.floor(crash.uptimeSeconds / 60)}m{" "}
+                          {crash.uptimeSeconds % 60}s | Crash #{crash.attempt}
+                        </p>
+                      </div>
+                      <Badge
+                        variant={
+                          crash.autoRestart === "gave_up"
+                            ? "destructive"
+                            : crash.autoRestart === "scheduled"
+                              ? "secondary"
+                              : "outline"
+                        }
                       >
-                        Delete
-                      </Button>
+                        {crash.autoRestart === "scheduled"
+                          ? "Auto-restarted"
+                          : crash.autoRestart === "gave_up"
+                            ? "Crash loop"
+                            : "No restart"}
+                      </Badge>
                     </div>
+                    {crash.terminalTail.length > 0 && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-sm text-muted-foreground">
+                          Last {crash.terminalTail.length} terminal lines
+                        </summary>
+                        <pre className="mt-2 max-h-64 overflow-auto rounded-none border bg-zinc-950 p-3 text-xs leading-relaxed text-zinc-100">
+                          {crash.terminalTail.join("\n")}
+                        </pre>
+                      </details>
+                    )}
                   </li>
                 ))}
+                {crashes.length === 0 && (
+                  <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                    No crashes recorded.
+                  </li>
+                )}
               </ul>
             </CardContent>
           </Card>
 
-          {user.role === "owner" && (
+          {can("users.manage") && (
+            <Card className="xl:col-span-6">
+              <CardHeader>
+                <CardTitle>Users & roles</CardTitle>
+                <CardDescription>
+                  Assign roles to users and choose which permissions each role
+                  grants. Owners always have every permission.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ul className="max-h-60 space-y-2 overflow-auto">
+                  {users.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="flex items-center justify-between gap-3 rounded-none border p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{entry.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Joined {formatDate(entry.createdAt)}
+                        </p>
+                      </div>
+                      <NativeSelect
+                        value={roleSelectValue(entry, roles)}
+                        onChange={(event) =>
+                          void assignUserRole(entry, event.target.value)
+                        }
+                        disabled={busy || entry.id === user.id}
+                      >
+                        {roles.map((role) => (
+                          <NativeSelectOption
+                            key={role.id}
+                            value={String(role.id)}
+                          >
+                            {role.name}
+                          </NativeSelectOption>
+                        ))}
+                        {(user.role === "owner" || entry.role === "owner") && (
+                          <NativeSelectOption value="owner">
+                            Owner
+                          </NativeSelectOption>
+                        )}
+                      </NativeSelect>
+                    </li>
+                  ))}
+                </ul>
+
+                <Separator />
+
+                <ul className="max-h-60 space-y-2 overflow-auto">
+                  {roles.map((role) => (
+                    <li
+                      key={role.id}
+                      className="flex items-center justify-between gap-3 rounded-none border p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">
+                          {role.name}
+                          {role.builtin ? " (built-in)" : ""}
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {role.permissions.join(", ") || "No permissions"}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => editRole(role)}
+                          disabled={busy}
+                        >
+                          Edit
+                        </Button>
+                        {!role.builtin && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => void deleteRole(role)}
+                            disabled={busy}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                <form onSubmit={saveRole} className="space-y-2">
+                  <p className="text-sm font-medium">
+                    {roleEditorId === null ? "New role" : "Edit role"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <Input
+                      type="text"
+                      value={roleNameInput}
+                      onChange={(event) => setRoleNameInput(event.target.value)}
+                      placeholder="Role name"
+                      disabled={busy}
+                    />
+                    <Input
+                      type="text"
+                      value={roleDescriptionInput}
+                      onChange={(event) =>
+                        setRoleDescriptionInput(event.target.value)
+                      }
+                      placeholder="Description"
+                      disabled={busy}
+                    />
+                  </div>
+                  <div className="grid gap-1 sm:grid-cols-2">
+                    {permissionCatalog.map((permission) => (
+                      <label
+                        key={permission.key}
+                        className="flex items-center justify-between gap-3 rounded-none border p-2 text-sm"
+                        title={permission.description}
+                      >
+                        <span>{permission.key}</span>
+                        <input
+                          type="checkbox"
+                          checked={rolePermissionsInput.includes(
+                            permission.key,
+                          )}
+                          onChange={(event) =>
+                            setRolePermissionsInput((prev) =>
+                              event.target.checked
+                                ? [...prev, permission.key]
+                                : prev.filter((key) => key !== permission.key),
+                            )
+                          }
+                          disabled={busy || !can(permission.key)}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm" disabled={busy}>
+                      {roleEditorId === null ? "Create role" : "Save role"}
+                    </Button>
+                    {roleEditorId !== null && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => editRole(null)}
+                        disabled={busy}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          {can("users.manage") && (
             <Card className="xl:col-span-6">
               <CardHeader>
                 <CardTitle>Invites</CardTitle>
@@ -2145,6 +7388,26 @@ export function App() {
                     onChange={(event) => setInviteEmail(event.target.value)}
                     placeholder="friend@example.com"
                   />
+                  <NativeSelect
+                    value={
+                      inviteRoleInput ||
+                      roleSelectValue(
+                        { ...user, role: "member", roleId: null },
+                        roles,
+                      )
+                    }
+                    onChange={(event) => setInviteRoleInput(event.target.value)}
+                    disabled={busy}
+                  >
+                    {roles.map((role) => (
+                      <NativeSelectOption key={role.id} value={String(role.id)}>
+                        {role.name}
+                      </NativeSelectOption>
+                    ))}
+                    {user.role === "owner" && (
+                      <NativeSelectOption value="owner">Owner</NativeSelectOption>
+                    )}
+                  </NativeSelect>
                   <Button onClick={() => void createInvite()} disabled={busy}>
                     Invite
                   </Button>
@@ -2170,7 +7433,8 @@ export function App() {
                         <p className="text-sm text-muted-foreground">
                           {invite.acceptedAt
                             ? `Accepted ${formatDate(invite.acceptedAt)}`
-                            : `Expires ${formatDate(invite.expiresAt)}`}
+                            : `Expires ${formatDate(invite.expiresAt)}`}{" "}
+                          | {formatUserRole({ ...user, ...invite }, roles)}
                         </p>
                       </div>
                       <Button
@@ -2186,6 +7450,141 @@ export function App() {
               </CardContent>
             </Card>
           )}
+
+          {user.role === "owner" && (
+            <Card className="xl:col-span-12">
+              <CardHeader>
+                <CardTitle>Audit log</CardTitle>
+                <CardDescription>
+                  Every dashboard command and sign-in attempt, newest first.
+                  Entries cannot be edited or deleted.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <form
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    void loadAuditEvents(false);
+                  }}
+                  className="flex flex-wrap items-end gap-2"
+                >
+                  <Input
+                    type="text"
+                    value={auditUserFilter}
+                    onChange={(event) => setAuditUserFilter(event.target.value)}
+                    placeholder="User email"
+                    className="w-48"
+                  />
+                  <Input
+                    type="text"
+                    value={auditActionFilter}
+                    onChange={(event) =>
+                      setAuditActionFilter(event.target.value)
+                    }
+                    placeholder="Action (e.g. backup.)"
+                    className="w-48"
+                  />
+                  <NativeSelect
+                    value={auditResultFilter}
+                    onChange={(event) =>
+                      setAuditResultFilter(event.target.value)
+                    }
+                  >
+                    <NativeSelectOption value="">Any result</NativeSelectOption>
+                    <NativeSelectOption value="success">Success</NativeSelectOption>
+                    <NativeSelectOption value="failure">Failure</NativeSelectOption>
+                  </NativeSelect>
+                  <div className="space-y-1">
+                    <Label htmlFor="audit-from">From</Label>
+                    <Input
+                      id="audit-from"
+                      type="datetime-local"
+                      value={auditFromFilter}
+                      onChange={(event) =>
+                        setAuditFromFilter(event.target.value)
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="audit-to">To</Label>
+                    <Input
+                      id="audit-to"
+                      type="datetime-local"
+                      value={auditToFilter}
+                      onChange={(event) => setAuditToFilter(event.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" size="sm" disabled={busy}>
+                    Apply
+                  </Button>
+                  <Button asChild size="sm" variant="outline">
+                    <a href={auditExportUrl("csv")} download>
+                      Export CSV
+                    </a>
+                  </Button>
+                  <Button asChild size="sm" variant="outline">
+                    <a href={auditExportUrl("json")} download>
+                      Export JSON
+                    </a>
+                  </Button>
+                </form>
+
+                <ul className="max-h-96 space-y-2 overflow-auto">
+                  {auditEvents.map((entry) => (
+                    <li key={entry.id} className="rounded-none border p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">
+                            {entry.action}
+                          </p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {formatDate(entry.occurredAt)} |{" "}
+                            {entry.userEmail ?? "anonymous"}
+                            {entry.ip ? ` | ${entry.ip}` : ""}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={
+                            entry.result === "success"
+                              ? "secondary"
+                              : "destructive"
+                          }
+                        >
+                          {entry.result} ({entry.status})
+                        </Badge>
+                      </div>
+                      {entry.error && (
+                        <p className="mt-1 text-xs text-destructive">
+                          {entry.error}
+                        </p>
+                      )}
+                      {entry.payload && (
+                        <code className="mt-1 block break-all text-xs text-muted-foreground">
+                          {entry.payload}
+                        </code>
+                      )}
+                    </li>
+                  ))}
+                  {auditEvents.length === 0 && (
+                    <li className="rounded-none border p-3 text-sm text-muted-foreground">
+                      No audit events match these filters.
+                    </li>
+                  )}
+                </ul>
+
+                {auditHasMore && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => void loadAuditEvents(true)}
+                    disabled={busy}
+                  >
+                    Load older entries
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </section>
 
         {status && (
@@ -4,9 +4,38 @@ export type User = {
   id: number;
   email: string;
   role: UserRole;
+  roleId: number | null;
   createdAt: string;
 };
 
+export type Role = {
+  id: number;
+  name: string;
+  description: string;
+  permissions: string[];
+  builtin: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AuditEvent = {
+  id: number;
+  occurredAt: string;
+  userId: number | null;
+  userEmail: string | null;
+  action: string;
+  payload: string | null;
+  result: "success" | "failure";
+  status: number;
+  error: string | null;
+  ip: string | null;
+};
+
+export type PermissionInfo = {
+  key: string;
+  description: string;
+};
+
 export type ServerMetricPoint = {
   timestamp: string;
   cpuPercent: number;
@@ -16,6 +45,75 @@ export type ServerMetricPoint = {
   networkTxBytesPerSec: number | null;
 };
 
+export type ShutdownCountdown = {
+  reason: "stop" | "restart" | "update";
+  startedAt: string;
+  endsAt: string;
+};
+
+export type PendingAutoRestart = {
+  attempt: number;
+  restartAt: string;
+};
+
+export type ServerCrash = {
+  id: number;
+  exitCode: number | null;
+  occurredAt: string;
+  uptimeSeconds: number;
+  attempt: number;
+  autoRestart: "disabled" | "scheduled" | "gave_up";
+  restartAt: string | null;
+  terminalTail: string[];
+};
+
+export type OnlinePlayer = {
+  uuid: string | null;
+  username: string;
+  joinedAt: string;
+  sessionSeconds: number;
+};
+
+export type PlayerSession = {
+  id: number;
+  uuid: string | null;
+  username: string;
+  joinedAt: string;
+  leftAt: string | null;
+  durationSeconds: number | null;
+};
+
+export type BanEntry = {
+  uuid: string;
+  username: string | null;
+  reason: string | null;
+  bannedBy: string | null;
+  bannedAt: string | null;
+  expiresAt: string | null;
+};
+
+export type OperatorEntry = {
+  uuid: string;
+  username: string | null;
+};
+
+export type PermissionUserEntry = {
+  uuid: string;
+  username: string | null;
+  groups: string[];
+  permissions: string[];
+};
+
+export type ModerationState = {
+  bans: BanEntry[];
+  ops: OperatorEntry[];
+  permissions: {
+    groups: Record<string, string[]>;
+    users: PermissionUserEntry[];
+  };
+  error?: string;
+};
+
 export type ServerState = {
   status: "stopped" | "starting" | "running" | "stopping" | "installing";
   startedAt: string | null;
@@ -25,8 +123,12 @@ export type ServerState = {
   lifecycleReady: boolean;
   installedVersion: string | null;
   latestVersion: string | null;
+  pinnedVersion: string | null;
   updateAvailable: boolean;
   patchline: string;
+  installedPatchline: string | null;
+  patchlines: PatchlineStatus[];
+  staging: StagingState;
   command: string;
   serverDir: string;
   bindPort: number;
@@ -37,6 +139,42 @@ export type ServerState = {
   javaMinHeapMb: number;
   javaMaxHeapMb: number;
   javaExtraArgs: string;
+  shutdownWarningEnabled: boolean;
+  shutdownWarningIntervals: string;
+  shutdownWarningCommand: string;
+  shutdownCountdown: ShutdownCountdown | null;
+  autoRestartEnabled: boolean;
+  autoRestartMaxAttempts: number;
+  backupRetentionEnabled: boolean;
+  backupRetentionKeepLast: number;
+  backupRetentionKeepHourly: number;
+  backupRetentionKeepDaily: number;
+  backupRetentionKeepWeekly: number;
+  backupRetentionKeepMonthly: number;
+  backupRetentionMaxTotalMb: number;
+  lastBackupRetentionRun: BackupRetentionRun | null;
+  consistentBackupEnabled: boolean;
+  backupSaveOffCommand: string;
+  backupFlushCommand: string;
+  backupFlushConfirmPattern: string;
+  backupSaveOnCommand: string;
+  backupFlushTimeoutSeconds: number;
+  safetySnapshotsEnabled: boolean;
+  safetySnapshotKeep: number;
+  safetySnapshotMaxAgeHours: number;
+  serverVersionsKeep: number;
+  updateCheckEnabled: boolean;
+  updateCheckIntervalMinutes: number;
+  autoUpdateEnabled: boolean;
+  autoUpdateOnlyWhenEmpty: boolean;
+  autoUpdateWindow: string;
+  lastUpdateCheck: UpdateCheckResult | null;
+  lastAutoUpdate: AutoUpdateRun | null;
+  downloadCacheKeepVersions: number;
+  downloadCacheMaxSizeMb: number;
+  consecutiveCrashes: number;
+  pendingAutoRestart: PendingAutoRestart | null;
+  players: OnlinePlayer[];
   metricsSampling: boolean;
   metricsSampleIntervalMs: number;
   metricsHistoryLimit: number;
@@ -44,6 +182,32 @@ export type ServerState = {
   terminal: string[];
 };
 
+export type AvailableModUpdate = {
+  source: "curseforge" | "nexus";
+  modId: number;
+  modName: string;
+  fileName: string;
+  latestFileName: string | null;
+};
+
+export type UpdateCheckResult = {
+  checkedAt: string;
+  server: {
+    patchline: string;
+    installedVersion: string | null;
+    latestVersion: string;
+  } | null;
+  mods: AvailableModUpdate[];
+  errors: string[];
+};
+
+export type AutoUpdateRun = {
+  startedAt: string;
+  finishedAt: string | null;
+  ok: boolean | null;
+  message: string;
+};
+
 export type ModEntry = {
   filename: string;
   size: number;
@@ -64,6 +228,380 @@ export type BackupEntry = {
   source: "manual" | "native";
   format: "directory" | "zip";
   itemCount: number;
+  sha256: string | null;
+  pinned: boolean;
+  replicas: BackupReplica[];
+  consistency: "offline" | "flushed" | "live" | "imported" | null;
+  verification: BackupVerification | null;
+};
+
+export type BackupVerification = {
+  backupId: string;
+  status: "passed" | "failed";
+  mode: "verify" | "test-restore";
+  message: string;
+  checkedAt: string;
+};
+
+export type BackupImport = {
+  id: string;
+  filename: string;
+  size: number;
+  received: number;
+  sha256: string | null;
+  note: string;
+  createdAt: string;
+};
+
+export type ServerArchiveUpload = {
+  id: string;
+  filename: string;
+  size: number;
+  received: number;
+  sha256: string | null;
+  version: string;
+  patchline: string;
+  createdAt: string;
+};
+
+export type InstallVerification = {
+  checkedAt: string;
+  patchline: string;
+  version: string;
+  checked: number;
+  modified: string[];
+  missing: string[];
+  extra: string[];
+  ok: boolean;
+};
+
+export type InstallRepairResult = {
+  repaired: string[];
+  unrepaired: string[];
+  verification: InstallVerification;
+};
+
+export type DownloadCacheLabel = {
+  group: string;
+  name: string;
+  version: string;
+};
+
+export type DownloadCacheEntry = {
+  id: string;
+  key: string | null;
+  label: DownloadCacheLabel | null;
+  size: number;
+  createdAt: string;
+  lastUsedAt: string;
+  inUse: boolean;
+};
+
+export type PartialDownloadEntry = {
+  id: string;
+  key: string;
+  label: DownloadCacheLabel | null;
+  totalBytes: number;
+  received: number;
+  updatedAt: string;
+};
+
+export type DownloadCacheListing = {
+  entries: DownloadCacheEntry[];
+  partials: PartialDownloadEntry[];
+  totalBytes: number;
+};
+
+export type DownloadCachePruneResult = {
+  deleted: Array<{ id: string; name: string; size: number; reason: string }>;
+  partialsRemoved: number;
+  freedBytes: number;
+};
+
+export type OfflineInstallResult = {
+  installed: boolean;
+  patchline: string;
+  version: string;
+  updated: boolean;
+};
+
+export type SafetySnapshotItem = {
+  label: string;
+  target: string;
+  existed: boolean;
+  size: number;
+};
+
+export type SafetySnapshot = {
+  id: string;
+  operation: string;
+  summary: string;
+  actor: string | null;
+  createdAt: string;
+  items: SafetySnapshotItem[];
+  size: number;
+  serverVersion?: { id: string; version: string; replacedEntries: string[] } | null;
+};
+
+export type PatchlineStatus = {
+  patchline: string;
+  latestVersion: string | null;
+  selected: boolean;
+  installed: boolean;
+};
+
+export type StagingState = {
+  status: "stopped" | "creating" | "running" | "stopping";
+  install: {
+    patchline: string;
+    version: string;
+    port: number;
+    createdAt: string;
+    createdBy: string | null;
+    worldSource: "consistent" | "offline" | "live";
+  } | null;
+};
+
+export type ServerVersionEntry = {
+  id: string;
+  patchline: string;
+  version: string;
+  installedAt: string;
+  retainedAt: string;
+  entries: string[];
+  size: number;
+  active: boolean;
+  pinned: boolean;
+};
+
+export type BackupContentEntry = {
+  path: string;
+  size: number;
+};
+
+export type BackupContents = {
+  id: string;
+  name: string;
+  source: "manual" | "native";
+  files: BackupContentEntry[];
+  totalBytes: number;
+  truncated: boolean;
+};
+
+export type BackupTreeNode = {
+  name: string;
+  path: string;
+  size: number;
+  children: BackupTreeNode[] | null;
+};
+
+export type BackupReplica = {
+  targetId: number;
+  targetName: string;
+  status: "uploading" | "uploaded" | "failed";
+  error: string | null;
+  updatedAt: string;
+};
+
+export type BackupTargetKind = "s3" | "directory";
+
+export type BackupTargetEntry = {
+  id: number;
+  name: string;
+  kind: BackupTargetKind;
+  enabled: boolean;
+  keepLast: number;
+  endpoint: string | null;
+  region: string | null;
+  bucket: string | null;
+  prefix: string | null;
+  path: string | null;
+  hasCredentials: boolean;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RemoteBackupEntry = {
+  id: string;
+  source: "manual" | "native";
+  name: string;
+  size: number;
+  createdAt: string;
+  modifiedAt: string;
+};
+
+export type BackupRetentionRun = {
+  ranAt: string;
+  trigger: string;
+  deleted: Array<{ name: string; reason: string }>;
+  kept: number;
+  totalBytes: number;
+};
+
+export type CurseForgeSearchSort =
+  | "popularity"
+  | "lastUpdated"
+  | "name"
+  | "author"
+  | "totalDownloads";
+
+export type CurseForgeStatus = {
+  configured: boolean;
+  source: "env" | "dashboard" | null;
+  gameId: number | null;
+  classId: number;
+};
+
+export type CurseForgeSearchMod = {
+  id: number;
+  name: string;
+  summary: string;
+  authors: string[];
+  downloadCount: number;
+  dateModified: string;
+  dateReleased: string;
+  logoUrl: string | null;
+  websiteUrl: string | null;
+};
+
+export type CurseForgeSearchResult = {
+  mods: CurseForgeSearchMod[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  sort: CurseForgeSearchSort;
+  query: string;
+};
+
+export type CurseForgeInstalledMod = {
+  modId: number;
+  modName: string;
+  authorNames: string[];
+  fileId: number;
+  fileName: string;
+  localFilename: string;
+  installedAt: string;
+  dateModified: string;
+  websiteUrl: string | null;
+  updateAvailable: boolean;
+  latestFileId: number | null;
+  latestFileName: string | null;
+  localFileMissing: boolean;
+};
+
+export type NexusStatus = {
+  configured: boolean;
+  source: "env" | "dashboard" | null;
+  gameDomain: string | null;
+  userName: string | null;
+  premium: boolean;
+  ssoAvailable: boolean;
+  ssoPending: boolean;
+};
+
+export type NexusSsoSession = {
+  id: string;
+  url: string;
+  expiresAt: string;
+};
+
+export type NexusSearchSort =
+  | "popularity"
+  | "downloads"
+  | "lastUpdated"
+  | "name";
+
+export type NexusSearchMod = {
+  modId: number;
+  uid: string;
+  name: string;
+  summary: string;
+  author: string;
+  downloads: number;
+  endorsements: number;
+  updatedAt: string;
+  createdAt: string;
+  thumbnailUrl: string | null;
+  version: string;
+};
+
+export type NexusSearchResult = {
+  mods: NexusSearchMod[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  sort: NexusSearchSort;
+  query: string;
+};
+
+export type NexusInstalledMod = {
+  modId: number;
+  modUid: string;
+  modName: string;
+  author: string;
+  fileId: number;
+  fileUid: string;
+  fileName: string;
+  fileVersion: string;
+  localFilename: string;
+  installedAt: string;
+  updatedAt: string;
+  pageUrl: string;
+  updateAvailable: boolean;
+  latestFileId: number | null;
+  latestFileName: string | null;
+  localFileMissing: boolean;
+};
+
+export type ScheduledJobAction =
+  | "restart"
+  | "backup"
+  | "backup.testRestore"
+  | "command"
+  | "mods.updateAll"
+  | "server.update";
+
+export type ScheduledJobRunStatus = "running" | "success" | "failed" | "skipped";
+
+export type ScheduledJobPayload = {
+  command?: string;
+  note?: string;
+};
+
+export type ScheduledJobEntry = {
+  id: number;
+  name: string;
+  cron: string;
+  action: ScheduledJobAction;
+  payload: ScheduledJobPayload;
+  enabled: boolean;
+  running: boolean;
+  lastRunAt: string | null;
+  lastStatus: ScheduledJobRunStatus | null;
+  lastMessage: string | null;
+  nextRunAt: string | null;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScheduledJobRun = {
+  id: number;
+  jobId: number;
+  jobName: string;
+  action: ScheduledJobAction;
+  trigger: "schedule" | "manual";
+  status: ScheduledJobRunStatus;
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type SchedulerState = {
+  jobs: ScheduledJobEntry[];
+  runs: ScheduledJobRun[];
 };
 
 export type LogFileSummary = {
@@ -88,6 +626,7 @@ export type InviteSummary = {
   id: number;
   email: string;
   role: UserRole;
+  roleId: number | null;
   expiresAt: string;
   acceptedAt: string | null;
   createdAt: string;
@@ -98,9 +637,25 @@ export type BootstrapPayload = {
   serverState: ServerState;
   mods: ModEntry[];
   backups: BackupEntry[];
+  backupTargets: BackupTargetEntry[];
+  safetySnapshots: SafetySnapshot[];
+  serverVersions: ServerVersionEntry[];
   logs: LogFileSummary[];
   whitelist: WhitelistState;
+  curseForge: CurseForgeStatus;
+  curseForgeInstalled: CurseForgeInstalledMod[];
+  nexus: NexusStatus;
+  nexusInstalled: NexusInstalledMod[];
+  scheduler: SchedulerState;
+  crashes: ServerCrash[];
+  playerSessions: PlayerSession[];
+  moderation: ModerationState;
+  permissions: string[];
+  permissionCatalog: PermissionInfo[];
+  roles: Role[];
+  users: User[];
   invites: InviteSummary[];
+  auditEvents: AuditEvent[];
 };
 
 export type AckMessage = {
@@ -59,6 +59,7 @@ export const config = {
     dataDir,
     dbPath: path.join(dataDir, "app.sqlite"),
     uploadsDir,
+    maxUploadBytes: Number(Bun.env.MAX_UPLOAD_MB ?? 20_480) * 1024 * 1024,
     backupsDir,
     toolsDir,
   },
@@ -106,7 +107,20 @@ export const config = {
     downloaderExtractTimeoutMs: Number(Bun.env.HYTALE_DOWNLOADER_EXTRACT_TIMEOUT_MS ?? 1_800_000),
     oauthDevicePollTimeoutMs: Number(Bun.env.HYTALE_OAUTH_DEVICE_POLL_TIMEOUT_MS ?? 600_000),
     defaultPatchline: Bun.env.HYTALE_PATCHLINE ?? "release",
+    installArchivePath: Bun.env.HYTALE_INSTALL_ARCHIVE ? resolveFromCwd(Bun.env.HYTALE_INSTALL_ARCHIVE) : "",
+    installArchiveVersion: Bun.env.HYTALE_INSTALL_ARCHIVE_VERSION ?? "",
+    installArchiveSha256: Bun.env.HYTALE_INSTALL_ARCHIVE_SHA256 ?? "",
+    installArchivePatchline: Bun.env.HYTALE_INSTALL_ARCHIVE_PATCHLINE ?? "",
     startupTimeoutMs: Number(Bun.env.HYTALE_STARTUP_TIMEOUT_MS ?? 120_000),
+    readyPattern: Bun.env.HYTALE_READY_PATTERN ?? "Hytale Server Booted",
+    // The defaults require "<name> (<uuid>)" before the verb so unrelated lines such as "Successfully connected"
+    // are not taken for players.
+    playerJoinPattern:
+      Bun.env.HYTALE_PLAYER_JOIN_PATTERN ??
+      String.raw`(?:Player\s+)?'?\b(?<name>[A-Za-z0-9_]{2,32})'?\s*\((?<uuid>[0-9a-fA-F]{8}-?(?:[0-9a-fA-F]{4}-?){3}[0-9a-fA-F]{12})\)\s*(?:has\s+)?(?:joined|connected)\b`,
+    playerLeavePattern:
+      Bun.env.HYTALE_PLAYER_LEAVE_PATTERN ??
+      String.raw`(?:Player\s+)?'?\b(?<name>[A-Za-z0-9_]{2,32})'?\s*\((?<uuid>[0-9a-fA-F]{8}-?(?:[0-9a-fA-F]{4}-?){3}[0-9a-fA-F]{12})\)\s*(?:has\s+)?(?:left|disconnected)\b`,
     shutdownTimeoutMs: Number(Bun.env.HYTALE_SHUTDOWN_TIMEOUT_MS ?? 15_000),
     terminalBufferLines: Number(Bun.env.TERMINAL_BUFFER_LINES ?? 4_000),
     metricsSampleIntervalMs: Number(Bun.env.HYTALE_METRICS_SAMPLE_INTERVAL_MS ?? 2_000),
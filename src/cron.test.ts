@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+import { AppError } from "./utils";
+
+describe("parseCronExpression", () => {
+  test("parses lists, ranges, steps and names", () => {
+    const schedule = parseCronExpression("0,30 9-17/4 1 jan-mar mon-fri");
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("treats a single value with a step as running to the end of the field", () => {
+    expect([...parseCronExpression("50/5 * * * *").minutes]).toEqual([50, 55]);
+  });
+
+  test("maps day of week 7 to Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  test("expands aliases", () => {
+    const schedule = parseCronExpression("@daily");
+    expect([...schedule.minutes]).toEqual([0]);
+    expect([...schedule.hours]).toEqual([0]);
+    expect(schedule.dayOfMonthRestricted).toBe(false);
+  });
+
+  test("marks day fields starting with * as unrestricted", () => {
+    const schedule = parseCronExpression("0 0 */2 * 1");
+    expect(schedule.dayOfMonthRestricted).toBe(false);
+    expect(schedule.dayOfWeekRestricted).toBe(true);
+  });
+
+  test.each([
+    ["0 0 * *"],
+    ["60 * * * *"],
+    ["* 24 * * *"],
+    ["* * 0 * *"],
+    ["* * * 13 *"],
+    ["* * * * 8"],
+    ["5-1 * * * *"],
+    ["*/0 * * * *"],
+    ["1/2/3 * * * *"],
+    ["x * * * *"],
+  ])("rejects %p", (expression) => {
+    expect(() => parseCronExpression(expression)).toThrow(AppError);
+  });
+});
+
+describe("nextCronOccurrence", () => {
+  test("returns the next matching minute strictly after the given time", () => {
+    const next = nextCronOccurrence("30 4 * * *", new Date(2026, 0, 10, 4, 30));
+    expect(next).toEqual(new Date(2026, 0, 11, 4, 30));
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // 2026-02-13 is a Friday; the next Friday is the 20th and the next 13th is in March.
+    const after = new Date(2026, 1, 13, 12, 0);
+    expect(nextCronOccurrence("0 0 13 * 5", after)).toEqual(new Date(2026, 1, 20));
+    expect(nextCronOccurrence("0 0 13 * 5", new Date(2026, 2, 7))).toEqual(new Date(2026, 2, 13));
+  });
+
+  test("requires both day fields when one of them is *", () => {
+    expect(nextCronOccurrence("0 0 13 * *", new Date(2026, 1, 14))).toEqual(new Date(2026, 2, 13));
+    expect(nextCronOccurrence("0 0 * * 5", new Date(2026, 1, 14))).toEqual(new Date(2026, 1, 20));
+  });
+
+  test("combines a */N day of month with the day of week like Vixie cron", () => {
+    // Odd days of the month that are also Mondays: 2026-02-02 and 2026-02-16 are even, 2026-02-09 is odd.
+    expect(nextCronOccurrence("0 0 */2 * 1", new Date(2026, 1, 1))).toEqual(new Date(2026, 1, 9));
+  });
+
+  test("returns null for expressions that can never fire", () => {
+    expect(nextCronOccurrence("0 0 30 2 *", new Date(2026, 0, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { AppError } from "./utils";
+
+export type CronSchedule = {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+type CronField = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+};
+
+const CRON_ALIASES: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+  },
+  { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+// Five years of minute-granular search is more than enough for any satisfiable expression.
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+function parseFieldValue(raw: string, field: CronField): number {
+  const lowered = raw.toLowerCase();
+  if (field.names) {
+    const index = field.names.indexOf(lowered);
+    if (index >= 0) {
+      return field.name === "month" ? index + 1 : index;
+    }
+  }
+
+  if (!/^\d+$/.test(raw)) {
+    throw new AppError(400, `Invalid ${field.name} value "${raw}" in cron expression.`);
+  }
+
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new AppError(400, `Cron ${field.name} must be between ${field.min} and ${field.max}.`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart, ...extra] = part.split("/");
+    if (!rangePart || extra.length > 0) {
+      throw new AppError(400, `Invalid ${field.name} field "${raw}" in cron expression.`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) < 1) {
+        throw new AppError(400, `Invalid ${field.name} step "${stepPart}" in cron expression.`);
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes("-")) {
+      const [fromRaw, toRaw] = rangePart.split("-");
+      start = parseFieldValue(fromRaw ?? "", field);
+      end = parseFieldValue(toRaw ?? "", field);
+      if (end < start) {
+        throw new AppError(400, `Invalid ${field.name} range "${rangePart}" in cron expression.`);
+      }
+    } else {
+      start = parseFieldValue(rangePart, field);
+      end = stepPart !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim().replace(/\s+/g, " ");
+  const normalized = CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const parts = normalized.split(" ");
+  if (parts.length !== 5) {
+    throw new AppError(
+      400,
+      "Cron expression must have 5 fields (minute hour day-of-month month day-of-week) or be an alias like @daily.",
+    );
+  }
+
+  const [minuteRaw, hourRaw, dayOfMonthRaw, monthRaw, dayOfWeekRaw] = parts as [string, string, string, string, string];
+  const daysOfWeek = parseField(dayOfWeekRaw, CRON_FIELDS[4]!);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes: parseField(minuteRaw, CRON_FIELDS[0]!),
+    hours: parseField(hourRaw, CRON_FIELDS[1]!),
+    daysOfMonth: parseField(dayOfMonthRaw, CRON_FIELDS[2]!),
+    months: parseField(monthRaw, CRON_FIELDS[3]!),
+    daysOfWeek,
+    // As in Vixie cron, a day field starting with "*" (including "*/N") counts as unrestricted.
+    dayOfMonthRestricted: !dayOfMonthRaw.startsWith("*"),
+    dayOfWeekRestricted: !dayOfWeekRaw.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatch = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatch = schedule.daysOfWeek.has(date.getDay());
+
+  // Classic cron semantics: when both day fields are restricted, either one may match.
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+/**
+ * Returns the first minute strictly after `after` (server local time) matching the schedule,
+ * or null when the expression can never fire (e.g. February 30th).
+ */
+export function nextCronOccurrence(schedule: CronSchedule | string, after: Date): Date | null {
+  const parsed = typeof schedule === "string" ? parseCronExpression(schedule) : schedule;
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const deadline = candidate.getTime() + MAX_SEARCH_MINUTES * 60_000;
+  while (candidate.getTime() <= deadline) {
+    if (!parsed.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(parsed, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!parsed.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!parsed.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
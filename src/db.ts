@@ -10,6 +10,7 @@ export type UserRecord = {
   email: string;
   password_hash: string;
   role: UserRole;
+  role_id: number | null;
   created_at: string;
 };
 
@@ -17,9 +18,20 @@ export type PublicUser = {
   id: number;
   email: string;
   role: UserRole;
+  roleId: number | null;
   createdAt: string;
 };
 
+export type Role = {
+  id: number;
+  name: string;
+  description: string;
+  permissions: string[];
+  builtin: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
 export type SessionRecord = {
   id: number;
   token_hash: string;
@@ -33,6 +45,7 @@ export type InviteRecord = {
   email: string;
   token: string;
   role: UserRole;
+  role_id: number | null;
   created_by: number;
   expires_at: string;
   accepted_at: string | null;
@@ -43,11 +56,145 @@ export type InviteSummary = {
   id: number;
   email: string;
   role: UserRole;
+  roleId: number | null;
   expiresAt: string;
   acceptedAt: string | null;
   createdAt: string;
 };
 
+export type ScheduledJobAction =
+  | "restart"
+  | "backup"
+  | "backup.testRestore"
+  | "command"
+  | "mods.updateAll"
+  | "server.update";
+
+export type ScheduledJobRunStatus = "running" | "success" | "failed" | "skipped";
+
+export type ScheduledJob = {
+  id: number;
+  name: string;
+  cron: string;
+  action: ScheduledJobAction;
+  payload: string;
+  enabled: boolean;
+  lastRunAt: string | null;
+  lastStatus: ScheduledJobRunStatus | null;
+  lastMessage: string | null;
+  nextRunAt: string | null;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScheduledJobRun = {
+  id: number;
+  jobId: number;
+  jobName: string;
+  action: ScheduledJobAction;
+  trigger: "schedule" | "manual";
+  status: ScheduledJobRunStatus;
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type ServerCrashAutoRestart = "disabled" | "scheduled" | "gave_up";
+
+export type ServerCrash = {
+  id: number;
+  exitCode: number | null;
+  occurredAt: string;
+  uptimeSeconds: number;
+  attempt: number;
+  autoRestart: ServerCrashAutoRestart;
+  restartAt: string | null;
+  terminalTail: string[];
+};
+
+export type PlayerSession = {
+  id: number;
+  uuid: string | null;
+  username: string;
+  joinedAt: string;
+  leftAt: string | null;
+  durationSeconds: number | null;
+};
+
+export type BackupTargetKind = "s3" | "directory";
+
+export type BackupTarget = {
+  id: number;
+  name: string;
+  kind: BackupTargetKind;
+  enabled: boolean;
+  settings: string;
+  credentials: string | null;
+  keepLast: number;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BackupUploadStatus = "uploading" | "uploaded" | "failed";
+
+export type BackupUpload = {
+  targetId: number;
+  backupId: string;
+  status: BackupUploadStatus;
+  remoteKey: string;
+  size: number | null;
+  error: string | null;
+  updatedAt: string;
+};
+
+export type BackupVerificationStatus = "passed" | "failed";
+
+export type BackupVerificationMode = "verify" | "test-restore";
+
+export type BackupVerification = {
+  backupId: string;
+  status: BackupVerificationStatus;
+  mode: BackupVerificationMode;
+  message: string;
+  checkedAt: string;
+};
+
+// Reason and expiry of a ban made through the console, which cannot carry an expiry into bans.json.
+export type BanDetails = {
+  uuid: string;
+  reason: string | null;
+  expiresAt: string | null;
+  recordedAt: string;
+};
+
+export type AuditResult = "success" | "failure";
+
+export type AuditEvent = {
+  id: number;
+  occurredAt: string;
+  userId: number | null;
+  userEmail: string | null;
+  action: string;
+  payload: string | null;
+  result: AuditResult;
+  status: number;
+  error: string | null;
+  ip: string | null;
+};
+
+export type AuditEventFilter = {
+  userEmail?: string | null;
+  action?: string | null;
+  result?: AuditResult | null;
+  from?: string | null;
+  to?: string | null;
+  beforeId?: number | null;
+  limit: number;
+};
+
 mkdirSync(path.dirname(config.app.dbPath), { recursive: true });
 const db = new Database(config.app.dbPath, { create: true });
 
@@ -56,6 +203,16 @@ db.exec("PRAGMA foreign_keys = ON;");
 db.exec("PRAGMA busy_timeout = 5000;");
 
 db.exec(`
+CREATE TABLE IF NOT EXISTS roles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  description TEXT NOT NULL DEFAULT '',
+  permissions TEXT NOT NULL DEFAULT '[]',
+  builtin INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS users (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   email TEXT NOT NULL UNIQUE,
@@ -88,16 +245,156 @@ CREATE TABLE IF NOT EXISTS app_settings (
   value TEXT NOT NULL,
   updated_at TEXT NOT NULL
 );
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  action TEXT NOT NULL,
+  payload TEXT NOT NULL DEFAULT '{}',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  last_run_at TEXT,
+  last_status TEXT,
+  last_message TEXT,
+  next_run_at TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id INTEGER NOT NULL REFERENCES scheduled_jobs(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL,
+  status TEXT NOT NULL,
+  message TEXT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_job_runs_job_id_idx ON scheduled_job_runs (job_id, id);
+
+CREATE TABLE IF NOT EXISTS player_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  uuid TEXT,
+  username TEXT NOT NULL,
+  joined_at TEXT NOT NULL,
+  left_at TEXT,
+  duration_seconds INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS player_sessions_uuid_idx ON player_sessions (uuid, id);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  occurred_at TEXT NOT NULL,
+  user_id INTEGER,
+  user_email TEXT,
+  action TEXT NOT NULL,
+  payload TEXT,
+  result TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  error TEXT,
+  ip TEXT
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON audit_log (occurred_at);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TABLE IF NOT EXISTS backup_targets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  settings TEXT NOT NULL DEFAULT '{}',
+  credentials TEXT,
+  keep_last INTEGER NOT NULL DEFAULT 0,
+  last_sync_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS backup_uploads (
+  target_id INTEGER NOT NULL REFERENCES backup_targets(id) ON DELETE CASCADE,
+  backup_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  remote_key TEXT NOT NULL,
+  size INTEGER,
+  error TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (target_id, backup_id)
+);
+
+CREATE TABLE IF NOT EXISTS backup_verifications (
+  backup_id TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  message TEXT NOT NULL,
+  checked_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS server_crashes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  exit_code INTEGER,
+  occurred_at TEXT NOT NULL,
+  uptime_seconds INTEGER NOT NULL,
+  attempt INTEGER NOT NULL,
+  auto_restart TEXT NOT NULL,
+  restart_at TEXT,
+  terminal_tail TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ban_details (
+  uuid TEXT PRIMARY KEY,
+  reason TEXT,
+  expires_at TEXT,
+  recorded_at TEXT NOT NULL
+);
 `);
 
+function ensureColumn(table: string, column: string, definition: string): void {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((entry) => entry.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Users and invites predate custom roles; a NULL role_id means the built-in member role.
+ensureColumn("users", "role_id", "INTEGER REFERENCES roles(id) ON DELETE SET NULL");
+ensureColumn("invites", "role_id", "INTEGER REFERENCES roles(id) ON DELETE SET NULL");
+
 const countUsersStmt = db.query("SELECT COUNT(*) AS count FROM users");
 const createUserStmt = db.query(
-  "INSERT INTO users (email, password_hash, role, created_at) VALUES (?, ?, ?, ?) RETURNING id, email, role, created_at",
+  "INSERT INTO users (email, password_hash, role, role_id, created_at) VALUES (?, ?, ?, ?, ?) RETURNING id, email, role, role_id, created_at",
 );
 const getUserByEmailStmt = db.query(
-  "SELECT id, email, password_hash, role, created_at FROM users WHERE email = ?",
+  "SELECT id, email, password_hash, role, role_id, created_at FROM users WHERE email = ?",
+);
+const getUserByIdStmt = db.query("SELECT id, email, password_hash, role, role_id, created_at FROM users WHERE id = ?");
+const listUsersStmt = db.query("SELECT id, email, role, role_id, created_at FROM users ORDER BY id ASC");
+const setUserRoleStmt = db.query("UPDATE users SET role = ?, role_id = ? WHERE id = ?");
+const countOwnersStmt = db.query("SELECT COUNT(*) AS count FROM users WHERE role = 'owner'");
+const roleColumns = "id, name, description, permissions, builtin, created_at, updated_at";
+const listRolesStmt = db.query(`SELECT ${roleColumns} FROM roles ORDER BY builtin DESC, name ASC`);
+const getRoleStmt = db.query(`SELECT ${roleColumns} FROM roles WHERE id = ?`);
+const getRoleByNameStmt = db.query(`SELECT ${roleColumns} FROM roles WHERE name = ?`);
+const createRoleStmt = db.query(
+  `INSERT INTO roles (name, description, permissions, builtin, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING ${roleColumns}`,
+);
+const updateRoleStmt = db.query(
+  `UPDATE roles SET name = ?, description = ?, permissions = ?, updated_at = ? WHERE id = ? RETURNING ${roleColumns}`,
 );
-const getUserByIdStmt = db.query("SELECT id, email, password_hash, role, created_at FROM users WHERE id = ?");
+const deleteRoleStmt = db.query("DELETE FROM roles WHERE id = ?");
 
 const insertSessionStmt = db.query(
   "INSERT INTO sessions (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)",
@@ -111,6 +408,7 @@ SELECT
   users.id AS user_id,
   users.email AS user_email,
   users.role AS user_role,
+  users.role_id AS user_role_id,
   users.created_at AS user_created_at
 FROM sessions
 JOIN users ON users.id = sessions.user_id
@@ -118,13 +416,13 @@ WHERE sessions.token_hash = ?
 `);
 
 const createInviteStmt = db.query(
-  "INSERT INTO invites (email, token, role, created_by, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING id, email, token, role, created_by, expires_at, accepted_at, created_at",
+  "INSERT INTO invites (email, token, role, role_id, created_by, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id, email, token, role, role_id, created_by, expires_at, accepted_at, created_at",
 );
 const listInvitesStmt = db.query(
-  "SELECT id, email, role, expires_at, accepted_at, created_at FROM invites ORDER BY id DESC",
+  "SELECT id, email, role, role_id, expires_at, accepted_at, created_at FROM invites ORDER BY id DESC",
 );
 const getInviteByTokenStmt = db.query(
-  "SELECT id, email, token, role, created_by, expires_at, accepted_at, created_at FROM invites WHERE token = ?",
+  "SELECT id, email, token, role, role_id, created_by, expires_at, accepted_at, created_at FROM invites WHERE token = ?",
 );
 const acceptInviteStmt = db.query("UPDATE invites SET accepted_at = ? WHERE id = ?");
 const revokeInviteStmt = db.query("DELETE FROM invites WHERE id = ?");
@@ -138,6 +436,184 @@ ON CONFLICT(key) DO UPDATE SET
 `);
 const deleteSettingStmt = db.query("DELETE FROM app_settings WHERE key = ?");
 
+const scheduledJobColumns =
+  "id, name, cron, action, payload, enabled, last_run_at, last_status, last_message, next_run_at, created_by, created_at, updated_at";
+const listScheduledJobsStmt = db.query(`SELECT ${scheduledJobColumns} FROM scheduled_jobs ORDER BY id ASC`);
+const getScheduledJobStmt = db.query(`SELECT ${scheduledJobColumns} FROM scheduled_jobs WHERE id = ?`);
+const createScheduledJobStmt = db.query(
+  `INSERT INTO scheduled_jobs (name, cron, action, payload, enabled, next_run_at, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING ${scheduledJobColumns}`,
+);
+const updateScheduledJobStmt = db.query(
+  `UPDATE scheduled_jobs SET name = ?, cron = ?, action = ?, payload = ?, enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ? RETURNING ${scheduledJobColumns}`,
+);
+const setScheduledJobNextRunStmt = db.query("UPDATE scheduled_jobs SET next_run_at = ? WHERE id = ?");
+const setScheduledJobLastRunStmt = db.query(
+  "UPDATE scheduled_jobs SET last_run_at = ?, last_status = ?, last_message = ? WHERE id = ?",
+);
+const deleteScheduledJobStmt = db.query("DELETE FROM scheduled_jobs WHERE id = ?");
+const insertScheduledJobRunStmt = db.query(
+  "INSERT INTO scheduled_job_runs (job_id, trigger, status, started_at) VALUES (?, ?, 'running', ?) RETURNING id",
+);
+const finishScheduledJobRunStmt = db.query(
+  "UPDATE scheduled_job_runs SET status = ?, message = ?, finished_at = ? WHERE id = ?",
+);
+const failInterruptedScheduledJobRunsStmt = db.query(
+  "UPDATE scheduled_job_runs SET status = 'failed', message = 'Interrupted by manager shutdown.', finished_at = ? WHERE status = 'running'",
+);
+const listScheduledJobRunsStmt = db.query(`
+SELECT
+  scheduled_job_runs.id,
+  scheduled_job_runs.job_id,
+  scheduled_jobs.name AS job_name,
+  scheduled_jobs.action,
+  scheduled_job_runs.trigger,
+  scheduled_job_runs.status,
+  scheduled_job_runs.message,
+  scheduled_job_runs.started_at,
+  scheduled_job_runs.finished_at
+FROM scheduled_job_runs
+JOIN scheduled_jobs ON scheduled_jobs.id = scheduled_job_runs.job_id
+WHERE (?1 IS NULL OR scheduled_job_runs.job_id = ?1)
+ORDER BY scheduled_job_runs.id DESC
+LIMIT ?2
+`);
+const pruneScheduledJobRunsStmt = db.query(`
+DELETE FROM scheduled_job_runs
+WHERE job_id = ?1 AND id NOT IN (
+  SELECT id FROM scheduled_job_runs WHERE job_id = ?1 ORDER BY id DESC LIMIT ?2
+)
+`);
+
+const insertServerCrashStmt = db.query(
+  "INSERT INTO server_crashes (exit_code, occurred_at, uptime_seconds, attempt, auto_restart, restart_at, terminal_tail) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id",
+);
+const listServerCrashesStmt = db.query(
+  "SELECT id, exit_code, occurred_at, uptime_seconds, attempt, auto_restart, restart_at, terminal_tail FROM server_crashes ORDER BY id DESC LIMIT ?",
+);
+const pruneServerCrashesStmt = db.query(
+  "DELETE FROM server_crashes WHERE id NOT IN (SELECT id FROM server_crashes ORDER BY id DESC LIMIT ?)",
+);
+
+const insertPlayerSessionStmt = db.query(
+  "INSERT INTO player_sessions (uuid, username, joined_at) VALUES (?, ?, ?) RETURNING id",
+);
+const closePlayerSessionStmt = db.query(`
+UPDATE player_sessions
+SET left_at = ?1, duration_seconds = MAX(0, CAST(ROUND((julianday(?1) - julianday(joined_at)) * 86400) AS INTEGER))
+WHERE id = ?2 AND left_at IS NULL
+`);
+const closeOpenPlayerSessionsStmt = db.query(`
+UPDATE player_sessions
+SET left_at = ?1, duration_seconds = MAX(0, CAST(ROUND((julianday(?1) - julianday(joined_at)) * 86400) AS INTEGER))
+WHERE left_at IS NULL
+`);
+const listPlayerSessionsStmt = db.query(`
+SELECT id, uuid, username, joined_at, left_at, duration_seconds
+FROM player_sessions
+WHERE (?1 IS NULL OR uuid = ?1)
+ORDER BY id DESC
+LIMIT ?2
+`);
+
+const backupTargetColumns =
+  "id, name, kind, enabled, settings, credentials, keep_last, last_sync_at, last_error, created_at, updated_at";
+const listBackupTargetsStmt = db.query(`SELECT ${backupTargetColumns} FROM backup_targets ORDER BY id ASC`);
+const getBackupTargetStmt = db.query(`SELECT ${backupTargetColumns} FROM backup_targets WHERE id = ?`);
+const getBackupTargetByNameStmt = db.query(`SELECT ${backupTargetColumns} FROM backup_targets WHERE name = ?`);
+const createBackupTargetStmt = db.query(
+  `INSERT INTO backup_targets (name, kind, enabled, settings, credentials, keep_last, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING ${backupTargetColumns}`,
+);
+const updateBackupTargetStmt = db.query(
+  `UPDATE backup_targets SET name = ?, enabled = ?, settings = ?, credentials = ?, keep_last = ?, updated_at = ? WHERE id = ? RETURNING ${backupTargetColumns}`,
+);
+const setBackupTargetSyncResultStmt = db.query(
+  "UPDATE backup_targets SET last_sync_at = ?, last_error = ? WHERE id = ?",
+);
+const deleteBackupTargetStmt = db.query("DELETE FROM backup_targets WHERE id = ?");
+const listBackupUploadsStmt = db.query(
+  "SELECT target_id, backup_id, status, remote_key, size, error, updated_at FROM backup_uploads ORDER BY target_id ASC, backup_id ASC",
+);
+const upsertBackupUploadStmt = db.query(`
+INSERT INTO backup_uploads (target_id, backup_id, status, remote_key, size, error, updated_at)
+VALUES (?, ?, ?, ?, ?, ?, ?)
+ON CONFLICT (target_id, backup_id) DO UPDATE SET
+  status = excluded.status,
+  remote_key = excluded.remote_key,
+  size = excluded.size,
+  error = excluded.error,
+  updated_at = excluded.updated_at
+`);
+const deleteBackupUploadStmt = db.query("DELETE FROM backup_uploads WHERE target_id = ? AND backup_id = ?");
+const listBackupVerificationsStmt = db.query(
+  "SELECT backup_id, status, mode, message, checked_at FROM backup_verifications ORDER BY backup_id ASC",
+);
+const upsertBackupVerificationStmt = db.query(`
+INSERT INTO backup_verifications (backup_id, status, mode, message, checked_at)
+VALUES (?, ?, ?, ?, ?)
+ON CONFLICT (backup_id) DO UPDATE SET
+  status = excluded.status,
+  mode = excluded.mode,
+  message = excluded.message,
+  checked_at = excluded.checked_at
+`);
+const deleteBackupVerificationStmt = db.query("DELETE FROM backup_verifications WHERE backup_id = ?");
+const listBanDetailsStmt = db.query("SELECT uuid, reason, expires_at, recorded_at FROM ban_details ORDER BY uuid ASC");
+const upsertBanDetailsStmt = db.query(`
+INSERT INTO ban_details (uuid, reason, expires_at, recorded_at)
+VALUES (?, ?, ?, ?)
+ON CONFLICT (uuid) DO UPDATE SET
+  reason = excluded.reason,
+  expires_at = excluded.expires_at,
+  recorded_at = excluded.recorded_at
+`);
+const deleteBanDetailsStmt = db.query("DELETE FROM ban_details WHERE uuid = ?");
+
+const insertAuditEventStmt = db.query(
+  "INSERT INTO audit_log (occurred_at, user_id, user_email, action, payload, result, status, error, ip) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+);
+const listAuditEventsStmt = db.query(`
+SELECT id, occurred_at, user_id, user_email, action, payload, result, status, error, ip
+FROM audit_log
+WHERE (?1 IS NULL OR user_email LIKE ?1)
+  AND (?2 IS NULL OR action LIKE ?2)
+  AND (?3 IS NULL OR result = ?3)
+  AND (?4 IS NULL OR occurred_at >= ?4)
+  AND (?5 IS NULL OR occurred_at <= ?5)
+  AND (?6 IS NULL OR id < ?6)
+ORDER BY id DESC
+LIMIT ?7
+`);
+
+type BackupTargetRow = {
+  id: number;
+  name: string;
+  kind: BackupTargetKind;
+  enabled: number;
+  settings: string;
+  credentials: string | null;
+  keep_last: number;
+  last_sync_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type ScheduledJobRow = {
+  id: number;
+  name: string;
+  cron: string;
+  action: ScheduledJobAction;
+  payload: string;
+  enabled: number;
+  last_run_at: string | null;
+  last_status: ScheduledJobRunStatus | null;
+  last_message: string | null;
+  next_run_at: string | null;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
 function nowIso(): string {
   return new Date().toISOString();
 }
@@ -155,11 +631,17 @@ export function hasAnyUsers(): boolean {
   return usersCount() > 0;
 }
 
-export function createUser(email: string, passwordHash: string, role: UserRole): PublicUser {
-  const row = createUserStmt.get(normalizeEmail(email), passwordHash, role, nowIso()) as {
+export function createUser(
+  email: string,
+  passwordHash: string,
+  role: UserRole,
+  roleId: number | null = null,
+): PublicUser {
+  const row = createUserStmt.get(normalizeEmail(email), passwordHash, role, roleId, nowIso()) as {
     id: number;
     email: string;
     role: UserRole;
+    role_id: number | null;
     created_at: string;
   } | null;
 
@@ -171,10 +653,38 @@ export function createUser(email: string, passwordHash: string, role: UserRole):
     id: row.id,
     email: row.email,
     role: row.role,
+    roleId: row.role_id,
     createdAt: row.created_at,
   };
 }
 
+export function listUsers(): PublicUser[] {
+  const rows = listUsersStmt.all() as Array<{
+    id: number;
+    email: string;
+    role: UserRole;
+    role_id: number | null;
+    created_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    roleId: row.role_id,
+    createdAt: row.created_at,
+  }));
+}
+
+export function setUserRole(id: number, role: UserRole, roleId: number | null): void {
+  setUserRoleStmt.run(role, roleId, id);
+}
+
+export function countOwners(): number {
+  const row = countOwnersStmt.get() as { count: number } | null;
+  return row?.count ?? 0;
+}
+
 export function getUserByEmail(email: string): UserRecord | null {
   return (getUserByEmailStmt.get(normalizeEmail(email)) as UserRecord | null) ?? null;
 }
@@ -202,6 +712,7 @@ export function getSessionUser(tokenHash: string): PublicUser | null {
     user_id: number;
     user_email: string;
     user_role: UserRole;
+    user_role_id: number | null;
     user_created_at: string;
   } | null;
 
@@ -218,6 +729,7 @@ export function getSessionUser(tokenHash: string): PublicUser | null {
     id: row.user_id,
     email: row.user_email,
     role: row.user_role,
+    roleId: row.user_role_id,
     createdAt: row.user_created_at,
   };
 }
@@ -226,10 +738,19 @@ export function createInvite(
   email: string,
   token: string,
   role: UserRole,
+  roleId: number | null,
   createdBy: number,
   expiresAtIso: string,
 ): InviteRecord {
-  const row = createInviteStmt.get(normalizeEmail(email), token, role, createdBy, expiresAtIso, nowIso()) as InviteRecord | null;
+  const row = createInviteStmt.get(
+    normalizeEmail(email),
+    token,
+    role,
+    roleId,
+    createdBy,
+    expiresAtIso,
+    nowIso(),
+  ) as InviteRecord | null;
 
   if (!row) {
     throw new Error("Failed to create invite.");
@@ -255,6 +776,7 @@ export function listInvites(): InviteSummary[] {
     id: number;
     email: string;
     role: UserRole;
+    role_id: number | null;
     expires_at: string;
     accepted_at: string | null;
     created_at: string;
@@ -264,6 +786,7 @@ export function listInvites(): InviteSummary[] {
     id: row.id,
     email: row.email,
     role: row.role,
+    roleId: row.role_id,
     expiresAt: row.expires_at,
     acceptedAt: row.accepted_at,
     createdAt: row.created_at,
@@ -282,3 +805,551 @@ export function setAppSetting(key: string, value: string): void {
 export function deleteAppSetting(key: string): void {
   deleteSettingStmt.run(key);
 }
+
+type RoleRow = {
+  id: number;
+  name: string;
+  description: string;
+  permissions: string;
+  builtin: number;
+  created_at: string;
+  updated_at: string;
+};
+
+function toRole(row: RoleRow): Role {
+  let permissions: string[] = [];
+  try {
+    const parsed = JSON.parse(row.permissions) as unknown;
+    permissions = Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    permissions = [];
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    permissions,
+    builtin: row.builtin === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listRoles(): Role[] {
+  return (listRolesStmt.all() as RoleRow[]).map(toRole);
+}
+
+export function getRole(id: number): Role | null {
+  const row = getRoleStmt.get(id) as RoleRow | null;
+  return row ? toRole(row) : null;
+}
+
+export function getRoleByName(name: string): Role | null {
+  const row = getRoleByNameStmt.get(name) as RoleRow | null;
+  return row ? toRole(row) : null;
+}
+
+export function createRole(input: {
+  name: string;
+  description: string;
+  permissions: string[];
+  builtin: boolean;
+}): Role {
+  const timestamp = nowIso();
+  const row = createRoleStmt.get(
+    input.name,
+    input.description,
+    JSON.stringify(input.permissions),
+    input.builtin ? 1 : 0,
+    timestamp,
+    timestamp,
+  ) as RoleRow | null;
+
+  if (!row) {
+    throw new Error("Failed to create role.");
+  }
+
+  return toRole(row);
+}
+
+export function updateRole(id: number, input: { name: string; description: string; permissions: string[] }): Role | null {
+  const row = updateRoleStmt.get(
+    input.name,
+    input.description,
+    JSON.stringify(input.permissions),
+    nowIso(),
+    id,
+  ) as RoleRow | null;
+  return row ? toRole(row) : null;
+}
+
+export function deleteRole(id: number): void {
+  deleteRoleStmt.run(id);
+}
+
+function toScheduledJob(row: ScheduledJobRow): ScheduledJob {
+  return {
+    id: row.id,
+    name: row.name,
+    cron: row.cron,
+    action: row.action,
+    payload: row.payload,
+    enabled: row.enabled === 1,
+    lastRunAt: row.last_run_at,
+    lastStatus: row.last_status,
+    lastMessage: row.last_message,
+    nextRunAt: row.next_run_at,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listScheduledJobs(): ScheduledJob[] {
+  return (listScheduledJobsStmt.all() as ScheduledJobRow[]).map(toScheduledJob);
+}
+
+export function getScheduledJob(id: number): ScheduledJob | null {
+  const row = getScheduledJobStmt.get(id) as ScheduledJobRow | null;
+  return row ? toScheduledJob(row) : null;
+}
+
+export function createScheduledJob(input: {
+  name: string;
+  cron: string;
+  action: ScheduledJobAction;
+  payload: string;
+  enabled: boolean;
+  nextRunAt: string | null;
+  createdBy: number | null;
+}): ScheduledJob {
+  const now = nowIso();
+  const row = createScheduledJobStmt.get(
+    input.name,
+    input.cron,
+    input.action,
+    input.payload,
+    input.enabled ? 1 : 0,
+    input.nextRunAt,
+    input.createdBy,
+    now,
+    now,
+  ) as ScheduledJobRow | null;
+
+  if (!row) {
+    throw new Error("Failed to create scheduled job.");
+  }
+
+  return toScheduledJob(row);
+}
+
+export function updateScheduledJob(
+  id: number,
+  input: {
+    name: string;
+    cron: string;
+    action: ScheduledJobAction;
+    payload: string;
+    enabled: boolean;
+    nextRunAt: string | null;
+  },
+): ScheduledJob | null {
+  const row = updateScheduledJobStmt.get(
+    input.name,
+    input.cron,
+    input.action,
+    input.payload,
+    input.enabled ? 1 : 0,
+    input.nextRunAt,
+    nowIso(),
+    id,
+  ) as ScheduledJobRow | null;
+  return row ? toScheduledJob(row) : null;
+}
+
+export function setScheduledJobNextRun(id: number, nextRunAt: string | null): void {
+  setScheduledJobNextRunStmt.run(nextRunAt, id);
+}
+
+export function deleteScheduledJob(id: number): void {
+  deleteScheduledJobStmt.run(id);
+}
+
+export function startScheduledJobRun(jobId: number, trigger: ScheduledJobRun["trigger"]): number {
+  const row = insertScheduledJobRunStmt.get(jobId, trigger, nowIso()) as { id: number } | null;
+  if (!row) {
+    throw new Error("Failed to record scheduled job run.");
+  }
+  return row.id;
+}
+
+export function finishScheduledJobRun(
+  runId: number,
+  jobId: number,
+  status: Exclude<ScheduledJobRunStatus, "running">,
+  message: string | null,
+  keepRuns: number,
+): void {
+  const finishedAt = nowIso();
+  finishScheduledJobRunStmt.run(status, message, finishedAt, runId);
+  setScheduledJobLastRunStmt.run(finishedAt, status, message, jobId);
+  pruneScheduledJobRunsStmt.run(jobId, keepRuns);
+}
+
+export function failInterruptedScheduledJobRuns(): void {
+  failInterruptedScheduledJobRunsStmt.run(nowIso());
+}
+
+export function listScheduledJobRuns(jobId: number | null, limit: number): ScheduledJobRun[] {
+  const rows = listScheduledJobRunsStmt.all(jobId, limit) as Array<{
+    id: number;
+    job_id: number;
+    job_name: string;
+    action: ScheduledJobAction;
+    trigger: ScheduledJobRun["trigger"];
+    status: ScheduledJobRunStatus;
+    message: string | null;
+    started_at: string;
+    finished_at: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    jobId: row.job_id,
+    jobName: row.job_name,
+    action: row.action,
+    trigger: row.trigger,
+    status: row.status,
+    message: row.message,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  }));
+}
+
+export function recordServerCrash(input: Omit<ServerCrash, "id" | "occurredAt">, keepCrashes: number): ServerCrash {
+  const occurredAt = nowIso();
+  const row = insertServerCrashStmt.get(
+    input.exitCode,
+    occurredAt,
+    input.uptimeSeconds,
+    input.attempt,
+    input.autoRestart,
+    input.restartAt,
+    JSON.stringify(input.terminalTail),
+  ) as { id: number } | null;
+
+  if (!row) {
+    throw new Error("Failed to record server crash.");
+  }
+
+  pruneServerCrashesStmt.run(keepCrashes);
+  return {
+    id: row.id,
+    occurredAt,
+    ...input,
+  };
+}
+
+export function listServerCrashes(limit: number): ServerCrash[] {
+  const rows = listServerCrashesStmt.all(limit) as Array<{
+    id: number;
+    exit_code: number | null;
+    occurred_at: string;
+    uptime_seconds: number;
+    attempt: number;
+    auto_restart: ServerCrashAutoRestart;
+    restart_at: string | null;
+    terminal_tail: string;
+  }>;
+
+  return rows.map((row) => {
+    let terminalTail: string[] = [];
+    try {
+      const parsed = JSON.parse(row.terminal_tail) as unknown;
+      terminalTail = Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+      terminalTail = [];
+    }
+
+    return {
+      id: row.id,
+      exitCode: row.exit_code,
+      occurredAt: row.occurred_at,
+      uptimeSeconds: row.uptime_seconds,
+      attempt: row.attempt,
+      autoRestart: row.auto_restart,
+      restartAt: row.restart_at,
+      terminalTail,
+    };
+  });
+}
+
+export function openPlayerSession(uuid: string | null, username: string, joinedAt: string): number {
+  const row = insertPlayerSessionStmt.get(uuid, username, joinedAt) as { id: number } | null;
+  if (!row) {
+    throw new Error("Failed to record player session.");
+  }
+  return row.id;
+}
+
+export function closePlayerSession(id: number, leftAt: string): void {
+  closePlayerSessionStmt.run(leftAt, id);
+}
+
+export function closeOpenPlayerSessions(): void {
+  closeOpenPlayerSessionsStmt.run(nowIso());
+}
+
+export function listPlayerSessions(uuid: string | null, limit: number): PlayerSession[] {
+  const rows = listPlayerSessionsStmt.all(uuid, limit) as Array<{
+    id: number;
+    uuid: string | null;
+    username: string;
+    joined_at: string;
+    left_at: string | null;
+    duration_seconds: number | null;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    uuid: row.uuid,
+    username: row.username,
+    joinedAt: row.joined_at,
+    leftAt: row.left_at,
+    durationSeconds: row.duration_seconds,
+  }));
+}
+
+export function recordAuditEvent(input: {
+  userId: number | null;
+  userEmail: string | null;
+  action: string;
+  payload: string | null;
+  result: AuditResult;
+  status: number;
+  error: string | null;
+  ip: string | null;
+}): void {
+  insertAuditEventStmt.run(
+    nowIso(),
+    input.userId,
+    input.userEmail,
+    input.action,
+    input.payload,
+    input.result,
+    input.status,
+    input.error,
+    input.ip,
+  );
+}
+
+export function listAuditEvents(filter: AuditEventFilter): AuditEvent[] {
+  const like = (value: string | null | undefined) => (value ? `%${value}%` : null);
+  const rows = listAuditEventsStmt.all(
+    like(filter.userEmail),
+    like(filter.action),
+    filter.result ?? null,
+    filter.from ?? null,
+    filter.to ?? null,
+    filter.beforeId ?? null,
+    filter.limit,
+  ) as Array<{
+    id: number;
+    occurred_at: string;
+    user_id: number | null;
+    user_email: string | null;
+    action: string;
+    payload: string | null;
+    result: AuditResult;
+    status: number;
+    error: string | null;
+    ip: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    occurredAt: row.occurred_at,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    action: row.action,
+    payload: row.payload,
+    result: row.result,
+    status: row.status,
+    error: row.error,
+    ip: row.ip,
+  }));
+}
+
+function toBackupTarget(row: BackupTargetRow): BackupTarget {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    enabled: row.enabled === 1,
+    settings: row.settings,
+    credentials: row.credentials,
+    keepLast: row.keep_last,
+    lastSyncAt: row.last_sync_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listBackupTargets(): BackupTarget[] {
+  return (listBackupTargetsStmt.all() as BackupTargetRow[]).map(toBackupTarget);
+}
+
+export function getBackupTarget(id: number): BackupTarget | null {
+  const row = getBackupTargetStmt.get(id) as BackupTargetRow | null;
+  return row ? toBackupTarget(row) : null;
+}
+
+export function getBackupTargetByName(name: string): BackupTarget | null {
+  const row = getBackupTargetByNameStmt.get(name) as BackupTargetRow | null;
+  return row ? toBackupTarget(row) : null;
+}
+
+export function createBackupTarget(input: {
+  name: string;
+  kind: BackupTargetKind;
+  enabled: boolean;
+  settings: string;
+  credentials: string | null;
+  keepLast: number;
+}): BackupTarget {
+  const now = nowIso();
+  const row = createBackupTargetStmt.get(
+    input.name,
+    input.kind,
+    input.enabled ? 1 : 0,
+    input.settings,
+    input.credentials,
+    input.keepLast,
+    now,
+    now,
+  ) as BackupTargetRow | null;
+
+  if (!row) {
+    throw new Error("Failed to create backup target.");
+  }
+
+  return toBackupTarget(row);
+}
+
+export function updateBackupTarget(
+  id: number,
+  input: { name: string; enabled: boolean; settings: string; credentials: string | null; keepLast: number },
+): BackupTarget | null {
+  const row = updateBackupTargetStmt.get(
+    input.name,
+    input.enabled ? 1 : 0,
+    input.settings,
+    input.credentials,
+    input.keepLast,
+    nowIso(),
+    id,
+  ) as BackupTargetRow | null;
+  return row ? toBackupTarget(row) : null;
+}
+
+export function setBackupTargetSyncResult(id: number, error: string | null): void {
+  setBackupTargetSyncResultStmt.run(nowIso(), error, id);
+}
+
+export function deleteBackupTarget(id: number): void {
+  deleteBackupTargetStmt.run(id);
+}
+
+export function listBackupUploads(): BackupUpload[] {
+  const rows = listBackupUploadsStmt.all() as Array<{
+    target_id: number;
+    backup_id: string;
+    status: BackupUploadStatus;
+    remote_key: string;
+    size: number | null;
+    error: string | null;
+    updated_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    targetId: row.target_id,
+    backupId: row.backup_id,
+    status: row.status,
+    remoteKey: row.remote_key,
+    size: row.size,
+    error: row.error,
+    updatedAt: row.updated_at,
+  }));
+}
+
+export function recordBackupUpload(input: Omit<BackupUpload, "updatedAt">): void {
+  upsertBackupUploadStmt.run(
+    input.targetId,
+    input.backupId,
+    input.status,
+    input.remoteKey,
+    input.size,
+    input.error,
+    nowIso(),
+  );
+}
+
+export function deleteBackupUpload(targetId: number, backupId: string): void {
+  deleteBackupUploadStmt.run(targetId, backupId);
+}
+
+export function listBackupVerifications(): BackupVerification[] {
+  const rows = listBackupVerificationsStmt.all() as Array<{
+    backup_id: string;
+    status: BackupVerificationStatus;
+    mode: BackupVerificationMode;
+    message: string;
+    checked_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    backupId: row.backup_id,
+    status: row.status,
+    mode: row.mode,
+    message: row.message,
+    checkedAt: row.checked_at,
+  }));
+}
+
+export function recordBackupVerification(input: Omit<BackupVerification, "checkedAt">): BackupVerification {
+  const checkedAt = nowIso();
+  upsertBackupVerificationStmt.run(input.backupId, input.status, input.mode, input.message, checkedAt);
+  return { ...input, checkedAt };
+}
+
+export function deleteBackupVerification(backupId: string): void {
+  deleteBackupVerificationStmt.run(backupId);
+}
+
+export function listBanDetails(): BanDetails[] {
+  const rows = listBanDetailsStmt.all() as Array<{
+    uuid: string;
+    reason: string | null;
+    expires_at: string | null;
+    recorded_at: string;
+  }>;
+
+  return rows.map((row) => ({
+    uuid: row.uuid,
+    reason: row.reason,
+    expiresAt: row.expires_at,
+    recordedAt: row.recorded_at,
+  }));
+}
+
+export function recordBanDetails(input: Omit<BanDetails, "recordedAt">): BanDetails {
+  const recordedAt = nowIso();
+  upsertBanDetailsStmt.run(input.uuid, input.reason, input.expiresAt, recordedAt);
+  return { ...input, recordedAt };
+}
+
+export function deleteBanDetails(uuid: string): void {
+  deleteBanDetailsStmt.run(uuid);
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  DownloadCacheEntry,
+  DownloadCacheLabel,
+  deleteDownloadCacheEntry,
+  downloadCacheFilePath,
+  downloadCacheId,
+  measurePartialDownload,
+  partialDownloadDir,
+  partialDownloadPartPath,
+  readDownloadCache,
+  recordDownloadCacheEntry,
+  selectDownloadCacheToPrune,
+} from "./download-cache";
+import { AppError, pathExists } from "./utils";
+
+const MB = 1024 * 1024;
+
+function entry(id: string, lastUsedDay: number, options: { group?: string | null; size?: number } = {}): DownloadCacheEntry {
+  const group = options.group === undefined ? "hytale-release" : options.group;
+  const usedAt = new Date(Date.UTC(2026, 0, lastUsedDay)).toISOString();
+  return {
+    id,
+    key: id,
+    label: group ? { group, name: group, version: id } : null,
+    size: options.size ?? MB,
+    createdAt: usedAt,
+    lastUsedAt: usedAt,
+  };
+}
+
+function prunedIds(
+  entries: DownloadCacheEntry[],
+  policy: { keepVersions?: number; maxTotalBytes?: number },
+  protectedIds: string[] = [],
+): string[] {
+  return selectDownloadCacheToPrune(
+    entries,
+    { keepVersions: policy.keepVersions ?? 0, maxTotalBytes: policy.maxTotalBytes ?? 0 },
+    new Set(protectedIds),
+  )
+    .map((candidate) => candidate.entry.id)
+    .sort();
+}
+
+describe("selectDownloadCacheToPrune", () => {
+  test("keeps the most recently used versions of each group", () => {
+    const entries = [
+      entry("r1", 1),
+      entry("r3", 3),
+      entry("r2", 2),
+      entry("p1", 1, { group: "hytale-pre-release" }),
+      entry("p2", 2, { group: "hytale-pre-release" }),
+    ];
+    expect(prunedIds(entries, { keepVersions: 2 })).toEqual(["r1"]);
+    expect(prunedIds(entries, { keepVersions: 1 })).toEqual(["p1", "r1", "r2"]);
+  });
+
+  test("orders versions by last use, not creation", () => {
+    const reused = { ...entry("old-but-reused", 5), createdAt: new Date(Date.UTC(2025, 0, 1)).toISOString() };
+    expect(prunedIds([reused, entry("newer", 3)], { keepVersions: 1 })).toEqual(["newer"]);
+  });
+
+  test("keeps every version when keepVersions is 0", () => {
+    expect(prunedIds([entry("r1", 1), entry("r2", 2), entry("r3", 3)], { keepVersions: 0 })).toEqual([]);
+  });
+
+  test("leaves unlabelled artifacts to the size cap", () => {
+    const entries = [entry("legacy-a", 1, { group: null }), entry("legacy-b", 2, { group: null }), entry("r1", 3)];
+    expect(prunedIds(entries, { keepVersions: 1 })).toEqual([]);
+    expect(prunedIds(entries, { keepVersions: 1, maxTotalBytes: 2 * MB })).toEqual(["legacy-a"]);
+  });
+
+  test("drops the least recently used artifacts until the total fits", () => {
+    const entries = [
+      entry("a", 1, { group: "a", size: 40 * MB }),
+      entry("b", 2, { group: "b", size: 40 * MB }),
+      entry("c", 3, { group: "c", size: 40 * MB }),
+    ];
+    expect(prunedIds(entries, { maxTotalBytes: 100 * MB })).toEqual(["a"]);
+    expect(prunedIds(entries, { maxTotalBytes: 30 * MB })).toEqual(["a", "b", "c"]);
+  });
+
+  test("counts versions already pruned by keepVersions against the size cap", () => {
+    const entries = [
+      entry("r1", 1, { size: 50 * MB }),
+      entry("r2", 2, { size: 50 * MB }),
+      entry("other", 3, { group: "other", size: 50 * MB }),
+    ];
+    expect(prunedIds(entries, { keepVersions: 1, maxTotalBytes: 100 * MB })).toEqual(["r1"]);
+  });
+
+  test("never selects protected artifacts", () => {
+    const entries = [entry("r1", 1, { size: 50 * MB }), entry("r2", 2, { size: 50 * MB }), entry("r3", 3, { size: 50 * MB })];
+    expect(prunedIds(entries, { keepVersions: 1 }, ["r1"])).toEqual(["r2"]);
+    expect(prunedIds(entries, { maxTotalBytes: 60 * MB }, ["r1"])).toEqual(["r2", "r3"]);
+  });
+
+  test("gives a reason for each selection", () => {
+    const decision = selectDownloadCacheToPrune(
+      [entry("r1", 1, { size: 50 * MB }), entry("r2", 2, { size: 50 * MB }), entry("x", 3, { group: "x", size: 80 * MB })],
+      { keepVersions: 1, maxTotalBytes: 100 * MB },
+      new Set(),
+    );
+    const reasons = new Map(decision.map((candidate) => [candidate.entry.id, candidate.reason]));
+    expect(reasons.get("r1")).toBe("older than the newest 1 of hytale-release");
+    expect(reasons.get("r2")).toBe("over the cache size limit");
+  });
+});
+
+describe("download cache index", () => {
+  let cacheDir: string;
+  const label: DownloadCacheLabel = { group: "hytale-release", name: "Hytale server (release)", version: "2026.01.15" };
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(path.join(tmpdir(), "download-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  test("records an artifact and keeps its label and creation time when it is recorded again", async () => {
+    const id = downloadCacheId("hytale-release-2026.01.15");
+    await writeFile(downloadCacheFilePath(cacheDir, id), "server archive");
+
+    const first = await recordDownloadCacheEntry(cacheDir, "hytale-release-2026.01.15", label);
+    const second = await recordDownloadCacheEntry(cacheDir, "hytale-release-2026.01.15", null);
+    expect(second.label).toEqual(label);
+    expect(second.createdAt).toBe(first.createdAt);
+
+    const [listed] = await readDownloadCache(cacheDir);
+    expect(listed).toMatchObject({ id, key: "hytale-release-2026.01.15", label, size: "server archive".length });
+  });
+
+  test("lists artifacts without an index record using their mtime", async () => {
+    const id = downloadCacheId("legacy");
+    await writeFile(downloadCacheFilePath(cacheDir, id), "old");
+    const [listed] = await readDownloadCache(cacheDir);
+    expect(listed).toMatchObject({ id, key: null, label: null, size: 3 });
+  });
+
+  test("deletes an artifact with its record and unfinished download", async () => {
+    const id = downloadCacheId("hytale-release-2026.01.15");
+    await writeFile(downloadCacheFilePath(cacheDir, id), "server archive");
+    await recordDownloadCacheEntry(cacheDir, "hytale-release-2026.01.15", label);
+    await mkdir(partialDownloadDir(cacheDir, id), { recursive: true });
+
+    await deleteDownloadCacheEntry(cacheDir, id);
+    expect(await readDownloadCache(cacheDir)).toEqual([]);
+    expect(await pathExists(partialDownloadDir(cacheDir, id))).toBe(false);
+    await expect(deleteDownloadCacheEntry(cacheDir, "../escape")).rejects.toThrow(AppError);
+  });
+
+  test("measures an unfinished download without counting bytes past each part", async () => {
+    const id = downloadCacheId("partial");
+    await mkdir(partialDownloadDir(cacheDir, id), { recursive: true });
+    await writeFile(partialDownloadPartPath(cacheDir, id, 0), "0123456789extra");
+    await writeFile(partialDownloadPartPath(cacheDir, id, 1), "abc");
+    const received = await measurePartialDownload(cacheDir, {
+      id,
+      key: "partial",
+      label: null,
+      totalBytes: 30,
+      parts: [
+        { start: 0, end: 9 },
+        { start: 10, end: 19 },
+        { start: 20, end: 29 },
+      ],
+      updatedAt: new Date().toISOString(),
+    });
+    expect(received).toBe(13);
+  });
+});
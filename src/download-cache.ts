@@ -0,0 +1,236 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AppError, pathExists } from "./utils";
+
+export type DownloadCacheLabel = {
+  // Artifacts that are versions of the same thing share a group, e.g. "hytale-release" or "curseforge-1234".
+  group: string;
+  name: string;
+  version: string;
+};
+
+export type DownloadCacheEntry = {
+  id: string;
+  key: string | null;
+  // Null for artifacts cached before the cache kept an index.
+  label: DownloadCacheLabel | null;
+  size: number;
+  createdAt: string;
+  lastUsedAt: string;
+};
+
+export type PartialDownloadPart = {
+  start: number;
+  end: number;
+};
+
+export type PartialDownload = {
+  id: string;
+  key: string;
+  label: DownloadCacheLabel | null;
+  totalBytes: number;
+  parts: PartialDownloadPart[];
+  updatedAt: string;
+};
+
+export type PartialDownloadEntry = PartialDownload & { received: number };
+
+export type DownloadCachePrunePolicy = {
+  // Newest versions kept per group; 0 keeps every version.
+  keepVersions: number;
+  // Cap on the total size of cached artifacts; 0 means no cap.
+  maxTotalBytes: number;
+};
+
+const ENTRY_FILE_SUFFIX = ".bin";
+const ENTRY_METADATA_SUFFIX = ".json";
+const PARTIAL_DIR_SUFFIX = ".partial";
+const PARTIAL_METADATA_NAME = "download.json";
+
+export function downloadCacheId(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function downloadCacheFilePath(directory: string, id: string): string {
+  return path.join(directory, `${id}${ENTRY_FILE_SUFFIX}`);
+}
+
+/** Range chunks of an unfinished download live here until the download completes. */
+export function partialDownloadDir(directory: string, id: string): string {
+  return path.join(directory, `${id}${PARTIAL_DIR_SUFFIX}`);
+}
+
+export function partialDownloadPartPath(directory: string, id: string, index: number): string {
+  return path.join(partialDownloadDir(directory, id), `${index}.part`);
+}
+
+function assertEntryId(id: string): void {
+  if (!/^[a-f0-9]{64}$/.test(id)) {
+    throw new AppError(400, "Invalid download cache entry id.");
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Writes the index record for a freshly cached artifact, keeping the original creation time. */
+export async function recordDownloadCacheEntry(
+  directory: string,
+  key: string,
+  label: DownloadCacheLabel | null,
+): Promise<DownloadCacheEntry> {
+  const id = downloadCacheId(key);
+  const metadataPath = path.join(directory, `${id}${ENTRY_METADATA_SUFFIX}`);
+  const previous = await readJson<DownloadCacheEntry>(metadataPath);
+  const now = new Date().toISOString();
+  const entry: DownloadCacheEntry = {
+    id,
+    key,
+    label: label ?? previous?.label ?? null,
+    size: (await stat(downloadCacheFilePath(directory, id))).size,
+    createdAt: previous?.createdAt ?? now,
+    lastUsedAt: now,
+  };
+  await writeFile(metadataPath, JSON.stringify(entry, null, 2), "utf8");
+  return entry;
+}
+
+export async function touchDownloadCacheEntry(directory: string, key: string): Promise<void> {
+  const id = downloadCacheId(key);
+  const metadataPath = path.join(directory, `${id}${ENTRY_METADATA_SUFFIX}`);
+  const entry = await readJson<DownloadCacheEntry>(metadataPath);
+  if (entry) {
+    await writeFile(metadataPath, JSON.stringify({ ...entry, lastUsedAt: new Date().toISOString() }, null, 2), "utf8");
+  } else {
+    await recordDownloadCacheEntry(directory, key, null);
+  }
+}
+
+/** Lists cached artifacts, most recently used first. Artifacts without an index record use their mtime. */
+export async function readDownloadCache(directory: string): Promise<DownloadCacheEntry[]> {
+  if (!(await pathExists(directory))) {
+    return [];
+  }
+
+  const entries: DownloadCacheEntry[] = [];
+  for (const name of await readdir(directory)) {
+    if (!name.endsWith(ENTRY_FILE_SUFFIX)) {
+      continue;
+    }
+    const id = name.slice(0, -ENTRY_FILE_SUFFIX.length);
+    if (!/^[a-f0-9]{64}$/.test(id)) {
+      continue;
+    }
+
+    const details = await stat(path.join(directory, name));
+    const recorded = await readJson<DownloadCacheEntry>(path.join(directory, `${id}${ENTRY_METADATA_SUFFIX}`));
+    entries.push({
+      id,
+      key: recorded?.key ?? null,
+      label: recorded?.label ?? null,
+      size: details.size,
+      createdAt: recorded?.createdAt ?? details.mtime.toISOString(),
+      lastUsedAt: recorded?.lastUsedAt ?? details.mtime.toISOString(),
+    });
+  }
+
+  return entries.sort((left, right) => right.lastUsedAt.localeCompare(left.lastUsedAt));
+}
+
+export async function readPartialDownload(directory: string, id: string): Promise<PartialDownload | null> {
+  const partial = await readJson<PartialDownload>(path.join(partialDownloadDir(directory, id), PARTIAL_METADATA_NAME));
+  return partial && partial.id === id && Array.isArray(partial.parts) ? partial : null;
+}
+
+export async function writePartialDownload(directory: string, partial: PartialDownload): Promise<void> {
+  await writeFile(
+    path.join(partialDownloadDir(directory, partial.id), PARTIAL_METADATA_NAME),
+    JSON.stringify(partial, null, 2),
+    "utf8",
+  );
+}
+
+export async function measurePartialDownload(directory: string, partial: PartialDownload): Promise<number> {
+  let received = 0;
+  for (const [index, part] of partial.parts.entries()) {
+    const details = await stat(partialDownloadPartPath(directory, partial.id, index)).catch(() => null);
+    received += Math.min(details?.size ?? 0, part.end - part.start + 1);
+  }
+  return received;
+}
+
+export async function readPartialDownloads(directory: string): Promise<PartialDownloadEntry[]> {
+  if (!(await pathExists(directory))) {
+    return [];
+  }
+
+  const partials: PartialDownloadEntry[] = [];
+  for (const name of await readdir(directory)) {
+    if (!name.endsWith(PARTIAL_DIR_SUFFIX)) {
+      continue;
+    }
+    const partial = await readPartialDownload(directory, name.slice(0, -PARTIAL_DIR_SUFFIX.length));
+    if (partial) {
+      partials.push({ ...partial, received: await measurePartialDownload(directory, partial) });
+    }
+  }
+  return partials.sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+}
+
+/** Removes a cached artifact together with its index record and any unfinished download of it. */
+export async function deleteDownloadCacheEntry(directory: string, id: string): Promise<void> {
+  assertEntryId(id);
+  await rm(downloadCacheFilePath(directory, id), { force: true });
+  await rm(path.join(directory, `${id}${ENTRY_METADATA_SUFFIX}`), { force: true });
+  await rm(partialDownloadDir(directory, id), { recursive: true, force: true });
+}
+
+/**
+ * Decides which cached artifacts a prune deletes: versions beyond the newest `keepVersions` of
+ * each group (by last use), then the least recently used artifacts until the total fits under
+ * `maxTotalBytes`. Protected artifacts are never selected.
+ */
+export function selectDownloadCacheToPrune(
+  entries: DownloadCacheEntry[],
+  policy: DownloadCachePrunePolicy,
+  protectedIds: Set<string>,
+): Array<{ entry: DownloadCacheEntry; reason: string }> {
+  const byLastUse = [...entries].sort((left, right) => right.lastUsedAt.localeCompare(left.lastUsedAt));
+  const prune = new Map<string, { entry: DownloadCacheEntry; reason: string }>();
+
+  if (policy.keepVersions > 0) {
+    const seen = new Map<string, number>();
+    for (const entry of byLastUse) {
+      if (!entry.label) {
+        continue;
+      }
+      const position = (seen.get(entry.label.group) ?? 0) + 1;
+      seen.set(entry.label.group, position);
+      if (position > policy.keepVersions && !protectedIds.has(entry.id)) {
+        prune.set(entry.id, { entry, reason: `older than the newest ${policy.keepVersions} of ${entry.label.name}` });
+      }
+    }
+  }
+
+  if (policy.maxTotalBytes > 0) {
+    let total = byLastUse.filter((entry) => !prune.has(entry.id)).reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of [...byLastUse].reverse()) {
+      if (total <= policy.maxTotalBytes) {
+        break;
+      }
+      if (prune.has(entry.id) || protectedIds.has(entry.id)) {
+        continue;
+      }
+      prune.set(entry.id, { entry, reason: "over the cache size limit" });
+      total -= entry.size;
+    }
+  }
+
+  return [...prune.values()];
+}
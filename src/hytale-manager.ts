@@ -1,5 +1,6 @@
 import path from "node:path";
 import {
+  appendFile,
   chmod,
   copyFile,
   cp,
@@ -9,14 +10,113 @@ import {
   rename,
   rm,
   stat,
+  statfs,
   writeFile,
 } from "node:fs/promises";
 import { createWriteStream, WriteStream } from "node:fs";
 import { createHash, randomUUID } from "node:crypto";
 import { config, parseArgs } from "./config";
-import { getAppSetting, setAppSetting } from "./db";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+import {
+  BackupTarget,
+  BackupUploadStatus,
+  BackupVerification,
+  BackupVerificationMode,
+  closeOpenPlayerSessions,
+  closePlayerSession,
+  createBackupTarget,
+  createScheduledJob,
+  deleteAppSetting,
+  deleteBackupTarget as deleteBackupTargetRecord,
+  deleteBackupUpload,
+  deleteBackupVerification,
+  deleteBanDetails,
+  deleteScheduledJob,
+  failInterruptedScheduledJobRuns,
+  finishScheduledJobRun,
+  getAppSetting,
+  getBackupTarget,
+  getBackupTargetByName,
+  getScheduledJob,
+  listBackupTargets,
+  listBackupUploads,
+  listBackupVerifications,
+  listBanDetails,
+  listScheduledJobRuns,
+  listScheduledJobs,
+  listPlayerSessions,
+  listServerCrashes,
+  openPlayerSession,
+  PlayerSession,
+  recordBackupUpload,
+  recordBackupVerification,
+  recordBanDetails,
+  recordServerCrash,
+  ScheduledJob,
+  ScheduledJobAction,
+  ScheduledJobRun,
+  ScheduledJobRunStatus,
+  ServerCrash,
+  setAppSetting,
+  setBackupTargetSyncResult,
+  setScheduledJobNextRun,
+  startScheduledJobRun,
+  updateBackupTarget,
+  updateScheduledJob,
+} from "./db";
 import { decryptSecret, encryptSecret } from "./secrets";
 import { AppError, pathExists, sanitizeFilename, sleep, timestampId } from "./utils";
+import { extractZipArchive, ZipArchive, ZipWriter, ZipWrittenEntry } from "./zip";
+import { BackupRetentionPolicy, isRetentionPolicyEmpty, selectBackupsToPrune } from "./backup-retention";
+import {
+  deleteSafetySnapshot,
+  readSafetySnapshots,
+  restoreSafetySnapshot,
+  SafetySnapshot,
+  SafetySnapshotServerVersion,
+  writeSafetySnapshot,
+} from "./safety-snapshots";
+import {
+  deleteDownloadCacheEntry as deleteDownloadCacheFiles,
+  DownloadCacheEntry,
+  downloadCacheFilePath,
+  downloadCacheId,
+  DownloadCacheLabel,
+  measurePartialDownload,
+  PartialDownloadEntry,
+  partialDownloadDir,
+  partialDownloadPartPath,
+  readDownloadCache,
+  readPartialDownload,
+  readPartialDownloads,
+  recordDownloadCacheEntry,
+  selectDownloadCacheToPrune,
+  touchDownloadCacheEntry,
+  writePartialDownload,
+} from "./download-cache";
+import {
+  deleteServerVersion as deleteServerVersionFiles,
+  readServerVersions,
+  retainServerVersion,
+  selectServerVersionsToPrune,
+  ServerVersion,
+  serverVersionFilesDir,
+  serverVersionId,
+} from "./server-versions";
+import { defaultStagingPort, readStagingInstall, StagingInstall, StagingWorldSource, writeStagingInstall } from "./staging";
+import {
+  BackupStorage,
+  createDirectoryStorage,
+  createS3Storage,
+  DirectoryTargetSettings,
+  isBackupTargetKind,
+  normalizeDirectorySettings,
+  normalizeS3Credentials,
+  normalizeS3Settings,
+  RemoteObject,
+  S3Credentials,
+  S3TargetSettings,
+} from "./backup-targets";
 
 export type ServerStatus = "stopped" | "starting" | "running" | "stopping" | "installing";
 
@@ -53,11 +153,30 @@ type NetworkCounterSample = {
 
 type InstallAvailability = {
   patchline: string;
+  installedPatchline: string | null;
   installedVersion: string | null;
   latestVersion: string | null;
+  pinnedVersion: string | null;
   updateAvailable: boolean;
 };
 
+export type PatchlineStatus = {
+  patchline: string;
+  latestVersion: string | null;
+  selected: boolean;
+  installed: boolean;
+};
+
+export type StagingState = {
+  status: "stopped" | "creating" | "running" | "stopping";
+  install: StagingInstall | null;
+};
+
+export type ServerVersionEntry = ServerVersion & {
+  active: boolean;
+  pinned: boolean;
+};
+
 export type ModEntry = {
   filename: string;
   size: number;
@@ -116,6 +235,79 @@ export type CurseForgeInstalledMod = {
   localFileMissing: boolean;
 };
 
+export type CurseForgeStatus = {
+  configured: boolean;
+  source: "env" | "dashboard" | null;
+  gameId: number | null;
+  classId: number;
+};
+
+export type ShutdownReason = "stop" | "restart" | "update";
+
+export type AvailableModUpdate = {
+  source: "curseforge" | "nexus";
+  modId: number;
+  modName: string;
+  fileName: string;
+  latestFileName: string | null;
+};
+
+export type UpdateCheckResult = {
+  checkedAt: string;
+  server: { patchline: string; installedVersion: string | null; latestVersion: string } | null;
+  mods: AvailableModUpdate[];
+  errors: string[];
+};
+
+export type AutoUpdateRun = {
+  startedAt: string;
+  finishedAt: string | null;
+  ok: boolean | null;
+  message: string;
+};
+
+export type PendingAutoRestart = {
+  attempt: number;
+  restartAt: string;
+};
+
+export type ShutdownCountdown = {
+  reason: ShutdownReason;
+  startedAt: string;
+  endsAt: string;
+};
+
+export type ScheduledJobPayload = {
+  command?: string;
+  note?: string;
+};
+
+export type ScheduledJobEntry = Omit<ScheduledJob, "payload"> & {
+  payload: ScheduledJobPayload;
+  running: boolean;
+};
+
+export type SchedulerState = {
+  jobs: ScheduledJobEntry[];
+  runs: ScheduledJobRun[];
+};
+
+export type NexusStatus = {
+  configured: boolean;
+  source: "env" | "dashboard" | null;
+  gameDomain: string | null;
+  userName: string | null;
+  premium: boolean;
+  ssoAvailable: boolean;
+  ssoPending: boolean;
+};
+
+export type NexusSsoSession = {
+  id: string;
+  url: string;
+  expiresAt: string;
+};
+
 export type NexusSearchSort = "popularity" | "downloads" | "lastUpdated" | "name";
 
 export type NexusSearchMod = {
@@ -176,6 +368,143 @@ export type BackupEntry = {
   source: "manual" | "native";
   format: "directory" | "zip";
   itemCount: number;
+  sha256: string | null;
+  pinned: boolean;
+  replicas: BackupReplica[];
+  consistency: BackupConsistency | null;
+  verification: BackupVerification | null;
+};
+
+// offline: server stopped; flushed: saves flushed and paused while copying; live: copied from a running server as-is;
+// imported: uploaded through the dashboard from elsewhere.
+export type BackupConsistency = "offline" | "flushed" | "live" | "imported";
+
+export type BackupImport = {
+  id: string;
+  filename: string;
+  size: number;
+  received: number;
+  sha256: string | null;
+  note: string;
+  createdAt: string;
+};
+
+type BackupImportRecord = Omit<BackupImport, "received"> & { userId: number };
+
+export type ServerArchiveUpload = {
+  id: string;
+  filename: string;
+  size: number;
+  received: number;
+  sha256: string | null;
+  version: string;
+  patchline: string;
+  createdAt: string;
+};
+
+type ServerArchiveUploadRecord = Omit<ServerArchiveUpload, "received"> & { userId: number };
+
+export type InstallVerification = {
+  checkedAt: string;
+  patchline: string;
+  version: string;
+  checked: number;
+  modified: string[];
+  missing: string[];
+  extra: string[];
+  ok: boolean;
+};
+
+export type InstallRepairResult = {
+  repaired: string[];
+  unrepaired: string[];
+  verification: InstallVerification;
+};
+
+export type DownloadCacheListing = {
+  // `inUse` marks the archive of the current install, which repairs extract files from.
+  entries: Array<DownloadCacheEntry & { inUse: boolean }>;
+  partials: PartialDownloadEntry[];
+  totalBytes: number;
+};
+
+export type DownloadCachePruneResult = {
+  deleted: Array<{ id: string; name: string; size: number; reason: string }>;
+  partialsRemoved: number;
+  freedBytes: number;
+};
+
+export type OfflineInstallResult = {
+  installed: boolean;
+  patchline: string;
+  version: string;
+  updated: boolean;
+};
+
+export type BackupDownload = {
+  filename: string;
+  size: number | null;
+  body: Blob | ReadableStream<Uint8Array>;
+};
+
+export type BackupContentEntry = {
+  path: string;
+  size: number;
+};
+
+export type BackupContents = {
+  id: string;
+  name: string;
+  source: BackupEntry["source"];
+  files: BackupContentEntry[];
+  totalBytes: number;
+  truncated: boolean;
+};
+
+export type BackupRestoreTarget = "live" | "side";
+
+export type BackupReplica = {
+  targetId: number;
+  targetName: string;
+  status: BackupUploadStatus;
+  error: string | null;
+  updatedAt: string;
+};
+
+export type BackupTargetEntry = {
+  id: number;
+  name: string;
+  kind: BackupTarget["kind"];
+  enabled: boolean;
+  keepLast: number;
+  endpoint: string | null;
+  region: string | null;
+  bucket: string | null;
+  prefix: string | null;
+  path: string | null;
+  hasCredentials: boolean;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RemoteBackupEntry = {
+  id: string;
+  source: "manual" | "native";
+  name: string;
+  size: number;
+  // When the backup was taken; `modifiedAt` is only when it was uploaded.
+  createdAt: string;
+  modifiedAt: string;
+};
+
+export type BackupRetentionRun = {
+  ranAt: string;
+  trigger: string;
+  deleted: Array<{ name: string; reason: string }>;
+  kept: number;
+  totalBytes: number;
 };
 
 export type WhitelistEntry = {
@@ -190,11 +519,74 @@ export type WhitelistState = {
   entries: WhitelistEntry[];
 };
 
+export type BanEntry = {
+  uuid: string;
+  username: string | null;
+  reason: string | null;
+  bannedBy: string | null;
+  bannedAt: string | null;
+  expiresAt: string | null;
+};
+
+export type OperatorEntry = {
+  uuid: string;
+  username: string | null;
+};
+
+export type PermissionUserEntry = {
+  uuid: string;
+  username: string | null;
+  groups: string[];
+  permissions: string[];
+};
+
+export type PermissionsState = {
+  groups: Record<string, string[]>;
+  users: PermissionUserEntry[];
+};
+
+export type ModerationState = {
+  bans: BanEntry[];
+  ops: OperatorEntry[];
+  permissions: PermissionsState;
+  // Set when the server's moderation files could not be read; the lists are then empty.
+  error?: string;
+};
+
+export type OnlinePlayer = {
+  uuid: string | null;
+  username: string;
+  joinedAt: string;
+  sessionSeconds: number;
+};
+
+type BackupFileRecord = {
+  path: string;
+  size: number;
+  sha256: string;
+};
+
+/**
+ * `metadata.json` of a manual backup. Backups written before archives were introduced have
+ * no `format` and keep their items as plain copies next to the metadata file.
+ */
 type BackupMetadata = {
   id: string;
   createdAt: string;
   note: string;
   items: string[];
+  format?: "directory" | "zip";
+  archive?: {
+    file: string;
+    size: number;
+    sha256: string;
+    uncompressedSize: number;
+  };
+  files?: BackupFileRecord[];
+  pinned?: boolean;
+  consistency?: BackupConsistency;
+  // Folder-style backups are never changed after they are written, so their size is measured once and kept here.
+  size?: number;
 };
 
 type WhitelistFileData = {
@@ -202,6 +594,38 @@ type WhitelistFileData = {
   list: string[];
 };
 
+type BansFileData = {
+  entries: Record<string, unknown>[];
+};
+
+type OpsFileData = {
+  shape: "array" | "object";
+  list: string[];
+};
+
+type PermissionsFileUser = {
+  groups: string[];
+  permissions: string[];
+  extra: Record<string, unknown>;
+};
+
+type PermissionsFileData = {
+  extra: Record<string, unknown>;
+  users: Map<string, PermissionsFileUser>;
+  groups: Map<string, string[]>;
+};
+
+type PlayerFileChange<T> = {
+  description: string;
+  commands: string[];
+  read: () => Promise<T>;
+  // Whether the console commands took effect; the direct edit then only fills in what the commands cannot express.
+  confirmed: (data: T) => boolean;
+  applied: (data: T) => boolean;
+  apply: (data: T) => T;
+  write: (data: T) => Promise<void>;
+};
+
 type PlayerNameCacheEntry = {
   username: string;
   updatedAt: string;
@@ -211,10 +635,28 @@ type PlayerNameCacheData = {
   byUuid: Record<string, PlayerNameCacheEntry>;
 };
 
+type InstalledServerFile = {
+  // Relative to the server directory, with forward slashes.
+  path: string;
+  size: number;
+  sha256: string;
+  // Entry name in the install archive, used to extract the file again during a repair.
+  archiveEntry: string | null;
+};
+
+type InstalledServerArchive = {
+  cacheKey: string;
+  sha256: string | null;
+  downloadPath: string | null;
+};
+
 type InstalledServerMetadata = {
   patchline: string;
   version: string;
   installedAt: string;
+  // Missing for installs made before file hashes were recorded.
+  files?: InstalledServerFile[];
+  archive?: InstalledServerArchive | null;
 };
 
 type JavaRuntimeInstallResult = {
@@ -270,6 +712,8 @@ type AdoptiumAsset = {
 
 type DownloadRequestOptions = {
   cacheKey?: string;
+  // Shown in the cache listing and used to group versions when pruning.
+  cacheLabel?: DownloadCacheLabel;
   expectedSha256?: string | null;
 };
 
@@ -386,6 +830,46 @@ type NexusRuntimeConfig = {
   userName: string;
 };
 
+type ShutdownCountdownState = ShutdownCountdown & {
+  cancel: () => void;
+  cancelled: boolean;
+};
+
+type OnlinePlayerState = {
+  uuid: string | null;
+  username: string;
+  joinedAt: string;
+  sessionId: number;
+};
+
+type PlayerPatterns = {
+  join: RegExp | null;
+  leave: RegExp | null;
+};
+
+type StartupReadiness = {
+  pattern: RegExp;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+type NexusSsoPending = {
+  id: string;
+  socket: WebSocket;
+  timer: Timer;
+  gameDomain: string | undefined;
+  settled: boolean;
+};
+
+type NexusSsoMessage = {
+  success?: boolean;
+  data?: {
+    connection_token?: string;
+    api_key?: string;
+  } | null;
+  error?: string | null;
+};
+
 type NexusApiKeyValidation = {
   user_id?: number;
   key?: string | null;
@@ -491,6 +975,35 @@ type ServerRuntimeSettings = {
   javaMinHeapMb: number;
   javaMaxHeapMb: number;
   javaExtraArgs: string;
+  shutdownWarningEnabled: boolean;
+  shutdownWarningIntervals: string;
+  shutdownWarningCommand: string;
+  autoRestartEnabled: boolean;
+  autoRestartMaxAttempts: number;
+  backupRetentionEnabled: boolean;
+  backupRetentionKeepLast: number;
+  backupRetentionKeepHourly: number;
+  backupRetentionKeepDaily: number;
+  backupRetentionKeepWeekly: number;
+  backupRetentionKeepMonthly: number;
+  backupRetentionMaxTotalMb: number;
+  consistentBackupEnabled: boolean;
+  backupSaveOffCommand: string;
+  backupFlushCommand: string;
+  backupFlushConfirmPattern: string;
+  backupSaveOnCommand: string;
+  backupFlushTimeoutSeconds: number;
+  safetySnapshotsEnabled: boolean;
+  safetySnapshotKeep: number;
+  safetySnapshotMaxAgeHours: number;
+  serverVersionsKeep: number;
+  updateCheckEnabled: boolean;
+  updateCheckIntervalMinutes: number;
+  autoUpdateEnabled: boolean;
+  autoUpdateOnlyWhenEmpty: boolean;
+  autoUpdateWindow: string;
+  downloadCacheKeepVersions: number;
+  downloadCacheMaxSizeMb: number;
 };
 
 const CURSEFORGE_SETTING_API_KEY = "curseforge.api_key.encrypted";
@@ -500,6 +1013,19 @@ const NEXUS_SETTING_API_KEY = "nexus.api_key.encrypted";
 const NEXUS_SETTING_GAME_DOMAIN = "nexus.game_domain";
 const NEXUS_SETTING_IS_PREMIUM = "nexus.is_premium";
 const NEXUS_SETTING_USER_NAME = "nexus.user_name";
+const SCHEDULED_JOB_ACTIONS: ScheduledJobAction[] = [
+  "restart",
+  "backup",
+  "backup.testRestore",
+  "command",
+  "mods.updateAll",
+  "server.update",
+];
+const SCHEDULER_TICK_MS = 15_000;
+const SCHEDULER_RUN_HISTORY_PER_JOB = 50;
+const SCHEDULER_RECENT_RUNS_LIMIT = 100;
+const NEXUS_SSO_PROTOCOL_VERSION = 2;
+const NEXUS_SSO_TIMEOUT_MS = 10 * 60_000;
 const SERVER_BIND_PORT_SETTING = "server.bind_port";
 const SERVER_AUTO_BACKUP_ENABLED_SETTING = "server.auto_backup_enabled";
 const SERVER_BACKUP_FREQUENCY_MINUTES_SETTING = "server.backup_frequency_minutes";
@@ -507,14 +1033,127 @@ const SERVER_BACKUP_MAX_COUNT_SETTING = "server.backup_max_count";
 const SERVER_JAVA_MIN_HEAP_MB_SETTING = "server.java_min_heap_mb";
 const SERVER_JAVA_MAX_HEAP_MB_SETTING = "server.java_max_heap_mb";
 const SERVER_JAVA_EXTRA_ARGS_SETTING = "server.java_extra_args";
+const SERVER_AUTO_RESTART_ENABLED_SETTING = "server.auto_restart_enabled";
+const SERVER_AUTO_RESTART_MAX_ATTEMPTS_SETTING = "server.auto_restart_max_attempts";
+const SERVER_SHUTDOWN_WARNING_ENABLED_SETTING = "server.shutdown_warning_enabled";
+const SERVER_SHUTDOWN_WARNING_INTERVALS_SETTING = "server.shutdown_warning_intervals";
+const SERVER_SHUTDOWN_WARNING_COMMAND_SETTING = "server.shutdown_warning_command";
+const SERVER_BACKUP_RETENTION_ENABLED_SETTING = "server.backup_retention_enabled";
+const SERVER_BACKUP_RETENTION_KEEP_LAST_SETTING = "server.backup_retention_keep_last";
+const SERVER_BACKUP_RETENTION_KEEP_HOURLY_SETTING = "server.backup_retention_keep_hourly";
+const SERVER_BACKUP_RETENTION_KEEP_DAILY_SETTING = "server.backup_retention_keep_daily";
+const SERVER_BACKUP_RETENTION_KEEP_WEEKLY_SETTING = "server.backup_retention_keep_weekly";
+const SERVER_BACKUP_RETENTION_KEEP_MONTHLY_SETTING = "server.backup_retention_keep_monthly";
+const SERVER_BACKUP_RETENTION_MAX_TOTAL_MB_SETTING = "server.backup_retention_max_total_mb";
+const SERVER_CONSISTENT_BACKUP_ENABLED_SETTING = "server.consistent_backup_enabled";
+const SERVER_BACKUP_SAVE_OFF_COMMAND_SETTING = "server.backup_save_off_command";
+const SERVER_BACKUP_FLUSH_COMMAND_SETTING = "server.backup_flush_command";
+const SERVER_BACKUP_FLUSH_CONFIRM_PATTERN_SETTING = "server.backup_flush_confirm_pattern";
+const SERVER_BACKUP_SAVE_ON_COMMAND_SETTING = "server.backup_save_on_command";
+const SERVER_BACKUP_FLUSH_TIMEOUT_SECONDS_SETTING = "server.backup_flush_timeout_seconds";
+const SERVER_SAFETY_SNAPSHOTS_ENABLED_SETTING = "server.safety_snapshots_enabled";
+const SERVER_SAFETY_SNAPSHOT_KEEP_SETTING = "server.safety_snapshot_keep";
+const SERVER_SAFETY_SNAPSHOT_MAX_AGE_HOURS_SETTING = "server.safety_snapshot_max_age_hours";
+const SERVER_PINNED_VERSION_SETTING = "server.pinned_version";
+const SERVER_VERSIONS_KEEP_SETTING = "server.versions_keep";
+const SERVER_PATCHLINE_SETTING = "server.patchline";
+const SERVER_UPDATE_CHECK_ENABLED_SETTING = "server.update_check_enabled";
+const SERVER_UPDATE_CHECK_INTERVAL_MINUTES_SETTING = "server.update_check_interval_minutes";
+const SERVER_AUTO_UPDATE_ENABLED_SETTING = "server.auto_update_enabled";
+const SERVER_AUTO_UPDATE_ONLY_WHEN_EMPTY_SETTING = "server.auto_update_only_when_empty";
+const SERVER_AUTO_UPDATE_WINDOW_SETTING = "server.auto_update_window";
+const SERVER_DOWNLOAD_CACHE_KEEP_VERSIONS_SETTING = "server.download_cache_keep_versions";
+const SERVER_DOWNLOAD_CACHE_MAX_SIZE_MB_SETTING = "server.download_cache_max_size_mb";
+// The downloader has no patchline index, so these are always offered; others can be entered by name.
+const KNOWN_PATCHLINES = ["release", "pre-release"];
+const PATCHLINE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,39}$/;
 const DEFAULT_SERVER_BIND_PORT = 25565;
 const DEFAULT_BACKUP_FREQUENCY_MINUTES = 30;
 const DEFAULT_BACKUP_MAX_COUNT = 12;
 const DEFAULT_SERVER_JAVA_MIN_HEAP_MB = 2048;
 const DEFAULT_SERVER_JAVA_MAX_HEAP_MB = 4096;
+const DEFAULT_AUTO_RESTART_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKUP_RETENTION_KEEP_LAST = 10;
+const DEFAULT_BACKUP_RETENTION_KEEP_HOURLY = 0;
+const DEFAULT_BACKUP_RETENTION_KEEP_DAILY = 7;
+const DEFAULT_BACKUP_RETENTION_KEEP_WEEKLY = 4;
+const DEFAULT_BACKUP_RETENTION_KEEP_MONTHLY = 6;
+const MAX_BACKUP_RETENTION_COUNT = 1000;
+const MAX_BACKUP_RETENTION_TOTAL_MB = 100 * 1024 * 1024;
+const DEFAULT_BACKUP_FLUSH_COMMAND = "/save";
+// Matches only the completion line of the flush command (after optional `[...]` log prefixes), so chat
+// messages or unrelated log lines that merely mention saving cannot confirm the flush early.
+const DEFAULT_BACKUP_FLUSH_CONFIRM_PATTERN = String.raw`^(?:\[[^\]]*\]\s*)*(?:Saved all worlds|Save complete)\.?\s*$`;
+const DEFAULT_BACKUP_FLUSH_TIMEOUT_SECONDS = 60;
+const BACKUP_SYNC_INTERVAL_MS = 60_000;
+const MAX_BACKUP_CONTENT_ENTRIES = 50_000;
+const MAX_RESTORE_SELECTION_PATHS = 100;
+const SAFETY_SNAPSHOTS_DIR_NAME = "safety-snapshots";
+const SERVER_VERSIONS_DIR_NAME = "server-versions";
+const STAGING_DIR_NAME = "staging";
+const BACKUP_IMPORT_PREFIX = "backup-import-";
+const SERVER_ARCHIVE_UPLOAD_PREFIX = "server-archive-";
+const MAX_UPLOAD_CHUNK_BYTES = 32 * 1024 * 1024;
+const UPLOAD_SESSION_STALE_MS = 24 * 60 * 60_000;
+const DEFAULT_SAFETY_SNAPSHOT_KEEP = 5;
+const MAX_SAFETY_SNAPSHOT_KEEP = 50;
+const DEFAULT_SAFETY_SNAPSHOT_MAX_AGE_HOURS = 72;
+const MAX_SAFETY_SNAPSHOT_MAX_AGE_HOURS = 24 * 30;
+const DEFAULT_SERVER_VERSIONS_KEEP = 5;
+const MAX_SERVER_VERSIONS_KEEP = 100;
+const DEFAULT_UPDATE_CHECK_INTERVAL_MINUTES = 60;
+const MIN_UPDATE_CHECK_INTERVAL_MINUTES = 5;
+const MAX_UPDATE_CHECK_INTERVAL_MINUTES = 24 * 60;
+const DEFAULT_DOWNLOAD_CACHE_KEEP_VERSIONS = 3;
+const MAX_DOWNLOAD_CACHE_KEEP_VERSIONS = 100;
+const MAX_DOWNLOAD_CACHE_SIZE_MB = 10 * 1024 * 1024;
+// Unfinished downloads nobody resumed within this time are dropped by the next prune.
+const PARTIAL_DOWNLOAD_STALE_MS = 7 * 24 * 60 * 60_000;
+const PARTIAL_DOWNLOAD_RETRIES = 3;
+const SAFETY_SNAPSHOT_PRUNE_INTERVAL_MS = 60 * 60_000;
+// Install snapshots only copy top-level files up to this size (configs), never jars or Assets.zip.
+const SAFETY_SNAPSHOT_INSTALL_FILE_MAX_BYTES = 1024 * 1024;
+// Native backups are written by the server process; wait until the file has been left alone for a while.
+const NATIVE_BACKUP_SETTLE_MS = 60_000;
+const BACKUP_UPLOAD_RETRY_MS = 15 * 60_000;
+const MAX_BACKUP_TARGET_KEEP_LAST = 1000;
+const AUTO_RESTART_BASE_DELAY_MS = 10_000;
+const AUTO_RESTART_MAX_DELAY_MS = 5 * 60_000;
+// A server that stayed up this long is considered healthy again, which resets the crash-loop counter.
+const CRASH_STABLE_UPTIME_MS = 10 * 60_000;
+const CRASH_TERMINAL_TAIL_LINES = 200;
+const CRASH_HISTORY_LIMIT = 100;
+const PLAYER_FILE_COMMAND_TIMEOUT_MS = 5_000;
+const CONSOLE_SENDER_UUID = "00000000-0000-0000-0000-000000000000";
+const PERMISSION_NODE_PATTERN = /^-?[A-Za-z0-9_.*-]{1,128}$/;
+const PERMISSION_GROUP_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MOD_MANIFEST_MAX_BYTES = 1024 * 1024;
+const MANUAL_BACKUP_ARCHIVE_NAME = "backup.zip";
+const MANUAL_BACKUP_ITEMS = [
+  "universe",
+  "mods",
+  "config.json",
+  "permissions.json",
+  "whitelist.json",
+  "bans.json",
+  "ops.json",
+  "server.properties",
+];
+const UUID_IN_LINE_PATTERN = /\b([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i;
+const DEFAULT_SHUTDOWN_WARNING_INTERVALS = "5m,1m,30s,10s";
+const DEFAULT_SHUTDOWN_WARNING_COMMAND = "/say Server {action} in {time}.";
+const MAX_SHUTDOWN_WARNING_SECONDS = 60 * 60;
+const SHUTDOWN_REASON_VERBS: Record<ShutdownReason, string> = {
+  stop: "stopping",
+  restart: "restarting",
+  update: "updating",
+};
 
 export class HytaleManager {
   private process: Bun.Subprocess<"pipe", "pipe", "pipe"> | null = null;
+  // The staging side install runs next to the live server; it has no crash handling, players or metrics.
+  private stagingProcess: Bun.Subprocess<"pipe", "pipe", "pipe"> | null = null;
+  private stagingStatus: StagingState["status"] = "stopped";
   private status: ServerStatus = "stopped";
   private startedAt: string | null = null;
   private lastExitCode: number | null = null;
@@ -527,7 +1166,44 @@ export class HytaleManager {
   private readonly uploads = new Map<string, UploadSession>();
   private javaInstallPromise: Promise<JavaRuntimeInstallResult> | null = null;
   private initializationPromise: Promise<void> | null = null;
-  private latestVersionCache: { patchline: string; manifest: VersionManifest; fetchedAt: number } | null = null;
+  // Keyed by patchline; a null manifest remembers a failed lookup so snapshots do not retry it on every call.
+  private readonly latestVersionCache = new Map<string, { manifest: VersionManifest | null; fetchedAt: number }>();
+  private nexusSso: NexusSsoPending | null = null;
+  private shutdownCountdown: ShutdownCountdownState | null = null;
+  private stopRequested = false;
+  private startupReadiness: StartupReadiness | null = null;
+  private consecutiveCrashes = 0;
+  private lastBackupRetentionRun: BackupRetentionRun | null = null;
+  private backupRetentionRunning = false;
+  private backupSyncRunning = false;
+  private backupSyncQueued = false;
+  private lastBackupSyncAt = 0;
+  private outputWaiters = new Set<(line: string) => void>();
+  private consistentSnapshotRunning = false;
+  private lastSafetySnapshotPruneAt = 0;
+  private lastUpdateCheckAt = 0;
+  private lastUpdateCheck: UpdateCheckResult | null = null;
+  private lastNotifiedUpdates = "";
+  private lastAutoUpdateAttempt = "";
+  private lastAutoUpdate: AutoUpdateRun | null = null;
+  private updateCheckRunning = false;
+  private autoUpdateRunning = false;
+  private installVerificationRunning = false;
+  private readonly activeDownloadIds = new Set<string>();
+  private readonly uploadSessionsBusy = new Set<string>();
+  private readonly backupVerificationsRunning = new Set<string>();
+  private autoRestartTimer: Timer | null = null;
+  private pendingAutoRestart: PendingAutoRestart | null = null;
+  private schedulerTimer: Timer | null = null;
+  private readonly runningScheduledJobs = new Set<number>();
+  private readonly onlinePlayers = new Map<string, OnlinePlayerState>();
+  private playerPatterns: PlayerPatterns | null = null;
+  private playerEventQueue: Promise<void> = Promise.resolve();
+  private banSweepRunning = false;
+  // Sizes of folder-style backups without metadata.json, keyed by path and valid while the directory mtime matches.
+  private readonly directoryBackupSizes = new Map<string, { mtimeMs: number; size: number }>();
+  // The sweep runs every tick, so a failure is reported once until the error changes or the sweep succeeds.
+  private lastBanSweepError: string | null = null;
   private broadcast: BroadcastFn;
 
   constructor(broadcast: BroadcastFn) {
@@ -556,8 +1232,12 @@ export class HytaleManager {
       lifecycleReady: installed && !!managedJavaCommand,
       installedVersion: installAvailability.installedVersion,
       latestVersion: installAvailability.latestVersion,
+      pinnedVersion: installAvailability.pinnedVersion,
       updateAvailable: installAvailability.updateAvailable,
       patchline: installAvailability.patchline,
+      installedPatchline: installAvailability.installedPatchline,
+      patchlines: await this.listPatchlines(),
+      staging: await this.getStagingState(),
       command,
       serverDir: config.hytale.serverDir,
       bindPort: runtimeSettings.bindPort,
@@ -568,6 +1248,42 @@ export class HytaleManager {
       javaMinHeapMb: runtimeSettings.javaMinHeapMb,
       javaMaxHeapMb: runtimeSettings.javaMaxHeapMb,
       javaExtraArgs: runtimeSettings.javaExtraArgs,
+      shutdownWarningEnabled: runtimeSettings.shutdownWarningEnabled,
+      shutdownWarningIntervals: runtimeSettings.shutdownWarningIntervals,
+      shutdownWarningCommand: runtimeSettings.shutdownWarningCommand,
+      shutdownCountdown: this.toShutdownCountdown(),
+      autoRestartEnabled: runtimeSettings.autoRestartEnabled,
+      autoRestartMaxAttempts: runtimeSettings.autoRestartMaxAttempts,
+      backupRetentionEnabled: runtimeSettings.backupRetentionEnabled,
+      backupRetentionKeepLast: runtimeSettings.backupRetentionKeepLast,
+      backupRetentionKeepHourly: runtimeSettings.backupRetentionKeepHourly,
+      backupRetentionKeepDaily: runtimeSettings.backupRetentionKeepDaily,
+      backupRetentionKeepWeekly: runtimeSettings.backupRetentionKeepWeekly,
+      backupRetentionKeepMonthly: runtimeSettings.backupRetentionKeepMonthly,
+      backupRetentionMaxTotalMb: runtimeSettings.backupRetentionMaxTotalMb,
+      lastBackupRetentionRun: this.lastBackupRetentionRun,
+      consistentBackupEnabled: runtimeSettings.consistentBackupEnabled,
+      backupSaveOffCommand: runtimeSettings.backupSaveOffCommand,
+      backupFlushCommand: runtimeSettings.backupFlushCommand,
+      backupFlushConfirmPattern: runtimeSettings.backupFlushConfirmPattern,
+      backupSaveOnCommand: runtimeSettings.backupSaveOnCommand,
+      backupFlushTimeoutSeconds: runtimeSettings.backupFlushTimeoutSeconds,
+      safetySnapshotsEnabled: runtimeSettings.safetySnapshotsEnabled,
+      safetySnapshotKeep: runtimeSettings.safetySnapshotKeep,
+      safetySnapshotMaxAgeHours: runtimeSettings.safetySnapshotMaxAgeHours,
+      serverVersionsKeep: runtimeSettings.serverVersionsKeep,
+      updateCheckEnabled: runtimeSettings.updateCheckEnabled,
+      updateCheckIntervalMinutes: runtimeSettings.updateCheckIntervalMinutes,
+      autoUpdateEnabled: runtimeSettings.autoUpdateEnabled,
+      autoUpdateOnlyWhenEmpty: runtimeSettings.autoUpdateOnlyWhenEmpty,
+      autoUpdateWindow: runtimeSettings.autoUpdateWindow,
+      downloadCacheKeepVersions: runtimeSettings.downloadCacheKeepVersions,
+      downloadCacheMaxSizeMb: runtimeSettings.downloadCacheMaxSizeMb,
+      lastUpdateCheck: this.lastUpdateCheck,
+      lastAutoUpdate: this.lastAutoUpdate,
+      consecutiveCrashes: this.consecutiveCrashes,
+      pendingAutoRestart: this.pendingAutoRestart,
+      players: this.getOnlinePlayers(),
       metricsSampling: this.status === "running" || this.status === "starting",
       metricsSampleIntervalMs: this.getMetricsSampleIntervalMs(),
       metricsHistoryLimit: this.getMetricsHistoryLimit(),
@@ -584,6 +1300,35 @@ export class HytaleManager {
     javaMinHeapMb?: number;
     javaMaxHeapMb?: number;
     javaExtraArgs?: string;
+    shutdownWarningEnabled?: boolean;
+    shutdownWarningIntervals?: string;
+    shutdownWarningCommand?: string;
+    autoRestartEnabled?: boolean;
+    autoRestartMaxAttempts?: number;
+    backupRetentionEnabled?: boolean;
+    backupRetentionKeepLast?: number;
+    backupRetentionKeepHourly?: number;
+    backupRetentionKeepDaily?: number;
+    backupRetentionKeepWeekly?: number;
+    backupRetentionKeepMonthly?: number;
+    backupRetentionMaxTotalMb?: number;
+    consistentBackupEnabled?: boolean;
+    backupSaveOffCommand?: string;
+    backupFlushCommand?: string;
+    backupFlushConfirmPattern?: string;
+    backupSaveOnCommand?: string;
+    backupFlushTimeoutSeconds?: number;
+    safetySnapshotsEnabled?: boolean;
+    safetySnapshotKeep?: number;
+    safetySnapshotMaxAgeHours?: number;
+    serverVersionsKeep?: number;
+    updateCheckEnabled?: boolean;
+    updateCheckIntervalMinutes?: number;
+    autoUpdateEnabled?: boolean;
+    autoUpdateOnlyWhenEmpty?: boolean;
+    autoUpdateWindow?: string;
+    downloadCacheKeepVersions?: number;
+    downloadCacheMaxSizeMb?: number;
   }): Promise<Awaited<ReturnType<HytaleManager["snapshot"]>>> {
     const current = await this.getServerRuntimeSettings();
     const next: ServerRuntimeSettings = { ...current };
@@ -654,92 +1399,615 @@ export class HytaleManager {
       next.javaExtraArgs = candidate;
     }
 
-    setAppSetting(SERVER_BIND_PORT_SETTING, String(next.bindPort));
-    setAppSetting(SERVER_AUTO_BACKUP_ENABLED_SETTING, next.autoBackupEnabled ? "1" : "0");
-    setAppSetting(SERVER_BACKUP_FREQUENCY_MINUTES_SETTING, String(next.backupFrequencyMinutes));
-    setAppSetting(SERVER_BACKUP_MAX_COUNT_SETTING, String(next.backupMaxCount));
-    setAppSetting(SERVER_JAVA_MIN_HEAP_MB_SETTING, String(next.javaMinHeapMb));
-    setAppSetting(SERVER_JAVA_MAX_HEAP_MB_SETTING, String(next.javaMaxHeapMb));
-    setAppSetting(SERVER_JAVA_EXTRA_ARGS_SETTING, next.javaExtraArgs);
-
-    await mkdir(next.backupDirectory, { recursive: true });
+    if (input.shutdownWarningEnabled !== undefined) {
+      next.shutdownWarningEnabled = input.shutdownWarningEnabled;
+    }
 
-    this.pushTerminal(
-      `Runtime settings updated: bind=0.0.0.0:${next.bindPort}, autoBackup=${next.autoBackupEnabled ? "on" : "off"}, backupFrequency=${next.backupFrequencyMinutes}m, backupMaxCount=${next.backupMaxCount}, javaHeap=${next.javaMinHeapMb}m-${next.javaMaxHeapMb}m.`,
-      "system",
-    );
+    if (input.shutdownWarningIntervals !== undefined) {
+      const intervals = this.parseShutdownWarningIntervals(input.shutdownWarningIntervals);
+      if (!intervals) {
+        throw new AppError(
+          400,
+          `shutdownWarningIntervals must be a comma-separated list like "5m,1m,30s,10s" (up to 10 entries, each at most ${MAX_SHUTDOWN_WARNING_SECONDS / 60}m).`,
+        );
+      }
+      next.shutdownWarningIntervals = intervals.map((seconds) => this.formatShutdownWarningInterval(seconds)).join(",");
+    }
 
-    if (this.status === "running" || this.status === "starting") {
-      this.pushTerminal("Runtime settings will apply fully on the next server restart.", "system");
+    if (input.shutdownWarningCommand !== undefined) {
+      const candidate = String(input.shutdownWarningCommand ?? "").trim();
+      if (!candidate) {
+        throw new AppError(400, "shutdownWarningCommand cannot be empty.");
+      }
+      if (candidate.length > 500 || /[\r\n]/.test(candidate)) {
+        throw new AppError(400, "shutdownWarningCommand must be a single line of at most 500 characters.");
+      }
+      next.shutdownWarningCommand = candidate;
     }
 
-    return await this.snapshot();
-  }
+    if (input.autoRestartEnabled !== undefined) {
+      next.autoRestartEnabled = input.autoRestartEnabled;
+    }
 
-  async install(): Promise<{ installed: boolean; version: string; updated: boolean; applied: boolean }> {
-    if (this.status !== "stopped") {
-      throw new AppError(409, "Server must be stopped before installation.");
+    if (input.autoRestartMaxAttempts !== undefined) {
+      if (
+        !Number.isInteger(input.autoRestartMaxAttempts) ||
+        input.autoRestartMaxAttempts < 1 ||
+        input.autoRestartMaxAttempts > 50
+      ) {
+        throw new AppError(400, "autoRestartMaxAttempts must be an integer between 1 and 50.");
+      }
+      next.autoRestartMaxAttempts = input.autoRestartMaxAttempts;
     }
 
-    this.status = "installing";
-    this.emitState();
+    if (input.backupRetentionEnabled !== undefined) {
+      next.backupRetentionEnabled = input.backupRetentionEnabled;
+    }
 
-    try {
-      const installedMeta = await this.readInstalledServerMetadata();
-      const latest = await this.resolveLatestReleaseManifest(true);
-      const wasInstalled = await this.isInstalled();
+    const retentionCounts = [
+      ["backupRetentionKeepLast", input.backupRetentionKeepLast],
+      ["backupRetentionKeepHourly", input.backupRetentionKeepHourly],
+      ["backupRetentionKeepDaily", input.backupRetentionKeepDaily],
+      ["backupRetentionKeepWeekly", input.backupRetentionKeepWeekly],
+      ["backupRetentionKeepMonthly", input.backupRetentionKeepMonthly],
+    ] as const;
+    for (const [key, value] of retentionCounts) {
+      if (value === undefined) {
+        continue;
+      }
+      if (!Number.isInteger(value) || value < 0 || value > MAX_BACKUP_RETENTION_COUNT) {
+        throw new AppError(400, `${key} must be an integer between 0 and ${MAX_BACKUP_RETENTION_COUNT}.`);
+      }
+      next[key] = value;
+    }
 
+    if (input.backupRetentionMaxTotalMb !== undefined) {
       if (
-        wasInstalled &&
-        installedMeta &&
-        installedMeta.patchline === latest.patchline &&
-        installedMeta.version === latest.manifest.version
+        !Number.isInteger(input.backupRetentionMaxTotalMb) ||
+        input.backupRetentionMaxTotalMb < 0 ||
+        input.backupRetentionMaxTotalMb > MAX_BACKUP_RETENTION_TOTAL_MB
       ) {
-        this.pushTerminal(
-          `Server is already on latest patchline ${latest.patchline} version ${latest.manifest.version}; skipping install.`,
-          "system",
+        throw new AppError(
+          400,
+          `backupRetentionMaxTotalMb must be an integer between 0 and ${MAX_BACKUP_RETENTION_TOTAL_MB} (0 = no limit).`,
         );
-        return {
-          installed: true,
-          version: latest.manifest.version,
-          updated: false,
-          applied: false,
-        };
       }
+      next.backupRetentionMaxTotalMb = input.backupRetentionMaxTotalMb;
+    }
 
-      await this.installFromDownloader(latest.patchline, latest.manifest);
-      this.pushTerminal(`Installation completed in ${config.hytale.serverDir}`, "system");
-
-      await this.writeInstalledServerMetadata({
-        patchline: latest.patchline,
-        version: latest.manifest.version,
-        installedAt: new Date().toISOString(),
-      });
-
-      return {
-        installed: await this.isInstalled(),
-        version: latest.manifest.version,
-        updated: wasInstalled,
-        applied: true,
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      this.pushTerminal(`Installation failed: ${message}`, "system");
-      throw error;
-    } finally {
-      this.status = "stopped";
-      this.emitState();
+    if (
+      next.backupRetentionEnabled &&
+      isRetentionPolicyEmpty(this.toBackupRetentionPolicy(next)) &&
+      next.backupRetentionMaxTotalMb === 0
+    ) {
+      throw new AppError(400, "Backup retention needs a keep-last count, at least one tier, or a maximum total size.");
     }
-  }
 
-  startInitializationAfterOwnerSetup(): void {
-    if (this.initializationPromise) {
-      this.pushTerminal("Initialization is already running; duplicate trigger ignored.", "system");
-      return;
+    if (input.consistentBackupEnabled !== undefined) {
+      next.consistentBackupEnabled = input.consistentBackupEnabled;
     }
 
-    const run = (async () => {
-      this.pushTerminal("Owner account created. Starting automatic initialization (server + Adoptium JDK 25).", "system");
+    const backupCommands = [
+      ["backupSaveOffCommand", input.backupSaveOffCommand],
+      ["backupFlushCommand", input.backupFlushCommand],
+      ["backupSaveOnCommand", input.backupSaveOnCommand],
+    ] as const;
+    for (const [key, value] of backupCommands) {
+      if (value === undefined) {
+        continue;
+      }
+      const candidate = String(value ?? "").trim();
+      if (candidate.length > 500 || /[\r\n]/.test(candidate)) {
+        throw new AppError(400, `${key} must be a single line of at most 500 characters.`);
+      }
+      next[key] = candidate;
+    }
+
+    if (!next.backupFlushCommand) {
+      throw new AppError(400, "backupFlushCommand cannot be empty.");
+    }
+    if (Boolean(next.backupSaveOffCommand) !== Boolean(next.backupSaveOnCommand)) {
+      throw new AppError(400, "Set both the save-off and save-on commands, or neither.");
+    }
+
+    if (input.backupFlushConfirmPattern !== undefined) {
+      const candidate = String(input.backupFlushConfirmPattern ?? "").trim();
+      if (!candidate || candidate.length > 200) {
+        throw new AppError(400, "backupFlushConfirmPattern must be 1-200 characters.");
+      }
+      try {
+        new RegExp(candidate, "i");
+      } catch {
+        throw new AppError(400, "backupFlushConfirmPattern is not a valid regular expression.");
+      }
+      next.backupFlushConfirmPattern = candidate;
+    }
+
+    if (input.backupFlushTimeoutSeconds !== undefined) {
+      if (
+        !Number.isInteger(input.backupFlushTimeoutSeconds) ||
+        input.backupFlushTimeoutSeconds < 5 ||
+        input.backupFlushTimeoutSeconds > 600
+      ) {
+        throw new AppError(400, "backupFlushTimeoutSeconds must be an integer between 5 and 600.");
+      }
+      next.backupFlushTimeoutSeconds = input.backupFlushTimeoutSeconds;
+    }
+
+    if (input.safetySnapshotsEnabled !== undefined) {
+      next.safetySnapshotsEnabled = input.safetySnapshotsEnabled;
+    }
+
+    if (input.safetySnapshotKeep !== undefined) {
+      if (
+        !Number.isInteger(input.safetySnapshotKeep) ||
+        input.safetySnapshotKeep < 1 ||
+        input.safetySnapshotKeep > MAX_SAFETY_SNAPSHOT_KEEP
+      ) {
+        throw new AppError(400, `safetySnapshotKeep must be an integer between 1 and ${MAX_SAFETY_SNAPSHOT_KEEP}.`);
+      }
+      next.safetySnapshotKeep = input.safetySnapshotKeep;
+    }
+
+    if (input.safetySnapshotMaxAgeHours !== undefined) {
+      if (
+        !Number.isInteger(input.safetySnapshotMaxAgeHours) ||
+        input.safetySnapshotMaxAgeHours < 1 ||
+        input.safetySnapshotMaxAgeHours > MAX_SAFETY_SNAPSHOT_MAX_AGE_HOURS
+      ) {
+        throw new AppError(
+          400,
+          `safetySnapshotMaxAgeHours must be an integer between 1 and ${MAX_SAFETY_SNAPSHOT_MAX_AGE_HOURS}.`,
+        );
+      }
+      next.safetySnapshotMaxAgeHours = input.safetySnapshotMaxAgeHours;
+    }
+
+    if (input.serverVersionsKeep !== undefined) {
+      if (
+        !Number.isInteger(input.serverVersionsKeep) ||
+        input.serverVersionsKeep < 0 ||
+        input.serverVersionsKeep > MAX_SERVER_VERSIONS_KEEP
+      ) {
+        throw new AppError(400, `serverVersionsKeep must be an integer between 0 and ${MAX_SERVER_VERSIONS_KEEP}.`);
+      }
+      next.serverVersionsKeep = input.serverVersionsKeep;
+    }
+
+    if (input.updateCheckEnabled !== undefined) {
+      next.updateCheckEnabled = input.updateCheckEnabled;
+    }
+
+    if (input.updateCheckIntervalMinutes !== undefined) {
+      if (
+        !Number.isInteger(input.updateCheckIntervalMinutes) ||
+        input.updateCheckIntervalMinutes < MIN_UPDATE_CHECK_INTERVAL_MINUTES ||
+        input.updateCheckIntervalMinutes > MAX_UPDATE_CHECK_INTERVAL_MINUTES
+      ) {
+        throw new AppError(
+          400,
+          `updateCheckIntervalMinutes must be an integer between ${MIN_UPDATE_CHECK_INTERVAL_MINUTES} and ${MAX_UPDATE_CHECK_INTERVAL_MINUTES}.`,
+        );
+      }
+      next.updateCheckIntervalMinutes = input.updateCheckIntervalMinutes;
+    }
+
+    if (input.autoUpdateEnabled !== undefined) {
+      next.autoUpdateEnabled = input.autoUpdateEnabled;
+    }
+
+    if (input.autoUpdateOnlyWhenEmpty !== undefined) {
+      next.autoUpdateOnlyWhenEmpty = input.autoUpdateOnlyWhenEmpty;
+    }
+
+    if (input.autoUpdateWindow !== undefined) {
+      const candidate = String(input.autoUpdateWindow ?? "").trim();
+      if (candidate && !this.parseMaintenanceWindow(candidate)) {
+        throw new AppError(400, 'autoUpdateWindow must be empty or a local time range like "03:00-05:00".');
+      }
+      next.autoUpdateWindow = candidate;
+    }
+
+    if (input.downloadCacheKeepVersions !== undefined) {
+      if (
+        !Number.isInteger(input.downloadCacheKeepVersions) ||
+        input.downloadCacheKeepVersions < 0 ||
+        input.downloadCacheKeepVersions > MAX_DOWNLOAD_CACHE_KEEP_VERSIONS
+      ) {
+        throw new AppError(
+          400,
+          `downloadCacheKeepVersions must be an integer between 0 and ${MAX_DOWNLOAD_CACHE_KEEP_VERSIONS}.`,
+        );
+      }
+      next.downloadCacheKeepVersions = input.downloadCacheKeepVersions;
+    }
+
+    if (input.downloadCacheMaxSizeMb !== undefined) {
+      if (
+        !Number.isInteger(input.downloadCacheMaxSizeMb) ||
+        input.downloadCacheMaxSizeMb < 0 ||
+        input.downloadCacheMaxSizeMb > MAX_DOWNLOAD_CACHE_SIZE_MB
+      ) {
+        throw new AppError(400, `downloadCacheMaxSizeMb must be an integer between 0 and ${MAX_DOWNLOAD_CACHE_SIZE_MB}.`);
+      }
+      next.downloadCacheMaxSizeMb = input.downloadCacheMaxSizeMb;
+    }
+
+    setAppSetting(SERVER_BIND_PORT_SETTING, String(next.bindPort));
+    setAppSetting(SERVER_AUTO_BACKUP_ENABLED_SETTING, next.autoBackupEnabled ? "1" : "0");
+    setAppSetting(SERVER_BACKUP_FREQUENCY_MINUTES_SETTING, String(next.backupFrequencyMinutes));
+    setAppSetting(SERVER_BACKUP_MAX_COUNT_SETTING, String(next.backupMaxCount));
+    setAppSetting(SERVER_JAVA_MIN_HEAP_MB_SETTING, String(next.javaMinHeapMb));
+    setAppSetting(SERVER_JAVA_MAX_HEAP_MB_SETTING, String(next.javaMaxHeapMb));
+    setAppSetting(SERVER_JAVA_EXTRA_ARGS_SETTING, next.javaExtraArgs);
+    setAppSetting(SERVER_SHUTDOWN_WARNING_ENABLED_SETTING, next.shutdownWarningEnabled ? "1" : "0");
+    setAppSetting(SERVER_SHUTDOWN_WARNING_INTERVALS_SETTING, next.shutdownWarningIntervals);
+    setAppSetting(SERVER_SHUTDOWN_WARNING_COMMAND_SETTING, next.shutdownWarningCommand);
+    setAppSetting(SERVER_AUTO_RESTART_ENABLED_SETTING, next.autoRestartEnabled ? "1" : "0");
+    setAppSetting(SERVER_AUTO_RESTART_MAX_ATTEMPTS_SETTING, String(next.autoRestartMaxAttempts));
+    setAppSetting(SERVER_BACKUP_RETENTION_ENABLED_SETTING, next.backupRetentionEnabled ? "1" : "0");
+    setAppSetting(SERVER_BACKUP_RETENTION_KEEP_LAST_SETTING, String(next.backupRetentionKeepLast));
+    setAppSetting(SERVER_BACKUP_RETENTION_KEEP_HOURLY_SETTING, String(next.backupRetentionKeepHourly));
+    setAppSetting(SERVER_BACKUP_RETENTION_KEEP_DAILY_SETTING, String(next.backupRetentionKeepDaily));
+    setAppSetting(SERVER_BACKUP_RETENTION_KEEP_WEEKLY_SETTING, String(next.backupRetentionKeepWeekly));
+    setAppSetting(SERVER_BACKUP_RETENTION_KEEP_MONTHLY_SETTING, String(next.backupRetentionKeepMonthly));
+    setAppSetting(SERVER_BACKUP_RETENTION_MAX_TOTAL_MB_SETTING, String(next.backupRetentionMaxTotalMb));
+    setAppSetting(SERVER_CONSISTENT_BACKUP_ENABLED_SETTING, next.consistentBackupEnabled ? "1" : "0");
+    setAppSetting(SERVER_BACKUP_SAVE_OFF_COMMAND_SETTING, next.backupSaveOffCommand);
+    setAppSetting(SERVER_BACKUP_FLUSH_COMMAND_SETTING, next.backupFlushCommand);
+    setAppSetting(SERVER_BACKUP_FLUSH_CONFIRM_PATTERN_SETTING, next.backupFlushConfirmPattern);
+    setAppSetting(SERVER_BACKUP_SAVE_ON_COMMAND_SETTING, next.backupSaveOnCommand);
+    setAppSetting(SERVER_BACKUP_FLUSH_TIMEOUT_SECONDS_SETTING, String(next.backupFlushTimeoutSeconds));
+    setAppSetting(SERVER_SAFETY_SNAPSHOTS_ENABLED_SETTING, next.safetySnapshotsEnabled ? "1" : "0");
+    setAppSetting(SERVER_SAFETY_SNAPSHOT_KEEP_SETTING, String(next.safetySnapshotKeep));
+    setAppSetting(SERVER_SAFETY_SNAPSHOT_MAX_AGE_HOURS_SETTING, String(next.safetySnapshotMaxAgeHours));
+    setAppSetting(SERVER_VERSIONS_KEEP_SETTING, String(next.serverVersionsKeep));
+    setAppSetting(SERVER_UPDATE_CHECK_ENABLED_SETTING, next.updateCheckEnabled ? "1" : "0");
+    setAppSetting(SERVER_UPDATE_CHECK_INTERVAL_MINUTES_SETTING, String(next.updateCheckIntervalMinutes));
+    setAppSetting(SERVER_AUTO_UPDATE_ENABLED_SETTING, next.autoUpdateEnabled ? "1" : "0");
+    setAppSetting(SERVER_AUTO_UPDATE_ONLY_WHEN_EMPTY_SETTING, next.autoUpdateOnlyWhenEmpty ? "1" : "0");
+    setAppSetting(SERVER_AUTO_UPDATE_WINDOW_SETTING, next.autoUpdateWindow);
+    setAppSetting(SERVER_DOWNLOAD_CACHE_KEEP_VERSIONS_SETTING, String(next.downloadCacheKeepVersions));
+    setAppSetting(SERVER_DOWNLOAD_CACHE_MAX_SIZE_MB_SETTING, String(next.downloadCacheMaxSizeMb));
+
+    if (!next.autoRestartEnabled && this.cancelPendingAutoRestart()) {
+      this.pushTerminal("Automatic restart disabled; pending restart cancelled.", "system");
+    }
+
+    await mkdir(next.backupDirectory, { recursive: true });
+
+    this.pushTerminal(
+      `Runtime settings updated: bind=0.0.0.0:${next.bindPort}, autoBackup=${next.autoBackupEnabled ? "on" : "off"}, backupFrequency=${next.backupFrequencyMinutes}m, backupMaxCount=${next.backupMaxCount}, javaHeap=${next.javaMinHeapMb}m-${next.javaMaxHeapMb}m, shutdownWarnings=${next.shutdownWarningEnabled ? next.shutdownWarningIntervals : "off"}, autoRestart=${next.autoRestartEnabled ? `on (max ${next.autoRestartMaxAttempts})` : "off"}, backupRetention=${next.backupRetentionEnabled ? `last ${next.backupRetentionKeepLast}, ${next.backupRetentionKeepHourly}h/${next.backupRetentionKeepDaily}d/${next.backupRetentionKeepWeekly}w/${next.backupRetentionKeepMonthly}m, max ${next.backupRetentionMaxTotalMb || "unlimited"} MB` : "off"}, consistentBackups=${next.consistentBackupEnabled ? `on (${next.backupFlushCommand}, ${next.backupFlushTimeoutSeconds}s)` : "off"}, safetySnapshots=${next.safetySnapshotsEnabled ? `on (keep ${next.safetySnapshotKeep}, ${next.safetySnapshotMaxAgeHours}h)` : "off"}, serverVersions=keep ${next.serverVersionsKeep || "all"}, updateChecks=${next.updateCheckEnabled ? `every ${next.updateCheckIntervalMinutes}m` : "off"}, autoUpdate=${next.autoUpdateEnabled ? `on (${[next.autoUpdateOnlyWhenEmpty ? "when empty" : null, next.autoUpdateWindow || null].filter(Boolean).join(", ") || "any time"})` : "off"}, downloadCache=keep ${next.downloadCacheKeepVersions || "all"} version(s), max ${next.downloadCacheMaxSizeMb || "unlimited"} MB.`,
+      "system",
+    );
+
+    if (this.status === "running" || this.status === "starting") {
+      this.pushTerminal("Runtime settings will apply fully on the next server restart.", "system");
+    }
+
+    if (next.backupRetentionEnabled) {
+      await this.applyBackupRetentionSafely("settings updated");
+    }
+    // An install or rollback prunes when it finishes.
+    if (next.serverVersionsKeep !== current.serverVersionsKeep && this.status !== "installing") {
+      await this.pruneServerVersionsSafely();
+      await this.emitServerVersions();
+    }
+
+    return await this.snapshot();
+  }
+
+  async install(
+    actor: string | null = null,
+  ): Promise<{ installed: boolean; version: string; updated: boolean; applied: boolean }> {
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before installation.");
+    }
+
+    this.status = "installing";
+    this.emitState();
+
+    try {
+      const installedMeta = await this.readInstalledServerMetadata();
+      const wasInstalled = await this.isInstalled();
+      const pinnedVersion = this.getPinnedServerVersion();
+      if (wasInstalled && pinnedVersion) {
+        this.pushTerminal(`Server is pinned to version ${pinnedVersion}; unpin it to install updates.`, "system");
+        return {
+          installed: true,
+          version: installedMeta?.version ?? pinnedVersion,
+          updated: false,
+          applied: false,
+        };
+      }
+
+      const latest = await this.resolveLatestReleaseManifest(true);
+
+      if (
+        wasInstalled &&
+        installedMeta &&
+        installedMeta.patchline === latest.patchline &&
+        installedMeta.version === latest.manifest.version
+      ) {
+        this.pushTerminal(
+          `Server is already on latest patchline ${latest.patchline} version ${latest.manifest.version}; skipping install.`,
+          "system",
+        );
+        return {
+          installed: true,
+          version: latest.manifest.version,
+          updated: false,
+          applied: false,
+        };
+      }
+
+      const installedFiles = await this.installFromDownloader(latest.patchline, latest.manifest, actor);
+      this.pushTerminal(`Installation completed in ${config.hytale.serverDir}`, "system");
+
+      await this.writeInstalledServerMetadata({
+        patchline: latest.patchline,
+        version: latest.manifest.version,
+        installedAt: new Date().toISOString(),
+        ...installedFiles,
+      });
+      await this.pruneServerVersionsSafely();
+      await this.emitServerVersions();
+
+      return {
+        installed: await this.isInstalled(),
+        version: latest.manifest.version,
+        updated: wasInstalled,
+        applied: true,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Installation failed: ${message}`, "system");
+      throw error;
+    } finally {
+      this.status = "stopped";
+      this.emitState();
+    }
+  }
+
+  /**
+   * Installs the server from an archive that is already on this host instead of the downloader,
+   * for hosts that cannot reach the Hytale OAuth or asset hosts. The archive must contain the same
+   * layout as a download; `version` is the label recorded for the install. With `skipIfInstalled`,
+   * an install already on that patchline and version is left alone.
+   */
+  async installFromLocalArchive(
+    input: {
+      archivePath: string;
+      version: string;
+      patchline?: string | null;
+      sha256?: string | null;
+      skipIfInstalled?: boolean;
+    },
+    actor: string | null = null,
+  ): Promise<OfflineInstallResult> {
+    const { version, patchline, sha256 } = this.normalizeOfflineInstallInput(input);
+    const archivePath = path.resolve(input.archivePath);
+
+    // The CLI passes the archive on every launch. It only seeds a host without a server: once any version is
+    // installed (possibly a newer one from the dashboard), applying it again would silently downgrade.
+    if (input.skipIfInstalled && (await this.isInstalled())) {
+      const installed = await this.readInstalledServerMetadata();
+      this.pushTerminal(
+        `A server is already installed (${installed ? `${installed.patchline} ${installed.version}` : "unknown version"}); ignoring --install-archive ${path.basename(archivePath)}. Install it from the dashboard to replace the current version.`,
+        "system",
+      );
+      return {
+        installed: true,
+        patchline: installed?.patchline ?? patchline,
+        version: installed?.version ?? version,
+        updated: false,
+      };
+    }
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before installation.");
+    }
+    const pinnedVersion = this.getPinnedServerVersion();
+    if (pinnedVersion && (await this.isInstalled())) {
+      throw new AppError(409, `Server is pinned to version ${pinnedVersion}; unpin it before installing from an archive.`);
+    }
+
+    const archiveStats = await stat(archivePath).catch(() => null);
+    if (!archiveStats) {
+      throw new AppError(404, `Server archive not found: ${archivePath}`);
+    }
+    if (!archiveStats.isFile()) {
+      throw new AppError(400, `Server archive is not a file: ${archivePath}`);
+    }
+
+    this.status = "installing";
+    this.emitState();
+
+    const installWorkspace = path.join(config.app.dataDir, `install-${timestampId()}`);
+    try {
+      const wasInstalled = await this.isInstalled();
+      this.pushTerminal(
+        `Installing ${patchline} ${version} from local archive ${path.basename(archivePath)} (${archiveStats.size} bytes).`,
+        "system",
+      );
+
+      if (sha256) {
+        this.pushTerminal("Validating checksum...", "system");
+        await this.validateSha256(archivePath, sha256);
+        this.pushTerminal("Checksum valid.", "system");
+      }
+
+      await mkdir(installWorkspace, { recursive: true });
+      await this.extractZipFile(archivePath, installWorkspace);
+
+      const layout = await this.locateDownloadedLayout(installWorkspace);
+      if (!layout) {
+        const found = await this.scanForInstallArtifacts(installWorkspace);
+        const missing = [!found.jarPath ? "HytaleServer.jar" : null, !found.assetsPath ? "Assets.zip" : null]
+          .filter(Boolean)
+          .join(" and ");
+        throw new AppError(400, `${path.basename(archivePath)} is not a Hytale server archive (missing ${missing}).`);
+      }
+
+      const files = await this.installServerLayout(layout, installWorkspace, patchline, version, actor);
+      await this.writeInstalledServerMetadata({
+        patchline,
+        version,
+        installedAt: new Date().toISOString(),
+        // The archive may not stay on this host, so repairs use the kept copy of this version.
+        files: files.map((file) => ({ ...file, archiveEntry: null })),
+        archive: null,
+      });
+      this.pushTerminal(`Installation completed in ${config.hytale.serverDir}`, "system");
+      await this.pruneServerVersionsSafely();
+      await this.emitServerVersions();
+
+      return {
+        installed: await this.isInstalled(),
+        patchline,
+        version,
+        updated: wasInstalled,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Installation from archive failed: ${message}`, "system");
+      throw error;
+    } finally {
+      await rm(installWorkspace, { recursive: true, force: true });
+      this.status = "stopped";
+      this.emitState();
+    }
+  }
+
+  /** Starts a resumable upload of a server archive; it is installed with `installServerArchiveUpload`. */
+  async startServerArchiveUpload(
+    userId: number,
+    input: { filename: string; size: number; version: string; patchline?: string | null; sha256?: string | null },
+  ): Promise<ServerArchiveUpload> {
+    const filename = sanitizeFilename(input.filename);
+    if (!filename.toLowerCase().endsWith(".zip")) {
+      throw new AppError(400, "Only .zip server archives can be uploaded.");
+    }
+    if (!Number.isSafeInteger(input.size) || input.size <= 0) {
+      throw new AppError(400, "Upload size must be greater than zero.");
+    }
+    const { version, patchline, sha256 } = this.normalizeOfflineInstallInput(input);
+
+    await mkdir(config.app.uploadsDir, { recursive: true });
+    await this.removeStaleUploadSessions(SERVER_ARCHIVE_UPLOAD_PREFIX);
+    await this.assertUploadFits(input.size);
+
+    const record: ServerArchiveUploadRecord = {
+      id: randomUUID(),
+      filename,
+      size: input.size,
+      sha256,
+      version,
+      patchline,
+      createdAt: new Date().toISOString(),
+      userId,
+    };
+    await writeFile(this.uploadSessionPath(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id, ".part"), "");
+    await writeFile(
+      this.uploadSessionPath(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id, ".json"),
+      JSON.stringify(record, null, 2),
+      "utf8",
+    );
+    return { ...this.toServerArchiveUpload(record), received: 0 };
+  }
+
+  async getServerArchiveUpload(userId: number, uploadId: string): Promise<ServerArchiveUpload> {
+    const record = await this.readUploadSession<ServerArchiveUploadRecord>(SERVER_ARCHIVE_UPLOAD_PREFIX, userId, uploadId);
+    const partPath = this.uploadSessionPath(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id, ".part");
+    return { ...this.toServerArchiveUpload(record), received: (await stat(partPath)).size };
+  }
+
+  async appendServerArchiveUpload(
+    userId: number,
+    uploadId: string,
+    offset: number,
+    chunk: Uint8Array,
+  ): Promise<ServerArchiveUpload> {
+    const record = await this.readUploadSession<ServerArchiveUploadRecord>(SERVER_ARCHIVE_UPLOAD_PREFIX, userId, uploadId);
+    const received = await this.appendUploadChunk(SERVER_ARCHIVE_UPLOAD_PREFIX, record, offset, chunk);
+    return { ...this.toServerArchiveUpload(record), received };
+  }
+
+  /** Installs a completed upload. The upload is kept when the install fails so it can be retried. */
+  async installServerArchiveUpload(userId: number, uploadId: string, actor: string | null): Promise<OfflineInstallResult> {
+    const record = await this.readUploadSession<ServerArchiveUploadRecord>(SERVER_ARCHIVE_UPLOAD_PREFIX, userId, uploadId);
+    if (this.uploadSessionsBusy.has(record.id)) {
+      throw new AppError(409, "This upload is still being written.");
+    }
+
+    const partPath = this.uploadSessionPath(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id, ".part");
+    const received = (await stat(partPath)).size;
+    if (received !== record.size) {
+      throw new AppError(409, `Upload is incomplete (${received} of ${record.size} bytes).`);
+    }
+
+    this.uploadSessionsBusy.add(record.id);
+    try {
+      const result = await this.installFromLocalArchive(
+        { archivePath: partPath, version: record.version, patchline: record.patchline, sha256: record.sha256 },
+        actor,
+      );
+      await this.discardUploadSession(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id);
+      return result;
+    } finally {
+      this.uploadSessionsBusy.delete(record.id);
+    }
+  }
+
+  async cancelServerArchiveUpload(userId: number, uploadId: string): Promise<void> {
+    const record = await this.readUploadSession<ServerArchiveUploadRecord>(SERVER_ARCHIVE_UPLOAD_PREFIX, userId, uploadId);
+    if (this.uploadSessionsBusy.has(record.id)) {
+      throw new AppError(409, "This upload is still being written.");
+    }
+    await this.discardUploadSession(SERVER_ARCHIVE_UPLOAD_PREFIX, record.id);
+  }
+
+  private normalizeOfflineInstallInput(input: {
+    version: string;
+    patchline?: string | null;
+    sha256?: string | null;
+  }): { version: string; patchline: string; sha256: string | null } {
+    const version = input.version.trim();
+    if (!/^[A-Za-z0-9][A-Za-z0-9._+-]{0,63}$/.test(version)) {
+      throw new AppError(400, "Version label must be 1-64 letters, digits, '.', '_', '+' or '-'.");
+    }
+
+    const patchline = input.patchline?.trim() || this.getSelectedPatchline();
+    if (!PATCHLINE_NAME_PATTERN.test(patchline)) {
+      throw new AppError(400, "Patchline must be 1-40 lowercase letters, digits, '.', '_' or '-'.");
+    }
+
+    const sha256 = input.sha256?.trim().toLowerCase() || null;
+    if (sha256 && !/^[a-f0-9]{64}$/.test(sha256)) {
+      throw new AppError(400, "sha256 must be a 64-character hex string.");
+    }
+    return { version, patchline, sha256 };
+  }
+
+  private toServerArchiveUpload(record: ServerArchiveUploadRecord): Omit<ServerArchiveUpload, "received"> {
+    return {
+      id: record.id,
+      filename: record.filename,
+      size: record.size,
+      sha256: record.sha256,
+      version: record.version,
+      patchline: record.patchline,
+      createdAt: record.createdAt,
+    };
+  }
+
+  startInitializationAfterOwnerSetup(): void {
+    if (this.initializationPromise) {
+      this.pushTerminal("Initialization is already running; duplicate trigger ignored.", "system");
+      return;
+    }
+
+    const run = (async () => {
+      this.pushTerminal("Owner account created. Starting automatic initialization (server + Adoptium JDK 25).", "system");
 
       try {
         await this.install();
@@ -820,9 +2088,28 @@ export class HytaleManager {
     };
   }
 
-  createNexusSsoChallenge(): { id: string; appId: string; url: string; wsUrl: string } {
-    const appId = config.hytale.nexusAppId.trim();
-    if (!appId) {
+  async getCurseForgeStatus(): Promise<CurseForgeStatus> {
+    const curseForge = await this.getCurseForgeConfig();
+    if (!curseForge) {
+      return {
+        configured: false,
+        source: null,
+        gameId: null,
+        classId: 0,
+      };
+    }
+
+    return {
+      configured: true,
+      source: curseForge.source,
+      gameId: curseForge.gameId,
+      classId: curseForge.classId,
+    };
+  }
+
+  createNexusSsoChallenge(): { id: string; appId: string; url: string; wsUrl: string } {
+    const appId = config.hytale.nexusAppId.trim();
+    if (!appId) {
       throw new AppError(400, "Nexus SSO is not configured. Set HYTALE_NEXUS_APP_ID first.");
     }
 
@@ -830,11 +2117,115 @@ export class HytaleManager {
     return {
       id,
       appId,
-      url: `https://${config.hytale.nexusWebHost}/sso?id=${encodeURIComponent(id)}`,
+      url: `https://${config.hytale.nexusWebHost}/sso?id=${encodeURIComponent(id)}&application=${encodeURIComponent(appId)}`,
       wsUrl: config.hytale.nexusSsoWsUrl,
     };
   }
 
+  async getNexusStatus(): Promise<NexusStatus> {
+    const nexus = await this.getNexusConfig();
+    const ssoAvailable = config.hytale.nexusAppId.trim().length > 0;
+    if (!nexus) {
+      return {
+        configured: false,
+        source: null,
+        gameDomain: null,
+        userName: null,
+        premium: false,
+        ssoAvailable,
+        ssoPending: this.nexusSso !== null,
+      };
+    }
+
+    return {
+      configured: true,
+      source: nexus.source,
+      gameDomain: nexus.gameDomain,
+      userName: nexus.userName || null,
+      premium: nexus.premium,
+      ssoAvailable,
+      ssoPending: this.nexusSso !== null,
+    };
+  }
+
+  startNexusSso(options?: { gameDomain?: string }): NexusSsoSession {
+    const challenge = this.createNexusSsoChallenge();
+    this.cancelNexusSso();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(challenge.wsUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AppError(502, `Could not open Nexus SSO connection: ${message}`);
+    }
+
+    const pending: NexusSsoPending = {
+      id: challenge.id,
+      socket,
+      timer: setTimeout(() => {
+        this.finishNexusSso(pending, { status: "failed", message: "Nexus SSO timed out before the account was authorized." });
+      }, NEXUS_SSO_TIMEOUT_MS),
+      gameDomain: options?.gameDomain,
+      settled: false,
+    };
+    this.nexusSso = pending;
+
+    socket.addEventListener("open", () => {
+      socket.send(JSON.stringify({
+        id: challenge.id,
+        token: null,
+        protocol: NEXUS_SSO_PROTOCOL_VERSION,
+      }));
+    });
+
+    socket.addEventListener("message", (event) => {
+      let message: NexusSsoMessage;
+      try {
+        message = JSON.parse(String(event.data)) as NexusSsoMessage;
+      } catch {
+        return;
+      }
+
+      if (message.success === false) {
+        this.finishNexusSso(pending, { status: "failed", message: message.error || "Nexus SSO request was rejected." });
+        return;
+      }
+
+      const apiKey = message.data?.api_key?.trim();
+      if (!apiKey) {
+        return;
+      }
+
+      void this.completeNexusSso(pending, apiKey);
+    });
+
+    socket.addEventListener("error", () => {
+      this.finishNexusSso(pending, { status: "failed", message: "Nexus SSO connection failed." });
+    });
+
+    socket.addEventListener("close", () => {
+      this.finishNexusSso(pending, { status: "failed", message: "Nexus SSO connection closed before the account was authorized." });
+    });
+
+    this.pushTerminal("Nexus SSO started. Authorize the application in the opened Nexus Mods page.", "system");
+    return {
+      id: challenge.id,
+      url: challenge.url,
+      expiresAt: new Date(Date.now() + NEXUS_SSO_TIMEOUT_MS).toISOString(),
+    };
+  }
+
+  cancelNexusSso(): boolean {
+    const pending = this.nexusSso;
+    if (!pending) {
+      return false;
+    }
+
+    this.finishNexusSso(pending, { status: "cancelled", message: "Nexus SSO cancelled." });
+    return true;
+  }
+
   async connectNexus(options: { apiKey: string; gameDomain?: string }): Promise<{
     configured: boolean;
     gameDomain: string;
@@ -1032,7 +2423,7 @@ export class HytaleManager {
     return installed.sort((a, b) => a.modName.localeCompare(b.modName));
   }
 
-  async installNexusMod(modId: number): Promise<{
+  async installNexusMod(modId: number, actor: string | null = null): Promise<{
     installedMod: NexusInstalledMod | null;
     mods: ModEntry[];
     installed: NexusInstalledMod[];
@@ -1050,7 +2441,7 @@ export class HytaleManager {
       throw new AppError(404, `No downloadable file found for Nexus mod ${safeModId}.`);
     }
 
-    const installResult = await this.installNexusFile(nexus, mod, latestFile);
+    const installResult = await this.installNexusFile(nexus, mod, latestFile, undefined, actor);
     const installed = await this.listNexusInstalledMods(true);
     return {
       installedMod: installed.find((item) => item.modId === safeModId) ?? null,
@@ -1064,7 +2455,7 @@ export class HytaleManager {
     return await this.listNexusInstalledMods(true);
   }
 
-  async updateNexusMod(modId: number): Promise<{
+  async updateNexusMod(modId: number, actor: string | null = null): Promise<{
     updated: boolean;
     installedMod: NexusInstalledMod | null;
     installed: NexusInstalledMod[];
@@ -1088,7 +2479,7 @@ export class HytaleManager {
       throw new AppError(404, `No downloadable file found for Nexus mod ${safeModId}.`);
     }
 
-    const result = await this.installNexusFile(nexus, mod, latestFile, tracked);
+    const result = await this.installNexusFile(nexus, mod, latestFile, tracked, actor);
     const installed = await this.listNexusInstalledMods(true);
     return {
       updated: !result.alreadyInstalled,
@@ -1098,7 +2489,7 @@ export class HytaleManager {
     };
   }
 
-  async updateAllNexusMods(): Promise<{
+  async updateAllNexusMods(actor: string | null = null): Promise<{
     updated: number;
     skipped: number;
     installed: NexusInstalledMod[];
@@ -1118,7 +2509,7 @@ export class HytaleManager {
           continue;
         }
 
-        const result = await this.installNexusFile(nexus, mod, latestFile, tracked);
+        const result = await this.installNexusFile(nexus, mod, latestFile, tracked, actor);
         if (result.alreadyInstalled) {
           skipped += 1;
         } else {
@@ -1163,6 +2554,25 @@ export class HytaleManager {
       1024 * 1024,
     );
     const javaExtraArgs = (getAppSetting(SERVER_JAVA_EXTRA_ARGS_SETTING) ?? "").trim();
+    const shutdownWarningEnabled = this.readBooleanSetting(SERVER_SHUTDOWN_WARNING_ENABLED_SETTING, false);
+    const storedIntervals = this.parseShutdownWarningIntervals(
+      getAppSetting(SERVER_SHUTDOWN_WARNING_INTERVALS_SETTING) ?? DEFAULT_SHUTDOWN_WARNING_INTERVALS,
+    );
+    const shutdownWarningIntervals = storedIntervals
+      ? storedIntervals.map((seconds) => this.formatShutdownWarningInterval(seconds)).join(",")
+      : DEFAULT_SHUTDOWN_WARNING_INTERVALS;
+    const shutdownWarningCommand =
+      (getAppSetting(SERVER_SHUTDOWN_WARNING_COMMAND_SETTING) ?? "").trim() || DEFAULT_SHUTDOWN_WARNING_COMMAND;
+    const autoRestartEnabled = this.readBooleanSetting(SERVER_AUTO_RESTART_ENABLED_SETTING, false);
+    const autoRestartMaxAttempts = this.readIntegerSetting(
+      SERVER_AUTO_RESTART_MAX_ATTEMPTS_SETTING,
+      DEFAULT_AUTO_RESTART_MAX_ATTEMPTS,
+      1,
+      50,
+    );
+
+    const readRetentionCount = (settingKey: string, fallback: number) =>
+      this.readIntegerSetting(settingKey, fallback, 0, MAX_BACKUP_RETENTION_COUNT);
 
     if (javaMinHeapMb > javaMaxHeapMb) {
       const fixedMin = Math.min(javaMinHeapMb, javaMaxHeapMb);
@@ -1182,6 +2592,93 @@ export class HytaleManager {
       javaMinHeapMb,
       javaMaxHeapMb,
       javaExtraArgs,
+      shutdownWarningEnabled,
+      shutdownWarningIntervals,
+      shutdownWarningCommand,
+      autoRestartEnabled,
+      autoRestartMaxAttempts,
+      backupRetentionEnabled: this.readBooleanSetting(SERVER_BACKUP_RETENTION_ENABLED_SETTING, false),
+      backupRetentionKeepLast: readRetentionCount(
+        SERVER_BACKUP_RETENTION_KEEP_LAST_SETTING,
+        DEFAULT_BACKUP_RETENTION_KEEP_LAST,
+      ),
+      backupRetentionKeepHourly: readRetentionCount(
+        SERVER_BACKUP_RETENTION_KEEP_HOURLY_SETTING,
+        DEFAULT_BACKUP_RETENTION_KEEP_HOURLY,
+      ),
+      backupRetentionKeepDaily: readRetentionCount(
+        SERVER_BACKUP_RETENTION_KEEP_DAILY_SETTING,
+        DEFAULT_BACKUP_RETENTION_KEEP_DAILY,
+      ),
+      backupRetentionKeepWeekly: readRetentionCount(
+        SERVER_BACKUP_RETENTION_KEEP_WEEKLY_SETTING,
+        DEFAULT_BACKUP_RETENTION_KEEP_WEEKLY,
+      ),
+      backupRetentionKeepMonthly: readRetentionCount(
+        SERVER_BACKUP_RETENTION_KEEP_MONTHLY_SETTING,
+        DEFAULT_BACKUP_RETENTION_KEEP_MONTHLY,
+      ),
+      backupRetentionMaxTotalMb: this.readIntegerSetting(
+        SERVER_BACKUP_RETENTION_MAX_TOTAL_MB_SETTING,
+        0,
+        0,
+        MAX_BACKUP_RETENTION_TOTAL_MB,
+      ),
+      consistentBackupEnabled: this.readBooleanSetting(SERVER_CONSISTENT_BACKUP_ENABLED_SETTING, false),
+      backupSaveOffCommand: (getAppSetting(SERVER_BACKUP_SAVE_OFF_COMMAND_SETTING) ?? "").trim(),
+      backupFlushCommand:
+        (getAppSetting(SERVER_BACKUP_FLUSH_COMMAND_SETTING) ?? "").trim() || DEFAULT_BACKUP_FLUSH_COMMAND,
+      backupFlushConfirmPattern:
+        (getAppSetting(SERVER_BACKUP_FLUSH_CONFIRM_PATTERN_SETTING) ?? "").trim() ||
+        DEFAULT_BACKUP_FLUSH_CONFIRM_PATTERN,
+      backupSaveOnCommand: (getAppSetting(SERVER_BACKUP_SAVE_ON_COMMAND_SETTING) ?? "").trim(),
+      backupFlushTimeoutSeconds: this.readIntegerSetting(
+        SERVER_BACKUP_FLUSH_TIMEOUT_SECONDS_SETTING,
+        DEFAULT_BACKUP_FLUSH_TIMEOUT_SECONDS,
+        5,
+        600,
+      ),
+      safetySnapshotsEnabled: this.readBooleanSetting(SERVER_SAFETY_SNAPSHOTS_ENABLED_SETTING, true),
+      safetySnapshotKeep: this.readIntegerSetting(
+        SERVER_SAFETY_SNAPSHOT_KEEP_SETTING,
+        DEFAULT_SAFETY_SNAPSHOT_KEEP,
+        1,
+        MAX_SAFETY_SNAPSHOT_KEEP,
+      ),
+      safetySnapshotMaxAgeHours: this.readIntegerSetting(
+        SERVER_SAFETY_SNAPSHOT_MAX_AGE_HOURS_SETTING,
+        DEFAULT_SAFETY_SNAPSHOT_MAX_AGE_HOURS,
+        1,
+        MAX_SAFETY_SNAPSHOT_MAX_AGE_HOURS,
+      ),
+      serverVersionsKeep: this.readIntegerSetting(
+        SERVER_VERSIONS_KEEP_SETTING,
+        DEFAULT_SERVER_VERSIONS_KEEP,
+        0,
+        MAX_SERVER_VERSIONS_KEEP,
+      ),
+      updateCheckEnabled: this.readBooleanSetting(SERVER_UPDATE_CHECK_ENABLED_SETTING, true),
+      updateCheckIntervalMinutes: this.readIntegerSetting(
+        SERVER_UPDATE_CHECK_INTERVAL_MINUTES_SETTING,
+        DEFAULT_UPDATE_CHECK_INTERVAL_MINUTES,
+        MIN_UPDATE_CHECK_INTERVAL_MINUTES,
+        MAX_UPDATE_CHECK_INTERVAL_MINUTES,
+      ),
+      autoUpdateEnabled: this.readBooleanSetting(SERVER_AUTO_UPDATE_ENABLED_SETTING, false),
+      autoUpdateOnlyWhenEmpty: this.readBooleanSetting(SERVER_AUTO_UPDATE_ONLY_WHEN_EMPTY_SETTING, true),
+      autoUpdateWindow: (getAppSetting(SERVER_AUTO_UPDATE_WINDOW_SETTING) ?? "").trim(),
+      downloadCacheKeepVersions: this.readIntegerSetting(
+        SERVER_DOWNLOAD_CACHE_KEEP_VERSIONS_SETTING,
+        DEFAULT_DOWNLOAD_CACHE_KEEP_VERSIONS,
+        0,
+        MAX_DOWNLOAD_CACHE_KEEP_VERSIONS,
+      ),
+      downloadCacheMaxSizeMb: this.readIntegerSetting(
+        SERVER_DOWNLOAD_CACHE_MAX_SIZE_MB_SETTING,
+        0,
+        0,
+        MAX_DOWNLOAD_CACHE_SIZE_MB,
+      ),
     };
   }
 
@@ -1273,7 +2770,10 @@ export class HytaleManager {
     return fallback;
   }
 
-  private buildStartArguments(runtimeSettings: ServerRuntimeSettings): string[] {
+  private buildStartArguments(
+    runtimeSettings: ServerRuntimeSettings,
+    overrides: { bindPort?: number; autoBackupEnabled?: boolean } = {},
+  ): string[] {
     const baseArgs = parseArgs(config.hytale.startArgs);
     const args = this.stripManagedRuntimeArgs(baseArgs);
     const jarIndex = args.indexOf("-jar");
@@ -1282,9 +2782,9 @@ export class HytaleManager {
     const javaRuntimeArgs = this.buildJavaRuntimeArgs(runtimeSettings);
 
     const composed = [...preJarArgs, ...javaRuntimeArgs, ...jarAndServerArgs];
-    composed.push("--bind", `0.0.0.0:${runtimeSettings.bindPort}`);
+    composed.push("--bind", `0.0.0.0:${overrides.bindPort ?? runtimeSettings.bindPort}`);
 
-    if (runtimeSettings.autoBackupEnabled) {
+    if (overrides.autoBackupEnabled ?? runtimeSettings.autoBackupEnabled) {
       composed.push(
         "--backup",
         "--backup-dir",
@@ -1620,7 +3120,8 @@ export class HytaleManager {
     return { rxBytes, txBytes };
   }
 
-  async start(): Promise<void> {
+  /** `automatic` marks a crash-recovery restart, which keeps counting toward the crash-loop limit. */
+  async start(options: { automatic?: boolean } = {}): Promise<void> {
     if (this.status === "running" || this.status === "starting") {
       throw new AppError(409, "Server is already running.");
     }
@@ -1628,9 +3129,15 @@ export class HytaleManager {
     const prerequisites = await this.getLifecyclePrerequisites();
     this.assertLifecycleReadiness(prerequisites, "start");
 
+    this.cancelPendingAutoRestart();
+    if (!options.automatic) {
+      this.consecutiveCrashes = 0;
+    }
+    this.stopRequested = false;
     this.status = "starting";
     this.emitState();
 
+    let ready: Promise<void> = Promise.resolve();
     try {
       const javaCommand = prerequisites.javaCommand;
       if (!javaCommand) {
@@ -1641,6 +3148,17 @@ export class HytaleManager {
       const command = [javaCommand, ...this.buildStartArguments(runtimeSettings)];
       this.pushTerminal(`Starting server: ${command.join(" ")}`, "system");
 
+      const readyPattern = this.resolveReadyPattern();
+      ready = new Promise<void>((resolve, reject) => {
+        this.startupReadiness = { pattern: readyPattern, resolve, reject };
+      });
+
+      // Sessions still open at this point belong to a server (or manager) that went away without a clean exit.
+      this.enqueuePlayerEvent(async () => {
+        this.onlinePlayers.clear();
+        closeOpenPlayerSessions();
+      });
+
       this.process = Bun.spawn(command, {
         cwd: config.hytale.serverDir,
         stdin: "pipe",
@@ -1650,14 +3168,18 @@ export class HytaleManager {
       });
 
       this.startedAt = new Date().toISOString();
-      this.status = "running";
       this.emitState();
       this.startMetricsCollection(this.process.pid);
 
-      this.consumeStream(this.process.stdout, "stdout");
-      this.consumeStream(this.process.stderr, "stderr");
+      const streamsDrained = Promise.all([
+        this.consumeStream(this.process.stdout, "stdout"),
+        this.consumeStream(this.process.stderr, "stderr"),
+      ]);
 
       this.process.exited.then((code) => {
+        const startedAt = this.startedAt;
+        const intentional = this.stopRequested;
+        this.stopRequested = false;
         this.stopMetricsCollection();
         this.lastExitCode = code;
         this.pushTerminal(`Server exited with code ${code}`, "system");
@@ -1665,25 +3187,67 @@ export class HytaleManager {
         this.status = "stopped";
         this.startedAt = null;
         this.emitState();
+        this.clearOnlinePlayers();
+
+        const readiness = this.startupReadiness;
+        if (readiness) {
+          this.startupReadiness = null;
+          if (intentional) {
+            readiness.reject(new AppError(409, "Server was stopped before it finished starting."));
+          } else {
+            const message = `Server exited with code ${code} before it finished starting.`;
+            this.broadcast("server.startup.failed", { reason: "exited", exitCode: code, message });
+            readiness.reject(new AppError(500, message));
+          }
+        }
+
+        if (intentional) {
+          return;
+        }
+        if (code === 0) {
+          // A clean exit nobody asked the manager for, e.g. /stop typed in game.
+          this.consecutiveCrashes = 0;
+          this.pushTerminal("Server stopped itself cleanly; not treating it as a crash.", "system");
+          this.emitState();
+        } else {
+          void this.handleServerCrash(code, startedAt, streamsDrained);
+        }
       });
     } catch (error) {
+      this.startupReadiness = null;
       this.stopMetricsCollection();
       this.status = "stopped";
       this.startedAt = null;
       this.emitState();
       throw error;
     }
+
+    await this.waitForStartupReadiness(ready);
   }
 
-  async stop(force = false): Promise<void> {
+  async stop(force = false, reason: ShutdownReason = "stop"): Promise<void> {
     const prerequisites = await this.getLifecyclePrerequisites();
 
     if (!this.process || this.status === "stopped") {
+      if (this.cancelPendingAutoRestart()) {
+        this.pushTerminal("Pending automatic restart cancelled.", "system");
+        return;
+      }
       this.assertLifecycleReadiness(prerequisites, "stop");
       return;
     }
 
+    if (force) {
+      this.cancelShutdownCountdown();
+    } else {
+      await this.runShutdownWarningCountdown(reason);
+      if (!this.process) {
+        return;
+      }
+    }
+
     const proc = this.process;
+    this.stopRequested = true;
     this.status = "stopping";
     this.emitState();
 
@@ -1717,10 +3281,28 @@ export class HytaleManager {
     const prerequisites = await this.getLifecyclePrerequisites();
     this.assertLifecycleReadiness(prerequisites, "restart");
 
-    await this.stop();
+    await this.stop(false, "restart");
     await this.start();
   }
 
+  listServerCrashes(limit = 50): ServerCrash[] {
+    return listServerCrashes(Math.max(1, Math.min(CRASH_HISTORY_LIMIT, Math.trunc(limit) || 50)));
+  }
+
+  cancelShutdownCountdown(): boolean {
+    const countdown = this.shutdownCountdown;
+    if (!countdown) {
+      return false;
+    }
+
+    countdown.cancelled = true;
+    countdown.cancel();
+    this.shutdownCountdown = null;
+    this.pushTerminal(`Pending ${countdown.reason} countdown cancelled.`, "system");
+    this.emitState();
+    return true;
+  }
+
   async installManagedJavaRuntime(): Promise<JavaRuntimeInstallResult> {
     if (this.process || this.status !== "stopped") {
       throw new AppError(409, "Server must be stopped before installing Java.");
@@ -1751,10 +3333,409 @@ export class HytaleManager {
       throw new AppError(400, "Command cannot be empty.");
     }
 
+    if (trimmed.toLowerCase() === config.hytale.stopCommand.trim().toLowerCase()) {
+      this.stopRequested = true;
+    }
+
     this.process.stdin.write(`${trimmed}\n`);
     this.pushTerminal(`> ${trimmed}`, "system");
   }
 
+  startScheduler(): void {
+    if (this.schedulerTimer) {
+      return;
+    }
+
+    failInterruptedScheduledJobRuns();
+    const now = new Date();
+    for (const job of listScheduledJobs()) {
+      if (!job.enabled) {
+        continue;
+      }
+
+      if (job.nextRunAt && Date.parse(job.nextRunAt) < now.getTime()) {
+        this.pushTerminal(`Scheduled job "${job.name}" missed its run at ${job.nextRunAt}; skipping to the next occurrence.`, "system");
+      }
+      if (!job.nextRunAt || Date.parse(job.nextRunAt) < now.getTime()) {
+        setScheduledJobNextRun(job.id, this.computeNextScheduledRun(job.cron, now));
+      }
+    }
+
+    this.schedulerTimer = setInterval(() => {
+      void this.runDueScheduledJobs();
+      void this.sweepExpiredBans();
+      if (Date.now() - this.lastBackupSyncAt >= BACKUP_SYNC_INTERVAL_MS) {
+        void this.syncBackupTargets("scheduled");
+      }
+      if (Date.now() - this.lastSafetySnapshotPruneAt >= SAFETY_SNAPSHOT_PRUNE_INTERVAL_MS) {
+        void this.pruneSafetySnapshotsSafely();
+      }
+      void this.runUpdateChecksIfDue();
+    }, SCHEDULER_TICK_MS);
+  }
+
+  /**
+   * Called on every scheduler tick. Checks for server and mod updates once the configured interval
+   * has passed, then applies pending updates when auto-update is on and its conditions hold.
+   */
+  private async runUpdateChecksIfDue(): Promise<void> {
+    const settings = await this.getServerRuntimeSettings();
+    if (
+      settings.updateCheckEnabled &&
+      !this.updateCheckRunning &&
+      Date.now() - this.lastUpdateCheckAt >= settings.updateCheckIntervalMinutes * 60_000
+    ) {
+      await this.checkForUpdates();
+    }
+
+    if (settings.autoUpdateEnabled) {
+      await this.applyUpdatesIfAllowed(settings);
+    }
+  }
+
+  /**
+   * Looks for a newer server build on the selected patchline and for updates to CurseForge and
+   * Nexus mods. Lookups never prompt for downloader login. `update.available` is broadcast only
+   * when the set of available updates changes, so the same release is not announced every check.
+   */
+  async checkForUpdates(): Promise<UpdateCheckResult> {
+    if (this.updateCheckRunning) {
+      throw new AppError(409, "An update check is already running.");
+    }
+
+    this.updateCheckRunning = true;
+    this.lastUpdateCheckAt = Date.now();
+    const errors: string[] = [];
+    const mods: AvailableModUpdate[] = [];
+    let server: UpdateCheckResult["server"] = null;
+
+    try {
+      await this.refreshPatchlineVersions();
+      if (await this.isInstalled()) {
+        const availability = await this.getInstallAvailability();
+        if (availability.updateAvailable && availability.latestVersion) {
+          server = {
+            patchline: availability.patchline,
+            installedVersion: availability.installedVersion,
+            latestVersion: availability.latestVersion,
+          };
+        } else if (!availability.latestVersion) {
+          errors.push("Latest server version is unknown; sign in to the downloader from the dashboard.");
+        }
+      }
+
+      if (await this.getCurseForgeConfig()) {
+        try {
+          for (const mod of await this.listCurseForgeInstalledMods(true)) {
+            if (mod.updateAvailable) {
+              mods.push({
+                source: "curseforge",
+                modId: mod.modId,
+                modName: mod.modName,
+                fileName: mod.fileName,
+                latestFileName: mod.latestFileName,
+              });
+            }
+          }
+        } catch (error) {
+          errors.push(`CurseForge: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (await this.getNexusConfig()) {
+        try {
+          for (const mod of await this.listNexusInstalledMods(true)) {
+            if (mod.updateAvailable) {
+              mods.push({
+                source: "nexus",
+                modId: mod.modId,
+                modName: mod.modName,
+                fileName: mod.fileName,
+                latestFileName: mod.latestFileName,
+              });
+            }
+          }
+        } catch (error) {
+          errors.push(`Nexus: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    } finally {
+      this.updateCheckRunning = false;
+    }
+
+    const result: UpdateCheckResult = { checkedAt: new Date().toISOString(), server, mods, errors };
+    this.lastUpdateCheck = result;
+
+    const signature = this.toUpdateSignature(result);
+    if (signature && signature !== this.lastNotifiedUpdates) {
+      this.pushTerminal(`Updates available: ${this.describeUpdates(result)}.`, "system");
+      this.broadcast("update.available", result);
+    }
+    this.lastNotifiedUpdates = signature;
+    this.emitUpdateState();
+    return result;
+  }
+
+  private async applyUpdatesIfAllowed(settings: ServerRuntimeSettings): Promise<void> {
+    const pending = this.lastUpdateCheck;
+    if (!pending || this.autoUpdateRunning) {
+      return;
+    }
+
+    // Each set of updates is attempted once; a failure waits for the next check to find something new.
+    const signature = this.toUpdateSignature(pending);
+    if (!signature || signature === this.lastAutoUpdateAttempt) {
+      return;
+    }
+    if (this.status !== "running" && this.status !== "stopped") {
+      return;
+    }
+    if (settings.autoUpdateOnlyWhenEmpty && this.getOnlinePlayers().length > 0) {
+      return;
+    }
+    if (settings.autoUpdateWindow && !this.isInsideMaintenanceWindow(settings.autoUpdateWindow, new Date())) {
+      return;
+    }
+
+    this.lastAutoUpdateAttempt = signature;
+    await this.applyPendingUpdates(pending);
+  }
+
+  /** Backup, countdown and stop, install the server and mod updates, then start again if it was running. */
+  private async applyPendingUpdates(pending: UpdateCheckResult): Promise<void> {
+    this.autoUpdateRunning = true;
+    const run: AutoUpdateRun = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      ok: null,
+      message: `Applying ${this.describeUpdates(pending)}.`,
+    };
+    this.lastAutoUpdate = run;
+    this.pushTerminal(`Automatic update started: ${this.describeUpdates(pending)}.`, "system");
+    this.emitUpdateState();
+
+    const wasRunning = this.status === "running";
+    const steps: string[] = [];
+
+    // The install would otherwise fall back to an interactive device login after the server is already down.
+    let serverUpdate = pending.server;
+    if (serverUpdate && !(await this.hasUsableDownloaderToken(serverUpdate.patchline))) {
+      serverUpdate = null;
+      steps.push("server update skipped (sign in to the downloader from the dashboard)");
+      if (pending.mods.length === 0) {
+        run.ok = false;
+        run.message = "Server update skipped: no usable downloader login; sign in from the dashboard.";
+        run.finishedAt = new Date().toISOString();
+        this.autoUpdateRunning = false;
+        this.pushTerminal(`Automatic update failed: ${run.message}`, "system");
+        this.emitUpdateState();
+        return;
+      }
+    }
+
+    try {
+      const backup = await this.createBackup(`Before automatic update: ${this.describeUpdates(pending)}`);
+      steps.push(`backup ${backup.name}`);
+
+      if (wasRunning) {
+        await this.stop(false, "update");
+        steps.push("server stopped");
+      }
+
+      if (serverUpdate) {
+        const result = await this.install("auto-update");
+        steps.push(result.applied ? `server updated to ${result.version}` : `server already on ${result.version}`);
+      }
+      if (pending.mods.some((mod) => mod.source === "curseforge")) {
+        const result = await this.updateAllCurseForgeMods("auto-update");
+        steps.push(`${result.updated} CurseForge mod(s) updated`);
+      }
+      if (pending.mods.some((mod) => mod.source === "nexus")) {
+        const result = await this.updateAllNexusMods("auto-update");
+        steps.push(`${result.updated} Nexus mod(s) updated`);
+      }
+
+      run.ok = true;
+      run.message = `${steps.join(", ")}.`;
+    } catch (error) {
+      run.ok = false;
+      run.message = `Failed after ${steps.join(", ") || "no steps"}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (wasRunning && this.status === "stopped") {
+      try {
+        await this.start();
+      } catch (error) {
+        run.ok = false;
+        run.message += ` Restart failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    run.finishedAt = new Date().toISOString();
+    this.autoUpdateRunning = false;
+    this.pushTerminal(`Automatic update ${run.ok ? "finished" : "failed"}: ${run.message}`, "system");
+    this.emitUpdateState();
+
+    if (run.ok) {
+      await this.checkForUpdates().catch(() => undefined);
+    }
+  }
+
+  /** Whether the downloader accepts the stored login, checked without ever starting a device login. */
+  private async hasUsableDownloaderToken(patchline: string): Promise<boolean> {
+    try {
+      const accessToken = await this.getDownloaderAccessTokenNonInteractive();
+      if (!accessToken) {
+        return false;
+      }
+      await this.fetchManifestWithAccessToken(accessToken, patchline, false);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private toUpdateSignature(result: UpdateCheckResult): string {
+    return [
+      ...(result.server ? [`server:${result.server.patchline}:${result.server.latestVersion}`] : []),
+      ...result.mods.map((mod) => `${mod.source}:${mod.modId}:${mod.latestFileName ?? ""}`),
+    ].join("|");
+  }
+
+  private describeUpdates(result: UpdateCheckResult): string {
+    const parts: string[] = [];
+    if (result.server) {
+      parts.push(`server ${result.server.installedVersion ?? "?"} -> ${result.server.latestVersion}`);
+    }
+    if (result.mods.length > 0) {
+      parts.push(`${result.mods.length} mod update(s)`);
+    }
+    return parts.join(", ") || "no updates";
+  }
+
+  // "HH:MM-HH:MM" in server local time; a range such as 23:00-02:00 wraps past midnight.
+  private parseMaintenanceWindow(value: string): { start: number; end: number } | null {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)\s*-\s*([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+    if (!match) {
+      return null;
+    }
+
+    const start = Number(match[1]) * 60 + Number(match[2]);
+    const end = Number(match[3]) * 60 + Number(match[4]);
+    return start === end ? null : { start, end };
+  }
+
+  private isInsideMaintenanceWindow(value: string, date: Date): boolean {
+    const window = this.parseMaintenanceWindow(value);
+    if (!window) {
+      return false;
+    }
+
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return window.start < window.end
+      ? minutes >= window.start && minutes < window.end
+      : minutes >= window.start || minutes < window.end;
+  }
+
+  private emitUpdateState(): void {
+    this.broadcast("update.state", {
+      lastUpdateCheck: this.lastUpdateCheck,
+      lastAutoUpdate: this.lastAutoUpdate,
+    });
+  }
+
+  getSchedulerState(): SchedulerState {
+    return {
+      jobs: listScheduledJobs().map((job) => this.toScheduledJobEntry(job)),
+      runs: listScheduledJobRuns(null, SCHEDULER_RECENT_RUNS_LIMIT),
+    };
+  }
+
+  listScheduledJobRuns(jobId: number | null, limit = SCHEDULER_RECENT_RUNS_LIMIT): ScheduledJobRun[] {
+    const safeLimit = Math.max(1, Math.min(500, Math.trunc(limit) || SCHEDULER_RECENT_RUNS_LIMIT));
+    return listScheduledJobRuns(jobId, safeLimit);
+  }
+
+  createScheduledJob(
+    input: {
+      name: string;
+      cron: string;
+      action: string;
+      payload?: ScheduledJobPayload;
+      enabled?: boolean;
+    },
+    createdBy: number | null,
+  ): ScheduledJobEntry {
+    const normalized = this.normalizeScheduledJobInput(input);
+    const job = createScheduledJob({
+      ...normalized,
+      nextRunAt: normalized.enabled ? this.computeNextScheduledRun(normalized.cron, new Date()) : null,
+      createdBy,
+    });
+
+    this.pushTerminal(`Scheduled job "${job.name}" created (${job.action}, ${job.cron}).`, "system");
+    this.emitSchedulerState();
+    return this.toScheduledJobEntry(job);
+  }
+
+  getScheduledJob(id: number): ScheduledJobEntry {
+    return this.toScheduledJobEntry(this.getScheduledJobOrThrow(id));
+  }
+
+  updateScheduledJob(
+    id: number,
+    input: {
+      name?: string;
+      cron?: string;
+      action?: string;
+      payload?: ScheduledJobPayload;
+      enabled?: boolean;
+    },
+  ): ScheduledJobEntry {
+    const current = this.getScheduledJobOrThrow(id);
+    const normalized = this.normalizeScheduledJobInput({
+      name: input.name ?? current.name,
+      cron: input.cron ?? current.cron,
+      action: input.action ?? current.action,
+      payload: input.payload ?? this.parseScheduledJobPayload(current.payload),
+      enabled: input.enabled ?? current.enabled,
+    });
+
+    const scheduleChanged = normalized.cron !== current.cron || normalized.enabled !== current.enabled;
+    const nextRunAt = !normalized.enabled
+      ? null
+      : scheduleChanged || !current.nextRunAt
+        ? this.computeNextScheduledRun(normalized.cron, new Date())
+        : current.nextRunAt;
+
+    const job = updateScheduledJob(id, { ...normalized, nextRunAt });
+    if (!job) {
+      throw new AppError(404, "Scheduled job not found.");
+    }
+
+    this.emitSchedulerState();
+    return this.toScheduledJobEntry(job);
+  }
+
+  removeScheduledJob(id: number): void {
+    const job = this.getScheduledJobOrThrow(id);
+    deleteScheduledJob(id);
+    this.pushTerminal(`Scheduled job "${job.name}" deleted.`, "system");
+    this.emitSchedulerState();
+  }
+
+  runScheduledJobNow(id: number): ScheduledJobEntry {
+    const job = this.getScheduledJobOrThrow(id);
+    if (this.runningScheduledJobs.has(id)) {
+      throw new AppError(409, `Scheduled job "${job.name}" is already running.`);
+    }
+
+    void this.executeScheduledJob(job, "manual");
+    return this.toScheduledJobEntry(job);
+  }
+
   async listMods(): Promise<ModEntry[]> {
     const modsDir = path.join(config.hytale.serverDir, "mods");
     await mkdir(modsDir, { recursive: true });
@@ -1795,15 +3776,23 @@ export class HytaleManager {
     await this.renameModFile(safeName, restored);
   }
 
-  async deleteMod(filename: string): Promise<void> {
+  async deleteMod(filename: string, actor: string | null = null): Promise<void> {
     const safeName = sanitizeFilename(filename);
     const target = path.join(config.hytale.serverDir, "mods", safeName);
     if (!(await pathExists(target))) {
       throw new AppError(404, "Mod file not found.");
     }
 
+    // Tracking state lives outside the server directory, so snapshot it alongside the jar.
+    await this.takeSafetySnapshot("mod.delete", `Delete mod ${safeName}`, actor, [
+      `mods/${safeName}`,
+      { label: path.basename(config.hytale.curseForgeStatePath), target: config.hytale.curseForgeStatePath },
+      { label: path.basename(config.hytale.nexusStatePath), target: config.hytale.nexusStatePath },
+    ]);
     await rm(target, { force: true });
     this.invalidateModMetadataCacheEntry(target);
+    await this.removeCurseForgeTrackingForFilename(safeName);
+    await this.removeNexusTrackingForFilename(safeName);
   }
 
   async listWhitelist(): Promise<WhitelistState> {
@@ -1945,27 +3934,607 @@ export class HytaleManager {
     return next;
   }
 
-  private getWhitelistFilePath(): string {
-    return path.join(config.hytale.serverDir, "whitelist.json");
-  }
+  async getModerationState(): Promise<ModerationState> {
+    const [bans, ops, permissions] = await Promise.all([
+      this.readBansFile(),
+      this.readOpsFile(),
+      this.readPermissionsFile(),
+    ]);
+    const names = await this.readKnownPlayerNames();
 
-  private getPlayerNameCachePath(): string {
-    return path.join(config.app.dataDir, ".hytale-player-name-cache.json");
+    return {
+      bans: this.readBanEntries(bans, names),
+      ops: ops.list.map((uuid) => ({ uuid, username: names.get(uuid) ?? null })),
+      permissions: {
+        groups: Object.fromEntries(permissions.groups),
+        users: [...permissions.users.entries()].map(([uuid, entry]) => ({
+          uuid,
+          username: names.get(uuid) ?? null,
+          groups: entry.groups,
+          permissions: entry.permissions,
+        })),
+      },
+    };
   }
 
-  private async readWhitelistFile(): Promise<WhitelistFileData> {
-    const filePath = this.getWhitelistFilePath();
-    if (!(await pathExists(filePath))) {
-      const initial: WhitelistFileData = { enabled: false, list: [] };
-      await this.writeWhitelistFile(initial);
-      return initial;
-    }
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(await readFile(filePath, "utf8"));
-    } catch {
-      throw new AppError(500, "whitelist.json is not valid JSON.");
+  async kickPlayer(playerInput: string, reasonInput?: string): Promise<void> {
+    if (!this.process || this.status !== "running") {
+      throw new AppError(409, "Server is not running.");
+    }
+
+    const target = await this.resolveModerationTarget(playerInput);
+    const reason = this.normalizeModerationReason(reasonInput);
+    this.sendCommand(`/kick ${target.commandName}${reason ? ` ${reason}` : ""}`);
+  }
+
+  async addBan(input: { player: string; reason?: string; expiresAt?: string | null }): Promise<ModerationState> {
+    const target = await this.resolveModerationTarget(input.player);
+    const reason = this.normalizeModerationReason(input.reason);
+    const expiresAt = this.normalizeBanExpiry(input.expiresAt);
+    const matches = (entry: Record<string, unknown>) => this.normalizeUuid(String(entry.target ?? entry.uuid ?? "")) === target.uuid;
+    // A running server owns bans.json and console /ban cannot set an expiry, so the ban goes through the
+    // console and its reason and expiry are kept in the manager's store; the ban sweep lifts it with /unban.
+    const running = !!this.process && this.status === "running";
+
+    await this.applyPlayerFileChange<BansFileData>({
+      description: `ban ${target.label}`,
+      commands: [`/ban ${target.commandName}${reason ? ` ${reason}` : ""}`],
+      read: () => this.readBansFile(),
+      confirmed: (data) => data.entries.some(matches),
+      applied: (data) =>
+        data.entries.some((entry) => {
+          const ban = matches(entry) ? this.toBanEntry(entry, new Map()) : null;
+          return !!ban && (running || ((ban.reason ?? "") === reason && ban.expiresAt === expiresAt));
+        }),
+      apply: (data) => {
+        const existing = data.entries.find(matches);
+        const timed = !running && !!expiresAt;
+        const next: Record<string, unknown> = {
+          ...existing,
+          type: timed ? "timed" : "infinite",
+          target: target.uuid,
+          by: existing?.by ?? CONSOLE_SENDER_UUID,
+          timestamp: existing?.timestamp ?? Date.now(),
+          reason,
+        };
+        if (timed) {
+          next.expiresOn = Date.parse(expiresAt as string);
+        } else {
+          delete next.expiresOn;
+        }
+        return { entries: [...data.entries.filter((entry) => !matches(entry)), next] };
+      },
+      write: (data) => this.writeBansFile(data),
+    });
+
+    if (running && (reason || expiresAt)) {
+      recordBanDetails({ uuid: target.uuid, reason: reason || null, expiresAt });
+    } else {
+      deleteBanDetails(target.uuid);
+    }
+
+    this.pushTerminal(
+      `Ban added: ${target.label}${expiresAt ? ` until ${expiresAt}` : ""}${reason ? ` (${reason})` : ""}`,
+      "system",
+    );
+    return await this.emitModerationState();
+  }
+
+  async removeBan(uuidInput: string): Promise<ModerationState> {
+    const uuid = this.normalizeUuid(uuidInput);
+    if (!uuid) {
+      throw new AppError(400, "uuid must be a valid UUID.");
+    }
+
+    const current = await this.readBansFile();
+    const matches = (entry: Record<string, unknown>) => this.normalizeUuid(String(entry.target ?? entry.uuid ?? "")) === uuid;
+    if (!current.entries.some(matches)) {
+      throw new AppError(404, "Ban entry not found.");
+    }
+
+    const target = await this.describeModerationUuid(uuid);
+    await this.applyPlayerFileChange<BansFileData>({
+      description: `unban ${target.label}`,
+      commands: [`/unban ${target.commandName}`],
+      read: () => this.readBansFile(),
+      confirmed: (data) => !data.entries.some(matches),
+      applied: (data) => !data.entries.some(matches),
+      apply: (data) => ({ entries: data.entries.filter((entry) => !matches(entry)) }),
+      write: (data) => this.writeBansFile(data),
+    });
+
+    deleteBanDetails(uuid);
+    this.pushTerminal(`Ban removed: ${target.label}`, "system");
+    return await this.emitModerationState();
+  }
+
+  async addOperator(playerInput: string): Promise<ModerationState> {
+    const target = await this.resolveModerationTarget(playerInput);
+    await this.applyPlayerFileChange<OpsFileData>({
+      description: `op ${target.label}`,
+      commands: [`/op add ${target.commandName}`],
+      read: () => this.readOpsFile(),
+      confirmed: (data) => data.list.includes(target.uuid),
+      applied: (data) => data.list.includes(target.uuid),
+      apply: (data) => ({ ...data, list: [...data.list, target.uuid] }),
+      write: (data) => this.writeOpsFile(data),
+    });
+
+    this.pushTerminal(`Operator added: ${target.label}`, "system");
+    return await this.emitModerationState();
+  }
+
+  async removeOperator(uuidInput: string): Promise<ModerationState> {
+    const uuid = this.normalizeUuid(uuidInput);
+    if (!uuid) {
+      throw new AppError(400, "uuid must be a valid UUID.");
+    }
+
+    if (!(await this.readOpsFile()).list.includes(uuid)) {
+      throw new AppError(404, "Operator not found.");
+    }
+
+    const target = await this.describeModerationUuid(uuid);
+    await this.applyPlayerFileChange<OpsFileData>({
+      description: `deop ${target.label}`,
+      commands: [`/op remove ${target.commandName}`],
+      read: () => this.readOpsFile(),
+      confirmed: (data) => !data.list.includes(uuid),
+      applied: (data) => !data.list.includes(uuid),
+      apply: (data) => ({ ...data, list: data.list.filter((item) => item !== uuid) }),
+      write: (data) => this.writeOpsFile(data),
+    });
+
+    this.pushTerminal(`Operator removed: ${target.label}`, "system");
+    return await this.emitModerationState();
+  }
+
+  async setUserPermissions(input: { player: string; groups: string[]; permissions: string[] }): Promise<ModerationState> {
+    const target = await this.resolveModerationTarget(input.player);
+    const groups = this.normalizePermissionList(input.groups, PERMISSION_GROUP_PATTERN, "group");
+    const permissions = this.normalizePermissionList(input.permissions, PERMISSION_NODE_PATTERN, "permission");
+    const current = (await this.readPermissionsFile()).users.get(target.uuid) ?? { groups: [], permissions: [], extra: {} };
+
+    const commands: string[] = [];
+    const addedPermissions = permissions.filter((node) => !current.permissions.includes(node));
+    const removedPermissions = current.permissions.filter((node) => !permissions.includes(node));
+    if (addedPermissions.length > 0) {
+      commands.push(`/perm user add ${target.uuid} ${addedPermissions.join(" ")}`);
+    }
+    if (removedPermissions.length > 0) {
+      commands.push(`/perm user remove ${target.uuid} ${removedPermissions.join(" ")}`);
+    }
+    for (const group of groups.filter((item) => !current.groups.includes(item))) {
+      commands.push(`/perm user group add ${target.uuid} ${group}`);
+    }
+    for (const group of current.groups.filter((item) => !groups.includes(item))) {
+      commands.push(`/perm user group remove ${target.uuid} ${group}`);
+    }
+
+    const sameSet = (left: string[], right: string[]) =>
+      left.length === right.length && left.every((item) => right.includes(item));
+    const matchesTarget = (data: PermissionsFileData) => {
+      const user = data.users.get(target.uuid);
+      return sameSet(user?.groups ?? [], groups) && sameSet(user?.permissions ?? [], permissions);
+    };
+
+    await this.applyPlayerFileChange<PermissionsFileData>({
+      description: `update permissions for ${target.label}`,
+      commands,
+      read: () => this.readPermissionsFile(),
+      confirmed: matchesTarget,
+      applied: matchesTarget,
+      apply: (data) => {
+        const users = new Map(data.users);
+        if (groups.length === 0 && permissions.length === 0) {
+          users.delete(target.uuid);
+        } else {
+          users.set(target.uuid, { groups, permissions, extra: users.get(target.uuid)?.extra ?? {} });
+        }
+        return { ...data, users };
+      },
+      write: (data) => this.writePermissionsFile(data),
+    });
+
+    this.pushTerminal(`Permissions updated: ${target.label}`, "system");
+    return await this.emitModerationState();
+  }
+
+  async setPermissionGroup(groupInput: string, permissionsInput: string[]): Promise<ModerationState> {
+    const group = String(groupInput ?? "").trim();
+    if (!PERMISSION_GROUP_PATTERN.test(group)) {
+      throw new AppError(400, "Group name may only contain letters, numbers, '_' and '-'.");
+    }
+
+    const permissions = this.normalizePermissionList(permissionsInput, PERMISSION_NODE_PATTERN, "permission");
+    const current = (await this.readPermissionsFile()).groups.get(group) ?? [];
+    const added = permissions.filter((node) => !current.includes(node));
+    const removed = current.filter((node) => !permissions.includes(node));
+    const commands: string[] = [];
+    if (added.length > 0) {
+      commands.push(`/perm group add ${group} ${added.join(" ")}`);
+    }
+    if (removed.length > 0) {
+      commands.push(`/perm group remove ${group} ${removed.join(" ")}`);
+    }
+
+    const matchesTarget = (data: PermissionsFileData) => {
+      const nodes = data.groups.get(group);
+      return !!nodes && nodes.length === permissions.length && nodes.every((node) => permissions.includes(node));
+    };
+
+    await this.applyPlayerFileChange<PermissionsFileData>({
+      description: `update permission group ${group}`,
+      commands,
+      read: () => this.readPermissionsFile(),
+      confirmed: matchesTarget,
+      applied: matchesTarget,
+      apply: (data) => ({ ...data, groups: new Map(data.groups).set(group, permissions) }),
+      write: (data) => this.writePermissionsFile(data),
+    });
+
+    this.pushTerminal(`Permission group updated: ${group}`, "system");
+    return await this.emitModerationState();
+  }
+
+  async deletePermissionGroup(groupInput: string): Promise<ModerationState> {
+    const group = String(groupInput ?? "").trim();
+    const current = await this.readPermissionsFile();
+    const nodes = current.groups.get(group);
+    if (!nodes) {
+      throw new AppError(404, "Permission group not found.");
+    }
+
+    // There is no console command to drop a group outright, so the server only gets to clear its nodes.
+    const isGone = (data: PermissionsFileData) => !data.groups.has(group);
+    await this.applyPlayerFileChange<PermissionsFileData>({
+      description: `delete permission group ${group}`,
+      commands: nodes.length > 0 ? [`/perm group remove ${group} ${nodes.join(" ")}`] : [],
+      read: () => this.readPermissionsFile(),
+      confirmed: (data) => (data.groups.get(group)?.length ?? 0) === 0,
+      applied: isGone,
+      apply: (data) => {
+        const groups = new Map(data.groups);
+        groups.delete(group);
+        const users = new Map<string, PermissionsFileUser>();
+        for (const [uuid, user] of data.users) {
+          users.set(uuid, { ...user, groups: user.groups.filter((item) => item !== group) });
+        }
+        return { ...data, groups, users };
+      },
+      write: (data) => this.writePermissionsFile(data),
+    });
+
+    this.pushTerminal(`Permission group deleted: ${group}`, "system");
+    return await this.emitModerationState();
+  }
+
+  private async sweepExpiredBans(): Promise<void> {
+    if (this.banSweepRunning) {
+      return;
+    }
+
+    this.banSweepRunning = true;
+    try {
+      if (!(await this.isInstalled()) || !(await pathExists(path.join(config.hytale.serverDir, "bans.json")))) {
+        return;
+      }
+
+      const bans = this.readBanEntries(await this.readBansFile(), new Map());
+      // Details of bans lifted outside the dashboard (e.g. /unban in game) must not apply to a later ban.
+      const banned = new Set(bans.map((ban) => ban.uuid));
+      for (const details of listBanDetails()) {
+        if (!banned.has(details.uuid)) {
+          deleteBanDetails(details.uuid);
+        }
+      }
+
+      const now = Date.now();
+      for (const ban of bans) {
+        if (ban.expiresAt && Date.parse(ban.expiresAt) <= now) {
+          this.pushTerminal(`Ban for ${ban.uuid} expired at ${ban.expiresAt}.`, "system");
+          await this.removeBan(ban.uuid);
+        }
+      }
+      this.lastBanSweepError = null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message !== this.lastBanSweepError) {
+        this.lastBanSweepError = message;
+        this.pushTerminal(`Failed to lift expired bans: ${message}`, "system");
+      }
+    } finally {
+      this.banSweepRunning = false;
+    }
+  }
+
+  /**
+   * Running servers own their player files, so changes go through console commands first and
+   * the file is only edited directly when the server is stopped or did not pick the change up.
+   */
+  private async applyPlayerFileChange<T>(change: PlayerFileChange<T>): Promise<void> {
+    if (change.applied(await change.read())) {
+      return;
+    }
+
+    if (this.process && this.status === "running" && change.commands.length > 0) {
+      for (const command of change.commands) {
+        this.sendCommand(command);
+      }
+
+      let confirmed = false;
+      const deadline = Date.now() + PLAYER_FILE_COMMAND_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        await sleep(300);
+        if (change.confirmed(await change.read())) {
+          confirmed = true;
+          break;
+        }
+      }
+
+      if (!confirmed) {
+        this.pushTerminal(`Server did not confirm "${change.description}"; editing the file directly.`, "system");
+      }
+    }
+
+    const current = await change.read();
+    if (!change.applied(current)) {
+      await change.write(change.apply(current));
+    }
+  }
+
+  private async emitModerationState(): Promise<ModerationState> {
+    const next = await this.getModerationState();
+    this.broadcast("moderation.state", { moderation: next });
+    return next;
+  }
+
+  private async resolveModerationTarget(
+    playerInput: string,
+  ): Promise<{ uuid: string; label: string; commandName: string }> {
+    const input = String(playerInput ?? "").trim();
+    if (!input) {
+      throw new AppError(400, "username or UUID is required.");
+    }
+
+    const resolved = await this.resolveUuidFromWhitelistInput(input, { allowWhitelistCommand: false });
+    if (resolved.username) {
+      return {
+        uuid: resolved.uuid,
+        label: `${resolved.username} (${resolved.uuid})`,
+        commandName: resolved.username,
+      };
+    }
+    return await this.describeModerationUuid(resolved.uuid);
+  }
+
+  private async describeModerationUuid(uuid: string): Promise<{ uuid: string; label: string; commandName: string }> {
+    const username = (await this.readKnownPlayerNames()).get(uuid) ?? null;
+    return {
+      uuid,
+      label: username ? `${username} (${uuid})` : uuid,
+      commandName: username ?? uuid,
+    };
+  }
+
+  private async readKnownPlayerNames(): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const [uuid, entry] of await this.readPlayerNameCache()) {
+      names.set(uuid, entry.username);
+    }
+    for (const [uuid, profile] of await this.readLocalPlayerProfileIndex()) {
+      names.set(uuid, profile.username);
+    }
+    for (const player of this.onlinePlayers.values()) {
+      if (player.uuid) {
+        names.set(player.uuid, player.username);
+      }
+    }
+    return names;
+  }
+
+  private normalizeModerationReason(value: unknown): string {
+    const reason = typeof value === "string" ? value.replace(/[\r\n]+/g, " ").trim() : "";
+    if (reason.length > 256) {
+      throw new AppError(400, "Reason must be at most 256 characters.");
+    }
+    return reason;
+  }
+
+  private normalizeBanExpiry(value: unknown): string | null {
+    if (value === null || value === undefined || value === "") {
+      return null;
+    }
+
+    const parsed = typeof value === "number" ? value : Date.parse(String(value));
+    if (!Number.isFinite(parsed)) {
+      throw new AppError(400, "expiresAt must be a valid date.");
+    }
+    if (parsed <= Date.now()) {
+      throw new AppError(400, "expiresAt must be in the future.");
+    }
+    return new Date(parsed).toISOString();
+  }
+
+  private normalizePermissionList(value: unknown, pattern: RegExp, label: string): string[] {
+    if (!Array.isArray(value)) {
+      throw new AppError(400, `${label} list must be an array.`);
+    }
+
+    const result: string[] = [];
+    for (const item of value) {
+      const node = typeof item === "string" ? item.trim() : "";
+      if (!node) {
+        continue;
+      }
+      if (!pattern.test(node)) {
+        throw new AppError(400, `Invalid ${label} "${node}".`);
+      }
+      if (!result.includes(node)) {
+        result.push(node);
+      }
+    }
+    return result;
+  }
+
+  /** Ban entries from bans.json, with reason and expiry filled in from the manager's store where the file has none. */
+  private readBanEntries(bans: BansFileData, names: Map<string, string>): BanEntry[] {
+    const details = new Map(listBanDetails().map((entry) => [entry.uuid, entry]));
+    return bans.entries
+      .map((entry) => this.toBanEntry(entry, names))
+      .filter((entry): entry is BanEntry => entry !== null)
+      .map((ban) => {
+        const stored = details.get(ban.uuid);
+        return stored
+          ? { ...ban, reason: ban.reason ?? stored.reason, expiresAt: ban.expiresAt ?? stored.expiresAt }
+          : ban;
+      });
+  }
+
+  private toBanEntry(entry: Record<string, unknown>, names: Map<string, string>): BanEntry | null {
+    const uuid = this.normalizeUuid(String(entry.target ?? entry.uuid ?? ""));
+    if (!uuid) {
+      return null;
+    }
+
+    const toIso = (value: unknown): string | null => {
+      const parsed = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : Number.NaN;
+      return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null;
+    };
+
+    return {
+      uuid,
+      username: names.get(uuid) ?? null,
+      reason: typeof entry.reason === "string" && entry.reason.trim() ? entry.reason : null,
+      bannedBy: typeof entry.by === "string" ? entry.by : null,
+      bannedAt: toIso(entry.timestamp),
+      expiresAt: toIso(entry.expiresOn ?? entry.expiresAt),
+    };
+  }
+
+  private async readPlayerJsonFile(filename: string): Promise<unknown> {
+    const filePath = path.join(config.hytale.serverDir, filename);
+    if (!(await pathExists(filePath))) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await readFile(filePath, "utf8"));
+    } catch {
+      throw new AppError(500, `${filename} is not valid JSON.`);
+    }
+  }
+
+  private async readBansFile(): Promise<BansFileData> {
+    const parsed = await this.readPlayerJsonFile("bans.json");
+    if (parsed !== null && !Array.isArray(parsed)) {
+      throw new AppError(500, "bans.json has an unexpected format.");
+    }
+
+    return {
+      entries: (parsed ?? []).filter(
+        (item): item is Record<string, unknown> => !!item && typeof item === "object" && !Array.isArray(item),
+      ),
+    };
+  }
+
+  private async writeBansFile(value: BansFileData): Promise<void> {
+    await writeFile(path.join(config.hytale.serverDir, "bans.json"), JSON.stringify(value.entries, null, 2), "utf8");
+  }
+
+  private async readOpsFile(): Promise<OpsFileData> {
+    const parsed = await this.readPlayerJsonFile("ops.json");
+    const record = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+    const rawList = Array.isArray(parsed) ? parsed : Array.isArray(record?.list) ? record.list : [];
+    const list: string[] = [];
+
+    for (const item of rawList) {
+      const raw = typeof item === "string"
+        ? item
+        : item && typeof item === "object"
+          ? String((item as Record<string, unknown>).uuid ?? (item as Record<string, unknown>).target ?? "")
+          : "";
+      const uuid = this.normalizeUuid(raw);
+      if (uuid && !list.includes(uuid)) {
+        list.push(uuid);
+      }
+    }
+
+    return { shape: Array.isArray(parsed) ? "array" : "object", list };
+  }
+
+  private async writeOpsFile(value: OpsFileData): Promise<void> {
+    const data = value.shape === "array" ? value.list : { list: value.list };
+    await writeFile(path.join(config.hytale.serverDir, "ops.json"), JSON.stringify(data, null, 2), "utf8");
+  }
+
+  private async readPermissionsFile(): Promise<PermissionsFileData> {
+    const parsed = await this.readPlayerJsonFile("permissions.json");
+    if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+      throw new AppError(500, "permissions.json has an unexpected format.");
+    }
+
+    const { users: rawUsers, groups: rawGroups, ...extra } = (parsed ?? {}) as Record<string, unknown>;
+    const toStringList = (value: unknown) =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+    const users = new Map<string, PermissionsFileUser>();
+    if (rawUsers && typeof rawUsers === "object") {
+      for (const [rawUuid, rawUser] of Object.entries(rawUsers as Record<string, unknown>)) {
+        const uuid = this.normalizeUuid(rawUuid);
+        if (!uuid || !rawUser || typeof rawUser !== "object") {
+          continue;
+        }
+        const { groups, permissions, ...userExtra } = rawUser as Record<string, unknown>;
+        users.set(uuid, { groups: toStringList(groups), permissions: toStringList(permissions), extra: userExtra });
+      }
+    }
+
+    const groups = new Map<string, string[]>();
+    if (rawGroups && typeof rawGroups === "object") {
+      for (const [name, nodes] of Object.entries(rawGroups as Record<string, unknown>)) {
+        groups.set(name, toStringList(nodes));
+      }
+    }
+
+    return { extra, users, groups };
+  }
+
+  private async writePermissionsFile(value: PermissionsFileData): Promise<void> {
+    const users: Record<string, unknown> = {};
+    for (const [uuid, user] of value.users) {
+      users[uuid] = { ...user.extra, groups: user.groups, permissions: user.permissions };
+    }
+
+    const data = {
+      ...value.extra,
+      users,
+      groups: Object.fromEntries(value.groups),
+    };
+    await writeFile(path.join(config.hytale.serverDir, "permissions.json"), JSON.stringify(data, null, 2), "utf8");
+  }
+
+  private getWhitelistFilePath(): string {
+    return path.join(config.hytale.serverDir, "whitelist.json");
+  }
+
+  private getPlayerNameCachePath(): string {
+    return path.join(config.app.dataDir, ".hytale-player-name-cache.json");
+  }
+
+  private async readWhitelistFile(): Promise<WhitelistFileData> {
+    const filePath = this.getWhitelistFilePath();
+    if (!(await pathExists(filePath))) {
+      const initial: WhitelistFileData = { enabled: false, list: [] };
+      await this.writeWhitelistFile(initial);
+      return initial;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(filePath, "utf8"));
+    } catch {
+      throw new AppError(500, "whitelist.json is not valid JSON.");
     }
 
     const record = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
@@ -2213,7 +4782,10 @@ export class HytaleManager {
     await writeFile(this.getPlayerNameCachePath(), JSON.stringify(payload, null, 2), "utf8");
   }
 
-  private async resolveUuidFromWhitelistInput(input: string): Promise<{ uuid: string; username: string | null }> {
+  private async resolveUuidFromWhitelistInput(
+    input: string,
+    options: { allowWhitelistCommand?: boolean } = {},
+  ): Promise<{ uuid: string; username: string | null }> {
     const uuidInput = this.normalizeUuid(input);
     if (uuidInput) {
       return {
@@ -2228,6 +4800,15 @@ export class HytaleManager {
     }
 
     const lower = usernameInput.toLowerCase();
+    for (const player of this.onlinePlayers.values()) {
+      if (player.uuid && player.username.toLowerCase() === lower) {
+        return {
+          uuid: player.uuid,
+          username: player.username,
+        };
+      }
+    }
+
     const localProfiles = await this.readLocalPlayerProfileIndex();
     for (const [uuid, profile] of localProfiles) {
       if (profile.username.toLowerCase() === lower) {
@@ -2267,7 +4848,10 @@ export class HytaleManager {
       };
     }
 
-    const serverResolved = await this.tryResolveWhitelistUsernameViaServerCommand(usernameInput);
+    // The whitelist command side effect is only acceptable when the caller is adding to the whitelist anyway.
+    const serverResolved = options.allowWhitelistCommand === false
+      ? null
+      : await this.tryResolveWhitelistUsernameViaServerCommand(usernameInput);
     if (serverResolved) {
       cache.set(serverResolved.uuid, {
         username: serverResolved.username,
@@ -2500,7 +5084,7 @@ export class HytaleManager {
     return installed;
   }
 
-  async installCurseForgeMod(modId: number): Promise<{
+  async installCurseForgeMod(modId: number, actor: string | null = null): Promise<{
     installedMod: CurseForgeInstalledMod | null;
     mods: ModEntry[];
     installed: CurseForgeInstalledMod[];
@@ -2519,7 +5103,7 @@ export class HytaleManager {
       throw new AppError(404, `No downloadable file is available for CurseForge mod ${safeModId}.`);
     }
 
-    const result = await this.installCurseForgeFile(curseForge, mod, latestFile);
+    const result = await this.installCurseForgeFile(curseForge, mod, latestFile, undefined, actor);
     const installed = await this.listCurseForgeInstalledMods(true);
     const installedMod = installed.find((item) => item.modId === safeModId) ?? null;
 
@@ -2535,7 +5119,7 @@ export class HytaleManager {
     return await this.listCurseForgeInstalledMods(true);
   }
 
-  async updateCurseForgeMod(modId: number): Promise<{
+  async updateCurseForgeMod(modId: number, actor: string | null = null): Promise<{
     updated: boolean;
     installedMod: CurseForgeInstalledMod | null;
     installed: CurseForgeInstalledMod[];
@@ -2560,7 +5144,7 @@ export class HytaleManager {
       throw new AppError(404, `No downloadable file is available for CurseForge mod ${safeModId}.`);
     }
 
-    const result = await this.installCurseForgeFile(curseForge, mod, latestFile, tracked);
+    const result = await this.installCurseForgeFile(curseForge, mod, latestFile, tracked, actor);
     const installed = await this.listCurseForgeInstalledMods(true);
     const installedMod = installed.find((item) => item.modId === safeModId) ?? null;
 
@@ -2572,7 +5156,7 @@ export class HytaleManager {
     };
   }
 
-  async updateAllCurseForgeMods(): Promise<{
+  async updateAllCurseForgeMods(actor: string | null = null): Promise<{
     updated: number;
     skipped: number;
     installed: CurseForgeInstalledMod[];
@@ -2602,7 +5186,7 @@ export class HytaleManager {
           continue;
         }
 
-        const result = await this.installCurseForgeFile(curseForge, mod, latestFile, tracked);
+        const result = await this.installCurseForgeFile(curseForge, mod, latestFile, tracked, actor);
         if (result.alreadyInstalled) {
           skipped += 1;
         } else {
@@ -2679,7 +5263,7 @@ export class HytaleManager {
     };
   }
 
-  async finishModUpload(uploadId: string): Promise<ModEntry> {
+  async finishModUpload(uploadId: string, actor: string | null = null): Promise<ModEntry> {
     const upload = this.uploads.get(uploadId);
     if (!upload) {
       throw new AppError(404, "Upload session not found.");
@@ -2700,11 +5284,20 @@ export class HytaleManager {
 
     try {
       const uploadIdentity = await this.resolveModIdentity(upload.tempPath, upload.filename);
-      if (uploadIdentity.pluginKey) {
-        await this.removeExistingModsForPluginKey(modsDir, uploadIdentity.pluginKey);
+      const replaced = uploadIdentity.pluginKey ? await this.findModsForPluginKey(modsDir, uploadIdentity.pluginKey) : [];
+      const destination = path.join(modsDir, upload.filename);
+      if (replaced.length > 0 || (await pathExists(destination))) {
+        await this.takeModReplaceSnapshot(`Upload mod ${upload.filename}`, actor, [...replaced, upload.filename]);
+      }
+
+      for (const filename of replaced) {
+        await rm(path.join(modsDir, filename), { force: true });
+        this.invalidateModMetadataCacheEntry(path.join(modsDir, filename));
+      }
+      if (replaced.length > 0) {
+        this.pushTerminal(`Removed older mod builds with the same plugin name: ${replaced.join(", ")}`, "system");
       }
 
-      const destination = path.join(modsDir, upload.filename);
       if (await pathExists(destination)) {
         await rm(destination, { force: true });
         this.invalidateModMetadataCacheEntry(destination);
@@ -2782,9 +5375,9 @@ export class HytaleManager {
     this.modMetadataCache.delete(fullPath);
   }
 
-  private async removeExistingModsForPluginKey(modsDir: string, pluginKey: string): Promise<void> {
+  private async findModsForPluginKey(modsDir: string, pluginKey: string): Promise<string[]> {
     const entries = await readdir(modsDir, { withFileTypes: true });
-    const removed: string[] = [];
+    const matches: string[] = [];
 
     for (const entry of entries) {
       if (!entry.isFile()) {
@@ -2794,21 +5387,24 @@ export class HytaleManager {
       const fullPath = path.join(modsDir, entry.name);
       const fileStats = await stat(fullPath);
       const identity = await this.resolveCachedModIdentity(fullPath, entry.name, fileStats.size, fileStats.mtimeMs);
-      if (identity.pluginKey !== pluginKey) {
-        continue;
+      if (identity.pluginKey === pluginKey) {
+        matches.push(entry.name);
       }
-
-      await rm(fullPath, { force: true });
-      this.invalidateModMetadataCacheEntry(fullPath);
-      removed.push(entry.name);
     }
 
-    if (removed.length > 0) {
-      this.pushTerminal(
-        `Removed older mod builds with the same plugin name: ${removed.join(", ")}`,
-        "system",
-      );
-    }
+    return matches;
+  }
+
+  /**
+   * Snapshots the mod files an upload or update replaces, plus the incoming name so undo removes a
+   * build that landed under a new filename. Tracking state is included as for a delete.
+   */
+  private async takeModReplaceSnapshot(summary: string, actor: string | null, filenames: string[]): Promise<void> {
+    await this.takeSafetySnapshot("mod.replace", summary, actor, [
+      ...[...new Set(filenames)].map((filename) => `mods/${filename}`),
+      { label: path.basename(config.hytale.curseForgeStatePath), target: config.hytale.curseForgeStatePath },
+      { label: path.basename(config.hytale.nexusStatePath), target: config.hytale.nexusStatePath },
+    ]);
   }
 
   private async resolveModIdentity(archivePath: string, fallbackFilename: string): Promise<ModIdentity> {
@@ -2911,54 +5507,52 @@ export class HytaleManager {
       return null;
     }
 
-    const unzipBin = Bun.which("unzip");
-    if (!unzipBin) {
+    let archive: ZipArchive;
+    try {
+      archive = await ZipArchive.open(archivePath);
+    } catch {
       return null;
     }
 
-    const listingResult = await this.runCommandCapture([unzipBin, "-Z1", archivePath]);
-    if (listingResult.code !== 0) {
-      return null;
-    }
+    try {
+      const manifestCandidates = archive.entries
+        .filter((entry) => !entry.isDirectory && path.posix.basename(entry.name).toLowerCase() === "manifest.json")
+        .sort((left, right) => {
+          const leftDepth = left.name.split("/").length;
+          const rightDepth = right.name.split("/").length;
+          if (leftDepth !== rightDepth) {
+            return leftDepth - rightDepth;
+          }
+          return left.name.length - right.name.length;
+        });
 
-    const manifestCandidates = listingResult.stdout
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .filter((line) => path.basename(line).toLowerCase() === "manifest.json")
-      .sort((left, right) => {
-        const leftDepth = left.split("/").length;
-        const rightDepth = right.split("/").length;
-        if (leftDepth !== rightDepth) {
-          return leftDepth - rightDepth;
-        }
-        return left.length - right.length;
-      });
+      for (const manifestEntry of manifestCandidates) {
+        try {
+          const content = (await archive.readEntry(manifestEntry, MOD_MANIFEST_MAX_BYTES)).toString("utf8");
+          if (content.trim().length === 0) {
+            continue;
+          }
 
-    for (const manifestPath of manifestCandidates) {
-      const contentResult = await this.runCommandCapture([unzipBin, "-p", archivePath, manifestPath]);
-      if (contentResult.code !== 0 || contentResult.stdout.trim().length === 0) {
-        continue;
-      }
+          const parsed = JSON.parse(content) as Record<string, unknown>;
+          const name = this.normalizeStringOrNull(parsed.Name) ?? this.normalizeStringOrNull(parsed.name);
+          if (!name) {
+            continue;
+          }
 
-      try {
-        const parsed = JSON.parse(contentResult.stdout) as Record<string, unknown>;
-        const name = this.normalizeStringOrNull(parsed.Name) ?? this.normalizeStringOrNull(parsed.name);
-        if (!name) {
+          const version = this.normalizeStringOrNull(parsed.Version) ?? this.normalizeStringOrNull(parsed.version);
+          return {
+            name,
+            version,
+          };
+        } catch {
           continue;
         }
-
-        const version = this.normalizeStringOrNull(parsed.Version) ?? this.normalizeStringOrNull(parsed.version);
-        return {
-          name,
-          version,
-        };
-      } catch {
-        continue;
       }
-    }
 
-    return null;
+      return null;
+    } finally {
+      await archive.close();
+    }
   }
 
   private async runCommandCapture(command: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
@@ -3025,1752 +5619,5131 @@ export class HytaleManager {
   }
 
   async createBackup(note = ""): Promise<BackupEntry> {
-    const backupId = timestampId();
+    let consistency: BackupConsistency = "offline";
+    let sourceRoot = config.hytale.serverDir;
+    let snapshotDir: string | null = null;
+
+    if (this.process && this.status !== "stopped") {
+      const settings = await this.getServerRuntimeSettings();
+      if (settings.consistentBackupEnabled && this.status === "running") {
+        snapshotDir = await this.takeConsistentSnapshot(settings);
+        sourceRoot = snapshotDir;
+        consistency = "flushed";
+      } else {
+        consistency = "live";
+        this.pushTerminal(
+          "Backing up while the server is running without a save flush; chunks being written may be torn.",
+          "system",
+        );
+      }
+    }
+
+    try {
+      return await this.writeManualBackup(note, sourceRoot, consistency);
+    } finally {
+      if (snapshotDir) {
+        await rm(snapshotDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async writeManualBackup(note: string, sourceRoot: string, consistency: BackupConsistency): Promise<BackupEntry> {
+    // Two backups in the same second (e.g. an import right after a scheduled backup) must not share a directory.
+    const baseId = timestampId();
+    let backupId = baseId;
+    for (let attempt = 2; await pathExists(path.join(config.app.backupsDir, backupId)); attempt += 1) {
+      backupId = `${baseId}-${attempt}`;
+    }
     const destination = path.join(config.app.backupsDir, backupId);
     await mkdir(destination, { recursive: true });
 
+    const archivePath = path.join(destination, MANUAL_BACKUP_ARCHIVE_NAME);
+    const createdAt = new Date().toISOString();
     const copiedItems: string[] = [];
-    for (const item of [
-      "universe",
-      "mods",
-      "config.json",
-      "permissions.json",
-      "whitelist.json",
-      "bans.json",
-      "ops.json",
-      "server.properties",
-    ]) {
-      const source = path.join(config.hytale.serverDir, item);
-      if (!(await pathExists(source))) {
-        continue;
-      }
+    const written: ZipWrittenEntry[] = [];
+    const writer = await ZipWriter.create(archivePath);
 
-      const destinationPath = path.join(destination, item);
-      const sourceStats = await stat(source);
-      if (sourceStats.isDirectory()) {
-        await cp(source, destinationPath, { recursive: true, force: true });
-      } else {
-        await copyFile(source, destinationPath);
+    try {
+      for (const item of MANUAL_BACKUP_ITEMS) {
+        const source = path.join(sourceRoot, item);
+        if (!(await pathExists(source))) {
+          continue;
+        }
+
+        const sourceStats = await stat(source);
+        if (sourceStats.isDirectory()) {
+          written.push(...(await writer.addTree(item, source)));
+        } else {
+          written.push(await writer.addFile(item, source));
+        }
+
+        copiedItems.push(item);
       }
 
-      copiedItems.push(item);
+      // A copy of the manifest travels inside the archive so it stays self-describing when moved elsewhere.
+      const innerMetadata: BackupMetadata = {
+        id: backupId,
+        createdAt,
+        note,
+        items: copiedItems,
+        format: "zip",
+        files: written.map((entry) => ({ path: entry.name, size: entry.size, sha256: entry.sha256 })),
+        consistency,
+      };
+      await writer.addBuffer("metadata.json", Buffer.from(JSON.stringify(innerMetadata, null, 2), "utf8"));
+      await writer.close();
+    } catch (error) {
+      await writer.abort();
+      await rm(destination, { recursive: true, force: true });
+      throw error;
     }
 
+    const archiveStats = await stat(archivePath);
     const metadata: BackupMetadata = {
       id: backupId,
-      createdAt: new Date().toISOString(),
+      createdAt,
       note,
       items: copiedItems,
+      format: "zip",
+      archive: {
+        file: MANUAL_BACKUP_ARCHIVE_NAME,
+        size: archiveStats.size,
+        sha256: await this.computeFileSha256(archivePath),
+        uncompressedSize: written.reduce((total, entry) => total + entry.size, 0),
+      },
+      files: written.map((entry) => ({ path: entry.name, size: entry.size, sha256: entry.sha256 })),
+      consistency,
     };
 
     await writeFile(path.join(destination, "metadata.json"), JSON.stringify(metadata, null, 2), "utf8");
+    this.pushTerminal(
+      `Manual backup ${backupId} written (${copiedItems.length} items, ${written.length} files, ${archiveStats.size} bytes, ${consistency}).`,
+      "system",
+    );
 
-    return {
-      id: this.encodeManualBackupId(backupId),
-      name: backupId,
-      createdAt: metadata.createdAt,
-      note,
-      size: 0,
-      archived: false,
-      source: "manual",
-      format: "directory",
-      itemCount: copiedItems.length,
-    };
+    await this.applyBackupRetentionSafely("after backup");
+    void this.syncBackupTargets("after backup");
+    return this.toManualBackupEntry(metadata, archiveStats.size);
   }
 
-  async listBackups(): Promise<BackupEntry[]> {
-    await mkdir(config.app.backupsDir, { recursive: true });
-    await mkdir(config.hytale.backupsDir, { recursive: true });
+  /**
+   * Pauses saving (when save-off/save-on commands are configured), flushes the world and waits for
+   * the confirmation line, then copies the backup items to a snapshot directory. Saving is
+   * re-enabled as soon as the copy is done, or straight away if confirmation never arrives.
+   */
+  private async takeConsistentSnapshot(settings: ServerRuntimeSettings): Promise<string> {
+    if (this.consistentSnapshotRunning) {
+      throw new AppError(409, "Another consistent backup is already in progress.");
+    }
 
-    const entries = await readdir(config.app.backupsDir, { withFileTypes: true });
-    const backups: BackupEntry[] = [];
+    const pattern = new RegExp(settings.backupFlushConfirmPattern, "i");
+    const snapshotDir = path.join(config.app.backupsDir, `.snapshot-${randomUUID()}`);
+    let savingPaused = false;
+    this.consistentSnapshotRunning = true;
 
-    for (const entry of entries) {
-      if (!entry.isDirectory()) {
-        continue;
+    try {
+      if (settings.backupSaveOffCommand) {
+        this.sendCommand(settings.backupSaveOffCommand);
+        savingPaused = true;
       }
 
-      const metadataPath = path.join(config.app.backupsDir, entry.name, "metadata.json");
-      if (await pathExists(metadataPath)) {
-        const metadataRaw = await readFile(metadataPath, "utf8");
-        const metadata = JSON.parse(metadataRaw) as BackupMetadata;
-        const backupPath = path.join(config.app.backupsDir, entry.name);
-        const directoryStats = await stat(backupPath);
-        backups.push({
-          id: this.encodeManualBackupId(metadata.id),
-          name: metadata.id,
-          createdAt: metadata.createdAt,
-          note: metadata.note || "Manual dashboard backup",
-          size: directoryStats.size,
-          archived: false,
-          source: "manual",
-          format: "directory",
-          itemCount: metadata.items.length,
-        });
-      } else {
-        const dirStats = await stat(path.join(config.app.backupsDir, entry.name));
-        backups.push({
-          id: this.encodeManualBackupId(entry.name),
-          name: entry.name,
-          createdAt: dirStats.mtime.toISOString(),
-          note: "Manual dashboard backup",
-          size: dirStats.size,
-          archived: false,
-          source: "manual",
-          format: "directory",
-          itemCount: 0,
-        });
+      const confirmation = this.waitForOutputLine(pattern, settings.backupFlushTimeoutSeconds * 1000);
+      this.sendCommand(settings.backupFlushCommand);
+      const line = await confirmation;
+      if (line === null) {
+        throw new AppError(
+          504,
+          `No save confirmation matching /${pattern.source}/ within ${settings.backupFlushTimeoutSeconds}s; backup aborted.`,
+        );
       }
-    }
 
-    const nativeRootEntries = await readdir(config.hytale.backupsDir, { withFileTypes: true });
-    for (const entry of nativeRootEntries) {
-      if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".zip")) {
-        continue;
+      this.pushTerminal("Save flush confirmed; copying a consistent snapshot.", "system");
+      await mkdir(snapshotDir, { recursive: true });
+      for (const item of MANUAL_BACKUP_ITEMS) {
+        const source = path.join(config.hytale.serverDir, item);
+        if (await pathExists(source)) {
+          await cp(source, path.join(snapshotDir, item), { recursive: true, force: true });
+        }
       }
-
-      const fullPath = path.join(config.hytale.backupsDir, entry.name);
-      const fileStats = await stat(fullPath);
-      backups.push({
-        id: this.encodeNativeBackupId(entry.name),
-        name: entry.name,
-        createdAt: fileStats.mtime.toISOString(),
-        note: "Native Hytale backup",
-        size: fileStats.size,
-        archived: false,
-        source: "native",
-        format: "zip",
-        itemCount: 1,
-      });
-    }
-
-    const archiveDir = path.join(config.hytale.backupsDir, "archive");
-    if (await pathExists(archiveDir)) {
-      const archiveEntries = await readdir(archiveDir, { withFileTypes: true });
-      for (const entry of archiveEntries) {
-        if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".zip")) {
-          continue;
+      return snapshotDir;
+    } catch (error) {
+      await rm(snapshotDir, { recursive: true, force: true });
+      this.pushTerminal(`Consistent backup aborted: ${(error as Error).message}`, "system");
+      throw error;
+    } finally {
+      this.consistentSnapshotRunning = false;
+      if (savingPaused) {
+        try {
+          this.sendCommand(settings.backupSaveOnCommand);
+        } catch (error) {
+          this.pushTerminal(`Could not re-enable saving: ${(error as Error).message}`, "system");
         }
-
-        const fullPath = path.join(archiveDir, entry.name);
-        const fileStats = await stat(fullPath);
-        backups.push({
-          id: this.encodeNativeBackupId(`archive/${entry.name}`),
-          name: entry.name,
-          createdAt: fileStats.mtime.toISOString(),
-          note: "Archived native Hytale backup",
-          size: fileStats.size,
-          archived: true,
-          source: "native",
-          format: "zip",
-          itemCount: 1,
-        });
       }
     }
+  }
 
-    backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
-    return backups;
+  private waitForOutputLine(pattern: RegExp, timeoutMs: number): Promise<string | null> {
+    return new Promise((resolve) => {
+      const finish = (line: string | null) => {
+        clearTimeout(timer);
+        this.outputWaiters.delete(waiter);
+        resolve(line);
+      };
+      const waiter = (line: string) => {
+        if (pattern.test(line)) {
+          finish(line);
+        }
+      };
+      const timer = setTimeout(() => finish(null), timeoutMs);
+      this.outputWaiters.add(waiter);
+    });
   }
 
-  async deleteBackup(id: string): Promise<void> {
+  async setBackupPinned(id: string, pinned: boolean): Promise<BackupEntry[]> {
     const reference = await this.resolveBackupReference(id);
-    if (reference.kind === "manual") {
-      await rm(reference.path, { recursive: true, force: true });
-      return;
+    if (reference.kind !== "manual") {
+      throw new AppError(400, "Only manual backups can be pinned; native backups follow --backup-max-count.");
     }
 
-    await rm(reference.path, { force: true });
+    const existing = await this.readManualBackupMetadata(reference.path);
+    const metadata: BackupMetadata = existing ?? {
+      id: reference.name,
+      createdAt: (await stat(reference.path)).mtime.toISOString(),
+      note: "",
+      items: (await readdir(reference.path)).filter((name) => name !== "metadata.json"),
+      format: "directory",
+    };
+    metadata.pinned = pinned;
+
+    await writeFile(path.join(reference.path, "metadata.json"), JSON.stringify(metadata, null, 2), "utf8");
+    this.pushTerminal(`Backup ${reference.name} ${pinned ? "pinned; retention will keep it" : "unpinned"}.`, "system");
+    return await this.listBackups();
   }
 
-  async restoreBackup(id: string): Promise<void> {
-    if (this.status !== "stopped") {
-      throw new AppError(409, "Server must be stopped before restoring backup.");
+  /**
+   * Deletes manual backups that fall outside the configured retention policy. Runs after each
+   * manual backup and on demand; every deletion is written to the terminal with its reason.
+   */
+  async applyBackupRetention(trigger: string): Promise<BackupRetentionRun | null> {
+    const settings = await this.getServerRuntimeSettings();
+    if (!settings.backupRetentionEnabled) {
+      throw new AppError(409, "Backup retention is disabled.");
+    }
+    if (this.backupRetentionRunning) {
+      return null;
     }
 
-    const reference = await this.resolveBackupReference(id);
+    this.backupRetentionRunning = true;
+    try {
+      const manualBackups = (await this.listBackups()).filter((backup) => backup.source === "manual");
+      const decision = selectBackupsToPrune(
+        manualBackups.map((backup) => ({
+          id: backup.id,
+          createdAt: new Date(backup.createdAt),
+          size: backup.size,
+          pinned: backup.pinned,
+        })),
+        this.toBackupRetentionPolicy(settings),
+      );
 
-    if (reference.kind === "manual") {
-      const entries = await readdir(reference.path, { withFileTypes: true });
-      for (const entry of entries) {
-        if (entry.name === "metadata.json") {
+      const byId = new Map(manualBackups.map((backup) => [backup.id, backup]));
+      const deleted: BackupRetentionRun["deleted"] = [];
+      for (const entry of decision.prune) {
+        const backup = byId.get(entry.id);
+        if (!backup) {
           continue;
         }
 
-        const sourcePath = path.join(reference.path, entry.name);
-        const destinationPath = path.join(config.hytale.serverDir, entry.name);
-        await rm(destinationPath, { recursive: true, force: true });
-
-        if (entry.isDirectory()) {
-          await cp(sourcePath, destinationPath, { recursive: true, force: true });
-        } else {
-          await copyFile(sourcePath, destinationPath);
-        }
-      }
+        const reference = await this.resolveBackupReference(backup.id);
+        await rm(reference.path, { recursive: true, force: true });
+        deleted.push({ name: backup.name, reason: entry.reason });
+        this.pushTerminal(`Backup retention deleted ${backup.name}: ${entry.reason}.`, "system");
+      }
+
+      const keptIds = new Set(decision.keep.map((entry) => entry.id));
+      const run: BackupRetentionRun = {
+        ranAt: new Date().toISOString(),
+        trigger,
+        deleted,
+        kept: decision.keep.length,
+        totalBytes: manualBackups
+          .filter((backup) => keptIds.has(backup.id))
+          .reduce((total, backup) => total + backup.size, 0),
+      };
+      this.lastBackupRetentionRun = run;
+      this.pushTerminal(
+        `Backup retention (${trigger}): deleted ${deleted.length}, kept ${run.kept} manual backups.`,
+        "system",
+      );
+      return run;
+    } finally {
+      this.backupRetentionRunning = false;
+    }
+  }
 
-      this.pushTerminal(`Manual backup restored: ${reference.name}`, "system");
+  private async applyBackupRetentionSafely(trigger: string): Promise<void> {
+    const settings = await this.getServerRuntimeSettings();
+    if (!settings.backupRetentionEnabled) {
       return;
     }
 
-    const restoreWorkspace = path.join(config.app.dataDir, `restore-${timestampId()}-${randomUUID()}`);
-    await mkdir(restoreWorkspace, { recursive: true });
-
     try {
-      this.pushTerminal(`Restoring native backup: ${reference.name}`, "system");
-      await this.extractZipFile(reference.path, restoreWorkspace);
-
-      const universeSource = await this.resolveUniverseDirectoryFromBackupExtract(restoreWorkspace);
-      if (!universeSource) {
-        throw new AppError(
-          500,
-          "Unable to locate a universe directory in the backup archive. Restore expects a backup ZIP with universe data.",
-        );
-      }
-
-      const universeDestination = path.join(config.hytale.serverDir, "universe");
-      await rm(universeDestination, { recursive: true, force: true });
-      await cp(universeSource, universeDestination, { recursive: true, force: true });
-      this.pushTerminal(`Native backup restored into ${universeDestination}`, "system");
-    } finally {
-      await rm(restoreWorkspace, { recursive: true, force: true });
+      await this.applyBackupRetention(trigger);
+    } catch (error) {
+      this.pushTerminal(`Backup retention failed: ${(error as Error).message}`, "system");
     }
   }
 
-  private encodeManualBackupId(name: string): string {
-    return `manual:${name}`;
+  private toBackupRetentionPolicy(settings: ServerRuntimeSettings): BackupRetentionPolicy {
+    return {
+      keepLast: settings.backupRetentionKeepLast,
+      keepHourly: settings.backupRetentionKeepHourly,
+      keepDaily: settings.backupRetentionKeepDaily,
+      keepWeekly: settings.backupRetentionKeepWeekly,
+      keepMonthly: settings.backupRetentionKeepMonthly,
+      maxTotalBytes: settings.backupRetentionMaxTotalMb * 1024 * 1024,
+    };
   }
 
-  private encodeNativeBackupId(relativePath: string): string {
-    return `native:${relativePath.replace(/\\/g, "/")}`;
+  listBackupTargets(): BackupTargetEntry[] {
+    return listBackupTargets().map((target) => this.toBackupTargetEntry(target));
   }
 
-  private async resolveBackupReference(id: string): Promise<
-    | { kind: "manual"; name: string; path: string }
-    | { kind: "native"; name: string; path: string; archived: boolean }
-  > {
-    const value = id.trim();
-    if (!value) {
-      throw new AppError(400, "Backup id is required.");
+  async saveBackupTarget(id: number | null, input: Record<string, unknown>): Promise<BackupTargetEntry[]> {
+    const existing = id === null ? null : getBackupTarget(id);
+    if (id !== null && !existing) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    if (value.startsWith("manual:")) {
-      const name = sanitizeFilename(value.slice("manual:".length));
-      const backupPath = path.join(config.app.backupsDir, name);
-      if (!(await pathExists(backupPath))) {
-        throw new AppError(404, "Backup not found.");
-      }
-      return { kind: "manual", name, path: backupPath };
+    const name = String(input.name ?? "").trim();
+    if (!/^[A-Za-z0-9 _-]{2,40}$/.test(name)) {
+      throw new AppError(400, "Target name must be 2-40 letters, numbers, spaces, '_' or '-'.");
     }
 
-    if (value.startsWith("native:")) {
-      const relativePath = value.slice("native:".length).trim();
-      const parsed = this.resolveNativeBackupPath(relativePath);
-      if (!(await pathExists(parsed.path))) {
-        throw new AppError(404, "Backup not found.");
-      }
-      return parsed;
+    const clash = getBackupTargetByName(name);
+    if (clash && clash.id !== id) {
+      throw new AppError(409, `A backup target named "${name}" already exists.`);
     }
 
-    const legacyManualName = sanitizeFilename(value);
-    const legacyManualPath = path.join(config.app.backupsDir, legacyManualName);
-    if (await pathExists(legacyManualPath)) {
-      return { kind: "manual", name: legacyManualName, path: legacyManualPath };
+    const kind = existing?.kind ?? input.kind;
+    if (!isBackupTargetKind(kind)) {
+      throw new AppError(400, 'kind must be "s3" or "directory".');
     }
 
-    try {
-      const legacyNative = this.resolveNativeBackupPath(legacyManualName);
-      if (await pathExists(legacyNative.path)) {
-        return legacyNative;
-      }
-    } catch {
-      // Ignore and continue to other legacy id patterns.
+    const keepLast = Number(input.keepLast ?? 0);
+    if (!Number.isInteger(keepLast) || keepLast < 0 || keepLast > MAX_BACKUP_TARGET_KEEP_LAST) {
+      throw new AppError(400, `keepLast must be an integer between 0 and ${MAX_BACKUP_TARGET_KEEP_LAST} (0 = keep all).`);
     }
 
-    try {
-      const legacyArchived = this.resolveNativeBackupPath(`archive/${legacyManualName}`);
-      if (await pathExists(legacyArchived.path)) {
-        return legacyArchived;
+    const enabled = input.enabled !== false;
+    let settings: S3TargetSettings | DirectoryTargetSettings;
+    let credentials: string | null = null;
+    if (kind === "s3") {
+      settings = normalizeS3Settings(input);
+      const provided = normalizeS3Credentials(input);
+      if (provided) {
+        credentials = await encryptSecret(JSON.stringify(provided));
+      } else if (existing?.credentials) {
+        credentials = existing.credentials;
+      } else {
+        throw new AppError(400, "An access key id and secret access key are required for S3 targets.");
+      }
+    } else {
+      settings = normalizeDirectorySettings(input);
+      if (!(await this.isDirectory(settings.path))) {
+        throw new AppError(400, `Mirror directory ${settings.path} does not exist; create or mount it first.`);
       }
-    } catch {
-      // Ignore and finish with a not found error below.
     }
 
-    throw new AppError(404, "Backup not found.");
-  }
-
-  private resolveNativeBackupPath(relativePath: string): { kind: "native"; name: string; path: string; archived: boolean } {
-    const normalized = relativePath.replace(/\\/g, "/").replace(/^\/+/, "");
-    if (!normalized || normalized.includes("..")) {
-      throw new AppError(400, "Invalid backup id.");
+    const record = {
+      name,
+      enabled,
+      settings: JSON.stringify(settings),
+      credentials,
+      keepLast,
+    };
+    const saved = existing ? updateBackupTarget(existing.id, record) : createBackupTarget({ ...record, kind });
+    if (!saved) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    const segments = normalized
-      .split("/")
-      .map((segment) => segment.trim())
-      .filter(Boolean);
-
-    if (segments.length === 0 || segments.length > 2) {
-      throw new AppError(400, "Invalid backup id.");
+    this.pushTerminal(`Backup target "${saved.name}" ${existing ? "updated" : "added"} (${kind}).`, "system");
+    await this.emitBackupState();
+    if (saved.enabled) {
+      void this.syncBackupTargets("target saved");
     }
+    return this.listBackupTargets();
+  }
 
-    const isArchived = segments[0] === "archive";
-    if (segments.length === 2 && !isArchived) {
-      throw new AppError(400, "Invalid backup id.");
+  async deleteBackupTarget(id: number): Promise<BackupTargetEntry[]> {
+    const target = getBackupTarget(id);
+    if (!target) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    if (segments.some((segment) => !/^[a-zA-Z0-9._-]+$/.test(segment))) {
-      throw new AppError(400, "Invalid backup id.");
-    }
+    deleteBackupTargetRecord(id);
+    this.pushTerminal(`Backup target "${target.name}" removed. Copies already uploaded were left in place.`, "system");
+    await this.emitBackupState();
+    return this.listBackupTargets();
+  }
 
-    const name = segments[segments.length - 1];
-    if (!name.toLowerCase().endsWith(".zip")) {
-      throw new AppError(400, "Only ZIP backups are supported for native backups.");
+  async testBackupTarget(id: number): Promise<void> {
+    const target = getBackupTarget(id);
+    if (!target) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    const targetPath = path.resolve(config.hytale.backupsDir, ...segments);
-    const relative = path.relative(config.hytale.backupsDir, targetPath);
-    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
-      throw new AppError(400, "Invalid backup id.");
+    const storage = await this.openBackupStorage(target);
+    const probeName = `probe-${randomUUID()}.txt`;
+    const probePath = path.join(config.app.dataDir, probeName);
+    await writeFile(probePath, `hytale-manager connectivity check ${new Date().toISOString()}\n`, "utf8");
+
+    try {
+      await storage.put(probePath, probeName);
+      await storage.remove(probeName);
+    } catch (error) {
+      throw new AppError(502, `Backup target "${target.name}" is not writable: ${(error as Error).message}`);
+    } finally {
+      await rm(probePath, { force: true });
     }
 
-    return {
-      kind: "native",
-      name,
-      path: targetPath,
-      archived: isArchived,
-    };
+    this.pushTerminal(`Backup target "${target.name}" is reachable and writable (${storage.description}).`, "system");
   }
 
-  private async resolveUniverseDirectoryFromBackupExtract(restoreWorkspace: string): Promise<string | null> {
-    const directUniverse = path.join(restoreWorkspace, "universe");
-    if (await this.isDirectory(directUniverse)) {
-      return directUniverse;
+  /**
+   * Uploads local manual (ZIP) and native backups that are missing from each enabled target, then
+   * applies the target's keep-last rule. Runs after every manual backup, on the scheduler tick for
+   * native backups, and on demand; overlapping calls are folded into one follow-up run.
+   */
+  async syncBackupTargets(trigger: string, options: { force?: boolean } = {}): Promise<void> {
+    this.lastBackupSyncAt = Date.now();
+    if (this.backupSyncRunning) {
+      this.backupSyncQueued = true;
+      return;
     }
 
-    if (await this.looksLikeUniverseDirectory(restoreWorkspace)) {
-      return restoreWorkspace;
+    this.backupSyncRunning = true;
+    try {
+      do {
+        this.backupSyncQueued = false;
+        await this.runBackupSync(trigger, options.force === true);
+      } while (this.backupSyncQueued);
+    } catch (error) {
+      this.pushTerminal(`Offsite backup sync failed: ${(error as Error).message}`, "system");
+    } finally {
+      this.backupSyncRunning = false;
     }
+  }
 
-    const entries = await readdir(restoreWorkspace, { withFileTypes: true });
-    for (const entry of entries) {
-      if (!entry.isDirectory()) {
-        continue;
-      }
-
-      const childPath = path.join(restoreWorkspace, entry.name);
-      const childUniverse = path.join(childPath, "universe");
-      if (await this.isDirectory(childUniverse)) {
-        return childUniverse;
-      }
-
-      if (await this.looksLikeUniverseDirectory(childPath)) {
-        return childPath;
-      }
+  async listRemoteBackups(targetId: number): Promise<RemoteBackupEntry[]> {
+    const target = getBackupTarget(targetId);
+    if (!target) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    return null;
+    const storage = await this.openBackupStorage(target);
+    return this.groupRemoteBackups(await storage.list(""), await this.readLocalBackupTimes());
   }
 
-  private async looksLikeUniverseDirectory(directoryPath: string): Promise<boolean> {
-    if (!(await this.isDirectory(directoryPath))) {
-      return false;
+  async restoreRemoteBackup(targetId: number, remoteId: string, actor: string | null = null): Promise<void> {
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before restoring backup.");
     }
 
-    const entries = await readdir(directoryPath, { withFileTypes: true });
-    if (entries.some((entry) => entry.isDirectory() && entry.name === "worlds")) {
-      return true;
+    const target = getBackupTarget(targetId);
+    if (!target) {
+      throw new AppError(404, "Backup target not found.");
     }
 
-    return entries.some((entry) => entry.isFile() && entry.name === "memories.json");
-  }
+    const storage = await this.openBackupStorage(target);
+    const entry = this.groupRemoteBackups(await storage.list(""), new Map()).find(
+      (candidate) => candidate.id === remoteId,
+    );
+    if (!entry) {
+      throw new AppError(404, `Backup ${remoteId} was not found on "${target.name}".`);
+    }
 
-  private async isDirectory(directoryPath: string): Promise<boolean> {
-    if (!(await pathExists(directoryPath))) {
-      return false;
+    const name = sanitizeFilename(entry.name);
+    this.pushTerminal(`Downloading backup ${name} from "${target.name}"...`, "system");
+
+    if (entry.source === "manual") {
+      const destination = path.join(config.app.backupsDir, name);
+      if (await pathExists(destination)) {
+        throw new AppError(409, `A local copy of ${name} already exists; restore it from the backup list or delete it first.`);
+      }
+
+      const staging = path.join(config.app.backupsDir, `.download-${randomUUID()}`);
+      await mkdir(staging, { recursive: true });
+      try {
+        await storage.get(`manual/${entry.name}/${MANUAL_BACKUP_ARCHIVE_NAME}`, path.join(staging, MANUAL_BACKUP_ARCHIVE_NAME));
+        await storage.get(`manual/${entry.name}/metadata.json`, path.join(staging, "metadata.json"));
+        await rename(staging, destination);
+      } catch (error) {
+        await rm(staging, { recursive: true, force: true });
+        throw new AppError(502, `Download from "${target.name}" failed: ${(error as Error).message}`);
+      }
+
+      await this.restoreBackup(this.encodeManualBackupId(name), actor);
+      return;
+    }
+
+    const destination = this.resolveNativeBackupPath(name).path;
+    if (await pathExists(destination)) {
+      throw new AppError(409, `A local copy of ${name} already exists; restore it from the backup list or delete it first.`);
     }
 
+    const partial = `${destination}.partial`;
     try {
-      const details = await stat(directoryPath);
-      return details.isDirectory();
-    } catch {
-      return false;
+      await storage.get(`native/${entry.name}`, partial);
+      await rename(partial, destination);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw new AppError(502, `Download from "${target.name}" failed: ${(error as Error).message}`);
     }
+
+    await this.restoreBackup(this.encodeNativeBackupId(name), actor);
   }
 
-  private async installFromDownloader(patchline: string, manifest: VersionManifest): Promise<void> {
-    const installWorkspace = path.join(config.app.dataDir, `install-${timestampId()}`);
-    await mkdir(installWorkspace, { recursive: true });
+  private async runBackupSync(trigger: string, force: boolean): Promise<void> {
+    const targets = listBackupTargets().filter((target) => target.enabled);
+    if (targets.length === 0) {
+      return;
+    }
 
-    const patchlineValue = patchline.trim();
-    this.pushTerminal(
-      `Native downloader mode enabled (patchline: ${patchlineValue}, version: ${manifest.version})`,
-      "system",
+    const now = Date.now();
+    const allLocal = await this.listBackups();
+    const localTimes = new Map(allLocal.map((backup) => [this.toReplicaKey(backup), backup.createdAt]));
+    const local = allLocal.filter((backup) =>
+      backup.source === "manual"
+        ? backup.format === "zip"
+        : now - Date.parse(backup.createdAt) >= NATIVE_BACKUP_SETTLE_MS,
     );
+    const uploads = listBackupUploads();
+    let changed = false;
 
-    const archiveSignedUrl = await this.withDownloaderToken((accessToken) =>
-      this.getSignedAssetUrl(accessToken, manifest.download_url),
-    );
+    for (const target of targets) {
+      const known = new Map(
+        uploads.filter((upload) => upload.targetId === target.id).map((upload) => [upload.backupId, upload]),
+      );
 
-    const archiveName = sanitizeFilename(`${patchlineValue}-${manifest.version}.zip`);
-    const archivePath = path.join(installWorkspace, archiveName);
-    await this.downloadFileWithProgress(archiveSignedUrl, archivePath, config.hytale.downloaderDownloadTimeoutMs, {
-      cacheKey: `hytale-${patchlineValue}-${manifest.version}`,
-      expectedSha256: manifest.sha256,
-    });
+      // Backups outside the target's keep-last window would be pruned right after uploading.
+      const pending = (["manual", "native"] as const).flatMap((source) => {
+        const ofSource = local.filter((backup) => backup.source === source);
+        const window = target.keepLast > 0 ? ofSource.slice(0, target.keepLast) : ofSource;
+        return window.filter((backup) => {
+          const upload = known.get(this.toReplicaKey(backup));
+          if (!upload) {
+            return true;
+          }
+          if (upload.status === "failed") {
+            return force || now - Date.parse(upload.updatedAt) >= BACKUP_UPLOAD_RETRY_MS;
+          }
+          return upload.status !== "uploaded";
+        });
+      });
 
-    this.pushTerminal("Validating checksum...", "system");
-    await this.validateSha256(archivePath, manifest.sha256);
-    this.pushTerminal("Checksum valid.", "system");
+      if (pending.length === 0 && !force) {
+        continue;
+      }
 
-    await this.extractZipFile(archivePath, installWorkspace);
-    await rm(archivePath, { force: true });
+      const errors: string[] = [];
+      let storage: BackupStorage;
+      try {
+        storage = await this.openBackupStorage(target);
+      } catch (error) {
+        setBackupTargetSyncResult(target.id, (error as Error).message);
+        this.pushTerminal(`Offsite sync to "${target.name}" skipped: ${(error as Error).message}`, "system");
+        changed = true;
+        continue;
+      }
 
-    const layout = await this.locateDownloadedLayout(installWorkspace);
-    if (!layout) {
-      throw new AppError(500, "Downloaded archive extracted, but server layout was not found.");
-    }
+      for (const backup of pending) {
+        const replicaKey = this.toReplicaKey(backup);
+        const objects = await this.collectBackupUploadObjects(backup);
+        const remoteKey = backup.source === "manual" ? `manual/${backup.name}/` : `native/${backup.name}`;
+        recordBackupUpload({
+          targetId: target.id,
+          backupId: replicaKey,
+          status: "uploading",
+          remoteKey,
+          size: backup.size,
+          error: null,
+        });
+        await this.emitBackupState();
 
-    await cp(layout.serverDir, config.hytale.serverDir, { recursive: true, force: true });
-    await copyFile(layout.assetsPath, path.join(config.hytale.serverDir, "Assets.zip"));
-    await mkdir(path.join(config.hytale.serverDir, "mods"), { recursive: true });
-    await mkdir(path.join(config.hytale.serverDir, "logs"), { recursive: true });
-  }
+        try {
+          // The archive goes first; a remote manual backup only counts once its metadata.json exists.
+          for (const [localPath, key] of objects) {
+            await storage.put(localPath, key);
+          }
+          recordBackupUpload({
+            targetId: target.id,
+            backupId: replicaKey,
+            status: "uploaded",
+            remoteKey,
+            size: backup.size,
+            error: null,
+          });
+          this.pushTerminal(`Uploaded backup ${backup.name} to "${target.name}" (${trigger}).`, "system");
+        } catch (error) {
+          const message = (error as Error).message;
+          recordBackupUpload({
+            targetId: target.id,
+            backupId: replicaKey,
+            status: "failed",
+            remoteKey,
+            size: backup.size,
+            error: message,
+          });
+          errors.push(`${backup.name}: ${message}`);
+          this.pushTerminal(`Upload of backup ${backup.name} to "${target.name}" failed: ${message}`, "system");
+        }
+      }
 
-  private async getInstallAvailability(): Promise<InstallAvailability> {
-    const patchline = config.hytale.defaultPatchline.trim() || "release";
-    const installed = await this.isInstalled();
-    const metadata = installed ? await this.readInstalledServerMetadata() : null;
-    const installedVersion = metadata?.version ?? null;
+      try {
+        await this.pruneRemoteBackups(target, storage, localTimes);
+      } catch (error) {
+        errors.push(`retention: ${(error as Error).message}`);
+        this.pushTerminal(`Offsite retention on "${target.name}" failed: ${(error as Error).message}`, "system");
+      }
 
-    const latest = await this.tryResolveLatestReleaseManifestNonInteractive();
-    const latestVersion = latest?.manifest.version ?? null;
+      setBackupTargetSyncResult(target.id, errors.length > 0 ? errors.join("; ").slice(0, 1000) : null);
+      changed = true;
+    }
 
-    return {
-      patchline,
-      installedVersion,
-      latestVersion,
-      updateAvailable: !installed || (latestVersion !== null && installedVersion !== latestVersion),
-    };
+    if (changed) {
+      await this.emitBackupState();
+    }
   }
 
-  private async resolveLatestReleaseManifest(
-    forceRefresh: boolean,
-  ): Promise<{ patchline: string; manifest: VersionManifest }> {
-    const patchline = config.hytale.defaultPatchline.trim() || "release";
-    const now = Date.now();
-
-    if (
-      !forceRefresh &&
-      this.latestVersionCache &&
-      this.latestVersionCache.patchline === patchline &&
-      now - this.latestVersionCache.fetchedAt < 60_000
-    ) {
-      return {
-        patchline,
-        manifest: this.latestVersionCache.manifest,
-      };
+  private async pruneRemoteBackups(
+    target: BackupTarget,
+    storage: BackupStorage,
+    localTimes: Map<string, string>,
+  ): Promise<void> {
+    if (target.keepLast <= 0) {
+      return;
     }
 
-    const manifest = await this.withDownloaderToken((accessToken) =>
-      this.fetchManifestWithAccessToken(accessToken, patchline, true),
-    );
-    this.latestVersionCache = {
-      patchline,
-      manifest,
-      fetchedAt: now,
-    };
+    const remote = this.groupRemoteBackups(await storage.list(""), localTimes);
+    for (const source of ["manual", "native"] as const) {
+      const expired = remote.filter((entry) => entry.source === source).slice(target.keepLast);
+      for (const entry of expired) {
+        if (source === "manual") {
+          await storage.remove(`manual/${entry.name}/metadata.json`);
+          await storage.remove(`manual/${entry.name}/${MANUAL_BACKUP_ARCHIVE_NAME}`);
+        } else {
+          await storage.remove(`native/${entry.name}`);
+        }
 
-    return { patchline, manifest };
+        deleteBackupUpload(target.id, entry.id);
+        this.pushTerminal(
+          `Removed ${entry.name} from "${target.name}": the target keeps the newest ${target.keepLast} ${source} backups.`,
+          "system",
+        );
+      }
+    }
   }
 
-  private async tryResolveLatestReleaseManifestNonInteractive(): Promise<{ patchline: string; manifest: VersionManifest } | null> {
-    const patchline = config.hytale.defaultPatchline.trim() || "release";
-    const now = Date.now();
+  private async readLocalBackupTimes(): Promise<Map<string, string>> {
+    return new Map((await this.listBackups()).map((backup) => [this.toReplicaKey(backup), backup.createdAt]));
+  }
 
-    if (
-      this.latestVersionCache &&
-      this.latestVersionCache.patchline === patchline &&
-      now - this.latestVersionCache.fetchedAt < 60_000
-    ) {
-      return {
-        patchline,
-        manifest: this.latestVersionCache.manifest,
-      };
+  /**
+   * When a remote backup was taken. Uploads go newest first, so the object time says nothing about
+   * the order of backups: use the local backup's time while it still exists, then a timestamp in
+   * its name, and the upload time only as a last resort.
+   */
+  private resolveRemoteBackupCreatedAt(
+    id: string,
+    name: string,
+    modifiedAt: string,
+    localTimes: Map<string, string>,
+  ): string {
+    const local = localTimes.get(id);
+    if (local) {
+      return local;
     }
 
-    const stored = await this.readDownloaderCredentials();
-    if (!stored || stored.environment !== config.hytale.downloaderEnvironment || !stored.access_token.trim()) {
-      return null;
+    // Manual backups are named by timestampId(), e.g. 20260115T120000Z or 20260115T120000Z-2.
+    const compact = /(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z/.exec(name);
+    if (compact) {
+      const [, year, month, day, hour, minute, second] = compact.map(Number) as number[];
+      return new Date(Date.UTC(year!, month! - 1, day!, hour!, minute!, second!)).toISOString();
     }
 
-    let active = stored;
-    const nowSeconds = Math.floor(Date.now() / 1000);
-    if (active.expires_at <= nowSeconds + 60) {
-      if (!active.refresh_token.trim()) {
-        return null;
+    // Native backups usually carry a local date and time such as 2026-01-15_12-00-00.
+    const dashed = /(\d{4})-(\d{2})-(\d{2})[_T ](\d{2})[-:.](\d{2})[-:.](\d{2})/.exec(name);
+    if (dashed) {
+      const [, year, month, day, hour, minute, second] = dashed.map(Number) as number[];
+      const parsed = new Date(year!, month! - 1, day!, hour!, minute!, second!);
+      if (Number.isFinite(parsed.getTime())) {
+        return parsed.toISOString();
       }
+    }
 
-      const refreshed = await this.refreshDownloaderCredentials(active.refresh_token);
-      if (!refreshed) {
-        return null;
+    const uploaded = new Date(modifiedAt);
+    return Number.isFinite(uploaded.getTime()) ? uploaded.toISOString() : modifiedAt;
+  }
+
+  private groupRemoteBackups(objects: RemoteObject[], localTimes: Map<string, string>): RemoteBackupEntry[] {
+    const manual = new Map<string, { archive?: RemoteObject; metadata?: boolean }>();
+    const entries: RemoteBackupEntry[] = [];
+
+    for (const object of objects) {
+      const manualMatch = /^manual\/([^/]+)\/(backup\.zip|metadata\.json)$/.exec(object.key);
+      if (manualMatch) {
+        const group = manual.get(manualMatch[1]) ?? {};
+        if (manualMatch[2] === MANUAL_BACKUP_ARCHIVE_NAME) {
+          group.archive = object;
+        } else {
+          group.metadata = true;
+        }
+        manual.set(manualMatch[1], group);
+        continue;
       }
 
-      active = refreshed;
+      const nativeMatch = /^native\/([^/]+\.zip)$/i.exec(object.key);
+      if (nativeMatch) {
+        const id = this.encodeNativeBackupId(nativeMatch[1]);
+        entries.push({
+          id,
+          source: "native",
+          name: nativeMatch[1],
+          size: object.size,
+          createdAt: this.resolveRemoteBackupCreatedAt(id, nativeMatch[1], object.modifiedAt, localTimes),
+          modifiedAt: object.modifiedAt,
+        });
+      }
     }
 
-    try {
-      const manifest = await this.fetchManifestWithAccessToken(active.access_token, patchline, false);
-      this.latestVersionCache = {
-        patchline,
-        manifest,
-        fetchedAt: now,
-      };
-      return { patchline, manifest };
-    } catch {
-      return null;
+    for (const [name, group] of manual) {
+      if (!group.archive || !group.metadata) {
+        continue;
+      }
+      const id = this.encodeManualBackupId(name);
+      entries.push({
+        id,
+        source: "manual",
+        name,
+        size: group.archive.size,
+        createdAt: this.resolveRemoteBackupCreatedAt(id, name, group.archive.modifiedAt, localTimes),
+        modifiedAt: group.archive.modifiedAt,
+      });
     }
+
+    entries.sort((left, right) => right.createdAt.localeCompare(left.createdAt) || right.name.localeCompare(left.name));
+    return entries;
   }
 
-  private async fetchManifestWithAccessToken(
-    accessToken: string,
-    patchline: string,
-    logToTerminal: boolean,
-  ): Promise<VersionManifest> {
-    const manifestPath = `version/${patchline}.json`;
-    if (logToTerminal) {
-      this.pushTerminal(`Fetching manifest: ${manifestPath}`, "system");
+  private async collectBackupUploadObjects(backup: BackupEntry): Promise<Array<[string, string]>> {
+    const reference = await this.resolveBackupReference(backup.id);
+    if (reference.kind === "manual") {
+      return [
+        [path.join(reference.path, MANUAL_BACKUP_ARCHIVE_NAME), `manual/${backup.name}/${MANUAL_BACKUP_ARCHIVE_NAME}`],
+        [path.join(reference.path, "metadata.json"), `manual/${backup.name}/metadata.json`],
+      ];
     }
 
-    const manifestSignedUrl = await this.getSignedAssetUrl(accessToken, manifestPath);
-    const manifestResponse = await this.fetchWithTimeout(
-      manifestSignedUrl,
-      { method: "GET", headers: { accept: "application/json" } },
-      config.hytale.downloaderApiTimeoutMs,
-    );
-    if (!manifestResponse.ok) {
-      throw new AppError(
-        manifestResponse.status,
-        `Manifest request failed: ${manifestResponse.status} ${manifestResponse.statusText}`,
-      );
-    }
+    return [[reference.path, `native/${backup.name}`]];
+  }
 
-    const manifest = (await manifestResponse.json()) as VersionManifest;
-    if (!manifest.version || !manifest.download_url || !manifest.sha256) {
-      throw new AppError(500, "Malformed manifest response from account-data endpoint.");
+  private async openBackupStorage(target: BackupTarget): Promise<BackupStorage> {
+    const settings = JSON.parse(target.settings) as Record<string, unknown>;
+    if (target.kind === "directory") {
+      return createDirectoryStorage(normalizeDirectorySettings(settings));
     }
 
-    if (logToTerminal) {
-      this.pushTerminal(`Resolved patchline ${patchline} to version ${manifest.version}`, "system");
+    const decrypted = target.credentials ? await decryptSecret(target.credentials) : null;
+    if (!decrypted) {
+      throw new AppError(500, `Stored credentials for "${target.name}" could not be decrypted; enter them again.`);
     }
 
-    return manifest;
+    return createS3Storage(normalizeS3Settings(settings), JSON.parse(decrypted) as S3Credentials);
   }
 
-  private installMetadataPath(): string {
-    return path.join(config.hytale.serverDir, ".hytale-manager-install.json");
+  private toBackupTargetEntry(target: BackupTarget): BackupTargetEntry {
+    const settings = JSON.parse(target.settings) as Partial<S3TargetSettings & DirectoryTargetSettings>;
+    return {
+      id: target.id,
+      name: target.name,
+      kind: target.kind,
+      enabled: target.enabled,
+      keepLast: target.keepLast,
+      endpoint: settings.endpoint ?? null,
+      region: settings.region ?? null,
+      bucket: settings.bucket ?? null,
+      prefix: settings.prefix ?? null,
+      path: settings.path ?? null,
+      hasCredentials: target.credentials !== null,
+      lastSyncAt: target.lastSyncAt,
+      lastError: target.lastError,
+      createdAt: target.createdAt,
+      updatedAt: target.updatedAt,
+    };
   }
 
-  private async readInstalledServerMetadata(): Promise<InstalledServerMetadata | null> {
-    const metadataPath = this.installMetadataPath();
-    if (!(await pathExists(metadataPath))) {
-      return null;
-    }
+  // Native backups move into archive/ when rotated; replicas and verification results follow the file name so
+  // that move is not a new backup.
+  private toReplicaKey(backup: BackupEntry): string {
+    return backup.source === "manual" ? backup.id : this.encodeNativeBackupId(backup.name);
+  }
 
-    try {
-      const raw = await readFile(metadataPath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<InstalledServerMetadata>;
-      if (
-        typeof parsed.patchline !== "string" ||
-        parsed.patchline.trim().length === 0 ||
-        typeof parsed.version !== "string" ||
-        parsed.version.trim().length === 0 ||
-        typeof parsed.installedAt !== "string" ||
-        parsed.installedAt.trim().length === 0
-      ) {
-        return null;
-      }
-
-      return {
-        patchline: parsed.patchline,
-        version: parsed.version,
-        installedAt: parsed.installedAt,
-      };
-    } catch {
-      return null;
+  private collectBackupReplicas(): Map<string, BackupReplica[]> {
+    const names = new Map(listBackupTargets().map((target) => [target.id, target.name]));
+    const result = new Map<string, BackupReplica[]>();
+    for (const upload of listBackupUploads()) {
+      const list = result.get(upload.backupId) ?? [];
+      list.push({
+        targetId: upload.targetId,
+        targetName: names.get(upload.targetId) ?? `#${upload.targetId}`,
+        status: upload.status,
+        error: upload.error,
+        updatedAt: upload.updatedAt,
+      });
+      result.set(upload.backupId, list);
     }
+    return result;
   }
 
-  private async writeInstalledServerMetadata(metadata: InstalledServerMetadata): Promise<void> {
-    await writeFile(this.installMetadataPath(), JSON.stringify(metadata, null, 2), "utf8");
+  private async emitBackupState(): Promise<void> {
+    this.broadcast("backups.state", {
+      backups: await this.listBackups(),
+      targets: this.listBackupTargets(),
+    });
   }
 
-  private async getLifecyclePrerequisites(): Promise<{ serverInstalled: boolean; javaCommand: string | null }> {
+  private toManualBackupEntry(metadata: BackupMetadata, size: number): BackupEntry {
     return {
-      serverInstalled: await this.isInstalled(),
-      javaCommand: await this.getManagedJavaCommandIfInstalled(),
+      id: this.encodeManualBackupId(metadata.id),
+      name: metadata.id,
+      createdAt: metadata.createdAt,
+      note: metadata.note || "Manual dashboard backup",
+      size,
+      archived: false,
+      source: "manual",
+      format: metadata.format ?? "directory",
+      itemCount: metadata.items.length,
+      sha256: metadata.archive?.sha256 ?? null,
+      pinned: metadata.pinned === true,
+      replicas: [],
+      consistency: metadata.consistency ?? null,
+      verification: null,
     };
   }
 
-  private assertLifecycleReadiness(
-    prerequisites: { serverInstalled: boolean; javaCommand: string | null },
-    action: "start" | "stop" | "restart",
-  ): void {
-    const missing: string[] = [];
-    if (!prerequisites.serverInstalled) {
-      missing.push("server files");
-    }
-    if (!prerequisites.javaCommand) {
-      missing.push("Adoptium JDK 25");
+  private async readManualBackupMetadata(backupPath: string): Promise<BackupMetadata | null> {
+    const metadataPath = path.join(backupPath, "metadata.json");
+    if (!(await pathExists(metadataPath))) {
+      return null;
     }
 
-    if (missing.length === 0) {
-      return;
+    try {
+      return JSON.parse(await readFile(metadataPath, "utf8")) as BackupMetadata;
+    } catch {
+      return null;
     }
-
-    throw new AppError(
-      409,
-      `Cannot ${action}: ${missing.join(" and ")} not installed. Install latest server and Adoptium JDK 25 first.`,
-    );
   }
 
-  private async getManagedJavaCommandIfInstalled(): Promise<string | null> {
-    const command = path.join(config.hytale.managedJavaDir, "bin", process.platform === "win32" ? "java.exe" : "java");
-    if (!(await pathExists(command))) {
-      return null;
+  /** Size of a folder-style backup, measured on first use and then read from its metadata.json. */
+  private async readDirectoryBackupSize(backupPath: string, metadata: BackupMetadata): Promise<number> {
+    if (typeof metadata.size === "number") {
+      return metadata.size;
     }
 
-    return command;
+    const size = await this.measureDirectorySize(backupPath);
+    try {
+      await writeFile(path.join(backupPath, "metadata.json"), JSON.stringify({ ...metadata, size }, null, 2), "utf8");
+    } catch {
+      // A read-only backup is measured again next time.
+    }
+    return size;
   }
 
-  private async installAdoptiumJdk25(): Promise<JavaRuntimeInstallResult> {
-    if (this.javaInstallPromise) {
-      this.pushTerminal("Java installation already in progress; waiting for it to finish...", "system");
-      return await this.javaInstallPromise;
+  private async measureDirectorySize(directoryPath: string): Promise<number> {
+    let total = 0;
+    const entries = await readdir(directoryPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(directoryPath, entry.name);
+      if (entry.isDirectory()) {
+        total += await this.measureDirectorySize(entryPath);
+      } else if (entry.isFile()) {
+        total += (await stat(entryPath)).size;
+      }
     }
+    return total;
+  }
 
-    const run = (async (): Promise<JavaRuntimeInstallResult> => {
-      const platform = this.resolveAdoptiumPlatform();
-      const workspace = path.join(config.app.dataDir, `java-install-${timestampId()}`);
-      await rm(workspace, { recursive: true, force: true });
-      await mkdir(workspace, { recursive: true });
+  async listBackups(): Promise<BackupEntry[]> {
+    await mkdir(config.app.backupsDir, { recursive: true });
+    await mkdir(config.hytale.backupsDir, { recursive: true });
 
-      try {
-        this.pushTerminal(
-          `Resolving Adoptium Temurin JDK ${config.hytale.adoptiumFeatureVersion} for ${platform.os}/${platform.arch}...`,
-          "system",
-        );
+    const entries = await readdir(config.app.backupsDir, { withFileTypes: true });
+    const backups: BackupEntry[] = [];
 
-        const release = await this.fetchAdoptiumRelease(platform.os, platform.arch);
-        this.pushTerminal(`Selected release ${release.releaseName} (${release.packageName})`, "system");
+    for (const entry of entries) {
+      // Dot-directories are downloads from offsite targets that have not finished yet.
+      if (!entry.isDirectory() || entry.name.startsWith(".")) {
+        continue;
+      }
 
-        const archivePath = path.join(workspace, sanitizeFilename(release.packageName));
-        await this.downloadFileWithProgress(release.downloadUrl, archivePath, config.hytale.javaDownloadTimeoutMs, {
-          cacheKey: `adoptium-${release.releaseName}-${release.packageName}`,
-          expectedSha256: release.checksum,
+      const backupPath = path.join(config.app.backupsDir, entry.name);
+      const metadata = await this.readManualBackupMetadata(backupPath);
+      if (metadata) {
+        const size = metadata.archive ? metadata.archive.size : await this.readDirectoryBackupSize(backupPath, metadata);
+        backups.push(this.toManualBackupEntry(metadata, size));
+      } else {
+        const dirStats = await stat(backupPath);
+        let cached = this.directoryBackupSizes.get(backupPath);
+        if (!cached || cached.mtimeMs !== dirStats.mtimeMs) {
+          cached = { mtimeMs: dirStats.mtimeMs, size: await this.measureDirectorySize(backupPath) };
+          this.directoryBackupSizes.set(backupPath, cached);
+        }
+        backups.push({
+          id: this.encodeManualBackupId(entry.name),
+          name: entry.name,
+          createdAt: dirStats.mtime.toISOString(),
+          note: "Manual dashboard backup",
+          size: cached.size,
+          archived: false,
+          source: "manual",
+          format: "directory",
+          itemCount: 0,
+          sha256: null,
+          pinned: false,
+          replicas: [],
+          consistency: null,
+          verification: null,
         });
+      }
+    }
 
-        if (release.checksum) {
-          this.pushTerminal("Validating Java archive checksum...", "system");
-          await this.validateSha256(archivePath, release.checksum);
-          this.pushTerminal("Java archive checksum valid.", "system");
-        } else {
-          this.pushTerminal("Java archive checksum not provided by API; skipping validation.", "system");
-        }
+    const nativeRootEntries = await readdir(config.hytale.backupsDir, { withFileTypes: true });
+    for (const entry of nativeRootEntries) {
+      if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".zip")) {
+        continue;
+      }
 
-        const extractDir = path.join(workspace, "extract");
-        await mkdir(extractDir, { recursive: true });
-        await this.extractArchiveFile(archivePath, extractDir, config.hytale.javaExtractTimeoutMs);
+      const fullPath = path.join(config.hytale.backupsDir, entry.name);
+      const fileStats = await stat(fullPath);
+      backups.push({
+        id: this.encodeNativeBackupId(entry.name),
+        name: entry.name,
+        createdAt: fileStats.mtime.toISOString(),
+        note: "Native Hytale backup",
+        size: fileStats.size,
+        archived: false,
+        source: "native",
+        format: "zip",
+        itemCount: 1,
+        sha256: null,
+        pinned: false,
+        replicas: [],
+        consistency: null,
+        verification: null,
+      });
+    }
 
-        const extractedJavaHome = await this.findJavaHome(extractDir);
-        if (!extractedJavaHome) {
-          throw new AppError(500, "Could not locate extracted Java home directory.");
+    const archiveDir = path.join(config.hytale.backupsDir, "archive");
+    if (await pathExists(archiveDir)) {
+      const archiveEntries = await readdir(archiveDir, { withFileTypes: true });
+      for (const entry of archiveEntries) {
+        if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".zip")) {
+          continue;
         }
 
-        await rm(config.hytale.managedJavaDir, { recursive: true, force: true });
-        await mkdir(path.dirname(config.hytale.managedJavaDir), { recursive: true });
-
-        await rename(extractedJavaHome, config.hytale.managedJavaDir).catch(async () => {
-          await cp(extractedJavaHome, config.hytale.managedJavaDir, { recursive: true, force: true });
+        const fullPath = path.join(archiveDir, entry.name);
+        const fileStats = await stat(fullPath);
+        backups.push({
+          id: this.encodeNativeBackupId(`archive/${entry.name}`),
+          name: entry.name,
+          createdAt: fileStats.mtime.toISOString(),
+          note: "Archived native Hytale backup",
+          size: fileStats.size,
+          archived: true,
+          source: "native",
+          format: "zip",
+          itemCount: 1,
+          sha256: null,
+          pinned: false,
+          replicas: [],
+          consistency: null,
+          verification: null,
         });
+      }
+    }
 
-        const javaCommand = await this.getManagedJavaCommandIfInstalled();
-        if (!javaCommand) {
-          throw new AppError(500, "Java installation completed, but java binary was not found.");
-        }
+    const replicas = this.collectBackupReplicas();
+    const verifications = new Map(listBackupVerifications().map((entry) => [entry.backupId, entry]));
+    for (const backup of backups) {
+      backup.replicas = replicas.get(this.toReplicaKey(backup)) ?? [];
+      backup.verification = verifications.get(this.toReplicaKey(backup)) ?? null;
+    }
 
-        if (process.platform !== "win32") {
-          await chmod(javaCommand, 0o755).catch(() => {});
-        }
+    backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return backups;
+  }
 
-        const metadata = {
-          installedAt: new Date().toISOString(),
-          releaseName: release.releaseName,
-          packageName: release.packageName,
-          downloadUrl: release.downloadUrl,
-          os: platform.os,
-          arch: platform.arch,
-          featureVersion: config.hytale.adoptiumFeatureVersion,
-        };
+  async deleteBackup(id: string): Promise<void> {
+    const reference = await this.resolveBackupReference(id);
+    deleteBackupVerification(this.toVerificationKey(reference));
+    if (reference.kind === "manual") {
+      await rm(reference.path, { recursive: true, force: true });
+      return;
+    }
 
-        await writeFile(
-          path.join(config.hytale.managedJavaDir, ".metadata.json"),
-          JSON.stringify(metadata, null, 2),
-          "utf8",
-        );
+    await rm(reference.path, { force: true });
+  }
 
-        this.pushTerminal(`Installed Java runtime at ${config.hytale.managedJavaDir}`, "system");
-        return {
-          javaCommand,
-          javaHome: config.hytale.managedJavaDir,
-          releaseName: release.releaseName,
-        };
-      } finally {
-        await rm(workspace, { recursive: true, force: true });
-      }
-    })();
+  /**
+   * Checks a backup without touching the server: the archive checksum, every entry's CRC, the
+   * per-file checksums recorded at backup time and that a universe layout is present.
+   */
+  async verifyBackup(id: string): Promise<BackupVerification> {
+    const reference = await this.resolveBackupReference(id);
+    return this.runBackupVerification(reference, "verify", () => this.checkBackupIntegrity(reference));
+  }
 
-    this.javaInstallPromise = run;
-    try {
-      return await run;
-    } finally {
-      this.javaInstallPromise = null;
-    }
+  /** Restores a backup into a scratch directory and checks the result, then throws the copy away. */
+  async testRestoreBackup(id: string): Promise<BackupVerification> {
+    const reference = await this.resolveBackupReference(id);
+    return this.runBackupVerification(reference, "test-restore", () => this.restoreBackupToScratch(reference));
   }
 
-  private resolveAdoptiumPlatform(): { os: "linux" | "mac" | "windows"; arch: "x64" | "x86" | "aarch64" } {
-    const osMap: Record<string, "linux" | "mac" | "windows"> = {
-      linux: "linux",
-      darwin: "mac",
-      win32: "windows",
-    };
+  private toVerificationKey(reference: Awaited<ReturnType<HytaleManager["resolveBackupReference"]>>): string {
+    return reference.kind === "manual"
+      ? this.encodeManualBackupId(reference.name)
+      : this.encodeNativeBackupId(reference.name);
+  }
 
-    const archMap: Record<string, "x64" | "x86" | "aarch64"> = {
-      x64: "x64",
-      ia32: "x86",
-      arm64: "aarch64",
-    };
+  private async runBackupVerification(
+    reference: Awaited<ReturnType<HytaleManager["resolveBackupReference"]>>,
+    mode: BackupVerificationMode,
+    check: () => Promise<string>,
+  ): Promise<BackupVerification> {
+    const key = this.toVerificationKey(reference);
+    if (this.backupVerificationsRunning.has(key)) {
+      throw new AppError(409, `Backup ${reference.name} is already being verified.`);
+    }
 
-    const os = osMap[process.platform];
-    const arch = archMap[process.arch];
+    this.backupVerificationsRunning.add(key);
+    const label = mode === "verify" ? "Verifying" : "Test-restoring";
+    this.pushTerminal(`${label} backup ${reference.name}...`, "system");
 
-    if (!os) {
-      throw new AppError(400, `Unsupported platform for Adoptium download: ${process.platform}`);
+    let verification: BackupVerification;
+    try {
+      const message = await check();
+      verification = recordBackupVerification({ backupId: key, status: "passed", mode, message });
+      this.pushTerminal(`Backup ${reference.name} passed ${mode}: ${message}`, "system");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      verification = recordBackupVerification({ backupId: key, status: "failed", mode, message });
+      this.pushTerminal(`Backup ${reference.name} failed ${mode}: ${message}`, "system");
+      this.broadcast("backups.verificationFailed", { id: key, name: reference.name, verification });
+    } finally {
+      this.backupVerificationsRunning.delete(key);
     }
 
-    if (!arch) {
-      throw new AppError(400, `Unsupported architecture for Adoptium download: ${process.arch}`);
+    await this.emitBackupState();
+    return verification;
+  }
+
+  private async checkBackupIntegrity(
+    reference: Awaited<ReturnType<HytaleManager["resolveBackupReference"]>>,
+  ): Promise<string> {
+    const source = await this.openBackupSource(reference);
+    if (source.kind === "directory") {
+      const metadata = await this.readManualBackupMetadata(source.path);
+      const missing: string[] = [];
+      for (const item of metadata?.items ?? []) {
+        if (!(await pathExists(path.join(source.path, sanitizeFilename(item))))) {
+          missing.push(item);
+        }
+      }
+      if (missing.length > 0) {
+        throw new AppError(400, `Backup is missing ${this.describeBackupPaths(missing)}.`);
+      }
+      if (!(await this.looksLikeUniverseDirectory(path.join(source.path, "universe")))) {
+        throw new AppError(400, "Backup does not contain a universe with worlds or memories.json.");
+      }
+      return `All items present, ${await this.measureDirectorySize(source.path)} bytes, universe layout found.`;
     }
 
-    return { os, arch };
-  }
+    if (source.sha256) {
+      await this.validateSha256(source.archivePath, source.sha256);
+    }
 
-  private async fetchAdoptiumRelease(
-    os: "linux" | "mac" | "windows",
-    arch: "x64" | "x86" | "aarch64",
-  ): Promise<{ releaseName: string; packageName: string; downloadUrl: string; checksum: string | null }> {
-    const endpoint = new URL(
-      `https://${config.hytale.adoptiumApiHost}/v3/assets/latest/${config.hytale.adoptiumFeatureVersion}/hotspot`,
-    );
-    endpoint.searchParams.set("architecture", arch);
-    endpoint.searchParams.set("os", os);
-    endpoint.searchParams.set("image_type", "jdk");
-    endpoint.searchParams.set("vendor", "eclipse");
+    const metadata = reference.kind === "manual" ? await this.readManualBackupMetadata(reference.path) : null;
+    const expected = new Map((metadata?.files ?? []).map((file) => [file.path, file]));
+    const mismatched: string[] = [];
+    let files = 0;
+    let bytes = 0;
 
-    const response = await this.fetchWithTimeout(
-      endpoint.toString(),
-      {
-        method: "GET",
-        headers: {
-          accept: "application/json",
-        },
-      },
-      config.hytale.downloaderApiTimeoutMs,
-    );
+    const archive = await ZipArchive.open(source.archivePath);
+    try {
+      const names = archive.entries.map((entry) => entry.name);
+      const map = source.mapEntry(names);
+      const mapped = names.map(map).filter((name): name is string => name !== null);
+      if (!mapped.some((name) => name.startsWith("universe/worlds/") || name === "universe/memories.json")) {
+        throw new AppError(400, "Backup does not contain a universe with worlds or memories.json.");
+      }
 
-    if (!response.ok) {
-      throw new AppError(response.status, `Adoptium API request failed: ${response.status} ${response.statusText}`);
-    }
+      for (const entry of archive.entries) {
+        if (entry.isDirectory) {
+          continue;
+        }
 
-    const assets = (await response.json()) as AdoptiumAsset[];
-    const selected = assets.find((asset) => {
-      const pkg = asset.binary?.package;
-      return typeof pkg?.name === "string" && typeof pkg.link === "string";
-    });
+        // Reading the entry to the end checks its CRC and size against the central directory.
+        const hash = createHash("sha256");
+        for await (const chunk of await archive.openEntryStream(entry)) {
+          hash.update(chunk as Buffer);
+        }
+        files += 1;
+        bytes += entry.uncompressedSize;
+
+        const record = expected.get(entry.name);
+        if (record) {
+          expected.delete(entry.name);
+          if (record.sha256 !== hash.digest("hex") || record.size !== entry.uncompressedSize) {
+            mismatched.push(entry.name);
+          }
+        }
+      }
+    } finally {
+      await archive.close();
+    }
 
-    if (!selected || !selected.binary?.package?.name || !selected.binary.package.link) {
-      throw new AppError(
-        404,
-        `No Adoptium JDK package found for ${os}/${arch} and feature version ${config.hytale.adoptiumFeatureVersion}.`,
-      );
+    if (mismatched.length > 0) {
+      throw new AppError(400, `Checksum mismatch for ${this.describeBackupPaths(mismatched)}.`);
+    }
+    if (expected.size > 0) {
+      throw new AppError(400, `Archive is missing ${this.describeBackupPaths([...expected.keys()])}.`);
     }
 
-    return {
-      releaseName: selected.release_name?.trim() || `jdk-${config.hytale.adoptiumFeatureVersion}`,
-      packageName: selected.binary.package.name,
-      downloadUrl: selected.binary.package.link,
-      checksum: typeof selected.binary.package.checksum === "string" ? selected.binary.package.checksum : null,
-    };
+    const checks = [source.sha256 ? "archive checksum" : null, metadata?.files ? "file checksums" : null]
+      .filter(Boolean)
+      .join(" and ");
+    return `${files} files (${bytes} bytes) read back${checks ? `, ${checks} match` : ""}, universe layout found.`;
   }
 
-  private async extractArchiveFile(archivePath: string, destinationDir: string, timeoutMs: number): Promise<void> {
-    const lower = archivePath.toLowerCase();
+  private describeBackupPaths(paths: string[]): string {
+    const shown = paths.slice(0, 5).join(", ");
+    return paths.length > 5 ? `${shown} and ${paths.length - 5} more` : shown;
+  }
 
-    if (lower.endsWith(".zip")) {
-      await this.extractZipFile(archivePath, destinationDir, timeoutMs);
-      return;
-    }
+  private async restoreBackupToScratch(
+    reference: Awaited<ReturnType<HytaleManager["resolveBackupReference"]>>,
+  ): Promise<string> {
+    const source = await this.openBackupSource(reference);
+    const workspace = path.join(config.app.dataDir, `verify-${timestampId()}-${randomUUID()}`);
+    await mkdir(workspace, { recursive: true });
 
-    if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz")) {
-      await this.extractTarGzFile(archivePath, destinationDir, timeoutMs);
-      return;
-    }
+    try {
+      if (source.kind === "directory") {
+        await cp(source.path, workspace, { recursive: true, force: true });
+      } else {
+        if (source.sha256) {
+          await this.validateSha256(source.archivePath, source.sha256);
+        }
+        await this.extractZipFile(source.archivePath, workspace);
+      }
 
-    throw new AppError(400, `Unsupported archive type for Java runtime: ${path.basename(archivePath)}`);
+      const universe = await this.resolveUniverseDirectoryFromBackupExtract(workspace);
+      if (!universe || !(await this.looksLikeUniverseDirectory(universe))) {
+        throw new AppError(400, "Restored files do not contain a universe with worlds or memories.json.");
+      }
+
+      const worlds = path.join(universe, "worlds");
+      const worldCount = (await this.isDirectory(worlds))
+        ? (await readdir(worlds, { withFileTypes: true })).filter((entry) => entry.isDirectory()).length
+        : 0;
+      return `Restored ${await this.measureDirectorySize(workspace)} bytes into a scratch directory, universe with ${worldCount} world(s) found.`;
+    } finally {
+      await rm(workspace, { recursive: true, force: true });
+    }
   }
 
-  private async extractTarGzFile(archivePath: string, destinationDir: string, timeoutMs: number): Promise<void> {
-    const tarBin = Bun.which("tar");
-    if (!tarBin) {
-      throw new AppError(500, "System tar command is required for .tar.gz extraction.");
+  async restoreBackup(id: string, actor: string | null = null): Promise<void> {
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before restoring backup.");
     }
 
-    this.pushTerminal(`Extracting archive with ${tarBin}...`, "system");
-    const proc = Bun.spawn([tarBin, "-xzf", archivePath, "-C", destinationDir], {
-      cwd: destinationDir,
-      stdout: "pipe",
-      stderr: "pipe",
-      env: process.env,
-    });
+    const reference = await this.resolveBackupReference(id);
 
-    this.consumeStream(proc.stdout, "stdout");
-    this.consumeStream(proc.stderr, "stderr");
+    if (reference.kind === "manual") {
+      const metadata = await this.readManualBackupMetadata(reference.path);
+      if (metadata?.format === "zip") {
+        await this.restoreManualBackupArchive(reference.name, reference.path, metadata, actor);
+        return;
+      }
 
-    const exited = await Promise.race([
-      proc.exited.then((code) => ({ timeout: false as const, code })),
-      sleep(timeoutMs).then(() => ({ timeout: true as const, code: -1 })),
-    ]);
+      const entries = (await readdir(reference.path, { withFileTypes: true })).filter(
+        (entry) => entry.name !== "metadata.json",
+      );
+      await this.takeSafetySnapshot(
+        "backup.restore",
+        `Restore backup ${reference.name}`,
+        actor,
+        entries.map((entry) => entry.name),
+      );
+      for (const entry of entries) {
+        if (entry.name === "metadata.json") {
+          continue;
+        }
 
-    if (exited.timeout) {
-      proc.kill();
-      throw new AppError(504, `Archive extraction timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
-    }
+        const sourcePath = path.join(reference.path, entry.name);
+        const destinationPath = path.join(config.hytale.serverDir, entry.name);
+        await rm(destinationPath, { recursive: true, force: true });
 
-    if (exited.code !== 0) {
-      throw new AppError(500, `Archive extraction failed with exit code ${exited.code}.`);
+        if (entry.isDirectory()) {
+          await cp(sourcePath, destinationPath, { recursive: true, force: true });
+        } else {
+          await copyFile(sourcePath, destinationPath);
+        }
+      }
+
+      this.pushTerminal(`Manual backup restored: ${reference.name}`, "system");
+      return;
     }
 
-    this.pushTerminal("Archive extraction complete.", "system");
-  }
+    const restoreWorkspace = path.join(config.app.dataDir, `restore-${timestampId()}-${randomUUID()}`);
+    await mkdir(restoreWorkspace, { recursive: true });
 
-  private async findJavaHome(root: string): Promise<string | null> {
-    const javaName = process.platform === "win32" ? "java.exe" : "java";
+    try {
+      this.pushTerminal(`Restoring native backup: ${reference.name}`, "system");
+      await this.extractZipFile(reference.path, restoreWorkspace);
 
-    const queue = [root];
-    while (queue.length > 0) {
-      const current = queue.shift();
-      if (!current) {
-        break;
+      const universeSource = await this.resolveUniverseDirectoryFromBackupExtract(restoreWorkspace);
+      if (!universeSource) {
+        throw new AppError(
+          500,
+          "Unable to locate a universe directory in the backup archive. Restore expects a backup ZIP with universe data.",
+        );
       }
 
-      const directJava = path.join(current, "bin", javaName);
-      if (await pathExists(directJava)) {
-        return current;
-      }
+      const universeDestination = path.join(config.hytale.serverDir, "universe");
+      await this.takeSafetySnapshot("backup.restore", `Restore backup ${reference.name}`, actor, ["universe"]);
+      await rm(universeDestination, { recursive: true, force: true });
+      await cp(universeSource, universeDestination, { recursive: true, force: true });
+      this.pushTerminal(`Native backup restored into ${universeDestination}`, "system");
+    } finally {
+      await rm(restoreWorkspace, { recursive: true, force: true });
+    }
+  }
 
-      const macHome = path.join(current, "Contents", "Home");
-      if (await pathExists(path.join(macHome, "bin", javaName))) {
-        return macHome;
+  private async restoreManualBackupArchive(
+    name: string,
+    backupPath: string,
+    metadata: BackupMetadata,
+    actor: string | null,
+  ): Promise<void> {
+    const archivePath = path.join(backupPath, sanitizeFilename(metadata.archive?.file ?? MANUAL_BACKUP_ARCHIVE_NAME));
+    if (!(await pathExists(archivePath))) {
+      throw new AppError(404, `Backup archive for ${name} is missing.`);
+    }
+
+    if (metadata.archive?.sha256) {
+      this.pushTerminal(`Verifying backup archive checksum: ${name}`, "system");
+      await this.validateSha256(archivePath, metadata.archive.sha256);
+    }
+
+    // Extract into a workspace first so a damaged archive never leaves a half-restored server.
+    const restoreWorkspace = path.join(config.app.dataDir, `restore-${timestampId()}-${randomUUID()}`);
+    await mkdir(restoreWorkspace, { recursive: true });
+
+    try {
+      this.pushTerminal(`Restoring manual backup: ${name}`, "system");
+      await this.extractZipFile(archivePath, restoreWorkspace);
+
+      const restoredItems: string[] = [];
+      for (const item of metadata.items) {
+        if (await pathExists(path.join(restoreWorkspace, sanitizeFilename(item)))) {
+          restoredItems.push(sanitizeFilename(item));
+        }
       }
+      await this.takeSafetySnapshot("backup.restore", `Restore backup ${name}`, actor, restoredItems);
 
-      const entries = await readdir(current, { withFileTypes: true });
-      for (const entry of entries) {
-        if (!entry.isDirectory()) {
+      for (const item of metadata.items) {
+        const sourcePath = path.join(restoreWorkspace, sanitizeFilename(item));
+        if (!(await pathExists(sourcePath))) {
           continue;
         }
 
-        queue.push(path.join(current, entry.name));
+        const destinationPath = path.join(config.hytale.serverDir, sanitizeFilename(item));
+        await rm(destinationPath, { recursive: true, force: true });
+        await cp(sourcePath, destinationPath, { recursive: true, force: true });
       }
-    }
 
-    return null;
+      this.pushTerminal(`Manual backup restored: ${name}`, "system");
+    } finally {
+      await rm(restoreWorkspace, { recursive: true, force: true });
+    }
   }
 
-  private async withDownloaderToken<T>(operation: (accessToken: string) => Promise<T>): Promise<T> {
-    let credentials = await this.getActiveDownloaderCredentials();
+  /**
+   * Opens a backup as a single ZIP download. Archived backups are served as-is; older
+   * folder-style manual backups are zipped on the fly while the response is read.
+   */
+  async openBackupDownload(id: string): Promise<BackupDownload> {
+    const reference = await this.resolveBackupReference(id);
+    if (reference.kind === "native") {
+      return {
+        filename: path.basename(reference.path),
+        size: (await stat(reference.path)).size,
+        body: Bun.file(reference.path),
+      };
+    }
 
-    try {
-      return await operation(credentials.access_token);
-    } catch (error) {
-      if (!(error instanceof AppError) || (error.status !== 401 && error.status !== 403)) {
-        throw error;
+    const metadata = await this.readManualBackupMetadata(reference.path);
+    if (metadata?.format === "zip") {
+      const archivePath = path.join(reference.path, sanitizeFilename(metadata.archive?.file ?? MANUAL_BACKUP_ARCHIVE_NAME));
+      if (!(await pathExists(archivePath))) {
+        throw new AppError(404, `Backup archive for ${reference.name} is missing.`);
       }
+      return { filename: `${reference.name}.zip`, size: (await stat(archivePath)).size, body: Bun.file(archivePath) };
     }
 
-    this.pushTerminal("Stored downloader token was rejected; re-authentication is required.", "system");
-    credentials = await this.requestNewDeviceCredentials();
-    return await operation(credentials.access_token);
+    const { writer, stream } = ZipWriter.stream();
+    void (async () => {
+      try {
+        for (const entry of await readdir(reference.path, { withFileTypes: true })) {
+          const sourcePath = path.join(reference.path, entry.name);
+          if (entry.isDirectory()) {
+            await writer.addTree(entry.name, sourcePath);
+          } else if (entry.isFile()) {
+            await writer.addFile(entry.name, sourcePath);
+          }
+        }
+        await writer.close();
+      } catch (error) {
+        await writer.abort();
+        if (!(error instanceof AppError && error.status === 499)) {
+          this.pushTerminal(`Download of backup ${reference.name} failed: ${(error as Error).message}`, "system");
+        }
+      }
+    })();
+
+    return {
+      filename: `${reference.name}.zip`,
+      size: null,
+      body: stream,
+    };
   }
 
-  private async getActiveDownloaderCredentials(): Promise<DownloaderCredentials> {
-    const now = Math.floor(Date.now() / 1000);
-    const stored = await this.readDownloaderCredentials();
+  /**
+   * Starts a resumable backup import. Chunks are appended at explicit offsets, and the session
+   * lives on disk so an interrupted upload can continue after a reconnect or a manager restart.
+   */
+  async startBackupImport(
+    userId: number,
+    input: { filename: string; size: number; sha256?: string | null; note?: string },
+  ): Promise<BackupImport> {
+    const filename = sanitizeFilename(input.filename);
+    if (!filename.toLowerCase().endsWith(".zip")) {
+      throw new AppError(400, "Only .zip backup archives can be imported.");
+    }
+    if (!Number.isSafeInteger(input.size) || input.size <= 0) {
+      throw new AppError(400, "Upload size must be greater than zero.");
+    }
 
-    if (stored && stored.environment === config.hytale.downloaderEnvironment) {
-      if (stored.expires_at > now + 60 && stored.access_token.trim()) {
-        return stored;
+    const sha256 = input.sha256?.trim().toLowerCase() || null;
+    if (sha256 && !/^[a-f0-9]{64}$/.test(sha256)) {
+      throw new AppError(400, "sha256 must be a 64-character hex string.");
+    }
+    const note = (input.note ?? "").trim();
+    if (note.length > 200) {
+      throw new AppError(400, "Note must be at most 200 characters.");
+    }
+
+    await mkdir(config.app.uploadsDir, { recursive: true });
+    await this.removeStaleUploadSessions(BACKUP_IMPORT_PREFIX);
+    await this.assertUploadFits(input.size);
+
+    const record: BackupImportRecord = {
+      id: randomUUID(),
+      filename,
+      size: input.size,
+      sha256,
+      note,
+      createdAt: new Date().toISOString(),
+      userId,
+    };
+    await writeFile(this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, ".part"), "");
+    await writeFile(this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, ".json"), JSON.stringify(record, null, 2), "utf8");
+    return { ...this.toBackupImport(record), received: 0 };
+  }
+
+  async getBackupImport(userId: number, importId: string): Promise<BackupImport> {
+    const record = await this.readUploadSession<BackupImportRecord>(BACKUP_IMPORT_PREFIX, userId, importId);
+    return { ...this.toBackupImport(record), received: (await stat(this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, ".part"))).size };
+  }
+
+  async appendBackupImport(userId: number, importId: string, offset: number, chunk: Uint8Array): Promise<BackupImport> {
+    const record = await this.readUploadSession<BackupImportRecord>(BACKUP_IMPORT_PREFIX, userId, importId);
+    const received = await this.appendUploadChunk(BACKUP_IMPORT_PREFIX, record, offset, chunk);
+    return { ...this.toBackupImport(record), received };
+  }
+
+  /**
+   * Validates a completed upload and registers it as a manual backup. The archive must contain a
+   * Hytale universe, either as a `universe` directory (dashboard backups) or at its root (native
+   * backups); mods and config files next to it are kept.
+   */
+  async finishBackupImport(userId: number, importId: string): Promise<BackupEntry> {
+    const record = await this.readUploadSession<BackupImportRecord>(BACKUP_IMPORT_PREFIX, userId, importId);
+    if (this.uploadSessionsBusy.has(record.id)) {
+      throw new AppError(409, "This upload is still being written.");
+    }
+
+    const partPath = this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, ".part");
+    const received = (await stat(partPath)).size;
+    if (received !== record.size) {
+      throw new AppError(409, `Upload is incomplete (${received} of ${record.size} bytes).`);
+    }
+
+    this.uploadSessionsBusy.add(record.id);
+    const workspace = this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, "-extract");
+    const rootWorkspace = this.uploadSessionPath(BACKUP_IMPORT_PREFIX, record.id, "-root");
+    try {
+      if (record.sha256) {
+        this.pushTerminal(`Verifying uploaded backup checksum: ${record.filename}`, "system");
+        await this.validateSha256(partPath, record.sha256);
       }
 
-      if (stored.refresh_token.trim()) {
-        const refreshed = await this.refreshDownloaderCredentials(stored.refresh_token);
-        if (refreshed) {
-          return refreshed;
-        }
+      await mkdir(workspace, { recursive: true });
+      await this.extractZipFile(partPath, workspace);
+
+      const universe = await this.resolveUniverseDirectoryFromBackupExtract(workspace);
+      if (!universe || !(await this.looksLikeUniverseDirectory(universe))) {
+        throw new AppError(400, `${record.filename} does not contain a Hytale universe directory.`);
       }
-    } else if (stored && stored.environment !== config.hytale.downloaderEnvironment) {
-      this.pushTerminal(
-        `Stored credentials environment mismatch (${stored.environment} != ${config.hytale.downloaderEnvironment}); re-authenticating.`,
-        "system",
+
+      let sourceRoot = path.dirname(universe);
+      if (path.basename(universe) !== "universe") {
+        await mkdir(rootWorkspace, { recursive: true });
+        await rename(universe, path.join(rootWorkspace, "universe"));
+        sourceRoot = rootWorkspace;
+      }
+
+      const backup = await this.writeManualBackup(
+        record.note || `Imported from ${record.filename}`,
+        sourceRoot,
+        "imported",
       );
+      this.pushTerminal(`Imported ${record.filename} (${record.size} bytes) as backup ${backup.name}.`, "system");
+      await this.discardUploadSession(BACKUP_IMPORT_PREFIX, record.id);
+      await this.emitBackupState();
+      return backup;
+    } finally {
+      this.uploadSessionsBusy.delete(record.id);
+      await rm(workspace, { recursive: true, force: true });
+      await rm(rootWorkspace, { recursive: true, force: true });
     }
+  }
 
-    return await this.requestNewDeviceCredentials();
+  async cancelBackupImport(userId: number, importId: string): Promise<void> {
+    const record = await this.readUploadSession<BackupImportRecord>(BACKUP_IMPORT_PREFIX, userId, importId);
+    if (this.uploadSessionsBusy.has(record.id)) {
+      throw new AppError(409, "This upload is still being written.");
+    }
+    await this.discardUploadSession(BACKUP_IMPORT_PREFIX, record.id);
   }
 
-  private async readDownloaderCredentials(): Promise<DownloaderCredentials | null> {
-    const credentialsPath = config.hytale.downloaderCredentialsPath;
-    if (!(await pathExists(credentialsPath))) {
-      return null;
+  // Upload sessions (backup imports, server archives) are a `.json` record and a `.part` file in the
+  // uploads directory, named by a per-kind prefix.
+  private async readUploadSession<T extends { id: string; size: number; userId: number }>(
+    prefix: string,
+    userId: number,
+    uploadId: string,
+  ): Promise<T> {
+    if (!/^[a-f0-9-]{36}$/.test(uploadId)) {
+      throw new AppError(400, "Invalid upload id.");
     }
 
+    let record: T;
     try {
-      const raw = await readFile(credentialsPath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<DownloaderCredentials>;
-      if (
-        typeof parsed.access_token !== "string" ||
-        typeof parsed.refresh_token !== "string" ||
-        typeof parsed.expires_at !== "number" ||
-        typeof parsed.environment !== "string"
-      ) {
-        this.pushTerminal("Stored downloader credentials are malformed; re-authentication required.", "system");
-        return null;
-      }
-
-      return {
-        access_token: parsed.access_token,
-        refresh_token: parsed.refresh_token,
-        expires_at: parsed.expires_at,
-        environment: parsed.environment,
-      };
+      record = JSON.parse(await readFile(this.uploadSessionPath(prefix, uploadId, ".json"), "utf8")) as T;
     } catch {
-      this.pushTerminal("Stored downloader credentials could not be read; re-authentication required.", "system");
-      return null;
+      throw new AppError(404, "Upload session not found.");
     }
+    // Sessions are private to the user who started them.
+    if (record.userId !== userId) {
+      throw new AppError(404, "Upload session not found.");
+    }
+    return record;
   }
 
-  private async writeDownloaderCredentials(credentials: DownloaderCredentials): Promise<void> {
-    const serialized = JSON.stringify(credentials, null, 2);
-    await writeFile(config.hytale.downloaderCredentialsPath, serialized, { encoding: "utf8", mode: 0o600 });
-  }
+  private async appendUploadChunk(
+    prefix: string,
+    record: { id: string; size: number },
+    offset: number,
+    chunk: Uint8Array,
+  ): Promise<number> {
+    if (chunk.byteLength === 0) {
+      throw new AppError(400, "Upload chunk is empty.");
+    }
+    if (chunk.byteLength > MAX_UPLOAD_CHUNK_BYTES) {
+      throw new AppError(413, `Upload chunks must be at most ${MAX_UPLOAD_CHUNK_BYTES} bytes.`);
+    }
+    if (this.uploadSessionsBusy.has(record.id)) {
+      throw new AppError(409, "Another chunk for this upload is still being written.");
+    }
 
-  private async requestNewDeviceCredentials(): Promise<DownloaderCredentials> {
-    this.pushTerminal("Requesting downloader authorization device code...", "system");
+    this.uploadSessionsBusy.add(record.id);
+    try {
+      const partPath = this.uploadSessionPath(prefix, record.id, ".part");
+      const received = (await stat(partPath)).size;
+      if (offset !== received) {
+        throw new AppError(409, `Upload is at byte ${received}; resume from there.`);
+      }
+      if (received + chunk.byteLength > record.size) {
+        throw new AppError(400, "Upload chunk goes past the declared size.");
+      }
 
-    const body = new URLSearchParams({
-      client_id: config.hytale.downloaderClientId,
-      scope: config.hytale.downloaderScope,
-    });
+      await appendFile(partPath, chunk);
+      return received + chunk.byteLength;
+    } finally {
+      this.uploadSessionsBusy.delete(record.id);
+    }
+  }
 
-    const deviceResponse = await this.fetchWithTimeout(
-      `https://${config.hytale.oauthHost}/oauth2/device/auth`,
-      {
-        method: "POST",
-        headers: {
-          accept: "application/json",
-          "content-type": "application/x-www-form-urlencoded",
-        },
-        body,
-      },
-      config.hytale.downloaderApiTimeoutMs,
-    );
+  /**
+   * Rejects an upload above the configured maximum size, or one the uploads directory has no room for once the
+   * bytes still expected by other open upload sessions are set aside.
+   */
+  private async assertUploadFits(size: number): Promise<void> {
+    const maxBytes = config.app.maxUploadBytes;
+    if (maxBytes > 0 && size > maxBytes) {
+      throw new AppError(413, `Upload is ${this.formatBytes(size)}; the maximum upload size is ${this.formatBytes(maxBytes)}.`);
+    }
 
-    const devicePayload = (await deviceResponse.json()) as OAuthDeviceCodeResponse & OAuthTokenResponse;
-    if (!deviceResponse.ok || devicePayload.error || !devicePayload.device_code || !devicePayload.user_code) {
-      const details = devicePayload.error_description ?? devicePayload.error ?? `${deviceResponse.status} ${deviceResponse.statusText}`;
-      throw new AppError(401, `Failed to initialize device authorization: ${details}`);
+    const stats = await statfs(config.app.uploadsDir);
+    const freeBytes = stats.bavail * stats.bsize;
+    const reservedBytes = await this.pendingUploadBytes();
+    if (size + reservedBytes > freeBytes) {
+      throw new AppError(
+        507,
+        `Not enough free space for this upload: it needs ${this.formatBytes(size)} but only ${this.formatBytes(
+          Math.max(0, freeBytes - reservedBytes),
+        )} is available in ${config.app.uploadsDir}.`,
+      );
     }
+  }
 
-    const verificationUrl = devicePayload.verification_uri_complete ?? devicePayload.verification_uri;
-    if (!verificationUrl) {
-      throw new AppError(500, "Device authorization response did not include a verification URL.");
+  /** Bytes that open upload sessions have announced but not received yet. */
+  private async pendingUploadBytes(): Promise<number> {
+    let pending = 0;
+    for (const entry of await readdir(config.app.uploadsDir)) {
+      const prefix = [BACKUP_IMPORT_PREFIX, SERVER_ARCHIVE_UPLOAD_PREFIX].find((candidate) => entry.startsWith(candidate));
+      if (!prefix || !entry.endsWith(".json")) {
+        continue;
+      }
+      const uploadId = entry.slice(prefix.length, -".json".length);
+      try {
+        const record = JSON.parse(await readFile(path.join(config.app.uploadsDir, entry), "utf8")) as { size?: unknown };
+        const received = (await stat(this.uploadSessionPath(prefix, uploadId, ".part"))).size;
+        if (typeof record.size === "number") {
+          pending += Math.max(0, record.size - received);
+        }
+      } catch {
+        // A session being discarded concurrently no longer reserves space.
+      }
     }
+    return pending;
+  }
 
-    this.pushTerminal("Please visit the following URL to authenticate:", "system");
-    this.pushTerminal(verificationUrl, "system");
-    this.pushTerminal(`Authorization code: ${devicePayload.user_code}`, "system");
+  private async removeStaleUploadSessions(prefix: string): Promise<void> {
+    const cutoff = Date.now() - UPLOAD_SESSION_STALE_MS;
+    for (const entry of await readdir(config.app.uploadsDir)) {
+      if (!entry.startsWith(prefix) || !entry.endsWith(".json")) {
+        continue;
+      }
+      const uploadId = entry.slice(prefix.length, -".json".length);
+      if (!/^[a-f0-9-]{36}$/.test(uploadId) || this.uploadSessionsBusy.has(uploadId)) {
+        continue;
+      }
 
-    let openedByServer = false;
-    if (config.hytale.oauthAutoOpenBrowser) {
-      openedByServer = this.tryOpenExternalUrl(verificationUrl);
-      if (openedByServer) {
-        this.pushTerminal("Opened authorization URL in your default browser.", "system");
-      } else {
-        this.pushTerminal("Could not open browser automatically. Open the URL manually.", "system");
+      const partPath = this.uploadSessionPath(prefix, uploadId, ".part");
+      const lastActivity = (await pathExists(partPath))
+        ? (await stat(partPath)).mtimeMs
+        : (await stat(path.join(config.app.uploadsDir, entry))).mtimeMs;
+      if (lastActivity < cutoff) {
+        await this.discardUploadSession(prefix, uploadId);
       }
     }
+  }
 
-    this.broadcast("auth.device", {
-      url: verificationUrl,
-      code: devicePayload.user_code,
-      openedByServer,
-    });
+  private async discardUploadSession(prefix: string, uploadId: string): Promise<void> {
+    await rm(this.uploadSessionPath(prefix, uploadId, ".part"), { force: true });
+    await rm(this.uploadSessionPath(prefix, uploadId, ".json"), { force: true });
+  }
 
-    const pollDeadline = Date.now() + Math.min(
-      devicePayload.expires_in * 1000,
-      config.hytale.oauthDevicePollTimeoutMs,
-    );
-    let intervalSeconds = Math.max(1, devicePayload.interval ?? 5);
-    let lastPendingLog = 0;
+  private uploadSessionPath(prefix: string, uploadId: string, suffix: string): string {
+    return path.join(config.app.uploadsDir, `${prefix}${uploadId}${suffix}`);
+  }
 
-    while (Date.now() < pollDeadline) {
-      await sleep(intervalSeconds * 1000);
-      const tokenPayload = await this.requestToken({
-        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
-        device_code: devicePayload.device_code,
-      });
+  private toBackupImport(record: BackupImportRecord): Omit<BackupImport, "received"> {
+    return {
+      id: record.id,
+      filename: record.filename,
+      size: record.size,
+      sha256: record.sha256,
+      note: record.note,
+      createdAt: record.createdAt,
+    };
+  }
 
-      if (tokenPayload.access_token) {
-        const credentials = this.tokenPayloadToCredentials(tokenPayload, "");
-        await this.writeDownloaderCredentials(credentials);
-        this.pushTerminal("Downloader authorization completed.", "system");
-        return credentials;
+  async listBackupContents(id: string): Promise<BackupContents> {
+    const reference = await this.resolveBackupReference(id);
+    const files: BackupContentEntry[] = [];
+    let totalBytes = 0;
+    let truncated = false;
+    const add = (entryPath: string, size: number) => {
+      totalBytes += size;
+      if (files.length >= MAX_BACKUP_CONTENT_ENTRIES) {
+        truncated = true;
+        return;
       }
+      files.push({ path: entryPath, size });
+    };
 
-      if (tokenPayload.error === "authorization_pending") {
-        if (Date.now() - lastPendingLog >= 15_000) {
-          this.pushTerminal("Waiting for authorization confirmation...", "system");
-          lastPendingLog = Date.now();
+    const source = await this.openBackupSource(reference);
+    if (source.kind === "directory") {
+      const walk = async (directory: string, prefix: string) => {
+        for (const entry of await readdir(directory, { withFileTypes: true })) {
+          const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+          if (entry.isDirectory()) {
+            await walk(path.join(directory, entry.name), relative);
+          } else if (entry.isFile() && relative !== "metadata.json") {
+            add(relative, (await stat(path.join(directory, entry.name))).size);
+          }
         }
-        continue;
-      }
-
-      if (tokenPayload.error === "slow_down") {
-        intervalSeconds += 5;
-        continue;
+      };
+      await walk(source.path, "");
+    } else {
+      const archive = await ZipArchive.open(source.archivePath);
+      try {
+        const map = source.mapEntry(archive.entries.map((entry) => entry.name));
+        for (const entry of archive.entries) {
+          const mapped = entry.isDirectory ? null : map(entry.name);
+          if (mapped) {
+            add(mapped, entry.uncompressedSize);
+          }
+        }
+      } finally {
+        await archive.close();
       }
-
-      const details = tokenPayload.error_description ?? tokenPayload.error ?? "unknown error";
-      throw new AppError(401, `Authorization failed: ${details}`);
     }
 
-    throw new AppError(504, "Authorization timed out before completion.");
+    files.sort((left, right) => left.path.localeCompare(right.path));
+    return {
+      id,
+      name: reference.name,
+      source: reference.kind,
+      files,
+      totalBytes,
+      truncated,
+    };
   }
 
-  private async refreshDownloaderCredentials(refreshToken: string): Promise<DownloaderCredentials | null> {
-    this.pushTerminal("Refreshing downloader credentials...", "system");
-
-    const tokenPayload = await this.requestToken({
-      grant_type: "refresh_token",
-      refresh_token: refreshToken,
-    });
+  /**
+   * Restores only the selected server-relative paths (e.g. `mods`, `universe/worlds/default`,
+   * `permissions.json`) from a backup. `live` replaces those paths in the server directory and
+   * leaves everything else alone; `side` extracts them into a fresh directory for inspection.
+   */
+  async restoreBackupSelection(
+    id: string,
+    paths: string[],
+    target: BackupRestoreTarget,
+    actor: string | null = null,
+  ): Promise<{ destination: string; paths: string[] }> {
+    if (target === "live" && this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before restoring backup.");
+    }
 
-    if (!tokenPayload.access_token) {
-      const details = tokenPayload.error_description ?? tokenPayload.error ?? "unknown error";
-      this.pushTerminal(`Credential refresh failed: ${details}`, "system");
-      return null;
+    const selection = this.normalizeRestoreSelection(paths);
+    const reference = await this.resolveBackupReference(id);
+    const source = await this.openBackupSource(reference);
+    if (source.kind === "zip" && source.sha256) {
+      this.pushTerminal(`Verifying backup archive checksum: ${reference.name}`, "system");
+      await this.validateSha256(source.archivePath, source.sha256);
     }
 
-    const credentials = this.tokenPayloadToCredentials(tokenPayload, refreshToken);
-    await this.writeDownloaderCredentials(credentials);
-    this.pushTerminal("Downloader credentials refreshed.", "system");
-    return credentials;
-  }
+    const matches = (candidate: string) =>
+      selection.some((selected) => candidate === selected || candidate.startsWith(`${selected}/`));
+    const workspace =
+      target === "side"
+        ? path.join(config.app.dataDir, "restores", `${sanitizeFilename(reference.name)}-${timestampId()}`)
+        : path.join(config.app.dataDir, `restore-${timestampId()}-${randomUUID()}`);
+    await mkdir(workspace, { recursive: true });
 
-  private async requestToken(fields: Record<string, string>): Promise<OAuthTokenResponse> {
-    const body = new URLSearchParams({
-      ...fields,
-      client_id: config.hytale.downloaderClientId,
-    });
+    let keepWorkspace = false;
+    try {
+      if (source.kind === "directory") {
+        for (const selected of selection) {
+          const sourcePath = path.join(source.path, ...selected.split("/"));
+          if (await pathExists(sourcePath)) {
+            await mkdir(path.dirname(path.join(workspace, ...selected.split("/"))), { recursive: true });
+            await cp(sourcePath, path.join(workspace, ...selected.split("/")), { recursive: true, force: true });
+          }
+        }
+      } else {
+        const archive = await ZipArchive.open(source.archivePath);
+        const map = source.mapEntry(archive.entries.map((entry) => entry.name));
+        await archive.close();
+        await extractZipArchive(source.archivePath, workspace, {
+          select: (entryName) => {
+            const mapped = map(entryName)?.replace(/\/+$/, "");
+            return mapped && matches(mapped) ? mapped : null;
+          },
+        });
+      }
 
-    const response = await this.fetchWithTimeout(
-      `https://${config.hytale.oauthHost}/oauth2/token`,
-      {
-        method: "POST",
-        headers: {
-          accept: "application/json",
-          "content-type": "application/x-www-form-urlencoded",
-        },
-        body,
-      },
-      config.hytale.downloaderApiTimeoutMs,
-    );
+      const missing: string[] = [];
+      for (const selected of selection) {
+        if (!(await pathExists(path.join(workspace, ...selected.split("/"))))) {
+          missing.push(selected);
+        }
+      }
+      if (missing.length > 0) {
+        throw new AppError(404, `Not found in backup ${reference.name}: ${missing.join(", ")}.`);
+      }
 
-    let payload: OAuthTokenResponse = {};
-    try {
-      payload = (await response.json()) as OAuthTokenResponse;
-    } catch {
-      if (!response.ok) {
-        throw new AppError(response.status, `Token endpoint returned ${response.status} ${response.statusText}.`);
+      if (target === "side") {
+        keepWorkspace = true;
+        this.pushTerminal(
+          `Extracted ${selection.join(", ")} from backup ${reference.name} into ${workspace} for inspection.`,
+          "system",
+        );
+        return { destination: workspace, paths: selection };
       }
-    }
 
-    if (!response.ok && !payload.error) {
-      throw new AppError(response.status, `Token request failed: ${response.status} ${response.statusText}`);
+      await this.takeSafetySnapshot(
+        "backup.restore",
+        `Restore ${selection.join(", ")} from backup ${reference.name}`,
+        actor,
+        selection,
+      );
+      for (const selected of selection) {
+        const destinationPath = path.join(config.hytale.serverDir, ...selected.split("/"));
+        await rm(destinationPath, { recursive: true, force: true });
+        await mkdir(path.dirname(destinationPath), { recursive: true });
+        await cp(path.join(workspace, ...selected.split("/")), destinationPath, { recursive: true, force: true });
+      }
+
+      this.pushTerminal(`Restored ${selection.join(", ")} from backup ${reference.name}.`, "system");
+      return { destination: config.hytale.serverDir, paths: selection };
+    } finally {
+      if (!keepWorkspace) {
+        await rm(workspace, { recursive: true, force: true });
+      }
     }
+  }
 
-    return payload;
+  async listSafetySnapshots(): Promise<SafetySnapshot[]> {
+    return await readSafetySnapshots(this.getSafetySnapshotsDir());
   }
 
-  private tryOpenExternalUrl(url: string): boolean {
-    const commandCandidates: string[][] = [];
+  /**
+   * Reverts the most recent snapshotted operation by putting back every path it recorded, then
+   * drops the snapshot. Only the latest operation can be undone, so undos always unwind in order.
+   */
+  async undoLastOperation(actor: string | null = null): Promise<SafetySnapshot> {
+    const [latest] = await this.listSafetySnapshots();
+    if (!latest) {
+      throw new AppError(404, "There is no operation to undo.");
+    }
+    if (latest.operation !== "mod.delete" && latest.operation !== "mod.replace" && this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before undoing a restore or install.");
+    }
 
-    if (process.platform === "darwin") {
-      commandCandidates.push(["open", url]);
-    } else if (process.platform === "win32") {
-      commandCandidates.push(["cmd", "/c", "start", "", url]);
-    } else {
-      commandCandidates.push(["xdg-open", url]);
+    const keptVersion = latest.serverVersion
+      ? (await readServerVersions(this.getServerVersionsDir())).find((entry) => entry.id === latest.serverVersion?.id)
+      : null;
+    if (latest.serverVersion && !keptVersion) {
+      throw new AppError(
+        409,
+        `The kept server version ${latest.serverVersion.version} this undo needs has been deleted; restore a backup instead.`,
+      );
     }
 
-    for (const command of commandCandidates) {
-      const executable = command[0];
-      if (executable !== "cmd" && !Bun.which(executable)) {
-        continue;
+    this.pushTerminal(
+      `Undoing "${latest.summary}" (${latest.createdAt}${latest.actor ? `, by ${latest.actor}` : ""})${actor ? ` on behalf of ${actor}` : ""}...`,
+      "system",
+    );
+    if (latest.serverVersion && keptVersion) {
+      const sourceDir = serverVersionFilesDir(this.getServerVersionsDir(), keptVersion.id);
+      for (const entry of new Set([...latest.serverVersion.replacedEntries, ...keptVersion.entries])) {
+        await rm(path.join(config.hytale.serverDir, entry), { recursive: true, force: true });
       }
+      for (const entry of keptVersion.entries) {
+        await cp(path.join(sourceDir, entry), path.join(config.hytale.serverDir, entry), { recursive: true, force: true });
+      }
+      this.pushTerminal(`Server files restored from the kept version ${keptVersion.version}.`, "system");
+    }
+    await restoreSafetySnapshot(
+      this.getSafetySnapshotsDir(),
+      latest,
+      path.join(config.app.dataDir, `undo-${timestampId()}-${randomUUID()}`),
+    );
+    await deleteSafetySnapshot(this.getSafetySnapshotsDir(), latest.id);
+    this.pushTerminal(
+      `Undo complete: ${latest.items.map((item) => (item.existed ? item.label : `${item.label} (removed)`)).join(", ")}.`,
+      "system",
+    );
 
-      try {
-        Bun.spawn(command, {
-          stdin: "ignore",
-          stdout: "ignore",
-          stderr: "ignore",
-          env: process.env,
-        });
-        return true;
-      } catch {
-        continue;
+    await this.emitSafetySnapshots();
+    return latest;
+  }
+
+  /**
+   * Snapshots an install or version switch without copying server binaries or Assets.zip: server
+   * files come back from the kept outgoing version, so only the install record and small top-level
+   * files such as configs are copied. Without a kept version, undo restores those and the install
+   * record, and Repair fetches the matching server files.
+   */
+  private async takeServerInstallSnapshot(
+    operation: string,
+    summary: string,
+    actor: string | null,
+    outgoing: ServerVersion | null,
+    replacedEntries: string[],
+  ): Promise<void> {
+    const paths = [path.basename(this.installMetadataPath())];
+    for (const entry of replacedEntries) {
+      const details = await stat(path.join(config.hytale.serverDir, entry)).catch(() => null);
+      if (details?.isFile() && details.size <= SAFETY_SNAPSHOT_INSTALL_FILE_MAX_BYTES) {
+        paths.push(entry);
       }
     }
+    if (!outgoing && (await this.getServerRuntimeSettings()).safetySnapshotsEnabled) {
+      this.pushTerminal(
+        "The outgoing server files were not kept; undo will restore the install record and configs, then use Repair to fetch the server files.",
+        "system",
+      );
+    }
 
-    return false;
+    await this.takeSafetySnapshot(
+      operation,
+      summary,
+      actor,
+      paths,
+      outgoing ? { id: outgoing.id, version: outgoing.version, replacedEntries } : null,
+    );
   }
 
-  private tokenPayloadToCredentials(payload: OAuthTokenResponse, fallbackRefreshToken: string): DownloaderCredentials {
-    const accessToken = payload.access_token?.trim();
-    if (!accessToken) {
-      throw new AppError(500, "OAuth token response did not include access_token.");
+  /**
+   * Copies what an operation is about to overwrite or delete. `paths` are server-relative unless
+   * given as absolute targets. A failed snapshot aborts the operation rather than running it
+   * without an undo.
+   */
+  private async takeSafetySnapshot(
+    operation: string,
+    summary: string,
+    actor: string | null,
+    paths: Array<string | { label: string; target: string }>,
+    serverVersion: SafetySnapshotServerVersion | null = null,
+  ): Promise<void> {
+    const settings = await this.getServerRuntimeSettings();
+    if (!settings.safetySnapshotsEnabled || paths.length === 0) {
+      return;
     }
 
-    const refreshToken = payload.refresh_token?.trim() || fallbackRefreshToken;
-    const expiresIn = Math.max(60, Number(payload.expires_in ?? 3600));
+    const targets = paths.map((entry) =>
+      typeof entry === "string"
+        ? { label: entry, target: path.join(config.hytale.serverDir, ...entry.split("/")) }
+        : entry,
+    );
 
-    return {
-      access_token: accessToken,
-      refresh_token: refreshToken,
-      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
-      environment: config.hytale.downloaderEnvironment,
-    };
-  }
-
-  private async getSignedAssetUrl(accessToken: string, assetPath: string): Promise<string> {
-    const normalizedPath = assetPath.replace(/^\/+/, "");
-    const endpoint = `https://${config.hytale.accountDataHost}/game-assets/${normalizedPath}`;
+    let snapshot: SafetySnapshot;
+    try {
+      snapshot = await writeSafetySnapshot(this.getSafetySnapshotsDir(), {
+        operation,
+        summary,
+        actor,
+        targets,
+        serverVersion,
+      });
+    } catch (error) {
+      throw new AppError(
+        500,
+        `Safety snapshot before "${summary}" failed, so nothing was changed: ${(error as Error).message}`,
+      );
+    }
 
-    const response = await this.fetchWithTimeout(
-      endpoint,
-      {
-        method: "GET",
-        headers: {
-          accept: "application/json",
-          authorization: `Bearer ${accessToken}`,
-        },
-      },
-      config.hytale.downloaderApiTimeoutMs,
+    this.pushTerminal(
+      `Safety snapshot ${snapshot.id} taken before "${summary}" (${snapshot.items.filter((item) => item.existed).length}/${snapshot.items.length} paths, ${snapshot.size} bytes${serverVersion ? `; server files are restored from the kept version ${serverVersion.version}` : ""}).`,
+      "system",
     );
+    await this.pruneSafetySnapshotsSafely();
+    await this.emitSafetySnapshots();
+  }
 
-    if (!response.ok) {
-      const details = (await response.text()).trim();
-      const suffix = details || `${response.status} ${response.statusText}`;
-      throw new AppError(response.status, `Failed to resolve signed URL for ${normalizedPath}: ${suffix}`);
+  private async pruneSafetySnapshotsSafely(): Promise<void> {
+    this.lastSafetySnapshotPruneAt = Date.now();
+    try {
+      const settings = await this.getServerRuntimeSettings();
+      const cutoff = Date.now() - settings.safetySnapshotMaxAgeHours * 60 * 60_000;
+      const snapshots = await this.listSafetySnapshots();
+      const expired = snapshots.filter(
+        (snapshot, index) => index >= settings.safetySnapshotKeep || Date.parse(snapshot.createdAt) < cutoff,
+      );
+      for (const snapshot of expired) {
+        await deleteSafetySnapshot(this.getSafetySnapshotsDir(), snapshot.id);
+      }
+      if (expired.length > 0) {
+        this.pushTerminal(`Removed ${expired.length} expired safety snapshot(s).`, "system");
+        await this.emitSafetySnapshots();
+      }
+    } catch (error) {
+      this.pushTerminal(`Safety snapshot cleanup failed: ${(error as Error).message}`, "system");
     }
+  }
 
-    const payload = (await response.json()) as { url?: string };
-    if (typeof payload.url !== "string" || payload.url.length === 0) {
-      throw new AppError(500, `Signed URL response for ${normalizedPath} is missing url.`);
-    }
+  private async emitSafetySnapshots(): Promise<void> {
+    this.broadcast("safety.snapshots", { snapshots: await this.listSafetySnapshots() });
+  }
 
-    return payload.url;
+  private getSafetySnapshotsDir(): string {
+    return path.join(config.app.dataDir, SAFETY_SNAPSHOTS_DIR_NAME);
   }
 
-  private async downloadFileWithProgress(
-    url: string,
-    destinationPath: string,
-    timeoutMs: number,
-    options: DownloadRequestOptions = {},
-  ): Promise<void> {
-    const downloadConcurrency = Math.max(1, Math.min(16, Math.trunc(config.hytale.downloadConcurrency) || 1));
-    const progressIntervalMs = Math.max(250, config.hytale.downloadProgressIntervalMs);
-    const cachePath = options.cacheKey ? this.resolveDownloadCachePath(options.cacheKey) : null;
+  private normalizeRestoreSelection(paths: string[]): string[] {
+    if (paths.length === 0) {
+      throw new AppError(400, "Select at least one path to restore.");
+    }
+    if (paths.length > MAX_RESTORE_SELECTION_PATHS) {
+      throw new AppError(400, `At most ${MAX_RESTORE_SELECTION_PATHS} paths can be restored at once.`);
+    }
 
-    if (cachePath && (await pathExists(cachePath))) {
-      if (options.expectedSha256) {
-        try {
-          await this.validateSha256(cachePath, options.expectedSha256);
-        } catch {
-          this.pushTerminal("Cached download checksum mismatch; re-downloading artifact.", "system");
-          await rm(cachePath, { force: true });
-        }
+    const normalized = paths.map((raw) => {
+      const segments = String(raw).replace(/\\/g, "/").split("/").filter(Boolean);
+      if (
+        segments.length === 0 ||
+        segments.some((segment) => segment === "." || segment === ".." || segment.includes("\0"))
+      ) {
+        throw new AppError(400, `Invalid restore path "${raw}".`);
       }
+      return segments.join("/");
+    });
 
-      if (await pathExists(cachePath)) {
-        await rm(destinationPath, { force: true });
-        await copyFile(cachePath, destinationPath);
-        const cachedSize = (await stat(destinationPath)).size;
-        this.pushTerminal(`Using cached download (${this.formatBytes(cachedSize)}).`, "system");
-        return;
+    // A selected directory already covers anything selected inside it.
+    return [...new Set(normalized)]
+      .sort()
+      .filter((candidate, _index, all) => !all.some((other) => candidate.startsWith(`${other}/`)));
+  }
+
+  /**
+   * Describes where a backup's files live and how archive entry names map onto server-relative
+   * paths. Native ZIPs only carry universe data, so their entries are mapped under `universe/`.
+   */
+  private async openBackupSource(
+    reference: Awaited<ReturnType<HytaleManager["resolveBackupReference"]>>,
+  ): Promise<
+    | { kind: "directory"; path: string }
+    | {
+        kind: "zip";
+        archivePath: string;
+        sha256: string | null;
+        mapEntry: (names: string[]) => (entryName: string) => string | null;
+      }
+  > {
+    if (reference.kind === "manual") {
+      const metadata = await this.readManualBackupMetadata(reference.path);
+      if (metadata?.format !== "zip") {
+        return { kind: "directory", path: reference.path };
+      }
+
+      const archivePath = path.join(reference.path, sanitizeFilename(metadata.archive?.file ?? MANUAL_BACKUP_ARCHIVE_NAME));
+      if (!(await pathExists(archivePath))) {
+        throw new AppError(404, `Backup archive for ${reference.name} is missing.`);
       }
+      return {
+        kind: "zip",
+        archivePath,
+        sha256: metadata.archive?.sha256 ?? null,
+        mapEntry: () => (entryName) => (entryName === "metadata.json" ? null : entryName),
+      };
     }
 
-    await rm(destinationPath, { force: true });
+    return {
+      kind: "zip",
+      archivePath: reference.path,
+      sha256: null,
+      mapEntry: (names) => {
+        const root = this.findUniverseRootInArchive(names);
+        return (entryName) =>
+          root !== null && entryName.startsWith(root) && entryName.length > root.length
+            ? `universe/${entryName.slice(root.length)}`
+            : null;
+      },
+    };
+  }
 
-    const rangeProbe = downloadConcurrency > 1 ? await this.probeRangeSupport(url, timeoutMs) : null;
-    const minimumParallelBytes = 8 * 1024 * 1024;
-    const canUseParallel = !!rangeProbe && rangeProbe.totalBytes >= minimumParallelBytes;
+  // Mirrors resolveUniverseDirectoryFromBackupExtract for entry names, without extracting anything.
+  private findUniverseRootInArchive(names: string[]): string | null {
+    const looksLikeUniverse = (prefix: string) =>
+      names.some((name) => name.startsWith(`${prefix}worlds/`) || name === `${prefix}memories.json`);
 
-    if (canUseParallel) {
-      try {
-        await this.downloadFileWithParallelRanges(
-          url,
-          destinationPath,
-          rangeProbe.totalBytes,
-          downloadConcurrency,
-          timeoutMs,
-          progressIntervalMs,
-        );
-      } catch (error) {
-        this.pushTerminal("Parallel download failed, retrying with single stream...", "system");
-        await rm(destinationPath, { force: true });
-        await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
-      }
-    } else {
-      await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
+    if (names.some((name) => name.startsWith("universe/"))) {
+      return "universe/";
+    }
+    if (looksLikeUniverse("")) {
+      return "";
     }
 
-    if (cachePath) {
-      await this.saveDownloadToCache(destinationPath, cachePath);
+    const children = [...new Set(names.filter((name) => name.includes("/")).map((name) => `${name.split("/")[0]}/`))].sort();
+    for (const child of children) {
+      if (names.some((name) => name.startsWith(`${child}universe/`))) {
+        return `${child}universe/`;
+      }
+      if (looksLikeUniverse(child)) {
+        return child;
+      }
     }
+    return null;
   }
 
-  private async probeRangeSupport(url: string, timeoutMs: number): Promise<RangeProbeResult | null> {
-    const response = await this.fetchWithTimeout(
-      url,
-      {
-        method: "GET",
-        headers: {
-          Range: "bytes=0-0",
-        },
-      },
-      timeoutMs,
-    );
+  private encodeManualBackupId(name: string): string {
+    return `manual:${name}`;
+  }
 
-    try {
-      if (response.status !== 206) {
-        return null;
-      }
+  private encodeNativeBackupId(relativePath: string): string {
+    return `native:${relativePath.replace(/\\/g, "/")}`;
+  }
 
-      const contentRange = response.headers.get("content-range") ?? "";
-      const match = contentRange.match(/^bytes\s+\d+-\d+\/(\d+)$/i);
-      if (!match) {
-        return null;
-      }
+  private async resolveBackupReference(id: string): Promise<
+    | { kind: "manual"; name: string; path: string }
+    | { kind: "native"; name: string; path: string; archived: boolean }
+  > {
+    const value = id.trim();
+    if (!value) {
+      throw new AppError(400, "Backup id is required.");
+    }
 
-      const totalBytes = Number(match[1] ?? 0);
-      if (!Number.isFinite(totalBytes) || totalBytes <= 0) {
-        return null;
+    if (value.startsWith("manual:")) {
+      const name = sanitizeFilename(value.slice("manual:".length));
+      const backupPath = path.join(config.app.backupsDir, name);
+      if (!(await pathExists(backupPath))) {
+        throw new AppError(404, "Backup not found.");
       }
+      return { kind: "manual", name, path: backupPath };
+    }
 
-      return { totalBytes };
-    } finally {
-      if (response.body) {
-        await response.body.cancel().catch(() => {});
+    if (value.startsWith("native:")) {
+      const relativePath = value.slice("native:".length).trim();
+      const parsed = this.resolveNativeBackupPath(relativePath);
+      if (!(await pathExists(parsed.path))) {
+        throw new AppError(404, "Backup not found.");
       }
+      return parsed;
     }
-  }
 
-  private async downloadFileSingleStream(
-    url: string,
-    destinationPath: string,
-    timeoutMs: number,
-    progressIntervalMs: number,
-  ): Promise<void> {
-    const response = await this.fetchWithTimeout(url, { method: "GET" }, timeoutMs);
-    if (!response.ok) {
-      throw new AppError(response.status, `Download request failed: ${response.status} ${response.statusText}`);
+    const legacyManualName = sanitizeFilename(value);
+    const legacyManualPath = path.join(config.app.backupsDir, legacyManualName);
+    if (await pathExists(legacyManualPath)) {
+      return { kind: "manual", name: legacyManualName, path: legacyManualPath };
     }
 
-    if (!response.body) {
-      throw new AppError(500, "Download response body is empty.");
+    try {
+      const legacyNative = this.resolveNativeBackupPath(legacyManualName);
+      if (await pathExists(legacyNative.path)) {
+        return legacyNative;
+      }
+    } catch {
+      // Ignore and continue to other legacy id patterns.
     }
 
-    const writer = createWriteStream(destinationPath, { flags: "w" });
-    const reader = response.body.getReader();
-    const contentLengthHeader = response.headers.get("content-length");
-    const totalBytes = contentLengthHeader ? Number(contentLengthHeader) : 0;
-    let downloadedBytes = 0;
-    let lastLogMs = Date.now();
-
-    const logProgress = (force = false): void => {
-      const now = Date.now();
-      if (!force && now - lastLogMs < progressIntervalMs) {
-        return;
+    try {
+      const legacyArchived = this.resolveNativeBackupPath(`archive/${legacyManualName}`);
+      if (await pathExists(legacyArchived.path)) {
+        return legacyArchived;
       }
+    } catch {
+      // Ignore and finish with a not found error below.
+    }
 
-      if (totalBytes > 0) {
-        const percent = ((downloadedBytes / totalBytes) * 100).toFixed(1);
-        this.pushTerminal(
-          `Download progress: ${this.formatBytes(downloadedBytes)} / ${this.formatBytes(totalBytes)} (${percent}%)`,
-          "system",
-        );
-      } else {
-        this.pushTerminal(`Download progress: ${this.formatBytes(downloadedBytes)}`, "system");
-      }
-      lastLogMs = now;
-    };
+    throw new AppError(404, "Backup not found.");
+  }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
-        }
+  private resolveNativeBackupPath(relativePath: string): { kind: "native"; name: string; path: string; archived: boolean } {
+    const normalized = relativePath.replace(/\\/g, "/").replace(/^\/+/, "");
+    if (!normalized || normalized.includes("..")) {
+      throw new AppError(400, "Invalid backup id.");
+    }
 
-        if (!value) {
-          continue;
-        }
+    const segments = normalized
+      .split("/")
+      .map((segment) => segment.trim())
+      .filter(Boolean);
 
-        await this.writeToStream(writer, value);
-        downloadedBytes += value.length;
-        logProgress(false);
-      }
+    if (segments.length === 0 || segments.length > 2) {
+      throw new AppError(400, "Invalid backup id.");
+    }
 
-      await this.endStream(writer);
-      logProgress(true);
-    } catch (error) {
-      writer.destroy();
-      await rm(destinationPath, { force: true });
-      throw error;
-    } finally {
-      reader.releaseLock();
+    const isArchived = segments[0] === "archive";
+    if (segments.length === 2 && !isArchived) {
+      throw new AppError(400, "Invalid backup id.");
     }
-  }
 
-  private async downloadFileWithParallelRanges(
-    url: string,
-    destinationPath: string,
-    totalBytes: number,
-    configuredConcurrency: number,
-    timeoutMs: number,
-    progressIntervalMs: number,
-  ): Promise<void> {
-    const minimumPartBytes = 4 * 1024 * 1024;
-    const recommendedWorkers = Math.max(1, Math.floor(totalBytes / minimumPartBytes));
-    const workerCount = Math.max(2, Math.min(configuredConcurrency, recommendedWorkers));
-    if (workerCount < 2) {
-      await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
-      return;
+    if (segments.some((segment) => !/^[a-zA-Z0-9._-]+$/.test(segment))) {
+      throw new AppError(400, "Invalid backup id.");
     }
 
-    this.pushTerminal(`Starting parallel download with ${workerCount} workers...`, "system");
-
-    const partDir = `${destinationPath}.parts-${randomUUID()}`;
-    await mkdir(partDir, { recursive: true });
-
-    const partSize = Math.ceil(totalBytes / workerCount);
-    const parts: { partPath: string; start: number; end: number }[] = [];
-    for (let index = 0; index < workerCount; index += 1) {
-      const start = index * partSize;
-      if (start >= totalBytes) {
-        break;
-      }
-
-      const end = Math.min(totalBytes - 1, start + partSize - 1);
-      parts.push({
-        partPath: path.join(partDir, `${index}.part`),
-        start,
-        end,
-      });
+    const name = segments[segments.length - 1];
+    if (!name.toLowerCase().endsWith(".zip")) {
+      throw new AppError(400, "Only ZIP backups are supported for native backups.");
     }
 
-    let downloadedBytes = 0;
-    let lastLogMs = Date.now();
-    const logProgress = (force = false): void => {
-      const now = Date.now();
-      if (!force && now - lastLogMs < progressIntervalMs) {
-        return;
-      }
+    const targetPath = path.resolve(config.hytale.backupsDir, ...segments);
+    const relative = path.relative(config.hytale.backupsDir, targetPath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new AppError(400, "Invalid backup id.");
+    }
 
-      const percent = ((downloadedBytes / totalBytes) * 100).toFixed(1);
-      this.pushTerminal(
-        `Download progress: ${this.formatBytes(downloadedBytes)} / ${this.formatBytes(totalBytes)} (${percent}%)`,
-        "system",
-      );
-      lastLogMs = now;
+    return {
+      kind: "native",
+      name,
+      path: targetPath,
+      archived: isArchived,
     };
+  }
 
-    try {
-      await Promise.all(
-        parts.map(async (part) => {
-          const response = await this.fetchWithTimeout(
-            url,
-            {
-              method: "GET",
-              headers: {
-                Range: `bytes=${part.start}-${part.end}`,
-              },
-            },
-            timeoutMs,
-          );
-          if (response.status !== 206) {
-            throw new AppError(response.status, `Range download failed with status ${response.status}.`);
-          }
+  private async resolveUniverseDirectoryFromBackupExtract(restoreWorkspace: string): Promise<string | null> {
+    const directUniverse = path.join(restoreWorkspace, "universe");
+    if (await this.isDirectory(directUniverse)) {
+      return directUniverse;
+    }
 
-          if (!response.body) {
-            throw new AppError(500, "Range download response body is empty.");
-          }
+    if (await this.looksLikeUniverseDirectory(restoreWorkspace)) {
+      return restoreWorkspace;
+    }
 
-          const writer = createWriteStream(part.partPath, { flags: "w" });
-          const reader = response.body.getReader();
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) {
-                break;
-              }
+    const entries = await readdir(restoreWorkspace, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
 
-              if (!value) {
-                continue;
-              }
+      const childPath = path.join(restoreWorkspace, entry.name);
+      const childUniverse = path.join(childPath, "universe");
+      if (await this.isDirectory(childUniverse)) {
+        return childUniverse;
+      }
 
-              await this.writeToStream(writer, value);
-              downloadedBytes += value.length;
-              logProgress(false);
-            }
+      if (await this.looksLikeUniverseDirectory(childPath)) {
+        return childPath;
+      }
+    }
 
-            await this.endStream(writer);
-          } catch (error) {
-            writer.destroy();
-            await rm(part.partPath, { force: true });
-            throw error;
-          } finally {
-            reader.releaseLock();
-          }
-        }),
-      );
+    return null;
+  }
 
-      const orderedPaths = parts
-        .sort((a, b) => a.start - b.start)
-        .map((part) => part.partPath);
-      await this.mergeFiles(orderedPaths, destinationPath);
-      logProgress(true);
-    } finally {
-      await rm(partDir, { recursive: true, force: true });
+  private async looksLikeUniverseDirectory(directoryPath: string): Promise<boolean> {
+    if (!(await this.isDirectory(directoryPath))) {
+      return false;
+    }
+
+    const entries = await readdir(directoryPath, { withFileTypes: true });
+    if (entries.some((entry) => entry.isDirectory() && entry.name === "worlds")) {
+      return true;
     }
+
+    return entries.some((entry) => entry.isFile() && entry.name === "memories.json");
   }
 
-  private async mergeFiles(sourcePaths: string[], destinationPath: string): Promise<void> {
-    const writer = createWriteStream(destinationPath, { flags: "w" });
+  private async isDirectory(directoryPath: string): Promise<boolean> {
+    if (!(await pathExists(directoryPath))) {
+      return false;
+    }
 
     try {
-      for (const sourcePath of sourcePaths) {
-        const reader = Bun.file(sourcePath).stream().getReader();
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-              break;
-            }
-            if (value) {
-              await this.writeToStream(writer, value);
-            }
-          }
-        } finally {
-          reader.releaseLock();
-        }
-      }
-
-      await this.endStream(writer);
-    } catch (error) {
-      writer.destroy();
-      await rm(destinationPath, { force: true });
-      throw error;
+      const details = await stat(directoryPath);
+      return details.isDirectory();
+    } catch {
+      return false;
     }
   }
 
-  private async writeToStream(writer: WriteStream, chunk: Uint8Array): Promise<void> {
-    await new Promise<void>((resolve, reject) => {
-      writer.write(chunk, (error) => {
-        if (error) {
-          reject(error);
-          return;
-        }
-        resolve();
-      });
-    });
-  }
+  private async installFromDownloader(
+    patchline: string,
+    manifest: VersionManifest,
+    actor: string | null,
+  ): Promise<Pick<InstalledServerMetadata, "files" | "archive">> {
+    const installWorkspace = path.join(config.app.dataDir, `install-${timestampId()}`);
+    const patchlineValue = patchline.trim();
+    this.pushTerminal(
+      `Native downloader mode enabled (patchline: ${patchlineValue}, version: ${manifest.version})`,
+      "system",
+    );
 
-  private async endStream(writer: WriteStream): Promise<void> {
-    await new Promise<void>((resolve, reject) => {
-      writer.end((error?: Error | null) => {
-        if (error) {
-          reject(error);
-          return;
-        }
-        resolve();
-      });
-    });
+    const { layout, cacheKey } = await this.downloadServerLayout(patchlineValue, manifest, installWorkspace);
+    const files = await this.installServerLayout(layout, installWorkspace, patchlineValue, manifest.version, actor);
+    await rm(installWorkspace, { recursive: true, force: true });
+    return {
+      files,
+      archive: { cacheKey, sha256: manifest.sha256, downloadPath: manifest.download_url },
+    };
   }
 
-  private resolveDownloadCachePath(cacheKey: string): string {
-    const hash = createHash("sha256").update(cacheKey).digest("hex");
-    return path.join(config.hytale.downloadCacheDir, `${hash}.bin`);
-  }
+  /** Downloads (or reuses the cached) server archive, checks it and extracts it into `installWorkspace`. */
+  private async downloadServerLayout(
+    patchlineValue: string,
+    manifest: VersionManifest,
+    installWorkspace: string,
+  ): Promise<{ layout: { serverDir: string; assetsPath: string }; cacheKey: string }> {
+    await mkdir(installWorkspace, { recursive: true });
+    const archiveSignedUrl = await this.withDownloaderToken((accessToken) =>
+      this.getSignedAssetUrl(accessToken, manifest.download_url),
+    );
 
-  private async saveDownloadToCache(sourcePath: string, cachePath: string): Promise<void> {
-    const tempPath = `${cachePath}.${randomUUID()}.tmp`;
-    await copyFile(sourcePath, tempPath);
-    await rename(tempPath, cachePath).catch(async () => {
-      await rm(tempPath, { force: true });
-      await copyFile(sourcePath, cachePath);
+    const archiveName = sanitizeFilename(`${patchlineValue}-${manifest.version}.zip`);
+    const archivePath = path.join(installWorkspace, archiveName);
+    const cacheKey = `hytale-${patchlineValue}-${manifest.version}`;
+    await this.downloadFileWithProgress(archiveSignedUrl, archivePath, config.hytale.downloaderDownloadTimeoutMs, {
+      cacheKey,
+      cacheLabel: {
+        group: `hytale-${patchlineValue}`,
+        name: `Hytale server (${patchlineValue})`,
+        version: manifest.version,
+      },
+      expectedSha256: manifest.sha256,
     });
+
+    this.pushTerminal("Validating checksum...", "system");
+    await this.validateSha256(archivePath, manifest.sha256);
+    this.pushTerminal("Checksum valid.", "system");
+
+    await this.extractZipFile(archivePath, installWorkspace);
+    await rm(archivePath, { force: true });
+
+    const layout = await this.locateDownloadedLayout(installWorkspace);
+    if (!layout) {
+      throw new AppError(500, "Downloaded archive extracted, but server layout was not found.");
+    }
+    return { layout, cacheKey };
   }
 
-  private async validateSha256(filePath: string, expectedHash: string): Promise<void> {
-    const normalizedExpected = expectedHash.trim().toLowerCase();
-    if (!/^[a-f0-9]{64}$/.test(normalizedExpected)) {
-      throw new AppError(400, "Manifest checksum is not a valid SHA256 hex string.");
+  /**
+   * Copies an extracted server layout over the install and returns the hashes of the installed
+   * files. The outgoing install is kept and snapshotted first, and the extracted files are then
+   * moved into the versions directory.
+   */
+  private async installServerLayout(
+    layout: { serverDir: string; assetsPath: string },
+    extractRoot: string,
+    patchline: string,
+    version: string,
+    actor: string | null,
+  ): Promise<InstalledServerFile[]> {
+    const entries = [...new Set([...(await readdir(layout.serverDir)), "Assets.zip"])];
+    if (await this.isInstalled()) {
+      const outgoing = await this.retainInstalledServerVersionSafely(entries);
+      await this.takeServerInstallSnapshot("server.install", `Install ${patchline} ${version}`, actor, outgoing, entries);
     }
+    await cp(layout.serverDir, config.hytale.serverDir, { recursive: true, force: true });
+    await copyFile(layout.assetsPath, path.join(config.hytale.serverDir, "Assets.zip"));
+    await mkdir(path.join(config.hytale.serverDir, "mods"), { recursive: true });
+    await mkdir(path.join(config.hytale.serverDir, "logs"), { recursive: true });
 
-    const hash = createHash("sha256");
-    const reader = Bun.file(filePath).stream().getReader();
+    this.pushTerminal("Recording file hashes...", "system");
+    const toArchiveEntry = (target: string) => path.relative(extractRoot, target).split(path.sep).join("/");
+    const files = await this.hashInstalledServerFiles(entries, (relativePath) =>
+      toArchiveEntry(
+        relativePath === "Assets.zip" ? layout.assetsPath : path.join(layout.serverDir, ...relativePath.split("/")),
+      ),
+    );
 
+    // The extracted download is no longer needed, so it becomes the retained copy of this version.
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
-        }
-        if (value) {
-          hash.update(value);
-        }
+      const assetsInLayout = path.join(layout.serverDir, "Assets.zip");
+      if (path.resolve(layout.assetsPath) !== path.resolve(assetsInLayout)) {
+        await rename(layout.assetsPath, assetsInLayout);
       }
-    } finally {
-      reader.releaseLock();
+      const retained = await retainServerVersion(this.getServerVersionsDir(), {
+        patchline,
+        version,
+        installedAt: new Date().toISOString(),
+        sourceDir: layout.serverDir,
+        entries,
+        move: true,
+      });
+      this.pushTerminal(`Kept ${retained.patchline} ${retained.version} in ${SERVER_VERSIONS_DIR_NAME}/ for rollback.`, "system");
+    } catch (error) {
+      this.pushTerminal(`Could not keep a copy of ${version} for rollback: ${(error as Error).message}`, "system");
     }
+    return files;
+  }
 
-    const actualHash = hash.digest("hex").toLowerCase();
-    if (actualHash !== normalizedExpected) {
-      throw new AppError(
-        400,
-        `Checksum mismatch for ${path.basename(filePath)} (expected ${normalizedExpected}, got ${actualHash}).`,
-      );
+  /** Hashes every file under the given top-level entries of the server directory. */
+  private async hashInstalledServerFiles(
+    entries: string[],
+    toArchiveEntry: ((relativePath: string) => string) | null,
+  ): Promise<InstalledServerFile[]> {
+    const files: InstalledServerFile[] = [];
+    for (const entry of entries) {
+      const target = path.join(config.hytale.serverDir, entry);
+      const details = await stat(target).catch(() => null);
+      const relativePaths = !details
+        ? []
+        : details.isDirectory()
+          ? (await this.listFilesRecursively(target)).map((relativePath) => `${entry}/${relativePath}`)
+          : [entry];
+
+      for (const relativePath of relativePaths) {
+        const filePath = path.join(config.hytale.serverDir, ...relativePath.split("/"));
+        files.push({
+          path: relativePath,
+          size: (await stat(filePath)).size,
+          sha256: await this.computeFileSha256(filePath),
+          archiveEntry: toArchiveEntry ? toArchiveEntry(relativePath) : null,
+        });
+      }
     }
+    return files.sort((left, right) => left.path.localeCompare(right.path));
   }
 
-  private async extractZipFile(
-    archivePath: string,
-    destinationDir: string,
-    timeoutMs = config.hytale.downloaderExtractTimeoutMs,
-  ): Promise<void> {
-    const unzipBin = Bun.which("unzip");
-    const tarBin = Bun.which("tar");
-
-    let command: string[];
-    if (unzipBin) {
-      command = [unzipBin, "-oq", archivePath, "-d", destinationDir];
-    } else if (tarBin) {
-      command = [tarBin, "-xf", archivePath, "-C", destinationDir];
-      this.pushTerminal(`System unzip not found; falling back to ${tarBin} for ZIP extraction.`, "system");
-    } else {
-      throw new AppError(500, "ZIP extraction requires either unzip or tar on the host system.");
+  private async listFilesRecursively(directory: string, prefix = ""): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFilesRecursively(path.join(directory, entry.name), relative)));
+      } else if (entry.isFile()) {
+        files.push(relative);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Compares the install against the file hashes recorded when it was installed. Extra files are
+   * only looked for inside directories that came with the install, since the server directory
+   * also holds worlds, mods, logs and config.
+   */
+  async verifyInstallation(): Promise<InstallVerification> {
+    const metadata = await this.readInstalledServerMetadata();
+    if (!metadata || !(await this.isInstalled())) {
+      throw new AppError(409, "Server is not installed.");
+    }
+    if (!metadata.files || metadata.files.length === 0) {
+      throw new AppError(
+        409,
+        `No file hashes were recorded for ${metadata.version}; reinstall or switch versions to record them.`,
+      );
+    }
+    if (this.installVerificationRunning || this.status === "installing") {
+      throw new AppError(409, "An installation check or install is already running.");
+    }
+
+    this.installVerificationRunning = true;
+    try {
+      this.pushTerminal(`Verifying ${metadata.files.length} installed server file(s)...`, "system");
+      const modified: string[] = [];
+      const missing: string[] = [];
+      for (const file of metadata.files) {
+        const filePath = path.join(config.hytale.serverDir, ...file.path.split("/"));
+        const details = await stat(filePath).catch(() => null);
+        if (!details?.isFile()) {
+          missing.push(file.path);
+        } else if (details.size !== file.size || (await this.computeFileSha256(filePath)) !== file.sha256) {
+          modified.push(file.path);
+        }
+      }
+
+      const recorded = new Set(metadata.files.map((file) => file.path));
+      const ownedDirectories = new Set(
+        metadata.files.filter((file) => file.path.includes("/")).map((file) => file.path.split("/")[0]),
+      );
+      const extra: string[] = [];
+      for (const directory of ownedDirectories) {
+        const directoryPath = path.join(config.hytale.serverDir, directory);
+        if (!(await this.isDirectory(directoryPath))) {
+          continue;
+        }
+        for (const relativePath of await this.listFilesRecursively(directoryPath, directory)) {
+          if (!recorded.has(relativePath)) {
+            extra.push(relativePath);
+          }
+        }
+      }
+
+      const verification: InstallVerification = {
+        checkedAt: new Date().toISOString(),
+        patchline: metadata.patchline,
+        version: metadata.version,
+        checked: metadata.files.length,
+        modified,
+        missing,
+        extra: extra.sort(),
+        ok: modified.length === 0 && missing.length === 0,
+      };
+      this.pushTerminal(
+        verification.ok
+          ? `Installation ${metadata.version} verified: ${metadata.files.length} file(s) match${extra.length > 0 ? `, ${extra.length} extra file(s)` : ""}.`
+          : `Installation ${metadata.version} has ${modified.length} modified and ${missing.length} missing file(s)${extra.length > 0 ? `, ${extra.length} extra` : ""}: ${this.describeBackupPaths([...modified, ...missing])}.`,
+        "system",
+      );
+      return verification;
+    } finally {
+      this.installVerificationRunning = false;
+    }
+  }
+
+  /**
+   * Restores modified and missing install files. Each file comes from the kept copy of the
+   * installed version when that copy still matches, otherwise it is extracted from the install
+   * archive in the download cache (downloaded again if the cache no longer has it). Extra files
+   * are reported by the check but left alone.
+   */
+  async repairInstallation(actor: string | null = null): Promise<InstallRepairResult> {
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before repairing the installation.");
+    }
+
+    const before = await this.verifyInstallation();
+    const metadata = await this.readInstalledServerMetadata();
+    if (before.ok || !metadata?.files) {
+      return { repaired: [], unrepaired: [], verification: before };
+    }
+
+    const expected = new Map(metadata.files.map((file) => [file.path, file]));
+    const remaining = new Set([...before.modified, ...before.missing]);
+    const repaired: string[] = [];
+    const workspace = path.join(config.app.dataDir, `repair-${timestampId()}`);
+
+    this.status = "installing";
+    this.emitState();
+    try {
+      await this.takeSafetySnapshot(
+        "server.repair",
+        `Repair ${remaining.size} file(s) of ${metadata.patchline} ${metadata.version}`,
+        actor,
+        before.modified,
+      );
+
+      const restore = async (source: string, file: InstalledServerFile): Promise<boolean> => {
+        if (!(await pathExists(source)) || (await this.computeFileSha256(source)) !== file.sha256) {
+          return false;
+        }
+        const destination = path.join(config.hytale.serverDir, ...file.path.split("/"));
+        await mkdir(path.dirname(destination), { recursive: true });
+        await rm(destination, { force: true });
+        await copyFile(source, destination);
+        remaining.delete(file.path);
+        repaired.push(file.path);
+        return true;
+      };
+
+      const keptDir = serverVersionFilesDir(
+        this.getServerVersionsDir(),
+        serverVersionId(metadata.patchline, metadata.version),
+      );
+      for (const relativePath of [...remaining]) {
+        const file = expected.get(relativePath);
+        if (file) {
+          await restore(path.join(keptDir, ...relativePath.split("/")), file);
+        }
+      }
+
+      const fromArchive = [...remaining]
+        .map((relativePath) => expected.get(relativePath))
+        .filter((file): file is InstalledServerFile => !!file?.archiveEntry);
+      if (fromArchive.length > 0 && metadata.archive) {
+        const archivePath = await this.resolveInstallArchiveForRepair(metadata.archive, workspace);
+        if (archivePath) {
+          const wanted = new Map(fromArchive.map((file) => [file.archiveEntry as string, file.path]));
+          this.pushTerminal(`Extracting ${wanted.size} file(s) from the install archive...`, "system");
+          await extractZipArchive(archivePath, path.join(workspace, "files"), {
+            select: (entryName) => wanted.get(entryName) ?? null,
+          });
+          for (const file of fromArchive) {
+            await restore(path.join(workspace, "files", ...file.path.split("/")), file);
+          }
+        }
+      }
+    } catch (error) {
+      this.pushTerminal(`Repair failed: ${(error as Error).message}`, "system");
+      throw error;
+    } finally {
+      await rm(workspace, { recursive: true, force: true });
+      this.status = "stopped";
+      this.emitState();
+    }
+
+    const unrepaired = [...remaining].sort();
+    this.pushTerminal(
+      unrepaired.length === 0
+        ? `Repaired ${repaired.length} file(s).`
+        : `Repaired ${repaired.length} file(s); no intact copy was found for ${this.describeBackupPaths(unrepaired)}.`,
+      "system",
+    );
+    return { repaired: repaired.sort(), unrepaired, verification: await this.verifyInstallation() };
+  }
+
+  /**
+   * Finds the install archive in the download cache, or downloads it into the cache again. Returns
+   * null when neither works, for example on a host that cannot reach the download servers.
+   */
+  private async resolveInstallArchiveForRepair(
+    archive: InstalledServerArchive,
+    workspace: string,
+  ): Promise<string | null> {
+    const cachePath = this.resolveDownloadCachePath(archive.cacheKey);
+    if (await pathExists(cachePath)) {
+      try {
+        if (archive.sha256) {
+          await this.validateSha256(cachePath, archive.sha256);
+        }
+        await touchDownloadCacheEntry(config.hytale.downloadCacheDir, archive.cacheKey).catch(() => undefined);
+        return cachePath;
+      } catch {
+        this.pushTerminal("Cached install archive is corrupt; discarding it.", "system");
+        await rm(cachePath, { force: true });
+      }
+    }
+
+    if (!archive.downloadPath) {
+      return null;
+    }
+    const downloadPath = archive.downloadPath;
+    try {
+      const signedUrl = await this.withDownloaderToken((accessToken) =>
+        this.getSignedAssetUrl(accessToken, downloadPath),
+      );
+      const archivePath = path.join(workspace, "archive.zip");
+      await mkdir(workspace, { recursive: true });
+      await this.downloadFileWithProgress(signedUrl, archivePath, config.hytale.downloaderDownloadTimeoutMs, {
+        cacheKey: archive.cacheKey,
+        expectedSha256: archive.sha256,
+      });
+      if (archive.sha256) {
+        await this.validateSha256(archivePath, archive.sha256);
+      }
+      return archivePath;
+    } catch (error) {
+      this.pushTerminal(`Could not download the install archive again: ${(error as Error).message}`, "system");
+      return null;
+    }
+  }
+
+  /**
+   * Copies the outgoing install into the versions directory before an update replaces it, unless
+   * that version is already kept. Installs made before versions were kept are covered this way.
+   * The copy holds the outgoing install's own top-level files from its recorded hashes; installs
+   * recorded before hashes existed fall back to `fallbackEntries`.
+   */
+  private async retainInstalledServerVersionSafely(fallbackEntries: string[]): Promise<ServerVersion | null> {
+    const metadata = await this.readInstalledServerMetadata();
+    if (!metadata) {
+      return null;
+    }
+    const entries = metadata.files?.length
+      ? [...new Set(metadata.files.map((file) => file.path.split("/")[0]!))]
+      : fallbackEntries;
+
+    const id = serverVersionId(metadata.patchline, metadata.version);
+    const kept = (await readServerVersions(this.getServerVersionsDir())).find((entry) => entry.id === id);
+    if (kept) {
+      return kept;
+    }
+
+    try {
+      const retained = await retainServerVersion(this.getServerVersionsDir(), {
+        patchline: metadata.patchline,
+        version: metadata.version,
+        installedAt: metadata.installedAt,
+        sourceDir: config.hytale.serverDir,
+        entries,
+      });
+      this.pushTerminal(`Kept the installed version ${metadata.version} for rollback.`, "system");
+      return retained;
+    } catch (error) {
+      this.pushTerminal(`Could not keep the installed version ${metadata.version}: ${(error as Error).message}`, "system");
+      return null;
+    }
+  }
+
+  /**
+   * Deletes kept versions beyond the configured number, newest install first. The active and the
+   * pinned version are always kept, as are versions a safety snapshot restores from. Failures are
+   * logged so they never fail the install that ran it.
+   */
+  private async pruneServerVersionsSafely(): Promise<void> {
+    const { serverVersionsKeep } = await this.getServerRuntimeSettings();
+    try {
+      const versions = await this.listServerVersions();
+      const protectedIds = new Set(versions.filter((entry) => entry.active || entry.pinned).map((entry) => entry.id));
+      for (const snapshot of await readSafetySnapshots(this.getSafetySnapshotsDir())) {
+        if (snapshot.serverVersion) {
+          protectedIds.add(snapshot.serverVersion.id);
+        }
+      }
+      for (const version of selectServerVersionsToPrune(versions, serverVersionsKeep, protectedIds)) {
+        await deleteServerVersionFiles(this.getServerVersionsDir(), version.id);
+        this.pushTerminal(
+          `Deleted kept server version ${version.patchline} ${version.version} (keeping the newest ${serverVersionsKeep}).`,
+          "system",
+        );
+      }
+    } catch (error) {
+      this.pushTerminal(`Pruning kept server versions failed: ${(error as Error).message}`, "system");
+    }
+  }
+
+  async listServerVersions(): Promise<ServerVersionEntry[]> {
+    const installed = await this.readInstalledServerMetadata();
+    const pinnedVersion = this.getPinnedServerVersion();
+    return (await readServerVersions(this.getServerVersionsDir())).map((version) => ({
+      ...version,
+      active: installed !== null && installed.patchline === version.patchline && installed.version === version.version,
+      pinned: pinnedVersion === version.version,
+    }));
+  }
+
+  /**
+   * Pins the server to `version` so installs and scheduled updates skip newer releases, or clears
+   * the pin with null. Only the installed version or a kept one can be pinned.
+   */
+  async setServerVersionPin(version: string | null): Promise<ServerVersionEntry[]> {
+    if (version === null) {
+      deleteAppSetting(SERVER_PINNED_VERSION_SETTING);
+      this.pushTerminal("Server version unpinned; updates will be installed again.", "system");
+    } else {
+      const value = version.trim();
+      const installed = await this.readInstalledServerMetadata();
+      const known = (await readServerVersions(this.getServerVersionsDir())).some((entry) => entry.version === value);
+      if (!value || (!known && installed?.version !== value)) {
+        throw new AppError(404, `Version ${value || "(empty)"} is neither installed nor kept.`);
+      }
+      setAppSetting(SERVER_PINNED_VERSION_SETTING, value);
+      this.pushTerminal(`Server version pinned to ${value}; updates are skipped until it is unpinned.`, "system");
+    }
+
+    this.emitState();
+    await this.emitServerVersions();
+    return await this.listServerVersions();
+  }
+
+  /**
+   * Switches the server files to a kept version. Files that only belong to the version being
+   * replaced are removed, and the target version is pinned so the next scheduled update does not
+   * reinstall the release that was just rolled back.
+   */
+  async rollbackServerVersion(id: string, actor: string | null = null): Promise<ServerVersionEntry[]> {
+    if (this.status !== "stopped") {
+      throw new AppError(409, "Server must be stopped before switching versions.");
+    }
+
+    const versions = await readServerVersions(this.getServerVersionsDir());
+    const target = versions.find((entry) => entry.id === id);
+    if (!target) {
+      throw new AppError(404, "Server version not found.");
+    }
+
+    const sourceDir = serverVersionFilesDir(this.getServerVersionsDir(), target.id);
+    for (const entry of target.entries) {
+      if (!(await pathExists(path.join(sourceDir, entry)))) {
+        throw new AppError(500, `Kept version ${target.version} is missing ${entry}.`);
+      }
+    }
+
+    const current = await this.readInstalledServerMetadata();
+
+    this.status = "installing";
+    this.emitState();
+
+    try {
+      const outgoing = current ? await this.retainInstalledServerVersionSafely(target.entries) : null;
+      const stale = (outgoing?.entries ?? []).filter((entry) => !target.entries.includes(entry));
+      await this.takeServerInstallSnapshot(
+        "server.rollback",
+        `Switch server to ${target.patchline} ${target.version}`,
+        actor,
+        outgoing,
+        target.entries,
+      );
+
+      this.pushTerminal(
+        `Switching server from ${current?.version ?? "an unknown version"} to ${target.patchline} ${target.version}...`,
+        "system",
+      );
+      for (const entry of stale) {
+        await rm(path.join(config.hytale.serverDir, entry), { recursive: true, force: true });
+      }
+      for (const entry of target.entries) {
+        const destination = path.join(config.hytale.serverDir, entry);
+        await rm(destination, { recursive: true, force: true });
+        await cp(path.join(sourceDir, entry), destination, { recursive: true, force: true });
+      }
+
+      await this.writeInstalledServerMetadata({
+        patchline: target.patchline,
+        version: target.version,
+        installedAt: new Date().toISOString(),
+        files: await this.hashInstalledServerFiles(target.entries, null),
+        archive: null,
+      });
+      setAppSetting(SERVER_PINNED_VERSION_SETTING, target.version);
+      this.pushTerminal(`Server switched to ${target.version} and pinned to it.`, "system");
+    } catch (error) {
+      this.pushTerminal(`Switching server version failed: ${(error as Error).message}`, "system");
+      throw error;
+    } finally {
+      this.status = "stopped";
+      this.emitState();
+    }
+
+    await this.pruneServerVersionsSafely();
+    await this.emitServerVersions();
+    return await this.listServerVersions();
+  }
+
+  async deleteServerVersion(id: string): Promise<ServerVersionEntry[]> {
+    const target = (await this.listServerVersions()).find((entry) => entry.id === id);
+    if (!target) {
+      throw new AppError(404, "Server version not found.");
+    }
+    if (target.active) {
+      throw new AppError(409, "The installed version cannot be deleted.");
+    }
+
+    await deleteServerVersionFiles(this.getServerVersionsDir(), id);
+    if (target.pinned && !(await this.listServerVersions()).some((entry) => entry.version === target.version)) {
+      deleteAppSetting(SERVER_PINNED_VERSION_SETTING);
+    }
+    this.pushTerminal(`Deleted kept server version ${target.patchline} ${target.version}.`, "system");
+
+    this.emitState();
+    await this.emitServerVersions();
+    return await this.listServerVersions();
+  }
+
+  private getPinnedServerVersion(): string | null {
+    return (getAppSetting(SERVER_PINNED_VERSION_SETTING) ?? "").trim() || null;
+  }
+
+  private getServerVersionsDir(): string {
+    return path.join(config.app.dataDir, SERVER_VERSIONS_DIR_NAME);
+  }
+
+  private async emitServerVersions(): Promise<void> {
+    this.broadcast("server.versions", { versions: await this.listServerVersions() });
+  }
+
+  private async getInstallAvailability(): Promise<InstallAvailability> {
+    const patchline = this.getSelectedPatchline();
+    const installed = await this.isInstalled();
+    const metadata = installed ? await this.readInstalledServerMetadata() : null;
+    const installedVersion = metadata?.version ?? null;
+    const installedPatchline = metadata?.patchline ?? null;
+
+    const pinnedVersion = this.getPinnedServerVersion();
+
+    const latest = await this.tryResolveLatestReleaseManifestNonInteractive();
+    const latestVersion = latest?.manifest.version ?? null;
+
+    return {
+      patchline,
+      installedPatchline,
+      installedVersion,
+      latestVersion,
+      pinnedVersion,
+      updateAvailable:
+        !installed ||
+        (pinnedVersion === null &&
+          latestVersion !== null &&
+          (installedVersion !== latestVersion || installedPatchline !== patchline)),
+    };
+  }
+
+  private getSelectedPatchline(): string {
+    return (
+      (getAppSetting(SERVER_PATCHLINE_SETTING) ?? "").trim() || config.hytale.defaultPatchline.trim() || "release"
+    );
+  }
+
+  /**
+   * Latest version on each known patchline, side by side, as last seen by the background update
+   * check. Nothing is fetched here, so snapshots stay cheap; unchecked patchlines show no version.
+   */
+  async listPatchlines(): Promise<PatchlineStatus[]> {
+    const selected = this.getSelectedPatchline();
+    const installed = (await this.isInstalled()) ? await this.readInstalledServerMetadata() : null;
+    return this.listPatchlineNames(selected, installed?.patchline ?? null).map((patchline) => ({
+      patchline,
+      latestVersion: this.latestVersionCache.get(patchline)?.manifest?.version ?? null,
+      selected: patchline === selected,
+      installed: installed?.patchline === patchline,
+    }));
+  }
+
+  /** Refreshes the cached latest version of every known patchline. Lookups never prompt for downloader login. */
+  private async refreshPatchlineVersions(): Promise<void> {
+    const installed = (await this.isInstalled()) ? await this.readInstalledServerMetadata() : null;
+    const names = this.listPatchlineNames(this.getSelectedPatchline(), installed?.patchline ?? null);
+    await Promise.all(names.map((patchline) => this.tryResolveLatestReleaseManifestNonInteractive(patchline)));
+  }
+
+  private listPatchlineNames(selected: string, installedPatchline: string | null): string[] {
+    return [
+      ...new Set([
+        ...KNOWN_PATCHLINES,
+        config.hytale.defaultPatchline.trim() || "release",
+        selected,
+        ...(installedPatchline ? [installedPatchline] : []),
+      ]),
+    ];
+  }
+
+  /**
+   * Selects the patchline that installs and updates follow. A backup is taken first because the
+   * next install on the new patchline may upgrade the world in a way the old one cannot read.
+   * Nothing is installed here; the next install or update switches the server files.
+   */
+  async setPatchline(
+    input: { patchline: string; confirm: boolean },
+    actor: string | null = null,
+  ): Promise<{ patchline: string; backup: BackupEntry | null }> {
+    const patchline = input.patchline.trim();
+    if (!PATCHLINE_NAME_PATTERN.test(patchline)) {
+      throw new AppError(400, "Patchline must be 1-40 lowercase letters, digits, '.', '_' or '-'.");
+    }
+
+    const current = this.getSelectedPatchline();
+    if (patchline === current) {
+      return { patchline, backup: null };
+    }
+    if (!input.confirm) {
+      throw new AppError(400, `Switching from ${current} to ${patchline} must be confirmed.`);
+    }
+    if (this.status === "installing") {
+      throw new AppError(409, "Cannot switch patchline while an install is running.");
+    }
+
+    // Patchlines outside the known list are checked against the downloader so typos are not saved.
+    if (!KNOWN_PATCHLINES.includes(patchline)) {
+      try {
+        await this.resolveLatestReleaseManifest(true, patchline);
+      } catch (error) {
+        throw new AppError(400, `Patchline ${patchline} is not available: ${(error as Error).message}`);
+      }
+    }
+
+    let backup: BackupEntry | null = null;
+    if (await this.isInstalled()) {
+      backup = await this.createBackup(`Before switching patchline from ${current} to ${patchline}`);
+    }
+
+    setAppSetting(SERVER_PATCHLINE_SETTING, patchline);
+    this.pushTerminal(
+      `Patchline switched from ${current} to ${patchline}${actor ? ` by ${actor}` : ""}${backup ? ` (backup ${backup.name})` : ""}. Install or update to apply it.`,
+      "system",
+    );
+    if (this.getPinnedServerVersion()) {
+      this.pushTerminal("The server version is pinned; unpin it before updating to the new patchline.", "system");
+    }
+
+    await this.emitBackupState();
+    return { patchline, backup };
+  }
+
+  private getStagingDir(): string {
+    return path.join(config.app.dataDir, STAGING_DIR_NAME);
+  }
+
+  async getStagingState(): Promise<StagingState> {
+    return {
+      status: this.stagingStatus,
+      install: this.stagingStatus === "creating" ? null : await readStagingInstall(this.getStagingDir()),
+    };
+  }
+
+  private async emitStagingState(): Promise<void> {
+    this.broadcast("staging.state", { staging: await this.getStagingState() });
+  }
+
+  /**
+   * Installs the latest build of `patchline` into a staging directory next to the live server,
+   * with a copy of the live world, mods and configs, so a pre-release can be tried before the live
+   * server switches. An existing staging install is replaced. The live server is not touched; when
+   * it is running, the world is copied through the consistent-backup flush if that is enabled.
+   */
+  async createStaging(
+    input: { patchline: string; port?: number | null },
+    actor: string | null = null,
+  ): Promise<StagingState> {
+    const patchline = input.patchline.trim();
+    if (!PATCHLINE_NAME_PATTERN.test(patchline)) {
+      throw new AppError(400, "Patchline must be 1-40 lowercase letters, digits, '.', '_' or '-'.");
+    }
+    if (this.stagingStatus !== "stopped") {
+      throw new AppError(409, "Stop the staging server before creating it again.");
+    }
+    if (!(await this.isInstalled())) {
+      throw new AppError(409, "Install the server first; staging starts from a copy of its world.");
+    }
+
+    const { bindPort } = await this.getServerRuntimeSettings();
+    const port = input.port ?? defaultStagingPort(bindPort);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new AppError(400, "Staging port must be between 1 and 65535.");
+    }
+    if (port === bindPort) {
+      throw new AppError(400, `The staging server needs a different port than the live server (${bindPort}).`);
+    }
+
+    this.stagingStatus = "creating";
+    await this.emitStagingState();
+
+    const stagingDir = this.getStagingDir();
+    const installWorkspace = path.join(config.app.dataDir, `staging-install-${timestampId()}`);
+    let replaced = false;
+    try {
+      const latest = await this.resolveLatestReleaseManifest(true, patchline);
+      this.pushTerminal(`Creating a staging server on ${patchline} ${latest.manifest.version}...`, "system");
+      const { layout } = await this.downloadServerLayout(patchline, latest.manifest, installWorkspace);
+
+      // The extracted download is only needed here, so it is moved into place rather than copied.
+      const assetsInLayout = path.resolve(layout.assetsPath) === path.resolve(layout.serverDir, "Assets.zip");
+      replaced = true;
+      await rm(stagingDir, { recursive: true, force: true });
+      await rename(layout.serverDir, stagingDir);
+      if (!assetsInLayout) {
+        await rename(layout.assetsPath, path.join(stagingDir, "Assets.zip"));
+      }
+      const worldSource = await this.copyWorldToStaging(stagingDir);
+      await mkdir(path.join(stagingDir, "mods"), { recursive: true });
+      await mkdir(path.join(stagingDir, "logs"), { recursive: true });
+
+      await writeStagingInstall(stagingDir, {
+        patchline,
+        version: latest.manifest.version,
+        port,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+        worldSource,
+      });
+      this.pushTerminal(
+        `Staging server ready: ${patchline} ${latest.manifest.version} on port ${port} with a copy of the live world${worldSource === "live" ? " (copied while the server was running without a save flush; it may be mid-save)" : ""}.`,
+        "system",
+      );
+    } catch (error) {
+      if (replaced) {
+        await rm(stagingDir, { recursive: true, force: true });
+      }
+      this.pushTerminal(`Creating the staging server failed: ${(error as Error).message}`, "system");
+      throw error;
+    } finally {
+      await rm(installWorkspace, { recursive: true, force: true });
+      this.stagingStatus = "stopped";
+      await this.emitStagingState();
+    }
+
+    return await this.getStagingState();
+  }
+
+  private async copyWorldToStaging(stagingDir: string): Promise<StagingWorldSource> {
+    const settings = await this.getServerRuntimeSettings();
+    const flushed = this.process !== null && this.status === "running" && settings.consistentBackupEnabled;
+    const sourceDir = flushed ? await this.takeConsistentSnapshot(settings) : config.hytale.serverDir;
+    try {
+      for (const item of MANUAL_BACKUP_ITEMS) {
+        const source = path.join(sourceDir, item);
+        if (await pathExists(source)) {
+          await cp(source, path.join(stagingDir, item), { recursive: true, force: true });
+        }
+      }
+    } finally {
+      if (flushed) {
+        await rm(sourceDir, { recursive: true, force: true });
+      }
     }
 
-    this.pushTerminal(`Extracting archive with ${command[0]}...`, "system");
+    if (flushed) {
+      return "consistent";
+    }
+    return this.status === "stopped" ? "offline" : "live";
+  }
+
+  async startStaging(): Promise<StagingState> {
+    if (this.stagingStatus !== "stopped") {
+      throw new AppError(409, "The staging server is already running.");
+    }
+    const stagingDir = this.getStagingDir();
+    const install = await readStagingInstall(stagingDir);
+    if (!install) {
+      throw new AppError(404, "There is no staging server; create one first.");
+    }
+
+    const javaCommand = await this.getManagedJavaCommandIfInstalled();
+    if (!javaCommand) {
+      throw new AppError(409, "Install Adoptium JDK 25 before starting the staging server.");
+    }
+    const runtimeSettings = await this.getServerRuntimeSettings();
+    if (install.port === runtimeSettings.bindPort) {
+      throw new AppError(409, `The live server now uses port ${install.port}; create the staging server again on another port.`);
+    }
+
+    // Native backups stay off: the staging world is a throwaway copy.
+    const command = [
+      javaCommand,
+      ...this.buildStartArguments(runtimeSettings, { bindPort: install.port, autoBackupEnabled: false }),
+    ];
+    this.pushTerminal(`Starting staging server: ${command.join(" ")}`, "system");
+
     const proc = Bun.spawn(command, {
-      cwd: destinationDir,
+      cwd: stagingDir,
+      stdin: "pipe",
       stdout: "pipe",
       stderr: "pipe",
       env: process.env,
     });
+    this.stagingProcess = proc;
+    this.stagingStatus = "running";
+    void this.consumeStagingStream(proc.stdout);
+    void this.consumeStagingStream(proc.stderr);
+    proc.exited.then((code) => {
+      this.stagingProcess = null;
+      this.stagingStatus = "stopped";
+      this.pushTerminal(`Staging server exited with code ${code}`, "system");
+      void this.emitStagingState();
+    });
 
-    this.consumeStream(proc.stdout, "stdout");
-    this.consumeStream(proc.stderr, "stderr");
+    await this.emitStagingState();
+    return await this.getStagingState();
+  }
 
-    const exited = await Promise.race([
-      proc.exited.then((code) => ({ timeout: false as const, code })),
-      sleep(timeoutMs).then(() => ({ timeout: true as const, code: -1 })),
+  async stopStaging(): Promise<StagingState> {
+    const proc = this.stagingProcess;
+    if (!proc || this.stagingStatus !== "running") {
+      return await this.getStagingState();
+    }
+
+    this.stagingStatus = "stopping";
+    await this.emitStagingState();
+    proc.stdin.write(`${config.hytale.stopCommand.trim()}\n`);
+    this.pushTerminal(`Stop signal sent to the staging server: ${config.hytale.stopCommand}`, "system");
+
+    const graceful = await Promise.race([
+      proc.exited.then(() => true),
+      sleep(config.hytale.shutdownTimeoutMs).then(() => false),
     ]);
+    if (!graceful) {
+      this.pushTerminal("Staging server did not stop in time, sending SIGKILL", "system");
+      proc.kill("SIGKILL");
+      await proc.exited;
+    }
+    return await this.getStagingState();
+  }
 
-    if (exited.timeout) {
-      proc.kill();
+  async deleteStaging(actor: string | null = null): Promise<StagingState> {
+    if (this.stagingStatus !== "stopped") {
+      throw new AppError(409, "Stop the staging server before deleting it.");
+    }
+
+    await rm(this.getStagingDir(), { recursive: true, force: true });
+    this.pushTerminal(`Staging server deleted${actor ? ` by ${actor}` : ""}.`, "system");
+    await this.emitStagingState();
+    return await this.getStagingState();
+  }
+
+  /** Staging output goes to the same terminal, prefixed, without feeding player or readiness tracking. */
+  private async consumeStagingStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let pending = "";
+    for await (const chunk of stream) {
+      pending += decoder.decode(chunk, { stream: true });
+      const lines = pending.split(/(?:\r\n|\n|\r)/);
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.length > 0) {
+          this.pushTerminal(`[staging] ${line}`, "system");
+        }
+      }
+    }
+    if (pending.length > 0) {
+      this.pushTerminal(`[staging] ${pending}`, "system");
+    }
+  }
+
+  private async resolveLatestReleaseManifest(
+    forceRefresh: boolean,
+    patchline = this.getSelectedPatchline(),
+  ): Promise<{ patchline: string; manifest: VersionManifest }> {
+    const now = Date.now();
+    const cached = this.latestVersionCache.get(patchline);
+
+    if (!forceRefresh && cached?.manifest && now - cached.fetchedAt < 60_000) {
+      return {
+        patchline,
+        manifest: cached.manifest,
+      };
+    }
+
+    const manifest = await this.withDownloaderToken((accessToken) =>
+      this.fetchManifestWithAccessToken(accessToken, patchline, true),
+    );
+    this.latestVersionCache.set(patchline, { manifest, fetchedAt: now });
+
+    return { patchline, manifest };
+  }
+
+  private async tryResolveLatestReleaseManifestNonInteractive(
+    patchline = this.getSelectedPatchline(),
+  ): Promise<{ patchline: string; manifest: VersionManifest } | null> {
+    const now = Date.now();
+    const cached = this.latestVersionCache.get(patchline);
+
+    if (cached && now - cached.fetchedAt < 60_000) {
+      return cached.manifest ? { patchline, manifest: cached.manifest } : null;
+    }
+
+    const accessToken = await this.getDownloaderAccessTokenNonInteractive();
+    if (!accessToken) {
+      return null;
+    }
+
+    try {
+      const manifest = await this.fetchManifestWithAccessToken(accessToken, patchline, false);
+      this.latestVersionCache.set(patchline, { manifest, fetchedAt: now });
+      return { patchline, manifest };
+    } catch {
+      this.latestVersionCache.set(patchline, { manifest: null, fetchedAt: now });
+      return null;
+    }
+  }
+
+  /** The stored downloader access token, refreshed if needed, or null when only a device login would help. */
+  private async getDownloaderAccessTokenNonInteractive(): Promise<string | null> {
+    const stored = await this.readDownloaderCredentials();
+    if (!stored || stored.environment !== config.hytale.downloaderEnvironment || !stored.access_token.trim()) {
+      return null;
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (stored.expires_at > nowSeconds + 60) {
+      return stored.access_token;
+    }
+    if (!stored.refresh_token.trim()) {
+      return null;
+    }
+    return (await this.refreshDownloaderCredentials(stored.refresh_token))?.access_token ?? null;
+  }
+
+  private async fetchManifestWithAccessToken(
+    accessToken: string,
+    patchline: string,
+    logToTerminal: boolean,
+  ): Promise<VersionManifest> {
+    const manifestPath = `version/${patchline}.json`;
+    if (logToTerminal) {
+      this.pushTerminal(`Fetching manifest: ${manifestPath}`, "system");
+    }
+
+    const manifestSignedUrl = await this.getSignedAssetUrl(accessToken, manifestPath);
+    const manifestResponse = await this.fetchWithTimeout(
+      manifestSignedUrl,
+      { method: "GET", headers: { accept: "application/json" } },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+    if (!manifestResponse.ok) {
       throw new AppError(
-        504,
-        `Archive extraction timed out after ${Math.round(timeoutMs / 1000)} seconds.`,
+        manifestResponse.status,
+        `Manifest request failed: ${manifestResponse.status} ${manifestResponse.statusText}`,
       );
     }
 
-    if (exited.code !== 0) {
-      throw new AppError(500, `Archive extraction failed with exit code ${exited.code}.`);
+    const manifest = (await manifestResponse.json()) as VersionManifest;
+    if (!manifest.version || !manifest.download_url || !manifest.sha256) {
+      throw new AppError(500, "Malformed manifest response from account-data endpoint.");
+    }
+
+    if (logToTerminal) {
+      this.pushTerminal(`Resolved patchline ${patchline} to version ${manifest.version}`, "system");
+    }
+
+    return manifest;
+  }
+
+  private installMetadataPath(): string {
+    return path.join(config.hytale.serverDir, ".hytale-manager-install.json");
+  }
+
+  private async readInstalledServerMetadata(): Promise<InstalledServerMetadata | null> {
+    const metadataPath = this.installMetadataPath();
+    if (!(await pathExists(metadataPath))) {
+      return null;
+    }
+
+    try {
+      const raw = await readFile(metadataPath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<InstalledServerMetadata>;
+      if (
+        typeof parsed.patchline !== "string" ||
+        parsed.patchline.trim().length === 0 ||
+        typeof parsed.version !== "string" ||
+        parsed.version.trim().length === 0 ||
+        typeof parsed.installedAt !== "string" ||
+        parsed.installedAt.trim().length === 0
+      ) {
+        return null;
+      }
+
+      return {
+        patchline: parsed.patchline,
+        version: parsed.version,
+        installedAt: parsed.installedAt,
+        files: Array.isArray(parsed.files) ? parsed.files : undefined,
+        archive: parsed.archive ?? null,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeInstalledServerMetadata(metadata: InstalledServerMetadata): Promise<void> {
+    await writeFile(this.installMetadataPath(), JSON.stringify(metadata, null, 2), "utf8");
+  }
+
+  private async getLifecyclePrerequisites(): Promise<{ serverInstalled: boolean; javaCommand: string | null }> {
+    return {
+      serverInstalled: await this.isInstalled(),
+      javaCommand: await this.getManagedJavaCommandIfInstalled(),
+    };
+  }
+
+  private assertLifecycleReadiness(
+    prerequisites: { serverInstalled: boolean; javaCommand: string | null },
+    action: "start" | "stop" | "restart",
+  ): void {
+    const missing: string[] = [];
+    if (!prerequisites.serverInstalled) {
+      missing.push("server files");
+    }
+    if (!prerequisites.javaCommand) {
+      missing.push("Adoptium JDK 25");
+    }
+
+    if (missing.length === 0) {
+      return;
+    }
+
+    throw new AppError(
+      409,
+      `Cannot ${action}: ${missing.join(" and ")} not installed. Install latest server and Adoptium JDK 25 first.`,
+    );
+  }
+
+  private async getManagedJavaCommandIfInstalled(): Promise<string | null> {
+    const command = path.join(config.hytale.managedJavaDir, "bin", process.platform === "win32" ? "java.exe" : "java");
+    if (!(await pathExists(command))) {
+      return null;
+    }
+
+    return command;
+  }
+
+  private async installAdoptiumJdk25(): Promise<JavaRuntimeInstallResult> {
+    if (this.javaInstallPromise) {
+      this.pushTerminal("Java installation already in progress; waiting for it to finish...", "system");
+      return await this.javaInstallPromise;
+    }
+
+    const run = (async (): Promise<JavaRuntimeInstallResult> => {
+      const platform = this.resolveAdoptiumPlatform();
+      const workspace = path.join(config.app.dataDir, `java-install-${timestampId()}`);
+      await rm(workspace, { recursive: true, force: true });
+      await mkdir(workspace, { recursive: true });
+
+      try {
+        this.pushTerminal(
+          `Resolving Adoptium Temurin JDK ${config.hytale.adoptiumFeatureVersion} for ${platform.os}/${platform.arch}...`,
+          "system",
+        );
+
+        const release = await this.fetchAdoptiumRelease(platform.os, platform.arch);
+        this.pushTerminal(`Selected release ${release.releaseName} (${release.packageName})`, "system");
+
+        const archivePath = path.join(workspace, sanitizeFilename(release.packageName));
+        await this.downloadFileWithProgress(release.downloadUrl, archivePath, config.hytale.javaDownloadTimeoutMs, {
+          cacheKey: `adoptium-${release.releaseName}-${release.packageName}`,
+          cacheLabel: {
+            group: `adoptium-${platform.os}-${platform.arch}`,
+            name: `Adoptium JDK (${platform.os} ${platform.arch})`,
+            version: release.releaseName,
+          },
+          expectedSha256: release.checksum,
+        });
+
+        if (release.checksum) {
+          this.pushTerminal("Validating Java archive checksum...", "system");
+          await this.validateSha256(archivePath, release.checksum);
+          this.pushTerminal("Java archive checksum valid.", "system");
+        } else {
+          this.pushTerminal("Java archive checksum not provided by API; skipping validation.", "system");
+        }
+
+        const extractDir = path.join(workspace, "extract");
+        await mkdir(extractDir, { recursive: true });
+        await this.extractArchiveFile(archivePath, extractDir, config.hytale.javaExtractTimeoutMs);
+
+        const extractedJavaHome = await this.findJavaHome(extractDir);
+        if (!extractedJavaHome) {
+          throw new AppError(500, "Could not locate extracted Java home directory.");
+        }
+
+        await rm(config.hytale.managedJavaDir, { recursive: true, force: true });
+        await mkdir(path.dirname(config.hytale.managedJavaDir), { recursive: true });
+
+        await rename(extractedJavaHome, config.hytale.managedJavaDir).catch(async () => {
+          await cp(extractedJavaHome, config.hytale.managedJavaDir, { recursive: true, force: true });
+        });
+
+        const javaCommand = await this.getManagedJavaCommandIfInstalled();
+        if (!javaCommand) {
+          throw new AppError(500, "Java installation completed, but java binary was not found.");
+        }
+
+        if (process.platform !== "win32") {
+          await chmod(javaCommand, 0o755).catch(() => {});
+        }
+
+        const metadata = {
+          installedAt: new Date().toISOString(),
+          releaseName: release.releaseName,
+          packageName: release.packageName,
+          downloadUrl: release.downloadUrl,
+          os: platform.os,
+          arch: platform.arch,
+          featureVersion: config.hytale.adoptiumFeatureVersion,
+        };
+
+        await writeFile(
+          path.join(config.hytale.managedJavaDir, ".metadata.json"),
+          JSON.stringify(metadata, null, 2),
+          "utf8",
+        );
+
+        this.pushTerminal(`Installed Java runtime at ${config.hytale.managedJavaDir}`, "system");
+        return {
+          javaCommand,
+          javaHome: config.hytale.managedJavaDir,
+          releaseName: release.releaseName,
+        };
+      } finally {
+        await rm(workspace, { recursive: true, force: true });
+      }
+    })();
+
+    this.javaInstallPromise = run;
+    try {
+      return await run;
+    } finally {
+      this.javaInstallPromise = null;
+    }
+  }
+
+  private resolveAdoptiumPlatform(): { os: "linux" | "mac" | "windows"; arch: "x64" | "x86" | "aarch64" } {
+    const osMap: Record<string, "linux" | "mac" | "windows"> = {
+      linux: "linux",
+      darwin: "mac",
+      win32: "windows",
+    };
+
+    const archMap: Record<string, "x64" | "x86" | "aarch64"> = {
+      x64: "x64",
+      ia32: "x86",
+      arm64: "aarch64",
+    };
+
+    const os = osMap[process.platform];
+    const arch = archMap[process.arch];
+
+    if (!os) {
+      throw new AppError(400, `Unsupported platform for Adoptium download: ${process.platform}`);
+    }
+
+    if (!arch) {
+      throw new AppError(400, `Unsupported architecture for Adoptium download: ${process.arch}`);
+    }
+
+    return { os, arch };
+  }
+
+  private async fetchAdoptiumRelease(
+    os: "linux" | "mac" | "windows",
+    arch: "x64" | "x86" | "aarch64",
+  ): Promise<{ releaseName: string; packageName: string; downloadUrl: string; checksum: string | null }> {
+    const endpoint = new URL(
+      `https://${config.hytale.adoptiumApiHost}/v3/assets/latest/${config.hytale.adoptiumFeatureVersion}/hotspot`,
+    );
+    endpoint.searchParams.set("architecture", arch);
+    endpoint.searchParams.set("os", os);
+    endpoint.searchParams.set("image_type", "jdk");
+    endpoint.searchParams.set("vendor", "eclipse");
+
+    const response = await this.fetchWithTimeout(
+      endpoint.toString(),
+      {
+        method: "GET",
+        headers: {
+          accept: "application/json",
+        },
+      },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+
+    if (!response.ok) {
+      throw new AppError(response.status, `Adoptium API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const assets = (await response.json()) as AdoptiumAsset[];
+    const selected = assets.find((asset) => {
+      const pkg = asset.binary?.package;
+      return typeof pkg?.name === "string" && typeof pkg.link === "string";
+    });
+
+    if (!selected || !selected.binary?.package?.name || !selected.binary.package.link) {
+      throw new AppError(
+        404,
+        `No Adoptium JDK package found for ${os}/${arch} and feature version ${config.hytale.adoptiumFeatureVersion}.`,
+      );
+    }
+
+    return {
+      releaseName: selected.release_name?.trim() || `jdk-${config.hytale.adoptiumFeatureVersion}`,
+      packageName: selected.binary.package.name,
+      downloadUrl: selected.binary.package.link,
+      checksum: typeof selected.binary.package.checksum === "string" ? selected.binary.package.checksum : null,
+    };
+  }
+
+  private async extractArchiveFile(archivePath: string, destinationDir: string, timeoutMs: number): Promise<void> {
+    const lower = archivePath.toLowerCase();
+
+    if (lower.endsWith(".zip")) {
+      await this.extractZipFile(archivePath, destinationDir, timeoutMs);
+      return;
+    }
+
+    if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz")) {
+      await this.extractTarGzFile(archivePath, destinationDir, timeoutMs);
+      return;
+    }
+
+    throw new AppError(400, `Unsupported archive type for Java runtime: ${path.basename(archivePath)}`);
+  }
+
+  private async extractTarGzFile(archivePath: string, destinationDir: string, timeoutMs: number): Promise<void> {
+    const tarBin = Bun.which("tar");
+    if (!tarBin) {
+      throw new AppError(500, "System tar command is required for .tar.gz extraction.");
+    }
+
+    this.pushTerminal(`Extracting archive with ${tarBin}...`, "system");
+    const proc = Bun.spawn([tarBin, "-xzf", archivePath, "-C", destinationDir], {
+      cwd: destinationDir,
+      stdout: "pipe",
+      stderr: "pipe",
+      env: process.env,
+    });
+
+    this.consumeStream(proc.stdout, "stdout");
+    this.consumeStream(proc.stderr, "stderr");
+
+    const exited = await Promise.race([
+      proc.exited.then((code) => ({ timeout: false as const, code })),
+      sleep(timeoutMs).then(() => ({ timeout: true as const, code: -1 })),
+    ]);
+
+    if (exited.timeout) {
+      proc.kill();
+      throw new AppError(504, `Archive extraction timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+
+    if (exited.code !== 0) {
+      throw new AppError(500, `Archive extraction failed with exit code ${exited.code}.`);
+    }
+
+    this.pushTerminal("Archive extraction complete.", "system");
+  }
+
+  private async findJavaHome(root: string): Promise<string | null> {
+    const javaName = process.platform === "win32" ? "java.exe" : "java";
+
+    const queue = [root];
+    while (queue.length > 0) {
+      const current = queue.shift();
+      if (!current) {
+        break;
+      }
+
+      const directJava = path.join(current, "bin", javaName);
+      if (await pathExists(directJava)) {
+        return current;
+      }
+
+      const macHome = path.join(current, "Contents", "Home");
+      if (await pathExists(path.join(macHome, "bin", javaName))) {
+        return macHome;
+      }
+
+      const entries = await readdir(current, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue;
+        }
+
+        queue.push(path.join(current, entry.name));
+      }
+    }
+
+    return null;
+  }
+
+  private async withDownloaderToken<T>(operation: (accessToken: string) => Promise<T>): Promise<T> {
+    let credentials = await this.getActiveDownloaderCredentials();
+
+    try {
+      return await operation(credentials.access_token);
+    } catch (error) {
+      if (!(error instanceof AppError) || (error.status !== 401 && error.status !== 403)) {
+        throw error;
+      }
+    }
+
+    this.pushTerminal("Stored downloader token was rejected; re-authentication is required.", "system");
+    credentials = await this.requestNewDeviceCredentials();
+    return await operation(credentials.access_token);
+  }
+
+  private async getActiveDownloaderCredentials(): Promise<DownloaderCredentials> {
+    const now = Math.floor(Date.now() / 1000);
+    const stored = await this.readDownloaderCredentials();
+
+    if (stored && stored.environment === config.hytale.downloaderEnvironment) {
+      if (stored.expires_at > now + 60 && stored.access_token.trim()) {
+        return stored;
+      }
+
+      if (stored.refresh_token.trim()) {
+        const refreshed = await this.refreshDownloaderCredentials(stored.refresh_token);
+        if (refreshed) {
+          return refreshed;
+        }
+      }
+    } else if (stored && stored.environment !== config.hytale.downloaderEnvironment) {
+      this.pushTerminal(
+        `Stored credentials environment mismatch (${stored.environment} != ${config.hytale.downloaderEnvironment}); re-authenticating.`,
+        "system",
+      );
+    }
+
+    return await this.requestNewDeviceCredentials();
+  }
+
+  private async readDownloaderCredentials(): Promise<DownloaderCredentials | null> {
+    const credentialsPath = config.hytale.downloaderCredentialsPath;
+    if (!(await pathExists(credentialsPath))) {
+      return null;
+    }
+
+    try {
+      const raw = await readFile(credentialsPath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<DownloaderCredentials>;
+      if (
+        typeof parsed.access_token !== "string" ||
+        typeof parsed.refresh_token !== "string" ||
+        typeof parsed.expires_at !== "number" ||
+        typeof parsed.environment !== "string"
+      ) {
+        this.pushTerminal("Stored downloader credentials are malformed; re-authentication required.", "system");
+        return null;
+      }
+
+      return {
+        access_token: parsed.access_token,
+        refresh_token: parsed.refresh_token,
+        expires_at: parsed.expires_at,
+        environment: parsed.environment,
+      };
+    } catch {
+      this.pushTerminal("Stored downloader credentials could not be read; re-authentication required.", "system");
+      return null;
+    }
+  }
+
+  private async writeDownloaderCredentials(credentials: DownloaderCredentials): Promise<void> {
+    const serialized = JSON.stringify(credentials, null, 2);
+    await writeFile(config.hytale.downloaderCredentialsPath, serialized, { encoding: "utf8", mode: 0o600 });
+  }
+
+  private async requestNewDeviceCredentials(): Promise<DownloaderCredentials> {
+    this.pushTerminal("Requesting downloader authorization device code...", "system");
+
+    const body = new URLSearchParams({
+      client_id: config.hytale.downloaderClientId,
+      scope: config.hytale.downloaderScope,
+    });
+
+    const deviceResponse = await this.fetchWithTimeout(
+      `https://${config.hytale.oauthHost}/oauth2/device/auth`,
+      {
+        method: "POST",
+        headers: {
+          accept: "application/json",
+          "content-type": "application/x-www-form-urlencoded",
+        },
+        body,
+      },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+
+    const devicePayload = (await deviceResponse.json()) as OAuthDeviceCodeResponse & OAuthTokenResponse;
+    if (!deviceResponse.ok || devicePayload.error || !devicePayload.device_code || !devicePayload.user_code) {
+      const details = devicePayload.error_description ?? devicePayload.error ?? `${deviceResponse.status} ${deviceResponse.statusText}`;
+      throw new AppError(401, `Failed to initialize device authorization: ${details}`);
+    }
+
+    const verificationUrl = devicePayload.verification_uri_complete ?? devicePayload.verification_uri;
+    if (!verificationUrl) {
+      throw new AppError(500, "Device authorization response did not include a verification URL.");
+    }
+
+    this.pushTerminal("Please visit the following URL to authenticate:", "system");
+    this.pushTerminal(verificationUrl, "system");
+    this.pushTerminal(`Authorization code: ${devicePayload.user_code}`, "system");
+
+    let openedByServer = false;
+    if (config.hytale.oauthAutoOpenBrowser) {
+      openedByServer = this.tryOpenExternalUrl(verificationUrl);
+      if (openedByServer) {
+        this.pushTerminal("Opened authorization URL in your default browser.", "system");
+      } else {
+        this.pushTerminal("Could not open browser automatically. Open the URL manually.", "system");
+      }
+    }
+
+    this.broadcast("auth.device", {
+      url: verificationUrl,
+      code: devicePayload.user_code,
+      openedByServer,
+    });
+
+    const pollDeadline = Date.now() + Math.min(
+      devicePayload.expires_in * 1000,
+      config.hytale.oauthDevicePollTimeoutMs,
+    );
+    let intervalSeconds = Math.max(1, devicePayload.interval ?? 5);
+    let lastPendingLog = 0;
+
+    while (Date.now() < pollDeadline) {
+      await sleep(intervalSeconds * 1000);
+      const tokenPayload = await this.requestToken({
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        device_code: devicePayload.device_code,
+      });
+
+      if (tokenPayload.access_token) {
+        const credentials = this.tokenPayloadToCredentials(tokenPayload, "");
+        await this.writeDownloaderCredentials(credentials);
+        this.pushTerminal("Downloader authorization completed.", "system");
+        return credentials;
+      }
+
+      if (tokenPayload.error === "authorization_pending") {
+        if (Date.now() - lastPendingLog >= 15_000) {
+          this.pushTerminal("Waiting for authorization confirmation...", "system");
+          lastPendingLog = Date.now();
+        }
+        continue;
+      }
+
+      if (tokenPayload.error === "slow_down") {
+        intervalSeconds += 5;
+        continue;
+      }
+
+      const details = tokenPayload.error_description ?? tokenPayload.error ?? "unknown error";
+      throw new AppError(401, `Authorization failed: ${details}`);
+    }
+
+    throw new AppError(504, "Authorization timed out before completion.");
+  }
+
+  private async refreshDownloaderCredentials(refreshToken: string): Promise<DownloaderCredentials | null> {
+    this.pushTerminal("Refreshing downloader credentials...", "system");
+
+    const tokenPayload = await this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+
+    if (!tokenPayload.access_token) {
+      const details = tokenPayload.error_description ?? tokenPayload.error ?? "unknown error";
+      this.pushTerminal(`Credential refresh failed: ${details}`, "system");
+      return null;
+    }
+
+    const credentials = this.tokenPayloadToCredentials(tokenPayload, refreshToken);
+    await this.writeDownloaderCredentials(credentials);
+    this.pushTerminal("Downloader credentials refreshed.", "system");
+    return credentials;
+  }
+
+  private async requestToken(fields: Record<string, string>): Promise<OAuthTokenResponse> {
+    const body = new URLSearchParams({
+      ...fields,
+      client_id: config.hytale.downloaderClientId,
+    });
+
+    const response = await this.fetchWithTimeout(
+      `https://${config.hytale.oauthHost}/oauth2/token`,
+      {
+        method: "POST",
+        headers: {
+          accept: "application/json",
+          "content-type": "application/x-www-form-urlencoded",
+        },
+        body,
+      },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+
+    let payload: OAuthTokenResponse = {};
+    try {
+      payload = (await response.json()) as OAuthTokenResponse;
+    } catch {
+      if (!response.ok) {
+        throw new AppError(response.status, `Token endpoint returned ${response.status} ${response.statusText}.`);
+      }
+    }
+
+    if (!response.ok && !payload.error) {
+      throw new AppError(response.status, `Token request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return payload;
+  }
+
+  private tryOpenExternalUrl(url: string): boolean {
+    const commandCandidates: string[][] = [];
+
+    if (process.platform === "darwin") {
+      commandCandidates.push(["open", url]);
+    } else if (process.platform === "win32") {
+      commandCandidates.push(["cmd", "/c", "start", "", url]);
+    } else {
+      commandCandidates.push(["xdg-open", url]);
+    }
+
+    for (const command of commandCandidates) {
+      const executable = command[0];
+      if (executable !== "cmd" && !Bun.which(executable)) {
+        continue;
+      }
+
+      try {
+        Bun.spawn(command, {
+          stdin: "ignore",
+          stdout: "ignore",
+          stderr: "ignore",
+          env: process.env,
+        });
+        return true;
+      } catch {
+        continue;
+      }
+    }
+
+    return false;
+  }
+
+  private tokenPayloadToCredentials(payload: OAuthTokenResponse, fallbackRefreshToken: string): DownloaderCredentials {
+    const accessToken = payload.access_token?.trim();
+    if (!accessToken) {
+      throw new AppError(500, "OAuth token response did not include access_token.");
+    }
+
+    const refreshToken = payload.refresh_token?.trim() || fallbackRefreshToken;
+    const expiresIn = Math.max(60, Number(payload.expires_in ?? 3600));
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_at: Math.floor(Date.now() / 1000) + expiresIn,
+      environment: config.hytale.downloaderEnvironment,
+    };
+  }
+
+  private async getSignedAssetUrl(accessToken: string, assetPath: string): Promise<string> {
+    const normalizedPath = assetPath.replace(/^\/+/, "");
+    const endpoint = `https://${config.hytale.accountDataHost}/game-assets/${normalizedPath}`;
+
+    const response = await this.fetchWithTimeout(
+      endpoint,
+      {
+        method: "GET",
+        headers: {
+          accept: "application/json",
+          authorization: `Bearer ${accessToken}`,
+        },
+      },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+
+    if (!response.ok) {
+      const details = (await response.text()).trim();
+      const suffix = details || `${response.status} ${response.statusText}`;
+      throw new AppError(response.status, `Failed to resolve signed URL for ${normalizedPath}: ${suffix}`);
+    }
+
+    const payload = (await response.json()) as { url?: string };
+    if (typeof payload.url !== "string" || payload.url.length === 0) {
+      throw new AppError(500, `Signed URL response for ${normalizedPath} is missing url.`);
+    }
+
+    return payload.url;
+  }
+
+  private async downloadFileWithProgress(
+    url: string,
+    destinationPath: string,
+    timeoutMs: number,
+    options: DownloadRequestOptions = {},
+  ): Promise<void> {
+    const downloadConcurrency = Math.max(1, Math.min(16, Math.trunc(config.hytale.downloadConcurrency) || 1));
+    const progressIntervalMs = Math.max(250, config.hytale.downloadProgressIntervalMs);
+    const cachePath = options.cacheKey ? this.resolveDownloadCachePath(options.cacheKey) : null;
+
+    if (cachePath && (await pathExists(cachePath))) {
+      if (options.expectedSha256) {
+        try {
+          await this.validateSha256(cachePath, options.expectedSha256);
+        } catch {
+          this.pushTerminal("Cached download checksum mismatch; re-downloading artifact.", "system");
+          await rm(cachePath, { force: true });
+        }
+      }
+
+      if (await pathExists(cachePath)) {
+        await rm(destinationPath, { force: true });
+        await copyFile(cachePath, destinationPath);
+        await touchDownloadCacheEntry(config.hytale.downloadCacheDir, options.cacheKey as string).catch(() => undefined);
+        const cachedSize = (await stat(destinationPath)).size;
+        this.pushTerminal(`Using cached download (${this.formatBytes(cachedSize)}).`, "system");
+        return;
+      }
+    }
+
+    await rm(destinationPath, { force: true });
+
+    const rangeProbe = downloadConcurrency > 1 ? await this.probeRangeSupport(url, timeoutMs) : null;
+    const minimumParallelBytes = 8 * 1024 * 1024;
+    const canUseParallel = !!rangeProbe && rangeProbe.totalBytes >= minimumParallelBytes;
+
+    if (canUseParallel) {
+      // Cached artifacts keep their range chunks between attempts, so an interrupted download resumes.
+      const resume = options.cacheKey ? { key: options.cacheKey, label: options.cacheLabel ?? null } : null;
+      try {
+        await this.downloadFileWithParallelRanges(
+          url,
+          destinationPath,
+          rangeProbe.totalBytes,
+          downloadConcurrency,
+          timeoutMs,
+          progressIntervalMs,
+          resume,
+        );
+      } catch (error) {
+        const partial = resume
+          ? await readPartialDownload(config.hytale.downloadCacheDir, downloadCacheId(resume.key))
+          : null;
+        const received = partial ? await measurePartialDownload(config.hytale.downloadCacheDir, partial) : 0;
+        if (received > 0) {
+          throw new AppError(
+            502,
+            `Download interrupted after ${this.formatBytes(received)} of ${this.formatBytes(rangeProbe.totalBytes)}; the next attempt resumes from there. ${(error as Error).message}`,
+          );
+        }
+        this.pushTerminal("Parallel download failed, retrying with single stream...", "system");
+        await rm(destinationPath, { force: true });
+        await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
+      }
+    } else {
+      await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
+    }
+
+    if (cachePath && options.cacheKey) {
+      await this.saveDownloadToCache(destinationPath, cachePath);
+      await recordDownloadCacheEntry(config.hytale.downloadCacheDir, options.cacheKey, options.cacheLabel ?? null);
+      await this.pruneDownloadCacheSafely();
+    }
+  }
+
+  private async probeRangeSupport(url: string, timeoutMs: number): Promise<RangeProbeResult | null> {
+    const response = await this.fetchWithTimeout(
+      url,
+      {
+        method: "GET",
+        headers: {
+          Range: "bytes=0-0",
+        },
+      },
+      timeoutMs,
+    );
+
+    try {
+      if (response.status !== 206) {
+        return null;
+      }
+
+      const contentRange = response.headers.get("content-range") ?? "";
+      const match = contentRange.match(/^bytes\s+\d+-\d+\/(\d+)$/i);
+      if (!match) {
+        return null;
+      }
+
+      const totalBytes = Number(match[1] ?? 0);
+      if (!Number.isFinite(totalBytes) || totalBytes <= 0) {
+        return null;
+      }
+
+      return { totalBytes };
+    } finally {
+      if (response.body) {
+        await response.body.cancel().catch(() => {});
+      }
+    }
+  }
+
+  private async downloadFileSingleStream(
+    url: string,
+    destinationPath: string,
+    timeoutMs: number,
+    progressIntervalMs: number,
+  ): Promise<void> {
+    const response = await this.fetchWithTimeout(url, { method: "GET" }, timeoutMs);
+    if (!response.ok) {
+      throw new AppError(response.status, `Download request failed: ${response.status} ${response.statusText}`);
+    }
+
+    if (!response.body) {
+      throw new AppError(500, "Download response body is empty.");
+    }
+
+    const writer = createWriteStream(destinationPath, { flags: "w" });
+    const reader = response.body.getReader();
+    const contentLengthHeader = response.headers.get("content-length");
+    const totalBytes = contentLengthHeader ? Number(contentLengthHeader) : 0;
+    let downloadedBytes = 0;
+    let lastLogMs = Date.now();
+
+    const logProgress = (force = false): void => {
+      const now = Date.now();
+      if (!force && now - lastLogMs < progressIntervalMs) {
+        return;
+      }
+
+      if (totalBytes > 0) {
+        const percent = ((downloadedBytes / totalBytes) * 100).toFixed(1);
+        this.pushTerminal(
+          `Download progress: ${this.formatBytes(downloadedBytes)} / ${this.formatBytes(totalBytes)} (${percent}%)`,
+          "system",
+        );
+      } else {
+        this.pushTerminal(`Download progress: ${this.formatBytes(downloadedBytes)}`, "system");
+      }
+      lastLogMs = now;
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        if (!value) {
+          continue;
+        }
+
+        await this.writeToStream(writer, value);
+        downloadedBytes += value.length;
+        logProgress(false);
+      }
+
+      await this.endStream(writer);
+      logProgress(true);
+    } catch (error) {
+      writer.destroy();
+      await rm(destinationPath, { force: true });
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private async downloadFileWithParallelRanges(
+    url: string,
+    destinationPath: string,
+    totalBytes: number,
+    configuredConcurrency: number,
+    timeoutMs: number,
+    progressIntervalMs: number,
+    resume: { key: string; label: DownloadCacheLabel | null } | null = null,
+  ): Promise<void> {
+    const minimumPartBytes = 4 * 1024 * 1024;
+    const recommendedWorkers = Math.max(1, Math.floor(totalBytes / minimumPartBytes));
+    const workerCount = Math.max(2, Math.min(configuredConcurrency, recommendedWorkers));
+    if (workerCount < 2) {
+      await this.downloadFileSingleStream(url, destinationPath, timeoutMs, progressIntervalMs);
+      return;
+    }
+
+    const cacheDir = config.hytale.downloadCacheDir;
+    const resumeId = resume ? downloadCacheId(resume.key) : null;
+    const partDir = resumeId ? partialDownloadDir(cacheDir, resumeId) : `${destinationPath}.parts-${randomUUID()}`;
+    const partPath = (index: number) =>
+      resumeId ? partialDownloadPartPath(cacheDir, resumeId, index) : path.join(partDir, `${index}.part`);
+
+    // A saved layout is only reused for the same artifact size; the part boundaries must not move.
+    let partial = resumeId ? await readPartialDownload(cacheDir, resumeId) : null;
+    if (partial && partial.totalBytes !== totalBytes) {
+      this.pushTerminal("Unfinished download does not match the remote file; starting over.", "system");
+      partial = null;
+    }
+    if (!partial) {
+      await rm(partDir, { recursive: true, force: true });
+    }
+    await mkdir(partDir, { recursive: true });
+
+    let parts: { start: number; end: number }[];
+    if (partial) {
+      parts = partial.parts;
+    } else {
+      const partSize = Math.ceil(totalBytes / workerCount);
+      parts = [];
+      for (let index = 0; index < workerCount; index += 1) {
+        const start = index * partSize;
+        if (start >= totalBytes) {
+          break;
+        }
+        parts.push({ start, end: Math.min(totalBytes - 1, start + partSize - 1) });
+      }
+    }
+
+    if (resume && resumeId) {
+      partial = {
+        id: resumeId,
+        key: resume.key,
+        label: resume.label,
+        totalBytes,
+        parts,
+        updatedAt: new Date().toISOString(),
+      };
+      await writePartialDownload(cacheDir, partial);
+    }
+
+    let downloadedBytes = partial ? await measurePartialDownload(cacheDir, partial) : 0;
+    this.pushTerminal(
+      downloadedBytes > 0
+        ? `Resuming parallel download with ${parts.length} workers at ${this.formatBytes(downloadedBytes)}...`
+        : `Starting parallel download with ${parts.length} workers...`,
+      "system",
+    );
+    let lastLogMs = Date.now();
+    const logProgress = (force = false): void => {
+      const now = Date.now();
+      if (!force && now - lastLogMs < progressIntervalMs) {
+        return;
+      }
+
+      const percent = ((downloadedBytes / totalBytes) * 100).toFixed(1);
+      this.pushTerminal(
+        `Download progress: ${this.formatBytes(downloadedBytes)} / ${this.formatBytes(totalBytes)} (${percent}%)`,
+        "system",
+      );
+      lastLogMs = now;
+    };
+
+    // Each part continues from the bytes it already has, so a dropped connection only costs a retry.
+    const downloadPart = async (index: number, part: { start: number; end: number }): Promise<void> => {
+      const expectedBytes = part.end - part.start + 1;
+      for (let attempt = 1; ; attempt += 1) {
+        let existing = (await stat(partPath(index)).catch(() => null))?.size ?? 0;
+        if (existing > expectedBytes) {
+          downloadedBytes -= expectedBytes;
+          await rm(partPath(index), { force: true });
+          existing = 0;
+        }
+        if (existing === expectedBytes) {
+          return;
+        }
+
+        try {
+          const response = await this.fetchWithTimeout(
+            url,
+            {
+              method: "GET",
+              headers: {
+                Range: `bytes=${part.start + existing}-${part.end}`,
+              },
+            },
+            timeoutMs,
+          );
+          if (response.status !== 206) {
+            throw new AppError(response.status, `Range download failed with status ${response.status}.`);
+          }
+
+          if (!response.body) {
+            throw new AppError(500, "Range download response body is empty.");
+          }
+
+          const writer = createWriteStream(partPath(index), { flags: "a" });
+          const reader = response.body.getReader();
+          try {
+            while (true) {
+              const { done, value } = await reader.read();
+              if (done) {
+                break;
+              }
+
+              if (!value) {
+                continue;
+              }
+
+              await this.writeToStream(writer, value);
+              downloadedBytes += value.length;
+              logProgress(false);
+            }
+
+            await this.endStream(writer);
+          } catch (error) {
+            writer.destroy();
+            throw error;
+          } finally {
+            reader.releaseLock();
+          }
+
+          if ((await stat(partPath(index))).size < expectedBytes) {
+            throw new AppError(502, "Range download ended early.");
+          }
+        } catch (error) {
+          if (attempt >= PARTIAL_DOWNLOAD_RETRIES) {
+            throw error;
+          }
+          this.pushTerminal(
+            `Download part ${index + 1} interrupted (${(error as Error).message}); retrying from where it stopped...`,
+            "system",
+          );
+        }
+      }
+    };
+
+    let completed = false;
+    if (resumeId) {
+      this.activeDownloadIds.add(resumeId);
+    }
+    try {
+      await Promise.all(parts.map((part, index) => downloadPart(index, part)));
+
+      await this.mergeFiles(
+        parts.map((_part, index) => partPath(index)),
+        destinationPath,
+      );
+      logProgress(true);
+      completed = true;
+    } finally {
+      if (resumeId) {
+        this.activeDownloadIds.delete(resumeId);
+      }
+      if (completed || !resumeId) {
+        await rm(partDir, { recursive: true, force: true });
+      } else if (partial) {
+        await writePartialDownload(cacheDir, { ...partial, updatedAt: new Date().toISOString() }).catch(() => undefined);
+      }
+    }
+  }
+
+  private async mergeFiles(sourcePaths: string[], destinationPath: string): Promise<void> {
+    const writer = createWriteStream(destinationPath, { flags: "w" });
+
+    try {
+      for (const sourcePath of sourcePaths) {
+        const reader = Bun.file(sourcePath).stream().getReader();
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            if (value) {
+              await this.writeToStream(writer, value);
+            }
+          }
+        } finally {
+          reader.releaseLock();
+        }
+      }
+
+      await this.endStream(writer);
+    } catch (error) {
+      writer.destroy();
+      await rm(destinationPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async writeToStream(writer: WriteStream, chunk: Uint8Array): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      writer.write(chunk, (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  private async endStream(writer: WriteStream): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      writer.end((error?: Error | null) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  async listDownloadCache(): Promise<DownloadCacheListing> {
+    const cacheDir = config.hytale.downloadCacheDir;
+    const inUse = await this.getInUseDownloadCacheIds();
+    const entries = (await readDownloadCache(cacheDir)).map((entry) => ({ ...entry, inUse: inUse.has(entry.id) }));
+    const partials = await readPartialDownloads(cacheDir);
+    return {
+      entries,
+      partials,
+      totalBytes:
+        entries.reduce((total, entry) => total + entry.size, 0) +
+        partials.reduce((total, partial) => total + partial.received, 0),
+    };
+  }
+
+  async deleteDownloadCacheEntry(id: string): Promise<DownloadCacheListing> {
+    if (this.activeDownloadIds.has(id)) {
+      throw new AppError(409, "This artifact is being downloaded right now.");
+    }
+    await deleteDownloadCacheFiles(config.hytale.downloadCacheDir, id);
+    this.pushTerminal(`Deleted download cache entry ${id.slice(0, 12)}.`, "system");
+    return await this.emitDownloadCache();
+  }
+
+  /**
+   * Applies the cache limits: keeps the newest versions of each artifact and the total size under
+   * the cap, and drops unfinished downloads nobody resumed for a week. The archive of the current
+   * install and downloads in progress are left alone.
+   */
+  async pruneDownloadCache(): Promise<DownloadCachePruneResult> {
+    const settings = await this.getServerRuntimeSettings();
+    const cacheDir = config.hytale.downloadCacheDir;
+    const protectedIds = new Set([...(await this.getInUseDownloadCacheIds()), ...this.activeDownloadIds]);
+    const selected = selectDownloadCacheToPrune(
+      await readDownloadCache(cacheDir),
+      {
+        keepVersions: settings.downloadCacheKeepVersions,
+        maxTotalBytes: settings.downloadCacheMaxSizeMb * 1024 * 1024,
+      },
+      protectedIds,
+    );
+
+    const result: DownloadCachePruneResult = { deleted: [], partialsRemoved: 0, freedBytes: 0 };
+    for (const { entry, reason } of selected) {
+      await deleteDownloadCacheFiles(cacheDir, entry.id);
+      const name = entry.label ? `${entry.label.name} ${entry.label.version}` : entry.id.slice(0, 12);
+      result.deleted.push({ id: entry.id, name, size: entry.size, reason });
+      result.freedBytes += entry.size;
+    }
+
+    const staleBefore = Date.now() - PARTIAL_DOWNLOAD_STALE_MS;
+    for (const partial of await readPartialDownloads(cacheDir)) {
+      if (!protectedIds.has(partial.id) && Date.parse(partial.updatedAt) < staleBefore) {
+        await rm(partialDownloadDir(cacheDir, partial.id), { recursive: true, force: true });
+        result.partialsRemoved += 1;
+        result.freedBytes += partial.received;
+      }
+    }
+
+    if (result.deleted.length > 0 || result.partialsRemoved > 0) {
+      this.pushTerminal(
+        `Download cache pruned: ${[
+          ...result.deleted.map((deleted) => `${deleted.name} (${deleted.reason})`),
+          ...(result.partialsRemoved > 0 ? [`${result.partialsRemoved} stale unfinished download(s)`] : []),
+        ].join(", ")}; freed ${this.formatBytes(result.freedBytes)}.`,
+        "system",
+      );
+      await this.emitDownloadCache();
+    }
+    return result;
+  }
+
+  private async pruneDownloadCacheSafely(): Promise<void> {
+    try {
+      await this.pruneDownloadCache();
+    } catch (error) {
+      this.pushTerminal(`Download cache prune failed: ${(error as Error).message}`, "system");
+    }
+  }
+
+  private async getInUseDownloadCacheIds(): Promise<Set<string>> {
+    const metadata = await this.readInstalledServerMetadata();
+    return new Set(metadata?.archive ? [downloadCacheId(metadata.archive.cacheKey)] : []);
+  }
+
+  private async emitDownloadCache(): Promise<DownloadCacheListing> {
+    const listing = await this.listDownloadCache();
+    this.broadcast("downloads.cache", listing);
+    return listing;
+  }
+
+  private resolveDownloadCachePath(cacheKey: string): string {
+    return downloadCacheFilePath(config.hytale.downloadCacheDir, downloadCacheId(cacheKey));
+  }
+
+  private async saveDownloadToCache(sourcePath: string, cachePath: string): Promise<void> {
+    const tempPath = `${cachePath}.${randomUUID()}.tmp`;
+    await copyFile(sourcePath, tempPath);
+    await rename(tempPath, cachePath).catch(async () => {
+      await rm(tempPath, { force: true });
+      await copyFile(sourcePath, cachePath);
+    });
+  }
+
+  private async validateSha256(filePath: string, expectedHash: string): Promise<void> {
+    const normalizedExpected = expectedHash.trim().toLowerCase();
+    if (!/^[a-f0-9]{64}$/.test(normalizedExpected)) {
+      throw new AppError(400, "Manifest checksum is not a valid SHA256 hex string.");
+    }
+
+    const actualHash = await this.computeFileSha256(filePath);
+    if (actualHash !== normalizedExpected) {
+      throw new AppError(
+        400,
+        `Checksum mismatch for ${path.basename(filePath)} (expected ${normalizedExpected}, got ${actualHash}).`,
+      );
+    }
+  }
+
+  private async computeFileSha256(filePath: string): Promise<string> {
+    const hash = createHash("sha256");
+    const reader = Bun.file(filePath).stream().getReader();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        if (value) {
+          hash.update(value);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return hash.digest("hex").toLowerCase();
+  }
+
+  private async extractZipFile(
+    archivePath: string,
+    destinationDir: string,
+    timeoutMs = config.hytale.downloaderExtractTimeoutMs,
+  ): Promise<void> {
+    this.pushTerminal(`Extracting ${path.basename(archivePath)}...`, "system");
+    const signal = AbortSignal.timeout(timeoutMs);
+
+    let result: { files: number; bytes: number };
+    try {
+      result = await extractZipArchive(archivePath, destinationDir, { signal });
+    } catch (error) {
+      if (signal.aborted) {
+        throw new AppError(
+          504,
+          `Archive extraction timed out after ${Math.round(timeoutMs / 1000)} seconds.`,
+        );
+      }
+      throw error;
+    }
+
+    this.pushTerminal(`Archive extraction complete (${result.files} files).`, "system");
+  }
+
+  private async fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutHandle = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new AppError(504, `Request timed out after ${Math.round(timeoutMs / 1000)} seconds: ${url}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+
+    const units = ["KB", "MB", "GB"];
+    let value = bytes / 1024;
+    let unitIndex = 0;
+
+    while (value >= 1024 && unitIndex < units.length - 1) {
+      value /= 1024;
+      unitIndex += 1;
+    }
+
+    return `${value.toFixed(1)} ${units[unitIndex]}`;
+  }
+
+  private async locateDownloadedLayout(root: string): Promise<{ serverDir: string; assetsPath: string } | null> {
+    const directServer = path.join(root, "Server");
+    const directAssets = path.join(root, "Assets.zip");
+
+    if ((await pathExists(path.join(directServer, "HytaleServer.jar"))) && (await pathExists(directAssets))) {
+      return {
+        serverDir: directServer,
+        assetsPath: directAssets,
+      };
+    }
+
+    const found = await this.scanForInstallArtifacts(root);
+    if (!found.jarPath || !found.assetsPath) {
+      return null;
+    }
+
+    return {
+      serverDir: path.dirname(found.jarPath),
+      assetsPath: found.assetsPath,
+    };
+  }
+
+  private async scanForInstallArtifacts(root: string): Promise<{ jarPath: string | null; assetsPath: string | null }> {
+    const result = {
+      jarPath: null as string | null,
+      assetsPath: null as string | null,
+    };
+
+    const queue: string[] = [root];
+    while (queue.length > 0 && (!result.jarPath || !result.assetsPath)) {
+      const current = queue.shift();
+      if (!current) {
+        break;
+      }
+
+      const entries = await readdir(current, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(current, entry.name);
+
+        if (entry.isDirectory()) {
+          queue.push(fullPath);
+          continue;
+        }
+
+        if (!result.jarPath && entry.name === "HytaleServer.jar") {
+          result.jarPath = fullPath;
+        }
+
+        if (!result.assetsPath && entry.name === "Assets.zip") {
+          result.assetsPath = fullPath;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async resolveUniquePath(initialPath: string): Promise<string> {
+    if (!(await pathExists(initialPath))) {
+      return initialPath;
+    }
+
+    const ext = path.extname(initialPath);
+    const base = initialPath.slice(0, -ext.length);
+    let suffix = 1;
+
+    while (suffix < 10_000) {
+      const candidate = `${base}-${suffix}${ext}`;
+      if (!(await pathExists(candidate))) {
+        return candidate;
+      }
+      suffix += 1;
+    }
+
+    throw new AppError(500, "Could not find unique path for uploaded mod.");
+  }
+
+  private async renameModFile(from: string, to: string): Promise<void> {
+    const modsDir = path.join(config.hytale.serverDir, "mods");
+    const sourcePath = path.join(modsDir, from);
+    const targetPath = path.join(modsDir, to);
+
+    if (!(await pathExists(sourcePath))) {
+      throw new AppError(404, `Mod not found: ${from}`);
+    }
+
+    if (await pathExists(targetPath)) {
+      throw new AppError(409, `Target mod file already exists: ${to}`);
+    }
+
+    await rename(sourcePath, targetPath);
+    this.invalidateModMetadataCacheEntry(sourcePath);
+    this.invalidateModMetadataCacheEntry(targetPath);
+    await this.renameCurseForgeTrackedFilename(from, to);
+    await this.renameNexusTrackedFilename(from, to);
+  }
+
+  private async getCurseForgeConfig(): Promise<CurseForgeRuntimeConfig | null> {
+    const envApiKey = config.hytale.curseForgeApiKey.trim();
+    const envGameId = Math.trunc(config.hytale.curseForgeGameId);
+    const envClassId = Math.max(0, Math.trunc(config.hytale.curseForgeClassId));
+    if (envApiKey.length > 0 && envGameId > 0) {
+      return {
+        apiHost: config.hytale.curseForgeApiHost,
+        apiKey: envApiKey,
+        gameId: envGameId,
+        classId: envClassId,
+        pageSize: config.hytale.curseForgeDefaultPageSize,
+        source: "env",
+      };
+    }
+
+    const encryptedApiKey = getAppSetting(CURSEFORGE_SETTING_API_KEY);
+    const storedGameIdRaw = getAppSetting(CURSEFORGE_SETTING_GAME_ID);
+    if (!encryptedApiKey || !storedGameIdRaw) {
+      return null;
+    }
+
+    const apiKey = await decryptSecret(encryptedApiKey);
+    if (!apiKey) {
+      return null;
+    }
+
+    const gameId = Math.trunc(Number(storedGameIdRaw));
+    if (!Number.isFinite(gameId) || gameId <= 0) {
+      return null;
+    }
+
+    const storedClassIdRaw = getAppSetting(CURSEFORGE_SETTING_CLASS_ID);
+    const classId = Math.max(0, Math.trunc(Number(storedClassIdRaw ?? 0)));
+    return {
+      apiHost: config.hytale.curseForgeApiHost,
+      apiKey,
+      gameId,
+      classId: Number.isFinite(classId) ? classId : 0,
+      pageSize: config.hytale.curseForgeDefaultPageSize,
+      source: "dashboard",
+    };
+  }
+
+  private async getCurseForgeConfigOrThrow(): Promise<CurseForgeRuntimeConfig> {
+    const curseForge = await this.getCurseForgeConfig();
+    if (curseForge) {
+      return curseForge;
+    }
+
+    throw new AppError(
+      400,
+      "CurseForge is not configured. Use the dashboard Connect form or set HYTALE_CURSEFORGE_API_KEY and HYTALE_CURSEFORGE_GAME_ID.",
+    );
+  }
+
+  private normalizeCurseForgeSort(value: string): CurseForgeSearchSort {
+    const allowed = new Set<CurseForgeSearchSort>(["popularity", "lastUpdated", "name", "author", "totalDownloads"]);
+    if (allowed.has(value as CurseForgeSearchSort)) {
+      return value as CurseForgeSearchSort;
+    }
+    return "popularity";
+  }
+
+  private async fetchCurseForgeApi<T>(
+    curseForge: CurseForgeRuntimeConfig,
+    url: string,
+    init: RequestInit,
+  ): Promise<CurseForgeApiResponse<T>> {
+    const headers = new Headers(init.headers);
+    headers.set("accept", "application/json");
+    headers.set("x-api-key", curseForge.apiKey);
+    if (init.body && !headers.has("content-type")) {
+      headers.set("content-type", "application/json");
+    }
+
+    const response = await this.fetchWithTimeout(
+      url,
+      {
+        ...init,
+        headers,
+      },
+      config.hytale.downloaderApiTimeoutMs,
+    );
+
+    const raw = await response.text();
+    let payload: unknown = null;
+    if (raw.trim().length > 0) {
+      try {
+        payload = JSON.parse(raw);
+      } catch {
+        payload = null;
+      }
+    }
+
+    if (!response.ok) {
+      const details = typeof payload === "object" && payload !== null && "error" in payload
+        ? String((payload as { error?: unknown }).error ?? `${response.status} ${response.statusText}`)
+        : raw.trim() || `${response.status} ${response.statusText}`;
+      throw new AppError(response.status, `CurseForge API request failed: ${details}`);
+    }
+
+    if (!payload || typeof payload !== "object" || !("data" in payload)) {
+      throw new AppError(500, "CurseForge API returned an invalid response.");
+    }
+
+    return payload as CurseForgeApiResponse<T>;
+  }
+
+  private async fetchCurseForgeMod(curseForge: CurseForgeRuntimeConfig, modId: number): Promise<CurseForgeApiMod> {
+    const response = await this.fetchCurseForgeApi<CurseForgeApiMod>(
+      curseForge,
+      `https://${curseForge.apiHost}/v1/mods/${modId}`,
+      { method: "GET" },
+    );
+
+    if (!response.data || typeof response.data !== "object") {
+      throw new AppError(404, `CurseForge mod ${modId} was not found.`);
+    }
+
+    return response.data;
+  }
+
+  private async fetchCurseForgeModsByIds(
+    curseForge: CurseForgeRuntimeConfig,
+    modIds: number[],
+  ): Promise<Map<number, CurseForgeApiMod>> {
+    const uniqueIds = Array.from(new Set(modIds.map((value) => Math.trunc(value)).filter((value) => value > 0)));
+    const byId = new Map<number, CurseForgeApiMod>();
+
+    for (let index = 0; index < uniqueIds.length; index += 50) {
+      const chunk = uniqueIds.slice(index, index + 50);
+      const response = await this.fetchCurseForgeApi<CurseForgeApiMod[]>(
+        curseForge,
+        `https://${curseForge.apiHost}/v1/mods`,
+        {
+          method: "POST",
+          body: JSON.stringify({ modIds: chunk }),
+        },
+      );
+
+      const mods = Array.isArray(response.data) ? response.data : [];
+      for (const item of mods) {
+        const id = Number(item.id ?? 0);
+        if (id > 0) {
+          byId.set(id, item);
+        }
+      }
+    }
+
+    return byId;
+  }
+
+  private async resolveLatestCurseForgeFile(
+    curseForge: CurseForgeRuntimeConfig,
+    modId: number,
+    latestFiles?: CurseForgeApiFile[],
+  ): Promise<CurseForgeApiFile | null> {
+    const fromLatest = this.selectCurseForgePreferredFile(latestFiles ?? []);
+    if (fromLatest) {
+      return fromLatest;
+    }
+
+    return await this.fetchLatestCurseForgeFileFromIndex(curseForge, modId);
+  }
+
+  private async fetchLatestCurseForgeFileFromIndex(
+    curseForge: CurseForgeRuntimeConfig,
+    modId: number,
+  ): Promise<CurseForgeApiFile | null> {
+    const endpoint = new URL(`https://${curseForge.apiHost}/v1/mods/${modId}/files`);
+    endpoint.searchParams.set("index", "0");
+    endpoint.searchParams.set("pageSize", "25");
+    endpoint.searchParams.set("sortField", "2");
+    endpoint.searchParams.set("sortOrder", "desc");
+
+    const response = await this.fetchCurseForgeApi<CurseForgeApiFile[]>(curseForge, endpoint.toString(), {
+      method: "GET",
+    });
+
+    const files = Array.isArray(response.data) ? response.data : [];
+    return this.selectCurseForgePreferredFile(files);
+  }
+
+  private selectCurseForgePreferredFile(files: CurseForgeApiFile[]): CurseForgeApiFile | null {
+    const candidates = files.filter((file) => {
+      if (typeof file.id !== "number" || file.id <= 0) {
+        return false;
+      }
+      if (file.isAvailable === false) {
+        return false;
+      }
+
+      const name = this.getCurseForgeFileDisplayName(file);
+      return !!name;
+    });
+
+    candidates.sort((left, right) => {
+      const leftDate = Date.parse(left.fileDate ?? "");
+      const rightDate = Date.parse(right.fileDate ?? "");
+      const leftTimestamp = Number.isFinite(leftDate) ? leftDate : 0;
+      const rightTimestamp = Number.isFinite(rightDate) ? rightDate : 0;
+      if (rightTimestamp !== leftTimestamp) {
+        return rightTimestamp - leftTimestamp;
+      }
+      return (Number(right.id ?? 0) || 0) - (Number(left.id ?? 0) || 0);
+    });
+
+    return candidates[0] ?? null;
+  }
+
+  private async installCurseForgeFile(
+    curseForge: CurseForgeRuntimeConfig,
+    mod: CurseForgeApiMod,
+    file: CurseForgeApiFile,
+    trackedOverride?: CurseForgeStoredMod,
+    actor: string | null = null,
+  ): Promise<{ stored: CurseForgeStoredMod; alreadyInstalled: boolean }> {
+    const modId = Number(mod.id ?? file.modId ?? 0);
+    if (!Number.isFinite(modId) || modId <= 0) {
+      throw new AppError(400, "CurseForge payload did not include a valid mod id.");
+    }
+
+    const fileId = Number(file.id ?? 0);
+    if (!Number.isFinite(fileId) || fileId <= 0) {
+      throw new AppError(400, "CurseForge payload did not include a valid file id.");
+    }
+
+    const store = await this.readCurseForgeStore();
+    const tracked = trackedOverride ?? store.mods.find((item) => item.modId === modId);
+
+    const modsDir = path.join(config.hytale.serverDir, "mods");
+    await mkdir(modsDir, { recursive: true });
+    await mkdir(config.app.uploadsDir, { recursive: true });
+
+    if (tracked && tracked.fileId === fileId) {
+      const trackedPath = path.join(modsDir, tracked.localFilename);
+      if (await pathExists(trackedPath)) {
+        return {
+          stored: tracked,
+          alreadyInstalled: true,
+        };
+      }
+    }
+
+    const modName = this.normalizeStringOrNull(mod.name) ?? `Mod ${modId}`;
+    const authorNames = this.extractCurseForgeAuthorNames(mod.authors);
+    const remoteFileName = this.getCurseForgeFileDisplayName(file) ?? `${sanitizeFilename(modName)}-${fileId}.jar`;
+    const keepDisabled = tracked?.localFilename.endsWith(".disabled") ?? false;
+    const targetName = this.normalizeCurseForgeFilename(remoteFileName, keepDisabled);
+    const downloadUrl = await this.resolveCurseForgeDownloadUrl(curseForge, modId, file);
+
+    this.pushTerminal(`Downloading CurseForge mod ${modName} (${remoteFileName})...`, "system");
+
+    const tempPath = path.join(config.app.uploadsDir, `curseforge-${modId}-${fileId}-${randomUUID()}.part`);
+    try {
+      await this.downloadFileWithProgress(downloadUrl, tempPath, config.hytale.downloaderDownloadTimeoutMs, {
+        cacheKey: `curseforge-${modId}-${fileId}`,
+        cacheLabel: { group: `curseforge-${modId}`, name: modName, version: remoteFileName },
+      });
+
+      let targetPath = path.join(modsDir, targetName);
+      if ((await pathExists(targetPath)) && tracked?.localFilename !== path.basename(targetPath)) {
+        targetPath = await this.resolveUniquePath(targetPath);
+      }
+      if (tracked) {
+        await this.takeModReplaceSnapshot(`Update mod ${modName}`, actor, [tracked.localFilename, path.basename(targetPath)]);
+      }
+
+      await rm(targetPath, { force: true });
+      await rename(tempPath, targetPath);
+
+      if (tracked && tracked.localFilename !== path.basename(targetPath)) {
+        await rm(path.join(modsDir, tracked.localFilename), { force: true });
+      }
+
+      const stored: CurseForgeStoredMod = {
+        modId,
+        modName,
+        authorNames,
+        fileId,
+        fileName: remoteFileName,
+        localFilename: path.basename(targetPath),
+        installedAt: new Date().toISOString(),
+        dateModified: this.normalizeDateString(mod.dateModified, new Date().toISOString()),
+        websiteUrl: this.normalizeStringOrNull(mod.links?.websiteUrl),
+      };
+
+      const nextMods = store.mods.filter((item) => item.modId !== modId);
+      nextMods.push(stored);
+      nextMods.sort((a, b) => a.modName.localeCompare(b.modName));
+      await this.writeCurseForgeStore({
+        version: 1,
+        mods: nextMods,
+      });
+
+      this.pushTerminal(`Installed CurseForge mod ${modName} as ${path.basename(targetPath)}.`, "system");
+      return {
+        stored,
+        alreadyInstalled: false,
+      };
+    } finally {
+      await rm(tempPath, { force: true });
+    }
+  }
+
+  private async resolveCurseForgeDownloadUrl(
+    curseForge: CurseForgeRuntimeConfig,
+    modId: number,
+    file: CurseForgeApiFile,
+  ): Promise<string> {
+    const fromFile = this.normalizeStringOrNull(file.downloadUrl);
+    if (fromFile) {
+      return fromFile;
+    }
+
+    const fileId = Number(file.id ?? 0);
+    if (fileId <= 0) {
+      throw new AppError(400, "Cannot resolve CurseForge download URL without a file id.");
+    }
+
+    const response = await this.fetchCurseForgeApi<string>(
+      curseForge,
+      `https://${curseForge.apiHost}/v1/mods/${modId}/files/${fileId}/download-url`,
+      { method: "GET" },
+    );
+
+    if (typeof response.data !== "string" || response.data.trim().length === 0) {
+      throw new AppError(500, "CurseForge did not return a valid download URL.");
+    }
+
+    return response.data.trim();
+  }
+
+  private getCurseForgeFileDisplayName(file: CurseForgeApiFile): string | null {
+    const fileName = this.normalizeStringOrNull(file.fileName);
+    if (fileName) {
+      return fileName;
+    }
+
+    const displayName = this.normalizeStringOrNull(file.displayName);
+    if (displayName) {
+      return displayName;
+    }
+
+    return null;
+  }
+
+  private normalizeCurseForgeFilename(rawName: string, disabled: boolean): string {
+    const sanitized = sanitizeFilename(rawName);
+    const hasExtension = /\.[a-z0-9]+$/i.test(sanitized);
+    const baseName = hasExtension ? sanitized : `${sanitized}.jar`;
+    if (!disabled) {
+      return baseName;
+    }
+    return baseName.endsWith(".disabled") ? baseName : `${baseName}.disabled`;
+  }
+
+  private toCurseForgeSearchMod(mod: CurseForgeApiMod): CurseForgeSearchMod | null {
+    const id = Number(mod.id ?? 0);
+    if (!Number.isFinite(id) || id <= 0) {
+      return null;
+    }
+
+    const name = this.normalizeStringOrNull(mod.name);
+    if (!name) {
+      return null;
+    }
+
+    return {
+      id,
+      name,
+      summary: this.normalizeStringOrNull(mod.summary) ?? "",
+      authors: this.extractCurseForgeAuthorNames(mod.authors),
+      downloadCount: Number(mod.downloadCount ?? 0) || 0,
+      dateModified: this.normalizeDateString(mod.dateModified, new Date(0).toISOString()),
+      dateReleased: this.normalizeDateString(mod.dateReleased, new Date(0).toISOString()),
+      logoUrl: this.normalizeStringOrNull(mod.logo?.thumbnailUrl) ?? this.normalizeStringOrNull(mod.logo?.url),
+      websiteUrl: this.normalizeStringOrNull(mod.links?.websiteUrl),
+    };
+  }
+
+  private extractCurseForgeAuthorNames(authors: CurseForgeApiAuthor[] | undefined): string[] {
+    if (!Array.isArray(authors)) {
+      return [];
+    }
+
+    const names = authors
+      .map((author) => this.normalizeStringOrNull(author.name))
+      .filter((name): name is string => !!name);
+
+    return Array.from(new Set(names));
+  }
+
+  private normalizeDateString(value: string | undefined, fallback: string): string {
+    const raw = this.normalizeStringOrNull(value);
+    if (!raw) {
+      return fallback;
+    }
+
+    const parsed = Date.parse(raw);
+    if (!Number.isFinite(parsed)) {
+      return fallback;
     }
 
-    this.pushTerminal("Archive extraction complete.", "system");
+    return new Date(parsed).toISOString();
   }
 
-  private async fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutHandle = setTimeout(() => controller.abort(), timeoutMs);
-
-    try {
-      return await fetch(url, {
-        ...init,
-        signal: controller.signal,
-      });
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new AppError(504, `Request timed out after ${Math.round(timeoutMs / 1000)} seconds: ${url}`);
-      }
-      throw error;
-    } finally {
-      clearTimeout(timeoutHandle);
+  private normalizeStringOrNull(value: unknown): string | null {
+    if (typeof value !== "string") {
+      return null;
     }
+
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
   }
 
-  private formatBytes(bytes: number): string {
-    if (bytes < 1024) {
-      return `${bytes} B`;
+  private async readCurseForgeStore(): Promise<CurseForgeStore> {
+    const statePath = config.hytale.curseForgeStatePath;
+    if (!(await pathExists(statePath))) {
+      return {
+        version: 1,
+        mods: [],
+      };
     }
 
-    const units = ["KB", "MB", "GB"];
-    let value = bytes / 1024;
-    let unitIndex = 0;
-
-    while (value >= 1024 && unitIndex < units.length - 1) {
-      value /= 1024;
-      unitIndex += 1;
+    try {
+      const raw = await readFile(statePath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<CurseForgeStore>;
+      return this.normalizeCurseForgeStore(parsed);
+    } catch {
+      this.pushTerminal("CurseForge mod state file is invalid; starting from an empty tracked set.", "system");
+      return {
+        version: 1,
+        mods: [],
+      };
     }
-
-    return `${value.toFixed(1)} ${units[unitIndex]}`;
   }
 
-  private async locateDownloadedLayout(root: string): Promise<{ serverDir: string; assetsPath: string } | null> {
-    const directServer = path.join(root, "Server");
-    const directAssets = path.join(root, "Assets.zip");
-
-    if ((await pathExists(path.join(directServer, "HytaleServer.jar"))) && (await pathExists(directAssets))) {
+  private normalizeCurseForgeStore(input: Partial<CurseForgeStore> | null | undefined): CurseForgeStore {
+    if (!input || typeof input !== "object") {
       return {
-        serverDir: directServer,
-        assetsPath: directAssets,
+        version: 1,
+        mods: [],
       };
     }
 
-    const found = await this.scanForInstallArtifacts(root);
-    if (!found.jarPath || !found.assetsPath) {
-      return null;
+    const mods = Array.isArray(input.mods)
+      ? input.mods
+          .map((item) => this.normalizeCurseForgeStoredMod(item as Partial<CurseForgeStoredMod>))
+          .filter((item): item is CurseForgeStoredMod => !!item)
+      : [];
+
+    const dedup = new Map<number, CurseForgeStoredMod>();
+    for (const item of mods) {
+      dedup.set(item.modId, item);
     }
 
     return {
-      serverDir: path.dirname(found.jarPath),
-      assetsPath: found.assetsPath,
+      version: 1,
+      mods: Array.from(dedup.values()).sort((a, b) => a.modName.localeCompare(b.modName)),
     };
   }
 
-  private async scanForInstallArtifacts(root: string): Promise<{ jarPath: string | null; assetsPath: string | null }> {
-    const result = {
-      jarPath: null as string | null,
-      assetsPath: null as string | null,
+  private normalizeCurseForgeStoredMod(input: Partial<CurseForgeStoredMod>): CurseForgeStoredMod | null {
+    const modId = Number(input.modId ?? 0);
+    const fileId = Number(input.fileId ?? 0);
+    const modName = this.normalizeStringOrNull(input.modName);
+    const fileName = this.normalizeStringOrNull(input.fileName);
+    const localFilename = this.normalizeStringOrNull(input.localFilename);
+    const installedAt = this.normalizeStringOrNull(input.installedAt);
+
+    if (modId <= 0 || fileId <= 0 || !modName || !fileName || !localFilename || !installedAt) {
+      return null;
+    }
+
+    const authorNames = Array.isArray(input.authorNames)
+      ? input.authorNames
+          .map((value) => this.normalizeStringOrNull(value))
+          .filter((value): value is string => !!value)
+      : [];
+
+    return {
+      modId,
+      modName,
+      authorNames: Array.from(new Set(authorNames)),
+      fileId,
+      fileName,
+      localFilename: sanitizeFilename(localFilename),
+      installedAt: this.normalizeDateString(installedAt, new Date().toISOString()),
+      dateModified: this.normalizeDateString(input.dateModified, new Date(0).toISOString()),
+      websiteUrl: this.normalizeStringOrNull(input.websiteUrl),
     };
+  }
 
-    const queue: string[] = [root];
-    while (queue.length > 0 && (!result.jarPath || !result.assetsPath)) {
-      const current = queue.shift();
-      if (!current) {
-        break;
-      }
+  private async writeCurseForgeStore(store: CurseForgeStore): Promise<void> {
+    const normalized = this.normalizeCurseForgeStore(store);
+    await writeFile(config.hytale.curseForgeStatePath, JSON.stringify(normalized, null, 2), "utf8");
+  }
 
-      const entries = await readdir(current, { withFileTypes: true });
-      for (const entry of entries) {
-        const fullPath = path.join(current, entry.name);
+  private async removeCurseForgeTrackingForFilename(filename: string): Promise<void> {
+    const safe = sanitizeFilename(filename);
+    const store = await this.readCurseForgeStore();
+    const nextMods = store.mods.filter((item) => item.localFilename !== safe);
+    if (nextMods.length === store.mods.length) {
+      return;
+    }
 
-        if (entry.isDirectory()) {
-          queue.push(fullPath);
-          continue;
-        }
+    await this.writeCurseForgeStore({
+      version: 1,
+      mods: nextMods,
+    });
+  }
 
-        if (!result.jarPath && entry.name === "HytaleServer.jar") {
-          result.jarPath = fullPath;
-        }
+  private async renameCurseForgeTrackedFilename(from: string, to: string): Promise<void> {
+    const safeFrom = sanitizeFilename(from);
+    const safeTo = sanitizeFilename(to);
+    if (safeFrom === safeTo) {
+      return;
+    }
 
-        if (!result.assetsPath && entry.name === "Assets.zip") {
-          result.assetsPath = fullPath;
-        }
+    const store = await this.readCurseForgeStore();
+    let changed = false;
+    const nextMods = store.mods.map((item) => {
+      if (item.localFilename !== safeFrom) {
+        return item;
       }
+
+      changed = true;
+      return {
+        ...item,
+        localFilename: safeTo,
+      };
+    });
+
+    if (!changed) {
+      return;
     }
 
-    return result;
+    await this.writeCurseForgeStore({
+      version: 1,
+      mods: nextMods,
+    });
   }
 
-  private async resolveUniquePath(initialPath: string): Promise<string> {
-    if (!(await pathExists(initialPath))) {
-      return initialPath;
+  private async completeNexusSso(pending: NexusSsoPending, apiKey: string): Promise<void> {
+    if (pending.settled) {
+      return;
     }
 
-    const ext = path.extname(initialPath);
-    const base = initialPath.slice(0, -ext.length);
-    let suffix = 1;
-
-    while (suffix < 10_000) {
-      const candidate = `${base}-${suffix}${ext}`;
-      if (!(await pathExists(candidate))) {
-        return candidate;
-      }
-      suffix += 1;
+    // Detach before validating so the socket closing does not report a failure.
+    pending.settled = true;
+    clearTimeout(pending.timer);
+    if (this.nexusSso === pending) {
+      this.nexusSso = null;
     }
+    pending.socket.close();
 
-    throw new AppError(500, "Could not find unique path for uploaded mod.");
+    try {
+      const result = await this.connectNexus({ apiKey, gameDomain: pending.gameDomain });
+      this.broadcast("nexus.sso", {
+        id: pending.id,
+        status: "connected",
+        message: `Nexus connected as ${result.userName}.`,
+        nexus: await this.getNexusStatus(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Nexus SSO failed: ${message}`, "system");
+      this.broadcast("nexus.sso", {
+        id: pending.id,
+        status: "failed",
+        message,
+      });
+    }
   }
 
-  private async renameModFile(from: string, to: string): Promise<void> {
-    const modsDir = path.join(config.hytale.serverDir, "mods");
-    const sourcePath = path.join(modsDir, from);
-    const targetPath = path.join(modsDir, to);
+  private finishNexusSso(
+    pending: NexusSsoPending,
+    result: { status: "failed" | "cancelled"; message: string },
+  ): void {
+    if (pending.settled) {
+      return;
+    }
 
-    if (!(await pathExists(sourcePath))) {
-      throw new AppError(404, `Mod not found: ${from}`);
+    pending.settled = true;
+    clearTimeout(pending.timer);
+    if (this.nexusSso === pending) {
+      this.nexusSso = null;
     }
 
-    if (await pathExists(targetPath)) {
-      throw new AppError(409, `Target mod file already exists: ${to}`);
+    try {
+      pending.socket.close();
+    } catch {
+      // Ignore close failures on sockets that never opened.
     }
 
-    await rename(sourcePath, targetPath);
-    this.invalidateModMetadataCacheEntry(sourcePath);
-    this.invalidateModMetadataCacheEntry(targetPath);
+    this.pushTerminal(result.message, "system");
+    this.broadcast("nexus.sso", {
+      id: pending.id,
+      status: result.status,
+      message: result.message,
+    });
   }
 
-  private async getCurseForgeConfig(): Promise<CurseForgeRuntimeConfig | null> {
-    const envApiKey = config.hytale.curseForgeApiKey.trim();
-    const envGameId = Math.trunc(config.hytale.curseForgeGameId);
-    const envClassId = Math.max(0, Math.trunc(config.hytale.curseForgeClassId));
-    if (envApiKey.length > 0 && envGameId > 0) {
+  private async getNexusConfig(): Promise<NexusRuntimeConfig | null> {
+    const envApiKey = config.hytale.nexusApiKey.trim();
+    const envDomain = this.normalizeNexusDomain(config.hytale.nexusGameDomain);
+    if (envApiKey && envDomain) {
       return {
-        apiHost: config.hytale.curseForgeApiHost,
+        apiHost: config.hytale.nexusApiHost,
+        webHost: config.hytale.nexusWebHost,
+        ssoWsUrl: config.hytale.nexusSsoWsUrl,
         apiKey: envApiKey,
-        gameId: envGameId,
-        classId: envClassId,
-        pageSize: config.hytale.curseForgeDefaultPageSize,
+        gameDomain: envDomain,
+        appId: config.hytale.nexusAppId.trim(),
+        appName: config.hytale.nexusApplicationName,
+        appVersion: config.hytale.nexusApplicationVersion,
+        protocolVersion: config.hytale.nexusProtocolVersion,
+        pageSize: config.hytale.nexusDefaultPageSize,
         source: "env",
+        premium: false,
+        userName: "",
       };
     }
 
-    const encryptedApiKey = getAppSetting(CURSEFORGE_SETTING_API_KEY);
-    const storedGameIdRaw = getAppSetting(CURSEFORGE_SETTING_GAME_ID);
-    if (!encryptedApiKey || !storedGameIdRaw) {
+    const encryptedApiKey = getAppSetting(NEXUS_SETTING_API_KEY);
+    const storedDomain = this.normalizeNexusDomain(getAppSetting(NEXUS_SETTING_GAME_DOMAIN) ?? "");
+    if (!encryptedApiKey || !storedDomain) {
       return null;
     }
 
@@ -4778,56 +10751,69 @@ export class HytaleManager {
     if (!apiKey) {
       return null;
     }
-
-    const gameId = Math.trunc(Number(storedGameIdRaw));
-    if (!Number.isFinite(gameId) || gameId <= 0) {
-      return null;
-    }
-
-    const storedClassIdRaw = getAppSetting(CURSEFORGE_SETTING_CLASS_ID);
-    const classId = Math.max(0, Math.trunc(Number(storedClassIdRaw ?? 0)));
+
     return {
-      apiHost: config.hytale.curseForgeApiHost,
+      apiHost: config.hytale.nexusApiHost,
+      webHost: config.hytale.nexusWebHost,
+      ssoWsUrl: config.hytale.nexusSsoWsUrl,
       apiKey,
-      gameId,
-      classId: Number.isFinite(classId) ? classId : 0,
-      pageSize: config.hytale.curseForgeDefaultPageSize,
+      gameDomain: storedDomain,
+      appId: config.hytale.nexusAppId.trim(),
+      appName: config.hytale.nexusApplicationName,
+      appVersion: config.hytale.nexusApplicationVersion,
+      protocolVersion: config.hytale.nexusProtocolVersion,
+      pageSize: config.hytale.nexusDefaultPageSize,
       source: "dashboard",
+      premium: getAppSetting(NEXUS_SETTING_IS_PREMIUM) === "true",
+      userName: getAppSetting(NEXUS_SETTING_USER_NAME) ?? "",
     };
   }
 
-  private async getCurseForgeConfigOrThrow(): Promise<CurseForgeRuntimeConfig> {
-    const curseForge = await this.getCurseForgeConfig();
-    if (curseForge) {
-      return curseForge;
+  private async getNexusConfigOrThrow(): Promise<NexusRuntimeConfig> {
+    const nexus = await this.getNexusConfig();
+    if (nexus) {
+      return nexus;
     }
 
     throw new AppError(
       400,
-      "CurseForge is not configured. Use the dashboard Connect form or set HYTALE_CURSEFORGE_API_KEY and HYTALE_CURSEFORGE_GAME_ID.",
+      "Nexus is not configured. Use the dashboard Connect flow or set HYTALE_NEXUS_API_KEY and HYTALE_NEXUS_GAME_DOMAIN.",
     );
   }
 
-  private normalizeCurseForgeSort(value: string): CurseForgeSearchSort {
-    const allowed = new Set<CurseForgeSearchSort>(["popularity", "lastUpdated", "name", "author", "totalDownloads"]);
-    if (allowed.has(value as CurseForgeSearchSort)) {
-      return value as CurseForgeSearchSort;
+  private normalizeNexusDomain(value: string): string | null {
+    const normalized = value.trim().toLowerCase();
+    if (!/^[a-z0-9-]+$/.test(normalized)) {
+      return null;
     }
-    return "popularity";
+    return normalized;
   }
 
-  private async fetchCurseForgeApi<T>(
-    curseForge: CurseForgeRuntimeConfig,
-    url: string,
-    init: RequestInit,
-  ): Promise<CurseForgeApiResponse<T>> {
+  private async validateNexusApiKey(nexus: NexusRuntimeConfig): Promise<NexusApiKeyValidation> {
+    return await this.requestNexusRest<NexusApiKeyValidation>(nexus, "/v1/users/validate", {
+      method: "GET",
+    });
+  }
+
+  private async ensureNexusGameExists(nexus: NexusRuntimeConfig): Promise<void> {
+    await this.requestNexusRest<Record<string, unknown>>(nexus, `/v1/games/${encodeURIComponent(nexus.gameDomain)}`, {
+      method: "GET",
+    });
+  }
+
+  private async requestNexusRest<T>(nexus: NexusRuntimeConfig, endpoint: string, init: RequestInit): Promise<T> {
     const headers = new Headers(init.headers);
     headers.set("accept", "application/json");
-    headers.set("x-api-key", curseForge.apiKey);
+    headers.set("APIKEY", nexus.apiKey);
+    headers.set("Application-Name", nexus.appName);
+    headers.set("Application-Version", nexus.appVersion);
+    headers.set("Protocol-Version", nexus.protocolVersion);
+    headers.set("User-Agent", `${nexus.appName}/${nexus.appVersion}`);
     if (init.body && !headers.has("content-type")) {
       headers.set("content-type", "application/json");
     }
 
+    const url = `https://${nexus.apiHost}${endpoint}`;
     const response = await this.fetchWithTimeout(
       url,
       {
@@ -4838,155 +10824,238 @@ export class HytaleManager {
     );
 
     const raw = await response.text();
-    let payload: unknown = null;
-    if (raw.trim().length > 0) {
-      try {
-        payload = JSON.parse(raw);
-      } catch {
-        payload = null;
-      }
-    }
-
     if (!response.ok) {
-      const details = typeof payload === "object" && payload !== null && "error" in payload
-        ? String((payload as { error?: unknown }).error ?? `${response.status} ${response.statusText}`)
-        : raw.trim() || `${response.status} ${response.statusText}`;
-      throw new AppError(response.status, `CurseForge API request failed: ${details}`);
+      const details = raw.trim() || `${response.status} ${response.statusText}`;
+      throw new AppError(response.status, `Nexus API request failed: ${details}`);
     }
 
-    if (!payload || typeof payload !== "object" || !("data" in payload)) {
-      throw new AppError(500, "CurseForge API returned an invalid response.");
+    if (!raw.trim()) {
+      return {} as T;
     }
 
-    return payload as CurseForgeApiResponse<T>;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      throw new AppError(500, "Nexus API returned invalid JSON.");
+    }
   }
 
-  private async fetchCurseForgeMod(curseForge: CurseForgeRuntimeConfig, modId: number): Promise<CurseForgeApiMod> {
-    const response = await this.fetchCurseForgeApi<CurseForgeApiMod>(
-      curseForge,
-      `https://${curseForge.apiHost}/v1/mods/${modId}`,
-      { method: "GET" },
+  private async requestNexusGraphQl<T>(
+    nexus: NexusRuntimeConfig,
+    query: string,
+    variables: Record<string, unknown>,
+  ): Promise<T> {
+    const headers = new Headers();
+    headers.set("accept", "application/json");
+    headers.set("content-type", "application/json");
+    headers.set("APIKEY", nexus.apiKey);
+    headers.set("Application-Name", nexus.appName);
+    headers.set("Application-Version", nexus.appVersion);
+    headers.set("Protocol-Version", nexus.protocolVersion);
+    headers.set("User-Agent", `${nexus.appName}/${nexus.appVersion}`);
+
+    const response = await this.fetchWithTimeout(
+      `https://${nexus.apiHost}/v2/graphql`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          query,
+          variables,
+        }),
+      },
+      config.hytale.downloaderApiTimeoutMs,
     );
 
-    if (!response.data || typeof response.data !== "object") {
-      throw new AppError(404, `CurseForge mod ${modId} was not found.`);
+    const raw = await response.text();
+    let payload: NexusGraphQlResponse<T> = {};
+    try {
+      payload = JSON.parse(raw) as NexusGraphQlResponse<T>;
+    } catch {
+      payload = {};
     }
 
-    return response.data;
+    if (!response.ok) {
+      const message = (payload.errors?.[0]?.message ?? raw.trim()) || `${response.status} ${response.statusText}`;
+      throw new AppError(response.status, `Nexus GraphQL request failed: ${message}`);
+    }
+
+    if (payload.errors && payload.errors.length > 0) {
+      const message = payload.errors[0]?.message ?? "Unknown Nexus GraphQL error";
+      throw new AppError(400, `Nexus GraphQL error: ${message}`);
+    }
+
+    if (!payload.data) {
+      throw new AppError(500, "Nexus GraphQL response was empty.");
+    }
+
+    return payload.data;
   }
 
-  private async fetchCurseForgeModsByIds(
-    curseForge: CurseForgeRuntimeConfig,
-    modIds: number[],
-  ): Promise<Map<number, CurseForgeApiMod>> {
-    const uniqueIds = Array.from(new Set(modIds.map((value) => Math.trunc(value)).filter((value) => value > 0)));
-    const byId = new Map<number, CurseForgeApiMod>();
+  private normalizeNexusSort(value: string): NexusSearchSort {
+    const allowed = new Set<NexusSearchSort>(["popularity", "downloads", "lastUpdated", "name"]);
+    if (allowed.has(value as NexusSearchSort)) {
+      return value as NexusSearchSort;
+    }
+    return "popularity";
+  }
 
-    for (let index = 0; index < uniqueIds.length; index += 50) {
-      const chunk = uniqueIds.slice(index, index + 50);
-      const response = await this.fetchCurseForgeApi<CurseForgeApiMod[]>(
-        curseForge,
-        `https://${curseForge.apiHost}/v1/mods`,
+  private buildNexusModsFilter(gameDomain: string, query: string): Record<string, unknown> {
+    const gameFilter = {
+      gameDomainName: [{ value: gameDomain, op: "EQUALS" }],
+    };
+
+    if (!query) {
+      return gameFilter;
+    }
+
+    const wildcardValue = `*${query}*`;
+
+    return {
+      op: "AND",
+      filter: [
+        gameFilter,
         {
-          method: "POST",
-          body: JSON.stringify({ modIds: chunk }),
+          op: "OR",
+          filter: [
+            { name: [{ value: wildcardValue, op: "WILDCARD" }] },
+            { author: [{ value: wildcardValue, op: "WILDCARD" }] },
+            { uploader: [{ value: wildcardValue, op: "WILDCARD" }] },
+          ],
         },
-      );
+      ],
+    };
+  }
 
-      const mods = Array.isArray(response.data) ? response.data : [];
-      for (const item of mods) {
-        const id = Number(item.id ?? 0);
-        if (id > 0) {
-          byId.set(id, item);
-        }
-      }
+  private buildNexusModsSort(sort: NexusSearchSort): Array<Record<string, unknown>> {
+    switch (sort) {
+      case "downloads":
+        return [{ downloads: { direction: "DESC" } }];
+      case "lastUpdated":
+        return [{ updatedAt: { direction: "DESC" } }];
+      case "name":
+        return [{ name: { direction: "ASC" } }];
+      case "popularity":
+      default:
+        return [{ endorsements: { direction: "DESC" } }];
     }
+  }
 
-    return byId;
+  private toNexusSearchMod(node: NexusGraphQlModNode): NexusSearchMod {
+    return {
+      modId: node.modId,
+      uid: String(node.uid),
+      name: node.name,
+      summary: node.summary ?? "",
+      author: (node.author ?? "").trim() || "Unknown",
+      downloads: node.downloads ?? 0,
+      endorsements: node.endorsements ?? 0,
+      updatedAt: this.normalizeDateString(node.updatedAt, new Date().toISOString()),
+      createdAt: this.normalizeDateString(node.createdAt, new Date().toISOString()),
+      thumbnailUrl: node.thumbnailUrl ?? node.pictureUrl ?? null,
+      version: node.version ?? "",
+    };
   }
 
-  private async resolveLatestCurseForgeFile(
-    curseForge: CurseForgeRuntimeConfig,
-    modId: number,
-    latestFiles?: CurseForgeApiFile[],
-  ): Promise<CurseForgeApiFile | null> {
-    const fromLatest = this.selectCurseForgePreferredFile(latestFiles ?? []);
-    if (fromLatest) {
-      return fromLatest;
+  private async fetchNexusModById(nexus: NexusRuntimeConfig, modId: number): Promise<NexusRestModInfo> {
+    const mod = await this.requestNexusRest<NexusRestModInfo>(
+      nexus,
+      `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}`,
+      {
+        method: "GET",
+      },
+    );
+
+    const id = Number(mod.mod_id ?? 0);
+    if (id <= 0) {
+      throw new AppError(404, `Nexus mod ${modId} was not found.`);
     }
 
-    return await this.fetchLatestCurseForgeFileFromIndex(curseForge, modId);
+    return mod;
   }
 
-  private async fetchLatestCurseForgeFileFromIndex(
-    curseForge: CurseForgeRuntimeConfig,
-    modId: number,
-  ): Promise<CurseForgeApiFile | null> {
-    const endpoint = new URL(`https://${curseForge.apiHost}/v1/mods/${modId}/files`);
-    endpoint.searchParams.set("index", "0");
-    endpoint.searchParams.set("pageSize", "25");
-    endpoint.searchParams.set("sortField", "2");
-    endpoint.searchParams.set("sortOrder", "desc");
-
-    const response = await this.fetchCurseForgeApi<CurseForgeApiFile[]>(curseForge, endpoint.toString(), {
-      method: "GET",
-    });
+  private async fetchNexusModFiles(nexus: NexusRuntimeConfig, modId: number): Promise<NexusRestFileInfo[]> {
+    const payload = await this.requestNexusRest<NexusRestModFiles>(
+      nexus,
+      `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}/files`,
+      {
+        method: "GET",
+      },
+    );
 
-    const files = Array.isArray(response.data) ? response.data : [];
-    return this.selectCurseForgePreferredFile(files);
+    return Array.isArray(payload.files) ? payload.files : [];
   }
 
-  private selectCurseForgePreferredFile(files: CurseForgeApiFile[]): CurseForgeApiFile | null {
-    const candidates = files.filter((file) => {
-      if (typeof file.id !== "number" || file.id <= 0) {
-        return false;
-      }
-      if (file.isAvailable === false) {
-        return false;
-      }
+  private async resolveLatestNexusFile(nexus: NexusRuntimeConfig, modId: number): Promise<NexusResolvedFile | null> {
+    const files = await this.fetchNexusModFiles(nexus, modId);
+    return this.selectNexusPreferredFile(files);
+  }
 
-      const name = this.getCurseForgeFileDisplayName(file);
-      return !!name;
-    });
+  private selectNexusPreferredFile(files: NexusRestFileInfo[]): NexusResolvedFile | null {
+    const normalized = files
+      .map((file) => this.normalizeNexusFile(file))
+      .filter((file): file is NexusResolvedFile => !!file);
 
-    candidates.sort((left, right) => {
-      const leftDate = Date.parse(left.fileDate ?? "");
-      const rightDate = Date.parse(right.fileDate ?? "");
-      const leftTimestamp = Number.isFinite(leftDate) ? leftDate : 0;
-      const rightTimestamp = Number.isFinite(rightDate) ? rightDate : 0;
-      if (rightTimestamp !== leftTimestamp) {
-        return rightTimestamp - leftTimestamp;
+    normalized.sort((left, right) => {
+      if (left.isPrimary !== right.isPrimary) {
+        return left.isPrimary ? -1 : 1;
       }
-      return (Number(right.id ?? 0) || 0) - (Number(left.id ?? 0) || 0);
+      if (right.uploadedTimestamp !== left.uploadedTimestamp) {
+        return right.uploadedTimestamp - left.uploadedTimestamp;
+      }
+      return right.fileId - left.fileId;
     });
 
-    return candidates[0] ?? null;
+    return normalized[0] ?? null;
   }
 
-  private async installCurseForgeFile(
-    curseForge: CurseForgeRuntimeConfig,
-    mod: CurseForgeApiMod,
-    file: CurseForgeApiFile,
-    trackedOverride?: CurseForgeStoredMod,
-  ): Promise<{ stored: CurseForgeStoredMod; alreadyInstalled: boolean }> {
-    const modId = Number(mod.id ?? file.modId ?? 0);
-    if (!Number.isFinite(modId) || modId <= 0) {
-      throw new AppError(400, "CurseForge payload did not include a valid mod id.");
+  private normalizeNexusFile(input: NexusRestFileInfo): NexusResolvedFile | null {
+    const fileId = Math.trunc(Number(input.file_id ?? 0));
+    if (fileId <= 0) {
+      return null;
     }
 
-    const fileId = Number(file.id ?? 0);
-    if (!Number.isFinite(fileId) || fileId <= 0) {
-      throw new AppError(400, "CurseForge payload did not include a valid file id.");
+    const category = (input.category_name ?? "").toUpperCase();
+    if (category === "REMOVED" || category === "ARCHIVED") {
+      return null;
     }
 
-    const store = await this.readCurseForgeStore();
-    const tracked = trackedOverride ?? store.mods.find((item) => item.modId === modId);
+    const rawFileName = this.normalizeStringOrNull(input.file_name) ?? this.normalizeStringOrNull(input.name);
+    const fileName = this.normalizeStringOrNull(input.name) ?? rawFileName;
+    if (!fileName || !rawFileName) {
+      return null;
+    }
+
+    return {
+      fileId,
+      fileUid: String(input.uid ?? fileId),
+      fileName,
+      fileVersion: this.normalizeStringOrNull(input.version) ?? this.normalizeStringOrNull(input.mod_version) ?? "",
+      uploadedTimestamp: Math.max(0, Math.trunc(Number(input.uploaded_timestamp ?? 0))),
+      rawFileName,
+      isPrimary: !!input.is_primary || category === "MAIN",
+    };
+  }
+
+  private async installNexusFile(
+    nexus: NexusRuntimeConfig,
+    mod: NexusRestModInfo,
+    file: NexusResolvedFile,
+    trackedOverride?: NexusStoredMod,
+    actor: string | null = null,
+  ): Promise<{ stored: NexusStoredMod; alreadyInstalled: boolean }> {
+    const modId = Math.trunc(Number(mod.mod_id ?? 0));
+    if (modId <= 0) {
+      throw new AppError(400, "Nexus mod payload did not include a valid mod id.");
+    }
 
+    const store = await this.readNexusStore();
+    const tracked = trackedOverride ?? store.mods.find((item) => item.modId === modId);
     const modsDir = path.join(config.hytale.serverDir, "mods");
     await mkdir(modsDir, { recursive: true });
     await mkdir(config.app.uploadsDir, { recursive: true });
 
-    if (tracked && tracked.fileId === fileId) {
+    if (tracked && tracked.fileId === file.fileId) {
       const trackedPath = path.join(modsDir, tracked.localFilename);
       if (await pathExists(trackedPath)) {
         return {
@@ -4996,57 +11065,58 @@ export class HytaleManager {
       }
     }
 
-    const modName = this.normalizeStringOrNull(mod.name) ?? `Mod ${modId}`;
-    const authorNames = this.extractCurseForgeAuthorNames(mod.authors);
-    const remoteFileName = this.getCurseForgeFileDisplayName(file) ?? `${sanitizeFilename(modName)}-${fileId}.jar`;
+    const modName = this.normalizeStringOrNull(mod.name) ?? `Nexus Mod ${modId}`;
     const keepDisabled = tracked?.localFilename.endsWith(".disabled") ?? false;
-    const targetName = this.normalizeCurseForgeFilename(remoteFileName, keepDisabled);
-    const downloadUrl = await this.resolveCurseForgeDownloadUrl(curseForge, modId, file);
-
-    this.pushTerminal(`Downloading CurseForge mod ${modName} (${remoteFileName})...`, "system");
+    const targetName = this.normalizeNexusFilename(file.rawFileName, keepDisabled);
+    const downloadUrl = await this.resolveNexusDownloadUrl(nexus, modId, file.fileId);
+    this.pushTerminal(`Downloading Nexus mod ${modName} (${file.fileName})...`, "system");
 
-    const tempPath = path.join(config.app.uploadsDir, `curseforge-${modId}-${fileId}-${randomUUID()}.part`);
+    const tempPath = path.join(config.app.uploadsDir, `nexus-${modId}-${file.fileId}-${randomUUID()}.part`);
     try {
       await this.downloadFileWithProgress(downloadUrl, tempPath, config.hytale.downloaderDownloadTimeoutMs, {
-        cacheKey: `curseforge-${modId}-${fileId}`,
+        cacheKey: `nexus-${nexus.gameDomain}-${modId}-${file.fileId}`,
+        cacheLabel: { group: `nexus-${nexus.gameDomain}-${modId}`, name: modName, version: file.rawFileName },
       });
 
       let targetPath = path.join(modsDir, targetName);
-      if (await pathExists(targetPath)) {
-        if (tracked && tracked.localFilename === path.basename(targetPath)) {
-          await rm(targetPath, { force: true });
-        } else {
-          targetPath = await this.resolveUniquePath(targetPath);
-        }
+      if ((await pathExists(targetPath)) && tracked?.localFilename !== path.basename(targetPath)) {
+        targetPath = await this.resolveUniquePath(targetPath);
+      }
+      if (tracked) {
+        await this.takeModReplaceSnapshot(`Update mod ${modName}`, actor, [tracked.localFilename, path.basename(targetPath)]);
       }
 
+      await rm(targetPath, { force: true });
       await rename(tempPath, targetPath);
 
       if (tracked && tracked.localFilename !== path.basename(targetPath)) {
         await rm(path.join(modsDir, tracked.localFilename), { force: true });
       }
 
-      const stored: CurseForgeStoredMod = {
+      const stored: NexusStoredMod = {
         modId,
+        modUid: String(mod.uid ?? modId),
         modName,
-        authorNames,
-        fileId,
-        fileName: remoteFileName,
+        author: this.normalizeStringOrNull(mod.author) ?? "Unknown",
+        fileId: file.fileId,
+        fileUid: file.fileUid,
+        fileName: file.fileName,
+        fileVersion: file.fileVersion,
         localFilename: path.basename(targetPath),
         installedAt: new Date().toISOString(),
-        dateModified: this.normalizeDateString(mod.dateModified, new Date().toISOString()),
-        websiteUrl: this.normalizeStringOrNull(mod.links?.websiteUrl),
+        updatedAt: new Date().toISOString(),
+        pageUrl: `https://${nexus.webHost}/${nexus.gameDomain}/mods/${modId}`,
       };
 
       const nextMods = store.mods.filter((item) => item.modId !== modId);
       nextMods.push(stored);
       nextMods.sort((a, b) => a.modName.localeCompare(b.modName));
-      await this.writeCurseForgeStore({
+      await this.writeNexusStore({
         version: 1,
         mods: nextMods,
       });
 
-      this.pushTerminal(`Installed CurseForge mod ${modName} as ${path.basename(targetPath)}.`, "system");
+      this.pushTerminal(`Installed Nexus mod ${modName} as ${path.basename(targetPath)}.`, "system");
       return {
         stored,
         alreadyInstalled: false,
@@ -5056,119 +11126,45 @@ export class HytaleManager {
     }
   }
 
-  private async resolveCurseForgeDownloadUrl(
-    curseForge: CurseForgeRuntimeConfig,
-    modId: number,
-    file: CurseForgeApiFile,
-  ): Promise<string> {
-    const fromFile = this.normalizeStringOrNull(file.downloadUrl);
-    if (fromFile) {
-      return fromFile;
-    }
-
-    const fileId = Number(file.id ?? 0);
-    if (fileId <= 0) {
-      throw new AppError(400, "Cannot resolve CurseForge download URL without a file id.");
-    }
-
-    const response = await this.fetchCurseForgeApi<string>(
-      curseForge,
-      `https://${curseForge.apiHost}/v1/mods/${modId}/files/${fileId}/download-url`,
-      { method: "GET" },
-    );
-
-    if (typeof response.data !== "string" || response.data.trim().length === 0) {
-      throw new AppError(500, "CurseForge did not return a valid download URL.");
-    }
-
-    return response.data.trim();
-  }
-
-  private getCurseForgeFileDisplayName(file: CurseForgeApiFile): string | null {
-    const fileName = this.normalizeStringOrNull(file.fileName);
-    if (fileName) {
-      return fileName;
-    }
+  private async resolveNexusDownloadUrl(nexus: NexusRuntimeConfig, modId: number, fileId: number): Promise<string> {
+    try {
+      const mirrors = await this.requestNexusRest<NexusRestDownloadUrl[]>(
+        nexus,
+        `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}/files/${fileId}/download_link`,
+        {
+          method: "GET",
+        },
+      );
 
-    const displayName = this.normalizeStringOrNull(file.displayName);
-    if (displayName) {
-      return displayName;
+      const urls = Array.isArray(mirrors) ? mirrors : [];
+      const candidate = urls.find((item) => typeof item.URI === "string" && item.URI.trim().length > 0);
+      if (!candidate || !candidate.URI) {
+        throw new AppError(500, "Nexus did not return a direct download URL.");
+      }
+      return candidate.URI.trim();
+    } catch (error) {
+      if (error instanceof AppError && (error.status === 401 || error.status === 403 || error.status === 400)) {
+        throw new AppError(
+          409,
+          "Nexus direct download failed. This account may require Premium or a temporary key/expires from an NXM manager link.",
+        );
+      }
+      throw error;
     }
-
-    return null;
   }
 
-  private normalizeCurseForgeFilename(rawName: string, disabled: boolean): string {
+  private normalizeNexusFilename(rawName: string, disabled: boolean): string {
     const sanitized = sanitizeFilename(rawName);
     const hasExtension = /\.[a-z0-9]+$/i.test(sanitized);
-    const baseName = hasExtension ? sanitized : `${sanitized}.jar`;
+    const baseName = hasExtension ? sanitized : `${sanitized}.zip`;
     if (!disabled) {
       return baseName;
     }
-    return baseName.endsWith(".disabled") ? baseName : `${baseName}.disabled`;
-  }
-
-  private toCurseForgeSearchMod(mod: CurseForgeApiMod): CurseForgeSearchMod | null {
-    const id = Number(mod.id ?? 0);
-    if (!Number.isFinite(id) || id <= 0) {
-      return null;
-    }
-
-    const name = this.normalizeStringOrNull(mod.name);
-    if (!name) {
-      return null;
-    }
-
-    return {
-      id,
-      name,
-      summary: this.normalizeStringOrNull(mod.summary) ?? "",
-      authors: this.extractCurseForgeAuthorNames(mod.authors),
-      downloadCount: Number(mod.downloadCount ?? 0) || 0,
-      dateModified: this.normalizeDateString(mod.dateModified, new Date(0).toISOString()),
-      dateReleased: this.normalizeDateString(mod.dateReleased, new Date(0).toISOString()),
-      logoUrl: this.normalizeStringOrNull(mod.logo?.thumbnailUrl) ?? this.normalizeStringOrNull(mod.logo?.url),
-      websiteUrl: this.normalizeStringOrNull(mod.links?.websiteUrl),
-    };
-  }
-
-  private extractCurseForgeAuthorNames(authors: CurseForgeApiAuthor[] | undefined): string[] {
-    if (!Array.isArray(authors)) {
-      return [];
-    }
-
-    const names = authors
-      .map((author) => this.normalizeStringOrNull(author.name))
-      .filter((name): name is string => !!name);
-
-    return Array.from(new Set(names));
-  }
-
-  private normalizeDateString(value: string | undefined, fallback: string): string {
-    const raw = this.normalizeStringOrNull(value);
-    if (!raw) {
-      return fallback;
-    }
-
-    const parsed = Date.parse(raw);
-    if (!Number.isFinite(parsed)) {
-      return fallback;
-    }
-
-    return new Date(parsed).toISOString();
-  }
-
-  private normalizeStringOrNull(value: unknown): string | null {
-    if (typeof value !== "string") {
-      return null;
-    }
-
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : null;
+    return baseName.endsWith(".disabled") ? baseName : `${baseName}.disabled`;
   }
 
-  private async readCurseForgeStore(): Promise<CurseForgeStore> {
-    const statePath = config.hytale.curseForgeStatePath;
+  private async readNexusStore(): Promise<NexusStore> {
+    const statePath = config.hytale.nexusStatePath;
     if (!(await pathExists(statePath))) {
       return {
         version: 1,
@@ -5178,10 +11174,10 @@ export class HytaleManager {
 
     try {
       const raw = await readFile(statePath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<CurseForgeStore>;
-      return this.normalizeCurseForgeStore(parsed);
+      const parsed = JSON.parse(raw) as Partial<NexusStore>;
+      return this.normalizeNexusStore(parsed);
     } catch {
-      this.pushTerminal("CurseForge mod state file is invalid; starting from an empty tracked set.", "system");
+      this.pushTerminal("Nexus mod state file is invalid; starting from an empty tracked set.", "system");
       return {
         version: 1,
         mods: [],
@@ -5189,7 +11185,7 @@ export class HytaleManager {
     }
   }
 
-  private normalizeCurseForgeStore(input: Partial<CurseForgeStore> | null | undefined): CurseForgeStore {
+  private normalizeNexusStore(input: Partial<NexusStore> | null | undefined): NexusStore {
     if (!input || typeof input !== "object") {
       return {
         version: 1,
@@ -5199,11 +11195,11 @@ export class HytaleManager {
 
     const mods = Array.isArray(input.mods)
       ? input.mods
-          .map((item) => this.normalizeCurseForgeStoredMod(item as Partial<CurseForgeStoredMod>))
-          .filter((item): item is CurseForgeStoredMod => !!item)
+          .map((item) => this.normalizeNexusStoredMod(item as Partial<NexusStoredMod>))
+          .filter((item): item is NexusStoredMod => !!item)
       : [];
 
-    const dedup = new Map<number, CurseForgeStoredMod>();
+    const dedup = new Map<number, NexusStoredMod>();
     for (const item of mods) {
       dedup.set(item.modId, item);
     }
@@ -5214,64 +11210,61 @@ export class HytaleManager {
     };
   }
 
-  private normalizeCurseForgeStoredMod(input: Partial<CurseForgeStoredMod>): CurseForgeStoredMod | null {
-    const modId = Number(input.modId ?? 0);
-    const fileId = Number(input.fileId ?? 0);
+  private normalizeNexusStoredMod(input: Partial<NexusStoredMod>): NexusStoredMod | null {
+    const modId = Math.trunc(Number(input.modId ?? 0));
+    const fileId = Math.trunc(Number(input.fileId ?? 0));
     const modName = this.normalizeStringOrNull(input.modName);
-    const fileName = this.normalizeStringOrNull(input.fileName);
     const localFilename = this.normalizeStringOrNull(input.localFilename);
+    const fileName = this.normalizeStringOrNull(input.fileName);
     const installedAt = this.normalizeStringOrNull(input.installedAt);
-
-    if (modId <= 0 || fileId <= 0 || !modName || !fileName || !localFilename || !installedAt) {
+    const pageUrl = this.normalizeStringOrNull(input.pageUrl);
+    if (modId <= 0 || fileId <= 0 || !modName || !localFilename || !fileName || !installedAt || !pageUrl) {
       return null;
     }
 
-    const authorNames = Array.isArray(input.authorNames)
-      ? input.authorNames
-          .map((value) => this.normalizeStringOrNull(value))
-          .filter((value): value is string => !!value)
-      : [];
-
     return {
       modId,
+      modUid: this.normalizeStringOrNull(input.modUid) ?? String(modId),
       modName,
-      authorNames: Array.from(new Set(authorNames)),
+      author: this.normalizeStringOrNull(input.author) ?? "Unknown",
       fileId,
+      fileUid: this.normalizeStringOrNull(input.fileUid) ?? String(fileId),
       fileName,
+      fileVersion: this.normalizeStringOrNull(input.fileVersion) ?? "",
       localFilename: sanitizeFilename(localFilename),
       installedAt: this.normalizeDateString(installedAt, new Date().toISOString()),
-      dateModified: this.normalizeDateString(input.dateModified, new Date(0).toISOString()),
-      websiteUrl: this.normalizeStringOrNull(input.websiteUrl),
+      updatedAt: this.normalizeDateString(input.updatedAt, new Date().toISOString()),
+      pageUrl,
     };
   }
 
-  private async writeCurseForgeStore(store: CurseForgeStore): Promise<void> {
-    const normalized = this.normalizeCurseForgeStore(store);
-    await writeFile(config.hytale.curseForgeStatePath, JSON.stringify(normalized, null, 2), "utf8");
+  private async writeNexusStore(store: NexusStore): Promise<void> {
+    const normalized = this.normalizeNexusStore(store);
+    await writeFile(config.hytale.nexusStatePath, JSON.stringify(normalized, null, 2), "utf8");
   }
 
-  private async removeCurseForgeTrackingForFilename(filename: string): Promise<void> {
+  private async removeNexusTrackingForFilename(filename: string): Promise<void> {
     const safe = sanitizeFilename(filename);
-    const store = await this.readCurseForgeStore();
+    const store = await this.readNexusStore();
     const nextMods = store.mods.filter((item) => item.localFilename !== safe);
     if (nextMods.length === store.mods.length) {
       return;
     }
 
-    await this.writeCurseForgeStore({
+    await this.writeNexusStore({
       version: 1,
       mods: nextMods,
     });
   }
 
-  private async renameCurseForgeTrackedFilename(from: string, to: string): Promise<void> {
+  private async renameNexusTrackedFilename(from: string, to: string): Promise<void> {
     const safeFrom = sanitizeFilename(from);
     const safeTo = sanitizeFilename(to);
     if (safeFrom === safeTo) {
       return;
     }
 
-    const store = await this.readCurseForgeStore();
+    const store = await this.readNexusStore();
     let changed = false;
     const nextMods = store.mods.map((item) => {
       if (item.localFilename !== safeFrom) {
@@ -5289,632 +11282,716 @@ export class HytaleManager {
       return;
     }
 
-    await this.writeCurseForgeStore({
+    await this.writeNexusStore({
       version: 1,
       mods: nextMods,
     });
   }
 
-  private async getNexusConfig(): Promise<NexusRuntimeConfig | null> {
-    const envApiKey = config.hytale.nexusApiKey.trim();
-    const envDomain = this.normalizeNexusDomain(config.hytale.nexusGameDomain);
-    if (envApiKey && envDomain) {
-      return {
-        apiHost: config.hytale.nexusApiHost,
-        webHost: config.hytale.nexusWebHost,
-        ssoWsUrl: config.hytale.nexusSsoWsUrl,
-        apiKey: envApiKey,
-        gameDomain: envDomain,
-        appId: config.hytale.nexusAppId.trim(),
-        appName: config.hytale.nexusApplicationName,
-        appVersion: config.hytale.nexusApplicationVersion,
-        protocolVersion: config.hytale.nexusProtocolVersion,
-        pageSize: config.hytale.nexusDefaultPageSize,
-        source: "env",
-        premium: false,
-        userName: "",
-      };
-    }
-
-    const encryptedApiKey = getAppSetting(NEXUS_SETTING_API_KEY);
-    const storedDomain = this.normalizeNexusDomain(getAppSetting(NEXUS_SETTING_GAME_DOMAIN) ?? "");
-    if (!encryptedApiKey || !storedDomain) {
-      return null;
-    }
-
-    const apiKey = await decryptSecret(encryptedApiKey);
-    if (!apiKey) {
-      return null;
-    }
-
-    return {
-      apiHost: config.hytale.nexusApiHost,
-      webHost: config.hytale.nexusWebHost,
-      ssoWsUrl: config.hytale.nexusSsoWsUrl,
-      apiKey,
-      gameDomain: storedDomain,
-      appId: config.hytale.nexusAppId.trim(),
-      appName: config.hytale.nexusApplicationName,
-      appVersion: config.hytale.nexusApplicationVersion,
-      protocolVersion: config.hytale.nexusProtocolVersion,
-      pageSize: config.hytale.nexusDefaultPageSize,
-      source: "dashboard",
-      premium: getAppSetting(NEXUS_SETTING_IS_PREMIUM) === "true",
-      userName: getAppSetting(NEXUS_SETTING_USER_NAME) ?? "",
-    };
+  private async isInstalled(): Promise<boolean> {
+    const jarPath = path.join(config.hytale.serverDir, "HytaleServer.jar");
+    const assetsPath = path.join(config.hytale.serverDir, "Assets.zip");
+    return (await pathExists(jarPath)) && (await pathExists(assetsPath));
   }
 
-  private async getNexusConfigOrThrow(): Promise<NexusRuntimeConfig> {
-    const nexus = await this.getNexusConfig();
-    if (nexus) {
-      return nexus;
+  private async consumeStream(stream: ReadableStream<Uint8Array> | null, type: StreamType): Promise<void> {
+    if (!stream) {
+      return;
     }
 
-    throw new AppError(
-      400,
-      "Nexus is not configured. Use the dashboard Connect flow or set HYTALE_NEXUS_API_KEY and HYTALE_NEXUS_GAME_DOMAIN.",
-    );
-  }
+    const decoder = new TextDecoder();
+    const reader = stream.getReader();
+    let pending = "";
 
-  private normalizeNexusDomain(value: string): string | null {
-    const normalized = value.trim().toLowerCase();
-    if (!/^[a-z0-9-]+$/.test(normalized)) {
-      return null;
-    }
-    return normalized;
-  }
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
 
-  private async validateNexusApiKey(nexus: NexusRuntimeConfig): Promise<NexusApiKeyValidation> {
-    return await this.requestNexusRest<NexusApiKeyValidation>(nexus, "/v1/users/validate", {
-      method: "GET",
-    });
-  }
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split(/(?:\r\n|\n|\r)/);
+        pending = lines.pop() ?? "";
 
-  private async ensureNexusGameExists(nexus: NexusRuntimeConfig): Promise<void> {
-    await this.requestNexusRest<Record<string, unknown>>(nexus, `/v1/games/${encodeURIComponent(nexus.gameDomain)}`, {
-      method: "GET",
-    });
-  }
+        for (const line of lines) {
+          if (line.length === 0) {
+            continue;
+          }
+          this.pushTerminal(line, type);
+          if (type !== "system") {
+            this.checkStartupReadiness(line);
+            this.checkPlayerPresence(line);
+            for (const waiter of this.outputWaiters) {
+              waiter(line);
+            }
+          }
+        }
+      }
 
-  private async requestNexusRest<T>(nexus: NexusRuntimeConfig, endpoint: string, init: RequestInit): Promise<T> {
-    const headers = new Headers(init.headers);
-    headers.set("accept", "application/json");
-    headers.set("APIKEY", nexus.apiKey);
-    headers.set("Application-Name", nexus.appName);
-    headers.set("Application-Version", nexus.appVersion);
-    headers.set("Protocol-Version", nexus.protocolVersion);
-    headers.set("User-Agent", `${nexus.appName}/${nexus.appVersion}`);
-    if (init.body && !headers.has("content-type")) {
-      headers.set("content-type", "application/json");
+      if (pending.length > 0) {
+        this.pushTerminal(pending, type);
+      }
+    } finally {
+      reader.releaseLock();
     }
+  }
 
-    const url = `https://${nexus.apiHost}${endpoint}`;
-    const response = await this.fetchWithTimeout(
-      url,
-      {
-        ...init,
-        headers,
-      },
-      config.hytale.downloaderApiTimeoutMs,
-    );
-
-    const raw = await response.text();
-    if (!response.ok) {
-      const details = raw.trim() || `${response.status} ${response.statusText}`;
-      throw new AppError(response.status, `Nexus API request failed: ${details}`);
-    }
+  private pushTerminal(line: string, source: StreamType): void {
+    const stamped = `${new Date().toISOString()} [${source}] ${line}`;
+    this.terminalBuffer.push(stamped);
 
-    if (!raw.trim()) {
-      return {} as T;
+    if (this.terminalBuffer.length > config.hytale.terminalBufferLines) {
+      this.terminalBuffer.splice(0, this.terminalBuffer.length - config.hytale.terminalBufferLines);
     }
 
-    try {
-      return JSON.parse(raw) as T;
-    } catch {
-      throw new AppError(500, "Nexus API returned invalid JSON.");
-    }
+    this.broadcast("server.output", {
+      line: stamped,
+      source,
+    });
   }
 
-  private async requestNexusGraphQl<T>(
-    nexus: NexusRuntimeConfig,
-    query: string,
-    variables: Record<string, unknown>,
-  ): Promise<T> {
-    const headers = new Headers();
-    headers.set("accept", "application/json");
-    headers.set("content-type", "application/json");
-    headers.set("APIKEY", nexus.apiKey);
-    headers.set("Application-Name", nexus.appName);
-    headers.set("Application-Version", nexus.appVersion);
-    headers.set("Protocol-Version", nexus.protocolVersion);
-    headers.set("User-Agent", `${nexus.appName}/${nexus.appVersion}`);
-
-    const response = await this.fetchWithTimeout(
-      `https://${nexus.apiHost}/v2/graphql`,
-      {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          query,
-          variables,
-        }),
-      },
-      config.hytale.downloaderApiTimeoutMs,
-    );
-
-    const raw = await response.text();
-    let payload: NexusGraphQlResponse<T> = {};
+  private resolveReadyPattern(): RegExp {
+    const raw = config.hytale.readyPattern.trim() || "Hytale Server Booted";
     try {
-      payload = JSON.parse(raw) as NexusGraphQlResponse<T>;
+      return new RegExp(raw, "i");
     } catch {
-      payload = {};
-    }
-
-    if (!response.ok) {
-      const message = (payload.errors?.[0]?.message ?? raw.trim()) || `${response.status} ${response.statusText}`;
-      throw new AppError(response.status, `Nexus GraphQL request failed: ${message}`);
-    }
-
-    if (payload.errors && payload.errors.length > 0) {
-      const message = payload.errors[0]?.message ?? "Unknown Nexus GraphQL error";
-      throw new AppError(400, `Nexus GraphQL error: ${message}`);
+      return new RegExp(raw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
     }
+  }
 
-    if (!payload.data) {
-      throw new AppError(500, "Nexus GraphQL response was empty.");
+  private checkStartupReadiness(line: string): void {
+    const readiness = this.startupReadiness;
+    if (!readiness || !readiness.pattern.test(line)) {
+      return;
     }
 
-    return payload.data;
-  }
-
-  private normalizeNexusSort(value: string): NexusSearchSort {
-    const allowed = new Set<NexusSearchSort>(["popularity", "downloads", "lastUpdated", "name"]);
-    if (allowed.has(value as NexusSearchSort)) {
-      return value as NexusSearchSort;
+    this.startupReadiness = null;
+    if (this.status === "starting") {
+      this.status = "running";
+      const startupMs = this.startedAt ? Date.now() - Date.parse(this.startedAt) : 0;
+      this.pushTerminal(`Server is ready (startup took ${(startupMs / 1000).toFixed(1)}s).`, "system");
+      this.broadcast("server.ready", { startedAt: this.startedAt, startupMs });
+      this.emitState();
     }
-    return "popularity";
+    readiness.resolve();
   }
 
-  private buildNexusModsFilter(gameDomain: string, query: string): Record<string, unknown> {
-    const gameFilter = {
-      gameDomainName: [{ value: gameDomain, op: "EQUALS" }],
-    };
+  private async waitForStartupReadiness(ready: Promise<void>): Promise<void> {
+    const timeoutMs = Math.max(1_000, config.hytale.startupTimeoutMs);
+    let timer: Timer | null = null;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    });
 
-    if (!query) {
-      return gameFilter;
+    try {
+      if (!(await Promise.race([ready.then(() => false), timedOut]))) {
+        return;
+      }
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
     }
 
-    const wildcardValue = `*${query}*`;
+    const pattern = this.startupReadiness?.pattern.source ?? config.hytale.readyPattern;
+    this.startupReadiness = null;
+    const message = `Server did not report ready within ${Math.round(timeoutMs / 1000)}s (waiting for /${pattern}/ in output). Stopping it.`;
+    this.pushTerminal(message, "system");
+    this.broadcast("server.startup.failed", { reason: "timeout", timeoutMs, message });
+    await this.stop(true);
+    throw new AppError(504, `Server did not become ready within ${Math.round(timeoutMs / 1000)}s.`);
+  }
 
-    return {
-      op: "AND",
-      filter: [
-        gameFilter,
-        {
-          op: "OR",
-          filter: [
-            { name: [{ value: wildcardValue, op: "WILDCARD" }] },
-            { author: [{ value: wildcardValue, op: "WILDCARD" }] },
-            { uploader: [{ value: wildcardValue, op: "WILDCARD" }] },
-          ],
-        },
-      ],
-    };
+  getOnlinePlayers(): OnlinePlayer[] {
+    const now = Date.now();
+    return [...this.onlinePlayers.values()]
+      .map((player) => ({
+        uuid: player.uuid,
+        username: player.username,
+        joinedAt: player.joinedAt,
+        sessionSeconds: Math.max(0, Math.floor((now - Date.parse(player.joinedAt)) / 1000)),
+      }))
+      .sort((left, right) => left.username.localeCompare(right.username));
   }
 
-  private buildNexusModsSort(sort: NexusSearchSort): Array<Record<string, unknown>> {
-    switch (sort) {
-      case "downloads":
-        return [{ downloads: { direction: "DESC" } }];
-      case "lastUpdated":
-        return [{ updatedAt: { direction: "DESC" } }];
-      case "name":
-        return [{ name: { direction: "ASC" } }];
-      case "popularity":
-      default:
-        return [{ endorsements: { direction: "DESC" } }];
+  listPlayerSessions(uuid: string | null, limit: number): PlayerSession[] {
+    const normalizedUuid = uuid ? this.normalizeUuid(uuid) : null;
+    if (uuid && !normalizedUuid) {
+      throw new AppError(400, "Invalid player UUID.");
     }
+    const safeLimit = Number.isFinite(limit) ? Math.max(1, Math.min(500, Math.floor(limit))) : 100;
+    return listPlayerSessions(normalizedUuid, safeLimit);
   }
 
-  private toNexusSearchMod(node: NexusGraphQlModNode): NexusSearchMod {
-    return {
-      modId: node.modId,
-      uid: String(node.uid),
-      name: node.name,
-      summary: node.summary ?? "",
-      author: (node.author ?? "").trim() || "Unknown",
-      downloads: node.downloads ?? 0,
-      endorsements: node.endorsements ?? 0,
-      updatedAt: this.normalizeDateString(node.updatedAt, new Date().toISOString()),
-      createdAt: this.normalizeDateString(node.createdAt, new Date().toISOString()),
-      thumbnailUrl: node.thumbnailUrl ?? node.pictureUrl ?? null,
-      version: node.version ?? "",
+  private resolvePlayerPatterns(): PlayerPatterns {
+    if (this.playerPatterns) {
+      return this.playerPatterns;
+    }
+
+    const compile = (raw: string, label: string): RegExp | null => {
+      const trimmed = raw.trim();
+      if (!trimmed) {
+        return null;
+      }
+      try {
+        return new RegExp(trimmed, "i");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.pushTerminal(`Ignoring invalid player ${label} pattern: ${message}`, "system");
+        return null;
+      }
     };
-  }
 
-  private async fetchNexusModById(nexus: NexusRuntimeConfig, modId: number): Promise<NexusRestModInfo> {
-    const mod = await this.requestNexusRest<NexusRestModInfo>(
-      nexus,
-      `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}`,
-      {
-        method: "GET",
-      },
-    );
+    this.playerPatterns = {
+      join: compile(config.hytale.playerJoinPattern, "join"),
+      leave: compile(config.hytale.playerLeavePattern, "leave"),
+    };
+    return this.playerPatterns;
+  }
 
-    const id = Number(mod.mod_id ?? 0);
-    if (id <= 0) {
-      throw new AppError(404, `Nexus mod ${modId} was not found.`);
+  private checkPlayerPresence(line: string): void {
+    if (!this.process) {
+      return;
     }
 
-    return mod;
-  }
-
-  private async fetchNexusModFiles(nexus: NexusRuntimeConfig, modId: number): Promise<NexusRestFileInfo[]> {
-    const payload = await this.requestNexusRest<NexusRestModFiles>(
-      nexus,
-      `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}/files`,
-      {
-        method: "GET",
-      },
-    );
+    const patterns = this.resolvePlayerPatterns();
+    const joinMatch = patterns.join?.exec(line);
+    const leaveMatch = joinMatch ? null : patterns.leave?.exec(line);
+    const match = joinMatch ?? leaveMatch;
+    if (!match) {
+      return;
+    }
 
-    return Array.isArray(payload.files) ? payload.files : [];
-  }
+    const username = this.normalizePlayerUsername(match.groups?.name ?? match[1]);
+    const rawUuid = match.groups?.uuid ?? UUID_IN_LINE_PATTERN.exec(line)?.[1] ?? null;
+    const uuid = rawUuid ? this.normalizeUuid(rawUuid) : null;
+    if (!username) {
+      return;
+    }
 
-  private async resolveLatestNexusFile(nexus: NexusRuntimeConfig, modId: number): Promise<NexusResolvedFile | null> {
-    const files = await this.fetchNexusModFiles(nexus, modId);
-    return this.selectNexusPreferredFile(files);
+    if (joinMatch) {
+      this.enqueuePlayerEvent(() => this.handlePlayerJoin(username, uuid));
+    } else {
+      this.enqueuePlayerEvent(() => this.handlePlayerLeave(username, uuid));
+    }
   }
 
-  private selectNexusPreferredFile(files: NexusRestFileInfo[]): NexusResolvedFile | null {
-    const normalized = files
-      .map((file) => this.normalizeNexusFile(file))
-      .filter((file): file is NexusResolvedFile => !!file);
-
-    normalized.sort((left, right) => {
-      if (left.isPrimary !== right.isPrimary) {
-        return left.isPrimary ? -1 : 1;
-      }
-      if (right.uploadedTimestamp !== left.uploadedTimestamp) {
-        return right.uploadedTimestamp - left.uploadedTimestamp;
-      }
-      return right.fileId - left.fileId;
+  // Join/leave handling touches SQLite and the name cache file; serialising keeps the roster in console order.
+  private enqueuePlayerEvent(task: () => Promise<void>): void {
+    this.playerEventQueue = this.playerEventQueue.then(task).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Failed to update online players: ${message}`, "system");
     });
-
-    return normalized[0] ?? null;
   }
 
-  private normalizeNexusFile(input: NexusRestFileInfo): NexusResolvedFile | null {
-    const fileId = Math.trunc(Number(input.file_id ?? 0));
-    if (fileId <= 0) {
-      return null;
+  private async handlePlayerJoin(username: string, parsedUuid: string | null): Promise<void> {
+    const cache = await this.readPlayerNameCache();
+    let uuid = parsedUuid;
+    if (!uuid) {
+      const lower = username.toLowerCase();
+      for (const [cachedUuid, entry] of cache) {
+        if (entry.username.toLowerCase() === lower) {
+          uuid = cachedUuid;
+          break;
+        }
+      }
     }
 
-    const category = (input.category_name ?? "").toUpperCase();
-    if (category === "REMOVED" || category === "ARCHIVED") {
-      return null;
+    const key = this.getOnlinePlayerKey(username, uuid);
+    const joinedAt = new Date().toISOString();
+    const existing = this.onlinePlayers.get(key);
+    if (existing) {
+      closePlayerSession(existing.sessionId, joinedAt);
     }
 
-    const rawFileName = this.normalizeStringOrNull(input.file_name) ?? this.normalizeStringOrNull(input.name);
-    const fileName = this.normalizeStringOrNull(input.name) ?? rawFileName;
-    if (!fileName || !rawFileName) {
-      return null;
-    }
+    const sessionId = openPlayerSession(uuid, username, joinedAt);
+    this.onlinePlayers.set(key, { uuid, username, joinedAt, sessionId });
+    this.emitOnlinePlayers();
 
-    return {
-      fileId,
-      fileUid: String(input.uid ?? fileId),
-      fileName,
-      fileVersion: this.normalizeStringOrNull(input.version) ?? this.normalizeStringOrNull(input.mod_version) ?? "",
-      uploadedTimestamp: Math.max(0, Math.trunc(Number(input.uploaded_timestamp ?? 0))),
-      rawFileName,
-      isPrimary: !!input.is_primary || category === "MAIN",
-    };
+    if (uuid && cache.get(uuid)?.username !== username) {
+      cache.set(uuid, {
+        username,
+        updatedAt: joinedAt,
+      });
+      await this.writePlayerNameCache(cache);
+    }
   }
 
-  private async installNexusFile(
-    nexus: NexusRuntimeConfig,
-    mod: NexusRestModInfo,
-    file: NexusResolvedFile,
-    trackedOverride?: NexusStoredMod,
-  ): Promise<{ stored: NexusStoredMod; alreadyInstalled: boolean }> {
-    const modId = Math.trunc(Number(mod.mod_id ?? 0));
-    if (modId <= 0) {
-      throw new AppError(400, "Nexus mod payload did not include a valid mod id.");
+  private async handlePlayerLeave(username: string, uuid: string | null): Promise<void> {
+    let key = uuid && this.onlinePlayers.has(uuid) ? uuid : null;
+    if (!key) {
+      const lower = username.toLowerCase();
+      for (const [candidateKey, player] of this.onlinePlayers) {
+        if (player.username.toLowerCase() === lower) {
+          key = candidateKey;
+          break;
+        }
+      }
     }
 
-    const store = await this.readNexusStore();
-    const tracked = trackedOverride ?? store.mods.find((item) => item.modId === modId);
-    const modsDir = path.join(config.hytale.serverDir, "mods");
-    await mkdir(modsDir, { recursive: true });
-    await mkdir(config.app.uploadsDir, { recursive: true });
+    const player = key ? this.onlinePlayers.get(key) : undefined;
+    if (!key || !player) {
+      return;
+    }
 
-    if (tracked && tracked.fileId === file.fileId) {
-      const trackedPath = path.join(modsDir, tracked.localFilename);
-      if (await pathExists(trackedPath)) {
-        return {
-          stored: tracked,
-          alreadyInstalled: true,
-        };
+    this.onlinePlayers.delete(key);
+    closePlayerSession(player.sessionId, new Date().toISOString());
+    this.emitOnlinePlayers();
+  }
+
+  private clearOnlinePlayers(): void {
+    this.enqueuePlayerEvent(async () => {
+      if (this.onlinePlayers.size === 0) {
+        return;
       }
-    }
+      const leftAt = new Date().toISOString();
+      for (const player of this.onlinePlayers.values()) {
+        closePlayerSession(player.sessionId, leftAt);
+      }
+      this.onlinePlayers.clear();
+      this.emitOnlinePlayers();
+    });
+  }
 
-    const modName = this.normalizeStringOrNull(mod.name) ?? `Nexus Mod ${modId}`;
-    const keepDisabled = tracked?.localFilename.endsWith(".disabled") ?? false;
-    const targetName = this.normalizeNexusFilename(file.rawFileName, keepDisabled);
-    const downloadUrl = await this.resolveNexusDownloadUrl(nexus, modId, file.fileId);
-    this.pushTerminal(`Downloading Nexus mod ${modName} (${file.fileName})...`, "system");
+  private getOnlinePlayerKey(username: string, uuid: string | null): string {
+    return uuid ?? `name:${username.toLowerCase()}`;
+  }
 
-    const tempPath = path.join(config.app.uploadsDir, `nexus-${modId}-${file.fileId}-${randomUUID()}.part`);
+  private emitOnlinePlayers(): void {
+    this.broadcast("players.online", { players: this.getOnlinePlayers() });
+  }
+
+  private async handleServerCrash(
+    exitCode: number | null,
+    startedAt: string | null,
+    streamsDrained: Promise<unknown>,
+  ): Promise<void> {
     try {
-      await this.downloadFileWithProgress(downloadUrl, tempPath, config.hytale.downloaderDownloadTimeoutMs, {
-        cacheKey: `nexus-${nexus.gameDomain}-${modId}-${file.fileId}`,
-      });
+      // Let the last lines of output land in the terminal buffer before capturing them.
+      await Promise.race([streamsDrained, sleep(2_000)]);
 
-      let targetPath = path.join(modsDir, targetName);
-      if (await pathExists(targetPath)) {
-        if (tracked && tracked.localFilename === path.basename(targetPath)) {
-          await rm(targetPath, { force: true });
+      const uptimeMs = startedAt ? Math.max(0, Date.now() - Date.parse(startedAt)) : 0;
+      if (uptimeMs >= CRASH_STABLE_UPTIME_MS) {
+        this.consecutiveCrashes = 0;
+      }
+      this.consecutiveCrashes += 1;
+
+      const settings = await this.getServerRuntimeSettings();
+      let autoRestart: ServerCrash["autoRestart"] = "disabled";
+      let restartAt: string | null = null;
+      if (settings.autoRestartEnabled) {
+        if (this.consecutiveCrashes > settings.autoRestartMaxAttempts) {
+          autoRestart = "gave_up";
         } else {
-          targetPath = await this.resolveUniquePath(targetPath);
+          const delayMs = Math.min(
+            AUTO_RESTART_MAX_DELAY_MS,
+            AUTO_RESTART_BASE_DELAY_MS * 2 ** (this.consecutiveCrashes - 1),
+          );
+          restartAt = new Date(Date.now() + delayMs).toISOString();
+          autoRestart = "scheduled";
+          this.scheduleAutoRestart(this.consecutiveCrashes, delayMs, restartAt);
         }
       }
 
-      await rename(tempPath, targetPath);
+      const crash = recordServerCrash(
+        {
+          exitCode,
+          uptimeSeconds: Math.round(uptimeMs / 1000),
+          attempt: this.consecutiveCrashes,
+          autoRestart,
+          restartAt,
+          terminalTail: this.terminalBuffer.slice(-CRASH_TERMINAL_TAIL_LINES),
+        },
+        CRASH_HISTORY_LIMIT,
+      );
 
-      if (tracked && tracked.localFilename !== path.basename(targetPath)) {
-        await rm(path.join(modsDir, tracked.localFilename), { force: true });
+      if (autoRestart === "scheduled") {
+        this.pushTerminal(
+          `Server crashed (exit code ${exitCode}). Automatic restart ${this.consecutiveCrashes}/${settings.autoRestartMaxAttempts} at ${restartAt}.`,
+          "system",
+        );
+      } else if (autoRestart === "gave_up") {
+        this.pushTerminal(
+          `Server crashed (exit code ${exitCode}) ${this.consecutiveCrashes} times in a row; crash-loop limit reached, not restarting.`,
+          "system",
+        );
+      } else {
+        this.pushTerminal(`Server crashed (exit code ${exitCode}). Automatic restart is disabled.`, "system");
       }
 
-      const stored: NexusStoredMod = {
-        modId,
-        modUid: String(mod.uid ?? modId),
-        modName,
-        author: this.normalizeStringOrNull(mod.author) ?? "Unknown",
-        fileId: file.fileId,
-        fileUid: file.fileUid,
-        fileName: file.fileName,
-        fileVersion: file.fileVersion,
-        localFilename: path.basename(targetPath),
-        installedAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        pageUrl: `https://${nexus.webHost}/${nexus.gameDomain}/mods/${modId}`,
-      };
-
-      const nextMods = store.mods.filter((item) => item.modId !== modId);
-      nextMods.push(stored);
-      nextMods.sort((a, b) => a.modName.localeCompare(b.modName));
-      await this.writeNexusStore({
-        version: 1,
-        mods: nextMods,
+      this.broadcast("server.crash", {
+        crash,
+        consecutiveCrashes: this.consecutiveCrashes,
+        pendingAutoRestart: this.pendingAutoRestart,
       });
+      this.emitState();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Failed to handle server crash: ${message}`, "system");
+    }
+  }
 
-      this.pushTerminal(`Installed Nexus mod ${modName} as ${path.basename(targetPath)}.`, "system");
-      return {
-        stored,
-        alreadyInstalled: false,
-      };
-    } finally {
-      await rm(tempPath, { force: true });
+  private scheduleAutoRestart(attempt: number, delayMs: number, restartAt: string): void {
+    this.cancelPendingAutoRestart();
+    this.pendingAutoRestart = { attempt, restartAt };
+    this.autoRestartTimer = setTimeout(() => {
+      this.autoRestartTimer = null;
+      this.pendingAutoRestart = null;
+      if (this.process || this.status !== "stopped") {
+        this.emitState();
+        return;
+      }
+
+      this.pushTerminal(`Automatic restart attempt ${attempt}.`, "system");
+      void this.start({ automatic: true }).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.pushTerminal(`Automatic restart failed: ${message}`, "system");
+      });
+    }, delayMs);
+  }
+
+  private cancelPendingAutoRestart(): boolean {
+    if (!this.autoRestartTimer) {
+      return false;
     }
+
+    clearTimeout(this.autoRestartTimer);
+    this.autoRestartTimer = null;
+    this.pendingAutoRestart = null;
+    this.emitState();
+    return true;
   }
 
-  private async resolveNexusDownloadUrl(nexus: NexusRuntimeConfig, modId: number, fileId: number): Promise<string> {
-    try {
-      const mirrors = await this.requestNexusRest<NexusRestDownloadUrl[]>(
-        nexus,
-        `/v1/games/${encodeURIComponent(nexus.gameDomain)}/mods/${modId}/files/${fileId}/download_link`,
-        {
-          method: "GET",
-        },
-      );
+  private async runShutdownWarningCountdown(reason: ShutdownReason): Promise<void> {
+    if (this.shutdownCountdown) {
+      throw new AppError(409, `A ${this.shutdownCountdown.reason} countdown is already in progress.`);
+    }
 
-      const urls = Array.isArray(mirrors) ? mirrors : [];
-      const candidate = urls.find((item) => typeof item.URI === "string" && item.URI.trim().length > 0);
-      if (!candidate || !candidate.URI) {
-        throw new AppError(500, "Nexus did not return a direct download URL.");
+    const settings = await this.getServerRuntimeSettings();
+    const intervals = this.parseShutdownWarningIntervals(settings.shutdownWarningIntervals);
+    if (!settings.shutdownWarningEnabled || !intervals || intervals.length === 0) {
+      return;
+    }
+
+    const startedAtMs = Date.now();
+    const endsAtMs = startedAtMs + intervals[0]! * 1000;
+    let cancel = () => {};
+    const cancelled = new Promise<void>((resolve) => {
+      cancel = resolve;
+    });
+    const countdown: ShutdownCountdownState = {
+      reason,
+      startedAt: new Date(startedAtMs).toISOString(),
+      endsAt: new Date(endsAtMs).toISOString(),
+      cancel,
+      cancelled: false,
+    };
+
+    this.shutdownCountdown = countdown;
+    this.pushTerminal(
+      `Server ${SHUTDOWN_REASON_VERBS[reason]} in ${this.describeShutdownWarningDelay(intervals[0]!)}; warning players.`,
+      "system",
+    );
+    this.emitState();
+
+    try {
+      for (const seconds of [...intervals, 0]) {
+        const waitMs = endsAtMs - seconds * 1000 - Date.now();
+        if (waitMs > 0) {
+          await Promise.race([sleep(waitMs), cancelled]);
+        }
+        if (countdown.cancelled) {
+          throw new AppError(409, `Server ${reason} was cancelled.`);
+        }
+        if (!this.process) {
+          return;
+        }
+        if (seconds > 0) {
+          this.sendShutdownWarning(settings.shutdownWarningCommand, reason, seconds);
+        }
       }
-      return candidate.URI.trim();
-    } catch (error) {
-      if (error instanceof AppError && (error.status === 401 || error.status === 403 || error.status === 400)) {
-        throw new AppError(
-          409,
-          "Nexus direct download failed. This account may require Premium or a temporary key/expires from an NXM manager link.",
-        );
+    } finally {
+      if (this.shutdownCountdown === countdown) {
+        this.shutdownCountdown = null;
+        this.emitState();
       }
-      throw error;
     }
   }
 
-  private normalizeNexusFilename(rawName: string, disabled: boolean): string {
-    const sanitized = sanitizeFilename(rawName);
-    const hasExtension = /\.[a-z0-9]+$/i.test(sanitized);
-    const baseName = hasExtension ? sanitized : `${sanitized}.zip`;
-    if (!disabled) {
-      return baseName;
+  private sendShutdownWarning(template: string, reason: ShutdownReason, seconds: number): void {
+    const command = template
+      .replaceAll("{action}", SHUTDOWN_REASON_VERBS[reason])
+      .replaceAll("{time}", this.describeShutdownWarningDelay(seconds));
+    try {
+      this.sendCommand(command);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pushTerminal(`Failed to send shutdown warning: ${message}`, "system");
     }
-    return baseName.endsWith(".disabled") ? baseName : `${baseName}.disabled`;
   }
 
-  private async readNexusStore(): Promise<NexusStore> {
-    const statePath = config.hytale.nexusStatePath;
-    if (!(await pathExists(statePath))) {
-      return {
-        version: 1,
-        mods: [],
-      };
+  private parseShutdownWarningIntervals(raw: string): number[] | null {
+    const tokens = raw
+      .split(",")
+      .map((token) => token.trim().toLowerCase())
+      .filter(Boolean);
+    if (tokens.length > 10) {
+      return null;
     }
 
-    try {
-      const raw = await readFile(statePath, "utf8");
-      const parsed = JSON.parse(raw) as Partial<NexusStore>;
-      return this.normalizeNexusStore(parsed);
-    } catch {
-      this.pushTerminal("Nexus mod state file is invalid; starting from an empty tracked set.", "system");
-      return {
-        version: 1,
-        mods: [],
-      };
-    }
-  }
+    const seconds = new Set<number>();
+    for (const token of tokens) {
+      const match = token.match(/^(\d+)\s*(h|m|s)?$/);
+      if (!match) {
+        return null;
+      }
 
-  private normalizeNexusStore(input: Partial<NexusStore> | null | undefined): NexusStore {
-    if (!input || typeof input !== "object") {
-      return {
-        version: 1,
-        mods: [],
-      };
+      const multiplier = match[2] === "h" ? 3600 : match[2] === "m" ? 60 : 1;
+      const value = Number(match[1]) * multiplier;
+      if (value < 1 || value > MAX_SHUTDOWN_WARNING_SECONDS) {
+        return null;
+      }
+      seconds.add(value);
     }
 
-    const mods = Array.isArray(input.mods)
-      ? input.mods
-          .map((item) => this.normalizeNexusStoredMod(item as Partial<NexusStoredMod>))
-          .filter((item): item is NexusStoredMod => !!item)
-      : [];
+    return [...seconds].sort((a, b) => b - a);
+  }
 
-    const dedup = new Map<number, NexusStoredMod>();
-    for (const item of mods) {
-      dedup.set(item.modId, item);
+  private formatShutdownWarningInterval(seconds: number): string {
+    if (seconds % 3600 === 0) {
+      return `${seconds / 3600}h`;
+    }
+    if (seconds % 60 === 0) {
+      return `${seconds / 60}m`;
     }
+    return `${seconds}s`;
+  }
 
-    return {
-      version: 1,
-      mods: Array.from(dedup.values()).sort((a, b) => a.modName.localeCompare(b.modName)),
-    };
+  private describeShutdownWarningDelay(seconds: number): string {
+    const [value, unit] =
+      seconds % 3600 === 0 ? [seconds / 3600, "hour"] : seconds % 60 === 0 ? [seconds / 60, "minute"] : [seconds, "second"];
+    return `${value} ${unit}${value === 1 ? "" : "s"}`;
   }
 
-  private normalizeNexusStoredMod(input: Partial<NexusStoredMod>): NexusStoredMod | null {
-    const modId = Math.trunc(Number(input.modId ?? 0));
-    const fileId = Math.trunc(Number(input.fileId ?? 0));
-    const modName = this.normalizeStringOrNull(input.modName);
-    const localFilename = this.normalizeStringOrNull(input.localFilename);
-    const fileName = this.normalizeStringOrNull(input.fileName);
-    const installedAt = this.normalizeStringOrNull(input.installedAt);
-    const pageUrl = this.normalizeStringOrNull(input.pageUrl);
-    if (modId <= 0 || fileId <= 0 || !modName || !localFilename || !fileName || !installedAt || !pageUrl) {
+  private toShutdownCountdown(): ShutdownCountdown | null {
+    if (!this.shutdownCountdown) {
       return null;
     }
 
     return {
-      modId,
-      modUid: this.normalizeStringOrNull(input.modUid) ?? String(modId),
-      modName,
-      author: this.normalizeStringOrNull(input.author) ?? "Unknown",
-      fileId,
-      fileUid: this.normalizeStringOrNull(input.fileUid) ?? String(fileId),
-      fileName,
-      fileVersion: this.normalizeStringOrNull(input.fileVersion) ?? "",
-      localFilename: sanitizeFilename(localFilename),
-      installedAt: this.normalizeDateString(installedAt, new Date().toISOString()),
-      updatedAt: this.normalizeDateString(input.updatedAt, new Date().toISOString()),
-      pageUrl,
+      reason: this.shutdownCountdown.reason,
+      startedAt: this.shutdownCountdown.startedAt,
+      endsAt: this.shutdownCountdown.endsAt,
     };
   }
 
-  private async writeNexusStore(store: NexusStore): Promise<void> {
-    const normalized = this.normalizeNexusStore(store);
-    await writeFile(config.hytale.nexusStatePath, JSON.stringify(normalized, null, 2), "utf8");
-  }
+  private async runDueScheduledJobs(): Promise<void> {
+    for (const { id } of listScheduledJobs()) {
+      // Jobs run one after another, so re-read each one: a later tick may already have run it
+      // (and moved nextRunAt) while this tick was waiting on an earlier job.
+      const job = getScheduledJob(id);
+      const now = new Date();
+      if (!job || !job.enabled || !job.nextRunAt || Date.parse(job.nextRunAt) > now.getTime()) {
+        continue;
+      }
 
-  private async removeNexusTrackingForFilename(filename: string): Promise<void> {
-    const safe = sanitizeFilename(filename);
-    const store = await this.readNexusStore();
-    const nextMods = store.mods.filter((item) => item.localFilename !== safe);
-    if (nextMods.length === store.mods.length) {
-      return;
+      setScheduledJobNextRun(job.id, this.computeNextScheduledRun(job.cron, now));
+      await this.executeScheduledJob(job, "schedule");
     }
-
-    await this.writeNexusStore({
-      version: 1,
-      mods: nextMods,
-    });
   }
 
-  private async renameNexusTrackedFilename(from: string, to: string): Promise<void> {
-    const safeFrom = sanitizeFilename(from);
-    const safeTo = sanitizeFilename(to);
-    if (safeFrom === safeTo) {
+  private async executeScheduledJob(job: ScheduledJob, trigger: ScheduledJobRun["trigger"]): Promise<void> {
+    if (this.runningScheduledJobs.has(job.id)) {
+      this.pushTerminal(`Scheduled job "${job.name}" is still running; skipping this run.`, "system");
       return;
     }
 
-    const store = await this.readNexusStore();
-    let changed = false;
-    const nextMods = store.mods.map((item) => {
-      if (item.localFilename !== safeFrom) {
-        return item;
-      }
-
-      changed = true;
-      return {
-        ...item,
-        localFilename: safeTo,
-      };
-    });
+    this.runningScheduledJobs.add(job.id);
+    const runId = startScheduledJobRun(job.id, trigger);
+    this.pushTerminal(`Running scheduled job "${job.name}" (${job.action}).`, "system");
+    this.emitSchedulerState();
 
-    if (!changed) {
-      return;
+    let status: Exclude<ScheduledJobRunStatus, "running"> = "success";
+    let message: string;
+    try {
+      const result = await this.performScheduledJobAction(job);
+      status = result.skipped ? "skipped" : "success";
+      message = result.message;
+    } catch (error) {
+      status = "failed";
+      message = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.runningScheduledJobs.delete(job.id);
     }
 
-    await this.writeNexusStore({
-      version: 1,
-      mods: nextMods,
-    });
+    finishScheduledJobRun(runId, job.id, status, message, SCHEDULER_RUN_HISTORY_PER_JOB);
+    this.pushTerminal(`Scheduled job "${job.name}" ${status}: ${message}`, "system");
+    this.emitSchedulerState();
   }
 
-  private async isInstalled(): Promise<boolean> {
-    const jarPath = path.join(config.hytale.serverDir, "HytaleServer.jar");
-    const assetsPath = path.join(config.hytale.serverDir, "Assets.zip");
-    return (await pathExists(jarPath)) && (await pathExists(assetsPath));
-  }
+  private async performScheduledJobAction(job: ScheduledJob): Promise<{ skipped: boolean; message: string }> {
+    const payload = this.parseScheduledJobPayload(job.payload);
 
-  private async consumeStream(stream: ReadableStream<Uint8Array> | null, type: StreamType): Promise<void> {
-    if (!stream) {
-      return;
-    }
+    switch (job.action) {
+      case "restart": {
+        if (!this.process || this.status !== "running") {
+          return { skipped: true, message: "Server is not running." };
+        }
+        await this.restart();
+        return { skipped: false, message: "Server restarted." };
+      }
 
-    const decoder = new TextDecoder();
-    const reader = stream.getReader();
-    let pending = "";
+      case "backup": {
+        const backup = await this.createBackup(payload.note?.trim() || `Scheduled: ${job.name}`);
+        return { skipped: false, message: `Created backup ${backup.name}.` };
+      }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
+      case "backup.testRestore": {
+        const [latest] = await this.listBackups();
+        if (!latest) {
+          return { skipped: true, message: "There are no backups to test." };
+        }
+        const verification = await this.testRestoreBackup(latest.id);
+        if (verification.status === "failed") {
+          throw new AppError(500, `Test restore of ${latest.name} failed: ${verification.message}`);
         }
+        return { skipped: false, message: `Test restore of ${latest.name} passed.` };
+      }
 
-        pending += decoder.decode(value, { stream: true });
-        const lines = pending.split(/(?:\r\n|\n|\r)/);
-        pending = lines.pop() ?? "";
+      case "command": {
+        if (!this.process || this.status !== "running") {
+          return { skipped: true, message: "Server is not running." };
+        }
+        this.sendCommand(payload.command ?? "");
+        return { skipped: false, message: `Sent "${payload.command}".` };
+      }
 
-        for (const line of lines) {
-          if (line.length === 0) {
-            continue;
+      case "mods.updateAll": {
+        const parts: string[] = [];
+        if (await this.getCurseForgeConfig()) {
+          const result = await this.updateAllCurseForgeMods(`schedule "${job.name}"`);
+          parts.push(`CurseForge updated ${result.updated}, skipped ${result.skipped}`);
+        }
+        if (await this.getNexusConfig()) {
+          const result = await this.updateAllNexusMods(`schedule "${job.name}"`);
+          parts.push(`Nexus updated ${result.updated}, skipped ${result.skipped}`);
+        }
+        if (parts.length === 0) {
+          return { skipped: true, message: "No mod source is configured." };
+        }
+        return { skipped: false, message: `${parts.join("; ")}.` };
+      }
+
+      case "server.update": {
+        const availability = await this.getInstallAvailability();
+        if (availability.pinnedVersion && availability.installedVersion) {
+          return { skipped: true, message: `Server is pinned to ${availability.pinnedVersion}.` };
+        }
+        if (!availability.updateAvailable) {
+          return { skipped: true, message: `Server is already on ${availability.installedVersion ?? "the latest version"}.` };
+        }
+
+        const wasRunning = this.status === "running";
+        if (wasRunning) {
+          await this.stop(false, "update");
+        }
+
+        try {
+          const result = await this.install(`schedule "${job.name}"`);
+          return {
+            skipped: false,
+            message: result.applied ? `Updated server to ${result.version}.` : `Server is already on ${result.version}.`,
+          };
+        } finally {
+          if (wasRunning && this.status === "stopped") {
+            await this.start();
           }
-          this.pushTerminal(line, type);
         }
       }
 
-      if (pending.length > 0) {
-        this.pushTerminal(pending, type);
+      default:
+        throw new AppError(400, `Unsupported scheduled action: ${String(job.action)}`);
+    }
+  }
+
+  private normalizeScheduledJobInput(input: {
+    name: string;
+    cron: string;
+    action: string;
+    payload?: ScheduledJobPayload;
+    enabled?: boolean;
+  }): { name: string; cron: string; action: ScheduledJobAction; payload: string; enabled: boolean } {
+    const name = input.name.trim();
+    if (!name) {
+      throw new AppError(400, "Scheduled job name is required.");
+    }
+    if (name.length > 100) {
+      throw new AppError(400, "Scheduled job name must be at most 100 characters.");
+    }
+
+    const schedule = parseCronExpression(input.cron);
+    if (!nextCronOccurrence(schedule, new Date())) {
+      throw new AppError(400, "Cron expression never matches a date.");
+    }
+
+    const action = input.action as ScheduledJobAction;
+    if (!SCHEDULED_JOB_ACTIONS.includes(action)) {
+      throw new AppError(400, `action must be one of: ${SCHEDULED_JOB_ACTIONS.join(", ")}.`);
+    }
+
+    const payload: ScheduledJobPayload = {};
+    if (action === "command") {
+      const command = input.payload?.command?.trim() ?? "";
+      if (!command) {
+        throw new AppError(400, "A console command is required for command jobs.");
       }
-    } finally {
-      reader.releaseLock();
+      payload.command = command;
+    }
+    if (action === "backup" && input.payload?.note?.trim()) {
+      payload.note = input.payload.note.trim();
     }
+
+    return {
+      name,
+      cron: schedule.expression,
+      action,
+      payload: JSON.stringify(payload),
+      enabled: input.enabled ?? true,
+    };
   }
 
-  private pushTerminal(line: string, source: StreamType): void {
-    const stamped = `${new Date().toISOString()} [${source}] ${line}`;
-    this.terminalBuffer.push(stamped);
+  private parseScheduledJobPayload(raw: string): ScheduledJobPayload {
+    try {
+      const parsed = JSON.parse(raw) as ScheduledJobPayload | null;
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
 
-    if (this.terminalBuffer.length > config.hytale.terminalBufferLines) {
-      this.terminalBuffer.splice(0, this.terminalBuffer.length - config.hytale.terminalBufferLines);
+  private toScheduledJobEntry(job: ScheduledJob): ScheduledJobEntry {
+    return {
+      ...job,
+      payload: this.parseScheduledJobPayload(job.payload),
+      running: this.runningScheduledJobs.has(job.id),
+    };
+  }
+
+  private getScheduledJobOrThrow(id: number): ScheduledJob {
+    const job = getScheduledJob(id);
+    if (!job) {
+      throw new AppError(404, "Scheduled job not found.");
     }
+    return job;
+  }
 
-    this.broadcast("server.output", {
-      line: stamped,
-      source,
-    });
+  private computeNextScheduledRun(cron: string, after: Date): string | null {
+    return nextCronOccurrence(cron, after)?.toISOString() ?? null;
+  }
+
+  private emitSchedulerState(): void {
+    this.broadcast("scheduler.state", this.getSchedulerState());
   }
 
   private emitState(): void {
@@ -5923,6 +12000,9 @@ export class HytaleManager {
       startedAt: this.startedAt,
       lastExitCode: this.lastExitCode,
       metricsSampling: this.status === "running" || this.status === "starting",
+      shutdownCountdown: this.toShutdownCountdown(),
+      consecutiveCrashes: this.consecutiveCrashes,
+      pendingAutoRestart: this.pendingAutoRestart,
     });
   }
 }
@@ -8,6 +8,7 @@ export type InviteCreateResult = {
   id: number;
   email: string;
   role: UserRole;
+  roleId: number | null;
   expiresAt: string;
   inviteUrl: string;
   emailDispatched: boolean;
@@ -51,6 +52,7 @@ export async function createInviteAndDispatch(
   createdBy: number,
   email: string,
   role: UserRole = "member",
+  roleId: number | null = null,
 ): Promise<InviteCreateResult> {
   if (!validateEmail(email)) {
     throw new AppError(400, "A valid email address is required.");
@@ -58,7 +60,7 @@ export async function createInviteAndDispatch(
 
   const token = inviteToken();
   const expiresAt = new Date(Date.now() + config.app.inviteTtlHours * 60 * 60 * 1000).toISOString();
-  const invite = createInvite(normalizeEmail(email), token, role, createdBy, expiresAt);
+  const invite = createInvite(normalizeEmail(email), token, role, roleId, createdBy, expiresAt);
   const inviteUrl = inviteUrlForToken(token);
 
   let emailDispatched = false;
@@ -72,6 +74,7 @@ export async function createInviteAndDispatch(
     id: invite.id,
     email: invite.email,
     role: invite.role,
+    roleId: invite.role_id,
     expiresAt: invite.expires_at,
     inviteUrl,
     emailDispatched,
@@ -0,0 +1,287 @@
+import {
+  countOwners,
+  createRole,
+  deleteRole,
+  getRole,
+  getRoleByName,
+  getUserById,
+  PublicUser,
+  Role,
+  ScheduledJobAction,
+  setUserRole,
+  updateRole,
+  UserRole,
+} from "./db";
+import { AppError } from "./utils";
+
+export const PERMISSIONS = [
+  { key: "server.view", description: "Open the dashboard and view server status, mods, backups and players." },
+  { key: "logs.read", description: "Read server log files." },
+  { key: "server.lifecycle", description: "Start, stop and restart the server." },
+  { key: "server.console", description: "Send console commands." },
+  { key: "server.install", description: "Install or update the server and the Java runtime." },
+  { key: "server.settings", description: "Change runtime settings." },
+  { key: "mods.write", description: "Upload, enable, disable, delete and install mods." },
+  { key: "integrations.manage", description: "Connect CurseForge and Nexus Mods accounts." },
+  {
+    key: "schedules.manage",
+    description: "Create, edit, delete and trigger scheduled tasks; each task also needs the permission of its action.",
+  },
+  { key: "whitelist.write", description: "Change the whitelist." },
+  { key: "players.kick", description: "Kick online players." },
+  { key: "players.ban", description: "Ban and unban players." },
+  { key: "players.operators", description: "Manage operators and in-game permissions." },
+  { key: "backups.create", description: "Create backups." },
+  { key: "backups.restore", description: "Restore backups over the live world." },
+  { key: "backups.delete", description: "Delete backups." },
+  { key: "backups.offsite", description: "Configure offsite backup targets and their credentials." },
+  { key: "backups.transfer", description: "Download backups and import backup archives from other hosts." },
+  { key: "users.manage", description: "Invite users, assign roles and edit roles." },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export type RoleAssignment = {
+  role: UserRole;
+  roleId: number | null;
+};
+
+const PERMISSION_KEYS = new Set<string>(PERMISSIONS.map((entry) => entry.key));
+
+export const MEMBER_ROLE_NAME = "Member";
+
+// Member keeps what members could do before roles existed so upgrades do not lock anyone out.
+const BUILTIN_ROLES: Array<{ name: string; description: string; permissions: Permission[] }> = [
+  {
+    name: MEMBER_ROLE_NAME,
+    description: "Default role for invited users.",
+    permissions: [
+      "server.view",
+      "logs.read",
+      "server.lifecycle",
+      "server.console",
+      "server.install",
+      "mods.write",
+      "players.kick",
+      "backups.create",
+      "backups.restore",
+      "backups.delete",
+    ],
+  },
+  {
+    name: "Moderator",
+    description: "Console, whitelist and player moderation without access to worlds, mods or backups.",
+    permissions: ["server.view", "logs.read", "server.console", "whitelist.write", "players.kick", "players.ban"],
+  },
+  {
+    name: "Viewer",
+    description: "Read-only access to the dashboard.",
+    permissions: ["server.view", "logs.read"],
+  },
+];
+
+// A scheduled job acts with the permission of what it runs, so managing schedules alone must not grant it.
+const SCHEDULED_ACTION_PERMISSIONS: Record<ScheduledJobAction, Permission> = {
+  command: "server.console",
+  restart: "server.lifecycle",
+  "server.update": "server.install",
+  "mods.updateAll": "mods.write",
+  backup: "backups.create",
+  "backup.testRestore": "backups.create",
+};
+
+/** Requires the permission a scheduled job's action needs. Unknown actions are left to the scheduler's validation. */
+export function assertScheduledActionPermission(user: PublicUser, action: string): void {
+  const permission = SCHEDULED_ACTION_PERMISSIONS[action as ScheduledJobAction];
+  if (permission) {
+    assertPermission(user, permission);
+  }
+}
+
+export function ensureBuiltinRoles(): void {
+  for (const role of BUILTIN_ROLES) {
+    if (!getRoleByName(role.name)) {
+      createRole({ ...role, builtin: true });
+    }
+  }
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && PERMISSION_KEYS.has(value);
+}
+
+export function normalizePermissions(value: unknown): Permission[] {
+  if (!Array.isArray(value)) {
+    throw new AppError(400, "permissions must be an array.");
+  }
+
+  const result: Permission[] = [];
+  for (const item of value) {
+    if (!isPermission(item)) {
+      throw new AppError(400, `Unknown permission "${String(item)}".`);
+    }
+    if (!result.includes(item)) {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolves permissions from the current database row rather than the session snapshot,
+ * so role changes apply to open dashboard connections immediately.
+ */
+export function getUserPermissions(user: PublicUser): Set<Permission> {
+  const record = getUserById(user.id);
+  if (!record) {
+    return new Set();
+  }
+
+  if (record.role === "owner") {
+    return new Set(PERMISSIONS.map((entry) => entry.key));
+  }
+
+  const role = (record.role_id !== null ? getRole(record.role_id) : null) ?? getRoleByName(MEMBER_ROLE_NAME);
+  return new Set((role?.permissions ?? []).filter(isPermission));
+}
+
+export function hasPermission(user: PublicUser, permission: Permission): boolean {
+  return getUserPermissions(user).has(permission);
+}
+
+export function assertPermission(user: PublicUser, permission: Permission): void {
+  if (!hasPermission(user, permission)) {
+    throw new AppError(403, `The "${permission}" permission is required for this action.`);
+  }
+}
+
+export function isOwner(user: PublicUser): boolean {
+  return getUserById(user.id)?.role === "owner";
+}
+
+export function assertOwner(user: PublicUser): void {
+  if (!isOwner(user)) {
+    throw new AppError(403, "Only owners can perform this action.");
+  }
+}
+
+function assertCanGrant(actor: PublicUser, permissions: readonly string[]): void {
+  const granted = getUserPermissions(actor);
+  const missing = permissions.filter((permission) => !granted.has(permission as Permission));
+  if (missing.length > 0) {
+    throw new AppError(403, `You cannot grant permissions you do not have: ${missing.join(", ")}.`);
+  }
+}
+
+export function resolveRoleAssignment(actor: PublicUser, role: unknown, roleId: unknown): RoleAssignment {
+  if (role === "owner") {
+    if (getUserById(actor.id)?.role !== "owner") {
+      throw new AppError(403, "Only owners can grant the owner role.");
+    }
+    return { role: "owner", roleId: null };
+  }
+
+  if (roleId === null || roleId === undefined || roleId === "") {
+    const member = getRoleByName(MEMBER_ROLE_NAME);
+    assertCanGrant(actor, member?.permissions ?? []);
+    return { role: "member", roleId: null };
+  }
+
+  const parsedRoleId = Number(roleId);
+  const target = Number.isInteger(parsedRoleId) ? getRole(parsedRoleId) : null;
+  if (!target) {
+    throw new AppError(404, "Role not found.");
+  }
+
+  assertCanGrant(actor, target.permissions);
+  return { role: "member", roleId: target.id };
+}
+
+function normalizeRoleInput(input: { name?: unknown; description?: unknown; permissions?: unknown }) {
+  const name = String(input.name ?? "").trim();
+  if (!/^[A-Za-z0-9 _-]{2,40}$/.test(name)) {
+    throw new AppError(400, "Role name must be 2-40 letters, numbers, spaces, '_' or '-'.");
+  }
+  if (name.toLowerCase() === "owner") {
+    throw new AppError(400, "The owner role is reserved.");
+  }
+
+  const description = String(input.description ?? "").trim();
+  if (description.length > 200) {
+    throw new AppError(400, "Role description must be at most 200 characters.");
+  }
+
+  return { name, description, permissions: normalizePermissions(input.permissions ?? []) };
+}
+
+export function createCustomRole(
+  actor: PublicUser,
+  input: { name?: unknown; description?: unknown; permissions?: unknown },
+): Role {
+  const normalized = normalizeRoleInput(input);
+  assertCanGrant(actor, normalized.permissions);
+  if (getRoleByName(normalized.name)) {
+    throw new AppError(409, `A role named "${normalized.name}" already exists.`);
+  }
+
+  return createRole({ ...normalized, builtin: false });
+}
+
+export function updateCustomRole(
+  actor: PublicUser,
+  id: number,
+  input: { name?: unknown; description?: unknown; permissions?: unknown },
+): Role {
+  const existing = getRole(id);
+  if (!existing) {
+    throw new AppError(404, "Role not found.");
+  }
+
+  const normalized = normalizeRoleInput(input);
+  assertCanGrant(actor, normalized.permissions);
+  if (existing.builtin && normalized.name !== existing.name) {
+    throw new AppError(400, "Built-in roles cannot be renamed.");
+  }
+
+  const clash = getRoleByName(normalized.name);
+  if (clash && clash.id !== id) {
+    throw new AppError(409, `A role named "${normalized.name}" already exists.`);
+  }
+
+  const updated = updateRole(id, normalized);
+  if (!updated) {
+    throw new AppError(404, "Role not found.");
+  }
+  return updated;
+}
+
+export function removeCustomRole(id: number): void {
+  const existing = getRole(id);
+  if (!existing) {
+    throw new AppError(404, "Role not found.");
+  }
+  if (existing.builtin) {
+    throw new AppError(400, "Built-in roles cannot be deleted.");
+  }
+
+  // Users and invites holding the role fall back to the member role via ON DELETE SET NULL.
+  deleteRole(id);
+}
+
+export function assignUserRole(actor: PublicUser, userId: number, role: unknown, roleId: unknown): void {
+  const target = getUserById(userId);
+  if (!target) {
+    throw new AppError(404, "User not found.");
+  }
+
+  if (target.role === "owner" && getUserById(actor.id)?.role !== "owner") {
+    throw new AppError(403, "Only owners can change another owner's role.");
+  }
+
+  const assignment = resolveRoleAssignment(actor, role, roleId);
+  if (target.role === "owner" && assignment.role !== "owner" && countOwners() <= 1) {
+    throw new AppError(409, "The last owner cannot be demoted.");
+  }
+
+  setUserRole(userId, assignment.role, assignment.roleId);
+}
@@ -0,0 +1,165 @@
+import { randomUUID } from "node:crypto";
+import { cp, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AppError, pathExists, timestampId } from "./utils";
+import { extractZipArchive, ZipWriter } from "./zip";
+
+export type SafetySnapshotItem = {
+  label: string;
+  target: string;
+  existed: boolean;
+  size: number;
+};
+
+// Server installs are kept in the versions directory anyway, so snapshots of installs point at the kept
+// copy instead of duplicating its files.
+export type SafetySnapshotServerVersion = {
+  id: string;
+  version: string;
+  // Top-level entries written by the operation; undo removes them before copying the kept version back.
+  replacedEntries: string[];
+};
+
+export type SafetySnapshot = {
+  id: string;
+  operation: string;
+  summary: string;
+  actor: string | null;
+  createdAt: string;
+  items: SafetySnapshotItem[];
+  size: number;
+  serverVersion?: SafetySnapshotServerVersion | null;
+};
+
+const SNAPSHOT_ARCHIVE_NAME = "snapshot.zip";
+const SNAPSHOT_METADATA_NAME = "snapshot.json";
+
+function itemEntryName(index: number): string {
+  return `items/${index}`;
+}
+
+/**
+ * Copies the given paths into `<directory>/<id>/snapshot.zip` before an operation touches them.
+ * Paths that do not exist yet are recorded too, so undoing the operation removes what it created.
+ * Entries are stored uncompressed: snapshots are short-lived and have to be fast to take.
+ */
+export async function writeSafetySnapshot(
+  directory: string,
+  input: {
+    operation: string;
+    summary: string;
+    actor: string | null;
+    targets: Array<{ label: string; target: string }>;
+    serverVersion?: SafetySnapshotServerVersion | null;
+  },
+): Promise<SafetySnapshot> {
+  const id = `${timestampId()}-${randomUUID().slice(0, 8)}`;
+  const destination = path.join(directory, id);
+  await mkdir(destination, { recursive: true });
+
+  const archivePath = path.join(destination, SNAPSHOT_ARCHIVE_NAME);
+  const items: SafetySnapshotItem[] = [];
+  const writer = await ZipWriter.create(archivePath);
+
+  try {
+    for (const [index, entry] of input.targets.entries()) {
+      if (!(await pathExists(entry.target))) {
+        items.push({ label: entry.label, target: entry.target, existed: false, size: 0 });
+        continue;
+      }
+
+      const written = (await stat(entry.target)).isDirectory()
+        ? await writer.addTree(itemEntryName(index), entry.target, { compress: false })
+        : [await writer.addFile(itemEntryName(index), entry.target, { compress: false })];
+      items.push({
+        label: entry.label,
+        target: entry.target,
+        existed: true,
+        size: written.reduce((total, file) => total + file.size, 0),
+      });
+    }
+    await writer.close();
+  } catch (error) {
+    await writer.abort();
+    await rm(destination, { recursive: true, force: true });
+    throw error;
+  }
+
+  const snapshot: SafetySnapshot = {
+    id,
+    operation: input.operation,
+    summary: input.summary,
+    actor: input.actor,
+    createdAt: new Date().toISOString(),
+    items,
+    size: (await stat(archivePath)).size,
+    serverVersion: input.serverVersion ?? null,
+  };
+  await writeFile(path.join(destination, SNAPSHOT_METADATA_NAME), JSON.stringify(snapshot, null, 2), "utf8");
+  return snapshot;
+}
+
+/** Lists complete snapshots, newest first. Directories without metadata are unfinished writes and are skipped. */
+export async function readSafetySnapshots(directory: string): Promise<SafetySnapshot[]> {
+  if (!(await pathExists(directory))) {
+    return [];
+  }
+
+  const snapshots: SafetySnapshot[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+
+    try {
+      const raw = await readFile(path.join(directory, entry.name, SNAPSHOT_METADATA_NAME), "utf8");
+      const parsed = JSON.parse(raw) as SafetySnapshot;
+      if (parsed.id === entry.name && Array.isArray(parsed.items)) {
+        snapshots.push(parsed);
+      }
+    } catch {
+      // Ignore snapshots whose metadata is missing or unreadable.
+    }
+  }
+
+  return snapshots.sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+}
+
+/**
+ * Puts every recorded path back the way it was when the snapshot was taken. The archive is
+ * extracted to `workspace` first so a damaged snapshot never leaves paths half-restored.
+ */
+export async function restoreSafetySnapshot(directory: string, snapshot: SafetySnapshot, workspace: string): Promise<void> {
+  const archivePath = path.join(directory, snapshot.id, SNAPSHOT_ARCHIVE_NAME);
+  if (!(await pathExists(archivePath))) {
+    throw new AppError(404, `Safety snapshot ${snapshot.id} is missing its archive.`);
+  }
+
+  await mkdir(workspace, { recursive: true });
+  try {
+    await extractZipArchive(archivePath, workspace);
+
+    for (const [index, item] of snapshot.items.entries()) {
+      if (item.existed && !(await pathExists(path.join(workspace, ...itemEntryName(index).split("/"))))) {
+        throw new AppError(500, `Safety snapshot ${snapshot.id} does not contain ${item.label}.`);
+      }
+    }
+
+    for (const [index, item] of snapshot.items.entries()) {
+      await rm(item.target, { recursive: true, force: true });
+      if (item.existed) {
+        await mkdir(path.dirname(item.target), { recursive: true });
+        await cp(path.join(workspace, ...itemEntryName(index).split("/")), item.target, { recursive: true, force: true });
+      }
+    }
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
+
+export async function deleteSafetySnapshot(directory: string, id: string): Promise<void> {
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new AppError(400, "Invalid safety snapshot id.");
+  }
+  await rm(path.join(directory, id), { recursive: true, force: true });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { selectServerVersionsToPrune, ServerVersion } from "./server-versions";
+
+function version(id: string, installedAt: string): ServerVersion {
+  return {
+    id,
+    patchline: "release",
+    version: id,
+    installedAt,
+    retainedAt: installedAt,
+    entries: ["HytaleServer.jar", "Assets.zip"],
+    size: 1024,
+  };
+}
+
+const versions = [
+  version("v1", "2026-01-01T00:00:00.000Z"),
+  version("v3", "2026-03-01T00:00:00.000Z"),
+  version("v2", "2026-02-01T00:00:00.000Z"),
+  version("v4", "2026-04-01T00:00:00.000Z"),
+];
+
+function prunedIds(keep: number, protectedIds: string[] = []): string[] {
+  return selectServerVersionsToPrune(versions, keep, new Set(protectedIds)).map((entry) => entry.id);
+}
+
+describe("selectServerVersionsToPrune", () => {
+  test("keeps the newest installs", () => {
+    expect(prunedIds(2)).toEqual(["v2", "v1"]);
+  });
+
+  test("never prunes protected versions and does not let them use a slot", () => {
+    expect(prunedIds(1, ["v4", "v1"])).toEqual(["v2"]);
+  });
+
+  test("keeps everything when keep is 0", () => {
+    expect(prunedIds(0)).toEqual([]);
+  });
+});
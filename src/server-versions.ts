@@ -0,0 +1,149 @@
+import { randomUUID } from "node:crypto";
+import { cp, mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AppError, pathExists, sanitizeFilename } from "./utils";
+
+export type ServerVersion = {
+  id: string;
+  patchline: string;
+  version: string;
+  installedAt: string;
+  retainedAt: string;
+  // Top-level names in the server directory that belong to this install (e.g. HytaleServer.jar, Assets.zip).
+  entries: string[];
+  size: number;
+};
+
+const VERSION_METADATA_NAME = "version.json";
+const VERSION_FILES_DIR_NAME = "files";
+
+export function serverVersionId(patchline: string, version: string): string {
+  return sanitizeFilename(`${patchline}-${version}`);
+}
+
+export function serverVersionFilesDir(directory: string, id: string): string {
+  return path.join(directory, id, VERSION_FILES_DIR_NAME);
+}
+
+async function measure(target: string): Promise<number> {
+  const details = await stat(target);
+  if (!details.isDirectory()) {
+    return details.size;
+  }
+
+  let total = 0;
+  for (const entry of await readdir(target)) {
+    total += await measure(path.join(target, entry));
+  }
+  return total;
+}
+
+/**
+ * Keeps a copy of an install under `<directory>/<id>/files`. With `move`, the entries are renamed
+ * out of `sourceDir` instead of copied, which is how freshly extracted downloads are kept. The copy
+ * is assembled next to its final place first so a half-written version is never listed.
+ */
+export async function retainServerVersion(
+  directory: string,
+  input: {
+    patchline: string;
+    version: string;
+    installedAt: string;
+    sourceDir: string;
+    entries: string[];
+    move?: boolean;
+  },
+): Promise<ServerVersion> {
+  const id = serverVersionId(input.patchline, input.version);
+  const staging = path.join(directory, `.${id}-${randomUUID()}`);
+  const stagingFiles = path.join(staging, VERSION_FILES_DIR_NAME);
+  await mkdir(stagingFiles, { recursive: true });
+
+  try {
+    const entries: string[] = [];
+    for (const entry of input.entries) {
+      const source = path.join(input.sourceDir, entry);
+      if (!(await pathExists(source))) {
+        continue;
+      }
+
+      if (input.move) {
+        await rename(source, path.join(stagingFiles, entry));
+      } else {
+        await cp(source, path.join(stagingFiles, entry), { recursive: true, force: true });
+      }
+      entries.push(entry);
+    }
+
+    const version: ServerVersion = {
+      id,
+      patchline: input.patchline,
+      version: input.version,
+      installedAt: input.installedAt,
+      retainedAt: new Date().toISOString(),
+      entries,
+      size: await measure(stagingFiles),
+    };
+    await writeFile(path.join(staging, VERSION_METADATA_NAME), JSON.stringify(version, null, 2), "utf8");
+
+    const destination = path.join(directory, id);
+    await rm(destination, { recursive: true, force: true });
+    await rename(staging, destination);
+    return version;
+  } catch (error) {
+    await rm(staging, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/** Lists retained installs, newest first. Dot-directories are unfinished copies and are skipped. */
+export async function readServerVersions(directory: string): Promise<ServerVersion[]> {
+  if (!(await pathExists(directory))) {
+    return [];
+  }
+
+  const versions: ServerVersion[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) {
+      continue;
+    }
+
+    try {
+      const raw = await readFile(path.join(directory, entry.name, VERSION_METADATA_NAME), "utf8");
+      const parsed = JSON.parse(raw) as ServerVersion;
+      if (parsed.id === entry.name && Array.isArray(parsed.entries)) {
+        versions.push(parsed);
+      }
+    } catch {
+      // Ignore versions whose metadata is missing or unreadable.
+    }
+  }
+
+  return versions.sort((left, right) => right.installedAt.localeCompare(left.installedAt));
+}
+
+/**
+ * Picks the kept versions beyond the newest `keep` (by install time) for deletion. Protected ids,
+ * such as the active and the pinned version, are never picked and do not use up a slot. A `keep`
+ * of 0 keeps everything.
+ */
+export function selectServerVersionsToPrune(
+  versions: ServerVersion[],
+  keep: number,
+  protectedIds: ReadonlySet<string>,
+): ServerVersion[] {
+  if (keep <= 0) {
+    return [];
+  }
+  return [...versions]
+    .sort((left, right) => right.installedAt.localeCompare(left.installedAt))
+    .filter((version) => !protectedIds.has(version.id))
+    .slice(keep);
+}
+
+export async function deleteServerVersion(directory: string, id: string): Promise<void> {
+  if (!/^[A-Za-z0-9._-]+$/.test(id) || id.startsWith(".")) {
+    throw new AppError(400, "Invalid server version id.");
+  }
+  await rm(path.join(directory, id), { recursive: true, force: true });
+}
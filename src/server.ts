@@ -1,17 +1,44 @@
 import dashboardPage from "./index.html";
-import type { ServerWebSocket } from "bun";
+import type { BunRequest, Server, ServerWebSocket } from "bun";
 import { randomUUID } from "node:crypto";
+import { AUDIT_EXPORT_LIMIT, formatAuditCsv, parseAuditFilter, recordAudit } from "./audit";
 import { clearSessionCookie, getSessionUserFromRequest, login, logoutFromRequest, registerFromInvite, setupOwner } from "./auth";
 import { config, ensureDirectories } from "./config";
-import { hasAnyUsers, PublicUser } from "./db";
-import { HytaleManager } from "./hytale-manager";
+import { hasAnyUsers, listAuditEvents, listRoles, listUsers, PublicUser } from "./db";
+import {
+  CurseForgeSearchSort,
+  HytaleManager,
+  ModerationState,
+  NexusSearchSort,
+  ScheduledJobPayload,
+} from "./hytale-manager";
 import { createInviteAndDispatch, getInviteSummaries, removeInvite } from "./invites";
+import {
+  assertOwner,
+  assertPermission,
+  assertScheduledActionPermission,
+  assignUserRole,
+  createCustomRole,
+  ensureBuiltinRoles,
+  getUserPermissions,
+  hasPermission,
+  isOwner,
+  Permission,
+  PERMISSIONS,
+  removeCustomRole,
+  resolveRoleAssignment,
+  updateCustomRole,
+} from "./permissions";
 import { AppError, jsonResponse, parseJson } from "./utils";
 
 ensureDirectories();
+ensureBuiltinRoles();
 
 type SocketData = {
   user: PublicUser;
+  ip: string | null;
+  // Cached so broadcasts do not hit the database per socket; refreshed when roles change.
+  permissions: Set<Permission>;
 };
 
 type CommandRequest = {
@@ -22,25 +49,82 @@ type CommandRequest = {
 
 const sockets = new Set<ServerWebSocket<SocketData>>();
 
+// Manager events a socket only receives with the given permission; every other event needs server.view,
+// which every open socket has. Each entry matches the permission of the command that reads the same data.
+const EVENT_PERMISSIONS: Partial<Record<string, Permission>> = {
+  "server.output": "logs.read",
+  "auth.device": "server.install",
+  "downloads.cache": "server.install",
+  "nexus.sso": "integrations.manage",
+};
+
+function canReadLogs(socket: ServerWebSocket<SocketData>): boolean {
+  return socket.data.permissions.has("logs.read");
+}
+
+// Server output also reaches clients inside the state snapshot and crash reports; both are cut for
+// sockets without logs.read.
+function serverStateFor<T extends { terminal: string[] }>(socket: ServerWebSocket<SocketData>, state: T): T {
+  return canReadLogs(socket) ? state : { ...state, terminal: [] };
+}
+
+function crashesFor<T extends { terminalTail: string[] }>(socket: ServerWebSocket<SocketData>, crashes: T[]): T[] {
+  return canReadLogs(socket) ? crashes : crashes.map((crash) => ({ ...crash, terminalTail: [] }));
+}
+
+function withoutServerOutput(event: string, payload: unknown): unknown {
+  if (event === "server.crash") {
+    const data = payload as { crash: { terminalTail: string[] } };
+    return { ...data, crash: { ...data.crash, terminalTail: [] } };
+  }
+  return payload;
+}
+
 const manager = new HytaleManager((event, payload) => {
-  const packet = JSON.stringify({
-    type: "event",
-    event,
-    payload,
-  });
+  const required = EVENT_PERMISSIONS[event];
+  let packet: string | null = null;
+  let redactedPacket: string | null = null;
 
   for (const socket of sockets) {
-    socket.send(packet);
+    if (required && !socket.data.permissions.has(required)) {
+      continue;
+    }
+
+    if (canReadLogs(socket)) {
+      packet ??= JSON.stringify({ type: "event", event, payload });
+      socket.send(packet);
+    } else {
+      redactedPacket ??= JSON.stringify({ type: "event", event, payload: withoutServerOutput(event, payload) });
+      socket.send(redactedPacket);
+    }
   }
 });
 
+function requestIp(request: Request, serverInstance: Server<SocketData>): string | null {
+  return serverInstance.requestIP(request)?.address ?? null;
+}
+
 function commandError(message: string, status = 400): never {
   throw new AppError(status, message);
 }
 
-function assertOwner(user: PublicUser): void {
-  if (user.role !== "owner") {
-    throw new AppError(403, "Owner permissions are required for this action.");
+// Role edits take effect on open connections: permissions are re-sent, and sockets that lost dashboard access are closed.
+function refreshSocketPermissions(): void {
+  for (const socket of sockets) {
+    socket.data.permissions = getUserPermissions(socket.data.user);
+    const permissions = [...socket.data.permissions];
+    if (!permissions.includes("server.view")) {
+      socket.close(4403, "Dashboard access revoked");
+      continue;
+    }
+
+    socket.send(
+      JSON.stringify({
+        type: "event",
+        event: "auth.permissions",
+        payload: { permissions },
+      }),
+    );
   }
 }
 
@@ -61,12 +145,43 @@ function sendAck(
 }
 
 async function sendBootstrap(socket: ServerWebSocket<SocketData>): Promise<void> {
-  const [serverState, mods, backups, logs, whitelist] = await Promise.all([
+  const permissions = getUserPermissions(socket.data.user);
+  socket.data.permissions = permissions;
+  const canManageUsers = permissions.has("users.manage");
+  const [
+    serverState,
+    mods,
+    backups,
+    logs,
+    whitelist,
+    curseForge,
+    curseForgeInstalled,
+    nexus,
+    nexusInstalled,
+    moderation,
+    safetySnapshots,
+    serverVersions,
+  ] = await Promise.all([
     manager.snapshot(),
     manager.listMods(),
     manager.listBackups(),
     manager.listLogFiles(),
     manager.listWhitelist(),
+    manager.getCurseForgeStatus(),
+    manager.listCurseForgeInstalledMods(),
+    manager.getNexusStatus(),
+    manager.listNexusInstalledMods(),
+    // A malformed bans/ops/permissions file must not keep the rest of the dashboard from loading.
+    manager.getModerationState().catch(
+      (error): ModerationState => ({
+        bans: [],
+        ops: [],
+        permissions: { groups: {}, users: [] },
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    ),
+    manager.listSafetySnapshots(),
+    manager.listServerVersions(),
   ]);
 
   socket.send(
@@ -75,12 +190,28 @@ async function sendBootstrap(socket: ServerWebSocket<SocketData>): Promise<void>
       event: "bootstrap",
       payload: {
         user: socket.data.user,
-        serverState,
+        serverState: serverStateFor(socket, serverState),
         mods,
         backups,
-        logs,
+        logs: permissions.has("logs.read") ? logs : [],
         whitelist,
-        invites: socket.data.user.role === "owner" ? getInviteSummaries() : [],
+        curseForge,
+        curseForgeInstalled,
+        nexus,
+        nexusInstalled,
+        backupTargets: manager.listBackupTargets(),
+        safetySnapshots,
+        serverVersions,
+        scheduler: manager.getSchedulerState(),
+        crashes: crashesFor(socket, manager.listServerCrashes(20)),
+        playerSessions: manager.listPlayerSessions(null, 50),
+        moderation,
+        permissions: [...permissions],
+        permissionCatalog: PERMISSIONS,
+        roles: listRoles(),
+        users: canManageUsers ? listUsers() : [],
+        invites: canManageUsers ? getInviteSummaries() : [],
+        auditEvents: isOwner(socket.data.user) ? listAuditEvents(parseAuditFilter({})) : [],
       },
     }),
   );
@@ -88,6 +219,7 @@ async function sendBootstrap(socket: ServerWebSocket<SocketData>): Promise<void>
 
 async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: CommandRequest): Promise<void> {
   const requestId = command.id ?? randomUUID();
+  let failure: { status: number; error: string } | null = null;
 
   try {
     if (!command.action) {
@@ -96,60 +228,223 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
 
     switch (command.action) {
       case "server.status": {
+        assertPermission(socket.data.user, "server.view");
         const snapshot = await manager.snapshot();
-        sendAck(socket, requestId, true, { data: snapshot });
+        sendAck(socket, requestId, true, { data: serverStateFor(socket, snapshot) });
         return;
       }
 
       case "server.runtime.update": {
-        assertOwner(socket.data.user);
-        const bindPortRaw = command.payload?.bindPort;
-        const autoBackupEnabledRaw = command.payload?.autoBackupEnabled;
-        const backupFrequencyMinutesRaw = command.payload?.backupFrequencyMinutes;
-        const backupMaxCountRaw = command.payload?.backupMaxCount;
-        const javaMinHeapMbRaw = command.payload?.javaMinHeapMb;
-        const javaMaxHeapMbRaw = command.payload?.javaMaxHeapMb;
-        const javaExtraArgsRaw = command.payload?.javaExtraArgs;
+        assertPermission(socket.data.user, "server.settings");
+        // These templates are later sent to the server console as-is.
+        const commandTemplateFields = [
+          "shutdownWarningCommand",
+          "backupSaveOffCommand",
+          "backupFlushCommand",
+          "backupSaveOnCommand",
+        ];
+        if (commandTemplateFields.some((field) => command.payload?.[field] !== undefined)) {
+          assertPermission(socket.data.user, "server.console");
+        }
+        const optionalNumber = (value: unknown) => (value === undefined ? undefined : Number(value));
+        const optionalString = (value: unknown) => (value === undefined ? undefined : String(value));
+        const optionalBoolean = (value: unknown) =>
+          value === undefined ? undefined : value === true || value === "true" || value === 1 || value === "1";
 
         const snapshot = await manager.updateServerRuntimeSettings({
-          bindPort: bindPortRaw === undefined ? undefined : Number(bindPortRaw),
-          autoBackupEnabled: autoBackupEnabledRaw === undefined
-            ? undefined
-            : autoBackupEnabledRaw === true ||
-              autoBackupEnabledRaw === "true" ||
-              autoBackupEnabledRaw === 1 ||
-              autoBackupEnabledRaw === "1",
-          backupFrequencyMinutes:
-            backupFrequencyMinutesRaw === undefined ? undefined : Number(backupFrequencyMinutesRaw),
-          backupMaxCount: backupMaxCountRaw === undefined ? undefined : Number(backupMaxCountRaw),
-          javaMinHeapMb: javaMinHeapMbRaw === undefined ? undefined : Number(javaMinHeapMbRaw),
-          javaMaxHeapMb: javaMaxHeapMbRaw === undefined ? undefined : Number(javaMaxHeapMbRaw),
-          javaExtraArgs: javaExtraArgsRaw === undefined ? undefined : String(javaExtraArgsRaw),
+          bindPort: optionalNumber(command.payload?.bindPort),
+          autoBackupEnabled: optionalBoolean(command.payload?.autoBackupEnabled),
+          backupFrequencyMinutes: optionalNumber(command.payload?.backupFrequencyMinutes),
+          backupMaxCount: optionalNumber(command.payload?.backupMaxCount),
+          javaMinHeapMb: optionalNumber(command.payload?.javaMinHeapMb),
+          javaMaxHeapMb: optionalNumber(command.payload?.javaMaxHeapMb),
+          javaExtraArgs: optionalString(command.payload?.javaExtraArgs),
+          shutdownWarningEnabled: optionalBoolean(command.payload?.shutdownWarningEnabled),
+          shutdownWarningIntervals: optionalString(command.payload?.shutdownWarningIntervals),
+          shutdownWarningCommand: optionalString(command.payload?.shutdownWarningCommand),
+          autoRestartEnabled: optionalBoolean(command.payload?.autoRestartEnabled),
+          autoRestartMaxAttempts: optionalNumber(command.payload?.autoRestartMaxAttempts),
+          backupRetentionEnabled: optionalBoolean(command.payload?.backupRetentionEnabled),
+          backupRetentionKeepLast: optionalNumber(command.payload?.backupRetentionKeepLast),
+          backupRetentionKeepHourly: optionalNumber(command.payload?.backupRetentionKeepHourly),
+          backupRetentionKeepDaily: optionalNumber(command.payload?.backupRetentionKeepDaily),
+          backupRetentionKeepWeekly: optionalNumber(command.payload?.backupRetentionKeepWeekly),
+          backupRetentionKeepMonthly: optionalNumber(command.payload?.backupRetentionKeepMonthly),
+          backupRetentionMaxTotalMb: optionalNumber(command.payload?.backupRetentionMaxTotalMb),
+          consistentBackupEnabled: optionalBoolean(command.payload?.consistentBackupEnabled),
+          backupSaveOffCommand: optionalString(command.payload?.backupSaveOffCommand),
+          backupFlushCommand: optionalString(command.payload?.backupFlushCommand),
+          backupFlushConfirmPattern: optionalString(command.payload?.backupFlushConfirmPattern),
+          backupSaveOnCommand: optionalString(command.payload?.backupSaveOnCommand),
+          backupFlushTimeoutSeconds: optionalNumber(command.payload?.backupFlushTimeoutSeconds),
+          safetySnapshotsEnabled: optionalBoolean(command.payload?.safetySnapshotsEnabled),
+          safetySnapshotKeep: optionalNumber(command.payload?.safetySnapshotKeep),
+          safetySnapshotMaxAgeHours: optionalNumber(command.payload?.safetySnapshotMaxAgeHours),
+          serverVersionsKeep: optionalNumber(command.payload?.serverVersionsKeep),
+          updateCheckEnabled: optionalBoolean(command.payload?.updateCheckEnabled),
+          updateCheckIntervalMinutes: optionalNumber(command.payload?.updateCheckIntervalMinutes),
+          autoUpdateEnabled: optionalBoolean(command.payload?.autoUpdateEnabled),
+          autoUpdateOnlyWhenEmpty: optionalBoolean(command.payload?.autoUpdateOnlyWhenEmpty),
+          autoUpdateWindow: optionalString(command.payload?.autoUpdateWindow),
+          downloadCacheKeepVersions: optionalNumber(command.payload?.downloadCacheKeepVersions),
+          downloadCacheMaxSizeMb: optionalNumber(command.payload?.downloadCacheMaxSizeMb),
         });
 
-        sendAck(socket, requestId, true, { data: snapshot });
+        sendAck(socket, requestId, true, { data: serverStateFor(socket, snapshot) });
         return;
       }
 
       case "server.install": {
-        const result = await manager.install();
+        assertPermission(socket.data.user, "server.install");
+        const result = await manager.install(socket.data.user.email);
         sendAck(socket, requestId, true, { data: result });
         return;
       }
 
+      case "updates.check": {
+        assertPermission(socket.data.user, "server.install");
+        sendAck(socket, requestId, true, { data: await manager.checkForUpdates() });
+        return;
+      }
+
+      case "server.patchline.set": {
+        assertPermission(socket.data.user, "server.install");
+        const patchline = command.payload?.patchline;
+        if (typeof patchline !== "string" || !patchline.trim()) {
+          commandError("patchline is required.");
+        }
+        const result = await manager.setPatchline(
+          { patchline, confirm: command.payload?.confirm === true },
+          socket.data.user.email,
+        );
+        sendAck(socket, requestId, true, {
+          data: { ...result, serverState: serverStateFor(socket, await manager.snapshot()) },
+        });
+        return;
+      }
+
+      case "staging.create": {
+        assertPermission(socket.data.user, "server.install");
+        const patchline = command.payload?.patchline;
+        if (typeof patchline !== "string" || !patchline.trim()) {
+          commandError("patchline is required.");
+        }
+        const port = command.payload?.port;
+        const staging = await manager.createStaging(
+          { patchline, port: port === undefined || port === null || port === "" ? null : Number(port) },
+          socket.data.user.email,
+        );
+        sendAck(socket, requestId, true, { data: staging });
+        return;
+      }
+
+      case "staging.start": {
+        assertPermission(socket.data.user, "server.lifecycle");
+        sendAck(socket, requestId, true, { data: await manager.startStaging() });
+        return;
+      }
+
+      case "staging.stop": {
+        assertPermission(socket.data.user, "server.lifecycle");
+        sendAck(socket, requestId, true, { data: await manager.stopStaging() });
+        return;
+      }
+
+      case "staging.delete": {
+        assertPermission(socket.data.user, "server.install");
+        sendAck(socket, requestId, true, { data: await manager.deleteStaging(socket.data.user.email) });
+        return;
+      }
+
+      case "server.versions.list": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.listServerVersions() });
+        return;
+      }
+
+      case "server.version.pin": {
+        assertPermission(socket.data.user, "server.install");
+        const version = command.payload?.version;
+        if (version !== null && typeof version !== "string") {
+          commandError("version must be a string or null.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.setServerVersionPin(version) });
+        return;
+      }
+
+      case "server.version.rollback": {
+        assertPermission(socket.data.user, "server.install");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        sendAck(socket, requestId, true, {
+          data: await manager.rollbackServerVersion(id, socket.data.user.email),
+        });
+        return;
+      }
+
+      case "server.version.delete": {
+        assertPermission(socket.data.user, "server.install");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.deleteServerVersion(id) });
+        return;
+      }
+
+      case "server.verify": {
+        assertPermission(socket.data.user, "server.install");
+        sendAck(socket, requestId, true, { data: await manager.verifyInstallation() });
+        return;
+      }
+
+      case "server.repair": {
+        assertPermission(socket.data.user, "server.install");
+        sendAck(socket, requestId, true, { data: await manager.repairInstallation(socket.data.user.email) });
+        return;
+      }
+
+      case "downloads.cache.list": {
+        assertPermission(socket.data.user, "server.install");
+        sendAck(socket, requestId, true, { data: await manager.listDownloadCache() });
+        return;
+      }
+
+      case "downloads.cache.delete": {
+        assertPermission(socket.data.user, "server.install");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.deleteDownloadCacheEntry(id) });
+        return;
+      }
+
+      case "downloads.cache.prune": {
+        assertPermission(socket.data.user, "server.install");
+        const result = await manager.pruneDownloadCache();
+        sendAck(socket, requestId, true, { data: { result, cache: await manager.listDownloadCache() } });
+        return;
+      }
+
       case "java.install": {
+        assertPermission(socket.data.user, "server.install");
         const result = await manager.installManagedJavaRuntime();
         sendAck(socket, requestId, true, { data: result });
         return;
       }
 
       case "server.start": {
+        assertPermission(socket.data.user, "server.lifecycle");
         await manager.start();
         sendAck(socket, requestId, true, { data: { ok: true } });
         return;
       }
 
       case "server.stop": {
+        assertPermission(socket.data.user, "server.lifecycle");
         const force = (command.payload?.force as boolean | undefined) ?? false;
         await manager.stop(force);
         sendAck(socket, requestId, true, { data: { ok: true } });
@@ -157,12 +452,41 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "server.restart": {
+        assertPermission(socket.data.user, "server.lifecycle");
         await manager.restart();
         sendAck(socket, requestId, true, { data: { ok: true } });
         return;
       }
 
+      case "server.shutdown.cancel": {
+        assertPermission(socket.data.user, "server.lifecycle");
+        sendAck(socket, requestId, true, { data: { cancelled: manager.cancelShutdownCountdown() } });
+        return;
+      }
+
+      case "server.crashes": {
+        assertPermission(socket.data.user, "server.view");
+        const limit = Number(command.payload?.limit ?? 50);
+        sendAck(socket, requestId, true, { data: crashesFor(socket, manager.listServerCrashes(limit)) });
+        return;
+      }
+
+      case "players.online": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: manager.getOnlinePlayers() });
+        return;
+      }
+
+      case "players.sessions": {
+        assertPermission(socket.data.user, "server.view");
+        const uuid = String(command.payload?.uuid ?? "").trim();
+        const limit = Number(command.payload?.limit ?? 100);
+        sendAck(socket, requestId, true, { data: manager.listPlayerSessions(uuid || null, limit) });
+        return;
+      }
+
       case "server.command": {
+        assertPermission(socket.data.user, "server.console");
         const value = (command.payload?.value as string | undefined) ?? "";
         manager.sendCommand(value);
         sendAck(socket, requestId, true, { data: { ok: true } });
@@ -170,11 +494,13 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mods.list": {
+        assertPermission(socket.data.user, "server.view");
         sendAck(socket, requestId, true, { data: await manager.listMods() });
         return;
       }
 
       case "mod.disable": {
+        assertPermission(socket.data.user, "mods.write");
         const filename = command.payload?.filename as string | undefined;
         if (!filename) {
           commandError("filename is required.");
@@ -185,6 +511,7 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mod.enable": {
+        assertPermission(socket.data.user, "mods.write");
         const filename = command.payload?.filename as string | undefined;
         if (!filename) {
           commandError("filename is required.");
@@ -195,16 +522,18 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mod.delete": {
+        assertPermission(socket.data.user, "mods.write");
         const filename = command.payload?.filename as string | undefined;
         if (!filename) {
           commandError("filename is required.");
         }
-        await manager.deleteMod(filename);
+        await manager.deleteMod(filename, socket.data.user.email);
         sendAck(socket, requestId, true, { data: await manager.listMods() });
         return;
       }
 
       case "mod.upload.start": {
+        assertPermission(socket.data.user, "mods.write");
         const filename = command.payload?.filename as string | undefined;
         const size = Number(command.payload?.size ?? 0);
         if (!filename || !size) {
@@ -216,6 +545,7 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mod.upload.chunk": {
+        assertPermission(socket.data.user, "mods.write");
         const uploadId = command.payload?.uploadId as string | undefined;
         const chunk = command.payload?.chunk as string | undefined;
         if (!uploadId || !chunk) {
@@ -227,11 +557,12 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mod.upload.finish": {
+        assertPermission(socket.data.user, "mods.write");
         const uploadId = command.payload?.uploadId as string | undefined;
         if (!uploadId) {
           commandError("uploadId is required.");
         }
-        const mod = await manager.finishModUpload(uploadId);
+        const mod = await manager.finishModUpload(uploadId, socket.data.user.email);
         sendAck(socket, requestId, true, {
           data: {
             mod,
@@ -242,6 +573,7 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "mod.upload.cancel": {
+        assertPermission(socket.data.user, "mods.write");
         const uploadId = command.payload?.uploadId as string | undefined;
         if (!uploadId) {
           commandError("uploadId is required.");
@@ -251,12 +583,276 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
         return;
       }
 
+      case "curseforge.status": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.getCurseForgeStatus() });
+        return;
+      }
+
+      case "curseforge.connect": {
+        assertPermission(socket.data.user, "integrations.manage");
+        const apiKey = (command.payload?.apiKey as string | undefined) ?? "";
+        const gameId = Number(command.payload?.gameId ?? 0);
+        const classIdRaw = command.payload?.classId;
+        if (!apiKey.trim() || !gameId) {
+          commandError("apiKey and gameId are required.");
+        }
+
+        const result = await manager.connectCurseForge({
+          apiKey,
+          gameId,
+          classId: classIdRaw === undefined ? undefined : Number(classIdRaw),
+        });
+        sendAck(socket, requestId, true, {
+          data: {
+            ...result,
+            status: await manager.getCurseForgeStatus(),
+          },
+        });
+        return;
+      }
+
+      case "curseforge.search": {
+        assertPermission(socket.data.user, "server.view");
+        const pageRaw = command.payload?.page;
+        const pageSizeRaw = command.payload?.pageSize;
+        const result = await manager.searchCurseForgeMods({
+          query: (command.payload?.query as string | undefined) ?? "",
+          sort: command.payload?.sort as CurseForgeSearchSort | undefined,
+          page: pageRaw === undefined ? undefined : Number(pageRaw),
+          pageSize: pageSizeRaw === undefined ? undefined : Number(pageSizeRaw),
+        });
+        sendAck(socket, requestId, true, { data: result });
+        return;
+      }
+
+      case "curseforge.installed": {
+        assertPermission(socket.data.user, "server.view");
+        const checkUpdates = command.payload?.checkUpdates === true;
+        sendAck(socket, requestId, true, { data: await manager.listCurseForgeInstalledMods(checkUpdates) });
+        return;
+      }
+
+      case "curseforge.checkUpdates": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.checkCurseForgeUpdates() });
+        return;
+      }
+
+      case "curseforge.install": {
+        assertPermission(socket.data.user, "mods.write");
+        const modId = Number(command.payload?.modId ?? 0);
+        if (!modId) {
+          commandError("modId is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.installCurseForgeMod(modId, socket.data.user.email) });
+        return;
+      }
+
+      case "curseforge.update": {
+        assertPermission(socket.data.user, "mods.write");
+        const modId = Number(command.payload?.modId ?? 0);
+        if (!modId) {
+          commandError("modId is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.updateCurseForgeMod(modId, socket.data.user.email) });
+        return;
+      }
+
+      case "curseforge.updateAll": {
+        assertPermission(socket.data.user, "mods.write");
+        sendAck(socket, requestId, true, { data: await manager.updateAllCurseForgeMods(socket.data.user.email) });
+        return;
+      }
+
+      case "nexus.status": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.getNexusStatus() });
+        return;
+      }
+
+      case "nexus.sso.start": {
+        assertPermission(socket.data.user, "integrations.manage");
+        const gameDomain = command.payload?.gameDomain as string | undefined;
+        sendAck(socket, requestId, true, {
+          data: manager.startNexusSso({ gameDomain: gameDomain?.trim() || undefined }),
+        });
+        return;
+      }
+
+      case "nexus.sso.cancel": {
+        assertPermission(socket.data.user, "integrations.manage");
+        sendAck(socket, requestId, true, { data: { cancelled: manager.cancelNexusSso() } });
+        return;
+      }
+
+      case "nexus.connect": {
+        assertPermission(socket.data.user, "integrations.manage");
+        const apiKey = (command.payload?.apiKey as string | undefined) ?? "";
+        const gameDomain = command.payload?.gameDomain as string | undefined;
+        if (!apiKey.trim()) {
+          commandError("apiKey is required.");
+        }
+
+        const result = await manager.connectNexus({ apiKey, gameDomain: gameDomain?.trim() || undefined });
+        sendAck(socket, requestId, true, {
+          data: {
+            ...result,
+            status: await manager.getNexusStatus(),
+          },
+        });
+        return;
+      }
+
+      case "nexus.search": {
+        assertPermission(socket.data.user, "server.view");
+        const pageRaw = command.payload?.page;
+        const pageSizeRaw = command.payload?.pageSize;
+        const result = await manager.searchNexusMods({
+          query: (command.payload?.query as string | undefined) ?? "",
+          sort: command.payload?.sort as NexusSearchSort | undefined,
+          page: pageRaw === undefined ? undefined : Number(pageRaw),
+          pageSize: pageSizeRaw === undefined ? undefined : Number(pageSizeRaw),
+        });
+        sendAck(socket, requestId, true, { data: result });
+        return;
+      }
+
+      case "nexus.installed": {
+        assertPermission(socket.data.user, "server.view");
+        const checkUpdates = command.payload?.checkUpdates === true;
+        sendAck(socket, requestId, true, { data: await manager.listNexusInstalledMods(checkUpdates) });
+        return;
+      }
+
+      case "nexus.checkUpdates": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.checkNexusUpdates() });
+        return;
+      }
+
+      case "nexus.install": {
+        assertPermission(socket.data.user, "mods.write");
+        const modId = Number(command.payload?.modId ?? 0);
+        if (!modId) {
+          commandError("modId is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.installNexusMod(modId, socket.data.user.email) });
+        return;
+      }
+
+      case "nexus.update": {
+        assertPermission(socket.data.user, "mods.write");
+        const modId = Number(command.payload?.modId ?? 0);
+        if (!modId) {
+          commandError("modId is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.updateNexusMod(modId, socket.data.user.email) });
+        return;
+      }
+
+      case "nexus.updateAll": {
+        assertPermission(socket.data.user, "mods.write");
+        sendAck(socket, requestId, true, { data: await manager.updateAllNexusMods(socket.data.user.email) });
+        return;
+      }
+
+      case "schedules.list": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: manager.getSchedulerState() });
+        return;
+      }
+
+      case "schedules.runs": {
+        assertPermission(socket.data.user, "server.view");
+        const jobIdRaw = command.payload?.jobId;
+        const limit = Number(command.payload?.limit ?? 100);
+        sendAck(socket, requestId, true, {
+          data: manager.listScheduledJobRuns(jobIdRaw === undefined ? null : Number(jobIdRaw), limit),
+        });
+        return;
+      }
+
+      case "schedule.create": {
+        assertPermission(socket.data.user, "schedules.manage");
+        const name = (command.payload?.name as string | undefined) ?? "";
+        const cron = (command.payload?.cron as string | undefined) ?? "";
+        const action = (command.payload?.action as string | undefined) ?? "";
+        if (!name.trim() || !cron.trim() || !action) {
+          commandError("name, cron and action are required.");
+        }
+        assertScheduledActionPermission(socket.data.user, action);
+
+        const job = manager.createScheduledJob(
+          {
+            name,
+            cron,
+            action,
+            payload: command.payload?.payload as ScheduledJobPayload | undefined,
+            enabled: command.payload?.enabled === undefined ? true : command.payload.enabled === true,
+          },
+          socket.data.user.id,
+        );
+        sendAck(socket, requestId, true, { data: job });
+        return;
+      }
+
+      case "schedule.update": {
+        assertPermission(socket.data.user, "schedules.manage");
+        const id = Number(command.payload?.id ?? 0);
+        if (!id) {
+          commandError("id is required.");
+        }
+
+        // Editing a job needs the permission of the action it runs now and of the one it will run.
+        assertScheduledActionPermission(socket.data.user, manager.getScheduledJob(id).action);
+        const actionRaw = command.payload?.action;
+        if (typeof actionRaw === "string") {
+          assertScheduledActionPermission(socket.data.user, actionRaw);
+        }
+
+        const enabledRaw = command.payload?.enabled;
+        const job = manager.updateScheduledJob(id, {
+          name: command.payload?.name as string | undefined,
+          cron: command.payload?.cron as string | undefined,
+          action: command.payload?.action as string | undefined,
+          payload: command.payload?.payload as ScheduledJobPayload | undefined,
+          enabled: enabledRaw === undefined ? undefined : enabledRaw === true,
+        });
+        sendAck(socket, requestId, true, { data: job });
+        return;
+      }
+
+      case "schedule.delete": {
+        assertPermission(socket.data.user, "schedules.manage");
+        const id = Number(command.payload?.id ?? 0);
+        if (!id) {
+          commandError("id is required.");
+        }
+        manager.removeScheduledJob(id);
+        sendAck(socket, requestId, true, { data: manager.getSchedulerState() });
+        return;
+      }
+
+      case "schedule.run": {
+        assertPermission(socket.data.user, "schedules.manage");
+        const id = Number(command.payload?.id ?? 0);
+        if (!id) {
+          commandError("id is required.");
+        }
+        assertScheduledActionPermission(socket.data.user, manager.getScheduledJob(id).action);
+        sendAck(socket, requestId, true, { data: manager.runScheduledJobNow(id) });
+        return;
+      }
+
       case "logs.list": {
+        assertPermission(socket.data.user, "logs.read");
         sendAck(socket, requestId, true, { data: await manager.listLogFiles() });
         return;
       }
 
       case "logs.read": {
+        assertPermission(socket.data.user, "logs.read");
         const name = command.payload?.name as string | undefined;
         const tail = Number(command.payload?.tail ?? 300);
         if (!name) {
@@ -272,12 +868,13 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "whitelist.list": {
+        assertPermission(socket.data.user, "server.view");
         sendAck(socket, requestId, true, { data: await manager.listWhitelist() });
         return;
       }
 
       case "whitelist.setEnabled": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "whitelist.write");
         const enabled = command.payload?.enabled;
         if (typeof enabled !== "boolean") {
           commandError("enabled must be a boolean.");
@@ -288,25 +885,138 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "whitelist.add": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "whitelist.write");
         const value = (command.payload?.value as string | undefined) ?? "";
         sendAck(socket, requestId, true, { data: await manager.addWhitelistEntry(value) });
         return;
       }
 
       case "whitelist.remove": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "whitelist.write");
         const uuid = (command.payload?.uuid as string | undefined) ?? "";
         sendAck(socket, requestId, true, { data: await manager.removeWhitelistEntry(uuid) });
         return;
       }
 
+      case "moderation.list":
+      case "bans.list":
+      case "ops.list":
+      case "permissions.list": {
+        assertPermission(socket.data.user, "server.view");
+        const moderation = await manager.getModerationState();
+        const data =
+          command.action === "bans.list"
+            ? moderation.bans
+            : command.action === "ops.list"
+              ? moderation.ops
+              : command.action === "permissions.list"
+                ? moderation.permissions
+                : moderation;
+        sendAck(socket, requestId, true, { data });
+        return;
+      }
+
+      case "players.kick": {
+        assertPermission(socket.data.user, "players.kick");
+        const player = String(command.payload?.player ?? "").trim();
+        if (!player) {
+          commandError("player is required.");
+        }
+
+        await manager.kickPlayer(player, String(command.payload?.reason ?? ""));
+        sendAck(socket, requestId, true, { data: { ok: true } });
+        return;
+      }
+
+      case "bans.add": {
+        assertPermission(socket.data.user, "players.ban");
+        const player = String(command.payload?.player ?? "").trim();
+        if (!player) {
+          commandError("player is required.");
+        }
+
+        const rawExpiresAt = command.payload?.expiresAt;
+        const data = await manager.addBan({
+          player,
+          reason: String(command.payload?.reason ?? ""),
+          expiresAt: typeof rawExpiresAt === "string" || typeof rawExpiresAt === "number" ? String(rawExpiresAt) : null,
+        });
+        sendAck(socket, requestId, true, { data });
+        return;
+      }
+
+      case "bans.remove": {
+        assertPermission(socket.data.user, "players.ban");
+        const uuid = (command.payload?.uuid as string | undefined) ?? "";
+        sendAck(socket, requestId, true, { data: await manager.removeBan(uuid) });
+        return;
+      }
+
+      case "ops.add": {
+        assertPermission(socket.data.user, "players.operators");
+        const player = String(command.payload?.player ?? "").trim();
+        if (!player) {
+          commandError("player is required.");
+        }
+
+        sendAck(socket, requestId, true, { data: await manager.addOperator(player) });
+        return;
+      }
+
+      case "ops.remove": {
+        assertPermission(socket.data.user, "players.operators");
+        const uuid = (command.payload?.uuid as string | undefined) ?? "";
+        sendAck(socket, requestId, true, { data: await manager.removeOperator(uuid) });
+        return;
+      }
+
+      case "permissions.user.set": {
+        assertPermission(socket.data.user, "players.operators");
+        const player = String(command.payload?.player ?? "").trim();
+        if (!player) {
+          commandError("player is required.");
+        }
+
+        const data = await manager.setUserPermissions({
+          player,
+          groups: (command.payload?.groups as string[] | undefined) ?? [],
+          permissions: (command.payload?.permissions as string[] | undefined) ?? [],
+        });
+        sendAck(socket, requestId, true, { data });
+        return;
+      }
+
+      case "permissions.group.set": {
+        assertPermission(socket.data.user, "players.operators");
+        const group = String(command.payload?.group ?? "").trim();
+        if (!group) {
+          commandError("group is required.");
+        }
+
+        const permissions = (command.payload?.permissions as string[] | undefined) ?? [];
+        sendAck(socket, requestId, true, { data: await manager.setPermissionGroup(group, permissions) });
+        return;
+      }
+
+      case "permissions.group.delete": {
+        assertPermission(socket.data.user, "players.operators");
+        const group = String(command.payload?.group ?? "").trim();
+        if (!group) {
+          commandError("group is required.");
+        }
+
+        sendAck(socket, requestId, true, { data: await manager.deletePermissionGroup(group) });
+        return;
+      }
+
       case "backups.list": {
+        assertPermission(socket.data.user, "server.view");
         sendAck(socket, requestId, true, { data: await manager.listBackups() });
         return;
       }
 
       case "backup.create": {
+        assertPermission(socket.data.user, "backups.create");
         const note = (command.payload?.note as string | undefined) ?? "";
         const backup = await manager.createBackup(note);
         sendAck(socket, requestId, true, {
@@ -319,6 +1029,7 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "backup.delete": {
+        assertPermission(socket.data.user, "backups.delete");
         const id = command.payload?.id as string | undefined;
         if (!id) {
           commandError("id is required.");
@@ -328,26 +1039,176 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
         return;
       }
 
+      case "backup.pin": {
+        assertPermission(socket.data.user, "backups.delete");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        const pinned = command.payload?.pinned !== false;
+        sendAck(socket, requestId, true, { data: await manager.setBackupPinned(id, pinned) });
+        return;
+      }
+
+      case "backup.verify": {
+        assertPermission(socket.data.user, "backups.create");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        const mode = command.payload?.mode === "test-restore" ? "test-restore" : "verify";
+        const verification = mode === "verify" ? await manager.verifyBackup(id) : await manager.testRestoreBackup(id);
+        sendAck(socket, requestId, true, {
+          data: {
+            verification,
+            backups: await manager.listBackups(),
+          },
+        });
+        return;
+      }
+
+      case "backups.prune": {
+        assertPermission(socket.data.user, "backups.delete");
+        const run = await manager.applyBackupRetention("manual run");
+        sendAck(socket, requestId, true, {
+          data: {
+            run,
+            backups: await manager.listBackups(),
+          },
+        });
+        return;
+      }
+
+      case "backup.targets.list": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: manager.listBackupTargets() });
+        return;
+      }
+
+      case "backup.target.save": {
+        assertPermission(socket.data.user, "backups.offsite");
+        const rawId = command.payload?.id;
+        const id = rawId === undefined || rawId === null || rawId === "" ? null : Number(rawId);
+        if (id !== null && !Number.isInteger(id)) {
+          commandError("id must be an integer.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.saveBackupTarget(id, command.payload ?? {}) });
+        return;
+      }
+
+      case "backup.target.delete": {
+        assertPermission(socket.data.user, "backups.offsite");
+        const id = Number(command.payload?.id);
+        if (!Number.isInteger(id)) {
+          commandError("id is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.deleteBackupTarget(id) });
+        return;
+      }
+
+      case "backup.target.test": {
+        assertPermission(socket.data.user, "backups.offsite");
+        const id = Number(command.payload?.id);
+        if (!Number.isInteger(id)) {
+          commandError("id is required.");
+        }
+        await manager.testBackupTarget(id);
+        sendAck(socket, requestId, true, { data: { ok: true } });
+        return;
+      }
+
+      case "backup.targets.sync": {
+        assertPermission(socket.data.user, "backups.create");
+        await manager.syncBackupTargets("manual sync", { force: true });
+        sendAck(socket, requestId, true, {
+          data: {
+            backups: await manager.listBackups(),
+            targets: manager.listBackupTargets(),
+          },
+        });
+        return;
+      }
+
+      case "backup.remote.list": {
+        assertPermission(socket.data.user, "backups.restore");
+        const targetId = Number(command.payload?.targetId);
+        if (!Number.isInteger(targetId)) {
+          commandError("targetId is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.listRemoteBackups(targetId) });
+        return;
+      }
+
+      case "backup.remote.restore": {
+        assertPermission(socket.data.user, "backups.restore");
+        const targetId = Number(command.payload?.targetId);
+        const id = command.payload?.id as string | undefined;
+        if (!Number.isInteger(targetId) || !id) {
+          commandError("targetId and id are required.");
+        }
+        await manager.restoreRemoteBackup(targetId, id, socket.data.user.email);
+        sendAck(socket, requestId, true, { data: await manager.listBackups() });
+        return;
+      }
+
+      case "backup.contents": {
+        assertPermission(socket.data.user, "backups.restore");
+        const id = command.payload?.id as string | undefined;
+        if (!id) {
+          commandError("id is required.");
+        }
+        sendAck(socket, requestId, true, { data: await manager.listBackupContents(id) });
+        return;
+      }
+
       case "backup.restore": {
+        assertPermission(socket.data.user, "backups.restore");
         const id = command.payload?.id as string | undefined;
         if (!id) {
           commandError("id is required.");
         }
-        await manager.restoreBackup(id);
+
+        const paths = command.payload?.paths;
+        if (paths !== undefined) {
+          if (!Array.isArray(paths)) {
+            commandError("paths must be an array.");
+          }
+          const target = command.payload?.target ?? "live";
+          if (target !== "live" && target !== "side") {
+            commandError('target must be "live" or "side".');
+          }
+          const result = await manager.restoreBackupSelection(id, paths.map(String), target, socket.data.user.email);
+          sendAck(socket, requestId, true, { data: { ok: true, ...result } });
+          return;
+        }
+
+        await manager.restoreBackup(id, socket.data.user.email);
         sendAck(socket, requestId, true, { data: { ok: true } });
         return;
       }
 
+      case "safety.snapshots.list": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: await manager.listSafetySnapshots() });
+        return;
+      }
+
+      case "safety.undo": {
+        assertPermission(socket.data.user, "backups.restore");
+        const undone = await manager.undoLastOperation(socket.data.user.email);
+        sendAck(socket, requestId, true, { data: undone });
+        return;
+      }
+
       case "invite.create": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "users.manage");
         const email = command.payload?.email as string | undefined;
-        const role = (command.payload?.role as "owner" | "member" | undefined) ?? "member";
-
         if (!email) {
           commandError("email is required.");
         }
 
-        const invite = await createInviteAndDispatch(socket.data.user.id, email, role);
+        const assignment = resolveRoleAssignment(socket.data.user, command.payload?.role, command.payload?.roleId);
+        const invite = await createInviteAndDispatch(socket.data.user.id, email, assignment.role, assignment.roleId);
         sendAck(socket, requestId, true, {
           data: {
             invite,
@@ -358,13 +1219,13 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
       }
 
       case "invites.list": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "users.manage");
         sendAck(socket, requestId, true, { data: getInviteSummaries() });
         return;
       }
 
       case "invite.revoke": {
-        assertOwner(socket.data.user);
+        assertPermission(socket.data.user, "users.manage");
         const id = Number(command.payload?.id ?? 0);
         if (!id) {
           commandError("id is required.");
@@ -375,7 +1236,80 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
         return;
       }
 
+      case "roles.list": {
+        assertPermission(socket.data.user, "server.view");
+        sendAck(socket, requestId, true, { data: listRoles() });
+        return;
+      }
+
+      case "role.create": {
+        assertPermission(socket.data.user, "users.manage");
+        const role = createCustomRole(socket.data.user, {
+          name: command.payload?.name,
+          description: command.payload?.description,
+          permissions: command.payload?.permissions,
+        });
+        sendAck(socket, requestId, true, { data: { role, roles: listRoles() } });
+        return;
+      }
+
+      case "role.update": {
+        assertPermission(socket.data.user, "users.manage");
+        const id = Number(command.payload?.id ?? 0);
+        if (!id) {
+          commandError("id is required.");
+        }
+
+        const role = updateCustomRole(socket.data.user, id, {
+          name: command.payload?.name,
+          description: command.payload?.description,
+          permissions: command.payload?.permissions,
+        });
+        refreshSocketPermissions();
+        sendAck(socket, requestId, true, { data: { role, roles: listRoles() } });
+        return;
+      }
+
+      case "role.delete": {
+        assertPermission(socket.data.user, "users.manage");
+        const id = Number(command.payload?.id ?? 0);
+        if (!id) {
+          commandError("id is required.");
+        }
+
+        removeCustomRole(id);
+        refreshSocketPermissions();
+        sendAck(socket, requestId, true, { data: { roles: listRoles(), users: listUsers() } });
+        return;
+      }
+
+      case "users.list": {
+        assertPermission(socket.data.user, "users.manage");
+        sendAck(socket, requestId, true, { data: listUsers() });
+        return;
+      }
+
+      case "user.setRole": {
+        assertPermission(socket.data.user, "users.manage");
+        const userId = Number(command.payload?.userId ?? 0);
+        if (!userId) {
+          commandError("userId is required.");
+        }
+
+        assignUserRole(socket.data.user, userId, command.payload?.role, command.payload?.roleId);
+        refreshSocketPermissions();
+        sendAck(socket, requestId, true, { data: listUsers() });
+        return;
+      }
+
+      case "audit.list": {
+        assertOwner(socket.data.user);
+        sendAck(socket, requestId, true, { data: listAuditEvents(parseAuditFilter(command.payload ?? {})) });
+        return;
+      }
+
       case "ping": {
+        assertPermission(socket.data.user, "server.view");
         sendAck(socket, requestId, true, { data: { now: new Date().toISOString() } });
         return;
       }
@@ -386,6 +1320,7 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
     }
   } catch (error) {
     if (error instanceof AppError) {
+      failure = { status: error.status, error: error.message };
       sendAck(socket, requestId, false, {
         error: error.message,
         status: error.status,
@@ -394,20 +1329,49 @@ async function dispatchCommand(socket: ServerWebSocket<SocketData>, command: Com
     }
 
     console.error("Command failure", error);
+    failure = { status: 500, error: "Unexpected command error" };
     sendAck(socket, requestId, false, {
       error: "Unexpected command error",
       status: 500,
     });
+  } finally {
+    recordAudit({
+      user: socket.data.user,
+      action: command.action || "(missing)",
+      payload: command.payload,
+      status: failure?.status ?? 200,
+      error: failure?.error,
+      ip: socket.data.ip,
+    });
   }
 }
 
-async function handleSetup(request: Request): Promise<Response> {
+function recordAuthFailure(action: string, email: string | null, error: unknown, ip: string | null): void {
+  recordAudit({
+    user: null,
+    email,
+    action,
+    status: error instanceof AppError ? error.status : 500,
+    error: error instanceof Error ? error.message : String(error),
+    ip,
+  });
+}
+
+async function handleSetup(request: Request, ip: string | null): Promise<Response> {
   type Body = { email?: string; password?: string };
   const body = await parseJson<Body>(request);
   const email = body.email?.trim() ?? "";
   const password = body.password ?? "";
 
-  const session = await setupOwner(email, password);
+  let session: Awaited<ReturnType<typeof setupOwner>>;
+  try {
+    session = await setupOwner(email, password);
+  } catch (error) {
+    recordAuthFailure("auth.setup", email || null, error, ip);
+    throw error;
+  }
+
+  recordAudit({ user: session.user, action: "auth.setup", status: 201, ip });
   manager.startInitializationAfterOwnerSetup();
   return jsonResponse(
     {
@@ -424,10 +1388,19 @@ async function handleSetup(request: Request): Promise<Response> {
   );
 }
 
-async function handleLogin(request: Request): Promise<Response> {
+async function handleLogin(request: Request, ip: string | null): Promise<Response> {
   type Body = { email?: string; password?: string };
   const body = await parseJson<Body>(request);
-  const session = await login(body.email ?? "", body.password ?? "");
+
+  let session: Awaited<ReturnType<typeof login>>;
+  try {
+    session = await login(body.email ?? "", body.password ?? "");
+  } catch (error) {
+    recordAuthFailure("auth.login", body.email?.trim() || null, error, ip);
+    throw error;
+  }
+
+  recordAudit({ user: session.user, action: "auth.login", status: 200, ip });
 
   return jsonResponse(
     {
@@ -443,11 +1416,19 @@ async function handleLogin(request: Request): Promise<Response> {
   );
 }
 
-async function handleRegisterFromInvite(request: Request): Promise<Response> {
+async function handleRegisterFromInvite(request: Request, ip: string | null): Promise<Response> {
   type Body = { token?: string; password?: string };
   const body = await parseJson<Body>(request);
 
-  const session = await registerFromInvite(body.token ?? "", body.password ?? "");
+  let session: Awaited<ReturnType<typeof registerFromInvite>>;
+  try {
+    session = await registerFromInvite(body.token ?? "", body.password ?? "");
+  } catch (error) {
+    recordAuthFailure("auth.invite.accept", null, error, ip);
+    throw error;
+  }
+
+  recordAudit({ user: session.user, action: "auth.invite.accept", status: 201, ip });
   return jsonResponse(
     {
       ok: true,
@@ -463,8 +1444,12 @@ async function handleRegisterFromInvite(request: Request): Promise<Response> {
   );
 }
 
-async function handleLogout(request: Request): Promise<Response> {
+async function handleLogout(request: Request, ip: string | null): Promise<Response> {
+  const user = getSessionUserFromRequest(request);
   logoutFromRequest(request);
+  if (user) {
+    recordAudit({ user, action: "auth.logout", status: 200, ip });
+  }
   return jsonResponse(
     {
       ok: true,
@@ -491,6 +1476,162 @@ async function handleMe(request: Request): Promise<Response> {
   );
 }
 
+function handleAuditExport(request: Request): Response {
+  const user = getSessionUserFromRequest(request);
+  if (!user) {
+    throw new AppError(401, "Authentication required");
+  }
+  assertOwner(user);
+
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new AppError(400, 'format must be "json" or "csv".');
+  }
+
+  const events = listAuditEvents(parseAuditFilter(Object.fromEntries(url.searchParams), AUDIT_EXPORT_LIMIT));
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const body = format === "csv" ? formatAuditCsv(events) : JSON.stringify(events, null, 2);
+  return new Response(body, {
+    headers: {
+      "content-type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "content-disposition": `attachment; filename="audit-log-${stamp}.${format}"`,
+    },
+  });
+}
+
+function requireRequestPermission(request: Request, permission: Permission): PublicUser {
+  const user = getSessionUserFromRequest(request);
+  if (!user) {
+    throw new AppError(401, "Authentication required");
+  }
+  assertPermission(user, permission);
+  return user;
+}
+
+/**
+ * Runs an HTTP backup transfer request for a user holding `backups.transfer` and writes it to
+ * the audit log like a dashboard command. Chunk uploads pass `audit: false` to keep the log readable.
+ */
+function handleBackupTransfer(
+  request: Request,
+  serverInstance: Server<SocketData>,
+  action: string,
+  payload: unknown,
+  handler: (user: PublicUser) => Promise<Response>,
+  audit = true,
+): Promise<Response> {
+  return handleAuditedRequest("backups.transfer", request, serverInstance, action, payload, handler, audit);
+}
+
+async function handleAuditedRequest(
+  permission: Permission,
+  request: Request,
+  serverInstance: Server<SocketData>,
+  action: string,
+  payload: unknown,
+  handler: (user: PublicUser) => Promise<Response>,
+  audit = true,
+): Promise<Response> {
+  const ip = requestIp(request, serverInstance);
+  let user: PublicUser | null = null;
+  try {
+    user = requireRequestPermission(request, permission);
+    const response = await handler(user);
+    if (audit) {
+      recordAudit({ user, action, payload, status: response.status, ip });
+    }
+    return response;
+  } catch (error) {
+    if (user) {
+      recordAudit({
+        user,
+        action,
+        payload,
+        status: error instanceof AppError ? error.status : 500,
+        error: error instanceof Error ? error.message : String(error),
+        ip,
+      });
+    }
+    return errorResponse(error);
+  }
+}
+
+async function handleBackupDownload(request: Request): Promise<Response> {
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    throw new AppError(400, "id is required.");
+  }
+
+  const download = await manager.openBackupDownload(id);
+  const headers: Record<string, string> = {
+    "content-type": "application/zip",
+    "content-disposition": `attachment; filename="${download.filename.replace(/[^A-Za-z0-9._-]/g, "_")}"`,
+  };
+  if (download.size !== null) {
+    headers["content-length"] = String(download.size);
+  }
+  return new Response(download.body, { headers });
+}
+
+async function handleBackupImportStart(request: Request, user: PublicUser): Promise<Response> {
+  type Body = { filename?: unknown; size?: unknown; sha256?: unknown; note?: unknown };
+  const body = await parseJson<Body>(request);
+  if (typeof body.filename !== "string" || !body.filename) {
+    throw new AppError(400, "filename is required.");
+  }
+
+  const session = await manager.startBackupImport(user.id, {
+    filename: body.filename,
+    size: Number(body.size),
+    sha256: typeof body.sha256 === "string" ? body.sha256 : null,
+    note: typeof body.note === "string" ? body.note : "",
+  });
+  return jsonResponse({ ok: true, upload: session }, { status: 201 });
+}
+
+async function handleBackupImportChunk(request: Request, user: PublicUser, importId: string): Promise<Response> {
+  const offset = Number(new URL(request.url).searchParams.get("offset"));
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new AppError(400, "offset must be a non-negative integer.");
+  }
+
+  const chunk = new Uint8Array(await request.arrayBuffer());
+  const session = await manager.appendBackupImport(user.id, importId, offset, chunk);
+  return jsonResponse({ ok: true, upload: session });
+}
+
+async function handleServerArchiveUploadStart(request: Request, user: PublicUser): Promise<Response> {
+  type Body = { filename?: unknown; size?: unknown; sha256?: unknown; version?: unknown; patchline?: unknown };
+  const body = await parseJson<Body>(request);
+  if (typeof body.filename !== "string" || !body.filename) {
+    throw new AppError(400, "filename is required.");
+  }
+  if (typeof body.version !== "string" || !body.version) {
+    throw new AppError(400, "version is required.");
+  }
+
+  const session = await manager.startServerArchiveUpload(user.id, {
+    filename: body.filename,
+    size: Number(body.size),
+    version: body.version,
+    patchline: typeof body.patchline === "string" ? body.patchline : null,
+    sha256: typeof body.sha256 === "string" ? body.sha256 : null,
+  });
+  return jsonResponse({ ok: true, upload: session }, { status: 201 });
+}
+
+async function handleServerArchiveUploadChunk(request: Request, user: PublicUser, uploadId: string): Promise<Response> {
+  const offset = Number(new URL(request.url).searchParams.get("offset"));
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new AppError(400, "offset must be a non-negative integer.");
+  }
+
+  const chunk = new Uint8Array(await request.arrayBuffer());
+  const session = await manager.appendServerArchiveUpload(user.id, uploadId, offset, chunk);
+  return jsonResponse({ ok: true, upload: session });
+}
+
 function errorResponse(error: unknown): Response {
   if (error instanceof AppError) {
     return jsonResponse(
@@ -529,9 +1670,9 @@ const server = Bun.serve<SocketData>({
     },
 
     "/api/auth/setup": {
-      POST: async (request: Request) => {
+      POST: async (request: Request, serverInstance: Server<SocketData>) => {
         try {
-          return await handleSetup(request);
+          return await handleSetup(request, requestIp(request, serverInstance));
         } catch (error) {
           return errorResponse(error);
         }
@@ -539,9 +1680,9 @@ const server = Bun.serve<SocketData>({
     },
 
     "/api/auth/login": {
-      POST: async (request: Request) => {
+      POST: async (request: Request, serverInstance: Server<SocketData>) => {
         try {
-          return await handleLogin(request);
+          return await handleLogin(request, requestIp(request, serverInstance));
         } catch (error) {
           return errorResponse(error);
         }
@@ -549,9 +1690,9 @@ const server = Bun.serve<SocketData>({
     },
 
     "/api/auth/register-invite": {
-      POST: async (request: Request) => {
+      POST: async (request: Request, serverInstance: Server<SocketData>) => {
         try {
-          return await handleRegisterFromInvite(request);
+          return await handleRegisterFromInvite(request, requestIp(request, serverInstance));
         } catch (error) {
           return errorResponse(error);
         }
@@ -568,10 +1709,132 @@ const server = Bun.serve<SocketData>({
       },
     },
 
+    "/api/audit/export": {
+      GET: async (request: Request) => {
+        try {
+          return handleAuditExport(request);
+        } catch (error) {
+          return errorResponse(error);
+        }
+      },
+    },
+
+    "/api/backups/download": {
+      GET: (request: Request, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(
+          request,
+          serverInstance,
+          "backup.download",
+          { id: new URL(request.url).searchParams.get("id") },
+          () => handleBackupDownload(request),
+        ),
+    },
+
+    "/api/backups/imports": {
+      POST: (request: Request, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(request, serverInstance, "backup.import.start", null, (user) =>
+          handleBackupImportStart(request, user),
+        ),
+    },
+
+    "/api/backups/imports/:id": {
+      GET: (request: BunRequest<"/api/backups/imports/:id">, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(
+          request,
+          serverInstance,
+          "backup.import.status",
+          null,
+          async (user) => jsonResponse({ ok: true, upload: await manager.getBackupImport(user.id, request.params.id) }),
+          false,
+        ),
+      PUT: (request: BunRequest<"/api/backups/imports/:id">, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(
+          request,
+          serverInstance,
+          "backup.import.chunk",
+          null,
+          (user) => handleBackupImportChunk(request, user, request.params.id),
+          false,
+        ),
+      DELETE: (request: BunRequest<"/api/backups/imports/:id">, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(request, serverInstance, "backup.import.cancel", { id: request.params.id }, async (user) => {
+          await manager.cancelBackupImport(user.id, request.params.id);
+          return jsonResponse({ ok: true });
+        }),
+    },
+
+    "/api/backups/imports/:id/complete": {
+      POST: (request: BunRequest<"/api/backups/imports/:id/complete">, serverInstance: Server<SocketData>) =>
+        handleBackupTransfer(request, serverInstance, "backup.import.finish", { id: request.params.id }, async (user) => {
+          const backup = await manager.finishBackupImport(user.id, request.params.id);
+          return jsonResponse({ ok: true, backup });
+        }),
+    },
+
+    "/api/server/archives": {
+      POST: (request: Request, serverInstance: Server<SocketData>) =>
+        handleAuditedRequest("server.install", request, serverInstance, "server.archive.start", null, (user) =>
+          handleServerArchiveUploadStart(request, user),
+        ),
+    },
+
+    "/api/server/archives/:id": {
+      GET: (request: BunRequest<"/api/server/archives/:id">, serverInstance: Server<SocketData>) =>
+        handleAuditedRequest(
+          "server.install",
+          request,
+          serverInstance,
+          "server.archive.status",
+          null,
+          async (user) =>
+            jsonResponse({ ok: true, upload: await manager.getServerArchiveUpload(user.id, request.params.id) }),
+          false,
+        ),
+      PUT: (request: BunRequest<"/api/server/archives/:id">, serverInstance: Server<SocketData>) =>
+        handleAuditedRequest(
+          "server.install",
+          request,
+          serverInstance,
+          "server.archive.chunk",
+          null,
+          (user) => handleServerArchiveUploadChunk(request, user, request.params.id),
+          false,
+        ),
+      DELETE: (request: BunRequest<"/api/server/archives/:id">, serverInstance: Server<SocketData>) =>
+        handleAuditedRequest(
+          "server.install",
+          request,
+          serverInstance,
+          "server.archive.cancel",
+          { id: request.params.id },
+          async (user) => {
+            await manager.cancelServerArchiveUpload(user.id, request.params.id);
+            return jsonResponse({ ok: true });
+          },
+        ),
+    },
+
+    "/api/server/archives/:id/install": {
+      POST: (request: BunRequest<"/api/server/archives/:id/install">, serverInstance: Server<SocketData>) =>
+        handleAuditedRequest(
+          "server.install",
+          request,
+          serverInstance,
+          "server.archive.install",
+          { id: request.params.id },
+          async (user) => {
+            // Checking and extracting a multi-gigabyte archive outlasts the default idle timeout.
+            serverInstance.timeout(request, 0);
+            const result = await manager.installServerArchiveUpload(user.id, request.params.id, user.email);
+            return jsonResponse({ ok: true, result });
+          },
+        ),
+    },
+
     "/api/auth/logout": {
-      POST: async (request: Request) => {
+      POST: async (request: Request, serverInstance: Server<SocketData>) => {
         try {
-          return await handleLogout(request);
+          return await handleLogout(request, requestIp(request, serverInstance));
         } catch (error) {
           return errorResponse(error);
         }
@@ -594,9 +1857,21 @@ const server = Bun.serve<SocketData>({
         );
       }
 
+      if (!hasPermission(user, "server.view")) {
+        return jsonResponse(
+          {
+            ok: false,
+            error: "Your role does not grant dashboard access.",
+          },
+          { status: 403 },
+        );
+      }
+
       const upgraded = serverInstance.upgrade(request, {
         data: {
           user,
+          ip: requestIp(request, serverInstance),
+          permissions: getUserPermissions(user),
         },
       });
 
@@ -659,4 +1934,23 @@ const server = Bun.serve<SocketData>({
   },
 });
 
+manager.startScheduler();
+
+if (config.hytale.installArchivePath) {
+  void manager
+    .installFromLocalArchive(
+      {
+        archivePath: config.hytale.installArchivePath,
+        version: config.hytale.installArchiveVersion,
+        patchline: config.hytale.installArchivePatchline || null,
+        sha256: config.hytale.installArchiveSha256 || null,
+        skipIfInstalled: true,
+      },
+      "cli",
+    )
+    .catch((error) => {
+      console.error(`Install from ${config.hytale.installArchivePath} failed: ${(error as Error).message}`);
+    });
+}
+
 console.log(`Hytale manager running at ${config.app.publicBaseUrl}`);
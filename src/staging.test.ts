@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { defaultStagingPort, readStagingInstall, StagingInstall, writeStagingInstall } from "./staging";
+
+describe("defaultStagingPort", () => {
+  test("uses the port after the live one, or the one before at the top of the range", () => {
+    expect(defaultStagingPort(5520)).toBe(5521);
+    expect(defaultStagingPort(65535)).toBe(65534);
+  });
+});
+
+describe("staging metadata", () => {
+  let stagingDir: string;
+  const install: StagingInstall = {
+    patchline: "pre-release",
+    version: "2026.02.01",
+    port: 5521,
+    createdAt: "2026-02-01T00:00:00.000Z",
+    createdBy: "builder@example.com",
+    worldSource: "consistent",
+  };
+
+  beforeEach(async () => {
+    stagingDir = await mkdtemp(path.join(tmpdir(), "staging-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(stagingDir, { recursive: true, force: true });
+  });
+
+  test("reads back what was written", async () => {
+    await writeStagingInstall(stagingDir, install);
+    expect(await readStagingInstall(stagingDir)).toEqual(install);
+  });
+
+  test("treats a directory without readable metadata as no staging install", async () => {
+    expect(await readStagingInstall(stagingDir)).toBeNull();
+    await writeFile(path.join(stagingDir, ".hytale-manager-staging.json"), "{not json", "utf8");
+    expect(await readStagingInstall(stagingDir)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { pathExists } from "./utils";
+
+export type StagingWorldSource = "consistent" | "offline" | "live";
+
+export type StagingInstall = {
+  patchline: string;
+  version: string;
+  port: number;
+  createdAt: string;
+  createdBy: string | null;
+  // How the world was copied: flushed from the running server, from a stopped server, or as-is from a running one.
+  worldSource: StagingWorldSource;
+};
+
+const STAGING_METADATA_NAME = ".hytale-manager-staging.json";
+
+/** The port a staging server uses unless one is chosen: next to the live port, inside the valid range. */
+export function defaultStagingPort(livePort: number): number {
+  return livePort < 65535 ? livePort + 1 : livePort - 1;
+}
+
+export async function readStagingInstall(directory: string): Promise<StagingInstall | null> {
+  const metadataPath = path.join(directory, STAGING_METADATA_NAME);
+  if (!(await pathExists(metadataPath))) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(await readFile(metadataPath, "utf8")) as Partial<StagingInstall>;
+    if (typeof parsed.patchline !== "string" || typeof parsed.version !== "string" || typeof parsed.port !== "number") {
+      return null;
+    }
+    return {
+      patchline: parsed.patchline,
+      version: parsed.version,
+      port: parsed.port,
+      createdAt: typeof parsed.createdAt === "string" ? parsed.createdAt : new Date(0).toISOString(),
+      createdBy: typeof parsed.createdBy === "string" ? parsed.createdBy : null,
+      worldSource: parsed.worldSource === "consistent" || parsed.worldSource === "offline" ? parsed.worldSource : "live",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Written last when a staging server is created, so a directory without it is an unfinished copy. */
+export async function writeStagingInstall(directory: string, install: StagingInstall): Promise<void> {
+  await writeFile(path.join(directory, STAGING_METADATA_NAME), JSON.stringify(install, null, 2), "utf8");
+}
@@ -1,3 +1,4 @@
+import { access } from "node:fs/promises";
 import path from "node:path";
 
 export class AppError extends Error {
@@ -106,6 +107,16 @@ export function timestampId(date = new Date()): string {
   ].join("");
 }
 
+/**
+ * True when anything exists at `pathname`: a file, a directory or a symlink whose target exists.
+ * Bun.file().exists() reports false for directories, so this checks with access() instead; call
+ * sites that need a regular file must check the type themselves.
+ */
 export async function pathExists(pathname: string): Promise<boolean> {
-  return await Bun.file(pathname).exists();
+  try {
+    await access(pathname);
+    return true;
+  } catch {
+    return false;
+  }
 }
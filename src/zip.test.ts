@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import { chmod, mkdir, mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { extractZipArchive, resolveZipEntryPath, ZipArchive, ZipWriter } from "./zip";
+import { AppError, pathExists } from "./utils";
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await mkdtemp(path.join(tmpdir(), "zip-test-"));
+});
+
+afterEach(async () => {
+  await rm(workDir, { recursive: true, force: true });
+});
+
+async function readAll(archive: ZipArchive): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  for (const entry of archive.entries) {
+    if (!entry.isDirectory) {
+      contents.set(entry.name, (await archive.readEntry(entry, 1024 * 1024)).toString("utf8"));
+    }
+  }
+  return contents;
+}
+
+describe("ZipWriter and ZipArchive", () => {
+  test("round-trips stored, deflated, directory and tree entries", async () => {
+    const sourceDir = path.join(workDir, "source");
+    await mkdir(path.join(sourceDir, "nested"), { recursive: true });
+    await writeFile(path.join(sourceDir, "nested", "world.json"), '{"seed":42}');
+    await writeFile(path.join(sourceDir, "start.sh"), "#!/bin/sh\necho hi\n");
+    await chmod(path.join(sourceDir, "start.sh"), 0o755);
+
+    const archivePath = path.join(workDir, "out.zip");
+    const writer = await ZipWriter.create(archivePath);
+    const stored = await writer.addBuffer("stored.txt", Buffer.from("plain"), { compress: false });
+    await writer.addBuffer("deflated.txt", Buffer.from("abc".repeat(1000)), { compress: true });
+    await writer.addDirectory("empty");
+    await writer.addTree("tree", sourceDir);
+    await writer.close();
+
+    expect(stored.size).toBe(5);
+    expect(stored.sha256).toBe(createHash("sha256").update("plain").digest("hex"));
+
+    const archive = await ZipArchive.open(archivePath);
+    try {
+      const contents = await readAll(archive);
+      expect(contents.get("stored.txt")).toBe("plain");
+      expect(contents.get("deflated.txt")).toBe("abc".repeat(1000));
+      expect(contents.get("tree/nested/world.json")).toBe('{"seed":42}');
+      expect(archive.entries.find((entry) => entry.name === "empty/")?.isDirectory).toBe(true);
+      const deflated = archive.entries.find((entry) => entry.name === "deflated.txt");
+      expect(deflated?.compressedSize).toBeLessThan(deflated?.uncompressedSize ?? 0);
+    } finally {
+      await archive.close();
+    }
+
+    const extractDir = path.join(workDir, "extracted");
+    const result = await extractZipArchive(archivePath, extractDir);
+    expect(result.files).toBe(4);
+    expect(await readFile(path.join(extractDir, "tree", "nested", "world.json"), "utf8")).toBe('{"seed":42}');
+    expect((await stat(path.join(extractDir, "tree", "start.sh"))).mode & 0o111).not.toBe(0);
+    expect(await pathExists(path.join(extractDir, "empty"))).toBe(true);
+  });
+
+  test("round-trips a streamed archive written with data descriptors", async () => {
+    const { writer, stream } = ZipWriter.stream();
+    const collected = new Response(stream).arrayBuffer();
+    await writer.addBuffer("a.txt", Buffer.from("first"));
+    await writer.addBuffer("b/c.txt", Buffer.from("second".repeat(100)));
+    await writer.close();
+
+    const archivePath = path.join(workDir, "streamed.zip");
+    await writeFile(archivePath, Buffer.from(await collected));
+
+    const archive = await ZipArchive.open(archivePath);
+    try {
+      const contents = await readAll(archive);
+      expect(contents.get("a.txt")).toBe("first");
+      expect(contents.get("b/c.txt")).toBe("second".repeat(100));
+    } finally {
+      await archive.close();
+    }
+  });
+
+  test("rejects an entry whose content does not match its CRC", async () => {
+    const archivePath = path.join(workDir, "corrupt.zip");
+    const writer = await ZipWriter.create(archivePath);
+    await writer.addBuffer("data.txt", Buffer.from("intact content"), { compress: false });
+    await writer.close();
+
+    const bytes = await readFile(archivePath);
+    const at = bytes.indexOf("intact content");
+    bytes[at] = "X".charCodeAt(0);
+    await writeFile(archivePath, bytes);
+
+    const archive = await ZipArchive.open(archivePath);
+    try {
+      await expect(archive.readEntry(archive.entries[0]!, 1024)).rejects.toThrow();
+    } finally {
+      await archive.close();
+    }
+  });
+
+  test("rejects files that are not ZIP archives", async () => {
+    const notZip = path.join(workDir, "not.zip");
+    await writeFile(notZip, "just some text that is long enough to look at");
+    await expect(ZipArchive.open(notZip)).rejects.toThrow(AppError);
+  });
+});
+
+describe("zip-slip protection", () => {
+  test.each([["../evil.txt"], ["a/../../evil.txt"], ["..\\evil.txt"], ["/etc/passwd"], ["C:/evil.txt"], ["a\0b"]])(
+    "resolveZipEntryPath rejects %p",
+    (name) => {
+      expect(() => resolveZipEntryPath(workDir, name)).toThrow(AppError);
+    },
+  );
+
+  test("resolveZipEntryPath keeps safe names inside the root", () => {
+    expect(resolveZipEntryPath(workDir, "a/b.txt")).toBe(path.join(workDir, "a", "b.txt"));
+    expect(resolveZipEntryPath(workDir, "a\\b.txt")).toBe(path.join(workDir, "a", "b.txt"));
+  });
+
+  test("extractZipArchive refuses entries that escape the destination", async () => {
+    const archivePath = path.join(workDir, "slip.zip");
+    const writer = await ZipWriter.create(archivePath);
+    await writer.addBuffer("../escaped.txt", Buffer.from("gotcha"));
+    await writer.close();
+
+    const destination = path.join(workDir, "dest");
+    await expect(extractZipArchive(archivePath, destination)).rejects.toThrow(AppError);
+    expect(await pathExists(path.join(workDir, "escaped.txt"))).toBe(false);
+  });
+
+  test("extractZipArchive can rename and skip entries", async () => {
+    const archivePath = path.join(workDir, "select.zip");
+    const writer = await ZipWriter.create(archivePath);
+    await writer.addBuffer("server/keep.txt", Buffer.from("keep"));
+    await writer.addBuffer("server/skip.txt", Buffer.from("skip"));
+    await writer.close();
+
+    const destination = path.join(workDir, "dest");
+    const result = await extractZipArchive(archivePath, destination, {
+      select: (name) => (name.endsWith("skip.txt") ? null : name.replace(/^server\//, "")),
+    });
+    expect(result.files).toBe(1);
+    expect(await readFile(path.join(destination, "keep.txt"), "utf8")).toBe("keep");
+  });
+});
@@ -0,0 +1,786 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import { createHash } from "node:crypto";
+import { chmod, FileHandle, mkdir, open, readdir, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { pipeline as chainStreams, PassThrough, Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import zlib from "node:zlib";
+import { AppError } from "./utils";
+
+export type ZipEntry = {
+  name: string;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  method: number;
+  encrypted: boolean;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  mode: number | null;
+  modifiedAt: Date;
+};
+
+export type ZipWriteOptions = {
+  compress?: boolean;
+  modifiedAt?: Date;
+  mode?: number;
+};
+
+export type ZipWrittenEntry = {
+  name: string;
+  size: number;
+  compressedSize: number;
+  sha256: string;
+};
+
+type CentralRecord = {
+  nameBytes: Buffer;
+  flags: number;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  externalAttributes: number;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+// Deflate can grow incompressible input slightly, so entries get ZIP64 headers well before 4 GiB.
+const ZIP64_ENTRY_THRESHOLD = 0xf0000000;
+
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const MADE_BY_UNIX = 3 << 8;
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+const MSDOS_DIRECTORY_ATTRIBUTE = 0x10;
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  const value = buffer.readBigUInt64LE(offset);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new AppError(400, "ZIP archive uses offsets larger than this reader supports.");
+  }
+  return Number(value);
+}
+
+function writeUInt64(buffer: Buffer, value: number, offset: number): void {
+  buffer.writeBigUInt64LE(BigInt(value), offset);
+}
+
+function fromDosDateTime(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  );
+}
+
+function toDosDateTime(value: Date): { dosDate: number; dosTime: number } {
+  const year = Math.min(Math.max(value.getFullYear(), 1980), 2107);
+  return {
+    dosDate: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    dosTime: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+  };
+}
+
+async function readExactly(handle: FileHandle, length: number, position: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new AppError(400, "ZIP archive is truncated.");
+  }
+  return buffer;
+}
+
+async function writeAt(handle: FileHandle, buffer: Buffer, position: number): Promise<void> {
+  let written = 0;
+  while (written < buffer.length) {
+    const result = await handle.write(buffer, written, buffer.length - written, position + written);
+    written += result.bytesWritten;
+  }
+}
+
+/**
+ * Resolves an entry name inside `rootDir`, rejecting absolute paths, drive letters and any
+ * `..` segment so a crafted archive cannot write outside the extraction directory (zip-slip).
+ */
+export function resolveZipEntryPath(rootDir: string, entryName: string): string {
+  const normalized = entryName.replace(/\\/g, "/");
+  if (
+    normalized.includes("\0") ||
+    normalized.startsWith("/") ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized.split("/").includes("..")
+  ) {
+    throw new AppError(400, `ZIP entry "${entryName}" points outside the extraction directory.`);
+  }
+
+  const root = path.resolve(rootDir);
+  const target = path.resolve(root, normalized);
+  if (target !== root && !target.startsWith(`${root}${path.sep}`)) {
+    throw new AppError(400, `ZIP entry "${entryName}" points outside the extraction directory.`);
+  }
+  return target;
+}
+
+export class ZipArchive {
+  private constructor(
+    readonly filePath: string,
+    private readonly handle: FileHandle,
+    readonly entries: ZipEntry[],
+  ) {}
+
+  static async open(filePath: string): Promise<ZipArchive> {
+    const handle = await open(filePath, "r");
+    try {
+      const entries = await ZipArchive.readCentralDirectory(handle);
+      return new ZipArchive(filePath, handle, entries);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  private static async readCentralDirectory(handle: FileHandle): Promise<ZipEntry[]> {
+    const { size } = await handle.stat();
+    if (size < END_OF_CENTRAL_DIRECTORY_SIZE) {
+      throw new AppError(400, "File is not a ZIP archive.");
+    }
+
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+    const tailStart = size - tailLength;
+    const tail = await readExactly(handle, tailLength, tailStart);
+
+    let eocdOffset = -1;
+    for (let index = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; index >= 0; index -= 1) {
+      if (tail.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        eocdOffset = index;
+        break;
+      }
+    }
+    if (eocdOffset < 0) {
+      throw new AppError(400, "File is not a ZIP archive (end of central directory not found).");
+    }
+
+    let entryCount = tail.readUInt16LE(eocdOffset + 10);
+    let directorySize = tail.readUInt32LE(eocdOffset + 12);
+    let directoryOffset = tail.readUInt32LE(eocdOffset + 16);
+
+    const locatorPosition = tailStart + eocdOffset - ZIP64_LOCATOR_SIZE;
+    if (locatorPosition >= 0) {
+      const locator = await readExactly(handle, ZIP64_LOCATOR_SIZE, locatorPosition);
+      if (locator.readUInt32LE(0) === ZIP64_LOCATOR_SIGNATURE) {
+        const zip64 = await readExactly(handle, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE, readUInt64(locator, 8));
+        if (zip64.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+          throw new AppError(400, "ZIP64 end of central directory record is corrupt.");
+        }
+        entryCount = readUInt64(zip64, 32);
+        directorySize = readUInt64(zip64, 40);
+        directoryOffset = readUInt64(zip64, 48);
+      }
+    }
+
+    if (directoryOffset + directorySize > size) {
+      throw new AppError(400, "ZIP central directory is out of bounds.");
+    }
+
+    const directory = await readExactly(handle, directorySize, directoryOffset);
+    const entries: ZipEntry[] = [];
+    let cursor = 0;
+
+    for (let index = 0; index < entryCount; index += 1) {
+      if (cursor + CENTRAL_HEADER_SIZE > directory.length || directory.readUInt32LE(cursor) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new AppError(400, "ZIP central directory is corrupt.");
+      }
+
+      const madeBy = directory.readUInt16LE(cursor + 4);
+      const flags = directory.readUInt16LE(cursor + 8);
+      const method = directory.readUInt16LE(cursor + 10);
+      const dosTime = directory.readUInt16LE(cursor + 12);
+      const dosDate = directory.readUInt16LE(cursor + 14);
+      const crc32 = directory.readUInt32LE(cursor + 16);
+      let compressedSize = directory.readUInt32LE(cursor + 20);
+      let uncompressedSize = directory.readUInt32LE(cursor + 24);
+      const nameLength = directory.readUInt16LE(cursor + 28);
+      const extraLength = directory.readUInt16LE(cursor + 30);
+      const commentLength = directory.readUInt16LE(cursor + 32);
+      const externalAttributes = directory.readUInt32LE(cursor + 38);
+      let localHeaderOffset = directory.readUInt32LE(cursor + 42);
+
+      const nameStart = cursor + CENTRAL_HEADER_SIZE;
+      const extraStart = nameStart + nameLength;
+      const next = extraStart + extraLength + commentLength;
+      if (next > directory.length) {
+        throw new AppError(400, "ZIP central directory is corrupt.");
+      }
+
+      const name = directory.toString("utf8", nameStart, extraStart);
+
+      // ZIP64 sizes/offsets appear in the extra field only for header values saturated at 0xFFFFFFFF.
+      let extraCursor = extraStart;
+      while (extraCursor + 4 <= extraStart + extraLength) {
+        const fieldId = directory.readUInt16LE(extraCursor);
+        const fieldSize = directory.readUInt16LE(extraCursor + 2);
+        if (fieldId === ZIP64_EXTRA_FIELD_ID) {
+          let fieldCursor = extraCursor + 4;
+          if (uncompressedSize === UINT32_MAX) {
+            uncompressedSize = readUInt64(directory, fieldCursor);
+            fieldCursor += 8;
+          }
+          if (compressedSize === UINT32_MAX) {
+            compressedSize = readUInt64(directory, fieldCursor);
+            fieldCursor += 8;
+          }
+          if (localHeaderOffset === UINT32_MAX) {
+            localHeaderOffset = readUInt64(directory, fieldCursor);
+          }
+          break;
+        }
+        extraCursor += 4 + fieldSize;
+      }
+
+      const mode = madeBy >> 8 === 3 ? externalAttributes >>> 16 : null;
+      const fileType = mode !== null ? mode & S_IFMT : 0;
+      entries.push({
+        name,
+        isDirectory:
+          name.endsWith("/") || fileType === S_IFDIR || (externalAttributes & MSDOS_DIRECTORY_ATTRIBUTE) !== 0,
+        isSymlink: fileType === S_IFLNK,
+        method,
+        encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+        crc32,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        mode: mode !== null && mode !== 0 ? mode : null,
+        modifiedAt: fromDosDateTime(dosDate, dosTime),
+      });
+
+      cursor = next;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Streams the decompressed content of an entry. The stream fails when the CRC or size
+   * does not match the central directory, which also caps output for deflate bombs.
+   */
+  async openEntryStream(entry: ZipEntry): Promise<Readable> {
+    if (entry.isDirectory) {
+      throw new AppError(400, `ZIP entry "${entry.name}" is a directory.`);
+    }
+    if (entry.encrypted) {
+      throw new AppError(400, `ZIP entry "${entry.name}" is encrypted, which is not supported.`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      throw new AppError(400, `ZIP entry "${entry.name}" uses unsupported compression method ${entry.method}.`);
+    }
+
+    const header = await readExactly(this.handle, LOCAL_HEADER_SIZE, entry.localHeaderOffset);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new AppError(400, `ZIP local header for "${entry.name}" is corrupt.`);
+    }
+
+    const dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const raw =
+      entry.compressedSize > 0
+        ? createReadStream(this.filePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 })
+        : Readable.from([]);
+
+    let crc = 0;
+    let produced = 0;
+    const verifier = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        produced += chunk.length;
+        if (produced > entry.uncompressedSize) {
+          callback(new AppError(400, `ZIP entry "${entry.name}" is larger than its declared size.`));
+          return;
+        }
+        crc = zlib.crc32(chunk, crc);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        if (produced !== entry.uncompressedSize || crc !== entry.crc32) {
+          callback(new AppError(400, `ZIP entry "${entry.name}" is corrupt (size or CRC mismatch).`));
+          return;
+        }
+        callback();
+      },
+    });
+
+    // Failures anywhere in the chain destroy the verifier, so consumers see them as stream errors.
+    const ignore = () => undefined;
+    if (entry.method === METHOD_DEFLATE) {
+      chainStreams(raw, zlib.createInflateRaw(), verifier, ignore);
+    } else {
+      chainStreams(raw, verifier, ignore);
+    }
+    return verifier;
+  }
+
+  async readEntry(entry: ZipEntry, maxBytes: number): Promise<Buffer> {
+    if (entry.uncompressedSize > maxBytes) {
+      throw new AppError(413, `ZIP entry "${entry.name}" exceeds ${maxBytes} bytes.`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.openEntryStream(entry)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+/**
+ * Extracts every entry of `archivePath` into `destinationDir`, rejecting entries that would
+ * escape it and symbolic links. Executable bits recorded by Unix archivers are preserved.
+ * `select` can rename entries or skip them by returning null.
+ */
+export async function extractZipArchive(
+  archivePath: string,
+  destinationDir: string,
+  options: { signal?: AbortSignal; select?: (entryName: string) => string | null } = {},
+): Promise<{ files: number; bytes: number }> {
+  const archive = await ZipArchive.open(archivePath);
+  let files = 0;
+  let bytes = 0;
+
+  try {
+    for (const entry of archive.entries) {
+      options.signal?.throwIfAborted();
+      const relativeName = options.select ? options.select(entry.name) : entry.name;
+      if (relativeName === null) {
+        continue;
+      }
+      const target = resolveZipEntryPath(destinationDir, relativeName);
+
+      if (entry.isDirectory) {
+        await mkdir(target, { recursive: true });
+        continue;
+      }
+      if (entry.isSymlink) {
+        throw new AppError(400, `ZIP entry "${entry.name}" is a symbolic link, which is not allowed.`);
+      }
+
+      await mkdir(path.dirname(target), { recursive: true });
+      await pipeline(await archive.openEntryStream(entry), createWriteStream(target), { signal: options.signal });
+      if (entry.mode !== null && (entry.mode & 0o111) !== 0) {
+        await chmod(target, entry.mode & 0o777);
+      }
+
+      files += 1;
+      bytes += entry.uncompressedSize;
+    }
+  } finally {
+    await archive.close();
+  }
+
+  return { files, bytes };
+}
+
+/**
+ * Where a ZipWriter sends its bytes. Outputs that can seek get their local headers patched in
+ * place; the others (`patch: null`) get a data descriptor after each entry instead.
+ */
+type ZipOutput = {
+  append(buffer: Buffer): Promise<void>;
+  patch: ((buffer: Buffer, position: number) => Promise<void>) | null;
+  close(): Promise<void>;
+  discard(): Promise<void>;
+};
+
+function createFileOutput(filePath: string, handle: FileHandle): ZipOutput {
+  let position = 0;
+  return {
+    async append(buffer) {
+      await writeAt(handle, buffer, position);
+      position += buffer.length;
+    },
+    patch: (buffer, at) => writeAt(handle, buffer, at),
+    close: () => handle.close(),
+    async discard() {
+      await handle.close().catch(() => undefined);
+      await rm(filePath, { force: true });
+    },
+  };
+}
+
+function createStreamOutput(stream: PassThrough): ZipOutput {
+  return {
+    append: (buffer) =>
+      new Promise<void>((resolve, reject) => {
+        if (stream.destroyed) {
+          reject(new AppError(499, "ZIP stream was closed by the reader."));
+          return;
+        }
+        if (stream.write(buffer)) {
+          resolve();
+          return;
+        }
+        // Wait for the reader to catch up; a reader that goes away ends the write with an error.
+        const onDrain = () => {
+          stream.off("close", onClose);
+          resolve();
+        };
+        const onClose = () => {
+          stream.off("drain", onDrain);
+          reject(new AppError(499, "ZIP stream was closed by the reader."));
+        };
+        stream.once("drain", onDrain);
+        stream.once("close", onClose);
+      }),
+    patch: null,
+    close: async () => {
+      stream.end();
+    },
+    discard: async () => {
+      stream.destroy();
+    },
+  };
+}
+
+/**
+ * Sequential ZIP writer. File output patches local headers in place once an entry's CRC and
+ * sizes are known; streamed output writes data descriptors instead. ZIP64 records are added
+ * only when needed.
+ */
+export class ZipWriter {
+  private readonly records: CentralRecord[] = [];
+  private offset = 0;
+  private closed = false;
+
+  private constructor(private readonly output: ZipOutput) {}
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(createFileOutput(filePath, await open(filePath, "w")));
+  }
+
+  /**
+   * Creates a writer whose archive is produced as a stream, e.g. for an HTTP response. The
+   * stream applies backpressure, so entries are read from disk only as fast as they are consumed.
+   */
+  static stream(): { writer: ZipWriter; stream: ReadableStream<Uint8Array> } {
+    const output = new PassThrough();
+    const chunks = output[Symbol.asyncIterator]();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(next.value as Buffer);
+        }
+      },
+      cancel() {
+        output.destroy();
+      },
+    });
+    return { writer: new ZipWriter(createStreamOutput(output)), stream };
+  }
+
+  private async append(buffer: Buffer): Promise<void> {
+    await this.output.append(buffer);
+    this.offset += buffer.length;
+  }
+
+  get entryCount(): number {
+    return this.records.length;
+  }
+
+  async addDirectory(name: string, options: ZipWriteOptions = {}): Promise<void> {
+    const directoryName = name.endsWith("/") ? name : `${name}/`;
+    await this.addEntry(directoryName, null, 0, {
+      ...options,
+      compress: false,
+      mode: S_IFDIR | ((options.mode ?? 0o755) & 0o7777),
+    });
+  }
+
+  async addFile(name: string, sourcePath: string, options: ZipWriteOptions = {}): Promise<ZipWrittenEntry> {
+    const info = await stat(sourcePath);
+    return this.addEntry(name, createReadStream(sourcePath), info.size, {
+      modifiedAt: info.mtime,
+      ...options,
+      mode: S_IFREG | ((options.mode ?? info.mode) & 0o7777),
+    });
+  }
+
+  async addBuffer(name: string, data: Uint8Array, options: ZipWriteOptions = {}): Promise<ZipWrittenEntry> {
+    return this.addEntry(name, Readable.from([Buffer.from(data)]), data.byteLength, {
+      ...options,
+      mode: S_IFREG | ((options.mode ?? 0o644) & 0o7777),
+    });
+  }
+
+  /**
+   * Adds `sourceDir` recursively under `prefix`. Symbolic links are skipped so an archive
+   * never captures files from outside the tree.
+   */
+  async addTree(
+    prefix: string,
+    sourceDir: string,
+    options: Omit<ZipWriteOptions, "mode" | "modifiedAt"> = {},
+  ): Promise<ZipWrittenEntry[]> {
+    const written: ZipWrittenEntry[] = [];
+    const info = await stat(sourceDir);
+    await this.addDirectory(prefix, { modifiedAt: info.mtime, mode: info.mode });
+
+    const entries = await readdir(sourceDir, { withFileTypes: true });
+    entries.sort((left, right) => left.name.localeCompare(right.name));
+    for (const entry of entries) {
+      const sourcePath = path.join(sourceDir, entry.name);
+      const entryName = `${prefix.replace(/\/+$/, "")}/${entry.name}`;
+      if (entry.isDirectory()) {
+        written.push(...(await this.addTree(entryName, sourcePath, options)));
+      } else if (entry.isFile()) {
+        written.push(await this.addFile(entryName, sourcePath, options));
+      }
+    }
+    return written;
+  }
+
+  private async addEntry(
+    name: string,
+    source: Readable | null,
+    sizeHint: number,
+    options: ZipWriteOptions & { mode: number },
+  ): Promise<ZipWrittenEntry> {
+    if (this.closed) {
+      throw new AppError(500, "ZIP writer is already closed.");
+    }
+
+    const nameBytes = Buffer.from(name.replace(/\\/g, "/"), "utf8");
+    if (nameBytes.length > UINT16_MAX) {
+      throw new AppError(400, `ZIP entry name is too long: ${name}`);
+    }
+
+    const method = source && options.compress !== false ? METHOD_DEFLATE : METHOD_STORED;
+    const flags = FLAG_UTF8 | (source && !this.output.patch ? FLAG_DATA_DESCRIPTOR : 0);
+    const zip64 = sizeHint >= ZIP64_ENTRY_THRESHOLD;
+    const { dosDate, dosTime } = toDosDateTime(options.modifiedAt ?? new Date());
+    const localHeaderOffset = this.offset;
+
+    const extraLength = zip64 ? 20 : 0;
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE + nameBytes.length + extraLength);
+    header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+    header.writeUInt16LE(flags, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(extraLength, 28);
+    nameBytes.copy(header, LOCAL_HEADER_SIZE);
+    if (zip64) {
+      header.writeUInt32LE(UINT32_MAX, 18);
+      header.writeUInt32LE(UINT32_MAX, 22);
+      header.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, LOCAL_HEADER_SIZE + nameBytes.length);
+      header.writeUInt16LE(16, LOCAL_HEADER_SIZE + nameBytes.length + 2);
+    }
+    await this.append(header);
+
+    let crc = 0;
+    let uncompressedSize = 0;
+    let compressedSize = 0;
+    const hash = createHash("sha256");
+    if (source) {
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          crc = zlib.crc32(chunk, crc);
+          hash.update(chunk);
+          uncompressedSize += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      const sink = async (chunks: AsyncIterable<Buffer>) => {
+        for await (const chunk of chunks) {
+          await this.append(chunk);
+          compressedSize += chunk.length;
+        }
+      };
+
+      if (method === METHOD_DEFLATE) {
+        await pipeline(source, counter, zlib.createDeflateRaw(), sink);
+      } else {
+        await pipeline(source, counter, sink);
+      }
+    }
+
+    if (!zip64 && (compressedSize >= UINT32_MAX || uncompressedSize >= UINT32_MAX)) {
+      throw new AppError(500, `ZIP entry "${name}" grew past 4 GiB while it was being written.`);
+    }
+
+    if (flags & FLAG_DATA_DESCRIPTOR) {
+      const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+      descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        writeUInt64(descriptor, compressedSize, 8);
+        writeUInt64(descriptor, uncompressedSize, 16);
+      } else {
+        descriptor.writeUInt32LE(compressedSize, 8);
+        descriptor.writeUInt32LE(uncompressedSize, 12);
+      }
+      await this.append(descriptor);
+    } else if (this.output.patch) {
+      const patch = Buffer.alloc(12);
+      patch.writeUInt32LE(crc, 0);
+      patch.writeUInt32LE(zip64 ? UINT32_MAX : compressedSize, 4);
+      patch.writeUInt32LE(zip64 ? UINT32_MAX : uncompressedSize, 8);
+      await this.output.patch(patch, localHeaderOffset + 14);
+      if (zip64) {
+        const sizes = Buffer.alloc(16);
+        writeUInt64(sizes, uncompressedSize, 0);
+        writeUInt64(sizes, compressedSize, 8);
+        await this.output.patch(sizes, localHeaderOffset + LOCAL_HEADER_SIZE + nameBytes.length + 4);
+      }
+    }
+
+    const isDirectory = (options.mode & S_IFMT) === S_IFDIR;
+    this.records.push({
+      nameBytes,
+      flags,
+      method,
+      dosTime,
+      dosDate,
+      crc32: crc,
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      externalAttributes: ((options.mode & UINT16_MAX) << 16) | (isDirectory ? MSDOS_DIRECTORY_ATTRIBUTE : 0),
+    });
+
+    return {
+      name: nameBytes.toString("utf8"),
+      size: uncompressedSize,
+      compressedSize,
+      sha256: hash.digest("hex"),
+    };
+  }
+
+  async close(): Promise<{ entries: number; bytes: number }> {
+    if (this.closed) {
+      throw new AppError(500, "ZIP writer is already closed.");
+    }
+    this.closed = true;
+
+    try {
+      const directoryOffset = this.offset;
+      for (const record of this.records) {
+        const zip64Values: number[] = [];
+        if (record.uncompressedSize >= UINT32_MAX) {
+          zip64Values.push(record.uncompressedSize);
+        }
+        if (record.compressedSize >= UINT32_MAX) {
+          zip64Values.push(record.compressedSize);
+        }
+        if (record.localHeaderOffset >= UINT32_MAX) {
+          zip64Values.push(record.localHeaderOffset);
+        }
+
+        const extraLength = zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0;
+        const header = Buffer.alloc(CENTRAL_HEADER_SIZE + record.nameBytes.length + extraLength);
+        header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+        header.writeUInt16LE(MADE_BY_UNIX | VERSION_ZIP64, 4);
+        header.writeUInt16LE(zip64Values.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+        header.writeUInt16LE(record.flags, 8);
+        header.writeUInt16LE(record.method, 10);
+        header.writeUInt16LE(record.dosTime, 12);
+        header.writeUInt16LE(record.dosDate, 14);
+        header.writeUInt32LE(record.crc32, 16);
+        header.writeUInt32LE(Math.min(record.compressedSize, UINT32_MAX), 20);
+        header.writeUInt32LE(Math.min(record.uncompressedSize, UINT32_MAX), 24);
+        header.writeUInt16LE(record.nameBytes.length, 28);
+        header.writeUInt16LE(extraLength, 30);
+        header.writeUInt32LE(record.externalAttributes >>> 0, 38);
+        header.writeUInt32LE(Math.min(record.localHeaderOffset, UINT32_MAX), 42);
+        record.nameBytes.copy(header, CENTRAL_HEADER_SIZE);
+        if (zip64Values.length > 0) {
+          const extraStart = CENTRAL_HEADER_SIZE + record.nameBytes.length;
+          header.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, extraStart);
+          header.writeUInt16LE(zip64Values.length * 8, extraStart + 2);
+          zip64Values.forEach((value, index) => writeUInt64(header, value, extraStart + 4 + index * 8));
+        }
+
+        await this.append(header);
+      }
+
+      const directorySize = this.offset - directoryOffset;
+      const needsZip64 =
+        this.records.length >= UINT16_MAX || directoryOffset >= UINT32_MAX || directorySize >= UINT32_MAX;
+
+      if (needsZip64) {
+        const zip64Offset = this.offset;
+        const record = Buffer.alloc(ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_LOCATOR_SIZE);
+        record.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+        writeUInt64(record, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE - 12, 4);
+        record.writeUInt16LE(MADE_BY_UNIX | VERSION_ZIP64, 12);
+        record.writeUInt16LE(VERSION_ZIP64, 14);
+        writeUInt64(record, this.records.length, 24);
+        writeUInt64(record, this.records.length, 32);
+        writeUInt64(record, directorySize, 40);
+        writeUInt64(record, directoryOffset, 48);
+        record.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE);
+        writeUInt64(record, zip64Offset, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + 8);
+        record.writeUInt32LE(1, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + 16);
+        await this.append(record);
+      }
+
+      const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+      end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+      end.writeUInt16LE(Math.min(this.records.length, UINT16_MAX), 8);
+      end.writeUInt16LE(Math.min(this.records.length, UINT16_MAX), 10);
+      end.writeUInt32LE(Math.min(directorySize, UINT32_MAX), 12);
+      end.writeUInt32LE(Math.min(directoryOffset, UINT32_MAX), 16);
+      await this.append(end);
+    } finally {
+      await this.output.close();
+    }
+
+    return { entries: this.records.length, bytes: this.offset };
+  }
+
+  /**
+   * Closes the writer and discards the partial output: the file is deleted, a stream is destroyed.
+   */
+  async abort(): Promise<void> {
+    this.closed = true;
+    await this.output.discard();
+  }
+}